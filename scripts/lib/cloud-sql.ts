@@ -649,6 +649,7 @@ const PRESERVE_TABLES = new Set([
   "auth_audit_log",
   "user_settings",
   "inventory_items",
+  "battle_reports",
   "officer_overlay",
   "ship_overlay",
   "targets",
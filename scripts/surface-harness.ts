@@ -0,0 +1,182 @@
+#!/usr/bin/env tsx
+/**
+ * surface-harness.ts — Local stand-in for a chat bot (chat surfaces)
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Plays the bot side of the chat-surface webhook protocol from a terminal:
+ * each line typed is sent to Majel as a signed message, and a local HTTP
+ * server receives Aria's signed replies and prints them with their
+ * approve/decline buttons. Handy for trying a surface before wiring up a
+ * real Discord bot, which speaks exactly the same protocol.
+ *
+ * Setup:
+ *   1. As an Admiral, register a chat bot with callback URL
+ *      http://localhost:8787/ (Admiral console → Chat Bots) and copy the secret.
+ *   2. npm run surface:harness -- --surface <id> --secret <cssec_…>
+ *   3. In the web app, open Chat bots, get a link code, and type "link <code>".
+ *
+ * Commands:
+ *   <text>              Send a message to Aria
+ *   /approve <id>       Press the approve button on a proposal
+ *   /decline <id>       Press the decline button on a proposal
+ *   /quit               Exit
+ */
+
+import { createServer } from "node:http";
+import { randomUUID } from "node:crypto";
+import { createInterface } from "node:readline";
+import { SIGNATURE_HEADER, signatureHeader, verifyWebhookSignature } from "../src/server/services/webhook-dispatcher.js";
+import type { OutboundReply } from "../src/server/services/chat-surfaces.js";
+
+interface Options {
+  base: string;
+  surface: string;
+  secret: string;
+  port: number;
+  user: string;
+  username: string;
+  conversation: string;
+}
+
+function usage(): never {
+  console.error(`
+Usage: npm run surface:harness -- --surface <id> --secret <secret> [options]
+
+Options:
+  --surface <id>        Chat surface id (required)
+  --secret <secret>     The surface's signing secret (required)
+  --base <url>          Majel base URL (default: http://localhost:3000)
+  --port <port>         Port for the reply callback server (default: 8787)
+  --user <id>           Platform user id to send as (default: harness-user)
+  --username <name>     Platform username (default: harness)
+  --conversation <id>   Conversation id (default: harness)
+`);
+  process.exit(1);
+}
+
+function parseArgs(args: string[]): Options {
+  const values: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--help" || arg === "-h") usage();
+    if (arg.startsWith("--") && args[i + 1]) values[arg.slice(2)] = args[++i];
+  }
+  if (!values.surface || !values.secret) usage();
+  const port = Number(values.port ?? 8787);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) usage();
+  return {
+    base: (values.base ?? "http://localhost:3000").replace(/\/+$/, ""),
+    surface: values.surface,
+    secret: values.secret,
+    port,
+    user: values.user ?? "harness-user",
+    username: values.username ?? "harness",
+    conversation: values.conversation ?? "harness",
+  };
+}
+
+function printReply(reply: OutboundReply): void {
+  console.log(`\n🤖 Aria${reply.runId ? ` (run ${reply.runId})` : ""}:\n${reply.text}`);
+  for (const proposal of reply.proposals) {
+    console.log(`\n  📋 Proposal ${proposal.id} (expires ${proposal.expiresAt})`);
+    for (const item of proposal.items) console.log(`     • ${item}`);
+    console.log(`     ${proposal.buttons.map((b) => `[${b.label}] /${b.action} ${b.proposalId}`).join("   ")}`);
+  }
+}
+
+async function send(options: Options, event: Record<string, unknown>): Promise<void> {
+  const body = JSON.stringify(event);
+  const response = await fetch(`${options.base}/api/surfaces/${options.surface}/inbound`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Requested-With": "majel-client",
+      [SIGNATURE_HEADER]: signatureHeader(options.secret, body),
+    },
+    body,
+  });
+  const json = await response.json().catch(() => null) as
+    | { ok: true; data: { status: string; runId?: string; reply?: { text: string } } }
+    | { ok: false; error: { code: string; message: string } }
+    | null;
+  if (!json) {
+    console.error(`❌ HTTP ${response.status} (no JSON body)`);
+  } else if (!json.ok) {
+    console.error(`❌ ${json.error.code}: ${json.error.message}`);
+  } else if (json.data.reply) {
+    console.log(`\n🤖 Aria:\n${json.data.reply.text}`);
+  } else if (json.data.status === "queued") {
+    console.log(`… queued as run ${json.data.runId}`);
+  } else {
+    console.log(`… ${json.data.status}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const body = Buffer.concat(chunks).toString("utf8");
+      const signature = req.headers[SIGNATURE_HEADER.toLowerCase()];
+      if (!verifyWebhookSignature(options.secret, Array.isArray(signature) ? signature[0] : signature, body)) {
+        console.error("\n⚠️  Rejected a callback with a bad signature");
+        res.writeHead(401).end();
+        return;
+      }
+      res.writeHead(204).end();
+      try {
+        printReply(JSON.parse(body) as OutboundReply);
+      } catch {
+        console.error("\n⚠️  Callback body was not JSON");
+      }
+      rl.prompt();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(options.port, resolve));
+
+  console.log(`📡 Listening for replies on http://localhost:${options.port}/`);
+  console.log(`💬 Sending to ${options.base} as ${options.username} (${options.user}). Type /quit to exit.`);
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout, prompt: "> " });
+  rl.prompt();
+  for await (const line of rl) {
+    const text = line.trim();
+    if (text === "/quit") break;
+    const button = /^\/(approve|decline)\s+(\S+)$/.exec(text);
+    try {
+      if (button) {
+        await send(options, {
+          type: "action",
+          platformUserId: options.user,
+          conversationId: options.conversation,
+          action: button[1],
+          proposalId: button[2],
+        });
+      } else if (text) {
+        await send(options, {
+          type: "message",
+          platformUserId: options.user,
+          platformUsername: options.username,
+          conversationId: options.conversation,
+          messageId: randomUUID(),
+          text,
+        });
+      }
+    } catch (err) {
+      console.error(`❌ ${err instanceof Error ? err.message : String(err)}`);
+    }
+    rl.prompt();
+  }
+
+  rl.close();
+  server.close();
+}
+
+main().catch((err) => {
+  console.error("❌ Error:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
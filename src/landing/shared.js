@@ -0,0 +1,63 @@
+/**
+ * shared.js — Read-only shared conversation page
+ *
+ * Ariadne — STFC Fleet Intelligence System
+ * Loads /api/shared/:token for the token in the page URL. No account needed.
+ */
+
+const SPEAKERS = { user: 'You', model: 'Aria', system: 'System' };
+
+function showError(text) {
+    const meta = document.getElementById('shared-meta');
+    meta.textContent = text;
+    meta.className = 'shared-meta error';
+}
+
+function renderMessage(message) {
+    const item = document.createElement('li');
+    item.className = `shared-message ${message.role}`;
+
+    const sender = document.createElement('div');
+    sender.className = 'shared-sender';
+    sender.textContent = SPEAKERS[message.role] || message.role;
+    const time = document.createElement('span');
+    time.className = 'shared-time';
+    time.textContent = new Date(message.createdAt).toLocaleString();
+    sender.appendChild(time);
+
+    const text = document.createElement('div');
+    text.className = 'shared-text';
+    text.textContent = message.text;
+
+    item.append(sender, text);
+    if (message.toolCalls && message.toolCalls.length) {
+        const tools = document.createElement('div');
+        tools.className = 'shared-tools';
+        tools.textContent = `Tools used: ${message.toolCalls.join(', ')}`;
+        item.appendChild(tools);
+    }
+    return item;
+}
+
+async function loadShared() {
+    const token = decodeURIComponent(location.pathname.split('/').pop() || '');
+    try {
+        const resp = await fetch(`/api/shared/${encodeURIComponent(token)}`);
+        const body = await resp.json();
+        if (!resp.ok || !body.ok) {
+            showError(body.error?.message || 'This link is invalid or has expired.');
+            return;
+        }
+        const { session, messages, expiresAt } = body.data;
+        document.title = `${session.title} — Ariadne`;
+        document.getElementById('shared-title').textContent = session.title;
+        document.getElementById('shared-meta').textContent =
+            `Read-only · ${messages.length} messages · link expires ${new Date(expiresAt).toLocaleString()}`;
+        const list = document.getElementById('shared-messages');
+        messages.forEach(m => list.appendChild(renderMessage(m)));
+    } catch {
+        showError('Could not load this conversation — check your connection and try again.');
+    }
+}
+
+loadShared();
@@ -9,6 +9,10 @@ import type { ChatEngine } from "./services/engine.js";
 import type { FleetConfig, IntentConfig, IntentMode } from "./services/gemini/index.js";
 import type { ProgressionContextV1 } from "./services/progression-context.js";
 import type { MemoryService } from "./services/memory.js";
+import type { DecisionStoreFactory } from "./stores/decision-store.js";
+import type { AllianceStoreFactory } from "./stores/alliance-store.js";
+import { createDecisionSource } from "./services/decision-memory.js";
+import type { Embedder } from "./services/semantic-recall.js";
 import type { FrameStoreFactory } from "./stores/postgres-frame-store.js";
 import type { SettingsStore } from "./stores/settings.js";
 import type { SessionStore } from "./sessions.js";
@@ -19,13 +23,20 @@ import type { ReferenceStore } from "./stores/reference-store.js";
 import type { OverlayStore, OverlayStoreFactory } from "./stores/overlay-store.js";
 import type { InviteStore } from "./stores/invite-store.js";
 import type { UserStore } from "./stores/user-store.js";
+import type { ApiTokenStore } from "./stores/api-token-store.js";
 import type { TargetStore, TargetStoreFactory } from "./stores/target-store.js";
 import type { AuditStore } from "./stores/audit-store.js";
 import type { UserSettingsStore } from "./stores/user-settings-store.js";
 import type { ResearchStore, ResearchStoreFactory } from "./stores/research-store.js";
 import type { InventoryStore, InventoryStoreFactory } from "./stores/inventory-store.js";
+import type { BattleReportStoreFactory } from "./stores/battle-report-store.js";
 import type { ProposalStore, ProposalStoreFactory } from "./stores/proposal-store.js";
 import type { OperationEventStore, OperationEventStoreFactory } from "./stores/operation-event-store.js";
+import type { OperationStream } from "./services/operation-stream.js";
+import type { WebhookStoreFactory } from "./stores/webhook-store.js";
+import type { WebhookDispatcher } from "./services/webhook-dispatcher.js";
+import type { ChatSurfaceStore } from "./stores/chat-surface-store.js";
+import type { ChatSurfaceRelay } from "./services/chat-surfaces.js";
 import type { ChatRunStore } from "./stores/chat-run-store.js";
 import type { EffectStore } from "./stores/effect-store.js";
 import type { TokenLedgerStore } from "./stores/token-ledger-store.js";
@@ -52,6 +63,8 @@ export interface AppState {
   memoryService: MemoryService | null;
   /** ADR-021: Factory that creates per-user RLS-scoped FrameStores. */
   frameStoreFactory: FrameStoreFactory | null;
+  /** Embeds Lex frames and recall queries (semantic-recall.ts). */
+  embedder: Embedder;
   settingsStore: SettingsStore | null;
   sessionStore: SessionStore | null;
   /** ADR-025: Unified crew composition store (replaces dock + loadout stores). */
@@ -69,6 +82,8 @@ export interface AppState {
   overlayStoreFactory: OverlayStoreFactory | null;
   inviteStore: InviteStore | null;
   userStore: UserStore | null;
+  /** Scoped personal access tokens for integrations. */
+  apiTokenStore: ApiTokenStore | null;
   targetStore: TargetStore | null;
   /** #85: Factory that creates per-user RLS-scoped TargetStores. */
   targetStoreFactory: TargetStoreFactory | null;
@@ -84,6 +99,12 @@ export interface AppState {
   inventoryStore: InventoryStore | null;
   /** Factory that creates per-user RLS-scoped InventoryStores. */
   inventoryStoreFactory: InventoryStoreFactory | null;
+  /** Factory that creates per-user RLS-scoped battle report stores. */
+  battleReportStoreFactory: BattleReportStoreFactory | null;
+  /** Factory for per-user fleet decision stores (decision-memory.ts). */
+  decisionStoreFactory: DecisionStoreFactory | null;
+  /** Factory for alliance stores — scoped to the caller's alliance membership. */
+  allianceStoreFactory: AllianceStoreFactory | null;
   /** ADR-026b #93: Mutation proposal store. */
   proposalStore: ProposalStore | null;
   /** #93: Factory for per-user proposal stores. */
@@ -92,6 +113,16 @@ export interface AppState {
   operationEventStore: OperationEventStore | null;
   /** ADR-037: Factory for per-user operation event stores. */
   operationEventStoreFactory: OperationEventStoreFactory | null;
+  /** ADR-037: Push delivery of operation events and streamed chat output (LISTEN/NOTIFY). */
+  operationStream: OperationStream | null;
+  /** Factory for per-user webhook stores; its queue serves the dispatcher. */
+  webhookStoreFactory: WebhookStoreFactory | null;
+  /** Sends fleet events to webhooks, with signing and retries. */
+  webhookDispatcher: WebhookDispatcher | null;
+  /** External messaging bots, their linked accounts and queued replies. */
+  chatSurfaceStore: ChatSurfaceStore | null;
+  /** Routes bot messages into chat runs and posts the answers back. */
+  chatSurfaceRelay: ChatSurfaceRelay | null;
   /** ADR-036 Day 4: Durable async chat run queue store. */
   chatRunStore: ChatRunStore | null;
   /** #93: Factory for per-user tool contexts. */
@@ -257,5 +288,8 @@ export async function buildMicroRunnerFromState(appState: AppState): Promise<Mic
     behaviorStore: appState.behaviorStore ?? undefined,
     governanceRuleStore: appState.governanceRuleStore ?? undefined,
     trustGapStore: appState.trustGapStore ?? undefined,
+    decisionSource: appState.decisionStoreFactory
+      ? createDecisionSource(appState.decisionStoreFactory, appState.overlayStoreFactory)
+      : undefined,
   });
 }
@@ -39,12 +39,21 @@ export const ErrorCode = {
   RECEIPT_STORE_NOT_AVAILABLE: "RECEIPT_STORE_NOT_AVAILABLE",
   PROPOSAL_STORE_NOT_AVAILABLE: "PROPOSAL_STORE_NOT_AVAILABLE",
   EFFECT_STORE_NOT_AVAILABLE: "EFFECT_STORE_NOT_AVAILABLE",
+  BATTLE_STORE_NOT_AVAILABLE: "BATTLE_STORE_NOT_AVAILABLE",
+  INVENTORY_STORE_NOT_AVAILABLE: "INVENTORY_STORE_NOT_AVAILABLE",
+  SHARE_LINKS_NOT_AVAILABLE: "SHARE_LINKS_NOT_AVAILABLE",
+  DECISION_STORE_NOT_AVAILABLE: "DECISION_STORE_NOT_AVAILABLE",
+  FLEET_TOOLS_NOT_AVAILABLE: "FLEET_TOOLS_NOT_AVAILABLE",
+  ALLIANCE_STORE_NOT_AVAILABLE: "ALLIANCE_STORE_NOT_AVAILABLE",
+  WEBHOOK_STORE_NOT_AVAILABLE: "WEBHOOK_STORE_NOT_AVAILABLE",
+  CHAT_SURFACE_STORE_NOT_AVAILABLE: "CHAT_SURFACE_STORE_NOT_AVAILABLE",
   // 401/403 — auth errors
   UNAUTHORIZED: "UNAUTHORIZED",
   FORBIDDEN: "FORBIDDEN",
   EMAIL_NOT_VERIFIED: "EMAIL_NOT_VERIFIED",
   ACCOUNT_LOCKED: "ACCOUNT_LOCKED",
   INSUFFICIENT_RANK: "INSUFFICIENT_RANK",
+  INSUFFICIENT_SCOPE: "INSUFFICIENT_SCOPE",
   RATE_LIMITED: "RATE_LIMITED",
   TOKEN_BUDGET_EXCEEDED: "TOKEN_BUDGET_EXCEEDED",
   // 400 — client errors
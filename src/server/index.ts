@@ -31,10 +31,14 @@ import { pinoHttp } from "pino-http";
 import { log, rootLogger } from "./logger.js";
 import { createGeminiEngine, DEFAULT_MODEL } from "./services/gemini/index.js";
 import { createClaudeEngine } from "./services/claude/index.js";
+import { createLocalEngine } from "./services/local/index.js";
 import { createEngineManager } from "./services/engine-manager.js";
+import { getFallbackScope, parseFallbackChains, type FallbackChainKey } from "./services/model-fallback.js";
+import { parseModelOverrides } from "./services/model-availability.js";
 import { createStubEngine } from "./services/stub-engine.js";
 import { createMemoryService } from "./services/memory.js";
-import { createFrameStoreFactory } from "./stores/postgres-frame-store.js";
+import { createEmbedder, createHashingEmbedder } from "./services/semantic-recall.js";
+import { createFrameStoreFactory, listUsersMissingEmbeddings } from "./stores/postgres-frame-store.js";
 import { createSettingsStore } from "./stores/settings.js";
 import { createSessionStore } from "./sessions.js";
 import { createCrewStoreFactory } from "./stores/crew-store.js";
@@ -56,19 +60,29 @@ import {
 import { createOverlayStoreFactory } from "./stores/overlay-store.js";
 import { createInviteStore } from "./stores/invite-store.js";
 import { createUserStore } from "./stores/user-store.js";
+import { createApiTokenStore } from "./stores/api-token-store.js";
 import { createAuditStore } from "./stores/audit-store.js";
 import { createUserSettingsStore } from "./stores/user-settings-store.js";
 import { createTargetStoreFactory } from "./stores/target-store.js";
 import { createResearchStoreFactory } from "./stores/research-store.js";
 import { createInventoryStoreFactory } from "./stores/inventory-store.js";
+import { createDecisionStoreFactory } from "./stores/decision-store.js";
+import { createAllianceStoreFactory } from "./stores/alliance-store.js";
+import { createBattleReportStoreFactory } from "./stores/battle-report-store.js";
 import { createProposalStoreFactory } from "./stores/proposal-store.js";
 import { createOperationEventStoreFactory } from "./stores/operation-event-store.js";
+import { createOperationStream } from "./services/operation-stream.js";
+import { createWebhookStoreFactory } from "./stores/webhook-store.js";
+import { createWebhookDispatcher } from "./services/webhook-dispatcher.js";
+import { createChatSurfaceStore } from "./stores/chat-surface-store.js";
+import { createChatSurfaceRelay } from "./services/chat-surfaces.js";
 import { createChatRunStore } from "./stores/chat-run-store.js";
 import { createEffectStore } from "./stores/effect-store.js";
 import { createTokenLedgerStore } from "./stores/token-ledger-store.js";
 import { createTokenBudgetStore } from "./stores/token-budget-store.js";
 import { loadEffectSeedData } from "./services/effect-seed-loader.js";
 import { loadResourceDefs, type ResourceDef } from "./services/resource-defs.js";
+import { createToolContextFactory } from "./services/fleet-tools/tool-context.js";
 import { createPool, ensureAppRole } from "./db.js";
 // attachScopedMemory imported per-route in routes/chat.ts (ADR-021 D4)
 
@@ -107,6 +121,13 @@ import { createDiagnosticQueryRoutes } from "./routes/diagnostic-query.js";
 import { createAuthRoutes } from "./routes/auth.js";
 import { createAdmiralRoutes } from "./routes/admiral.js";
 import { createTargetRoutes } from "./routes/targets.js";
+import { createBattleRoutes } from "./routes/battles.js";
+import { createInventoryRoutes } from "./routes/inventory.js";
+import { createDecisionRoutes } from "./routes/decisions.js";
+import { createAllianceRoutes } from "./routes/alliances.js";
+import { createWebhookRoutes } from "./routes/webhooks.js";
+import { createChatSurfaceRoutes, SURFACE_INBOUND_PATH_RE } from "./routes/chat-surfaces.js";
+import { createToolRoutes } from "./routes/tools.js";
 import { createCrewRoutes } from "./routes/crews.js";
 import { createReceiptRoutes } from "./routes/receipts.js";
 import { createImportRoutes } from "./routes/imports.js";
@@ -115,6 +136,7 @@ import { createEventRoutes } from "./routes/events.js";
 import { createTranslatorRoutes } from "./routes/translator.js";
 import { createEffectsRoutes } from "./routes/effects.js";
 import { createScanRoutes } from "./routes/scan.js";
+import { createMcpRoutes } from "./routes/mcp.js";
 
 // Re-export for test compatibility
 export type { AppState };
@@ -140,6 +162,7 @@ const state: AppState = {
   geminiEngine: null,
   memoryService: null,
   frameStoreFactory: null,
+  embedder: createHashingEmbedder(),
   settingsStore: null,
   sessionStore: null,
   crewStore: null,
@@ -152,6 +175,7 @@ const state: AppState = {
   overlayStoreFactory: null,
   inviteStore: null,
   userStore: null,
+  apiTokenStore: null,
   targetStore: null,
   targetStoreFactory: null,
   auditStore: null,
@@ -160,10 +184,18 @@ const state: AppState = {
   researchStoreFactory: null,
   inventoryStore: null,
   inventoryStoreFactory: null,
+  battleReportStoreFactory: null,
+  decisionStoreFactory: null,
+  allianceStoreFactory: null,
   proposalStore: null,
   proposalStoreFactory: null,
   operationEventStore: null,
   operationEventStoreFactory: null,
+  operationStream: null,
+  webhookStoreFactory: null,
+  webhookDispatcher: null,
+  chatSurfaceStore: null,
+  chatSurfaceRelay: null,
   chatRunStore: null,
   toolContextFactory: null,
   effectStore: null,
@@ -198,8 +230,13 @@ export function createApp(appState: AppState): express.Express {
 
   // Body parser with size limit (ADR-005 Phase 4)
   // Skip /api/chat — it has its own 10MB parser for base64 image payloads (ADR-008)
+  // Skip /api/battles/import — combat report exports get a 2MB parser in routes/battles.ts
+  // Skip /api/mcp — MCP tool calls may carry sync payloads, parsed in routes/mcp.ts
+  // Skip /api/sessions/import — exported conversations get a 5MB parser in routes/sessions.ts
+  // Skip /api/surfaces/:id/inbound — signatures are checked over the raw body in routes/chat-surfaces.ts
   app.use((req, res, next) => {
-    if (req.path === "/api/chat") return next();
+    if (req.path === "/api/chat" || req.path === "/api/battles/import" || req.path === "/api/mcp" || req.path === "/api/sessions/import") return next();
+    if (SURFACE_INBOUND_PATH_RE.test(req.path)) return next();
     express.json({ limit: "100kb" })(req, res, next);
   });
 
@@ -310,6 +347,14 @@ export function createApp(appState: AppState): express.Express {
     });
   }
 
+  // Read-only shared conversations — public, the token in the URL is the grant
+  app.get('/shared.css', (_req, res) => res.sendFile(path.join(landingDir, 'shared.css')));
+  app.get('/shared.js', (_req, res) => res.sendFile(path.join(landingDir, 'shared.js')));
+  app.get('/shared/:token', (_req, res) => {
+    res.setHeader('Referrer-Policy', 'no-referrer');
+    res.sendFile(path.join(landingDir, 'shared.html'));
+  });
+
   // ─── Mount route modules ──────────────────────────────────
   // Per-request scoped memory (ADR-021 D4) is chained per-route in chat.ts,
   // AFTER auth middleware sets res.locals.userId. Not app-level — auth is route-level.
@@ -324,6 +369,13 @@ export function createApp(appState: AppState): express.Express {
   app.use(createEffectsRoutes(appState));
   app.use(createDiagnosticQueryRoutes(appState));
   app.use(createTargetRoutes(appState));
+  app.use(createBattleRoutes(appState));
+  app.use(createInventoryRoutes(appState));
+  app.use(createDecisionRoutes(appState));
+  app.use(createToolRoutes(appState));
+  app.use(createAllianceRoutes(appState));
+  app.use(createWebhookRoutes(appState));
+  app.use(createChatSurfaceRoutes(appState));
   app.use(createCrewRoutes(appState));
   app.use(createReceiptRoutes(appState));
   app.use(createImportRoutes(appState));
@@ -331,6 +383,7 @@ export function createApp(appState: AppState): express.Express {
   app.use(createEventRoutes(appState));
   app.use(createTranslatorRoutes(appState));
   app.use(createScanRoutes(appState));
+  app.use(createMcpRoutes(appState));
 
   // ─── SPA Fallback (authenticated app) ─────────────────────
   app.get("/app/{*splat}", (_req, res) => {
@@ -479,14 +532,31 @@ async function boot(): Promise<void> {
     {
       name: "frame-store-factory",
       fn: async () => {
+        const embedder = createEmbedder(state.config);
+        state.embedder = embedder;
         if (adminPool) {
           const factory = await createFrameStoreFactory(adminPool, pool);
           state.frameStoreFactory = factory;
-          state.memoryService = createMemoryService(factory.forUser("system"));
-          log.boot.info("lex memory service online (postgres + RLS)");
+          state.memoryService = createMemoryService(factory.forUser("system"), embedder);
+          log.boot.info({ embedder: embedder.id }, "lex memory service online (postgres + RLS)");
+
+          // Embed frames saved before semantic recall (or under another
+          // embedder) in the background; recall also backfills lazily.
+          const users = await listUsersMissingEmbeddings(adminPool, embedder.id);
+          if (users.length > 0) {
+            void (async () => {
+              let embedded = 0;
+              for (const userId of users) {
+                embedded += await createMemoryService(factory.forUser(userId), embedder).backfillEmbeddings();
+              }
+              log.boot.info({ users: users.length, embedded, embedder: embedder.id }, "lex embedding backfill complete");
+            })().catch((err) => {
+              log.boot.warn({ err: err instanceof Error ? err.message : String(err) }, "lex embedding backfill failed");
+            });
+          }
         } else {
-          state.memoryService = createMemoryService();
-          log.boot.info("lex memory service online (sqlite fallback)");
+          state.memoryService = createMemoryService(undefined, embedder);
+          log.boot.info({ embedder: embedder.id }, "lex memory service online (sqlite fallback)");
         }
       },
     },
@@ -589,6 +659,27 @@ async function boot(): Promise<void> {
         log.boot.info({ items: inventoryCounts.items, categories: inventoryCounts.categories }, "inventory store online (RLS-scoped)");
       },
     },
+    {
+      name: "decision-store-factory",
+      fn: async () => {
+        state.decisionStoreFactory = await createDecisionStoreFactory(adminPool, pool);
+        log.boot.info("decision store online (RLS-scoped)");
+      },
+    },
+    {
+      name: "alliance-store-factory",
+      fn: async () => {
+        state.allianceStoreFactory = await createAllianceStoreFactory(adminPool, pool);
+        log.boot.info("alliance store online (RLS-scoped)");
+      },
+    },
+    {
+      name: "battle-report-store-factory",
+      fn: async () => {
+        state.battleReportStoreFactory = await createBattleReportStoreFactory(adminPool, pool);
+        log.boot.info("battle report store online (RLS-scoped)");
+      },
+    },
     {
       name: "proposal-store-factory",
       fn: async () => {
@@ -605,7 +696,28 @@ async function boot(): Promise<void> {
         const eventFactory = await createOperationEventStoreFactory(adminPool, pool);
         state.operationEventStoreFactory = eventFactory;
         state.operationEventStore = eventFactory.forUser("local");
-        log.boot.info("operation event store online (ADR-037, user-scoped)");
+        state.operationStream = await createOperationStream(pool);
+        log.boot.info({ live: state.operationStream.isLive() }, "operation event store online (ADR-037, user-scoped)");
+      },
+    },
+    {
+      name: "webhook-store",
+      fn: async () => {
+        state.webhookStoreFactory = await createWebhookStoreFactory(adminPool, pool);
+        state.webhookDispatcher = createWebhookDispatcher(state.webhookStoreFactory, {
+          allowPrivate: state.config.nodeEnv !== "production",
+        });
+        state.webhookDispatcher.start();
+        log.boot.info("webhook store online (dispatcher subscribed to fleet events)");
+      },
+    },
+    {
+      name: "chat-surface-store",
+      fn: async () => {
+        state.chatSurfaceStore = await createChatSurfaceStore(adminPool, pool);
+        state.chatSurfaceRelay = createChatSurfaceRelay(state);
+        state.chatSurfaceRelay.start();
+        log.boot.info("chat surface store online (reply relay started)");
       },
     },
     // Effect store + seed chained (local dependency: seed awaits store)
@@ -634,6 +746,9 @@ async function boot(): Promise<void> {
         state.userStore = await createUserStore(adminPool, pool);
         const userCount = await state.userStore.countUsers();
         log.boot.info({ users: userCount }, "user store online");
+        // api_tokens references users — boot it right behind the user store
+        state.apiTokenStore = await createApiTokenStore(adminPool, pool);
+        log.boot.info("api token store online");
       },
     },
     {
@@ -674,9 +789,13 @@ async function boot(): Promise<void> {
     log.boot.info("token budget store online (ADR-048 Phase B)");
   }
 
+  // Tool contexts back the chat engines, proposal apply and the MCP server,
+  // so they are built regardless of provider mode.
+  state.toolContextFactory = createToolContextFactory(state, resourceDefs!);
+
   // ─── Stage 3: Engines (serial) ────────────────────────────
   // Engine construction references multiple stores via tool context factory.
-  const { geminiApiKey, vertexProjectId, vertexRegion } = state.config;
+  const { geminiApiKey, vertexProjectId, vertexRegion, localModelUrl, localModelName, localModelApiKey } = state.config;
   const providerMode = contract.capabilities.providerMode;
 
   await runStage("engines", [
@@ -695,8 +814,8 @@ async function boot(): Promise<void> {
           return;
         }
 
-        // providerMode === "real"
-        if (!geminiApiKey) {
+        // providerMode === "real" — a local model server alone is enough (offline installs)
+        if (!geminiApiKey && !localModelUrl) {
           log.boot.warn("GEMINI_API_KEY not set — chat disabled");
           return;
         }
@@ -704,43 +823,32 @@ async function boot(): Promise<void> {
         const runner = await buildMicroRunnerFromState(state);
         const modelName = DEFAULT_MODEL;
 
-        const toolContextFactory = (state.referenceStore || state.overlayStoreFactory || state.crewStoreFactory || state.targetStoreFactory || state.researchStoreFactory || state.inventoryStoreFactory || state.userSettingsStore) ? {
-          forUser(userId: string) {
-            return {
-              userId,
-              deps: {
-                referenceStore: state.referenceStore,
-                overlayStore: state.overlayStoreFactory?.forUser(userId) ?? null,
-                crewStore: state.crewStoreFactory?.forUser(userId) ?? null,
-                targetStore: state.targetStoreFactory?.forUser(userId) ?? null,
-                receiptStore: state.receiptStoreFactory?.forUser(userId) ?? null,
-                researchStore: state.researchStoreFactory?.forUser(userId) ?? null,
-                inventoryStore: state.inventoryStoreFactory?.forUser(userId) ?? null,
-                userSettingsStore: state.userSettingsStore,
-                resourceDefs: resourceDefs!.size > 0 ? resourceDefs! : null,
-              },
-            };
-          },
-        } : null;
-
-        state.toolContextFactory = toolContextFactory;
-
-        const geminiEngine = createGeminiEngine(
-          geminiApiKey,
-          null,
-          null,
-          runner,
-          modelName,
-          toolContextFactory,
-          state.proposalStoreFactory,
-          state.userSettingsStore,
-          state.tokenLedgerStore
-            ? (userId: string, modelId: string, operation: string, inputTokens: number, outputTokens: number) => {
-                state.tokenLedgerStore!.record({ userId, modelId, operation: operation as import("./stores/token-ledger-store.js").TokenOperation, inputTokens, outputTokens });
-              }
-            : null,
-        );
-        log.boot.info({ model: geminiEngine.getModel(), microRunner: !!runner }, "gemini engine online");
+        const toolContextFactory = state.toolContextFactory;
+        const onTokenUsage = state.tokenLedgerStore
+          ? (userId: string, modelId: string, operation: string, inputTokens: number, outputTokens: number) => {
+              const path = getFallbackScope()?.path ?? [];
+              state.tokenLedgerStore!.record({
+                userId, modelId, operation: operation as import("./stores/token-ledger-store.js").TokenOperation, inputTokens, outputTokens,
+                fallbackPath: path.length > 1 ? path.join(">") : null,
+              });
+            }
+          : null;
+
+        let geminiEngine = null;
+        if (geminiApiKey) {
+          geminiEngine = createGeminiEngine(
+            geminiApiKey,
+            null,
+            null,
+            runner,
+            modelName,
+            toolContextFactory,
+            state.proposalStoreFactory,
+            state.userSettingsStore,
+            onTokenUsage,
+          );
+          log.boot.info({ model: geminiEngine.getModel(), microRunner: !!runner }, "gemini engine online");
+        }
 
         let claudeEngine = null;
         if (vertexProjectId) {
@@ -755,11 +863,7 @@ async function boot(): Promise<void> {
               toolContextFactory,
               state.proposalStoreFactory,
               state.userSettingsStore,
-              state.tokenLedgerStore
-                ? (userId: string, modelId: string, operation: string, inputTokens: number, outputTokens: number) => {
-                    state.tokenLedgerStore!.record({ userId, modelId, operation: operation as import("./stores/token-ledger-store.js").TokenOperation, inputTokens, outputTokens });
-                  }
-                : null,
+              onTokenUsage,
             );
             log.boot.info({ projectId: vertexProjectId, region: vertexRegion }, "claude engine online");
           } catch (err) {
@@ -767,8 +871,51 @@ async function boot(): Promise<void> {
           }
         }
 
-        state.geminiEngine = createEngineManager({ geminiEngine, claudeEngine });
-        log.boot.info({ model: state.geminiEngine.getModel(), claudeAvailable: !!claudeEngine }, "engine manager online");
+        let localEngine = null;
+        if (localModelUrl) {
+          try {
+            localEngine = createLocalEngine(
+              localModelUrl,
+              localModelName,
+              localModelApiKey,
+              null,
+              null,
+              runner,
+              toolContextFactory,
+              state.proposalStoreFactory,
+              state.userSettingsStore,
+              onTokenUsage,
+            );
+            log.boot.info({ url: localModelUrl, model: localModelName }, "local engine online");
+          } catch (err) {
+            log.boot.warn({ err: (err as Error).message }, "local engine failed to initialize — local model unavailable");
+          }
+        }
+
+        if (!geminiEngine && !localEngine) {
+          log.boot.warn("no chat engine could be initialized — chat disabled");
+          return;
+        }
+
+        const settingsStore = state.settingsStore;
+        state.geminiEngine = createEngineManager({
+          geminiEngine,
+          claudeEngine,
+          localEngine,
+          classifyTask: runner ? (message) => runner.classify(message) : null,
+          loadFallbackChains: settingsStore
+            ? async () => {
+                const chains = parseFallbackChains(await settingsStore.get("model.fallbackChains"));
+                // Admin-disabled models never serve, even as a fallback
+                const overrides = parseModelOverrides(await settingsStore.get("system.modelOverrides"));
+                for (const key of Object.keys(chains) as FallbackChainKey[]) {
+                  chains[key] = chains[key]!.filter((id) => overrides[id]?.adminEnabled !== false);
+                }
+                return chains;
+              }
+            : null,
+        });
+        log.boot.info({ model: state.geminiEngine.getModel(), claudeAvailable: !!claudeEngine, localAvailable: !!localEngine }, "engine manager online");
       },
     },
   ], log.boot, { concurrency: 1 });
@@ -882,6 +1029,28 @@ async function boot(): Promise<void> {
           log.boot.warn({ err: err instanceof Error ? err.message : String(err) }, "operation_events:gc:error");
         }
       }
+      // Purge finished webhook deliveries older than 30 days
+      if (state.webhookStoreFactory) {
+        try {
+          const purged = await state.webhookStoreFactory.queue.purgeOlderThan("30 days");
+          if (purged > 0) {
+            log.boot.info({ purged }, "webhook_deliveries:gc");
+          }
+        } catch (err) {
+          log.boot.warn({ err: err instanceof Error ? err.message : String(err) }, "webhook_deliveries:gc:error");
+        }
+      }
+      // Purge chat surface replies older than 7 days and expired link codes
+      if (state.chatSurfaceStore) {
+        try {
+          const purged = await state.chatSurfaceStore.purgeOlderThan("7 days");
+          if (purged > 0) {
+            log.boot.info({ purged }, "chat_surface_replies:gc");
+          }
+        } catch (err) {
+          log.boot.warn({ err: err instanceof Error ? err.message : String(err) }, "chat_surface_replies:gc:error");
+        }
+      }
       // Purge token_ledger entries older than 90 days (ADR-048)
       if (state.tokenLedgerStore) {
         try {
@@ -926,10 +1095,15 @@ async function shutdown(): Promise<void> {
   state.overlayStore?.close();
   state.inviteStore?.close();
   state.userStore?.close();
+  state.apiTokenStore?.close();
   state.targetStore?.close();
   state.referenceStore?.close();
   state.effectStore?.close();
   state.chatRunStore?.close();
+  state.webhookDispatcher?.close();
+  state.chatSurfaceRelay?.close();
+  state.chatSurfaceStore?.close();
+  await state.operationStream?.close();
   if (state.memoryService) {
     await state.memoryService.close();
   }
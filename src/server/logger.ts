@@ -9,6 +9,7 @@
  *   MAJEL_LOG_LEVEL  — Minimum log level (default: "info", dev: "debug")
  *   MAJEL_LOG_PRETTY — Force pretty-print (auto-detected from NODE_ENV)
  *   MAJEL_DEBUG      — Legacy compat: "true" sets level to "debug"
+ *   MAJEL_LOG_DEST   — "stderr" keeps stdout clean (MCP stdio transport)
  *
  * Usage:
  *   import { log } from "./logger.js";
@@ -29,6 +30,8 @@ import type { Logger } from "pino";
 
 const IS_TEST = process.env.NODE_ENV === "test" || process.env.VITEST === "true";
 const IS_DEV = process.env.NODE_ENV !== "production" && !IS_TEST;
+/** Output file descriptor — stdout unless MAJEL_LOG_DEST=stderr. */
+const LOG_FD = process.env.MAJEL_LOG_DEST === "stderr" ? 2 : 1;
 
 /** Resolve log level from environment */
 function resolveLevel(): string {
@@ -63,6 +66,7 @@ function resolveTransport(): pino.TransportSingleOptions | undefined {
         colorize: true,
         translateTime: "HH:MM:ss.l",
         ignore: "pid,hostname",
+        destination: LOG_FD,
       },
     };
   }
@@ -125,7 +129,7 @@ export const rootLogger: Logger = pino({
     ],
     censor: "[REDACTED]",
   },
-});
+}, transport || LOG_FD === 1 ? undefined : pino.destination(LOG_FD));
 
 // ─── Subsystem Child Loggers ────────────────────────────────────
 
@@ -142,6 +146,10 @@ export const log = {
   gemini: rootLogger.child({ subsystem: "gemini" }),
   /** Claude (Anthropic) API interactions */
   claude: rootLogger.child({ subsystem: "claude" }),
+  /** Local OpenAI-compatible model server interactions */
+  local: rootLogger.child({ subsystem: "local" }),
+  /** Record/replay driver engine (prompt regression fixtures) */
+  replay: rootLogger.child({ subsystem: "replay" }),
   /** Lex memory operations */
   lex: rootLogger.child({ subsystem: "lex" }),
   /** Google Sheets API */
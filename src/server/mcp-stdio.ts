@@ -0,0 +1,31 @@
+/**
+ * mcp-stdio.ts — Majel MCP server entry point (stdio transport)
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Launched by desktop MCP clients as a child process:
+ *
+ *   {
+ *     "command": "node",
+ *     "args": ["--import", "dotenv/config", "/path/to/majel/dist/server/mcp-stdio.js"],
+ *     "env": { "MAJEL_MCP_TOKEN": "<token from POST /api/mcp/token>" }
+ *   }
+ *
+ * Or from a checkout: `MAJEL_MCP_TOKEN=... npm run --silent mcp` (--silent keeps
+ * npm's banner off stdout).
+ * stdout carries JSON-RPC only, so logs are routed to stderr before the
+ * logger is first imported.
+ */
+
+export {};
+
+process.env.MAJEL_LOG_DEST = "stderr";
+
+const { startStdioServer } = await import("./services/mcp/stdio-boot.js");
+
+try {
+  await startStdioServer();
+} catch (err) {
+  process.stderr.write(`majel-mcp: ${err instanceof Error ? err.message : String(err)}\n`);
+  process.exitCode = 1;
+}
@@ -12,6 +12,8 @@
  *   GET    /api/admiral/sessions      — List all tenant sessions
  *   DELETE /api/admiral/sessions/:id  — Delete a tenant session
  *   GET    /api/admiral/audit-log     — Query auth audit log
+ *   GET    /api/admiral/tokens        — List all personal access tokens
+ *   DELETE /api/admiral/tokens/:id    — Revoke any user's token
  */
 
 import type { AppState } from "../app-context.js";
@@ -20,8 +22,7 @@ import { requireAdmiral } from "../services/auth.js";
 import { createSafeRouter } from "../safe-router.js";
 import { AUDIT_EVENTS, type AuditEntry, type AuditEvent } from "../stores/audit-store.js";
 import { MODEL_REGISTRY_MAP } from "../services/gemini/model-registry.js";
-import { resolveModelAvailability, parseModelOverrides } from "../services/model-availability.js";
-import type { ProviderCapabilities } from "../services/model-availability.js";
+import { resolveModelAvailability, resolveProviderCapabilities, parseModelOverrides } from "../services/model-availability.js";
 import { ROLES } from "../stores/user-store.js";
 import type { Router } from "express";
 
@@ -141,6 +142,44 @@ export function createAdmiralRoutes(appState: AppState): Router {
     sendOk(res, { deleted: count });
   });
 
+  // ── GET /api/admiral/tokens ───────────────────────────────
+  router.get("/api/admiral/tokens", async (_req, res) => {
+    if (!appState.apiTokenStore) {
+      return sendFail(res, ErrorCode.INTERNAL_ERROR, "API token store not available", 503);
+    }
+
+    const tokens = await appState.apiTokenStore.listAllTokens();
+    sendOk(res, { tokens, count: tokens.length });
+  });
+
+  // ── DELETE /api/admiral/tokens/:id ────────────────────────
+  router.delete("/api/admiral/tokens/:id", async (req, res) => {
+    if (!appState.apiTokenStore) {
+      return sendFail(res, ErrorCode.INTERNAL_ERROR, "API token store not available", 503);
+    }
+
+    const tokenId = Number(req.params.id);
+    if (!Number.isInteger(tokenId) || tokenId < 1) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid token ID", 400);
+    }
+
+    const revoked = await appState.apiTokenStore.revokeToken(tokenId);
+    if (!revoked) {
+      return sendFail(res, ErrorCode.NOT_FOUND, "Token not found or already revoked", 404);
+    }
+
+    appState.auditStore?.logEvent({
+      event: "admin.token_revoke",
+      actorId: res.locals.userId as string,
+      targetId: revoked.userId,
+      detail: { tokenId, name: revoked.name },
+      ip: req.ip || null,
+      userAgent: req.headers["user-agent"] || null,
+    });
+
+    sendOk(res, { revoked: true });
+  });
+
   // ── GET /api/admiral/audit-log ─────────────────────────────
   router.get("/api/admiral/audit-log", async (req, res) => {
     if (!appState.auditStore) {
@@ -232,10 +271,7 @@ export function createAdmiralRoutes(appState: AppState): Router {
       ? await appState.settingsStore.get("system.modelOverrides")
       : "{}";
     const overrides = parseModelOverrides(overridesRaw);
-    const providerCapabilities: ProviderCapabilities = {
-      gemini: true,
-      claude: !!appState.config.vertexProjectId,
-    };
+    const providerCapabilities = resolveProviderCapabilities(appState.config);
 
     const results: Array<{
       id: string;
@@ -301,10 +337,7 @@ export function createAdmiralRoutes(appState: AppState): Router {
 
     await appState.settingsStore.set("system.modelOverrides", JSON.stringify(overrides));
 
-    const providerCapabilities: ProviderCapabilities = {
-      gemini: true,
-      claude: !!appState.config.vertexProjectId,
-    };
+    const providerCapabilities = resolveProviderCapabilities(appState.config);
     const avail = resolveModelAvailability(modelId, { isAdmiral: true }, overrides, providerCapabilities);
 
     sendOk(res, {
@@ -0,0 +1,389 @@
+/**
+ * routes/alliances.ts — Alliance (shared workspace) routes
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Membership, the shared plan, the target list and armadas with sign-ups.
+ * All routes require visitor authentication; creating an alliance needs
+ * captain rank. Alliance roles (member / officer / leader) are enforced by
+ * the store, whose AllianceErrors are mapped to statuses here.
+ *
+ * Armadas name a hostile from the reference catalog; sign-ups name a ship
+ * (and optionally a loadout) and are checked against the caller's dock
+ * state by checkArmadaSignup before they are stored.
+ */
+
+import type { Request, Response, Router } from "express";
+import type { AppState } from "../app-context.js";
+import { sendOk, sendFail, ErrorCode } from "../envelope.js";
+import { createSafeRouter } from "../safe-router.js";
+import { requireVisitor } from "../services/auth.js";
+import { createContextMiddleware } from "../context-middleware.js";
+import { roleLevel, type Role } from "../stores/user-store.js";
+import { checkArmadaSignup } from "../services/armada-signup-check.js";
+import {
+  ALLIANCE_ROLES,
+  AllianceError,
+  MAX_ALLIANCE_NAME_LENGTH,
+  MAX_ALLIANCE_TAG_LENGTH,
+  MAX_ALLIANCE_TEXT_LENGTH,
+  VALID_ALLIANCE_PLAN_STATUSES,
+  VALID_ALLIANCE_TARGET_TYPES,
+  type AllianceErrorReason,
+  type AllianceRole,
+  type AlliancePlanStatus,
+  type AllianceStore,
+  type AllianceTargetType,
+  type UpdateAlliancePlanItemInput,
+} from "../stores/alliance-store.js";
+
+/** Site rank needed to found an alliance; joining only needs visitor access. */
+const CREATE_ALLIANCE_MIN_ROLE: Role = "captain";
+
+const ERROR_STATUS: Record<AllianceErrorReason, { code: string; status: number }> = {
+  not_member: { code: ErrorCode.NOT_FOUND, status: 404 },
+  forbidden: { code: ErrorCode.FORBIDDEN, status: 403 },
+  not_found: { code: ErrorCode.NOT_FOUND, status: 404 },
+  conflict: { code: ErrorCode.CONFLICT, status: 409 },
+  invalid: { code: ErrorCode.INVALID_PARAM, status: 400 },
+};
+
+type Body = Record<string, unknown>;
+
+/** Validate an optional text field; returns an error message or null. */
+function checkText(body: Body, field: string, max: number, required = false): string | null {
+  const value = body[field];
+  if (value == null || value === "") return required ? `${field} is required` : null;
+  if (typeof value !== "string") return `${field} must be a string`;
+  if (required && !value.trim()) return `${field} is required`;
+  if (value.length > max) return `${field} must be ${max} characters or fewer`;
+  return null;
+}
+
+/** Validate an optional ISO date field; returns an error message or null. */
+function checkDate(body: Body, field: string, required = false): string | null {
+  const value = body[field];
+  if (value == null || value === "") return required ? `${field} is required` : null;
+  if (typeof value !== "string" || isNaN(Date.parse(value))) return `${field} must be an ISO date`;
+  return null;
+}
+
+function optionalText(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+export function createAllianceRoutes(appState: AppState): Router {
+  const router = createSafeRouter();
+  router.use("/api/alliance", requireVisitor(appState));
+  if (appState.pool) {
+    router.use("/api/alliance", createContextMiddleware(appState.pool));
+  }
+
+  function userIdOf(res: Response): string {
+    return res.locals.ctx?.identity.userId ?? "local";
+  }
+
+  function displayNameOf(res: Response): string {
+    return res.locals.userDisplayName || userIdOf(res);
+  }
+
+  /**
+   * Run a handler against the caller's alliance store. Sends 503 when the
+   * store is offline and maps AllianceErrors to their status codes.
+   */
+  function withStore(handler: (store: AllianceStore, req: Request, res: Response) => Promise<unknown>) {
+    return async (req: Request, res: Response) => {
+      const store = appState.allianceStoreFactory?.forUser(userIdOf(res));
+      if (!store) return sendFail(res, ErrorCode.ALLIANCE_STORE_NOT_AVAILABLE, "Alliance store not available", 503);
+      try {
+        await handler(store, req, res);
+      } catch (err) {
+        if (!(err instanceof AllianceError)) throw err;
+        const { code, status } = ERROR_STATUS[err.reason];
+        const hints = err.reason === "not_member" ? ["Create an alliance or join one with a join code"] : undefined;
+        sendFail(res, code, err.message, status, hints ? { hints } : undefined);
+      }
+    };
+  }
+
+  function parseId(req: Request, res: Response, label: string): number | null {
+    const id = parseInt(req.params.id as string, 10);
+    if (isNaN(id)) {
+      sendFail(res, ErrorCode.INVALID_PARAM, `Invalid ${label} ID`, 400);
+      return null;
+    }
+    return id;
+  }
+
+  // ─── Membership ───────────────────────────────────────────
+
+  router.get("/api/alliance", withStore(async (store, _req, res) => {
+    const membership = await store.getMembership();
+    const members = membership ? await store.listMembers() : [];
+    sendOk(res, { membership, members });
+  }));
+
+  router.post("/api/alliance", withStore(async (store, req, res) => {
+    const role = (res.locals.userRole ?? "ensign") as Role;
+    if (roleLevel(role) < roleLevel(CREATE_ALLIANCE_MIN_ROLE)) {
+      return sendFail(res, ErrorCode.INSUFFICIENT_RANK, `Minimum rank required: ${CREATE_ALLIANCE_MIN_ROLE}`, 403, {
+        detail: { requiredRole: CREATE_ALLIANCE_MIN_ROLE },
+        hints: ["Ask an alliance leader for a join code instead"],
+      });
+    }
+    const body = (req.body ?? {}) as Body;
+    const error = checkText(body, "name", MAX_ALLIANCE_NAME_LENGTH, true)
+      ?? checkText(body, "tag", MAX_ALLIANCE_TAG_LENGTH);
+    if (error) return sendFail(res, ErrorCode.INVALID_PARAM, error, 400);
+
+    const membership = await store.create({
+      name: (body.name as string).trim(),
+      tag: optionalText(body.tag),
+      displayName: displayNameOf(res),
+    });
+    sendOk(res, membership, 201);
+  }));
+
+  router.post("/api/alliance/join", withStore(async (store, req, res) => {
+    const code = (req.body as Body | undefined)?.code;
+    if (typeof code !== "string" || !code.trim()) {
+      return sendFail(res, ErrorCode.MISSING_PARAM, "code is required", 400);
+    }
+    sendOk(res, await store.join(code.trim(), displayNameOf(res)));
+  }));
+
+  router.post("/api/alliance/leave", withStore(async (store, _req, res) => {
+    await store.leave();
+    sendOk(res, { left: true });
+  }));
+
+  router.patch("/api/alliance", withStore(async (store, req, res) => {
+    const body = (req.body ?? {}) as Body;
+    const error = (body.name !== undefined ? checkText(body, "name", MAX_ALLIANCE_NAME_LENGTH, true) : null)
+      ?? checkText(body, "tag", MAX_ALLIANCE_TAG_LENGTH);
+    if (error) return sendFail(res, ErrorCode.INVALID_PARAM, error, 400);
+    if (body.rotateJoinCode !== undefined && typeof body.rotateJoinCode !== "boolean") {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "rotateJoinCode must be a boolean", 400);
+    }
+
+    const alliance = await store.update({
+      name: typeof body.name === "string" ? body.name.trim() : undefined,
+      tag: body.tag !== undefined ? optionalText(body.tag) : undefined,
+      rotateJoinCode: body.rotateJoinCode as boolean | undefined,
+    });
+    sendOk(res, alliance);
+  }));
+
+  router.delete("/api/alliance", withStore(async (store, _req, res) => {
+    await store.dissolve();
+    sendOk(res, { dissolved: true });
+  }));
+
+  router.patch("/api/alliance/me", withStore(async (store, req, res) => {
+    const share = (req.body as Body | undefined)?.shareOverlays;
+    if (typeof share !== "boolean") {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "shareOverlays must be a boolean", 400);
+    }
+    sendOk(res, await store.setShareOverlays(share));
+  }));
+
+  router.patch("/api/alliance/members/:userId", withStore(async (store, req, res) => {
+    const role = (req.body as Body | undefined)?.role;
+    if (!ALLIANCE_ROLES.includes(role as AllianceRole)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `role must be one of: ${ALLIANCE_ROLES.join(", ")}`, 400);
+    }
+    const members = await store.setMemberRole(req.params.userId as string, role as AllianceRole);
+    sendOk(res, { members });
+  }));
+
+  router.delete("/api/alliance/members/:userId", withStore(async (store, req, res) => {
+    await store.removeMember(req.params.userId as string);
+    sendOk(res, { removed: true, userId: req.params.userId });
+  }));
+
+  // ─── Plan ─────────────────────────────────────────────────
+
+  router.get("/api/alliance/plan", withStore(async (store, _req, res) => {
+    const items = await store.listPlanItems();
+    sendOk(res, { items, count: items.length });
+  }));
+
+  router.post("/api/alliance/plan", withStore(async (store, req, res) => {
+    const body = (req.body ?? {}) as Body;
+    const error = checkText(body, "title", MAX_ALLIANCE_NAME_LENGTH * 2, true)
+      ?? checkText(body, "notes", MAX_ALLIANCE_TEXT_LENGTH)
+      ?? checkDate(body, "dueAt");
+    if (error) return sendFail(res, ErrorCode.INVALID_PARAM, error, 400);
+
+    const item = await store.createPlanItem({
+      title: (body.title as string).trim(),
+      notes: optionalText(body.notes),
+      dueAt: optionalText(body.dueAt),
+    });
+    sendOk(res, item, 201);
+  }));
+
+  router.patch("/api/alliance/plan/:id", withStore(async (store, req, res) => {
+    const id = parseId(req, res, "plan item");
+    if (id == null) return;
+    const body = (req.body ?? {}) as Body;
+    const error = (body.title !== undefined ? checkText(body, "title", MAX_ALLIANCE_NAME_LENGTH * 2, true) : null)
+      ?? checkText(body, "notes", MAX_ALLIANCE_TEXT_LENGTH)
+      ?? checkDate(body, "dueAt");
+    if (error) return sendFail(res, ErrorCode.INVALID_PARAM, error, 400);
+    if (body.status !== undefined && !VALID_ALLIANCE_PLAN_STATUSES.includes(body.status as AlliancePlanStatus)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `status must be one of: ${VALID_ALLIANCE_PLAN_STATUSES.join(", ")}`, 400);
+    }
+
+    const input: UpdateAlliancePlanItemInput = {};
+    if (body.title !== undefined) input.title = (body.title as string).trim();
+    if (body.notes !== undefined) input.notes = optionalText(body.notes);
+    if (body.dueAt !== undefined) input.dueAt = optionalText(body.dueAt);
+    if (body.status !== undefined) input.status = body.status as AlliancePlanStatus;
+
+    const item = await store.updatePlanItem(id, input);
+    if (!item) return sendFail(res, ErrorCode.NOT_FOUND, `Plan item ${id} not found`, 404);
+    sendOk(res, item);
+  }));
+
+  router.delete("/api/alliance/plan/:id", withStore(async (store, req, res) => {
+    const id = parseId(req, res, "plan item");
+    if (id == null) return;
+    const deleted = await store.deletePlanItem(id);
+    if (!deleted) return sendFail(res, ErrorCode.NOT_FOUND, `Plan item ${id} not found`, 404);
+    sendOk(res, { deleted: true, id });
+  }));
+
+  // ─── Targets ──────────────────────────────────────────────
+
+  router.get("/api/alliance/targets", withStore(async (store, _req, res) => {
+    const targets = await store.listTargets();
+    sendOk(res, { targets, count: targets.length });
+  }));
+
+  router.post("/api/alliance/targets", withStore(async (store, req, res) => {
+    const body = (req.body ?? {}) as Body;
+    if (!VALID_ALLIANCE_TARGET_TYPES.includes(body.targetType as AllianceTargetType)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `targetType must be one of: ${VALID_ALLIANCE_TARGET_TYPES.join(", ")}`, 400);
+    }
+    const error = checkText(body, "label", MAX_ALLIANCE_NAME_LENGTH * 2, true)
+      ?? checkText(body, "refId", MAX_ALLIANCE_NAME_LENGTH * 2)
+      ?? checkText(body, "notes", MAX_ALLIANCE_TEXT_LENGTH);
+    if (error) return sendFail(res, ErrorCode.INVALID_PARAM, error, 400);
+    if (body.priority !== undefined && (!Number.isInteger(body.priority) || (body.priority as number) < 1 || (body.priority as number) > 3)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "priority must be 1, 2 or 3", 400);
+    }
+
+    const target = await store.createTarget({
+      targetType: body.targetType as AllianceTargetType,
+      refId: optionalText(body.refId),
+      label: (body.label as string).trim(),
+      priority: body.priority as number | undefined,
+      notes: optionalText(body.notes),
+    });
+    sendOk(res, target, 201);
+  }));
+
+  router.delete("/api/alliance/targets/:id", withStore(async (store, req, res) => {
+    const id = parseId(req, res, "target");
+    if (id == null) return;
+    const deleted = await store.deleteTarget(id);
+    if (!deleted) return sendFail(res, ErrorCode.NOT_FOUND, `Target ${id} not found`, 404);
+    sendOk(res, { deleted: true, id });
+  }));
+
+  // ─── Armadas ──────────────────────────────────────────────
+
+  router.get("/api/alliance/armadas", withStore(async (store, req, res) => {
+    const upcoming = req.query.upcoming === "true";
+    const armadas = await store.listArmadas({ upcoming });
+    sendOk(res, { armadas, count: armadas.length });
+  }));
+
+  router.post("/api/alliance/armadas", withStore(async (store, req, res) => {
+    const body = (req.body ?? {}) as Body;
+    const hostileId = optionalText(body.hostileId);
+    const error = checkText(body, "name", MAX_ALLIANCE_NAME_LENGTH, !hostileId)
+      ?? checkText(body, "hostileId", MAX_ALLIANCE_NAME_LENGTH * 2)
+      ?? checkDate(body, "startsAt", true)
+      ?? checkText(body, "notes", MAX_ALLIANCE_TEXT_LENGTH);
+    if (error) return sendFail(res, ErrorCode.INVALID_PARAM, error, 400);
+    const min = body.minParticipants;
+    if (min != null && (!Number.isInteger(min) || (min as number) < 1 || (min as number) > 100)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "minParticipants must be an integer from 1 to 100", 400);
+    }
+
+    let hostileName: string | null = null;
+    if (hostileId) {
+      if (!appState.referenceStore) {
+        return sendFail(res, ErrorCode.REFERENCE_STORE_NOT_AVAILABLE, "Reference store not available", 503);
+      }
+      const hostile = await appState.referenceStore.getHostile(hostileId);
+      if (!hostile) return sendFail(res, ErrorCode.NOT_FOUND, `Hostile not found: ${hostileId}`, 404);
+      hostileName = hostile.level != null ? `${hostile.name} (Lv ${hostile.level})` : hostile.name;
+    }
+
+    const armada = await store.createArmada({
+      name: optionalText(body.name) ?? hostileName!.slice(0, MAX_ALLIANCE_NAME_LENGTH),
+      hostileId,
+      hostileName,
+      startsAt: body.startsAt as string,
+      minParticipants: (min as number | null | undefined) ?? null,
+      notes: optionalText(body.notes),
+    });
+    sendOk(res, armada, 201);
+  }));
+
+  router.delete("/api/alliance/armadas/:id", withStore(async (store, req, res) => {
+    const id = parseId(req, res, "armada");
+    if (id == null) return;
+    const deleted = await store.deleteArmada(id);
+    if (!deleted) return sendFail(res, ErrorCode.NOT_FOUND, `Armada ${id} not found`, 404);
+    sendOk(res, { deleted: true, id });
+  }));
+
+  router.post("/api/alliance/armadas/:id/signup", withStore(async (store, req, res) => {
+    const id = parseId(req, res, "armada");
+    if (id == null) return;
+    const body = (req.body ?? {}) as Body;
+    const error = checkText(body, "shipRefId", MAX_ALLIANCE_NAME_LENGTH * 2)
+      ?? checkText(body, "shipName", MAX_ALLIANCE_NAME_LENGTH)
+      ?? checkText(body, "note", MAX_ALLIANCE_TEXT_LENGTH);
+    if (error) return sendFail(res, ErrorCode.INVALID_PARAM, error, 400);
+    const loadoutId = body.loadoutId ?? null;
+    if (loadoutId != null && (!Number.isInteger(loadoutId) || (loadoutId as number) < 1)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "loadoutId must be a positive integer", 400);
+    }
+    const shipRefId = optionalText(body.shipRefId);
+    if (loadoutId != null && !shipRefId) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "shipRefId is required with loadoutId", 400);
+    }
+
+    // A catalog ship is named from the reference store and checked against the dock state
+    let shipName = optionalText(body.shipName);
+    let check = null;
+    if (shipRefId) {
+      const ship = await appState.referenceStore?.getShip(shipRefId);
+      if (appState.referenceStore && !ship) return sendFail(res, ErrorCode.NOT_FOUND, `Ship not found: ${shipRefId}`, 404);
+      shipName = shipName ?? ship?.name ?? null;
+      const crewStore = appState.crewStoreFactory?.forUser(userIdOf(res)) ?? null;
+      if (crewStore) check = await checkArmadaSignup(crewStore, shipRefId, loadoutId as number | null);
+    }
+
+    const armada = await store.signUp(id, {
+      shipRefId,
+      shipName,
+      note: optionalText(body.note),
+      check,
+    });
+    sendOk(res, armada);
+  }));
+
+  router.delete("/api/alliance/armadas/:id/signup", withStore(async (store, req, res) => {
+    const id = parseId(req, res, "armada");
+    if (id == null) return;
+    sendOk(res, await store.withdraw(id));
+  }));
+
+  return router;
+}
@@ -13,6 +13,9 @@
  *   POST /api/auth/logout               — Destroy current session
  *   POST /api/auth/logout-all           — Destroy all sessions
  *   POST /api/auth/change-password      — Change password (kills other sessions)
+ *   GET  /api/auth/tokens               — List own personal access tokens
+ *   POST /api/auth/tokens               — Create a scoped token (secret shown once)
+ *   DELETE /api/auth/tokens/:id         — Revoke own token
  *   POST /api/auth/forgot-password      — Request password reset email
  *   POST /api/auth/reset-password       — Reset password with token
  *   GET  /api/auth/dev-verify           — Dev-only: verify email by address
@@ -33,6 +36,9 @@ import { sendVerificationEmail, sendPasswordResetEmail, getDevToken } from "../s
 import { createSafeRouter } from "../safe-router.js";
 import { createContextMiddleware } from "../context-middleware.js";
 import type { AuditLogInput } from "../stores/audit-store.js";
+import {
+  API_TOKEN_SCOPES, MAX_TOKENS_PER_USER, MAX_TOKEN_EXPIRY_DAYS, isApiTokenScope,
+} from "../stores/api-token-store.js";
 import { randomBytes } from "node:crypto";
 
 // ─── Resend Nonces ──────────────────────────────────────────────
@@ -79,6 +85,9 @@ function auditMeta(req: Request): Pick<AuditLogInput, "ip" | "userAgent"> {
   };
 }
 
+/** Default lifetime for new personal access tokens, in days. */
+const DEFAULT_TOKEN_EXPIRY_DAYS = 90;
+
 /** Check if at least one Admiral exists other than `excludeId`. */
 async function hasOtherAdmiral(
   userStore: NonNullable<AppState["userStore"]>,
@@ -433,6 +442,90 @@ export function createAuthRoutes(appState: AppState): Router {
     }
   });
 
+  // ── Personal access tokens ────────────────────────────────
+  // API tokens themselves can never reach these routes (see services/token-scopes.ts).
+
+  router.get("/api/auth/tokens", requireRole(appState, "ensign"), ...(ctxMw ? [ctxMw] : []), async (_req, res) => {
+    if (!appState.config.authEnabled) {
+      return sendOk(res, { tokens: [], scopes: API_TOKEN_SCOPES, authEnabled: false });
+    }
+    if (!appState.apiTokenStore) {
+      return sendFail(res, ErrorCode.INTERNAL_ERROR, "API token store not available", 503);
+    }
+
+    const userId = res.locals.ctx?.identity.userId ?? (res.locals.userId as string);
+    const tokens = await appState.apiTokenStore.listTokens(userId);
+    sendOk(res, { tokens, scopes: API_TOKEN_SCOPES, authEnabled: true });
+  });
+
+  router.post("/api/auth/tokens", requireRole(appState, "ensign"), ...(ctxMw ? [ctxMw] : []), async (req, res) => {
+    if (!appState.config.authEnabled) {
+      return sendFail(res, ErrorCode.CONFLICT, "API tokens need sign-in — auth is disabled on this server", 409);
+    }
+    if (!appState.apiTokenStore) {
+      return sendFail(res, ErrorCode.INTERNAL_ERROR, "API token store not available", 503);
+    }
+
+    const { name, scopes, expiresInDays } = req.body ?? {};
+    if (typeof name !== "string" || !name.trim() || name.trim().length > 100) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "Token name must be 1–100 characters", 400);
+    }
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiTokenScope)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "scopes must be a non-empty list of known scopes", 400, {
+        hints: [`Valid scopes: ${API_TOKEN_SCOPES.join(", ")}`],
+      });
+    }
+    if (expiresInDays !== undefined && expiresInDays !== null
+      && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_TOKEN_EXPIRY_DAYS)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `expiresInDays must be an integer between 1 and ${MAX_TOKEN_EXPIRY_DAYS}, or null`, 400);
+    }
+
+    const userId = res.locals.ctx?.identity.userId ?? (res.locals.userId as string);
+    if (await appState.apiTokenStore.countActiveTokens(userId) >= MAX_TOKENS_PER_USER) {
+      return sendFail(res, ErrorCode.CONFLICT, `At most ${MAX_TOKENS_PER_USER} active tokens per account`, 409, {
+        hints: ["Revoke a token you no longer use"],
+      });
+    }
+
+    const created = await appState.apiTokenStore.createToken(userId, {
+      name: name.trim(),
+      scopes,
+      expiresInDays: expiresInDays === undefined ? DEFAULT_TOKEN_EXPIRY_DAYS : expiresInDays as number | null,
+    });
+
+    appState.auditStore?.logEvent({
+      event: "auth.token.create", actorId: userId,
+      detail: { tokenId: created.token.id, name: created.token.name, scopes: created.token.scopes, expiresAt: created.token.expiresAt },
+      ...auditMeta(req),
+    });
+
+    sendOk(res, created, 201);
+  });
+
+  router.delete("/api/auth/tokens/:id", requireRole(appState, "ensign"), ...(ctxMw ? [ctxMw] : []), async (req, res) => {
+    if (!appState.apiTokenStore) {
+      return sendFail(res, ErrorCode.INTERNAL_ERROR, "API token store not available", 503);
+    }
+    const tokenId = Number(req.params.id);
+    if (!Number.isInteger(tokenId) || tokenId < 1) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid token ID", 400);
+    }
+
+    const userId = res.locals.ctx?.identity.userId ?? (res.locals.userId as string);
+    const revoked = await appState.apiTokenStore.revokeToken(tokenId, userId);
+    if (!revoked) {
+      return sendFail(res, ErrorCode.NOT_FOUND, "Token not found or already revoked", 404);
+    }
+
+    appState.auditStore?.logEvent({
+      event: "auth.token.revoke", actorId: userId,
+      detail: { tokenId, name: revoked.name },
+      ...auditMeta(req),
+    });
+
+    sendOk(res, { revoked: true });
+  });
+
   // ── POST /api/auth/forgot-password ────────────────────────
   router.post("/api/auth/forgot-password", emailRateLimiter, async (req, res) => {
     if (!appState.userStore) {
@@ -0,0 +1,161 @@
+/**
+ * routes/battles.ts — Battle report import and replay routes
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Ingests exported combat reports (JSON or CSV), stores them per user,
+ * and serves the round-by-round replay series and cross-fight analytics
+ * (win rates, failure causes, ability triggers) for the UI.
+ * All routes require visitor authentication.
+ */
+
+import express, { type Router } from "express";
+import type { AppState } from "../app-context.js";
+import { sendOk, sendFail, ErrorCode } from "../envelope.js";
+import { createSafeRouter } from "../safe-router.js";
+import { requireVisitor } from "../services/auth.js";
+import { createContextMiddleware } from "../context-middleware.js";
+import {
+  buildBattleReplay,
+  detectBattleLogFormat,
+  enrichBattleContext,
+  labelBattleAnalytics,
+  parseBattleLogFile,
+  MAX_BATTLE_LOG_CHARS,
+  VALID_BATTLE_LOG_FORMATS,
+  VALID_BATTLE_OUTCOMES,
+  type BattleLogFormat,
+} from "../services/battle-log.js";
+
+const MAX_FILE_NAME_LEN = 200;
+const MAX_ANALYTICS_DAYS = 365;
+
+export function createBattleRoutes(appState: AppState): Router {
+  const router = createSafeRouter();
+  const visitor = requireVisitor(appState);
+  router.use("/api/battles", visitor);
+  if (appState.pool) {
+    router.use("/api/battles", createContextMiddleware(appState.pool));
+  }
+
+  // Route-specific body limit: combat report exports outgrow the global 100kb parser
+  const importBodyParser = express.json({ limit: "2mb" });
+
+  /** Guard: return a user-scoped store, or null */
+  function getStore(res: import("express").Response) {
+    const userId = res.locals.ctx?.identity.userId ?? "local";
+    return appState.battleReportStoreFactory?.forUser(userId) ?? null;
+  }
+
+  // ─── Import ───────────────────────────────────────────────
+
+  router.post("/api/battles/import", importBodyParser, async (req, res) => {
+    const store = getStore(res);
+    if (!store) return sendFail(res, ErrorCode.BATTLE_STORE_NOT_AVAILABLE, "Battle report store not available", 503);
+
+    const { content, format, fileName, loadoutId, outcome } = req.body ?? {};
+    if (typeof content !== "string" || content.trim().length === 0) {
+      return sendFail(res, ErrorCode.MISSING_PARAM, "Missing required field: content", 400);
+    }
+    if (content.length > MAX_BATTLE_LOG_CHARS) {
+      return sendFail(res, ErrorCode.PAYLOAD_TOO_LARGE, `content must be ${MAX_BATTLE_LOG_CHARS} characters or fewer`, 413);
+    }
+    if (format !== undefined && !VALID_BATTLE_LOG_FORMATS.includes(format)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `format must be one of: ${VALID_BATTLE_LOG_FORMATS.join(", ")}`, 400);
+    }
+    if (fileName !== undefined && fileName !== null && (typeof fileName !== "string" || fileName.length > MAX_FILE_NAME_LEN)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `fileName must be a string of ${MAX_FILE_NAME_LEN} characters or fewer`, 400);
+    }
+    if (loadoutId !== undefined && loadoutId !== null && (!Number.isInteger(loadoutId) || loadoutId < 1)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "loadoutId must be a positive integer", 400);
+    }
+    if (outcome !== undefined && outcome !== null && !VALID_BATTLE_OUTCOMES.includes(outcome)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `outcome must be one of: ${VALID_BATTLE_OUTCOMES.join(", ")}`, 400);
+    }
+
+    const resolvedFormat: BattleLogFormat = format ?? detectBattleLogFormat(content, fileName);
+    let parsed;
+    try {
+      parsed = parseBattleLogFile(content, resolvedFormat);
+    } catch (err) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, err instanceof Error ? err.message : "Could not parse battle log", 400);
+    }
+    if (!parsed) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "Battle log contains no rounds", 400, {
+        hints: [
+          "JSON: an object with a non-empty rounds array",
+          "CSV: header row with round, direction, amount, type, ability, hull_after, shield_after columns",
+        ],
+      });
+    }
+
+    // Body fields tag the fight when the exported report doesn't say which loadout or result it was
+    const context = await enrichBattleContext({
+      ...parsed.context,
+      loadoutId: loadoutId ?? parsed.context.loadoutId,
+      outcome: outcome ?? parsed.context.outcome,
+    }, appState.referenceStore);
+    const report = await store.create({ fileName: fileName ?? null, format: resolvedFormat, log: parsed.log, context });
+    sendOk(res, { report }, 201);
+  });
+
+  // ─── Analytics ────────────────────────────────────────────
+
+  router.get("/api/battles/analytics", async (req, res) => {
+    const store = getStore(res);
+    if (!store) return sendFail(res, ErrorCode.BATTLE_STORE_NOT_AVAILABLE, "Battle report store not available", 503);
+    const days = req.query.days ? parseInt(req.query.days as string, 10) : undefined;
+    if (days !== undefined && (isNaN(days) || days < 1 || days > MAX_ANALYTICS_DAYS)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `days must be an integer between 1 and ${MAX_ANALYTICS_DAYS}`, 400);
+    }
+    const mode = typeof req.query.mode === "string" && req.query.mode.trim() ? req.query.mode.trim() : undefined;
+    const since = days ? new Date(Date.now() - days * 86_400_000).toISOString() : undefined;
+
+    const userId = res.locals.ctx?.identity.userId ?? "local";
+    const crewStore = appState.crewStoreFactory?.forUser(userId) ?? null;
+    const analytics = await labelBattleAnalytics(await store.analytics({ mode, since }), crewStore);
+    sendOk(res, { analytics, filters: { mode: mode ?? null, days: days ?? null } });
+  });
+
+  // ─── List ─────────────────────────────────────────────────
+
+  router.get("/api/battles", async (req, res) => {
+    const store = getStore(res);
+    if (!store) return sendFail(res, ErrorCode.BATTLE_STORE_NOT_AVAILABLE, "Battle report store not available", 503);
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+    if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > 200)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "limit must be an integer between 1 and 200", 400);
+    }
+    const reports = await store.list({ limit });
+    sendOk(res, { reports, count: reports.length });
+  });
+
+  // ─── Get + replay ─────────────────────────────────────────
+
+  router.get("/api/battles/:id", async (req, res) => {
+    const store = getStore(res);
+    if (!store) return sendFail(res, ErrorCode.BATTLE_STORE_NOT_AVAILABLE, "Battle report store not available", 503);
+    const id = parseInt(req.params.id as string, 10);
+    if (isNaN(id)) return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid battle report ID", 400);
+
+    const report = await store.get(id);
+    if (!report) return sendFail(res, ErrorCode.NOT_FOUND, `Battle report ${id} not found`, 404);
+    const { log: battleLog, ...summary } = report;
+    sendOk(res, { report: summary, replay: buildBattleReplay(battleLog) });
+  });
+
+  // ─── Delete ───────────────────────────────────────────────
+
+  router.delete("/api/battles/:id", async (req, res) => {
+    const store = getStore(res);
+    if (!store) return sendFail(res, ErrorCode.BATTLE_STORE_NOT_AVAILABLE, "Battle report store not available", 503);
+    const id = parseInt(req.params.id as string, 10);
+    if (isNaN(id)) return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid battle report ID", 400);
+
+    const deleted = await store.delete(id);
+    if (!deleted) return sendFail(res, ErrorCode.NOT_FOUND, `Battle report ${id} not found`, 404);
+    sendOk(res, { deleted: true, id });
+  });
+
+  return router;
+}
@@ -18,7 +18,16 @@ import { sendOk, sendFail, ErrorCode } from "../envelope.js";
 import { createSafeRouter } from "../safe-router.js";
 import { requireAdmiral, requireVisitor } from "../services/auth.js";
 import { createContextMiddleware } from "../context-middleware.js";
-import { VALID_OWNERSHIP_STATES, type OwnershipState } from "../stores/overlay-store.js";
+import {
+  VALID_OWNERSHIP_STATES,
+  PRIMARY_INSTANCE_ID,
+  MAX_INSTANCE_ID_LEN,
+  resolveInstanceId,
+  type OwnershipState,
+} from "../stores/overlay-store.js";
+
+/** Hostile search is a picker, not a browser — keep the result list short. */
+const MAX_HOSTILE_RESULTS = 25;
 
 export function createCatalogRoutes(appState: AppState): Router {
   const router = createSafeRouter();
@@ -152,7 +161,7 @@ export function createCatalogRoutes(appState: AppState): Router {
       if (!ovList || ovList.length === 0) {
         return [{
           ...officer,
-          instanceId: "primary",
+          instanceId: PRIMARY_INSTANCE_ID,
           ownershipState: "unowned" as OwnershipState,
           target: false,
           userLevel: null as number | null,
@@ -286,7 +295,7 @@ export function createCatalogRoutes(appState: AppState): Router {
       if (!ovList || ovList.length === 0) {
         return [{
           ...ship,
-          instanceId: "primary",
+          instanceId: PRIMARY_INSTANCE_ID,
           ownershipState: "unowned" as OwnershipState,
           target: false,
           userTier: null as number | null,
@@ -339,6 +348,20 @@ export function createCatalogRoutes(appState: AppState): Router {
     sendOk(res, ship);
   });
 
+  // ═══════════════════════════════════════════════════════════
+  // Reference Catalog — Hostiles (read-only, search only)
+  // ═══════════════════════════════════════════════════════════
+
+  router.get("/api/catalog/hostiles", async (req, res) => {
+    if (!requireReferenceStore(res)) return;
+    const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    if (q.length < 2 || q.length > 500) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "Search query must be 2 to 500 characters", 400);
+    }
+    const hostiles = (await appState.referenceStore!.searchHostiles(q)).slice(0, MAX_HOSTILE_RESULTS);
+    sendOk(res, { hostiles, count: hostiles.length });
+  });
+
   // ═══════════════════════════════════════════════════════════
   // Catalog Counts & Facets
   // ═══════════════════════════════════════════════════════════
@@ -373,8 +396,8 @@ export function createCatalogRoutes(appState: AppState): Router {
     }
 
     if (instanceId !== undefined) {
-      if (typeof instanceId !== "string" || instanceId.length > 50) {
-        return sendFail(res, ErrorCode.INVALID_PARAM, "instanceId must be a string (max 50 chars)", 400);
+      if (typeof instanceId !== "string" || instanceId.length > MAX_INSTANCE_ID_LEN) {
+        return sendFail(res, ErrorCode.INVALID_PARAM, `instanceId must be a string (max ${MAX_INSTANCE_ID_LEN} chars)`, 400);
       }
     }
 
@@ -401,7 +424,7 @@ export function createCatalogRoutes(appState: AppState): Router {
 
     const result = await overlay.setOfficerOverlay({
       refId,
-      ...(instanceId !== undefined && { instanceId }),
+      ...(instanceId !== undefined && { instanceId: resolveInstanceId(instanceId) }),
       ...(ownershipState !== undefined && { ownershipState }),
       ...(target !== undefined && { target: !!target }),
       ...(level !== undefined && { level }),
@@ -416,7 +439,11 @@ export function createCatalogRoutes(appState: AppState): Router {
 
   router.delete("/api/catalog/officers/:id/overlay", admiral, async (req, res) => {
     if (!requireOverlayStore(res)) return;
-    const deleted = await getOverlayStore(res)!.deleteOfficerOverlay(req.params.id as string);
+    const instanceId = req.query.instanceId;
+    if (instanceId !== undefined && (typeof instanceId !== "string" || instanceId.length > MAX_INSTANCE_ID_LEN)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `instanceId must be a string (max ${MAX_INSTANCE_ID_LEN} chars)`, 400);
+    }
+    const deleted = await getOverlayStore(res)!.deleteOfficerOverlay(req.params.id as string, instanceId);
     sendOk(res, { deleted });
   });
 
@@ -440,8 +467,8 @@ export function createCatalogRoutes(appState: AppState): Router {
     }
 
     if (instanceId !== undefined) {
-      if (typeof instanceId !== "string" || instanceId.length > 50) {
-        return sendFail(res, ErrorCode.INVALID_PARAM, "instanceId must be a string (max 50 chars)", 400);
+      if (typeof instanceId !== "string" || instanceId.length > MAX_INSTANCE_ID_LEN) {
+        return sendFail(res, ErrorCode.INVALID_PARAM, `instanceId must be a string (max ${MAX_INSTANCE_ID_LEN} chars)`, 400);
       }
     }
 
@@ -468,7 +495,7 @@ export function createCatalogRoutes(appState: AppState): Router {
 
     const result = await overlay.setShipOverlay({
       refId,
-      ...(instanceId !== undefined && { instanceId }),
+      ...(instanceId !== undefined && { instanceId: resolveInstanceId(instanceId) }),
       ...(ownershipState !== undefined && { ownershipState }),
       ...(target !== undefined && { target: !!target }),
       ...(tier !== undefined && { tier }),
@@ -483,7 +510,11 @@ export function createCatalogRoutes(appState: AppState): Router {
 
   router.delete("/api/catalog/ships/:id/overlay", admiral, async (req, res) => {
     if (!requireOverlayStore(res)) return;
-    const deleted = await getOverlayStore(res)!.deleteShipOverlay(req.params.id as string);
+    const instanceId = req.query.instanceId;
+    if (instanceId !== undefined && (typeof instanceId !== "string" || instanceId.length > MAX_INSTANCE_ID_LEN)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `instanceId must be a string (max ${MAX_INSTANCE_ID_LEN} chars)`, 400);
+    }
+    const deleted = await getOverlayStore(res)!.deleteShipOverlay(req.params.id as string, instanceId);
     sendOk(res, { deleted });
   });
 
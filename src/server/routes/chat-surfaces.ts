@@ -0,0 +1,228 @@
+/**
+ * routes/chat-surfaces.ts — Chat surface (bot adapter) routes
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Admirals register the bots allowed to relay messages into Aria; users
+ * issue the one-time code that links their platform account; the bot
+ * itself posts signed events to the inbound endpoint. Protocol details
+ * live in services/chat-surfaces.ts.
+ *
+ *   GET    /api/admiral/surfaces                        — List surfaces (Admiral)
+ *   POST   /api/admiral/surfaces                        — Register a surface (secret shown once)
+ *   PATCH  /api/admiral/surfaces/:id                    — Edit name, callback URL, enabled
+ *   POST   /api/admiral/surfaces/:id/rotate-secret      — Replace the signing secret
+ *   DELETE /api/admiral/surfaces/:id                    — Delete with its links and queued replies
+ *   GET    /api/surfaces                                — Enabled surfaces + own links
+ *   POST   /api/surfaces/:id/link-code                  — Issue a link code for this surface
+ *   DELETE /api/surfaces/:id/links/:platformUserId      — Unlink one of own platform accounts
+ *   POST   /api/surfaces/:id/inbound                    — Signed bot event (no session)
+ */
+
+import express, { type Request, type Response, type Router } from "express";
+import type { AppState } from "../app-context.js";
+import { sendOk, sendFail, ErrorCode } from "../envelope.js";
+import { createSafeRouter } from "../safe-router.js";
+import { requireAdmiral, requireVisitor } from "../services/auth.js";
+import { createContextMiddleware } from "../context-middleware.js";
+import { getSurfaceAdapter } from "../services/chat-surfaces.js";
+import { validateWebhookUrl } from "../services/webhook-dispatcher.js";
+import type { AuditEvent } from "../stores/audit-store.js";
+import type { UpdateSurfaceInput } from "../stores/chat-surface-store.js";
+
+const MAX_NAME_LENGTH = 100;
+const MAX_INBOUND_BYTES = "64kb";
+
+/** Paths the global JSON parser must leave alone (see index.ts). */
+export const SURFACE_INBOUND_PATH_RE = /^\/api\/surfaces\/[^/]+\/inbound$/;
+
+type Body = Record<string, unknown>;
+
+export function createChatSurfaceRoutes(appState: AppState): Router {
+  const router = createSafeRouter();
+  router.use("/api/admiral/surfaces", requireAdmiral(appState));
+
+  // ── Inbound (registered before the visitor gate) ─────────
+
+  router.post(
+    "/api/surfaces/:id/inbound",
+    express.text({ type: "*/*", limit: MAX_INBOUND_BYTES }),
+    async (req: Request, res: Response) => {
+      const store = appState.chatSurfaceStore;
+      const relay = appState.chatSurfaceRelay;
+      if (!store || !relay) {
+        return sendFail(res, ErrorCode.CHAT_SURFACE_STORE_NOT_AVAILABLE, "Chat surfaces not available", 503);
+      }
+      const id = parseId(req.params.id);
+      const found = id ? await store.getSurfaceWithSecret(id) : null;
+      if (!found || !found.surface.enabled) {
+        return sendFail(res, ErrorCode.NOT_FOUND, "Chat surface not found", 404);
+      }
+
+      const rawBody = typeof req.body === "string" ? req.body : "";
+      const parsed = getSurfaceAdapter(found.surface.kind).parseInbound(rawBody, req.headers, found.secret);
+      if (!parsed.ok) {
+        const code = parsed.status === 401 ? ErrorCode.UNAUTHORIZED : ErrorCode.INVALID_PARAM;
+        return sendFail(res, code, parsed.message, parsed.status);
+      }
+
+      const result = await relay.handle(found.surface, parsed.event);
+      sendOk(res, result, result.status === "queued" ? 202 : 200);
+    },
+  );
+
+  // ── User routes ───────────────────────────────────────────
+
+  router.use("/api/surfaces", requireVisitor(appState));
+  if (appState.pool) {
+    router.use("/api/surfaces", createContextMiddleware(appState.pool));
+  }
+
+  function userIdOf(res: Response): string {
+    return res.locals.ctx?.identity.userId ?? (res.locals.userId as string | undefined) ?? "local";
+  }
+
+  function parseId(value: unknown): number | null {
+    const id = Number(value);
+    return Number.isInteger(id) && id > 0 ? id : null;
+  }
+
+  function storeOr503(res: Response) {
+    if (!appState.chatSurfaceStore) {
+      sendFail(res, ErrorCode.CHAT_SURFACE_STORE_NOT_AVAILABLE, "Chat surface store not available", 503);
+      return null;
+    }
+    return appState.chatSurfaceStore;
+  }
+
+  router.get("/api/surfaces", async (_req, res) => {
+    const store = storeOr503(res);
+    if (!store) return;
+    const [surfaces, links] = await Promise.all([store.listSurfaces(), store.listLinksForUser(userIdOf(res))]);
+    sendOk(res, {
+      surfaces: surfaces.filter((s) => s.enabled).map((s) => ({ id: s.id, name: s.name })),
+      links,
+    });
+  });
+
+  router.post("/api/surfaces/:id/link-code", async (req, res) => {
+    const store = storeOr503(res);
+    if (!store) return;
+    const id = parseId(req.params.id);
+    if (!id) return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid surface ID", 400);
+    const surface = await store.getSurface(id);
+    if (!surface || !surface.enabled) return sendFail(res, ErrorCode.NOT_FOUND, `Chat surface not found: ${id}`, 404);
+
+    const { code, expiresAt } = await store.createLinkCode(id, userIdOf(res));
+    sendOk(res, { code, expiresAt, command: `link ${code}` }, 201);
+  });
+
+  router.delete("/api/surfaces/:id/links/:platformUserId", async (req, res) => {
+    const store = storeOr503(res);
+    if (!store) return;
+    const id = parseId(req.params.id);
+    if (!id) return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid surface ID", 400);
+    const platformUserId = String(req.params.platformUserId);
+
+    const deleted = await store.deleteLink(id, platformUserId, userIdOf(res));
+    if (!deleted) return sendFail(res, ErrorCode.NOT_FOUND, "Link not found", 404);
+    sendOk(res, { surfaceId: id, platformUserId, deleted: true });
+  });
+
+  // ── Admiral routes ────────────────────────────────────────
+
+  /** Validate the editable fields present in a body; returns an error message or null. */
+  function validate(body: Body, requireAll: boolean): string | null {
+    const { name, callbackUrl, enabled } = body;
+    if (name !== undefined || requireAll) {
+      if (typeof name !== "string" || !name.trim() || name.length > MAX_NAME_LENGTH) {
+        return `name must be a non-empty string of ${MAX_NAME_LENGTH} characters or fewer`;
+      }
+    }
+    if (callbackUrl !== undefined || requireAll) {
+      const urlError = validateWebhookUrl(callbackUrl, appState.config.nodeEnv !== "production");
+      if (urlError) return urlError.replace(/^url\b/, "callbackUrl");
+    }
+    if (enabled !== undefined && typeof enabled !== "boolean") return "enabled must be a boolean";
+    return null;
+  }
+
+  function audit(req: Request, res: Response, event: AuditEvent, surfaceId: number, detail?: Record<string, unknown>) {
+    appState.auditStore?.logEvent({
+      event,
+      actorId: res.locals.userId as string,
+      targetId: null,
+      detail: { surfaceId, ...detail },
+      ip: req.ip || null,
+      userAgent: req.headers["user-agent"] || null,
+    });
+  }
+
+  router.get("/api/admiral/surfaces", async (_req, res) => {
+    const store = storeOr503(res);
+    if (!store) return;
+    const surfaces = await store.listSurfaces();
+    sendOk(res, { surfaces, count: surfaces.length });
+  });
+
+  router.post("/api/admiral/surfaces", async (req, res) => {
+    const store = storeOr503(res);
+    if (!store) return;
+    const body = (req.body ?? {}) as Body;
+    const error = validate(body, true);
+    if (error) return sendFail(res, ErrorCode.INVALID_PARAM, error, 400);
+
+    const created = await store.createSurface(userIdOf(res), {
+      name: (body.name as string).trim(),
+      callbackUrl: body.callbackUrl as string,
+    });
+    audit(req, res, "admin.surface_create", created.surface.id, { name: created.surface.name });
+    sendOk(res, created, 201);
+  });
+
+  router.patch("/api/admiral/surfaces/:id", async (req, res) => {
+    const store = storeOr503(res);
+    if (!store) return;
+    const id = parseId(req.params.id);
+    if (!id) return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid surface ID", 400);
+    const body = (req.body ?? {}) as Body;
+    const error = validate(body, false);
+    if (error) return sendFail(res, ErrorCode.INVALID_PARAM, error, 400);
+
+    const input: UpdateSurfaceInput = {};
+    if (body.name !== undefined) input.name = (body.name as string).trim();
+    if (body.callbackUrl !== undefined) input.callbackUrl = body.callbackUrl as string;
+    if (body.enabled !== undefined) input.enabled = body.enabled as boolean;
+
+    const surface = await store.updateSurface(id, input);
+    if (!surface) return sendFail(res, ErrorCode.NOT_FOUND, `Chat surface not found: ${id}`, 404);
+    audit(req, res, "admin.surface_update", id, { ...input });
+    sendOk(res, { surface });
+  });
+
+  router.post("/api/admiral/surfaces/:id/rotate-secret", async (req, res) => {
+    const store = storeOr503(res);
+    if (!store) return;
+    const id = parseId(req.params.id);
+    if (!id) return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid surface ID", 400);
+
+    const secret = await store.rotateSecret(id);
+    if (!secret) return sendFail(res, ErrorCode.NOT_FOUND, `Chat surface not found: ${id}`, 404);
+    audit(req, res, "admin.surface_rotate_secret", id);
+    sendOk(res, { id, secret });
+  });
+
+  router.delete("/api/admiral/surfaces/:id", async (req, res) => {
+    const store = storeOr503(res);
+    if (!store) return;
+    const id = parseId(req.params.id);
+    if (!id) return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid surface ID", 400);
+
+    const deleted = await store.deleteSurface(id);
+    if (!deleted) return sendFail(res, ErrorCode.NOT_FOUND, `Chat surface not found: ${id}`, 404);
+    audit(req, res, "admin.surface_delete", id);
+    sendOk(res, { id, deleted: true });
+  });
+
+  return router;
+}
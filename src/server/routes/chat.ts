@@ -22,12 +22,15 @@ import { createContextMiddleware } from "../context-middleware.js";
 import { chatRateLimiter } from "../rate-limit.js";
 import { attachScopedMemory } from "../services/memory-middleware.js";
 import { MODEL_REGISTRY, getModelDef, DEFAULT_MODEL, classifyToolModeVerbose } from "../services/gemini/index.js";
-import { resolveAllModelAvailability, resolveModelAvailability, parseModelOverrides } from "../services/model-availability.js";
-import type { ProviderCapabilities } from "../services/model-availability.js";
+import { resolveAllModelAvailability, resolveModelAvailability, resolveProviderCapabilities, parseModelOverrides } from "../services/model-availability.js";
 import type { ImagePart, HandoffCard } from "../services/gemini/index.js";
 import type { Role } from "../stores/user-store.js";
 import { TokenBudgetExceededError } from "../stores/token-budget-store.js";
 import { getMutationKey } from "../services/fleet-tools/trust.js";
+import { runWithChatStream } from "../services/chat-stream.js";
+import { createChatStreamForwarder } from "../services/operation-stream.js";
+import type { ChatRoute } from "../services/engine.js";
+import type { ChatMessage, SessionStore } from "../sessions.js";
 
 /** Allowed image MIME types for multimodal chat (ADR-008) */
 const ALLOWED_IMAGE_TYPES = new Set(["image/png", "image/jpeg", "image/webp"]);
@@ -40,6 +43,7 @@ const RUN_WATCHDOG_MS = 15_000;
 const RUN_TIMEOUT_MS = 5 * 60 * 1000;
 const RUN_CLAIM_POLL_MS = 1000;
 const RUN_STALE_REQUEUE_MS = 2 * RUN_TIMEOUT_MS;
+const ENGINE_LEAVES_MAX = 5000;
 
 interface RunRouting {
   runId: string;
@@ -54,6 +58,10 @@ interface ExecuteChatInput extends RunRouting {
   userRole?: Role;
   requestId?: string;
   isAdmiral: boolean;
+  /** Branch the thread: send `message` in place of this stored user message. */
+  editMessageId?: number;
+  /** Branch the thread: answer this stored reply's user message again. */
+  regenerateMessageId?: number;
 }
 
 type RunFinalStatus = "cancelled" | "timed_out";
@@ -84,6 +92,54 @@ interface ExecuteChatResult {
   budgetWarning?: { remaining: number; dailyLimit: number; resetsAt: string };
   /** Structured handoff card when bulk-commit gate fires (ADR-049). */
   handoff?: HandoffCard;
+  /** Stored IDs of this turn's messages, for editing or regenerating it later. */
+  messageIds?: { user: number; model: number };
+}
+
+/** Where a turn attaches in the session's message tree. */
+interface TurnPlacement {
+  /** Messages before this turn on its branch — the history the engine must have. */
+  branch: ChatMessage[];
+  /** Parent for the new user message. */
+  parentId: number | null;
+  /** Regenerating: the stored user message being answered again. No new user message is stored. */
+  promptId?: number;
+}
+
+/**
+ * Last stored message each engine session (userId:sessionId) has seen on this
+ * instance. When a turn follows a different message — an edit, a regenerate,
+ * a branch switch, or turns served by another instance — the engine session
+ * is rebuilt from the stored branch.
+ */
+const engineLeaves = new Map<string, number>();
+
+function rememberEngineLeaf(sessionKey: string, messageId: number): void {
+  engineLeaves.delete(sessionKey);
+  engineLeaves.set(sessionKey, messageId);
+  if (engineLeaves.size > ENGINE_LEAVES_MAX) {
+    const oldest = engineLeaves.keys().next().value;
+    if (oldest !== undefined) engineLeaves.delete(oldest);
+  }
+}
+
+async function placeTurn(store: SessionStore, sessionId: string, input: ExecuteChatInput): Promise<TurnPlacement> {
+  const branchBefore = (message: ChatMessage) =>
+    message.parentId === null ? Promise.resolve([]) : store.getBranch(sessionId, message.parentId);
+
+  if (input.regenerateMessageId !== undefined) {
+    const reply = await store.getMessage(sessionId, input.regenerateMessageId);
+    const prompt = reply?.parentId != null ? await store.getMessage(sessionId, reply.parentId) : null;
+    if (!prompt) throw new Error("Message to regenerate no longer exists");
+    return { branch: await branchBefore(prompt), parentId: prompt.parentId, promptId: prompt.id };
+  }
+  if (input.editMessageId !== undefined) {
+    const edited = await store.getMessage(sessionId, input.editMessageId);
+    if (!edited) throw new Error("Message to edit no longer exists");
+    return { branch: await branchBefore(edited), parentId: edited.parentId };
+  }
+  const branch = await store.getBranch(sessionId);
+  return { branch, parentId: branch.at(-1)?.id ?? null };
 }
 
 async function buildChatMessage(appState: AppState, userId: string | undefined, message: string): Promise<string> {
@@ -127,6 +183,7 @@ async function executeChatRun(
   options?: ExecuteChatOptions,
 ): Promise<ExecuteChatResult | null> {
   const { runId, sessionId, tabId, message, imagePart, userId, userRole, requestId, isAdmiral } = input;
+  const sessionKey = userId ? `${userId}:${sessionId}` : sessionId;
   const eventStore = userId && appState.operationEventStoreFactory
     ? appState.operationEventStoreFactory.forUser(userId)
     : null;
@@ -174,7 +231,33 @@ async function executeChatRun(
 
     const chatMessage = await buildChatMessage(appState, userId, message);
     const bulkDetected = classifierSignals.bulkDetected;
-    const result = await appState.geminiEngine.chat(chatMessage, sessionId, imagePart, userId, requestId, options?.isCancelled, toolMode, bulkDetected, userRole);
+    const engine = appState.geminiEngine;
+
+    // Rebuild the engine session when it has not seen this turn's branch
+    const placement = appState.sessionStore ? await placeTurn(appState.sessionStore, sessionId, input) : null;
+    let route: ChatRoute | undefined;
+    if (placement) {
+      const lastId = placement.branch.at(-1)?.id;
+      const engineHistory = engine.getHistory(sessionKey);
+      const inSync = lastId === undefined
+        ? engineHistory.length === 0
+        : engineLeaves.get(sessionKey) === lastId && engineHistory.length > 0;
+      if (!inSync) {
+        engine.closeSession(sessionKey);
+        route = {
+          history: placement.branch
+            .filter((m) => m.role === "user" || m.role === "model")
+            .map((m) => ({ role: m.role, text: m.text })),
+        };
+        log.gemini.debug({ sessionId, userId, historyLen: route.history?.length ?? 0 }, "chat:session-rebuilt");
+      }
+    }
+
+    const runEngine = () => engine.chat(chatMessage, sessionId, imagePart, userId, requestId, options?.isCancelled, toolMode, bulkDetected, userRole, route);
+    // Stream partial text and tool progress to the run's SSE subscribers
+    const result = appState.operationStream && userId
+      ? await runWithChatStream(createChatStreamForwarder(appState.operationStream, { topic: "chat_run", operationId: runId, userId }), runEngine)
+      : await runEngine();
     const answer = typeof result === "string" ? result : result.text;
     const proposals = typeof result === "string" ? undefined : result.proposals;
     const proposalIds = proposals?.map((p) => p.id) ?? [];
@@ -183,6 +266,7 @@ async function executeChatRun(
     const resultToolMode = typeof result === "string" ? undefined : result.toolMode;
     const resultAttempts = typeof result === "string" ? undefined : result.attempts;
     const handoff = typeof result === "string" ? undefined : result.handoff;
+    const fallbackPath = typeof result === "string" ? undefined : result.fallbackPath;
 
     // Derive cache mutation keys from auto-executed tools
     const mutations = executedTools?.length
@@ -203,11 +287,13 @@ async function executeChatRun(
           ...(diagnostics ? { diagnostics } : {}),
           ...(resultToolMode ? { toolMode: resultToolMode } : {}),
           ...(resultAttempts?.length ? { attempts: resultAttempts } : {}),
+          ...(fallbackPath?.length ? { fallbackPath } : {}),
         }
       : undefined;
 
     const cancelled = options?.isCancelled?.() ?? false;
     if (cancelled) {
+      engineLeaves.delete(sessionKey);
       const status = options?.cancelledStatus?.() ?? "cancelled";
       const reason = options?.reason ?? (status === "timed_out" ? "watchdog_timeout" : "cancel_requested");
       if (eventStore) {
@@ -251,6 +337,15 @@ async function executeChatRun(
       throw new Error("AI returned an empty response — please try again");
     }
 
+    let messageIds: ExecuteChatResult["messageIds"];
+    if (appState.sessionStore && placement) {
+      const userMessageId = placement.promptId
+        ?? (await appState.sessionStore.addMessage(sessionId, "user", message, userId, undefined, placement.parentId)).id;
+      const reply = await appState.sessionStore.addMessage(sessionId, "model", answer, undefined, proposalIds, userMessageId, executedTools);
+      rememberEngineLeaf(sessionKey, reply.id);
+      messageIds = { user: userMessageId, model: reply.id };
+    }
+
     if (eventStore) {
       await eventStore.emit({
         topic: "chat_run",
@@ -274,6 +369,7 @@ async function executeChatRun(
             },
           } : {}),
           ...(handoff ? { handoff } : {}),
+          ...(messageIds ? { messageIds } : {}),
         },
       });
     }
@@ -287,11 +383,6 @@ async function executeChatRun(
         });
     }
 
-    if (appState.sessionStore) {
-      await appState.sessionStore.addMessage(sessionId, "user", message, userId);
-      await appState.sessionStore.addMessage(sessionId, "model", answer, undefined, proposalIds);
-    }
-
     return {
       answer,
       proposals: proposals && proposals.length > 0 ? proposals : undefined,
@@ -299,8 +390,10 @@ async function executeChatRun(
       mutations,
       budgetWarning,
       ...(handoff ? { handoff } : {}),
+      ...(messageIds ? { messageIds } : {}),
     };
   } catch (err: unknown) {
+    engineLeaves.delete(sessionKey);
     const errMessage = err instanceof Error ? err.message : String(err);
     const isBudgetExceeded = err instanceof TokenBudgetExceededError;
     const errorCode = isBudgetExceeded ? "TOKEN_BUDGET_EXCEEDED" : "GEMINI_ERROR";
@@ -352,7 +445,7 @@ export function createChatRoutes(appState: AppState): Router {
   const CLAIM_WATCHDOG_MS = 10_000; // Guards claim DB ops only, not chat execution (#249)
 
   const processClaimedRun = async (
-    claimed: { runId: string; sessionId: string; tabId: string; userId: string; message: string; imagePart?: ImagePart; requestId?: string; isAdmiral: boolean },
+    claimed: { runId: string; sessionId: string; tabId: string; userId: string; message: string; imagePart?: ImagePart; requestId?: string; isAdmiral: boolean; editMessageId?: number; regenerateMessageId?: number },
     lockToken: string,
   ): Promise<void> => {
     const runningState = { cancelled: false, cancelledStatus: "cancelled" as RunFinalStatus, lockToken };
@@ -408,6 +501,8 @@ export function createChatRoutes(appState: AppState): Router {
         userId: claimed.userId,
         requestId: claimed.requestId,
         isAdmiral: claimed.isAdmiral,
+        editMessageId: claimed.editMessageId,
+        regenerateMessageId: claimed.regenerateMessageId,
       }, {
         isCancelled: () => runningState.cancelled,
         cancelledStatus: () => runningState.cancelledStatus,
@@ -503,6 +598,8 @@ export function createChatRoutes(appState: AppState): Router {
         imagePart,
         requestId: typeof req.requestId === "string" ? req.requestId : undefined,
         isAdmiral: req.isAdmiral === true,
+        editMessageId: typeof req.editMessageId === "number" ? req.editMessageId : undefined,
+        regenerateMessageId: typeof req.regenerateMessageId === "number" ? req.regenerateMessageId : undefined,
       }, lockToken);
     } finally {
       claimInFlight = false;
@@ -530,7 +627,8 @@ export function createChatRoutes(appState: AppState): Router {
   const chatBodyParser = express.json({ limit: '10mb' });
 
   router.post("/api/chat", chatBodyParser, requireVisitor(appState), ...(ctxMw ? [ctxMw] : []), chatRateLimiter, attachScopedMemory(appState), createTimeoutMiddleware(60_000), async (req, res) => {
-    const { message, image: rawImage, tabId: rawTabId } = req.body;
+    const { image: rawImage, tabId: rawTabId, editMessageId, regenerateMessageId } = req.body;
+    let message = req.body.message;
     const asyncRequested = req.body?.async === true;
     const sessionId = (req.headers["x-session-id"] as string) || "default";
     const tabId = typeof rawTabId === "string" && rawTabId.trim() ? rawTabId.trim() : "default_tab";
@@ -546,7 +644,17 @@ export function createChatRoutes(appState: AppState): Router {
       return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid tabId", 400);
     }
 
-    if (!message || typeof message !== "string") {
+    if (editMessageId != null && regenerateMessageId != null) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "Send editMessageId or regenerateMessageId, not both", 400);
+    }
+    if (editMessageId != null && (!Number.isSafeInteger(editMessageId) || editMessageId < 1)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "editMessageId must be a positive integer", 400);
+    }
+    if (regenerateMessageId != null && (!Number.isSafeInteger(regenerateMessageId) || regenerateMessageId < 1)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "regenerateMessageId must be a positive integer", 400);
+    }
+    // Regenerating resends the stored user message — no new text needed
+    if (regenerateMessageId == null && (!message || typeof message !== "string")) {
       return sendFail(res, ErrorCode.MISSING_PARAM, "Missing 'message' in request body", 400, {
         hints: ["Send JSON body: { \"message\": \"your question\" }"],
       });
@@ -554,7 +662,10 @@ export function createChatRoutes(appState: AppState): Router {
     if (req.body?.async != null && typeof req.body.async !== "boolean") {
       return sendFail(res, ErrorCode.INVALID_PARAM, "async must be a boolean", 400);
     }
-    if (message.length > 10000) {
+    if (message != null && typeof message !== "string") {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "message must be a string", 400);
+    }
+    if (message && message.length > 10000) {
       return sendFail(res, ErrorCode.INVALID_PARAM, "Message must be 10,000 characters or fewer", 400);
     }
 
@@ -590,6 +701,26 @@ export function createChatRoutes(appState: AppState): Router {
     const requestId = ctx?.identity.requestId ?? (res.locals._requestId as string | undefined);
     const isAdmiral = !!res.locals.isAdmiral;
 
+    // ── Branch target (edit / regenerate) ─────────────────
+    const forkId = editMessageId ?? regenerateMessageId;
+    if (forkId != null) {
+      if (!appState.sessionStore) {
+        return sendFail(res, ErrorCode.SESSION_STORE_NOT_AVAILABLE, "Session store not available", 503);
+      }
+      const owner = await appState.sessionStore.getOwner(sessionId);
+      const target = owner === (userId ?? null) ? await appState.sessionStore.getMessage(sessionId, forkId) : null;
+      if (!target || target.role !== (editMessageId != null ? "user" : "model")) {
+        return sendFail(res, ErrorCode.NOT_FOUND, "Message not found", 404);
+      }
+      if (regenerateMessageId != null) {
+        const prompt = target.parentId !== null ? await appState.sessionStore.getMessage(sessionId, target.parentId) : null;
+        if (!prompt || prompt.role !== "user") {
+          return sendFail(res, ErrorCode.INVALID_PARAM, "Only replies to a user message can be regenerated", 400);
+        }
+        message = prompt.text;
+      }
+    }
+
     try {
       if (userId && appState.operationEventStoreFactory) {
         const eventStore = appState.operationEventStoreFactory.forUser(userId);
@@ -625,6 +756,8 @@ export function createChatRoutes(appState: AppState): Router {
             imagePart,
             requestId,
             isAdmiral,
+            ...(editMessageId != null ? { editMessageId } : {}),
+            ...(regenerateMessageId != null ? { regenerateMessageId } : {}),
           },
         });
         void claimAndProcessOne();
@@ -650,6 +783,8 @@ export function createChatRoutes(appState: AppState): Router {
         userRole: (res.locals.userRole as Role | undefined),
         requestId,
         isAdmiral,
+        editMessageId: editMessageId ?? undefined,
+        regenerateMessageId: regenerateMessageId ?? undefined,
       });
 
       if (!result) {
@@ -669,6 +804,7 @@ export function createChatRoutes(appState: AppState): Router {
         trace: result.trace,
         mutations: result.mutations,
         budgetWarning: result.budgetWarning,
+        messageIds: result.messageIds,
       });
     } catch (err: unknown) {
       if (res.headersSent) return;
@@ -758,6 +894,7 @@ export function createChatRoutes(appState: AppState): Router {
       answer: typeof payload.answer === "string" ? payload.answer : null,
       proposals: Array.isArray(payload.proposals) ? payload.proposals : [],
       trace: payload.trace ?? null,
+      messageIds: payload.messageIds ?? null,
       updatedAt: durableRun?.updatedAt ?? latest?.createdAt ?? null,
     });
   });
@@ -902,15 +1039,18 @@ export function createChatRoutes(appState: AppState): Router {
 
     try {
       const limit = Math.min(Math.max(parseInt((req.query.limit as string) || "10", 10) || 10, 1), 100);
-      const frames = await memory.recall(query, limit);
+      const hits = await memory.search(query, limit);
       sendOk(res, {
         query,
-        results: frames.map((f) => ({
+        results: hits.map(({ frame: f, score, similarity, keywordScore }) => ({
           id: f.id,
           timestamp: f.timestamp,
           summary: f.summary_caption,
           reference: f.reference_point,
           keywords: f.keywords,
+          score,
+          similarity,
+          keywordScore,
         })),
       });
     } catch (err: unknown) {
@@ -937,10 +1077,7 @@ export function createChatRoutes(appState: AppState): Router {
       ? await appState.settingsStore.get("system.modelOverrides")
       : "{}";
     const overrides = parseModelOverrides(overridesRaw);
-    const providerCapabilities: ProviderCapabilities = {
-      gemini: true,
-      claude: !!appState.config.vertexProjectId,
-    };
+    const providerCapabilities = resolveProviderCapabilities(appState.config);
 
     const resolved = resolveAllModelAvailability(
       { isAdmiral: true },
@@ -980,10 +1117,7 @@ export function createChatRoutes(appState: AppState): Router {
       ? await appState.settingsStore.get("system.modelOverrides")
       : "{}";
     const overrides = parseModelOverrides(overridesRaw);
-    const providerCapabilities: ProviderCapabilities = {
-      gemini: true,
-      claude: !!appState.config.vertexProjectId,
-    };
+    const providerCapabilities = resolveProviderCapabilities(appState.config);
     const availability = resolveModelAvailability(modelId, { isAdmiral: true }, overrides, providerCapabilities);
     if (!availability.available) {
       return sendFail(res, ErrorCode.INVALID_PARAM, `Model ${modelId} is not available: ${availability.effectiveReason}`, 400);
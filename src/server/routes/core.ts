@@ -118,7 +118,7 @@ export function createCoreRoutes(appState: AppState): Router {
       { method: "GET", path: "/api", auth: "none", description: "API discovery (this endpoint)" },
       { method: "GET", path: "/api/health", auth: "none", description: "Fast health check (returns retryAfterMs when initializing)" },
       { method: "GET", path: "/api/diagnostic", auth: "lieutenant", description: "Deep subsystem status" },
-      { method: "POST", path: "/api/chat", auth: "lieutenant", description: "Send a message, get a Gemini response", body: { message: "string (required)" } },
+      { method: "POST", path: "/api/chat", auth: "lieutenant", description: "Send a message, get a Gemini response", body: { message: "string (required unless regenerating)", editMessageId: "number (optional, branch from an edited user message)", regenerateMessageId: "number (optional, branch with a new reply)" } },
       { method: "GET", path: "/api/history", auth: "lieutenant", description: "Conversation history (session + Lex)", params: { source: "session|lex|both", limit: "1-100", sessionId: "string" } },
       { method: "GET", path: "/api/recall", auth: "lieutenant", description: "Search Lex memory by meaning", params: { q: "string (required)", limit: "1-100" } },
       { method: "GET", path: "/api/settings", auth: "lieutenant", description: "All settings with resolved values" },
@@ -128,10 +128,42 @@ export function createCoreRoutes(appState: AppState): Router {
       { method: "GET", path: "/api/user-settings", auth: "visitor", description: "All user-overridable settings (merged with defaults)" },
       { method: "PUT", path: "/api/user-settings/:key", auth: "visitor", description: "Set a per-user preference override" },
       { method: "DELETE", path: "/api/user-settings/:key", auth: "visitor", description: "Remove per-user override (revert to default)" },
+      { method: "GET", path: "/api/decisions", auth: "visitor", description: "Fleet decisions Aria remembers, reconciled against the overlay", params: { status: "active | invalidated (optional)" } },
+      { method: "POST", path: "/api/decisions", auth: "visitor", description: "Add a decision by hand", body: { kind: "goal | saving | prefer | avoid", statement: "string (max 300)" } },
+      { method: "PATCH", path: "/api/decisions/:id", auth: "visitor", description: "Edit a decision; status=active re-affirms an invalidated one", body: { kind: "string (optional)", statement: "string (optional)", status: "active | invalidated (optional)", assumesOwnership: "owned | unowned | null (optional)", assumesTarget: "boolean | null (optional)" } },
+      { method: "DELETE", path: "/api/decisions/:id", auth: "visitor", description: "Forget a decision" },
+      { method: "GET", path: "/api/tools", auth: "visitor", description: "Read-only fleet tools with their argument schemas (chat / palette)" },
+      { method: "POST", path: "/api/tools/:name/run", auth: "visitor", description: "Run a read-only fleet tool directly, without a model turn", body: { args: "object — arguments matching the tool's inputSchema" } },
+      { method: "GET", path: "/api/alliance", auth: "visitor", description: "Your alliance membership and its members (membership is null outside an alliance)" },
+      { method: "POST", path: "/api/alliance", auth: "captain", description: "Found an alliance and become its leader", body: { name: "string (max 60)", tag: "string (optional, max 6)" } },
+      { method: "POST", path: "/api/alliance/join", auth: "visitor", description: "Join an alliance with its join code", body: { code: "string" } },
+      { method: "POST", path: "/api/alliance/leave", auth: "visitor", description: "Leave your alliance (a sole leader dissolves it)" },
+      { method: "PATCH", path: "/api/alliance", auth: "visitor", description: "Rename the alliance or rotate its join code (leader)", body: { name: "string (optional)", tag: "string | null (optional)", rotateJoinCode: "boolean (optional)" } },
+      { method: "DELETE", path: "/api/alliance", auth: "visitor", description: "Dissolve the alliance (leader)" },
+      { method: "PATCH", path: "/api/alliance/me", auth: "visitor", description: "Opt in or out of sharing your owned ships and officers with the alliance", body: { shareOverlays: "boolean" } },
+      { method: "PATCH", path: "/api/alliance/members/:userId", auth: "visitor", description: "Change a member's alliance role; leader hands over leadership (leader)", body: { role: "member | officer | leader" } },
+      { method: "DELETE", path: "/api/alliance/members/:userId", auth: "visitor", description: "Remove a lower-ranked member (officer+)" },
+      { method: "GET", path: "/api/alliance/plan", auth: "visitor", description: "Shared alliance plan items" },
+      { method: "POST", path: "/api/alliance/plan", auth: "visitor", description: "Add a shared plan item (officer+)", body: { title: "string", notes: "string (optional)", dueAt: "ISO date (optional)" } },
+      { method: "PATCH", path: "/api/alliance/plan/:id", auth: "visitor", description: "Edit or complete a shared plan item (officer+)", body: { title: "string (optional)", notes: "string | null (optional)", dueAt: "ISO date | null (optional)", status: "open | done (optional)" } },
+      { method: "DELETE", path: "/api/alliance/plan/:id", auth: "visitor", description: "Delete a shared plan item (officer+)" },
+      { method: "GET", path: "/api/alliance/targets", auth: "visitor", description: "Alliance target list" },
+      { method: "POST", path: "/api/alliance/targets", auth: "visitor", description: "Add an alliance target (officer+)", body: { targetType: "officer | ship | other", label: "string", refId: "string (optional)", priority: "1-3 (optional, default 2)", notes: "string (optional)" } },
+      { method: "DELETE", path: "/api/alliance/targets/:id", auth: "visitor", description: "Delete an alliance target (officer+)" },
+      { method: "GET", path: "/api/alliance/armadas", auth: "visitor", description: "Scheduled armadas with sign-ups", params: { upcoming: "true to hide armadas that started over an hour ago (optional)" } },
+      { method: "POST", path: "/api/alliance/armadas", auth: "visitor", description: "Schedule an armada (officer+)", body: { name: "string (optional with hostileId)", hostileId: "reference hostile ID (optional)", startsAt: "ISO date", minParticipants: "ships needed, 1-100 (optional)", notes: "string (optional)" } },
+      { method: "DELETE", path: "/api/alliance/armadas/:id", auth: "visitor", description: "Cancel an armada (officer+)" },
+      { method: "POST", path: "/api/alliance/armadas/:id/signup", auth: "visitor", description: "Sign up for an armada, or update your sign-up; checked against your dock state", body: { shipRefId: "reference ship ID (optional)", loadoutId: "number (optional, needs shipRefId)", shipName: "string (optional)", note: "string (optional)" } },
+      { method: "DELETE", path: "/api/alliance/armadas/:id/signup", auth: "visitor", description: "Withdraw from an armada" },
       { method: "GET", path: "/api/sessions", auth: "lieutenant", description: "List saved chat sessions" },
       { method: "GET", path: "/api/sessions/:id", auth: "lieutenant", description: "Get a session with all messages" },
       { method: "PATCH", path: "/api/sessions/:id", auth: "lieutenant", description: "Update session title" },
+      { method: "POST", path: "/api/sessions/:id/branch", auth: "lieutenant", description: "Switch to the branch containing a message", body: { messageId: "number (required)" } },
+      { method: "GET", path: "/api/sessions/:id/export", auth: "lieutenant", description: "Export a session as Markdown (active branch) or versioned JSON (all branches, tool calls, proposal ids)", params: { format: "json | markdown (default json)" } },
+      { method: "POST", path: "/api/sessions/import", auth: "lieutenant", description: "Import an exported JSON session as a new session", body: { format: "\"majel.session\"", version: "number (1)", session: "object", messages: "array", activeMessageId: "number | null" } },
+      { method: "POST", path: "/api/sessions/:id/share", auth: "lieutenant", description: "Create a signed read-only share link for the active branch", body: { expiresInHours: "number (optional, 1-720, default 72)" } },
       { method: "DELETE", path: "/api/sessions/:id", auth: "lieutenant", description: "Delete a session" },
+      { method: "GET", path: "/api/shared/:token", auth: "none", description: "Read a shared session (no account needed)" },
       // ── Crew Composition (ADR-025) ──
       { method: "GET", path: "/api/bridge-cores", auth: "lieutenant", description: "List all bridge cores" },
       { method: "GET", path: "/api/bridge-cores/:id", auth: "lieutenant", description: "Get a bridge core" },
@@ -166,6 +198,9 @@ export function createCoreRoutes(appState: AppState): Router {
       { method: "PUT", path: "/api/fleet-presets/:id/slots", auth: "admiral", description: "Set preset dock slots" },
       { method: "POST", path: "/api/fleet-presets/:id/activate", auth: "admiral", description: "Activate a fleet preset" },
       { method: "GET", path: "/api/crew/plan", auth: "lieutenant", description: "List plan items" },
+      { method: "GET", path: "/api/crew/plan/solve", auth: "lieutenant", description: "Preview plan solver output", params: { mode: "greedy|optimal|compare" } },
+      { method: "POST", path: "/api/crew/plan/solve", auth: "admiral", description: "Run the plan solver (optionally apply)", body: { mode: "greedy|optimal", apply: "boolean" } },
+      { method: "GET", path: "/api/crew/plan/schedule", auth: "lieutenant", description: "Per-dock timeline of time-windowed plan items", params: { from: "ISO timestamp", hours: "1-168", mode: "greedy|optimal" } },
       { method: "GET", path: "/api/crew/plan/:id", auth: "lieutenant", description: "Get a plan item" },
       { method: "POST", path: "/api/crew/plan", auth: "admiral", description: "Create a plan item" },
       { method: "PATCH", path: "/api/crew/plan/:id", auth: "admiral", description: "Update a plan item" },
@@ -181,6 +216,7 @@ export function createCoreRoutes(appState: AppState): Router {
       { method: "GET", path: "/api/catalog/ships", auth: "lieutenant", description: "List reference ships" },
       { method: "GET", path: "/api/catalog/ships/:id", auth: "lieutenant", description: "Get a reference ship" },
       { method: "GET", path: "/api/catalog/ships/merged", auth: "lieutenant", description: "Ships with overlay state" },
+      { method: "GET", path: "/api/catalog/hostiles", auth: "lieutenant", description: "Search reference hostiles", params: { q: "name search, at least 2 characters" } },
       { method: "GET", path: "/api/catalog/counts", auth: "lieutenant", description: "Reference + overlay counts" },
       { method: "PATCH", path: "/api/catalog/officers/:id/overlay", auth: "admiral", description: "Set officer overlay" },
       { method: "DELETE", path: "/api/catalog/officers/:id/overlay", auth: "admiral", description: "Reset officer overlay" },
@@ -191,12 +227,25 @@ export function createCoreRoutes(appState: AppState): Router {
       // ── Targets (ADR-026) ──
       { method: "GET", path: "/api/targets", auth: "lieutenant", description: "List targets (filter by type, status, priority)" },
       { method: "GET", path: "/api/targets/counts", auth: "lieutenant", description: "Target counts by status" },
-      { method: "GET", path: "/api/targets/conflicts", auth: "lieutenant", description: "Officer conflict report across targets" },
+      { method: "GET", path: "/api/targets/conflicts", auth: "lieutenant", description: "Officer, dock and material conflict report across targets, with a resource budget and suggested orderings" },
+      { method: "GET", path: "/api/targets/graph", auth: "lieutenant", description: "Target dependency graph with blocked status, work order and percent-complete" },
       { method: "GET", path: "/api/targets/:id", auth: "lieutenant", description: "Get a target" },
       { method: "POST", path: "/api/targets", auth: "admiral", description: "Create a target" },
       { method: "PATCH", path: "/api/targets/:id", auth: "admiral", description: "Update a target" },
       { method: "DELETE", path: "/api/targets/:id", auth: "admiral", description: "Delete a target" },
       { method: "POST", path: "/api/targets/:id/achieve", auth: "admiral", description: "Mark a target as achieved" },
+      { method: "POST", path: "/api/targets/:id/dependencies", auth: "admiral", description: "Make a target depend on another (rejects cycles)" },
+      { method: "DELETE", path: "/api/targets/:id/dependencies/:dependsOnId", auth: "admiral", description: "Remove a target dependency" },
+      // ── Battle Reports ──
+      { method: "POST", path: "/api/battles/import", auth: "lieutenant", description: "Import a combat report (JSON or CSV) and store it", body: { content: "string (required) — report file text", format: "json | csv (optional, detected from fileName/content)", fileName: "string (optional)", loadoutId: "number (optional) — loadout used", outcome: "win | loss (optional)" } },
+      { method: "GET", path: "/api/battles", auth: "lieutenant", description: "List stored battle reports (newest first)" },
+      { method: "GET", path: "/api/battles/analytics", auth: "lieutenant", description: "Win rates by loadout/faction/hull type, failure causes and fired abilities", params: { mode: "string (optional)", days: "1-365 (optional)" } },
+      { method: "GET", path: "/api/battles/:id", auth: "lieutenant", description: "Get a battle report with its round-by-round replay" },
+      { method: "DELETE", path: "/api/battles/:id", auth: "lieutenant", description: "Delete a battle report" },
+      // ── Inventory ──
+      { method: "GET", path: "/api/inventory", auth: "lieutenant", description: "List inventory items", params: { category: "ore | gas | crystal | parts | currency | blueprint | other (optional)", q: "string (optional) — name search" } },
+      { method: "GET", path: "/api/inventory/forecast", auth: "lieutenant", description: "Daily income rates per item derived from quantity history", params: { days: "1-180 (optional, default 30)" } },
+      { method: "GET", path: "/api/inventory/:id/history", auth: "lieutenant", description: "Quantity snapshots for one item with its income forecast", params: { days: "1-180 (optional, default 30)" } },
       // ── Import Receipts (ADR-026) ──
       { method: "GET", path: "/api/import/receipts", auth: "lieutenant", description: "List import receipts (filter by layer)" },
       { method: "GET", path: "/api/import/receipts/:id", auth: "lieutenant", description: "Get an import receipt" },
@@ -207,6 +256,34 @@ export function createCoreRoutes(appState: AppState): Router {
       { method: "POST", path: "/api/import/map", auth: "lieutenant", description: "Apply column mapping to parsed rows" },
       { method: "POST", path: "/api/import/resolve", auth: "lieutenant", description: "Resolve mapped rows to reference officers/ships" },
       { method: "POST", path: "/api/import/commit", auth: "lieutenant", description: "Commit resolved ownership rows and create import receipt" },
+      // ── MCP (Model Context Protocol) ──
+      { method: "POST", path: "/api/mcp", auth: "lieutenant", description: "MCP JSON-RPC endpoint (initialize, tools/list, tools/call) — fleet tools behind the trust gate", body: { jsonrpc: "\"2.0\"", method: "string (required)", id: "string | number (omit for notifications)", params: "object (optional)" } },
+      { method: "POST", path: "/api/mcp/token", auth: "lieutenant", description: "Mint a 30-day API token with the mcp scope for MCP clients" },
+      // ── API Tokens ──
+      { method: "GET", path: "/api/auth/tokens", auth: "ensign", description: "List your personal access tokens and the scopes on offer" },
+      { method: "POST", path: "/api/auth/tokens", auth: "ensign", description: "Create a scoped personal access token — the secret is returned once", body: { name: "string (required, max 100)", scopes: "array of catalog:read | overlay:write | plan:read | chat:run (required)", expiresInDays: "1-365 | null for no expiry (optional, default 90)" } },
+      { method: "DELETE", path: "/api/auth/tokens/:id", auth: "ensign", description: "Revoke one of your tokens" },
+      { method: "GET", path: "/api/admiral/tokens", auth: "admiral", description: "List every user's personal access tokens" },
+      { method: "DELETE", path: "/api/admiral/tokens/:id", auth: "admiral", description: "Revoke any personal access token" },
+      // ── Webhooks ──
+      { method: "GET", path: "/api/webhooks", auth: "lieutenant", description: "List your webhooks and the fleet events they can subscribe to" },
+      { method: "POST", path: "/api/webhooks", auth: "lieutenant", description: "Add a webhook — the signing secret is returned once", body: { url: "https URL (required)", events: "array of target.achieved | proposal.created | proposal.applied | import.committed | plan.conflicts | timer.completed (required)", description: "string (optional, max 200)" } },
+      { method: "PATCH", path: "/api/webhooks/:id", auth: "lieutenant", description: "Edit or pause a webhook", body: { url: "string (optional)", events: "array (optional)", enabled: "boolean (optional)", description: "string | null (optional)" } },
+      { method: "DELETE", path: "/api/webhooks/:id", auth: "lieutenant", description: "Delete a webhook and its delivery log" },
+      { method: "GET", path: "/api/webhooks/:id/deliveries", auth: "lieutenant", description: "Delivery log with status, attempts and last response", params: { limit: "1-100 (optional, default 50)" } },
+      { method: "POST", path: "/api/webhooks/:id/test", auth: "lieutenant", description: "Send a signed webhook.ping" },
+      { method: "POST", path: "/api/webhooks/:id/deliveries/:deliveryId/redeliver", auth: "lieutenant", description: "Send a past delivery's payload again" },
+      { method: "POST", path: "/api/webhooks/timer-completed", auth: "lieutenant", description: "Report a finished in-app timer (publishes timer.completed)", body: { timerId: "string (required)", label: "string (required)", durationMs: "integer (required)", completedCount: "integer (optional)", sourceRef: "string (optional)" } },
+      // ── Chat Bots ──
+      { method: "GET", path: "/api/surfaces", auth: "lieutenant", description: "List chat bots you can link and your linked platform accounts" },
+      { method: "POST", path: "/api/surfaces/:id/link-code", auth: "lieutenant", description: "Issue a one-time code to send the bot as \"link <code>\" (valid 10 minutes)" },
+      { method: "DELETE", path: "/api/surfaces/:id/links/:platformUserId", auth: "lieutenant", description: "Unlink one of your platform accounts" },
+      { method: "POST", path: "/api/surfaces/:id/inbound", auth: "none", description: "Bot → Aria: a message or an approve/decline action, signed with the surface secret (X-Majel-Signature)", body: { type: "\"message\" | \"action\" (required)", platformUserId: "string (required)", conversationId: "string (required)", text: "string (message)", messageId: "string (message, optional)", action: "approve | decline (action)", proposalId: "string (action)" } },
+      { method: "GET", path: "/api/admiral/surfaces", auth: "admiral", description: "List registered chat bots" },
+      { method: "POST", path: "/api/admiral/surfaces", auth: "admiral", description: "Register a chat bot — the signing secret is returned once", body: { name: "string (required, max 100)", callbackUrl: "https URL replies are POSTed to (required)" } },
+      { method: "PATCH", path: "/api/admiral/surfaces/:id", auth: "admiral", description: "Rename, repoint or disable a chat bot", body: { name: "string (optional)", callbackUrl: "string (optional)", enabled: "boolean (optional)" } },
+      { method: "POST", path: "/api/admiral/surfaces/:id/rotate-secret", auth: "admiral", description: "Replace a chat bot's signing secret (returned once)" },
+      { method: "DELETE", path: "/api/admiral/surfaces/:id", auth: "admiral", description: "Delete a chat bot with its links and queued replies" },
       // ── Model Selector (Admiral only) ──
       { method: "GET", path: "/api/models", auth: "admiral", description: "List available AI models + current selection" },
       { method: "POST", path: "/api/models/select", auth: "admiral", description: "Hot-swap the active Gemini model", body: { model: "string (required) — model ID from GET /api/models" } },
@@ -226,6 +303,7 @@ export function createCoreRoutes(appState: AppState): Router {
       auth: {
         none: "No authentication required",
         lieutenant: "Requires session cookie or Bearer token (visitor-level)",
+        apiToken: "Bearer mjl_pat_… tokens act as their owner but only reach routes their scopes cover",
         admiral: "Requires Admiral-level Bearer token or session",
       },
       endpoints,
@@ -19,8 +19,14 @@ import { createSafeRouter } from "../safe-router.js";
 import { createContextMiddleware } from "../context-middleware.js";
 import { VALID_BRIDGE_SLOTS, VALID_BELOW_DECK_MODES } from "../types/crew-types.js";
 import type { BridgeSlot, BelowDeckMode, VariantPatch, PlanSource } from "../types/crew-types.js";
-import { MAX_NAME, MAX_NOTES, MAX_LABEL, getCrewStore } from "../services/route-helpers/crew-route-helpers.js";
+import { MAX_NAME, MAX_NOTES, MAX_LABEL, getCrewStore, getOverlayStore, getSubstitutionSource } from "../services/route-helpers/crew-route-helpers.js";
 import { getCanonicalObjectiveKeys } from "../services/canonical-objectives.js";
+import { solvePlan, compareSolvers, VALID_SOLVER_MODES, type SolverMode } from "../services/plan-solver.js";
+import { buildDockSchedule, MAX_SCHEDULE_HOURS } from "../services/plan-schedule.js";
+import { publishPlanConflicts } from "../services/fleet-events.js";
+import { parsePlanWindow, isWindowError } from "../services/plan-windows.js";
+import { checkPlanShipInstance } from "../services/plan-ship-instance.js";
+import { MAX_INSTANCE_ID_LEN } from "../stores/overlay-store.js";
 
 export function createCrewRoutes(appState: AppState): Router {
   const router = createSafeRouter();
@@ -79,6 +85,26 @@ export function createCrewRoutes(appState: AppState): Router {
     return { valid: true, intentKeys: value as string[] };
   }
 
+  /** Sends a 400/503 and returns false when the instance is not one of the item's ship. */
+  async function validateShipInstance(
+    res: import("express").Response,
+    store: NonNullable<ReturnType<typeof getStore>>,
+    item: { loadoutId?: number | null; variantId?: number | null },
+    shipInstanceId: string,
+  ): Promise<boolean> {
+    const overlayStore = getOverlayStore(appState, res);
+    if (!overlayStore) {
+      sendFail(res, ErrorCode.OVERLAY_STORE_NOT_AVAILABLE, "Overlay store not available", 503);
+      return false;
+    }
+    const error = await checkPlanShipInstance(store, overlayStore, item, shipInstanceId);
+    if (error) {
+      sendFail(res, ErrorCode.INVALID_PARAM, error, 400);
+      return false;
+    }
+    return true;
+  }
+
   // ═══════════════════════════════════════════════════════
   // Bridge Cores
   // ═══════════════════════════════════════════════════════
@@ -691,6 +717,69 @@ export function createCrewRoutes(appState: AppState): Router {
     sendOk(res, { planItems, count: planItems.length });
   });
 
+  // Solver preview — ?mode=greedy|optimal|compare (registered before /:id)
+  router.get("/api/crew/plan/solve", async (req, res) => {
+    const store = getStore(res);
+    if (!store) return sendFail(res, ErrorCode.CREW_STORE_NOT_AVAILABLE, "Crew store not available", 503);
+    const mode = (req.query.mode as string | undefined) ?? "greedy";
+    if (mode !== "compare" && !VALID_SOLVER_MODES.includes(mode as SolverMode)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `mode must be one of: ${[...VALID_SOLVER_MODES, "compare"].join(", ")}`, 400);
+    }
+    const substitutes = await getSubstitutionSource(appState, res);
+    if (mode === "compare") {
+      const comparison = await compareSolvers(store, { substitutes });
+      return sendOk(res, { comparison });
+    }
+    const result = await solvePlan(store, { mode: mode as SolverMode, substitutes });
+    publishPlanConflicts((res.locals.ctx?.identity.userId ?? (res.locals.userId as string)) || "local", result);
+    sendOk(res, { result });
+  });
+
+  router.post("/api/crew/plan/solve", admiral, async (req, res) => {
+    const store = getStore(res);
+    if (!store) return sendFail(res, ErrorCode.CREW_STORE_NOT_AVAILABLE, "Crew store not available", 503);
+    const { mode = "greedy", apply } = req.body ?? {};
+    if (!VALID_SOLVER_MODES.includes(mode)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `mode must be one of: ${VALID_SOLVER_MODES.join(", ")}`, 400);
+    }
+    if (apply !== undefined && typeof apply !== "boolean") {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "apply must be a boolean", 400);
+    }
+    try {
+      const substitutes = await getSubstitutionSource(appState, res);
+      const result = await solvePlan(store, { mode, apply: apply === true, substitutes });
+      publishPlanConflicts((res.locals.ctx?.identity.userId ?? (res.locals.userId as string)) || "local", result);
+      sendOk(res, { result });
+    } catch (err: unknown) {
+      log.fleet.error({ err: err instanceof Error ? err.message : String(err) }, "plan solve failed");
+      return sendFail(res, ErrorCode.INTERNAL_ERROR, "Failed to solve plan", 500);
+    }
+  });
+
+  // Dock timeline — ?from=ISO&hours=1..168&mode=greedy|optimal (registered before /:id)
+  router.get("/api/crew/plan/schedule", async (req, res) => {
+    const store = getStore(res);
+    if (!store) return sendFail(res, ErrorCode.CREW_STORE_NOT_AVAILABLE, "Crew store not available", 503);
+    const mode = (req.query.mode as string | undefined) ?? "greedy";
+    if (!VALID_SOLVER_MODES.includes(mode as SolverMode)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `mode must be one of: ${VALID_SOLVER_MODES.join(", ")}`, 400);
+    }
+    const from = req.query.from !== undefined ? new Date(req.query.from as string) : new Date();
+    if (isNaN(from.getTime())) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "from must be an ISO timestamp", 400);
+    }
+    const hours = req.query.hours !== undefined ? Number(req.query.hours) : undefined;
+    if (hours !== undefined && (!Number.isInteger(hours) || hours < 1 || hours > MAX_SCHEDULE_HOURS)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `hours must be an integer between 1 and ${MAX_SCHEDULE_HOURS}`, 400);
+    }
+    const substitutes = await getSubstitutionSource(appState, res);
+    const schedule = await buildDockSchedule(store, {
+      from, hours, mode: mode as SolverMode, substitutes,
+      officerName: substitutes?.officerName,
+    });
+    sendOk(res, { schedule });
+  });
+
   router.get("/api/crew/plan/:id", async (req, res) => {
     const store = getStore(res);
     if (!store) return sendFail(res, ErrorCode.CREW_STORE_NOT_AVAILABLE, "Crew store not available", 503);
@@ -704,7 +793,14 @@ export function createCrewRoutes(appState: AppState): Router {
   router.post("/api/crew/plan", admiral, async (req, res) => {
     const store = getStore(res);
     if (!store) return sendFail(res, ErrorCode.CREW_STORE_NOT_AVAILABLE, "Crew store not available", 503);
-    const { intentKey, label, loadoutId, variantId, dockNumber, awayOfficers, priority, isActive, source, notes } = req.body;
+    const { intentKey, label, loadoutId, variantId, dockNumber, awayOfficers, priority, isActive, source, notes, shipInstanceId } = req.body;
+    const window = req.body.window === undefined ? undefined : parsePlanWindow(req.body.window);
+    if (window !== undefined && isWindowError(window)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, window.error, 400);
+    }
+    if (shipInstanceId != null && (typeof shipInstanceId !== "string" || shipInstanceId.length > MAX_INSTANCE_ID_LEN)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `shipInstanceId must be a string (max ${MAX_INSTANCE_ID_LEN} chars) or null`, 400);
+    }
     if (label !== undefined && typeof label === "string" && label.length > MAX_LABEL) {
       return sendFail(res, ErrorCode.INVALID_PARAM, `label must be ${MAX_LABEL} characters or fewer`, 400);
     }
@@ -726,9 +822,10 @@ export function createCrewRoutes(appState: AppState): Router {
       return sendFail(res, ErrorCode.INVALID_PARAM, 'source must be "manual" or "preset"', 400);
     }
     try {
+      if (shipInstanceId != null && !(await validateShipInstance(res, store, { loadoutId, variantId }, shipInstanceId))) return;
       const item = await store.createPlanItem({
         intentKey, label, loadoutId, variantId, dockNumber, awayOfficers,
-        priority, isActive, source: source as PlanSource | undefined, notes,
+        priority, isActive, source: source as PlanSource | undefined, notes, window, shipInstanceId,
       });
       sendOk(res, { planItem: item }, 201);
     } catch (err: unknown) {
@@ -746,7 +843,14 @@ export function createCrewRoutes(appState: AppState): Router {
     if (!store) return sendFail(res, ErrorCode.CREW_STORE_NOT_AVAILABLE, "Crew store not available", 503);
     const id = parseInt(req.params.id as string, 10);
     if (isNaN(id)) return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid plan item ID", 400);
-    const { intentKey, label, loadoutId, variantId, dockNumber, awayOfficers, priority, isActive, source, notes } = req.body;
+    const { intentKey, label, loadoutId, variantId, dockNumber, awayOfficers, priority, isActive, source, notes, shipInstanceId } = req.body;
+    const window = req.body.window === undefined ? undefined : parsePlanWindow(req.body.window);
+    if (window !== undefined && isWindowError(window)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, window.error, 400);
+    }
+    if (shipInstanceId != null && (typeof shipInstanceId !== "string" || shipInstanceId.length > MAX_INSTANCE_ID_LEN)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `shipInstanceId must be a string (max ${MAX_INSTANCE_ID_LEN} chars) or null`, 400);
+    }
     if (label !== undefined && typeof label === "string" && label.length > MAX_LABEL) {
       return sendFail(res, ErrorCode.INVALID_PARAM, `label must be ${MAX_LABEL} characters or fewer`, 400);
     }
@@ -760,9 +864,19 @@ export function createCrewRoutes(appState: AppState): Router {
       return sendFail(res, ErrorCode.INVALID_PARAM, "dockNumber must be a positive integer", 400);
     }
     try {
+      // Check the pinned instance against the item's ship after the patch —
+      // including a kept instance when the loadout or variant changes
+      const shipChanges = loadoutId !== undefined || variantId !== undefined;
+      if (shipInstanceId != null || (shipInstanceId === undefined && shipChanges)) {
+        const existing = await store.getPlanItem(id);
+        if (!existing) return sendFail(res, ErrorCode.NOT_FOUND, `Plan item ${id} not found`, 404);
+        const instanceId = shipInstanceId ?? existing.shipInstanceId;
+        const item = shipChanges ? { loadoutId, variantId } : existing;
+        if (instanceId != null && !(await validateShipInstance(res, store, item, instanceId))) return;
+      }
       const updated = await store.updatePlanItem(id, {
         intentKey, label, loadoutId, variantId, dockNumber, awayOfficers,
-        priority, isActive, source: source as PlanSource | undefined, notes,
+        priority, isActive, source: source as PlanSource | undefined, notes, window, shipInstanceId,
       });
       if (!updated) return sendFail(res, ErrorCode.NOT_FOUND, `Plan item ${id} not found`, 404);
       sendOk(res, { planItem: updated });
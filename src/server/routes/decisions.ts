@@ -0,0 +1,148 @@
+/**
+ * routes/decisions.ts — Fleet decision memory routes
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * The settings panel's view of what Aria has remembered: list, add, edit,
+ * re-activate and delete fleet decisions. Listing reconciles against the
+ * overlay first so invalidations show up without a chat turn.
+ * All routes require visitor authentication.
+ */
+
+import type { Router } from "express";
+import type { AppState } from "../app-context.js";
+import { sendOk, sendFail, ErrorCode } from "../envelope.js";
+import { createSafeRouter } from "../safe-router.js";
+import { requireVisitor } from "../services/auth.js";
+import { createContextMiddleware } from "../context-middleware.js";
+import { reconcileDecisions } from "../services/decision-memory.js";
+import {
+  DecisionLimitError,
+  MAX_STATEMENT_LENGTH,
+  VALID_DECISION_KINDS,
+  VALID_DECISION_STATUSES,
+  type DecisionKind,
+  type DecisionStatus,
+  type UpdateDecisionInput,
+} from "../stores/decision-store.js";
+
+const VALID_OWNERSHIP = ["owned", "unowned"];
+
+export function createDecisionRoutes(appState: AppState): Router {
+  const router = createSafeRouter();
+  const visitor = requireVisitor(appState);
+  router.use("/api/decisions", visitor);
+  if (appState.pool) {
+    router.use("/api/decisions", createContextMiddleware(appState.pool));
+  }
+
+  function userIdOf(res: import("express").Response): string {
+    return res.locals.ctx?.identity.userId ?? "local";
+  }
+
+  /** Guard: return a user-scoped store, or null */
+  function getStore(res: import("express").Response) {
+    return appState.decisionStoreFactory?.forUser(userIdOf(res)) ?? null;
+  }
+
+  /** Validate the editable fields present in a body; returns an error message or null. */
+  function validate(body: Record<string, unknown>, requireAll: boolean): string | null {
+    const { kind, statement, status, assumesOwnership, assumesTarget } = body;
+    if (kind !== undefined || requireAll) {
+      if (!VALID_DECISION_KINDS.includes(kind as DecisionKind)) {
+        return `kind must be one of: ${VALID_DECISION_KINDS.join(", ")}`;
+      }
+    }
+    if (statement !== undefined || requireAll) {
+      if (typeof statement !== "string" || !statement.trim()) return "statement is required";
+      if (statement.length > MAX_STATEMENT_LENGTH) {
+        return `statement must be ${MAX_STATEMENT_LENGTH} characters or fewer`;
+      }
+    }
+    if (status !== undefined && !VALID_DECISION_STATUSES.includes(status as DecisionStatus)) {
+      return `status must be one of: ${VALID_DECISION_STATUSES.join(", ")}`;
+    }
+    if (assumesOwnership != null && !VALID_OWNERSHIP.includes(assumesOwnership as string)) {
+      return "assumesOwnership must be owned, unowned or null";
+    }
+    if (assumesTarget != null && typeof assumesTarget !== "boolean") {
+      return "assumesTarget must be a boolean or null";
+    }
+    return null;
+  }
+
+  // ─── List ─────────────────────────────────────────────────
+
+  router.get("/api/decisions", async (req, res) => {
+    const store = getStore(res);
+    if (!store) return sendFail(res, ErrorCode.DECISION_STORE_NOT_AVAILABLE, "Decision store not available", 503);
+    const status = typeof req.query.status === "string" ? req.query.status : undefined;
+    if (status && !VALID_DECISION_STATUSES.includes(status as DecisionStatus)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `status must be one of: ${VALID_DECISION_STATUSES.join(", ")}`, 400);
+    }
+
+    await reconcileDecisions(store, appState.overlayStoreFactory?.forUser(userIdOf(res)) ?? null);
+    const decisions = await store.list({ status: status as DecisionStatus | undefined });
+    sendOk(res, { decisions, count: decisions.length, counts: await store.counts() });
+  });
+
+  // ─── Create ───────────────────────────────────────────────
+
+  router.post("/api/decisions", async (req, res) => {
+    const store = getStore(res);
+    if (!store) return sendFail(res, ErrorCode.DECISION_STORE_NOT_AVAILABLE, "Decision store not available", 503);
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const error = validate(body, true);
+    if (error) return sendFail(res, ErrorCode.INVALID_PARAM, error, 400);
+
+    try {
+      const decision = await store.create({
+        kind: body.kind as DecisionKind,
+        statement: body.statement as string,
+        source: "manual",
+      });
+      sendOk(res, decision, 201);
+    } catch (err) {
+      if (err instanceof DecisionLimitError) return sendFail(res, ErrorCode.CONFLICT, err.message, 409);
+      throw err;
+    }
+  });
+
+  // ─── Update ───────────────────────────────────────────────
+
+  router.patch("/api/decisions/:id", async (req, res) => {
+    const store = getStore(res);
+    if (!store) return sendFail(res, ErrorCode.DECISION_STORE_NOT_AVAILABLE, "Decision store not available", 503);
+    const id = parseInt(req.params.id as string, 10);
+    if (isNaN(id)) return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid decision ID", 400);
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const error = validate(body, false);
+    if (error) return sendFail(res, ErrorCode.INVALID_PARAM, error, 400);
+
+    const input: UpdateDecisionInput = {};
+    if (body.kind !== undefined) input.kind = body.kind as DecisionKind;
+    if (body.statement !== undefined) input.statement = body.statement as string;
+    if (body.status !== undefined) input.status = body.status as DecisionStatus;
+    if (body.assumesOwnership !== undefined) input.assumesOwnership = body.assumesOwnership as "owned" | "unowned" | null;
+    if (body.assumesTarget !== undefined) input.assumesTarget = body.assumesTarget as boolean | null;
+
+    const decision = await store.update(id, input);
+    if (!decision) return sendFail(res, ErrorCode.NOT_FOUND, `Decision ${id} not found`, 404);
+    sendOk(res, decision);
+  });
+
+  // ─── Delete ───────────────────────────────────────────────
+
+  router.delete("/api/decisions/:id", async (req, res) => {
+    const store = getStore(res);
+    if (!store) return sendFail(res, ErrorCode.DECISION_STORE_NOT_AVAILABLE, "Decision store not available", 503);
+    const id = parseInt(req.params.id as string, 10);
+    if (isNaN(id)) return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid decision ID", 400);
+
+    const deleted = await store.delete(id);
+    if (!deleted) return sendFail(res, ErrorCode.NOT_FOUND, `Decision ${id} not found`, 404);
+    sendOk(res, { deleted: true, id });
+  });
+
+  return router;
+}
@@ -157,7 +157,7 @@ export function createDevRoutes(appState: AppState): Router {
    * POST /api/dev/reset — Truncate user-scoped tables
    *
    * Preserves reference catalog. Resets overlays, proposals, receipts,
-   * targets, crews, events, research, inventory.
+   * targets, crews, events, research, inventory, battle reports.
    */
   router.post("/api/dev/reset", async (_req: Request, res: Response) => {
     if (!appState.config.contract.capabilities.devSeed) {
@@ -170,7 +170,7 @@ export function createDevRoutes(appState: AppState): Router {
     const tables = [
       "ship_overlay", "officer_overlay", "targets", "bridge_compositions",
       "bridge_core_members", "import_receipts", "proposals", "operation_events",
-      "research_nodes", "inventory_items",
+      "research_nodes", "inventory_items", "inventory_snapshots", "battle_reports",
     ];
 
     const truncated: string[] = [];
@@ -1,5 +1,12 @@
 /**
  * routes/events.ts — ADR-037 realtime operation event streaming routes.
+ *
+ * Durable events are replayed from operation_events after Last-Event-ID and
+ * pushed as the operation stream announces them (LISTEN/NOTIFY); the poll
+ * only runs while no listener is connected. Streamed chat text arrives as
+ * `run.text` ({ offset, text }: replace everything from offset on) and tool
+ * progress as `run.tool`. Neither carries an SSE id, so they never move the
+ * replay cursor; on (re)connect the text so far is sent as one `run.text`.
  */
 
 import type { Router } from "express";
@@ -14,6 +21,8 @@ const TOPIC_RE = /^[a-z0-9_]{2,40}$/i;
 const OP_ID_RE = /^[a-zA-Z0-9._:-]{2,120}$/;
 const ALLOWED_TOPICS = new Set(["chat_run", "runner_job"]);
 const POLL_MS = 1000;
+/** Safety net for a missed notification while the operation stream is live. */
+const LIVE_POLL_MS = 15000;
 const KEEPALIVE_MS = 15000;
 /** Server-side hard limit on SSE stream lifetime — exceeds RUN_TIMEOUT_MS (5min) to
  *  ensure the stream outlives the longest possible chat run (ADR-049 §3a). */
@@ -125,6 +134,8 @@ export function createEventRoutes(appState: AppState): Router {
     let cursor = parseReplayCursor(req.header("Last-Event-ID"), req.query.lastEventId);
     let closed = false;
     let inFlight = false;
+    let flushQueued = false;
+    let unsubscribe: (() => void) | null = null;
     let pollTimer: ReturnType<typeof setInterval> | null = null;
     let keepaliveTimer: ReturnType<typeof setInterval> | null = null;
     let lifetimeTimer: ReturnType<typeof setTimeout> | null = null;
@@ -132,6 +143,7 @@ export function createEventRoutes(appState: AppState): Router {
     const cleanup = (): void => {
       if (closed) return;
       closed = true;
+      unsubscribe?.();
       if (pollTimer) clearInterval(pollTimer);
       if (keepaliveTimer) clearInterval(keepaliveTimer);
       if (lifetimeTimer) clearTimeout(lifetimeTimer);
@@ -156,7 +168,9 @@ export function createEventRoutes(appState: AppState): Router {
       }
     };
 
+    let lastFlushAt = 0;
     const flushReplay = async (): Promise<void> => {
+      lastFlushAt = Date.now();
       const replay = await store.listSince(topic, operationId, cursor, 200);
       for (const evt of replay) {
         cursor = evt.seq;
@@ -172,19 +186,47 @@ export function createEventRoutes(appState: AppState): Router {
       }
     };
 
-    await flushReplay();
-
-    pollTimer = setInterval(async () => {
-      if (closed || inFlight) return;
+    // Serialized: a flush requested mid-flight runs again once it finishes
+    const requestFlush = async (): Promise<void> => {
+      if (closed) return;
+      if (inFlight) {
+        flushQueued = true;
+        return;
+      }
       inFlight = true;
       try {
-        await flushReplay();
+        do {
+          flushQueued = false;
+          await flushReplay();
+        } while (flushQueued && !closed);
       } catch (err) {
         const errMessage = err instanceof Error ? err.message : String(err);
         log.http.warn({ err: errMessage, topic, operationId, userId }, "event stream poll failed");
       } finally {
         inFlight = false;
       }
+    };
+
+    const stream = appState.operationStream;
+    const target = { topic, operationId, userId };
+    // Subscribe before the initial replay so nothing committed in between is missed
+    unsubscribe = stream?.subscribe(target, (signal) => {
+      if (signal.kind === "event") {
+        void requestFlush();
+      } else if (signal.kind === "text") {
+        writeSse("run.text", { offset: signal.offset, text: signal.text });
+      } else {
+        writeSse("run.tool", { tool: signal.tool, phase: signal.phase, ...(signal.ok !== undefined ? { ok: signal.ok } : {}) });
+      }
+    }) ?? null;
+
+    await requestFlush();
+    const textSoFar = stream?.textSoFar(target) ?? "";
+    if (textSoFar) writeSse("run.text", { offset: 0, text: textSoFar });
+
+    pollTimer = setInterval(() => {
+      if (stream?.isLive() && Date.now() - lastFlushAt < LIVE_POLL_MS) return;
+      void requestFlush();
     }, POLL_MS);
     pollTimer.unref?.();
 
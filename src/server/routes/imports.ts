@@ -22,10 +22,12 @@ import {
   diffFieldsShip,
   isProtectedOverwriteOfficer,
   isProtectedOverwriteShip,
+  createInstanceAllocator,
   type OfficerOverlayRow,
   type ShipOverlayRow,
 } from "../services/route-helpers/imports-helpers.js";
 import { classifyImportRejectReason, recordImportReject } from "../services/import-rejection-counters.js";
+import { publishImportCommitted } from "../services/fleet-events.js";
 
 const MAX_IMPORT_ROWS = 10000;
 
@@ -232,7 +234,7 @@ export function createImportRoutes(appState: AppState): Router {
       const changesAdded: unknown[] = [];
       const changesUpdated: unknown[] = [];
       const inverseByRef = new Map<string, unknown>();
-      const overwriteCandidates: Array<{ entityType: "officer" | "ship"; refId: string; rowIndex: number; changedFields: string[] }> = [];
+      const overwriteCandidates: Array<{ entityType: "officer" | "ship"; refId: string; instanceId: string; rowIndex: number; changedFields: string[] }> = [];
       const totalEntities = (resolvedRows as ResolvedImportRow[]).reduce((count, row) => {
         let entityCount = count;
         if (row.officerRefId) entityCount += 1;
@@ -240,15 +242,30 @@ export function createImportRoutes(appState: AppState): Router {
         return entityCount;
       }, 0);
 
-      const plannedOfficerUpserts: Array<{ refId: string; values: OfficerOverlayRow; before: OfficerOverlayRow | null; rowIndex: number; changedFields: string[] }> = [];
-      const plannedShipUpserts: Array<{ refId: string; values: ShipOverlayRow; before: ShipOverlayRow | null; rowIndex: number; changedFields: string[] }> = [];
+      const plannedOfficerUpserts: Array<{ refId: string; instanceId: string; values: OfficerOverlayRow; before: OfficerOverlayRow | null; rowIndex: number; changedFields: string[] }> = [];
+      const plannedShipUpserts: Array<{ refId: string; instanceId: string; values: ShipOverlayRow; before: ShipOverlayRow | null; rowIndex: number; changedFields: string[] }> = [];
+
+      // ADR-051: repeated refs in one import map onto distinct instances
+      const [officerInstances, shipInstances] = await Promise.all([
+        db.query<{ refId: string; instanceId: string }>(
+          `SELECT ref_id AS "refId", instance_id AS "instanceId" FROM officer_overlay WHERE ref_id = ANY($1)`,
+          [[...officerIds]],
+        ),
+        db.query<{ refId: string; instanceId: string }>(
+          `SELECT ref_id AS "refId", instance_id AS "instanceId" FROM ship_overlay WHERE ref_id = ANY($1)`,
+          [[...shipIds]],
+        ),
+      ]);
+      const officerInstanceFor = createInstanceAllocator(officerInstances.rows);
+      const shipInstanceFor = createInstanceAllocator(shipInstances.rows);
 
       for (const row of resolvedRows as ResolvedImportRow[]) {
         if (row.officerRefId) {
+          const instanceId = officerInstanceFor(row.officerRefId);
           const beforeResult = await db.query<OfficerOverlayRow>(
             `SELECT ref_id AS "refId", ownership_state AS "ownershipState", level, rank, power
-             FROM officer_overlay WHERE ref_id = $1 AND instance_id = 'primary'`,
-            [row.officerRefId],
+             FROM officer_overlay WHERE ref_id = $1 AND instance_id = $2`,
+            [row.officerRefId, instanceId],
           );
           const before = beforeResult.rows[0] ?? null;
           const nextValues: OfficerOverlayRow = {
@@ -261,18 +278,19 @@ export function createImportRoutes(appState: AppState): Router {
 
           const changedFields = diffFieldsOfficer(before, nextValues);
           if (changedFields.length > 0) {
-            plannedOfficerUpserts.push({ refId: row.officerRefId, values: nextValues, before, rowIndex: row.rowIndex, changedFields });
+            plannedOfficerUpserts.push({ refId: row.officerRefId, instanceId, values: nextValues, before, rowIndex: row.rowIndex, changedFields });
             if (before && isProtectedOverwriteOfficer(before, nextValues)) {
-              overwriteCandidates.push({ entityType: "officer", refId: row.officerRefId, rowIndex: row.rowIndex, changedFields });
+              overwriteCandidates.push({ entityType: "officer", refId: row.officerRefId, instanceId, rowIndex: row.rowIndex, changedFields });
             }
           }
         }
 
         if (row.shipRefId) {
+          const instanceId = shipInstanceFor(row.shipRefId);
           const beforeResult = await db.query<ShipOverlayRow>(
             `SELECT ref_id AS "refId", ownership_state AS "ownershipState", tier, level, power
-             FROM ship_overlay WHERE ref_id = $1 AND instance_id = 'primary'`,
-            [row.shipRefId],
+             FROM ship_overlay WHERE ref_id = $1 AND instance_id = $2`,
+            [row.shipRefId, instanceId],
           );
           const before = beforeResult.rows[0] ?? null;
           const nextValues: ShipOverlayRow = {
@@ -285,9 +303,9 @@ export function createImportRoutes(appState: AppState): Router {
 
           const changedFields = diffFieldsShip(before, nextValues);
           if (changedFields.length > 0) {
-            plannedShipUpserts.push({ refId: row.shipRefId, values: nextValues, before, rowIndex: row.rowIndex, changedFields });
+            plannedShipUpserts.push({ refId: row.shipRefId, instanceId, values: nextValues, before, rowIndex: row.rowIndex, changedFields });
             if (before && isProtectedOverwriteShip(before, nextValues)) {
-              overwriteCandidates.push({ entityType: "ship", refId: row.shipRefId, rowIndex: row.rowIndex, changedFields });
+              overwriteCandidates.push({ entityType: "ship", refId: row.shipRefId, instanceId, rowIndex: row.rowIndex, changedFields });
             }
           }
         }
@@ -308,9 +326,9 @@ export function createImportRoutes(appState: AppState): Router {
       for (const plan of plannedOfficerUpserts) {
         await db.query(
           `INSERT INTO officer_overlay (user_id, ref_id, instance_id, ownership_state, target, level, rank, power, target_note, target_priority, updated_at)
-           VALUES ($1, $2, 'primary', $3, COALESCE((SELECT target FROM officer_overlay WHERE ref_id = $2 AND instance_id = 'primary'), FALSE), $4, $5, $6,
-                   COALESCE((SELECT target_note FROM officer_overlay WHERE ref_id = $2 AND instance_id = 'primary'), NULL),
-                   COALESCE((SELECT target_priority FROM officer_overlay WHERE ref_id = $2 AND instance_id = 'primary'), NULL), $7)
+           VALUES ($1, $2, $8, $3, COALESCE((SELECT target FROM officer_overlay WHERE ref_id = $2 AND instance_id = $8), FALSE), $4, $5, $6,
+                   COALESCE((SELECT target_note FROM officer_overlay WHERE ref_id = $2 AND instance_id = $8), NULL),
+                   COALESCE((SELECT target_priority FROM officer_overlay WHERE ref_id = $2 AND instance_id = $8), NULL), $7)
            ON CONFLICT(user_id, ref_id, instance_id) DO UPDATE SET
              ownership_state = EXCLUDED.ownership_state,
              level = EXCLUDED.level,
@@ -325,36 +343,38 @@ export function createImportRoutes(appState: AppState): Router {
             plan.values.rank,
             plan.values.power,
             new Date().toISOString(),
+            plan.instanceId,
           ],
         );
 
         const afterResult = await db.query<OfficerOverlayRow>(
           `SELECT ref_id AS "refId", ownership_state AS "ownershipState", level, rank, power
-           FROM officer_overlay WHERE ref_id = $1 AND instance_id = 'primary'`,
-          [plan.refId],
+           FROM officer_overlay WHERE ref_id = $1 AND instance_id = $2`,
+          [plan.refId, plan.instanceId],
         );
         const after = afterResult.rows[0];
         const payload = {
           entityType: "officer",
           refId: plan.refId,
+          instanceId: plan.instanceId,
           rowIndex: plan.rowIndex,
           before: plan.before,
           after,
         };
         if (plan.before) changesUpdated.push(payload);
         else changesAdded.push(payload);
-        const key = `officer:${plan.refId}`;
+        const key = `officer:${plan.refId}:${plan.instanceId}`;
         if (!inverseByRef.has(key)) {
-          inverseByRef.set(key, { entityType: "officer", refId: plan.refId, before: plan.before });
+          inverseByRef.set(key, { entityType: "officer", refId: plan.refId, instanceId: plan.instanceId, before: plan.before });
         }
       }
 
       for (const plan of plannedShipUpserts) {
         await db.query(
           `INSERT INTO ship_overlay (user_id, ref_id, instance_id, ownership_state, target, tier, level, power, target_note, target_priority, updated_at)
-           VALUES ($1, $2, 'primary', $3, COALESCE((SELECT target FROM ship_overlay WHERE ref_id = $2 AND instance_id = 'primary'), FALSE), $4, $5, $6,
-                   COALESCE((SELECT target_note FROM ship_overlay WHERE ref_id = $2 AND instance_id = 'primary'), NULL),
-                   COALESCE((SELECT target_priority FROM ship_overlay WHERE ref_id = $2 AND instance_id = 'primary'), NULL), $7)
+           VALUES ($1, $2, $8, $3, COALESCE((SELECT target FROM ship_overlay WHERE ref_id = $2 AND instance_id = $8), FALSE), $4, $5, $6,
+                   COALESCE((SELECT target_note FROM ship_overlay WHERE ref_id = $2 AND instance_id = $8), NULL),
+                   COALESCE((SELECT target_priority FROM ship_overlay WHERE ref_id = $2 AND instance_id = $8), NULL), $7)
            ON CONFLICT(user_id, ref_id, instance_id) DO UPDATE SET
              ownership_state = EXCLUDED.ownership_state,
              tier = EXCLUDED.tier,
@@ -369,27 +389,29 @@ export function createImportRoutes(appState: AppState): Router {
             plan.values.level,
             plan.values.power,
             new Date().toISOString(),
+            plan.instanceId,
           ],
         );
 
         const afterResult = await db.query<ShipOverlayRow>(
           `SELECT ref_id AS "refId", ownership_state AS "ownershipState", tier, level, power
-           FROM ship_overlay WHERE ref_id = $1 AND instance_id = 'primary'`,
-          [plan.refId],
+           FROM ship_overlay WHERE ref_id = $1 AND instance_id = $2`,
+          [plan.refId, plan.instanceId],
         );
         const after = afterResult.rows[0];
         const payload = {
           entityType: "ship",
           refId: plan.refId,
+          instanceId: plan.instanceId,
           rowIndex: plan.rowIndex,
           before: plan.before,
           after,
         };
         if (plan.before) changesUpdated.push(payload);
         else changesAdded.push(payload);
-        const key = `ship:${plan.refId}`;
+        const key = `ship:${plan.refId}:${plan.instanceId}`;
         if (!inverseByRef.has(key)) {
-          inverseByRef.set(key, { entityType: "ship", refId: plan.refId, before: plan.before });
+          inverseByRef.set(key, { entityType: "ship", refId: plan.refId, instanceId: plan.instanceId, before: plan.before });
         }
       }
 
@@ -445,6 +467,7 @@ export function createImportRoutes(appState: AppState): Router {
       );
     }
 
+    publishImportCommitted(userId, { id: outcome.receiptId, sourceType: "file_import", layer: "ownership" }, outcome.summary);
     return sendOk(res, {
       receipt: { id: outcome.receiptId },
       summary: outcome.summary,
@@ -694,6 +717,7 @@ export function createImportRoutes(appState: AppState): Router {
       };
     });
 
+    publishImportCommitted(userId, { id: compositionOutcome.receiptId, sourceType: "file_import", layer: "composition" }, compositionOutcome.summary);
     return sendOk(res, {
       receipt: { id: compositionOutcome.receiptId },
       summary: compositionOutcome.summary,
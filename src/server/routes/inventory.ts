@@ -0,0 +1,94 @@
+/**
+ * routes/inventory.ts — Inventory, quantity history and income forecast routes
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Read-only views over the Admiral's inventory: current items, the
+ * snapshot history behind each item, and daily income rates derived
+ * from that history. Writes go through the update_inventory fleet tool.
+ * All routes require visitor authentication.
+ */
+
+import type { Router } from "express";
+import type { AppState } from "../app-context.js";
+import { sendOk, sendFail, ErrorCode } from "../envelope.js";
+import { createSafeRouter } from "../safe-router.js";
+import { requireVisitor } from "../services/auth.js";
+import { createContextMiddleware } from "../context-middleware.js";
+import type { InventoryCategory } from "../stores/inventory-store.js";
+import {
+  forecastIncome,
+  forecastItem,
+  DEFAULT_FORECAST_WINDOW_DAYS,
+  MAX_FORECAST_WINDOW_DAYS,
+} from "../services/inventory-forecast.js";
+
+const VALID_CATEGORIES: InventoryCategory[] = ["ore", "gas", "crystal", "parts", "currency", "blueprint", "other"];
+
+export function createInventoryRoutes(appState: AppState): Router {
+  const router = createSafeRouter();
+  const visitor = requireVisitor(appState);
+  router.use("/api/inventory", visitor);
+  if (appState.pool) {
+    router.use("/api/inventory", createContextMiddleware(appState.pool));
+  }
+
+  /** Guard: return a user-scoped store, or null */
+  function getStore(res: import("express").Response) {
+    const userId = res.locals.ctx?.identity.userId ?? "local";
+    return appState.inventoryStoreFactory?.forUser(userId) ?? null;
+  }
+
+  /** Parse ?days= into a since timestamp, or an error message. */
+  function parseWindow(raw: unknown): { days: number; since: string } | { error: string } {
+    const days = raw ? parseInt(raw as string, 10) : DEFAULT_FORECAST_WINDOW_DAYS;
+    if (isNaN(days) || days < 1 || days > MAX_FORECAST_WINDOW_DAYS) {
+      return { error: `days must be an integer between 1 and ${MAX_FORECAST_WINDOW_DAYS}` };
+    }
+    return { days, since: new Date(Date.now() - days * 86_400_000).toISOString() };
+  }
+
+  // ─── List ─────────────────────────────────────────────────
+
+  router.get("/api/inventory", async (req, res) => {
+    const store = getStore(res);
+    if (!store) return sendFail(res, ErrorCode.INVENTORY_STORE_NOT_AVAILABLE, "Inventory store not available", 503);
+    const category = typeof req.query.category === "string" ? req.query.category.trim().toLowerCase() : undefined;
+    if (category && !VALID_CATEGORIES.includes(category as InventoryCategory)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `category must be one of: ${VALID_CATEGORIES.join(", ")}`, 400);
+    }
+    const q = typeof req.query.q === "string" ? req.query.q : undefined;
+    const items = await store.listItems({ category: category as InventoryCategory | undefined, q });
+    sendOk(res, { items, count: items.length });
+  });
+
+  // ─── Forecast ─────────────────────────────────────────────
+
+  router.get("/api/inventory/forecast", async (req, res) => {
+    const store = getStore(res);
+    if (!store) return sendFail(res, ErrorCode.INVENTORY_STORE_NOT_AVAILABLE, "Inventory store not available", 503);
+    const window = parseWindow(req.query.days);
+    if ("error" in window) return sendFail(res, ErrorCode.INVALID_PARAM, window.error, 400);
+
+    const forecasts = forecastIncome(await store.listHistory({ since: window.since }));
+    sendOk(res, { forecasts, count: forecasts.length, windowDays: window.days });
+  });
+
+  // ─── Item history ─────────────────────────────────────────
+
+  router.get("/api/inventory/:id/history", async (req, res) => {
+    const store = getStore(res);
+    if (!store) return sendFail(res, ErrorCode.INVENTORY_STORE_NOT_AVAILABLE, "Inventory store not available", 503);
+    const id = parseInt(req.params.id as string, 10);
+    if (isNaN(id)) return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid inventory item ID", 400);
+    const window = parseWindow(req.query.days);
+    if ("error" in window) return sendFail(res, ErrorCode.INVALID_PARAM, window.error, 400);
+
+    const item = await store.getItem(id);
+    if (!item) return sendFail(res, ErrorCode.NOT_FOUND, `Inventory item ${id} not found`, 404);
+    const history = await store.listHistory({ itemId: id, since: window.since });
+    sendOk(res, { item, history, forecast: forecastItem(history), windowDays: window.days });
+  });
+
+  return router;
+}
@@ -0,0 +1,119 @@
+/**
+ * routes/mcp.ts — Model Context Protocol HTTP transport
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * POST /api/mcp takes one JSON-RPC message (or batch) and answers with plain
+ * JSON-RPC — not the API envelope — so desktop MCP clients can talk to it
+ * directly. Stateless: no Mcp-Session-Id, no server-sent event stream.
+ *
+ * Clients authenticate with `Authorization: Bearer <token>`, where the token
+ * is a personal access token with only the "mcp" scope, minted by
+ * POST /api/mcp/token (or MAJEL_ADMIN_TOKEN). It reaches POST /api/mcp and
+ * nothing else, and is listed and revoked with the user's other API tokens.
+ */
+
+import express, { type Router } from "express";
+import type { AppState } from "../app-context.js";
+import { sendOk, sendFail, ErrorCode } from "../envelope.js";
+import { log } from "../logger.js";
+import { createSafeRouter } from "../safe-router.js";
+import { requireVisitor } from "../services/auth.js";
+import { createContextMiddleware } from "../context-middleware.js";
+import { createMcpServer, type McpServer } from "../services/mcp/index.js";
+import type { ToolContextFactory } from "../services/fleet-tools/index.js";
+import { MAX_TOKENS_PER_USER } from "../stores/api-token-store.js";
+
+/** Name given to minted MCP tokens so they stand out in the API token list. */
+export const MCP_TOKEN_NAME = "MCP client";
+
+/** MCP tokens expire after this many days; mint a new one to renew. */
+export const MCP_TOKEN_EXPIRY_DAYS = 30;
+
+export function createMcpRoutes(appState: AppState): Router {
+  const router = createSafeRouter();
+  const visitor = requireVisitor(appState);
+  router.use("/api/mcp", visitor);
+  if (appState.pool) {
+    router.use("/api/mcp", createContextMiddleware(appState.pool));
+  }
+
+  // Route-specific body limit: sync_overlay / sync_research arguments outgrow the global 100kb parser
+  const mcpBodyParser = express.json({ limit: "2mb" });
+
+  // The tool context factory is wired at boot — build the server on first use
+  let server: McpServer | null = null;
+  let serverFactory: ToolContextFactory | null = null;
+  function getServer(): McpServer | null {
+    const factory = appState.toolContextFactory;
+    if (!factory) return null;
+    if (!server || serverFactory !== factory) {
+      server = createMcpServer({ toolContextFactory: factory, proposalStoreFactory: appState.proposalStoreFactory });
+      serverFactory = factory;
+    }
+    return server;
+  }
+
+  // ── JSON-RPC endpoint ─────────────────────────────────────
+
+  router.post("/api/mcp", mcpBodyParser, async (req, res) => {
+    const mcp = getServer();
+    if (!mcp) {
+      return sendFail(res, ErrorCode.INTERNAL_ERROR, "Fleet tools not available", 503);
+    }
+
+    const userId = res.locals.ctx?.identity.userId ?? (res.locals.userId as string);
+    const response = await mcp.handle(req.body, userId);
+
+    // Notifications and responses only — accepted, nothing to return
+    if (!response) {
+      res.status(202).end();
+      return;
+    }
+    res.json(response);
+  });
+
+  // No server-initiated stream: the spec asks for 405 on GET
+  router.get("/api/mcp", (_req, res) => {
+    res.set("Allow", "POST");
+    sendFail(res, ErrorCode.INVALID_PARAM, "MCP over HTTP accepts POST only — this server does not open an event stream", 405);
+  });
+
+  // ── Client token ──────────────────────────────────────────
+
+  router.post("/api/mcp/token", async (req, res) => {
+    if (!appState.config.authEnabled) {
+      return sendOk(res, { token: null, authEnabled: false, endpoint: "/api/mcp" });
+    }
+    if (!appState.apiTokenStore) {
+      return sendFail(res, ErrorCode.INTERNAL_ERROR, "API token store not available", 503);
+    }
+
+    const userId = res.locals.ctx?.identity.userId ?? (res.locals.userId as string);
+    if (await appState.apiTokenStore.countActiveTokens(userId) >= MAX_TOKENS_PER_USER) {
+      return sendFail(res, ErrorCode.CONFLICT, `At most ${MAX_TOKENS_PER_USER} active tokens per account`, 409, {
+        hints: ["Revoke an API token you no longer use"],
+      });
+    }
+    const created = await appState.apiTokenStore.createToken(userId, {
+      name: MCP_TOKEN_NAME,
+      scopes: ["mcp"],
+      expiresInDays: MCP_TOKEN_EXPIRY_DAYS,
+    });
+    appState.auditStore?.logEvent({
+      event: "auth.token.create", actorId: userId,
+      detail: { tokenId: created.token.id, name: created.token.name, scopes: created.token.scopes, expiresAt: created.token.expiresAt },
+      ip: req.ip || null,
+      userAgent: req.headers["user-agent"] || null,
+    });
+    log.auth.info({ userId, tokenId: created.token.id }, "mcp:token-issued");
+    sendOk(res, {
+      token: created.secret,
+      authEnabled: true,
+      endpoint: "/api/mcp",
+      expiresAt: created.token.expiresAt,
+    }, 201);
+  });
+
+  return router;
+}
@@ -13,7 +13,9 @@ import { createSafeRouter } from "../safe-router.js";
 import { requireVisitor } from "../services/auth.js";
 import { createContextMiddleware } from "../context-middleware.js";
 import { type ScanType, type ScanResult, extractFromImage, crossReference } from "../services/scan.js";
+import { MAX_INSTANCE_ID_LEN, resolveInstanceId } from "../stores/overlay-store.js";
 import { log } from "../logger.js";
+import { publishImportCommitted } from "../services/fleet-events.js";
 
 const ALLOWED_IMAGE_TYPES = new Set(["image/png", "image/jpeg", "image/webp"]);
 const MAX_IMAGE_DATA_LENGTH = 10 * 1024 * 1024;
@@ -30,6 +32,8 @@ const ScanErrorCode = defineModuleErrorCodes("scan", [
 interface ScanCommitEntity {
   entityType: "officer" | "ship";
   refId: string;
+  /** ADR-051: which copy to update — omitted = primary, "new" = add a copy */
+  instanceId?: string;
   level?: number;
   rank?: number;
   tier?: number;
@@ -247,6 +251,9 @@ export function createScanRoutes(appState: AppState): Router {
         if (typeof e.refId !== "string" || e.refId.length === 0) {
           return sendFail(res, ErrorCode.INVALID_PARAM, `entities[${i}].refId must be a non-empty string`, 400);
         }
+        if (e.instanceId !== undefined && (typeof e.instanceId !== "string" || e.instanceId.length === 0 || e.instanceId.length > MAX_INSTANCE_ID_LEN)) {
+          return sendFail(res, ErrorCode.INVALID_PARAM, `entities[${i}].instanceId must be a string of 1–${MAX_INSTANCE_ID_LEN} characters`, 400);
+        }
       }
 
       // ── Check prerequisites ───────────────────────────────
@@ -289,22 +296,23 @@ export function createScanRoutes(appState: AppState): Router {
           const inverseEntries: unknown[] = [];
 
           for (const entity of typedEntities) {
+            const instanceId = resolveInstanceId(entity.instanceId);
             if (entity.entityType === "officer") {
               // Read before-state
               const beforeResult = await db.query(
                 `SELECT ref_id AS "refId", ownership_state AS "ownershipState", level, rank, power
-                 FROM officer_overlay WHERE ref_id = $1 AND instance_id = 'primary'`,
-                [entity.refId],
+                 FROM officer_overlay WHERE ref_id = $1 AND instance_id = $2`,
+                [entity.refId, instanceId],
               );
               const before = beforeResult.rows[0] ?? null;
 
               await db.query(
                 `INSERT INTO officer_overlay (user_id, ref_id, instance_id, ownership_state, target, level, rank, power, target_note, target_priority, updated_at)
-                 VALUES ($1, $2, 'primary', 'owned',
-                   COALESCE((SELECT target FROM officer_overlay WHERE ref_id = $2 AND user_id = $1 AND instance_id = 'primary'), FALSE),
+                 VALUES ($1, $2, $7, 'owned',
+                   COALESCE((SELECT target FROM officer_overlay WHERE ref_id = $2 AND user_id = $1 AND instance_id = $7), FALSE),
                    $3, $4, $5,
-                   COALESCE((SELECT target_note FROM officer_overlay WHERE ref_id = $2 AND user_id = $1 AND instance_id = 'primary'), NULL),
-                   COALESCE((SELECT target_priority FROM officer_overlay WHERE ref_id = $2 AND user_id = $1 AND instance_id = 'primary'), NULL),
+                   COALESCE((SELECT target_note FROM officer_overlay WHERE ref_id = $2 AND user_id = $1 AND instance_id = $7), NULL),
+                   COALESCE((SELECT target_priority FROM officer_overlay WHERE ref_id = $2 AND user_id = $1 AND instance_id = $7), NULL),
                    $6)
                  ON CONFLICT(user_id, ref_id, instance_id) DO UPDATE SET
                    ownership_state = 'owned',
@@ -319,36 +327,37 @@ export function createScanRoutes(appState: AppState): Router {
                   entity.rank != null ? String(entity.rank) : null,
                   entity.power ?? null,
                   new Date().toISOString(),
+                  instanceId,
                 ],
               );
 
               const afterResult = await db.query(
                 `SELECT ref_id AS "refId", ownership_state AS "ownershipState", level, rank, power
-                 FROM officer_overlay WHERE ref_id = $1 AND instance_id = 'primary'`,
-                [entity.refId],
+                 FROM officer_overlay WHERE ref_id = $1 AND instance_id = $2`,
+                [entity.refId, instanceId],
               );
 
-              const payload = { entityType: "officer", refId: entity.refId, before, after: afterResult.rows[0] };
+              const payload = { entityType: "officer", refId: entity.refId, instanceId, before, after: afterResult.rows[0] };
               if (before) changesUpdated.push(payload);
               else changesAdded.push(payload);
-              inverseEntries.push({ entityType: "officer", refId: entity.refId, before });
+              inverseEntries.push({ entityType: "officer", refId: entity.refId, instanceId, before });
 
             } else {
               // Ship
               const beforeResult = await db.query(
                 `SELECT ref_id AS "refId", ownership_state AS "ownershipState", tier, level, power
-                 FROM ship_overlay WHERE ref_id = $1 AND instance_id = 'primary'`,
-                [entity.refId],
+                 FROM ship_overlay WHERE ref_id = $1 AND instance_id = $2`,
+                [entity.refId, instanceId],
               );
               const before = beforeResult.rows[0] ?? null;
 
               await db.query(
                 `INSERT INTO ship_overlay (user_id, ref_id, instance_id, ownership_state, target, tier, level, power, target_note, target_priority, updated_at)
-                 VALUES ($1, $2, 'primary', 'owned',
-                   COALESCE((SELECT target FROM ship_overlay WHERE ref_id = $2 AND user_id = $1 AND instance_id = 'primary'), FALSE),
+                 VALUES ($1, $2, $7, 'owned',
+                   COALESCE((SELECT target FROM ship_overlay WHERE ref_id = $2 AND user_id = $1 AND instance_id = $7), FALSE),
                    $3, $4, $5,
-                   COALESCE((SELECT target_note FROM ship_overlay WHERE ref_id = $2 AND user_id = $1 AND instance_id = 'primary'), NULL),
-                   COALESCE((SELECT target_priority FROM ship_overlay WHERE ref_id = $2 AND user_id = $1 AND instance_id = 'primary'), NULL),
+                   COALESCE((SELECT target_note FROM ship_overlay WHERE ref_id = $2 AND user_id = $1 AND instance_id = $7), NULL),
+                   COALESCE((SELECT target_priority FROM ship_overlay WHERE ref_id = $2 AND user_id = $1 AND instance_id = $7), NULL),
                    $6)
                  ON CONFLICT(user_id, ref_id, instance_id) DO UPDATE SET
                    ownership_state = 'owned',
@@ -363,19 +372,20 @@ export function createScanRoutes(appState: AppState): Router {
                   entity.level ?? null,
                   entity.power ?? null,
                   new Date().toISOString(),
+                  instanceId,
                 ],
               );
 
               const afterResult = await db.query(
                 `SELECT ref_id AS "refId", ownership_state AS "ownershipState", tier, level, power
-                 FROM ship_overlay WHERE ref_id = $1 AND instance_id = 'primary'`,
-                [entity.refId],
+                 FROM ship_overlay WHERE ref_id = $1 AND instance_id = $2`,
+                [entity.refId, instanceId],
               );
 
-              const payload = { entityType: "ship", refId: entity.refId, before, after: afterResult.rows[0] };
+              const payload = { entityType: "ship", refId: entity.refId, instanceId, before, after: afterResult.rows[0] };
               if (before) changesUpdated.push(payload);
               else changesAdded.push(payload);
-              inverseEntries.push({ entityType: "ship", refId: entity.refId, before });
+              inverseEntries.push({ entityType: "ship", refId: entity.refId, instanceId, before });
             }
           }
 
@@ -412,6 +422,10 @@ export function createScanRoutes(appState: AppState): Router {
           added: outcome.summary.added,
           updated: outcome.summary.updated,
         }, "scan:commit_complete");
+        publishImportCommitted(userId, { id: outcome.receiptId, sourceType: "image_scan", layer: "ownership" }, {
+          added: outcome.summary.added,
+          updated: outcome.summary.updated,
+        });
 
         return sendOk(res, {
           receipt: { id: outcome.receiptId },
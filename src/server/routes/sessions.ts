@@ -6,9 +6,14 @@
  *   - get:    owner only
  *   - patch:  owner only
  *   - delete: owner only
+ *   - branch: owner only — switch the active branch of a forked thread
+ *   - export: owner only — Markdown (active branch) or "majel.session" JSON (whole tree)
+ *   - import: creates a new session owned by the caller
+ *   - share:  owner only — signed read-only link, served publicly by /api/shared/:token
  */
 
-import type { Router } from "express";
+import express, { type Router } from "express";
+import { randomUUID } from "node:crypto";
 import type { AppState } from "../app-context.js";
 import type { ChatSession, ChatMessage } from "../sessions.js";
 import { sendOk, sendFail, ErrorCode } from "../envelope.js";
@@ -16,6 +21,22 @@ import { requireVisitor } from "../services/auth.js";
 import { createSafeRouter } from "../safe-router.js";
 import { createContextMiddleware } from "../context-middleware.js";
 import { log } from "../logger.js";
+import {
+  buildSessionExport,
+  createShareToken,
+  parseSessionImport,
+  renderSessionMarkdown,
+  verifyShareToken,
+  SessionImportError,
+  DEFAULT_SHARE_HOURS,
+  MAX_SHARE_HOURS,
+} from "../services/session-transfer.js";
+
+/** Download name for an exported session: "fleet-review.md" */
+function exportFilename(title: string, extension: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60);
+  return `${slug || "session"}.${extension}`;
+}
 
 /**
  * Hydrate proposal data for messages that have proposalIds.
@@ -76,6 +97,9 @@ export function createSessionRoutes(appState: AppState): Router {
   /** Max string length for session title. */
   const MAX_TITLE = 200;
 
+  // Route-specific body limit: exported conversations outgrow the global 100kb parser
+  const importBodyParser = express.json({ limit: "5mb" });
+
   router.get("/api/sessions", async (req, res) => {
     if (!appState.sessionStore) {
       return sendFail(res, ErrorCode.SESSION_STORE_NOT_AVAILABLE, "Session store not available", 503);
@@ -135,6 +159,125 @@ export function createSessionRoutes(appState: AppState): Router {
     sendOk(res, { id: req.params.id as string, title: title.trim(), status: "updated" });
   });
 
+  router.post("/api/sessions/:id/branch", async (req, res) => {
+    if (!appState.sessionStore) {
+      return sendFail(res, ErrorCode.SESSION_STORE_NOT_AVAILABLE, "Session store not available", 503);
+    }
+    if ((req.params.id as string).length > 200) {
+      return sendFail(res, ErrorCode.NOT_FOUND, "Session not found", 404);
+    }
+    const { messageId } = req.body ?? {};
+    if (messageId == null) {
+      return sendFail(res, ErrorCode.MISSING_PARAM, "Missing 'messageId' in request body");
+    }
+    if (!Number.isSafeInteger(messageId) || messageId < 1) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "messageId must be a positive integer", 400);
+    }
+    // Ownership check: owner only
+    const owner = await appState.sessionStore.getOwner(req.params.id as string);
+    const userId = res.locals.ctx?.identity.userId ?? (res.locals.userId as string);
+    if (owner !== userId) {
+      return sendFail(res, ErrorCode.NOT_FOUND, "Session not found", 404);
+    }
+    const selected = await appState.sessionStore.selectBranch(req.params.id as string, messageId);
+    if (!selected) {
+      return sendFail(res, ErrorCode.NOT_FOUND, "Message not found", 404);
+    }
+    const session = await appState.sessionStore.get(req.params.id as string);
+    if (!session) {
+      return sendFail(res, ErrorCode.NOT_FOUND, "Session not found", 404);
+    }
+    sendOk(res, await hydrateSessionProposals(session, userId, appState));
+  });
+
+  router.get("/api/sessions/:id/export", async (req, res) => {
+    if (!appState.sessionStore) {
+      return sendFail(res, ErrorCode.SESSION_STORE_NOT_AVAILABLE, "Session store not available", 503);
+    }
+    if ((req.params.id as string).length > 200) {
+      return sendFail(res, ErrorCode.NOT_FOUND, "Session not found", 404);
+    }
+    const format = (req.query.format as string | undefined) ?? "json";
+    if (format !== "json" && format !== "markdown") {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "format must be 'json' or 'markdown'", 400);
+    }
+    // Ownership check: owner only
+    const owner = await appState.sessionStore.getOwner(req.params.id as string);
+    const userId = res.locals.ctx?.identity.userId ?? (res.locals.userId as string);
+    if (owner !== userId) {
+      return sendFail(res, ErrorCode.NOT_FOUND, "Session not found", 404);
+    }
+    const session = await appState.sessionStore.get(req.params.id as string);
+    if (!session) {
+      return sendFail(res, ErrorCode.NOT_FOUND, "Session not found", 404);
+    }
+    if (format === "markdown") {
+      return sendOk(res, {
+        filename: exportFilename(session.title, "md"),
+        markdown: renderSessionMarkdown(session.title, session.messages),
+      });
+    }
+    const tree = await appState.sessionStore.getTree(session.id);
+    sendOk(res, {
+      filename: exportFilename(session.title, "majel.json"),
+      export: buildSessionExport(session, tree.messages, tree.activeMessageId),
+    });
+  });
+
+  router.post("/api/sessions/import", importBodyParser, async (req, res) => {
+    if (!appState.sessionStore) {
+      return sendFail(res, ErrorCode.SESSION_STORE_NOT_AVAILABLE, "Session store not available", 503);
+    }
+    let doc;
+    try {
+      doc = parseSessionImport(req.body);
+    } catch (err) {
+      if (err instanceof SessionImportError) {
+        return sendFail(res, ErrorCode.INVALID_PARAM, err.message, 400);
+      }
+      throw err;
+    }
+    const userId = res.locals.ctx?.identity.userId ?? (res.locals.userId as string);
+    const session = await appState.sessionStore.importSession(randomUUID(), doc.session.title, userId, doc.messages, doc.activeMessageId);
+    log.settings.info({ sessionId: session.id, userId, messages: doc.messages.length }, "session imported");
+    sendOk(res, await hydrateSessionProposals(session, userId, appState), 201);
+  });
+
+  router.post("/api/sessions/:id/share", async (req, res) => {
+    if (!appState.sessionStore) {
+      return sendFail(res, ErrorCode.SESSION_STORE_NOT_AVAILABLE, "Session store not available", 503);
+    }
+    if (!appState.config.shareSecret) {
+      return sendFail(res, ErrorCode.SHARE_LINKS_NOT_AVAILABLE, "Share links are not configured", 503, {
+        hints: ["Set MAJEL_SHARE_SECRET to enable read-only share links"],
+      });
+    }
+    if ((req.params.id as string).length > 200) {
+      return sendFail(res, ErrorCode.NOT_FOUND, "Session not found", 404);
+    }
+    const { expiresInHours = DEFAULT_SHARE_HOURS } = req.body ?? {};
+    if (!Number.isSafeInteger(expiresInHours) || expiresInHours < 1 || expiresInHours > MAX_SHARE_HOURS) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `expiresInHours must be an integer between 1 and ${MAX_SHARE_HOURS}`, 400);
+    }
+    // Ownership check: owner only
+    const owner = await appState.sessionStore.getOwner(req.params.id as string);
+    const userId = res.locals.ctx?.identity.userId ?? (res.locals.userId as string);
+    if (owner !== userId) {
+      return sendFail(res, ErrorCode.NOT_FOUND, "Session not found", 404);
+    }
+    // The link shows the active branch as it stands now — later turns stay private
+    const branch = await appState.sessionStore.getBranch(req.params.id as string);
+    const last = branch.at(-1);
+    if (!last) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "Session has no messages to share", 400);
+    }
+    // Whole seconds — the token carries the expiry in seconds
+    const expiresAt = new Date((Math.floor(Date.now() / 1000) + expiresInHours * 3600) * 1000);
+    const token = createShareToken({ sessionId: req.params.id as string, messageId: last.id, expiresAt }, appState.config.shareSecret);
+    log.settings.info({ sessionId: req.params.id, userId, expiresAt: expiresAt.toISOString() }, "session share link created");
+    sendOk(res, { token, url: `/shared/${token}`, expiresAt: expiresAt.toISOString(), messageCount: branch.length });
+  });
+
   router.delete("/api/sessions/:id", async (req, res) => {
     if (!appState.sessionStore) {
       return sendFail(res, ErrorCode.SESSION_STORE_NOT_AVAILABLE, "Session store not available", 503);
@@ -155,5 +298,32 @@ export function createSessionRoutes(appState: AppState): Router {
     sendOk(res, { id: req.params.id as string, status: "deleted" });
   });
 
+  // ─── Public read-only view (no auth — the signed token is the grant) ───
+
+  router.get("/api/shared/:token", async (req, res) => {
+    if (!appState.sessionStore) {
+      return sendFail(res, ErrorCode.SESSION_STORE_NOT_AVAILABLE, "Session store not available", 503);
+    }
+    const claims = verifyShareToken(req.params.token as string, appState.config.shareSecret);
+    const leaf = claims ? await appState.sessionStore.getMessage(claims.sessionId, claims.messageId) : null;
+    const session = claims && leaf ? await appState.sessionStore.get(claims.sessionId) : null;
+    if (!claims || !leaf || !session) {
+      return sendFail(res, ErrorCode.NOT_FOUND, "This link is invalid or has expired", 404);
+    }
+    const branch = await appState.sessionStore.getBranch(claims.sessionId, leaf.id);
+    sendOk(res, {
+      session: { title: session.title, createdAt: session.createdAt },
+      messages: branch
+        .filter((m) => m.role === "user" || m.role === "model")
+        .map((m) => ({
+          role: m.role,
+          text: m.text,
+          createdAt: m.createdAt,
+          ...(m.toolCalls?.length ? { toolCalls: m.toolCalls } : {}),
+        })),
+      expiresAt: claims.expiresAt.toISOString(),
+    });
+  });
+
   return router;
 }
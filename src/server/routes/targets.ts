@@ -3,7 +3,8 @@
  *
  * Majel — STFC Fleet Intelligence System
  *
- * CRUD for structured acquisition and progression targets.
+ * CRUD for structured acquisition and progression targets, plus the
+ * dependency graph between them.
  * All routes require visitor authentication.
  */
 
@@ -16,6 +17,9 @@ import { VALID_TARGET_TYPES, VALID_TARGET_STATUSES, type TargetType, type Target
 import { requireVisitor, requireAdmiral } from "../services/auth.js";
 import { createContextMiddleware } from "../context-middleware.js";
 import { detectTargetConflicts } from "../services/target-conflicts.js";
+import { loadTargetBudget } from "../services/target-budget.js";
+import { loadTargetGraph } from "../services/target-graph.js";
+import { publishTargetAchieved } from "../services/fleet-events.js";
 
 export function createTargetRoutes(appState: AppState): Router {
   const router = createSafeRouter();
@@ -86,8 +90,29 @@ export function createTargetRoutes(appState: AppState): Router {
     const store = getStore(res);
     if (!store) return sendFail(res, ErrorCode.TARGET_STORE_NOT_AVAILABLE, "Target store not available", 503);
     if (!appState.crewStore) return sendFail(res, ErrorCode.LOADOUT_STORE_NOT_AVAILABLE, "Crew store not available", 503);
-    const conflicts = await detectTargetConflicts(store, appState.crewStore);
-    sendOk(res, { conflicts, total: conflicts.length });
+    const userId = res.locals.ctx?.identity.userId ?? "local";
+    const budget = appState.referenceStore
+      ? await loadTargetBudget(await store.list({ status: "active" }), {
+        referenceStore: appState.referenceStore,
+        overlayStore: appState.overlayStoreFactory?.forUser(userId) ?? null,
+        inventoryStore: appState.inventoryStoreFactory?.forUser(userId) ?? null,
+      })
+      : null;
+    const conflicts = await detectTargetConflicts(store, appState.crewStore, budget);
+    sendOk(res, { conflicts, total: conflicts.length, budget });
+  });
+
+  // ─── Dependency graph (must precede /:id) ────────────────
+
+  router.get("/api/targets/graph", async (_req, res) => {
+    const store = getStore(res);
+    if (!store) return sendFail(res, ErrorCode.TARGET_STORE_NOT_AVAILABLE, "Target store not available", 503);
+    const userId = res.locals.ctx?.identity.userId ?? "local";
+    const graph = await loadTargetGraph(store, {
+      referenceStore: appState.referenceStore,
+      overlayStore: appState.overlayStoreFactory?.forUser(userId) ?? null,
+    });
+    sendOk(res, graph);
   });
 
   // ─── Get target ───────────────────────────────────────────
@@ -253,8 +278,49 @@ export function createTargetRoutes(appState: AppState): Router {
 
     const target = await store.markAchieved(id);
     if (!target) return sendFail(res, ErrorCode.NOT_FOUND, `Target not found: ${id}`, 404);
+    void publishTargetAchieved(res.locals.ctx?.identity.userId ?? "local", target, appState.referenceStore);
     sendOk(res, target);
   });
 
+  // ─── Dependencies ────────────────────────────────────────
+
+  router.post("/api/targets/:id/dependencies", admiral, async (req, res) => {
+    const store = getStore(res);
+    if (!store) return sendFail(res, ErrorCode.TARGET_STORE_NOT_AVAILABLE, "Target store not available", 503);
+
+    const id = Number(req.params.id as string);
+    if (isNaN(id)) return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid target ID", 400);
+    const dependsOnId = Number(req.body?.dependsOnId);
+    if (!Number.isInteger(dependsOnId) || dependsOnId < 1) {
+      return sendFail(res, ErrorCode.MISSING_PARAM, "dependsOnId must be a target ID", 400);
+    }
+
+    try {
+      const dependency = await store.addDependency(id, dependsOnId);
+      if (!dependency) return sendFail(res, ErrorCode.NOT_FOUND, `Target not found: ${id} or ${dependsOnId}`, 404);
+      sendOk(res, dependency, 201);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      if (msg.includes("cycle") || msg.includes("itself")) {
+        return sendFail(res, ErrorCode.CONFLICT, msg, 409);
+      }
+      log.fleet.error({ err: msg }, "target dependency create failed");
+      return sendFail(res, ErrorCode.INTERNAL_ERROR, "Failed to add target dependency", 500);
+    }
+  });
+
+  router.delete("/api/targets/:id/dependencies/:dependsOnId", admiral, async (req, res) => {
+    const store = getStore(res);
+    if (!store) return sendFail(res, ErrorCode.TARGET_STORE_NOT_AVAILABLE, "Target store not available", 503);
+
+    const id = Number(req.params.id as string);
+    const dependsOnId = Number(req.params.dependsOnId as string);
+    if (isNaN(id) || isNaN(dependsOnId)) return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid target ID", 400);
+
+    const removed = await store.removeDependency(id, dependsOnId);
+    if (!removed) return sendFail(res, ErrorCode.NOT_FOUND, `Target ${id} does not depend on ${dependsOnId}`, 404);
+    sendOk(res, { id, dependsOnId, removed: true });
+  });
+
   return router;
 }
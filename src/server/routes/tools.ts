@@ -0,0 +1,87 @@
+/**
+ * routes/tools.ts — Direct fleet tool invocation
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Backs the chat input's `/` command palette: list the read tools with
+ * their argument schemas, and run one without a model turn (no tokens
+ * spent). Mutation tools are not served here — they go through chat or
+ * MCP so the trust gate and proposals apply.
+ * All routes require visitor authentication.
+ */
+
+import type { Router } from "express";
+import type { AppState } from "../app-context.js";
+import { sendOk, sendFail, ErrorCode } from "../envelope.js";
+import { log } from "../logger.js";
+import { createSafeRouter } from "../safe-router.js";
+import { requireVisitor } from "../services/auth.js";
+import { createContextMiddleware } from "../context-middleware.js";
+import {
+  checkToolArgs,
+  executeFleetTool,
+  FLEET_TOOL_DECLARATIONS,
+  toClaudeTools,
+  toolRegistry,
+} from "../services/fleet-tools/index.js";
+import { isMutationTool } from "../services/fleet-tools/trust.js";
+
+// Declarations are static — convert once. Only registered read tools are served.
+const READ_TOOLS = toClaudeTools(FLEET_TOOL_DECLARATIONS)
+  .filter((tool) => toolRegistry.has(tool.name) && !isMutationTool(tool.name));
+const READ_TOOLS_BY_NAME = new Map(READ_TOOLS.map((tool) => [tool.name, tool]));
+
+export function createToolRoutes(appState: AppState): Router {
+  const router = createSafeRouter();
+  const visitor = requireVisitor(appState);
+  router.use("/api/tools", visitor);
+  if (appState.pool) {
+    router.use("/api/tools", createContextMiddleware(appState.pool));
+  }
+
+  // ─── List ─────────────────────────────────────────────────
+
+  router.get("/api/tools", (_req, res) => {
+    const tools = READ_TOOLS.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.input_schema,
+    }));
+    sendOk(res, { tools, count: tools.length });
+  });
+
+  // ─── Run ──────────────────────────────────────────────────
+
+  router.post("/api/tools/:name/run", async (req, res) => {
+    const name = req.params.name as string;
+    const tool = READ_TOOLS_BY_NAME.get(name);
+    if (!tool) {
+      if (toolRegistry.has(name)) {
+        return sendFail(res, ErrorCode.FORBIDDEN, `${name} changes fleet data and cannot be run directly`, 403, {
+          hints: ["Ask Aria in chat so the change goes through your trust settings"],
+        });
+      }
+      return sendFail(res, ErrorCode.NOT_FOUND, `Unknown tool: ${name}`, 404);
+    }
+    const factory = appState.toolContextFactory;
+    if (!factory) return sendFail(res, ErrorCode.FLEET_TOOLS_NOT_AVAILABLE, "Fleet tools not available", 503);
+
+    const args = req.body?.args ?? {};
+    if (!args || typeof args !== "object" || Array.isArray(args)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "args must be an object", 400);
+    }
+    const problems = checkToolArgs(tool.input_schema, args as Record<string, unknown>);
+    if (problems.length > 0) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `Invalid arguments for ${name}: ${problems.join("; ")}`, 400);
+    }
+
+    const userId = res.locals.ctx?.identity.userId ?? "local";
+    const startTime = Date.now();
+    const result = await executeFleetTool(name, args as Record<string, unknown>, factory.forUser(userId));
+    const durationMs = Date.now() - startTime;
+    log.fleet.debug({ tool: name, userId, durationMs }, "tool:direct");
+    sendOk(res, { tool: name, args, result, durationMs });
+  });
+
+  return router;
+}
@@ -0,0 +1,237 @@
+/**
+ * routes/webhooks.ts — Outbound webhook routes
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Configure the endpoints that receive fleet events, read their delivery
+ * log, send a test ping and redeliver. Also the one event the server
+ * cannot see for itself: timers run in the browser, which reports each
+ * completion here. All routes require visitor authentication.
+ *
+ *   GET    /api/webhooks                                  — List own webhooks + subscribable events
+ *   POST   /api/webhooks                                  — Create (signing secret shown once)
+ *   PATCH  /api/webhooks/:id                              — Edit URL, events, description, enabled
+ *   DELETE /api/webhooks/:id                              — Delete with its delivery log
+ *   GET    /api/webhooks/:id/deliveries                   — Delivery log, newest first
+ *   POST   /api/webhooks/:id/test                         — Send a webhook.ping
+ *   POST   /api/webhooks/:id/deliveries/:deliveryId/redeliver — Send a past payload again
+ *   POST   /api/webhooks/timer-completed                  — Publish a timer.completed event
+ */
+
+import type { Request, Response, Router } from "express";
+import type { AppState } from "../app-context.js";
+import { sendOk, sendFail, ErrorCode } from "../envelope.js";
+import { createSafeRouter } from "../safe-router.js";
+import { requireVisitor } from "../services/auth.js";
+import { createContextMiddleware } from "../context-middleware.js";
+import { FLEET_EVENTS, isFleetEventType, publishFleetEvent } from "../services/fleet-events.js";
+import { validateWebhookUrl } from "../services/webhook-dispatcher.js";
+import { MAX_WEBHOOKS_PER_USER, type UpdateWebhookInput } from "../stores/webhook-store.js";
+
+const MAX_DESCRIPTION_LENGTH = 200;
+const MAX_TIMER_LABEL_LENGTH = 100;
+const MAX_DELIVERY_LIMIT = 100;
+
+type Body = Record<string, unknown>;
+
+export function createWebhookRoutes(appState: AppState): Router {
+  const router = createSafeRouter();
+  const visitor = requireVisitor(appState);
+  router.use("/api/webhooks", visitor);
+  if (appState.pool) {
+    router.use("/api/webhooks", createContextMiddleware(appState.pool));
+  }
+
+  function userIdOf(res: Response): string {
+    return res.locals.ctx?.identity.userId ?? (res.locals.userId as string | undefined) ?? "local";
+  }
+
+  function parseId(value: unknown): number | null {
+    const id = Number(value);
+    return Number.isInteger(id) && id > 0 ? id : null;
+  }
+
+  /** Validate the editable fields present in a body; returns an error message or null. */
+  function validate(body: Body, requireAll: boolean): string | null {
+    const { url, events, enabled, description } = body;
+    if (url !== undefined || requireAll) {
+      const urlError = validateWebhookUrl(url, appState.config.nodeEnv !== "production");
+      if (urlError) return urlError;
+    }
+    if (events !== undefined || requireAll) {
+      if (!Array.isArray(events) || events.length === 0 || !events.every(isFleetEventType)) {
+        return `events must be a non-empty list of: ${FLEET_EVENTS.join(", ")}`;
+      }
+    }
+    if (enabled !== undefined && typeof enabled !== "boolean") return "enabled must be a boolean";
+    if (description !== undefined && description !== null) {
+      if (typeof description !== "string") return "description must be a string";
+      if (description.length > MAX_DESCRIPTION_LENGTH) {
+        return `description must be ${MAX_DESCRIPTION_LENGTH} characters or fewer`;
+      }
+    }
+    return null;
+  }
+
+  /** The caller's webhook store, or null after sending a 503. */
+  function storeOr503(res: Response) {
+    if (!appState.webhookStoreFactory) {
+      sendFail(res, ErrorCode.WEBHOOK_STORE_NOT_AVAILABLE, "Webhook store not available", 503);
+      return null;
+    }
+    return appState.webhookStoreFactory.forUser(userIdOf(res));
+  }
+
+  // ── Timer completion (registered before /:id) ─────────────
+
+  router.post("/api/webhooks/timer-completed", async (req: Request, res: Response) => {
+    const { timerId, label, durationMs, completedCount, sourceRef } = (req.body ?? {}) as Body;
+    if (typeof timerId !== "string" || !timerId || timerId.length > 100) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "timerId is required", 400);
+    }
+    if (typeof label !== "string" || label.length > MAX_TIMER_LABEL_LENGTH) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `label must be a string of at most ${MAX_TIMER_LABEL_LENGTH} characters`, 400);
+    }
+    if (!Number.isInteger(durationMs) || (durationMs as number) < 0) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "durationMs must be a non-negative integer", 400);
+    }
+    if (completedCount !== undefined && !Number.isInteger(completedCount)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "completedCount must be an integer", 400);
+    }
+    if (sourceRef !== undefined && (typeof sourceRef !== "string" || sourceRef.length > 100)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, "sourceRef must be a string of at most 100 characters", 400);
+    }
+
+    publishFleetEvent("timer.completed", userIdOf(res), {
+      summary: `${label.trim() || "Timer"} is done`,
+      timerId,
+      label,
+      durationMs,
+      completedCount: completedCount ?? 1,
+      sourceRef: sourceRef ?? null,
+    });
+    sendOk(res, { published: true });
+  });
+
+  // ── Webhooks ──────────────────────────────────────────────
+
+  router.get("/api/webhooks", async (_req, res) => {
+    const store = storeOr503(res);
+    if (!store) return;
+    const webhooks = await store.listWebhooks();
+    sendOk(res, { webhooks, events: FLEET_EVENTS });
+  });
+
+  router.post("/api/webhooks", async (req, res) => {
+    const store = storeOr503(res);
+    if (!store) return;
+    const body = (req.body ?? {}) as Body;
+    const error = validate(body, true);
+    if (error) return sendFail(res, ErrorCode.INVALID_PARAM, error, 400);
+
+    if (await store.countWebhooks() >= MAX_WEBHOOKS_PER_USER) {
+      return sendFail(res, ErrorCode.CONFLICT, `At most ${MAX_WEBHOOKS_PER_USER} webhooks per account`, 409, {
+        hints: ["Delete a webhook you no longer use"],
+      });
+    }
+
+    const created = await store.createWebhook({
+      url: body.url as string,
+      events: body.events as string[],
+      description: typeof body.description === "string" ? body.description.trim() || null : null,
+    });
+    sendOk(res, created, 201);
+  });
+
+  router.patch("/api/webhooks/:id", async (req, res) => {
+    const store = storeOr503(res);
+    if (!store) return;
+    const id = parseId(req.params.id);
+    if (!id) return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid webhook ID", 400);
+    const body = (req.body ?? {}) as Body;
+    const error = validate(body, false);
+    if (error) return sendFail(res, ErrorCode.INVALID_PARAM, error, 400);
+
+    const input: UpdateWebhookInput = {};
+    if (body.url !== undefined) input.url = body.url as string;
+    if (body.events !== undefined) input.events = body.events as string[];
+    if (body.enabled !== undefined) input.enabled = body.enabled as boolean;
+    if (body.description !== undefined) {
+      input.description = typeof body.description === "string" ? body.description.trim() || null : null;
+    }
+
+    const webhook = await store.updateWebhook(id, input);
+    if (!webhook) return sendFail(res, ErrorCode.NOT_FOUND, `Webhook not found: ${id}`, 404);
+    sendOk(res, { webhook });
+  });
+
+  router.delete("/api/webhooks/:id", async (req, res) => {
+    const store = storeOr503(res);
+    if (!store) return;
+    const id = parseId(req.params.id);
+    if (!id) return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid webhook ID", 400);
+
+    const deleted = await store.deleteWebhook(id);
+    if (!deleted) return sendFail(res, ErrorCode.NOT_FOUND, `Webhook not found: ${id}`, 404);
+    sendOk(res, { id, deleted: true });
+  });
+
+  // ── Deliveries ────────────────────────────────────────────
+
+  router.get("/api/webhooks/:id/deliveries", async (req, res) => {
+    const store = storeOr503(res);
+    if (!store) return;
+    const id = parseId(req.params.id);
+    if (!id) return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid webhook ID", 400);
+    const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERY_LIMIT)) {
+      return sendFail(res, ErrorCode.INVALID_PARAM, `limit must be an integer between 1 and ${MAX_DELIVERY_LIMIT}`, 400);
+    }
+
+    if (!await store.getWebhook(id)) return sendFail(res, ErrorCode.NOT_FOUND, `Webhook not found: ${id}`, 404);
+    const deliveries = await store.listDeliveries(id, limit);
+    sendOk(res, { deliveries, count: deliveries.length });
+  });
+
+  router.post("/api/webhooks/:id/test", async (req, res) => {
+    const store = storeOr503(res);
+    if (!store) return;
+    if (!appState.webhookDispatcher) {
+      return sendFail(res, ErrorCode.WEBHOOK_STORE_NOT_AVAILABLE, "Webhook dispatcher not available", 503);
+    }
+    const id = parseId(req.params.id);
+    if (!id) return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid webhook ID", 400);
+
+    const webhook = await store.getWebhook(id);
+    if (!webhook) return sendFail(res, ErrorCode.NOT_FOUND, `Webhook not found: ${id}`, 404);
+    if (!webhook.enabled) return sendFail(res, ErrorCode.CONFLICT, "Webhook is paused", 409);
+    const delivery = await appState.webhookDispatcher.deliver(webhook, {
+      event: "webhook.ping",
+      occurredAt: new Date().toISOString(),
+      data: { summary: "Test delivery from Majel", webhookId: webhook.id },
+    });
+    sendOk(res, { delivery });
+  });
+
+  router.post("/api/webhooks/:id/deliveries/:deliveryId/redeliver", async (req, res) => {
+    const store = storeOr503(res);
+    if (!store) return;
+    if (!appState.webhookDispatcher) {
+      return sendFail(res, ErrorCode.WEBHOOK_STORE_NOT_AVAILABLE, "Webhook dispatcher not available", 503);
+    }
+    const id = parseId(req.params.id);
+    const deliveryId = parseId(req.params.deliveryId);
+    if (!id || !deliveryId) return sendFail(res, ErrorCode.INVALID_PARAM, "Invalid webhook or delivery ID", 400);
+
+    const webhook = await store.getWebhook(id);
+    const original = await store.getDelivery(deliveryId);
+    if (!webhook || !original || original.webhookId !== id) {
+      return sendFail(res, ErrorCode.NOT_FOUND, `Delivery not found: ${deliveryId}`, 404);
+    }
+    if (!webhook.enabled) return sendFail(res, ErrorCode.CONFLICT, "Webhook is paused", 409);
+    const delivery = await appState.webhookDispatcher.deliver(webhook, original.payload);
+    sendOk(res, { delivery });
+  });
+
+  return router;
+}
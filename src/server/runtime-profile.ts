@@ -167,8 +167,8 @@ export function validateProfile(
     }
   }
 
-  if (contract.invariants.requireProvider && !env.GEMINI_API_KEY) {
-    errors.push("GEMINI_API_KEY must be set in cloud_prod profile");
+  if (contract.invariants.requireProvider && !env.GEMINI_API_KEY && !env.MAJEL_LOCAL_MODEL_URL) {
+    errors.push("GEMINI_API_KEY must be set in cloud_prod profile (or MAJEL_LOCAL_MODEL_URL for a self-hosted model)");
   }
 
   if (contract.invariants.requireAuth && !env.MAJEL_ADMIN_TOKEN && !env.MAJEL_INVITE_SECRET) {
@@ -0,0 +1,83 @@
+/**
+ * alliance-roster.ts — Read-only view of alliance members' shared fleets
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Overlays stay per-user under RLS (#85). A member who opts in
+ * (alliance_members.share_overlays) lets the rest of their alliance see
+ * what they own, so get_armada_context can reason about who can bring
+ * what to an armada.
+ *
+ * The member list is read through the caller's alliance scope, so only
+ * fellow members are ever considered; each sharing member's overlays are
+ * then read with that member's own scope, through list methods only.
+ */
+
+import type { AllianceRole, AllianceStore } from "../stores/alliance-store.js";
+import type { OverlayStoreFactory } from "../stores/overlay-store.js";
+
+/** Most owned ships / officers listed per member (strongest first) */
+export const MAX_SHARED_SHIPS_PER_MEMBER = 30;
+export const MAX_SHARED_OFFICERS_PER_MEMBER = 20;
+
+export interface SharedMemberFleet {
+  userId: string;
+  displayName: string;
+  role: AllianceRole;
+  ships: Array<{ refId: string; tier: number | null; level: number | null; power: number | null }>;
+  officers: Array<{ refId: string; level: number | null; rank: string | null; power: number | null }>;
+  totalShips: number;
+  totalOfficers: number;
+}
+
+export interface SharedFleets {
+  members: SharedMemberFleet[];
+  /** Display names of members who have not opted in */
+  notSharing: string[];
+}
+
+export interface AllianceRoster {
+  /** Owned fleets of the other members who share overlays; null outside an alliance. */
+  sharedFleets(): Promise<SharedFleets | null>;
+}
+
+function byPowerDesc(a: { power: number | null }, b: { power: number | null }): number {
+  return (b.power ?? -1) - (a.power ?? -1);
+}
+
+export function createAllianceRoster(
+  allianceStore: AllianceStore,
+  overlayStoreFactory: OverlayStoreFactory,
+  userId: string,
+): AllianceRoster {
+  return {
+    async sharedFleets() {
+      if (!(await allianceStore.getMembership())) return null;
+      const others = (await allianceStore.listMembers()).filter((m) => m.userId !== userId);
+
+      const members = await Promise.all(others.filter((m) => m.shareOverlays).map(async (member) => {
+        const overlays = overlayStoreFactory.forUser(member.userId);
+        const [ships, officers] = await Promise.all([
+          overlays.listShipOverlays({ ownershipState: "owned" }),
+          overlays.listOfficerOverlays({ ownershipState: "owned" }),
+        ]);
+        return {
+          userId: member.userId,
+          displayName: member.displayName,
+          role: member.role,
+          ships: [...ships].sort(byPowerDesc).slice(0, MAX_SHARED_SHIPS_PER_MEMBER)
+            .map((s) => ({ refId: s.refId, tier: s.tier, level: s.level, power: s.power })),
+          officers: [...officers].sort(byPowerDesc).slice(0, MAX_SHARED_OFFICERS_PER_MEMBER)
+            .map((o) => ({ refId: o.refId, level: o.level, rank: o.rank, power: o.power })),
+          totalShips: ships.length,
+          totalOfficers: officers.length,
+        };
+      }));
+
+      return {
+        members,
+        notSharing: others.filter((m) => !m.shareOverlays).map((m) => m.displayName),
+      };
+    },
+  };
+}
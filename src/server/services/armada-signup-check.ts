@@ -0,0 +1,76 @@
+/**
+ * armada-signup-check.ts — Check an armada sign-up against the member's fleet
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * A member signs up for an alliance armada with a specific ship and,
+ * optionally, the loadout they will fly it with. The check reads the
+ * member's own EffectiveDockState and officer reservations:
+ *
+ * - a loadout that does not exist, or belongs to another ship, rejects
+ *   the sign-up (AllianceError "invalid");
+ * - a ship that is not in a dock, a bridge officer out on an away team
+ *   or a hard-reserved bridge officer is recorded as an issue on the
+ *   sign-up, so the alliance sees who may not make it.
+ */
+
+import type { CrewStore } from "../stores/crew-store.js";
+import { AllianceError } from "../stores/alliance-store-helpers.js";
+import type { ArmadaSignupCheck, ArmadaSignupIssue } from "../stores/alliance-store.js";
+
+export async function checkArmadaSignup(
+  crewStore: CrewStore,
+  shipRefId: string,
+  loadoutId: number | null,
+): Promise<ArmadaSignupCheck> {
+  const loadout = loadoutId != null ? await crewStore.getLoadout(loadoutId) : null;
+  if (loadoutId != null && !loadout) {
+    throw new AllianceError("invalid", `Loadout ${loadoutId} not found`);
+  }
+  if (loadout && loadout.shipId !== shipRefId) {
+    throw new AllianceError("invalid", `Loadout "${loadout.name}" is for a different ship`);
+  }
+
+  const [state, reservations] = await Promise.all([
+    crewStore.getEffectiveDockState(),
+    crewStore.listReservations(),
+  ]);
+
+  // Prefer the dock flying the chosen loadout, then any dock holding the ship
+  const shipDocks = state.docks.filter((d) => d.loadout?.shipId === shipRefId);
+  const dock = shipDocks.find((d) => loadoutId != null && d.loadout!.loadoutId === loadoutId) ?? shipDocks[0] ?? null;
+
+  const issues: ArmadaSignupIssue[] = [];
+  if (!dock) {
+    issues.push({ type: "not_docked", officerId: null, detail: "Ship is not assigned to a dock" });
+  }
+
+  const bridge = loadout
+    ? (loadout.bridgeCore?.members ?? []).map((m) => m.officerId)
+    : dock ? [dock.loadout!.bridge.captain, dock.loadout!.bridge.bridge_1, dock.loadout!.bridge.bridge_2] : [];
+  const bridgeOfficerIds = bridge.filter((id): id is string => Boolean(id));
+
+  const awayTeamByOfficer = new Map<string, string>();
+  for (const team of state.awayTeams) {
+    for (const officerId of team.officers) awayTeamByOfficer.set(officerId, team.label || "Away Team Assignment");
+  }
+  const hardReservations = new Map(reservations.filter((r) => r.locked).map((r) => [r.officerId, r]));
+
+  for (const officerId of bridgeOfficerIds) {
+    const awayTeam = awayTeamByOfficer.get(officerId);
+    if (awayTeam) {
+      issues.push({ type: "away_team", officerId, detail: `On away mission: ${awayTeam}` });
+    }
+    const reservation = hardReservations.get(officerId);
+    if (reservation) {
+      issues.push({ type: "officer_reserved", officerId, detail: `Reserved for: ${reservation.reservedFor}` });
+    }
+  }
+
+  return {
+    loadoutId: loadout?.id ?? dock?.loadout?.loadoutId ?? null,
+    loadoutName: loadout?.name ?? dock?.loadout?.name ?? null,
+    dockNumber: dock?.dockNumber ?? null,
+    issues,
+  };
+}
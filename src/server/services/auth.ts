@@ -15,6 +15,9 @@
  *   - If not yet created, returns a virtual bootstrap Admiral
  *   - Rotating the token changes the derived UUID (revocation mechanism)
  *
+ * Personal access tokens ("mjl_pat_…") act as their owner with the owner's
+ * role, but only reach the routes their scopes cover (services/token-scopes.ts).
+ *
  * When MAJEL_ADMIN_TOKEN is not set, auth is disabled (local dev mode).
  */
 
@@ -23,6 +26,8 @@ import type { AppState } from "../app-context.js";
 import { sendFail, ErrorCode } from "../envelope.js";
 import { timingSafeCompare } from "./password.js";
 import { roleLevel, deriveAdminUserId, type Role } from "../stores/user-store.js";
+import { API_TOKEN_PREFIX, type ApiTokenScope } from "../stores/api-token-store.js";
+import { requiredTokenScope } from "./token-scopes.js";
 
 // ─── Cookie Names ───────────────────────────────────────────────
 
@@ -34,26 +39,51 @@ export const TENANT_COOKIE = "majel_tenant";
 
 // ─── Session Resolution ─────────────────────────────────────────
 
+type ResolvedIdentity = {
+  userId: string;
+  role: Role;
+  email: string;
+  displayName: string;
+  emailVerified: boolean;
+  lockedAt: string | null;
+  source: "admin-token" | "api-token" | "session" | "legacy-tenant";
+  /** Set for source "api-token" only. */
+  apiToken?: { id: number; scopes: ApiTokenScope[] };
+};
+
+/** Resolve a user_sessions token (cookie) and touch it. */
+async function resolveSessionIdentity(sessionToken: string, appState: AppState): Promise<ResolvedIdentity | null> {
+  const session = await appState.userStore!.resolveSession(sessionToken);
+  if (!session) return null;
+  // Touch session (fire-and-forget)
+  appState.userStore!.touchSession(sessionToken).catch(() => {});
+  return {
+    userId: session.userId,
+    role: session.role,
+    email: session.email,
+    displayName: session.displayName,
+    emailVerified: session.emailVerified,
+    lockedAt: session.lockedAt,
+    source: "session",
+  };
+}
+
 /**
  * Attempt to resolve the current request's identity.
  *
  * Priority:
  *   1. Bearer token matching MAJEL_ADMIN_TOKEN → virtual Admiral
- *   2. Session cookie → user session from user_sessions table
- *   3. Legacy tenant cookie → old tenant session (backward compat)
+ *   2. Bearer personal access token → token owner, limited to its scopes
+ *   3. Session cookie → user session from user_sessions table
+ *   4. Legacy tenant cookie → old tenant session (backward compat)
+ *
+ * Session tokens are never accepted as Bearer — scripts and MCP clients
+ * use a scoped personal access token instead.
  */
 async function resolveIdentity(
   req: Request,
   appState: AppState,
-): Promise<{
-  userId: string;
-  role: Role;
-  email: string;
-  displayName: string;
-  emailVerified: boolean;
-  lockedAt: string | null;
-  source: "admin-token" | "session" | "legacy-tenant";
-} | null> {
+): Promise<ResolvedIdentity | null> {
   // 1. Bearer token → personal API key for the derived admin user
   //    The token ALWAYS maps to the derived UUID — either as a real account (if the
   //    user has been created via `npm run promote` or similar) or as a virtual
@@ -94,26 +124,32 @@ async function resolveIdentity(
     }
   }
 
-  // 2. Session cookie → user session
+  // 2. Bearer personal access token — never falls through to the session lookup
+  if (authHeader?.startsWith(`Bearer ${API_TOKEN_PREFIX}`)) {
+    const token = appState.apiTokenStore ? await appState.apiTokenStore.resolveToken(authHeader.slice(7)) : null;
+    if (!token) return null;
+    // Track last use (fire-and-forget)
+    appState.apiTokenStore!.touchToken(token.tokenId, req.ip).catch(() => {});
+    return {
+      userId: token.userId,
+      role: token.role,
+      email: token.email,
+      displayName: token.displayName,
+      emailVerified: token.emailVerified,
+      lockedAt: token.lockedAt,
+      source: "api-token",
+      apiToken: { id: token.tokenId, scopes: token.scopes },
+    };
+  }
+
+  // 3. Session cookie → user session
   const sessionToken = req.cookies?.[SESSION_COOKIE];
   if (sessionToken && appState.userStore) {
-    const session = await appState.userStore.resolveSession(sessionToken);
-    if (session) {
-      // Touch session (fire-and-forget)
-      appState.userStore.touchSession(sessionToken).catch(() => {});
-      return {
-        userId: session.userId,
-        role: session.role,
-        email: session.email,
-        displayName: session.displayName,
-        emailVerified: session.emailVerified,
-        lockedAt: session.lockedAt,
-        source: "session",
-      };
-    }
+    const identity = await resolveSessionIdentity(sessionToken, appState);
+    if (identity) return identity;
   }
 
-  // 3. Legacy tenant cookie → backward compat
+  // 4. Legacy tenant cookie → backward compat
   const tenantId = req.cookies?.[TENANT_COOKIE];
   if (tenantId && appState.inviteStore) {
     const tenantSession = await appState.inviteStore.getSession(tenantId);
@@ -144,6 +180,9 @@ async function resolveIdentity(
  *   router.get("/api/chat", requireRole(appState, "lieutenant"), handler);
  *   router.post("/api/admiral/users", requireRole(appState, "admiral"), handler);
  *
+ * Personal access tokens must also carry the scope the route needs
+ * (INSUFFICIENT_SCOPE otherwise).
+ *
  * In dev mode (no adminToken): always passes with admiral-level access.
  */
 export function requireRole(appState: AppState, minRole: Role): RequestHandler {
@@ -199,6 +238,26 @@ export function requireRole(appState: AppState, minRole: Role): RequestHandler {
       return;
     }
 
+    // Check token scope — routes outside the scope map are closed to tokens
+    if (identity.apiToken) {
+      const requiredScope = requiredTokenScope(req.method, req.originalUrl.split("?")[0]!);
+      if (!requiredScope || !identity.apiToken.scopes.includes(requiredScope)) {
+        sendFail(
+          res, ErrorCode.INSUFFICIENT_SCOPE,
+          requiredScope ? `API token scope required: ${requiredScope}` : "This endpoint is not available to API tokens",
+          403,
+          {
+            detail: { requiredScope },
+            hints: requiredScope
+              ? [`Create a token with the ${requiredScope} scope`]
+              : ["Sign in to use this endpoint"],
+          },
+        );
+        return;
+      }
+      res.locals.apiTokenId = identity.apiToken.id;
+    }
+
     // Set request-scoped user context
     res.locals.userId = identity.userId;
     res.locals.userRole = identity.role;
@@ -0,0 +1,373 @@
+/**
+ * battle-log.ts — Battle report ingest and replay
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Turns an exported combat report (JSON or CSV) into the normalized
+ * ParsedBattleLog used by analyze_battle_log, and derives the per-round
+ * replay series the UI plots (hull/shield curves, damage by type, triggers).
+ * Also extracts the fight context (outcome, loadout, opponent) and the
+ * likely failure cause that battle history analytics group by.
+ *
+ * CSV layout — one row per damage event or ability trigger:
+ *   round, direction (received|dealt), amount, type, source_officer_id,
+ *   source_ability, ability, hull_after, shield_after, destroyed
+ * Optional battle_id / mode / outcome / loadout_id / ship_id / hostile_id /
+ * opponent_name / opponent_faction / opponent_hull_type columns are read from
+ * the first row that sets them.
+ */
+
+import { parseDelimited } from "./import-mapping.js";
+import { FACTION_LABELS, HULL_TYPE_LABELS, hullTypeLabel } from "./game-enums.js";
+import {
+  parseBattleLog,
+  parseJsonOrFallback,
+  sumDamageByType,
+  toFiniteNumber,
+  type BattleRound,
+  type ParsedBattleLog,
+} from "./fleet-tools/read-tools-data-helpers.js";
+import type { ReferenceStore } from "../stores/reference-store.js";
+import type { CrewStore } from "../stores/crew-store.js";
+import type { BattleAnalytics, BattleWinRate } from "../stores/battle-report-store.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export type BattleLogFormat = "json" | "csv";
+
+export const VALID_BATTLE_LOG_FORMATS: BattleLogFormat[] = ["json", "csv"];
+
+/** Upper bound on raw report text accepted by the import endpoint. */
+export const MAX_BATTLE_LOG_CHARS = 1_000_000;
+
+export type BattleOutcome = "win" | "loss";
+
+export const VALID_BATTLE_OUTCOMES: BattleOutcome[] = ["win", "loss"];
+
+export type BattleFailureCause =
+  | "kinetic_spike_overwhelmed_mitigation"
+  | "energy_spike_broke_shields"
+  | "sustained_damage_exceeded_defense";
+
+/** What a fight was and who it was against. Every field is optional in the source log. */
+export interface BattleContext {
+  /** Explicit result from the log; null means "derive from destroyed". */
+  outcome: BattleOutcome | null;
+  loadoutId: number | null;
+  shipId: string | null;
+  hostileId: string | null;
+  opponentName: string | null;
+  opponentFaction: string | null;
+  opponentHullType: string | null;
+}
+
+export interface ParsedBattleReport {
+  log: ParsedBattleLog;
+  context: BattleContext;
+}
+
+export interface DamageByType {
+  type: string;
+  amount: number;
+}
+
+export interface BattleReplayRound {
+  round: number;
+  hullAfter: number | null;
+  shieldAfter: number | null;
+  destroyed: boolean;
+  damageReceived: number;
+  damageDealt: number;
+  receivedByType: DamageByType[];
+  dealtByType: DamageByType[];
+  abilityTriggers: string[];
+}
+
+export interface BattleReplay {
+  rounds: BattleReplayRound[];
+  totals: {
+    damageReceived: number;
+    damageDealt: number;
+    receivedByType: DamageByType[];
+    dealtByType: DamageByType[];
+  };
+  /** How often each ability fired, in order of first trigger. */
+  abilities: Array<{ name: string; count: number; firstRound: number }>;
+}
+
+// ─── Parsing ────────────────────────────────────────────────
+
+/** Guess the format from the file name, falling back to the first character. */
+export function detectBattleLogFormat(content: string, fileName?: string | null): BattleLogFormat {
+  const ext = fileName?.toLowerCase().split(".").pop();
+  if (ext === "json") return "json";
+  if (ext === "csv") return "csv";
+  const first = content.trimStart()[0];
+  return first === "{" || first === "[" ? "json" : "csv";
+}
+
+const DEALT_DIRECTIONS = new Set(["dealt", "out", "outgoing"]);
+
+const CSV_CONTEXT_COLUMNS = [
+  "battle_id",
+  "mode",
+  "outcome",
+  "loadout_id",
+  "ship_id",
+  "hostile_id",
+  "opponent_name",
+  "opponent_faction",
+  "opponent_hull_type",
+];
+
+/**
+ * Fold CSV event rows into the JSON battle log shape parseBattleLog accepts.
+ * Throws when the header lacks a round column.
+ */
+export function battleLogFromCsv(text: string): Record<string, unknown> {
+  const rows = parseDelimited(text, ",").filter((row) => row.some((cell) => cell.trim() !== ""));
+  if (rows.length === 0) return { rounds: [] };
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase().replace(/[\s-]+/g, "_"));
+  const col = (name: string) => header.indexOf(name);
+  const roundCol = col("round");
+  if (roundCol < 0) {
+    throw new Error("Battle log CSV must have a 'round' column");
+  }
+
+  const cell = (row: string[], name: string): string => {
+    const index = col(name);
+    return index >= 0 ? (row[index] ?? "").trim() : "";
+  };
+
+  const rounds = new Map<number, Record<string, unknown> & {
+    damage_received: Array<Record<string, unknown>>;
+    damage_dealt: Array<Record<string, unknown>>;
+    ability_triggers: string[];
+  }>();
+  const attackerOfficers = new Set<string>();
+  const defenderOfficers = new Set<string>();
+  const context: Record<string, string> = {};
+
+  for (const row of rows.slice(1)) {
+    const roundNo = toFiniteNumber(cell(row, "round"));
+    if (roundNo == null) continue;
+    let round = rounds.get(roundNo);
+    if (!round) {
+      round = { round: roundNo, damage_received: [], damage_dealt: [], ability_triggers: [] };
+      rounds.set(roundNo, round);
+    }
+
+    for (const name of CSV_CONTEXT_COLUMNS) {
+      if (context[name] === undefined && cell(row, name)) context[name] = cell(row, name);
+    }
+
+    const amount = toFiniteNumber(cell(row, "amount"));
+    if (amount != null) {
+      const dealt = DEALT_DIRECTIONS.has(cell(row, "direction").toLowerCase());
+      const officerId = cell(row, "source_officer_id");
+      (dealt ? round.damage_dealt : round.damage_received).push({
+        amount,
+        type: cell(row, "type") || null,
+        source_officer_id: officerId || null,
+        source_ability: cell(row, "source_ability") || null,
+      });
+      if (officerId) (dealt ? attackerOfficers : defenderOfficers).add(officerId);
+    }
+
+    const ability = cell(row, "ability");
+    if (ability) round.ability_triggers.push(ability);
+
+    const hull = toFiniteNumber(cell(row, "hull_after"));
+    if (hull != null) round.hull_after = hull;
+    const shield = toFiniteNumber(cell(row, "shield_after"));
+    if (shield != null) round.shield_after = shield;
+    if (/^(true|yes|1)$/i.test(cell(row, "destroyed"))) round.destroyed = true;
+  }
+
+  return {
+    battle_id: null,
+    mode: null,
+    ...context,
+    attacker_officers: [...attackerOfficers],
+    defender_officers: [...defenderOfficers],
+    rounds: [...rounds.values()].sort((a, b) => Number(a.round) - Number(b.round)),
+  };
+}
+
+/**
+ * Normalize an uploaded report and its fight context. Returns null when it
+ * holds no usable rounds; throws on malformed CSV.
+ */
+export function parseBattleLogFile(content: string, format: BattleLogFormat): ParsedBattleReport | null {
+  const payload = format === "csv" ? battleLogFromCsv(content) : parseJsonOrFallback<unknown>(content, null);
+  const log = parseBattleLog(payload);
+  return log ? { log, context: parseBattleContext(payload) } : null;
+}
+
+// ─── Context ────────────────────────────────────────────────
+
+const OUTCOME_ALIASES: Record<string, BattleOutcome> = {
+  win: "win",
+  won: "win",
+  victory: "win",
+  loss: "loss",
+  lost: "loss",
+  defeat: "loss",
+};
+
+function pickString(record: Record<string, unknown>, ...keys: string[]): string | null {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+    if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  }
+  return null;
+}
+
+/** Hull type label from a game ID or free text, matched case-insensitively. */
+function normalizeHullType(value: string | null): string | null {
+  if (!value) return null;
+  const id = toFiniteNumber(value);
+  if (id != null) return hullTypeLabel(id) ?? value;
+  return Object.values(HULL_TYPE_LABELS).find((label) => label.toLowerCase() === value.toLowerCase()) ?? value;
+}
+
+/** Faction label from a game ID or free text. */
+function normalizeFaction(value: string | null): string | null {
+  if (!value) return null;
+  const id = toFiniteNumber(value);
+  return id != null ? FACTION_LABELS[id] ?? value : value;
+}
+
+/**
+ * Read the optional fight context from a raw battle log payload. The
+ * opponent may be a name string or an object with name/faction/hull_type.
+ */
+export function parseBattleContext(input: unknown): BattleContext {
+  const payload = typeof input === "string" ? parseJsonOrFallback<unknown>(input, null) : input;
+  const log = payload && typeof payload === "object" ? payload as Record<string, unknown> : {};
+  const opponent = log.opponent && typeof log.opponent === "object" ? log.opponent as Record<string, unknown> : {};
+  const outcome = pickString(log, "outcome", "result")?.toLowerCase();
+  const loadoutId = toFiniteNumber(log.loadout_id ?? log.loadoutId);
+
+  return {
+    outcome: outcome ? OUTCOME_ALIASES[outcome] ?? null : null,
+    loadoutId: loadoutId != null && Number.isInteger(loadoutId) && loadoutId > 0 ? loadoutId : null,
+    shipId: pickString(log, "ship_id", "shipId"),
+    hostileId: pickString(log, "hostile_id", "hostileId") ?? pickString(opponent, "hostile_id", "hostileId", "id"),
+    opponentName: pickString(log, "opponent_name", "opponentName", "opponent") ?? pickString(opponent, "name"),
+    opponentFaction: normalizeFaction(
+      pickString(log, "opponent_faction", "opponentFaction") ?? pickString(opponent, "faction"),
+    ),
+    opponentHullType: normalizeHullType(
+      pickString(log, "opponent_hull_type", "opponentHullType") ?? pickString(opponent, "hull_type", "hullType"),
+    ),
+  };
+}
+
+/** Fill opponent name, faction and hull type from the hostile catalog when the log only names a hostile ID. */
+export async function enrichBattleContext(
+  context: BattleContext,
+  referenceStore: Pick<ReferenceStore, "getHostile"> | null,
+): Promise<BattleContext> {
+  if (!context.hostileId || !referenceStore) return context;
+  if (context.opponentName && context.opponentFaction && context.opponentHullType) return context;
+  const hostile = await referenceStore.getHostile(context.hostileId);
+  if (!hostile) return context;
+  return {
+    ...context,
+    opponentName: context.opponentName ?? hostile.name,
+    opponentFaction: context.opponentFaction ?? normalizeFaction(hostile.faction),
+    opponentHullType: context.opponentHullType ?? hullTypeLabel(hostile.hullType),
+  };
+}
+
+/** Explicit outcome when the log has one; otherwise losing the ship is a loss. */
+export function resolveBattleOutcome(log: ParsedBattleLog, context: Pick<BattleContext, "outcome">): BattleOutcome {
+  return context.outcome ?? (log.rounds.some((round) => round.destroyed) ? "loss" : "win");
+}
+
+// ─── Failure cause ──────────────────────────────────────────
+
+/**
+ * The round the fight was lost in — the first round the ship was destroyed,
+ * else the round with the most incoming damage — and the damage type that
+ * dominated it.
+ */
+export function classifyBattleFailure(log: ParsedBattleLog): { round: BattleRound; likelyCause: BattleFailureCause } {
+  const received = (round: BattleRound) => round.damageReceived.reduce((sum, event) => sum + event.amount, 0);
+  const round = log.rounds
+    .filter((row) => row.destroyed)
+    .sort((a, b) => a.round - b.round)[0]
+    ?? log.rounds.reduce((worst, row) => (received(row) > received(worst) ? row : worst));
+
+  const topIncomingType = (sumDamageByType(round.damageReceived)[0]?.type ?? "unknown").toLowerCase();
+  const likelyCause: BattleFailureCause = topIncomingType.includes("kinetic")
+    ? "kinetic_spike_overwhelmed_mitigation"
+    : topIncomingType.includes("energy")
+      ? "energy_spike_broke_shields"
+      : "sustained_damage_exceeded_defense";
+  return { round, likelyCause };
+}
+
+// ─── Replay ─────────────────────────────────────────────────
+
+/** Per-round series for the replay panel plus whole-fight totals. */
+export function buildBattleReplay(log: ParsedBattleLog): BattleReplay {
+  const rounds = [...log.rounds]
+    .sort((a, b) => a.round - b.round)
+    .map((round): BattleReplayRound => ({
+      round: round.round,
+      hullAfter: round.hullAfter,
+      shieldAfter: round.shieldAfter,
+      destroyed: round.destroyed,
+      damageReceived: round.damageReceived.reduce((sum, event) => sum + event.amount, 0),
+      damageDealt: round.damageDealt.reduce((sum, event) => sum + event.amount, 0),
+      receivedByType: sumDamageByType(round.damageReceived),
+      dealtByType: sumDamageByType(round.damageDealt),
+      abilityTriggers: round.abilityTriggers,
+    }));
+
+  const abilities = new Map<string, { name: string; count: number; firstRound: number }>();
+  for (const round of rounds) {
+    for (const name of round.abilityTriggers) {
+      const entry = abilities.get(name);
+      if (entry) entry.count += 1;
+      else abilities.set(name, { name, count: 1, firstRound: round.round });
+    }
+  }
+
+  return {
+    rounds,
+    totals: {
+      damageReceived: rounds.reduce((sum, round) => sum + round.damageReceived, 0),
+      damageDealt: rounds.reduce((sum, round) => sum + round.damageDealt, 0),
+      receivedByType: sumDamageByType(log.rounds.flatMap((round) => round.damageReceived)),
+      dealtByType: sumDamageByType(log.rounds.flatMap((round) => round.damageDealt)),
+    },
+    abilities: [...abilities.values()],
+  };
+}
+
+// ─── Analytics ──────────────────────────────────────────────
+
+export interface LabeledBattleAnalytics extends Omit<BattleAnalytics, "byLoadout"> {
+  byLoadout: Array<BattleWinRate & { loadoutName: string | null }>;
+}
+
+/** Attach loadout names to the by-loadout buckets. Deleted loadouts keep a null name. */
+export async function labelBattleAnalytics(
+  analytics: BattleAnalytics,
+  crewStore: Pick<CrewStore, "getLoadoutsByIds"> | null,
+): Promise<LabeledBattleAnalytics> {
+  const ids = analytics.byLoadout.map((bucket) => Number(bucket.key)).filter((id) => Number.isInteger(id) && id > 0);
+  const loadouts = crewStore && ids.length > 0 ? await crewStore.getLoadoutsByIds(ids) : new Map();
+  return {
+    ...analytics,
+    byLoadout: analytics.byLoadout.map((bucket) => ({
+      ...bucket,
+      loadoutName: bucket.key == null ? null : loadouts.get(Number(bucket.key))?.name ?? null,
+    })),
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * chat-stream.ts — Incremental chat output (partial text, tool progress)
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Engines report output while a turn is still being generated: text deltas
+ * as the model streams them and progress for each fleet tool call. The async
+ * chat run binds a sink around engine.chat() and forwards the events to the
+ * operation stream (operation-stream.ts), which pushes them to the client
+ * over SSE.
+ *
+ * The sink lives in AsyncLocalStorage, like the fallback scope in
+ * model-fallback.ts, so it reaches the engines and the tool dispatcher
+ * without widening ChatEngine.chat(). Without a sink every emit is a no-op
+ * and engines take their non-streaming send paths.
+ *
+ * The streamed text is provisional: the final ChatResult (validated,
+ * repaired, possibly disclaimed) always replaces it.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export type ChatStreamEvent =
+  /** Append to the answer being generated */
+  | { type: "text"; text: string }
+  /** Discard the text streamed so far — a new model response is starting */
+  | { type: "reset" }
+  /** A fleet tool call started or finished */
+  | { type: "tool"; tool: string; phase: "started" | "completed"; ok?: boolean };
+
+export type ChatStreamSink = (event: ChatStreamEvent) => void;
+
+const streamStorage = new AsyncLocalStorage<ChatStreamSink>();
+
+/** Run an engine call with a sink receiving its incremental output. */
+export function runWithChatStream<T>(sink: ChatStreamSink, fn: () => T): T {
+  return streamStorage.run(sink, fn);
+}
+
+/**
+ * The sink bound to the current call, or undefined when nobody is listening.
+ * Capture it before handing callbacks to an SDK event emitter.
+ */
+export function getChatStreamSink(): ChatStreamSink | undefined {
+  return streamStorage.getStore();
+}
+
+/** Report incremental output to the bound sink, if any. Sink errors never reach the engine. */
+export function emitChatStream(event: ChatStreamEvent): void {
+  const sink = streamStorage.getStore();
+  if (!sink) return;
+  try {
+    sink(event);
+  } catch {
+    // Streaming is best-effort — the final answer is delivered regardless
+  }
+}
+
+/**
+ * Returns a text emitter for one model response: the first non-empty delta
+ * resets the stream so a repair, tool round or fallback replaces earlier text
+ * instead of appending to it.
+ */
+export function createResponseTextEmitter(sink: ChatStreamSink | undefined = getChatStreamSink()): (text: string) => void {
+  let started = false;
+  return (text) => {
+    if (!sink || !text) return;
+    try {
+      if (!started) {
+        started = true;
+        sink({ type: "reset" });
+      }
+      sink({ type: "text", text });
+    } catch {
+      // Streaming is best-effort — the final answer is delivered regardless
+    }
+  };
+}
@@ -0,0 +1,516 @@
+/**
+ * chat-surfaces.ts — Relay between external messaging bots and Aria
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * A chat surface is a bot on another platform (an alliance Discord bot,
+ * a Slack app, the local test harness) that forwards its users' messages
+ * here and posts Aria's answers back. The bot owns the platform side —
+ * gateway connection, rendering, buttons — and speaks one small protocol
+ * with Majel; adapters translate that protocol, so another transport can
+ * be added next to the generic webhook one without touching the relay.
+ *
+ * Webhook protocol (both directions are JSON POSTs signed with the
+ * surface's secret, X-Majel-Signature as in webhook-dispatcher.ts):
+ *
+ *   bot → POST /api/surfaces/:id/inbound
+ *     { type: "message", platformUserId, platformUsername?, conversationId, messageId?, text }
+ *     { type: "action", platformUserId, conversationId, action: "approve" | "decline", proposalId }
+ *   ← { status: "queued", runId } | { status: "replied", reply: { text } } | { status: "duplicate" }
+ *
+ *   Majel → POST <callbackUrl>
+ *     { type: "reply", surfaceId, conversationId, platformUserId, replyTo, runId, text, proposals[] }
+ *
+ * Replies go through outbound-post.ts like webhook deliveries, so the
+ * callback host must resolve to public addresses outside development.
+ *
+ * Messages from a linked platform user become ordinary async chat runs
+ * (the same queue as POST /api/chat with async: true), in a session per
+ * user and conversation that also shows up in the web app. When the run
+ * finishes, a sweep sends the answer and any mutation proposals, each
+ * with approve/decline buttons; pressing one comes back as an "action",
+ * which runs the same apply/decline as /api/mutations/proposals/:id/*.
+ *
+ * Platform users link themselves by sending "link <code>" through the
+ * bot, with a code issued to the signed-in Majel user.
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import type { AppState } from "../app-context.js";
+import { log } from "../logger.js";
+import { roleLevel } from "../stores/user-store.js";
+import type { ChatSurface, ChatSurfaceLink, ClaimedReply, SurfaceKind } from "../stores/chat-surface-store.js";
+import { createOutboundPost, type OutboundPost } from "./outbound-post.js";
+import { applyProposal, declineProposal } from "./proposal-apply.js";
+import { SIGNATURE_HEADER, signatureHeader, verifyWebhookSignature } from "./webhook-dispatcher.js";
+
+// ─── Constants ────────────────────────────────────────────────
+
+/** Wait before resending reply n (1-based); the send after the last entry is the final one. */
+export const REPLY_RETRY_DELAYS_MS = [10_000, 60_000, 5 * 60_000] as const;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+/** Chat runs are claimed within a second, so a short sweep keeps replies prompt. */
+const SWEEP_INTERVAL_MS = 2_000;
+const CLAIM_BATCH = 20;
+
+/** Per linked platform user, matching the web chat's per-IP limiter. */
+export const MESSAGES_PER_MINUTE = 20;
+const MAX_MESSAGE_LENGTH = 10_000;
+const MAX_ID_LENGTH = 200;
+const DEDUPE_WINDOW_MS = 10 * 60_000;
+
+/** Events that end a chat run; the last one carries the answer or the error. */
+const TERMINAL_RUN_EVENTS = new Set(["run.completed", "run.failed", "run.cancelled", "run.timed_out", "run.budget_exceeded"]);
+
+const LINK_COMMAND_RE = /^[!/]?link\s+([A-Za-z0-9-]{4,20})$/i;
+const UNLINK_COMMAND_RE = /^[!/]?unlink$/i;
+
+// ─── Protocol ─────────────────────────────────────────────────
+
+export interface InboundMessage {
+  type: "message";
+  platformUserId: string;
+  platformUsername?: string;
+  /** Channel, DM or thread the message came from; replies go back there. */
+  conversationId: string;
+  /** Platform message id, for threading the reply and dropping redeliveries. */
+  messageId?: string;
+  text: string;
+}
+
+export interface InboundAction {
+  type: "action";
+  platformUserId: string;
+  conversationId: string;
+  action: "approve" | "decline";
+  proposalId: string;
+}
+
+export type InboundEvent = InboundMessage | InboundAction;
+
+export interface InboundResult {
+  status: "queued" | "replied" | "duplicate";
+  runId?: string;
+  reply?: { text: string };
+}
+
+export interface SurfaceButton {
+  action: "approve" | "decline";
+  label: string;
+  style: "success" | "danger";
+  proposalId: string;
+}
+
+export interface OutboundProposal {
+  id: string;
+  /** One line per staged mutation. */
+  items: string[];
+  expiresAt: string;
+  buttons: SurfaceButton[];
+}
+
+export interface OutboundReply {
+  type: "reply";
+  surfaceId: number;
+  conversationId: string;
+  platformUserId: string;
+  replyTo: string | null;
+  runId: string | null;
+  text: string;
+  proposals: OutboundProposal[];
+}
+
+function isId(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0 && value.length <= MAX_ID_LENGTH;
+}
+
+/** Validate a parsed inbound body. Returns the event or an error message. */
+export function parseInboundEvent(value: unknown): InboundEvent | string {
+  if (!value || typeof value !== "object") return "body must be a JSON object";
+  const body = value as Record<string, unknown>;
+  if (!isId(body.platformUserId)) return `platformUserId must be 1-${MAX_ID_LENGTH} characters`;
+  if (!isId(body.conversationId)) return `conversationId must be 1-${MAX_ID_LENGTH} characters`;
+
+  if (body.type === "message") {
+    if (typeof body.text !== "string" || !body.text.trim()) return "text is required";
+    if (body.text.length > MAX_MESSAGE_LENGTH) return "text must be 10,000 characters or fewer";
+    if (body.messageId !== undefined && !isId(body.messageId)) return `messageId must be 1-${MAX_ID_LENGTH} characters`;
+    if (body.platformUsername !== undefined && !isId(body.platformUsername)) {
+      return `platformUsername must be 1-${MAX_ID_LENGTH} characters`;
+    }
+    return {
+      type: "message",
+      platformUserId: body.platformUserId,
+      conversationId: body.conversationId,
+      text: body.text,
+      ...(body.messageId !== undefined ? { messageId: body.messageId as string } : {}),
+      ...(body.platformUsername !== undefined ? { platformUsername: body.platformUsername as string } : {}),
+    };
+  }
+  if (body.type === "action") {
+    if (body.action !== "approve" && body.action !== "decline") return 'action must be "approve" or "decline"';
+    if (!isId(body.proposalId)) return "proposalId is required";
+    return {
+      type: "action",
+      platformUserId: body.platformUserId,
+      conversationId: body.conversationId,
+      action: body.action,
+      proposalId: body.proposalId,
+    };
+  }
+  return 'type must be "message" or "action"';
+}
+
+// ─── Adapters ─────────────────────────────────────────────────
+
+type Headers = Record<string, string | string[] | undefined>;
+
+export type ParsedInbound =
+  | { ok: true; event: InboundEvent }
+  | { ok: false; status: 400 | 401; message: string };
+
+export interface ChatSurfaceAdapter {
+  readonly kind: SurfaceKind;
+  /** Authenticate and parse an inbound request from the bot. */
+  parseInbound(rawBody: string, headers: Headers, secret: string): ParsedInbound;
+  /** Deliver a reply to the bot. Rejects when it was not accepted. */
+  send(target: { callbackUrl: string; secret: string }, reply: OutboundReply, post: OutboundPost): Promise<void>;
+}
+
+function header(headers: Headers, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/** Generic webhook-in/webhook-out transport, signed both ways. */
+export const webhookSurfaceAdapter: ChatSurfaceAdapter = {
+  kind: "webhook",
+
+  parseInbound(rawBody, headers, secret) {
+    if (!verifyWebhookSignature(secret, header(headers, SIGNATURE_HEADER), rawBody)) {
+      return { ok: false, status: 401, message: "Invalid or expired signature" };
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(rawBody);
+    } catch {
+      return { ok: false, status: 400, message: "Body must be valid JSON" };
+    }
+    const event = parseInboundEvent(parsed);
+    return typeof event === "string" ? { ok: false, status: 400, message: event } : { ok: true, event };
+  },
+
+  async send(target, reply, post) {
+    const body = JSON.stringify(reply);
+    const response = await post(target.callbackUrl, {
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Majel-Surfaces/1",
+        [SIGNATURE_HEADER]: signatureHeader(target.secret, body),
+      },
+      body,
+    });
+    if (response.status < 200 || response.status >= 300) throw new Error(`HTTP ${response.status}`);
+  },
+};
+
+const ADAPTERS: Record<SurfaceKind, ChatSurfaceAdapter> = {
+  webhook: webhookSurfaceAdapter,
+};
+
+export function getSurfaceAdapter(kind: SurfaceKind): ChatSurfaceAdapter {
+  return ADAPTERS[kind];
+}
+
+// ─── Reply Building ───────────────────────────────────────────
+
+/** One chat session per Majel user, surface and conversation. */
+export function surfaceSessionId(surfaceId: number, userId: string, conversationId: string): string {
+  const digest = createHash("sha256").update(`${userId}\u0000${conversationId}`).digest("hex").slice(0, 24);
+  return `surface-${surfaceId}-${digest}`;
+}
+
+interface ProposalPayload {
+  id: string;
+  batchItems?: Array<{ tool: string; preview: string }>;
+  expiresAt: string;
+}
+
+function toOutboundProposal(proposal: ProposalPayload): OutboundProposal {
+  return {
+    id: proposal.id,
+    items: (proposal.batchItems ?? []).map((item) => item.preview || item.tool),
+    expiresAt: proposal.expiresAt,
+    buttons: [
+      { action: "approve", label: "Approve", style: "success", proposalId: proposal.id },
+      { action: "decline", label: "Decline", style: "danger", proposalId: proposal.id },
+    ],
+  };
+}
+
+/** What to tell the platform user once their run has finished. */
+export function buildReplyContent(
+  runStatus: string,
+  payload: Record<string, unknown> | null,
+): { text: string; proposals: OutboundProposal[] } {
+  if (runStatus === "succeeded" && typeof payload?.answer === "string") {
+    const proposals = Array.isArray(payload.proposals) ? (payload.proposals as ProposalPayload[]) : [];
+    return { text: payload.answer, proposals: proposals.map(toOutboundProposal) };
+  }
+  if (runStatus === "timed_out") return { text: "That took too long and was stopped. Please try again.", proposals: [] };
+  if (runStatus === "cancelled") return { text: "That request was cancelled.", proposals: [] };
+  if (payload?.errorCode === "TOKEN_BUDGET_EXCEEDED") {
+    return { text: "You've used today's Aria budget. It resets at midnight UTC.", proposals: [] };
+  }
+  const reason = typeof payload?.errorMessage === "string" ? payload.errorMessage : "unknown error";
+  return { text: `Sorry, that request failed: ${reason}`, proposals: [] };
+}
+
+// ─── Relay ────────────────────────────────────────────────────
+
+export interface ChatSurfaceRelay {
+  /** Act on an authenticated inbound event from a surface. */
+  handle(surface: ChatSurface, event: InboundEvent): Promise<InboundResult>;
+  /** Send every reply whose chat run has finished. Returns sends attempted. */
+  processDue(): Promise<number>;
+  /** Start the reply sweep. */
+  start(): void;
+  close(): void;
+}
+
+export interface ChatSurfaceRelayOptions {
+  post?: OutboundPost;
+  sweepIntervalMs?: number;
+}
+
+export function createChatSurfaceRelay(appState: AppState, options: ChatSurfaceRelayOptions = {}): ChatSurfaceRelay {
+  const post = options.post ?? createOutboundPost({
+    allowPrivate: appState.config.nodeEnv !== "production",
+    timeoutMs: REQUEST_TIMEOUT_MS,
+  });
+  const sweepIntervalMs = options.sweepIntervalMs ?? SWEEP_INTERVAL_MS;
+  let sweepTimer: ReturnType<typeof setInterval> | null = null;
+  let draining: Promise<number> | null = null;
+  /** Recent message timestamps per surface + platform user, for the rate limit. */
+  const recentMessages = new Map<string, number[]>();
+  /** Recently seen platform message ids, so a bot's retry does not ask twice. */
+  const seenMessages = new Map<string, number>();
+
+  const replied = (text: string): InboundResult => ({ status: "replied", reply: { text } });
+
+  function seenRecently(key: string): boolean {
+    const now = Date.now();
+    for (const [seenKey, at] of seenMessages) {
+      if (now - at < DEDUPE_WINDOW_MS) break;
+      seenMessages.delete(seenKey);
+    }
+    if (seenMessages.has(key)) return true;
+    seenMessages.set(key, now);
+    return false;
+  }
+
+  function overRateLimit(key: string): boolean {
+    const now = Date.now();
+    const recent = (recentMessages.get(key) ?? []).filter((at) => now - at < 60_000);
+    if (recent.length >= MESSAGES_PER_MINUTE) {
+      recentMessages.set(key, recent);
+      return true;
+    }
+    recent.push(now);
+    recentMessages.set(key, recent);
+    return false;
+  }
+
+  /** Why a linked Majel user may not use Aria right now, or null when they may. */
+  async function blockedReason(userId: string): Promise<string | null> {
+    if (!appState.config.authEnabled || !appState.userStore) return null;
+    const user = await appState.userStore.getUser(userId);
+    if (!user) return "The linked Majel account no longer exists. Send `unlink`, then link again.";
+    if (user.lockedAt) return "Your Majel account is locked. Contact an Admiral.";
+    if (!user.emailVerified) return "Verify your Majel email address first.";
+    if (roleLevel(user.role) < roleLevel("lieutenant")) return "Aria needs the Lieutenant rank or higher.";
+    return null;
+  }
+
+  async function linkedUser(surface: ChatSurface, platformUserId: string): Promise<ChatSurfaceLink | null> {
+    return appState.chatSurfaceStore?.getLink(surface.id, platformUserId) ?? null;
+  }
+
+  const notLinked = (surface: ChatSurface) => replied(
+    `This account isn't linked to Majel yet. In Majel, open **Chat bots** in the user menu, `
+      + `get a link code for ${surface.name}, and send \`link <code>\` here.`,
+  );
+
+  async function handleMessage(surface: ChatSurface, event: InboundMessage): Promise<InboundResult> {
+    const store = appState.chatSurfaceStore;
+    if (!store) return replied("Majel is starting up. Try again in a moment.");
+    if (event.messageId && seenRecently(`${surface.id}:${event.messageId}`)) return { status: "duplicate" };
+    const text = event.text.trim();
+    const platformUser = { id: event.platformUserId, username: event.platformUsername ?? null };
+
+    const linkCommand = LINK_COMMAND_RE.exec(text);
+    if (linkCommand) {
+      const link = await store.redeemLinkCode(surface.id, linkCommand[1]!, platformUser);
+      if (!link) return replied("That link code is invalid or has expired. Get a new one in Majel.");
+      const user = await appState.userStore?.getUser(link.userId);
+      log.fleet.info({ surfaceId: surface.id, userId: link.userId }, "surface:linked");
+      return replied(`Linked to Majel${user ? ` as ${user.displayName}` : ""}. Ask Aria anything.`);
+    }
+    if (UNLINK_COMMAND_RE.test(text)) {
+      const removed = await store.deleteLink(surface.id, event.platformUserId);
+      return replied(removed ? "Unlinked from Majel." : "This account isn't linked.");
+    }
+
+    const link = await linkedUser(surface, event.platformUserId);
+    if (!link) return notLinked(surface);
+    const blocked = await blockedReason(link.userId);
+    if (blocked) return replied(blocked);
+    if (overRateLimit(`${surface.id}:${event.platformUserId}`)) {
+      return replied("You're sending messages too fast. Wait a minute and try again.");
+    }
+
+    const { chatRunStore, operationEventStoreFactory } = appState;
+    if (!chatRunStore || !operationEventStoreFactory || !appState.geminiEngine) {
+      return replied("Aria isn't available right now. Try again in a few minutes.");
+    }
+
+    const runId = `crun_${randomUUID()}`;
+    const sessionId = surfaceSessionId(surface.id, link.userId, event.conversationId);
+    const tabId = `surface_${surface.id}`;
+    const eventStore = operationEventStoreFactory.forUser(link.userId);
+    await eventStore.register("chat_run", runId, { sessionId, tabId });
+    await eventStore.emit({
+      topic: "chat_run",
+      operationId: runId,
+      routing: { sessionId, tabId },
+      eventType: "run.queued",
+      status: "queued",
+      payloadJson: { phase: "chat.queued", hasImage: false, requestId: null, traceId: runId, surfaceId: surface.id },
+    });
+    await store.trackReply({
+      runId,
+      surfaceId: surface.id,
+      userId: link.userId,
+      platformUserId: event.platformUserId,
+      conversationId: event.conversationId,
+      replyTo: event.messageId ?? null,
+    });
+    await chatRunStore.enqueue({
+      id: runId,
+      userId: link.userId,
+      sessionId,
+      tabId,
+      requestJson: { message: text, isAdmiral: false, surfaceId: surface.id },
+    });
+    await store.touchLink(surface.id, platformUser);
+
+    log.fleet.info({ surfaceId: surface.id, userId: link.userId, runId }, "surface:message-queued");
+    return { status: "queued", runId };
+  }
+
+  async function handleAction(surface: ChatSurface, event: InboundAction): Promise<InboundResult> {
+    const link = await linkedUser(surface, event.platformUserId);
+    if (!link) return notLinked(surface);
+    const blocked = await blockedReason(link.userId);
+    if (blocked) return replied(blocked);
+
+    if (event.action === "decline") {
+      const outcome = await declineProposal(appState, link.userId, event.proposalId, "declined_via_surface");
+      return replied(outcome.ok ? "Declined. Nothing was changed." : `Couldn't decline: ${outcome.message}`);
+    }
+    const outcome = await applyProposal(appState, link.userId, event.proposalId);
+    if (!outcome.ok) return replied(`Couldn't apply: ${outcome.message}`);
+    const summary = typeof outcome.data.summary === "string" ? outcome.data.summary : "Changes applied.";
+    log.fleet.info({ surfaceId: surface.id, userId: link.userId, proposalId: event.proposalId }, "surface:proposal-applied");
+    return replied(`Applied. ${summary}`);
+  }
+
+  /** Payload of the event that ended the run (a late heartbeat may follow it). */
+  async function terminalPayload(claimed: ClaimedReply): Promise<Record<string, unknown> | null> {
+    const eventStore = appState.operationEventStoreFactory?.forUser(claimed.userId);
+    if (!eventStore) return null;
+    const latest = await eventStore.latest("chat_run", claimed.runId);
+    if (!latest || TERMINAL_RUN_EVENTS.has(latest.eventType)) return latest?.payloadJson ?? null;
+    const events = await eventStore.listSince("chat_run", claimed.runId, 0, 500);
+    return events.reverse().find((e) => TERMINAL_RUN_EVENTS.has(e.eventType))?.payloadJson ?? null;
+  }
+
+  async function sendReply(claimed: ClaimedReply): Promise<void> {
+    const store = appState.chatSurfaceStore!;
+    let error: string | null = null;
+    try {
+      const content = buildReplyContent(claimed.runStatus, await terminalPayload(claimed));
+      await getSurfaceAdapter(claimed.surfaceKind).send(claimed, {
+        type: "reply",
+        surfaceId: claimed.surfaceId,
+        conversationId: claimed.conversationId,
+        platformUserId: claimed.platformUserId,
+        replyTo: claimed.replyTo,
+        runId: claimed.runId,
+        ...content,
+      }, post);
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const ok = error === null;
+    const retryDelay = REPLY_RETRY_DELAYS_MS[claimed.attempts];
+    const nextAttemptAt = !ok && retryDelay !== undefined ? new Date(Date.now() + retryDelay) : null;
+    await store.recordReply(claimed.runId, { ok, nextAttemptAt, error });
+    if (!ok) {
+      log.fleet.warn(
+        { runId: claimed.runId, surfaceId: claimed.surfaceId, attempt: claimed.attempts + 1, error, willRetry: nextAttemptAt !== null },
+        "surface:reply-failed",
+      );
+    }
+  }
+
+  async function drain(): Promise<number> {
+    const store = appState.chatSurfaceStore;
+    // Replies join chat_runs, which its own boot stage creates
+    if (!store || !appState.chatRunStore) return 0;
+    let sent = 0;
+    for (;;) {
+      const batch = await store.claimReplies(CLAIM_BATCH);
+      if (batch.length === 0) break;
+      await Promise.all(batch.map(sendReply));
+      sent += batch.length;
+    }
+    return sent;
+  }
+
+  /** One drain at a time per instance. */
+  function processDue(): Promise<number> {
+    if (draining) return draining;
+    draining = drain().finally(() => {
+      draining = null;
+    });
+    return draining;
+  }
+
+  return {
+    async handle(surface, event) {
+      return event.type === "message" ? handleMessage(surface, event) : handleAction(surface, event);
+    },
+
+    processDue,
+
+    start() {
+      if (sweepTimer) return;
+      sweepTimer = setInterval(() => {
+        processDue().catch((err) => {
+          log.fleet.warn({ err: err instanceof Error ? err.message : String(err) }, "surface:sweep-failed");
+        });
+      }, sweepIntervalMs);
+      sweepTimer.unref();
+    },
+
+    close() {
+      if (sweepTimer) {
+        clearInterval(sweepTimer);
+        sweepTimer = null;
+      }
+    },
+  };
+}
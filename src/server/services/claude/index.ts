@@ -15,6 +15,7 @@ import type {
   ToolResultBlockParam,
   Tool,
   Message,
+  MessageCreateParamsNonStreaming,
 } from "@anthropic-ai/sdk/resources/messages/messages";
 import { log } from "../../logger.js";
 import { type MicroRunner, type GovernanceContext, VALIDATION_DISCLAIMER } from "../micro-runner.js";
@@ -33,8 +34,10 @@ import { MODEL_REGISTRY_MAP } from "../gemini/model-registry.js";
 import { buildSystemPrompt } from "../gemini/system-prompt.js";
 import { sanitizeForModel } from "../gemini/sanitize.js";
 import { canonicalStringify } from "../../util/canonical-json.js";
+import { publishProposalCreated } from "../fleet-events.js";
 import { createHash } from "node:crypto";
-import type { ChatEngine } from "../engine.js";
+import type { ChatEngine, ChatRoute } from "../engine.js";
+import { createResponseTextEmitter, getChatStreamSink } from "../chat-stream.js";
 import type { FleetConfig, ImagePart, ChatResult, ProposalSummary } from "../gemini/index.js";
 
 // ─── Constants ────────────────────────────────────────────────
@@ -119,6 +122,16 @@ export function createClaudeEngine(
 
   const client = new AnthropicVertex({ projectId, region });
 
+  /** messages.create(), streamed as text deltas when a chat stream is bound (chat-stream.ts). */
+  async function createMessage(params: MessageCreateParamsNonStreaming): Promise<Message> {
+    const sink = getChatStreamSink();
+    if (!sink) return client.messages.create(params);
+    const emitText = createResponseTextEmitter(sink);
+    const stream = client.messages.stream(params);
+    stream.on("text", (delta) => emitText(delta));
+    return stream.finalMessage();
+  }
+
   const hasToolContext = !!toolContextFactory;
   const systemPrompt = buildSystemPrompt(fleetConfig, dockBriefing, hasToolContext);
 
@@ -154,13 +167,14 @@ export function createClaudeEngine(
     promptLen: systemPrompt.length,
   }, "init");
 
-  /** Get or create a session by ID */
-  function getSession(sessionId: string): SessionState {
+  /** Get or create a session by ID, seeding a new one with `seedHistory` when given */
+  function getSession(sessionId: string, seedHistory?: Array<{ role: string; text: string }>): SessionState {
     let state = sessions.get(sessionId);
     if (!state) {
+      const history = seedHistory ? [...seedHistory] : [];
       state = {
-        messages: [],
-        history: [],
+        messages: history.map((h): MessageParam => ({ role: h.role === "model" ? "assistant" : "user", content: h.text })),
+        history,
         lastAccess: Date.now(),
       };
       sessions.set(sessionId, state);
@@ -297,6 +311,7 @@ export function createClaudeEngine(
         expiresAt: proposal.expiresAt,
       };
       proposals.push(summary);
+      publishProposalCreated(proposal);
       return summary;
     } catch (err) {
       log.claude.error({ err: err instanceof Error ? err.message : String(err) }, "proposal:create-failed");
@@ -319,11 +334,13 @@ export function createClaudeEngine(
     scopedContext: ToolEnv | null,
     userId: string,
     requestId?: string,
-  ): Promise<{ text: string; responseMessages: MessageParam[]; proposals: ProposalSummary[] }> {
+    modelId: string = currentModelId,
+  ): Promise<{ text: string; responseMessages: MessageParam[]; proposals: ProposalSummary[]; executedTools: string[] }> {
     let round = 0;
     let mutationCount = 0;
     const pendingBatch: BatchItem[] = [];
     const proposals: ProposalSummary[] = [];
+    const executedTools: string[] = [];
     const accumulatedMessages: MessageParam[] = [];
 
     for (;;) {
@@ -336,8 +353,8 @@ export function createClaudeEngine(
       const allMessages = [...sessionMessages, ...accumulatedMessages];
 
       const response: Message = await withRetry(
-        () => client.messages.create({
-          model: currentModelId,
+        () => createMessage({
+          model: modelId,
           max_tokens: MAX_TOKENS,
           system: systemPrompt,
           messages: allMessages,
@@ -349,7 +366,7 @@ export function createClaudeEngine(
       // Track token usage (#248 — closes Claude blind spot)
       if (onTokenUsage && response.usage) {
         const op = response.stop_reason === "tool_use" ? "tool_call" : "chat";
-        onTokenUsage(userId, currentModelId, op, response.usage.input_tokens, response.usage.output_tokens);
+        onTokenUsage(userId, modelId, op, response.usage.input_tokens, response.usage.output_tokens);
       }
 
       // Extract text from content blocks
@@ -370,7 +387,7 @@ export function createClaudeEngine(
         if (pendingBatch.length > 0) {
           await createBatchProposal(pendingBatch, userId, proposals);
         }
-        return { text, responseMessages: accumulatedMessages, proposals };
+        return { text, responseMessages: accumulatedMessages, proposals, executedTools };
       }
 
       // ── Handle tool calls ──────────────────────────────
@@ -448,6 +465,7 @@ export function createClaudeEngine(
                 is_error: true,
               };
             }
+            executedTools.push(toolName);
           }
 
           // Execute tool (read-only tools and auto-trust mutations)
@@ -478,8 +496,8 @@ export function createClaudeEngine(
     const allMessages = [...sessionMessages, ...accumulatedMessages];
     allMessages.push({ role: "user", content: "Please provide a text response summarizing the tool results." });
 
-    const fallbackResponse = await client.messages.create({
-      model: currentModelId,
+    const fallbackResponse = await createMessage({
+      model: modelId,
       max_tokens: MAX_TOKENS,
       system: systemPrompt,
       messages: allMessages,
@@ -497,7 +515,7 @@ export function createClaudeEngine(
     accumulatedMessages.push({ role: "user", content: "Please provide a text response summarizing the tool results." });
     accumulatedMessages.push({ role: "assistant", content: fallbackResponse.content as ContentBlockParam[] });
 
-    return { text: fallbackText, responseMessages: accumulatedMessages, proposals };
+    return { text: fallbackText, responseMessages: accumulatedMessages, proposals, executedTools };
   }
 
   /** Build user content: text only, or multimodal with image */
@@ -519,10 +537,14 @@ export function createClaudeEngine(
   // ─── ChatEngine implementation ──────────────────────────────
 
   return {
-    async chat(message: string, sessionId = "default", image?: ImagePart, userId?: string, requestId?: string, _isCancelled?: () => boolean, _toolMode?: import("../gemini/tool-mode.js").ToolMode, _bulkDetected?: boolean, userRole?: string): Promise<ChatResult> {
+    async chat(message: string, sessionId = "default", image?: ImagePart, userId?: string, requestId?: string, _isCancelled?: () => boolean, _toolMode?: import("../gemini/tool-mode.js").ToolMode, _bulkDetected?: boolean, userRole?: string, route?: ChatRoute): Promise<ChatResult> {
       const sessionKey = userId ? `${userId}:${sessionId}` : sessionId;
       return withSessionLock(sessionKey, async () => {
-        const session = getSession(sessionKey);
+        const session = getSession(sessionKey, route?.history);
+        // The API is stateless, so a fallback turn on another Claude model needs no session change
+        const turnModelId = route?.modelId && MODEL_REGISTRY_MAP.get(route.modelId)?.provider === "claude"
+          ? route.modelId
+          : currentModelId;
         log.claude.debug({ requestId, sessionId: sessionKey, messageLen: message.length, hasImage: !!image, historyLen: session.history.length, userId }, "chat:send");
 
         const scopedContext = hasToolContext ? toolContextFactory!.forUser(userId ?? "local") : null;
@@ -537,20 +559,22 @@ export function createClaudeEngine(
             userId: effectiveUserId,
             role: userRole ?? "ensign",
             tenantId: effectiveUserId,
-            modelFamily: currentModelId,
+            modelFamily: turnModelId,
             procedureMode: "chat",
           };
           const { contract, gatedContext, augmentedMessage } = await microRunner.prepare(message, governance);
 
           const augmentedContent = buildUserContent(augmentedMessage, image);
+          const messageCountBefore = session.messages.length;
           session.messages.push({ role: "user", content: augmentedContent });
 
-          const { text: responseText, responseMessages, proposals } = await sendAndHandleTools(
+          const { text: responseText, responseMessages, proposals, executedTools } = await sendAndHandleTools(
             session.messages,
             sessionKey,
             scopedContext,
             effectiveUserId,
             requestId,
+            turnModelId,
           );
 
           // Merge tool-loop messages into session
@@ -571,8 +595,8 @@ export function createClaudeEngine(
             log.claude.debug({ sessionId: sessionKey, violations: receipt.validationDetails }, "microrunner:repair");
             session.messages.push({ role: "user", content: validation.repairPrompt });
 
-            const repairResponse = await client.messages.create({
-              model: currentModelId,
+            const repairResponse = await createMessage({
+              model: turnModelId,
               max_tokens: MAX_TOKENS,
               system: systemPrompt,
               messages: session.messages,
@@ -593,7 +617,15 @@ export function createClaudeEngine(
             receipt.validationDetails = revalidation.receipt.validationDetails;
             receipt.durationMs = Date.now() - startTime;
 
+            // Escalate to the next model in the fallback chain when nothing was
+            // staged or executed; otherwise keep the answer with a disclaimer
             if (receipt.validationResult === "fail") {
+              if (route?.escalate && proposals.length === 0 && executedTools.length === 0) {
+                microRunner.finalize(receipt);
+                session.messages.splice(messageCountBefore);
+                log.claude.info({ requestId, sessionId: sessionKey, model: turnModelId, violations: receipt.validationDetails }, "microrunner:escalate");
+                return { text: finalText, proposals: [], validationFailed: true };
+              }
               finalText = `${VALIDATION_DISCLAIMER}\n\n${finalText}`;
             }
           }
@@ -613,6 +645,7 @@ export function createClaudeEngine(
           scopedContext,
           effectiveUserId,
           requestId,
+          turnModelId,
         );
 
         // Rebuild session messages: replace what we pushed with the full exchange
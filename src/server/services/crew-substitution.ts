@@ -0,0 +1,185 @@
+/**
+ * crew-substitution.ts — Owned-roster scoring for plan solver substitution (ADR-034)
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Builds the SubstitutionSource the plan solver uses to replace a conflicted
+ * bridge officer with the best available owned officer for the plan item's
+ * intent. Scoring follows the client-side effect evaluator
+ * (web/src/lib/effect-evaluator.ts): slot activation rules, intent effect
+ * weights × magnitude, and works (1.0) / conditional (0.5) / blocked (0.0)
+ * applicability against the intent's default target context.
+ *
+ * All data is prefetched once so the solver can score synchronously inside
+ * its search.
+ */
+
+import type { EffectStore, OfficerAbilityWithEffects, AbilityEffectWithDetails } from "../stores/effect-store.js";
+import type { OverlayStore } from "../stores/overlay-store.js";
+import type { ReferenceStore } from "../stores/reference-store.js";
+import type { BridgeSlot } from "../types/crew-types.js";
+import type { SubstitutionSource } from "./plan-solver.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+interface ScoringContext {
+  targetKind: string;
+  engagement: string;
+  targetTags: string[];
+  shipClass: string | null;
+}
+
+interface ScoringIntent {
+  context: ScoringContext;
+  weights: Record<string, number>;
+}
+
+/** Conditions that always trigger during combat (evaluator treats them as "works"). */
+const ALWAYS_ACTIVE_CONDITIONS = new Set([
+  "at_combat_start",
+  "at_round_start",
+  "when_weapons_fire",
+  "per_round_stacking",
+]);
+
+// ─── Loader ─────────────────────────────────────────────────
+
+/**
+ * Prefetch the owned roster, officer abilities, and intent weights.
+ * Returns null when any required store is unavailable.
+ */
+export async function loadSubstitutionSource(stores: {
+  effectStore: EffectStore | null;
+  overlayStore: OverlayStore | null;
+  referenceStore: ReferenceStore | null;
+}): Promise<SubstitutionSource | null> {
+  const { effectStore, overlayStore, referenceStore } = stores;
+  if (!effectStore || !overlayStore || !referenceStore) return null;
+
+  const [overlays, officers, intents] = await Promise.all([
+    overlayStore.listOfficerOverlays({ ownershipState: "owned" }),
+    referenceStore.listOfficers(),
+    effectStore.listIntentsFull(),
+  ]);
+
+  const names = new Map(officers.map((o) => [o.id, o.name]));
+  const ownedOfficerIds = [...new Set(overlays.map((o) => o.refId))].filter((id) => names.has(id)).sort();
+  // Only owned officers can be substituted in, so only their abilities are scored
+  const abilities = await effectStore.getOfficerAbilitiesBulk(ownedOfficerIds);
+
+  const intentMap = new Map<string, ScoringIntent>();
+  for (const intent of intents) {
+    const dc = intent.defaultContext;
+    intentMap.set(intent.id, {
+      context: {
+        targetKind: dc?.targetKind ?? "hostile",
+        engagement: dc?.engagement ?? "any",
+        targetTags: parseTargetTags(dc?.targetTagsJson ?? null),
+        shipClass: dc?.shipClass ?? null,
+      },
+      weights: Object.fromEntries(intent.effectWeights.map((w) => [w.effectKey, w.weight])),
+    });
+  }
+
+  const cache = new Map<string, number>();
+
+  return {
+    ownedOfficerIds,
+    officerName: (officerId) => names.get(officerId) ?? officerId,
+    scoreOfficer(officerId, intentKey, slot) {
+      const intent = intentMap.get(intentKey ?? "general");
+      if (!intent) return 0;
+      const key = `${officerId}|${intentKey ?? "general"}|${slot}`;
+      let score = cache.get(key);
+      if (score === undefined) {
+        score = scoreOfficer(abilities.get(officerId) ?? [], intent, slot);
+        cache.set(key, score);
+      }
+      return score;
+    },
+  };
+}
+
+/** Intent target tags; a malformed row scores as untagged rather than failing the solve. */
+function parseTargetTags(json: string | null): string[] {
+  if (!json) return [];
+  try {
+    const parsed: unknown = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed.filter((t): t is string => typeof t === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+// ─── Scoring ────────────────────────────────────────────────
+
+function scoreOfficer(
+  abilities: OfficerAbilityWithEffects[],
+  intent: ScoringIntent,
+  slot: BridgeSlot,
+): number {
+  // Captain seat activates CM + OA; other bridge seats activate OA only.
+  const activeSlots = slot === "captain" ? ["cm", "oa"] : ["oa"];
+  let total = 0;
+  for (const ability of abilities) {
+    if (ability.isInert || !activeSlots.includes(ability.slot)) continue;
+    for (const effect of ability.effects) {
+      const weight = intent.weights[effect.effectKey] ?? 0;
+      if (weight === 0) continue;
+      total += (effect.magnitude ?? 1) * weight * applicability(effect, intent.context);
+    }
+  }
+  return total;
+}
+
+/** Mirrors evaluateEffect(): 1.0 works, 0.5 conditional, 0.0 blocked. */
+function applicability(effect: AbilityEffectWithDetails, ctx: ScoringContext): number {
+  if (effect.targetKinds.length > 0 && !effect.targetKinds.includes(ctx.targetKind)) return 0;
+  if (effect.targetTags.some((tag) => !ctx.targetTags.includes(tag))) return 0;
+
+  let conditional = false;
+  for (const cond of effect.conditions) {
+    const outcome = conditionOutcome(cond.conditionKey, cond.params ?? {}, ctx);
+    if (outcome === "blocked") return 0;
+    if (outcome === "conditional") conditional = true;
+  }
+  return conditional ? 0.5 : 1;
+}
+
+function conditionOutcome(
+  conditionKey: string,
+  params: Record<string, string>,
+  ctx: ScoringContext,
+): "works" | "conditional" | "blocked" {
+  if (ALWAYS_ACTIVE_CONDITIONS.has(conditionKey)) return "works";
+  switch (conditionKey) {
+    case "requires_attacking":
+      return ctx.engagement === "attacking" || ctx.engagement === "any" ? "works" : "blocked";
+    case "requires_defending":
+      return ctx.engagement === "defending" || ctx.engagement === "any" ? "works" : "blocked";
+    case "requires_pvp":
+      return ctx.targetTags.includes("pvp") ? "works" : "blocked";
+    case "requires_pve":
+      return ctx.targetTags.includes("pve") ? "works" : "blocked";
+    case "requires_station_target":
+      return ctx.targetKind === "station" ? "works" : "blocked";
+    case "requires_armada_target":
+      return ctx.targetKind === "armada_target" ? "works" : "blocked";
+    case "requires_ship_class":
+      return !params.class || ctx.shipClass === params.class ? "works" : "blocked";
+    case "requires_target_ship_class":
+      return !params.class || ctx.targetTags.includes(`target_${params.class}`) ? "works" : "blocked";
+    case "requires_target_tag":
+      return !params.tag || ctx.targetTags.includes(params.tag) ? "works" : "blocked";
+    case "requires_ship_tag":
+      // No ship tags in the intent default context
+      return params.tag ? "blocked" : "works";
+    case "when_target_is_burning":
+      return ctx.targetTags.includes("target_burning") ? "works" : "conditional";
+    case "when_target_has_hull_breach":
+      return ctx.targetTags.includes("target_hull_breached") ? "works" : "conditional";
+    default:
+      // Runtime status conditions (shields depleted, burning, health threshold, unknown)
+      return "conditional";
+  }
+}
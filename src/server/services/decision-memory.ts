@@ -0,0 +1,149 @@
+/**
+ * decision-memory.ts — Fleet decisions in chat context, invalidated by overlay state
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Lex frames remember what was said; decisions remember what was decided
+ * (stores/decision-store.ts). Before each chat turn the MicroRunner asks a
+ * DecisionSource for the user's active decisions and the ContextGate
+ * injects them as a [FLEET DECISIONS] block.
+ *
+ * A decision that names an officer or ship may assume an overlay state —
+ * "saving latinum for the Vi'Dar" assumes the Vi'Dar is not owned yet.
+ * When the overlay changes after the decision was last confirmed and now
+ * contradicts it, the decision is invalidated (with a reason the settings
+ * panel shows) rather than injected. Checking at read time covers every
+ * overlay write path: tools, imports, receipt undo and the catalog UI.
+ */
+
+import { log } from "../logger.js";
+import type { DecisionStore, DecisionStoreFactory, FleetDecision } from "../stores/decision-store.js";
+import type { OverlayStore, OverlayStoreFactory, OwnershipState } from "../stores/overlay-store.js";
+import { sanitizeForModel } from "./gemini/sanitize.js";
+
+/** Most decisions injected into one turn (newest first) */
+export const MAX_INJECTED_DECISIONS = 25;
+
+/** Overlay state of one officer or ship, merged across its instances. */
+export interface SubjectOverlayState {
+  ownershipState: OwnershipState;
+  target: boolean;
+  updatedAt: string;
+}
+
+export interface DecisionConflict {
+  decision: FleetDecision;
+  reason: string;
+}
+
+/** Supplies the decisions the ContextGate injects for a user. */
+export interface DecisionSource {
+  activeDecisions(userId: string): Promise<FleetDecision[]>;
+}
+
+// ─── Conflict detection ─────────────────────────────────────
+
+/**
+ * Active decisions contradicted by overlay state that is newer than the
+ * decision. An "unknown" ownership never contradicts anything.
+ */
+export function findDecisionConflicts(
+  decisions: FleetDecision[],
+  overlayFor: (decision: FleetDecision) => SubjectOverlayState | null,
+): DecisionConflict[] {
+  const conflicts: DecisionConflict[] = [];
+  for (const decision of decisions) {
+    if (decision.status !== "active" || !decision.subjectRefId) continue;
+    if (decision.assumesOwnership === null && decision.assumesTarget === null) continue;
+    const overlay = overlayFor(decision);
+    if (!overlay || Date.parse(overlay.updatedAt) <= Date.parse(decision.updatedAt)) continue;
+
+    const name = decision.subjectName ?? decision.subjectRefId;
+    if (decision.assumesOwnership && overlay.ownershipState !== "unknown" && overlay.ownershipState !== decision.assumesOwnership) {
+      conflicts.push({
+        decision,
+        reason: overlay.ownershipState === "owned" ? `${name} is now owned` : `${name} is now marked as not owned`,
+      });
+    } else if (decision.assumesTarget !== null && overlay.target !== decision.assumesTarget) {
+      conflicts.push({
+        decision,
+        reason: overlay.target ? `${name} is now targeted` : `${name} is no longer targeted`,
+      });
+    }
+  }
+  return conflicts;
+}
+
+/** Merge every instance of a ref (ADR-051): owned if any copy is owned. */
+export function mergeInstances(
+  instances: Array<{ ownershipState: OwnershipState; target: boolean; updatedAt: string }>,
+): SubjectOverlayState | null {
+  if (instances.length === 0) return null;
+  const states = new Set(instances.map((i) => i.ownershipState));
+  return {
+    ownershipState: states.has("owned") ? "owned" : states.has("unowned") ? "unowned" : "unknown",
+    target: instances.some((i) => i.target),
+    updatedAt: instances.map((i) => i.updatedAt).sort().at(-1)!,
+  };
+}
+
+/**
+ * Invalidate active decisions that conflict with the user's overlays.
+ * Returns the decisions still active afterwards.
+ */
+export async function reconcileDecisions(
+  decisions: DecisionStore,
+  overlays: OverlayStore | null,
+): Promise<FleetDecision[]> {
+  const active = await decisions.list({ status: "active" });
+  if (!overlays) return active;
+
+  const states = new Map<string, SubjectOverlayState | null>();
+  for (const decision of active) {
+    if (!decision.subjectRefId || (decision.assumesOwnership === null && decision.assumesTarget === null)) continue;
+    const key = `${decision.subjectType}:${decision.subjectRefId}`;
+    if (states.has(key)) continue;
+    const instances = decision.subjectType === "ship"
+      ? await overlays.listShipInstances(decision.subjectRefId)
+      : await overlays.listOfficerInstances(decision.subjectRefId);
+    states.set(key, mergeInstances(instances));
+  }
+
+  const conflicts = findDecisionConflicts(active, (d) => states.get(`${d.subjectType}:${d.subjectRefId}`) ?? null);
+  for (const { decision, reason } of conflicts) {
+    await decisions.invalidate(decision.id, reason);
+  }
+  const invalidated = new Set(conflicts.map((c) => c.decision.id));
+  return active.filter((d) => !invalidated.has(d.id));
+}
+
+export function createDecisionSource(
+  decisionStoreFactory: DecisionStoreFactory,
+  overlayStoreFactory: OverlayStoreFactory | null,
+): DecisionSource {
+  return {
+    async activeDecisions(userId) {
+      return reconcileDecisions(decisionStoreFactory.forUser(userId), overlayStoreFactory?.forUser(userId) ?? null);
+    },
+  };
+}
+
+// ─── Context block ──────────────────────────────────────────
+
+/** The [FLEET DECISIONS] block, or null when there is nothing to inject. */
+export function formatDecisionBlock(decisions: FleetDecision[]): string | null {
+  if (decisions.length === 0) return null;
+  const lines = decisions.slice(0, MAX_INJECTED_DECISIONS).map((d) => {
+    const subject = d.subjectType && d.subjectName ? `${d.subjectType}: ${sanitizeForModel(d.subjectName)}, ` : "";
+    return `- ${d.kind}: ${sanitizeForModel(d.statement)} (${subject}since ${d.updatedAt.slice(0, 10)})`;
+  });
+  if (decisions.length > MAX_INJECTED_DECISIONS) {
+    log.gemini.debug({ total: decisions.length, injected: MAX_INJECTED_DECISIONS }, "decisions truncated");
+  }
+  return [
+    "[FLEET DECISIONS]",
+    "Standing decisions the Admiral has made. Respect them; if advice would contradict one, say so and ask before overriding it.",
+    ...lines,
+    "[END FLEET DECISIONS]",
+  ].join("\n");
+}
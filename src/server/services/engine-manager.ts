@@ -2,31 +2,66 @@
  * engine-manager.ts — Multi-Provider Engine Manager
  *
  * ADR-041 Phase 4: Routes chat to the correct provider engine
- * (Gemini or Claude) based on the currently selected model.
+ * (Gemini, Claude or a local OpenAI-compatible server) based on the
+ * currently selected model.
  * Implements ChatEngine so all consumers remain unchanged.
  *
+ * With fallback chains configured (model.fallbackChains), each message is
+ * served along the chain for its TaskType: provider failures and repeated
+ * validation failures move it to the next model (see model-fallback.ts).
+ *
  * Majel — STFC Fleet Intelligence System
  */
 
 import { log } from "../logger.js";
-import { MODEL_REGISTRY_MAP } from "./gemini/model-registry.js";
-import type { ChatEngine } from "./engine.js";
+import { MODEL_REGISTRY_MAP, type ModelDef } from "./gemini/model-registry.js";
+import type { ChatEngine, ChatRoute } from "./engine.js";
 import type { ImagePart, ChatResult } from "./gemini/index.js";
 import type { ToolMode } from "./gemini/tool-mode.js";
+import { VALIDATION_DISCLAIMER, type TaskType } from "./micro-runner.js";
+import { emitChatStream } from "./chat-stream.js";
+import {
+  createCircuitBreaker,
+  isProviderFailure,
+  planFallbackRoute,
+  runInFallbackScope,
+  type CircuitBreaker,
+  type FallbackChains,
+  type FallbackHop,
+} from "./model-fallback.js";
 
 // ─── Types ────────────────────────────────────────────────────
 
-export type ProviderName = "gemini" | "claude";
+export type ProviderName = ModelDef["provider"];
 
 export interface EngineManagerOptions {
-  geminiEngine: ChatEngine;
+  /** Primary engine. Omit only for fully offline installs running a local engine. */
+  geminiEngine?: ChatEngine | null;
   claudeEngine?: ChatEngine | null;
+  localEngine?: ChatEngine | null;
+  /** Load the configured fallback chains. Omit to always serve on the selected model. */
+  loadFallbackChains?: (() => Promise<FallbackChains>) | null;
+  /** Classify a message for chain selection (MicroRunner.classify). Without it only the "default" chain applies. */
+  classifyTask?: ((message: string) => TaskType) | null;
+  /** Provider-failure circuit breaker shared across messages. */
+  circuitBreaker?: CircuitBreaker;
 }
 
 // ─── Factory ──────────────────────────────────────────────────
 
 export function createEngineManager(opts: EngineManagerOptions): ChatEngine {
-  const { geminiEngine, claudeEngine } = opts;
+  const engines: Record<ProviderName, ChatEngine | null> = {
+    gemini: opts.geminiEngine ?? null,
+    claude: opts.claudeEngine ?? null,
+    local: opts.localEngine ?? null,
+  };
+  const primary = engines.gemini ?? engines.local;
+  if (!primary) {
+    throw new Error("EngineManager requires a Gemini or local engine");
+  }
+  /** Engine used for unknown models and unavailable providers: Gemini, else local. */
+  const fallbackEngine: ChatEngine = primary;
+  const allEngines = Object.values(engines).filter((e): e is ChatEngine => e !== null);
 
   /** Resolve which provider owns a given model ID. */
   function providerFor(modelId: string): ProviderName {
@@ -34,10 +69,9 @@ export function createEngineManager(opts: EngineManagerOptions): ChatEngine {
     return def?.provider ?? "gemini";
   }
 
-  /** Get the engine for a provider, falling back to Gemini if unavailable. */
+  /** Get the engine for a provider, falling back when unavailable. */
   function engineFor(provider: ProviderName): ChatEngine {
-    if (provider === "claude" && claudeEngine) return claudeEngine;
-    return geminiEngine;
+    return engines[provider] ?? fallbackEngine;
   }
 
   /** The currently active provider (derived from whichever engine's model is "current"). */
@@ -48,7 +82,9 @@ export function createEngineManager(opts: EngineManagerOptions): ChatEngine {
 
   // ─── ChatEngine implementation ────────────────────────────
 
-  function chat(
+  const breaker = opts.circuitBreaker ?? createCircuitBreaker();
+
+  async function chat(
     message: string,
     sessionId?: string,
     image?: ImagePart,
@@ -58,8 +94,84 @@ export function createEngineManager(opts: EngineManagerOptions): ChatEngine {
     toolMode?: ToolMode,
     bulkDetected?: boolean,
     userRole?: string,
+    route?: ChatRoute,
   ): Promise<ChatResult> {
-    return activeEngine().chat(message, sessionId, image, userId, requestId, isCancelled, toolMode, bulkDetected, userRole);
+    const send = (engine: ChatEngine, engineRoute?: ChatRoute) =>
+      engine.chat(message, sessionId, image, userId, requestId, isCancelled, toolMode, bulkDetected, userRole, engineRoute);
+
+    const chains = opts.loadFallbackChains ? await opts.loadFallbackChains() : {};
+    const taskType = opts.classifyTask?.(message) ?? null;
+    const candidates = planFallbackRoute(chains, taskType, _currentModelId);
+    if (candidates.length === 1) return send(activeEngine(), route);
+
+    const primary = activeEngine();
+    const sessionKey = userId ? `${userId}:${sessionId ?? "default"}` : (sessionId ?? "default");
+    // A rebuilt session (route.history) is seeded into every engine, the primary included
+    const history = route?.history ?? primary.getHistory(sessionKey);
+    const servable = candidates.filter((id) => engines[providerFor(id)] !== null);
+
+    const hops: FallbackHop[] = [];
+    const path: string[] = [];
+    let lastError: unknown = null;
+    let escalated: ChatResult | null = null;
+
+    for (const modelId of candidates) {
+      const engine = engines[providerFor(modelId)];
+      if (!engine) {
+        hops.push({ modelId, outcome: "unavailable" });
+        continue;
+      }
+      // Never fail a message without a single attempt: the last servable model ignores its breaker
+      const lastChance = path.length === 0 && modelId === servable[servable.length - 1];
+      if (!breaker.allows(modelId) && !lastChance) {
+        hops.push({ modelId, outcome: "circuit_open" });
+        continue;
+      }
+
+      path.push(modelId);
+      const engineRoute: ChatRoute = {
+        modelId,
+        escalate: modelId !== servable[servable.length - 1],
+        ...(engine !== primary || route?.history ? { history } : {}),
+      };
+      try {
+        const result = await runInFallbackScope(
+          { taskType: taskType ?? "default", path: [...path] },
+          () => send(engine, engineRoute),
+        );
+        breaker.recordSuccess(modelId);
+        if (result.validationFailed) {
+          hops.push({ modelId, outcome: "validation_failed" });
+          escalated = result;
+          emitChatStream({ type: "reset" });
+          continue;
+        }
+        hops.push({ modelId, outcome: "served" });
+        if (hops.length > 1) {
+          log.gemini.info({ requestId, taskType, path: hops }, "engine-manager:fallback:served");
+        }
+        return hops.length > 1 ? { ...result, fallbackPath: hops } : result;
+      } catch (err) {
+        if (!isProviderFailure(err)) {
+          // The provider answered — this error would recur on any model
+          breaker.recordSuccess(modelId);
+          throw err;
+        }
+        breaker.recordFailure(modelId);
+        const detail = err instanceof Error ? err.message : String(err);
+        hops.push({ modelId, outcome: "provider_error", detail });
+        log.gemini.warn({ requestId, modelId, taskType, err: detail }, "engine-manager:fallback:provider-error");
+        lastError = err;
+        emitChatStream({ type: "reset" });
+        if (isCancelled?.()) break;
+      }
+    }
+
+    // Every escalation target failed: return the best answer with the usual disclaimer
+    if (escalated) {
+      return { ...escalated, text: `${VALIDATION_DISCLAIMER}\n\n${escalated.text}`, validationFailed: undefined, fallbackPath: hops };
+    }
+    throw lastError ?? new Error("No model in the fallback chain could serve this message");
   }
 
   function getHistory(sessionId?: string): Array<{ role: string; text: string }> {
@@ -67,33 +179,30 @@ export function createEngineManager(opts: EngineManagerOptions): ChatEngine {
   }
 
   function getSessionCount(): number {
-    // Sum from all engines — sessions may exist in either
-    let count = geminiEngine.getSessionCount();
-    if (claudeEngine) count += claudeEngine.getSessionCount();
-    return count;
+    // Sum from all engines — sessions may exist in any of them
+    return allEngines.reduce((count, engine) => count + engine.getSessionCount(), 0);
   }
 
   function closeSession(sessionId: string): void {
-    // Close on both engines — the caller doesn't know which owns it
-    geminiEngine.closeSession(sessionId);
-    claudeEngine?.closeSession(sessionId);
+    // Close on every engine — the caller doesn't know which owns it
+    for (const engine of allEngines) engine.closeSession(sessionId);
   }
 
   function getModel(): string {
     // We track the "current" by checking which engine was last setModel'd.
-    // Start with Gemini's model as default (always available).
+    // Start with the fallback engine's model as default (always available).
     return _currentModelId;
   }
 
-  let _currentModelId: string = geminiEngine.getModel();
+  let _currentModelId: string = fallbackEngine.getModel();
 
   function setModel(modelId: string): void {
     const provider = providerFor(modelId);
-    const engine = engineFor(provider);
+    const engine = engines[provider];
 
-    // If the requested model needs Claude but Claude isn't available, reject gracefully
-    if (provider === "claude" && !claudeEngine) {
-      log.gemini.warn({ modelId }, "Claude engine not available — staying on current model");
+    // If the requested model's provider isn't available, reject gracefully
+    if (!engine) {
+      log.gemini.warn({ modelId, provider }, "provider engine not available — staying on current model");
       return;
     }
 
@@ -103,8 +212,7 @@ export function createEngineManager(opts: EngineManagerOptions): ChatEngine {
   }
 
   function close(): void {
-    geminiEngine.close();
-    claudeEngine?.close();
+    for (const engine of allEngines) engine.close();
   }
 
   return { chat, getHistory, getSessionCount, closeSession, getModel, setModel, close };
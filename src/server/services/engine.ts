@@ -9,9 +9,22 @@
 import type { ImagePart, ChatResult } from "./gemini/index.js";
 import type { ToolMode } from "./gemini/tool-mode.js";
 
+/** Per-call routing set by the engine manager's fallback chain. */
+export interface ChatRoute {
+  /** Serve this call on the given model instead of the engine's current one. */
+  modelId?: string;
+  /**
+   * A later model is waiting: if validation still fails after repair, return
+   * `validationFailed` without recording the turn so the message can escalate.
+   */
+  escalate?: boolean;
+  /** Conversation so far, seeded into a session this engine has not seen. */
+  history?: Array<{ role: string; text: string }>;
+}
+
 export interface ChatEngine {
   /** Send a message and get the structured response. */
-  chat(message: string, sessionId?: string, image?: ImagePart, userId?: string, requestId?: string, isCancelled?: () => boolean, toolMode?: ToolMode, bulkDetected?: boolean, userRole?: string): Promise<ChatResult>;
+  chat(message: string, sessionId?: string, image?: ImagePart, userId?: string, requestId?: string, isCancelled?: () => boolean, toolMode?: ToolMode, bulkDetected?: boolean, userRole?: string, route?: ChatRoute): Promise<ChatResult>;
   /** Get the full conversation history for a session. */
   getHistory(sessionId?: string): Array<{ role: string; text: string }>;
   /** Get the number of active sessions. */
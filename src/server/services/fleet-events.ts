@@ -0,0 +1,221 @@
+/**
+ * fleet-events.ts — In-process bus for fleet events
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Routes and fleet tools publish what just happened to a user's fleet
+ * (a target achieved, a proposal applied, an import committed…). The
+ * webhook dispatcher is the subscriber; it persists a delivery per
+ * matching webhook, so an event only needs to reach the instance that
+ * produced it — hence an in-process bus rather than LISTEN/NOTIFY.
+ *
+ * publishFleetEvent() is synchronous and never throws: a failing
+ * listener must not fail the request that caused the event.
+ */
+
+import { log } from "../logger.js";
+import type { ReferenceStore } from "../stores/reference-store.js";
+import type { Target } from "../stores/target-store.js";
+import type { MutationProposal } from "../stores/proposal-store.js";
+import type { SolverResult } from "./plan-solver.js";
+
+// ─── Types ────────────────────────────────────────────────────
+
+/** Events users can subscribe webhooks to. */
+export const FLEET_EVENTS = [
+  "target.achieved",
+  "proposal.created",
+  "proposal.applied",
+  "import.committed",
+  "plan.conflicts",
+  "timer.completed",
+] as const;
+export type FleetEventType = (typeof FLEET_EVENTS)[number];
+
+export interface FleetEvent {
+  type: FleetEventType;
+  userId: string;
+  /** Event-specific fields; always includes a human-readable `summary`. */
+  data: { summary: string } & Record<string, unknown>;
+  occurredAt: string;
+}
+
+export type FleetEventListener = (event: FleetEvent) => void;
+
+export interface PublishOptions {
+  /**
+   * Skip the event when the previous one of the same type for the same
+   * user carried the same key — for events derived from state that is
+   * re-read often (plan previews) rather than from a single action.
+   */
+  dedupeKey?: string;
+}
+
+// ─── Bus ──────────────────────────────────────────────────────
+
+const listeners = new Set<FleetEventListener>();
+const lastKeys = new Map<string, string>();
+/** lastKeys is a dedupe hint, not state — drop it wholesale past this size. */
+const MAX_DEDUPE_KEYS = 5000;
+
+export function isFleetEventType(value: unknown): value is FleetEventType {
+  return typeof value === "string" && (FLEET_EVENTS as readonly string[]).includes(value);
+}
+
+/** Receive every published event. Returns the unsubscribe function. */
+export function subscribeFleetEvents(listener: FleetEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Publish an event to every listener. Returns false when it was deduplicated. */
+export function publishFleetEvent(
+  type: FleetEventType,
+  userId: string,
+  data: FleetEvent["data"],
+  options: PublishOptions = {},
+): boolean {
+  if (options.dedupeKey !== undefined) {
+    const slot = `${type}\u0000${userId}`;
+    if (lastKeys.get(slot) === options.dedupeKey) return false;
+    if (lastKeys.size >= MAX_DEDUPE_KEYS) lastKeys.clear();
+    lastKeys.set(slot, options.dedupeKey);
+  }
+
+  const event: FleetEvent = { type, userId, data, occurredAt: new Date().toISOString() };
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (err) {
+      log.fleet.warn({ err: err instanceof Error ? err.message : String(err), type }, "fleet-event:listener-failed");
+    }
+  }
+  return true;
+}
+
+/** Forget dedupe keys for a user's event type, so the next publish goes out. */
+export function resetFleetEventDedupe(type: FleetEventType, userId: string): void {
+  lastKeys.delete(`${type}\u0000${userId}`);
+}
+
+// ─── Event Builders ───────────────────────────────────────────
+
+/**
+ * Publish target.achieved, naming the officer or ship so the summary reads
+ * like "Kirk reached rank 4". Never rejects — a failed name lookup falls
+ * back to the reference ID.
+ */
+export async function publishTargetAchieved(
+  userId: string,
+  target: Target,
+  referenceStore: ReferenceStore | null | undefined,
+): Promise<void> {
+  let name: string | null = null;
+  try {
+    if (target.refId && referenceStore) {
+      const ref = target.targetType === "officer"
+        ? await referenceStore.getOfficer(target.refId)
+        : target.targetType === "ship" ? await referenceStore.getShip(target.refId) : null;
+      name = ref?.name ?? null;
+    }
+  } catch (err) {
+    log.fleet.debug({ err: err instanceof Error ? err.message : String(err), refId: target.refId }, "fleet-event:name-lookup-failed");
+  }
+
+  const goal = target.targetRank ? `rank ${target.targetRank}`
+    : target.targetTier != null ? `tier ${target.targetTier}`
+      : target.targetLevel != null ? `level ${target.targetLevel}` : null;
+  const subject = name ?? target.refId ?? target.reason ?? `${target.targetType} target #${target.id}`;
+
+  publishFleetEvent("target.achieved", userId, {
+    summary: name && goal ? `${name} reached ${goal}` : `Target achieved: ${subject}`,
+    targetId: target.id,
+    targetType: target.targetType,
+    refId: target.refId,
+    name,
+    targetTier: target.targetTier,
+    targetRank: target.targetRank,
+    targetLevel: target.targetLevel,
+    reason: target.reason,
+    achievedAt: target.achievedAt,
+  });
+}
+
+/** What a proposal would change, in one line. */
+function proposalSummary(proposal: MutationProposal): string {
+  const summary = proposal.proposalJson?.summary;
+  if (typeof summary === "string" && summary.trim()) return summary;
+  return proposal.batchItems?.map((item) => item.preview).join("; ") || proposal.tool;
+}
+
+/** Publish proposal.created for a proposal awaiting approval. */
+export function publishProposalCreated(proposal: MutationProposal): void {
+  publishFleetEvent("proposal.created", proposal.userId, {
+    summary: `Awaiting approval: ${proposalSummary(proposal)}`,
+    proposalId: proposal.id,
+    tool: proposal.tool,
+    items: proposal.batchItems?.map((item) => ({ tool: item.tool, preview: item.preview })) ?? [],
+    expiresAt: proposal.expiresAt,
+  });
+}
+
+/** Publish proposal.applied once a proposal's mutations were written. */
+export function publishProposalApplied(proposal: MutationProposal, outcome: string | null = null): void {
+  publishFleetEvent("proposal.applied", proposal.userId, {
+    summary: `Applied: ${proposalSummary(proposal)}`,
+    proposalId: proposal.id,
+    tool: proposal.tool,
+    receiptId: proposal.appliedReceiptId || null,
+    outcome,
+    appliedAt: proposal.appliedAt,
+  });
+}
+
+/** Publish import.committed for a new import receipt. `counts` is the commit summary (added, updated…). */
+export function publishImportCommitted(
+  userId: string,
+  receipt: { id: number; sourceType: string; layer: string },
+  counts: Record<string, number>,
+): void {
+  const parts = Object.entries(counts).filter(([, n]) => n > 0).map(([key, n]) => `${n} ${key}`);
+  publishFleetEvent("import.committed", userId, {
+    summary: `Import committed (${receipt.sourceType}): ${parts.join(", ") || "no changes"}`,
+    receiptId: receipt.id,
+    sourceType: receipt.sourceType,
+    layer: receipt.layer,
+    counts,
+  });
+}
+
+/**
+ * Publish plan.conflicts when a solve leaves items blocked or officers
+ * double-booked. Deduplicated per user: re-solving an unchanged plan
+ * stays quiet, and a clean solve re-arms the event.
+ */
+export function publishPlanConflicts(userId: string, result: SolverResult): void {
+  const blocked = result.assignments.filter((a) => a.action === "conflict");
+  if (blocked.length === 0 && result.conflicts.length === 0) {
+    resetFleetEventDedupe("plan.conflicts", userId);
+    return;
+  }
+
+  const dedupeKey = JSON.stringify([
+    blocked.map((a) => a.planItemId).sort((a, b) => a - b),
+    result.conflicts.map((c) => c.officerId).sort(),
+  ]);
+  const labels = blocked.map((a) => a.planItemLabel ?? `item ${a.planItemId}`);
+  const parts = [
+    ...(labels.length > 0 ? [`blocked: ${labels.join(", ")}`] : []),
+    ...(result.conflicts.length > 0 ? [`${result.conflicts.length} officer(s) double-booked`] : []),
+  ];
+
+  publishFleetEvent("plan.conflicts", userId, {
+    summary: `Plan conflicts — ${parts.join("; ")}`,
+    mode: result.mode,
+    applied: result.applied,
+    blockedItems: blocked.map((a) => ({ planItemId: a.planItemId, label: a.planItemLabel, explanation: a.explanation })),
+    officerConflicts: result.conflicts,
+  }, { dedupeKey });
+}
@@ -25,6 +25,7 @@ export interface ClaudeJsonSchema {
 export interface ClaudePropertySchema {
   type: string;
   description?: string;
+  enum?: string[];
   items?: ClaudePropertySchema;
   properties?: Record<string, ClaudePropertySchema>;
   required?: string[];
@@ -59,6 +60,9 @@ function convertProperty(prop: Record<string, unknown>): ClaudePropertySchema {
   if (prop.description) {
     result.description = String(prop.description);
   }
+  if (Array.isArray(prop.enum)) {
+    result.enum = prop.enum.map(String);
+  }
   // Array items
   if (result.type === "array" && prop.items) {
     result.items = convertProperty(prop.items as Record<string, unknown>);
@@ -16,8 +16,13 @@ import type { TargetStore } from "../../stores/target-store.js";
 import type { ReceiptStore } from "../../stores/receipt-store.js";
 import type { ResearchStore } from "../../stores/research-store.js";
 import type { InventoryStore } from "../../stores/inventory-store.js";
+import type { BattleReportStore } from "../../stores/battle-report-store.js";
+import type { DecisionStore } from "../../stores/decision-store.js";
+import type { AllianceStore } from "../../stores/alliance-store.js";
 import type { UserSettingsStore } from "../../stores/user-settings-store.js";
+import type { EffectStore } from "../../stores/effect-store.js";
 import type { ResourceDef } from "../resource-defs.js";
+import type { AllianceRoster } from "../alliance-roster.js";
 
 // ─── Tool Environment (ADR-039 D7 Stage 1) ─────────────────
 
@@ -34,7 +39,15 @@ export interface ResolvedStores {
   receiptStore?: ReceiptStore | null;
   researchStore?: ResearchStore | null;
   inventoryStore?: InventoryStore | null;
+  battleReportStore?: BattleReportStore | null;
+  decisionStore?: DecisionStore | null;
+  /** The user's alliance (shared plan, targets, armadas) — scoped to the user's membership. */
+  allianceStore?: AllianceStore | null;
+  /** Opted-in fleets of fellow alliance members (read-only). */
+  allianceRoster?: AllianceRoster | null;
   userSettingsStore?: UserSettingsStore | null;
+  /** Global effect taxonomy — intent weights for goal scoring. */
+  effectStore?: EffectStore | null;
   /** Resource definition map for resolving mine resource IDs to human names. */
   resourceDefs?: Map<number, ResourceDef> | null;
 }
@@ -213,8 +226,18 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
       "Run full plan validation: checks dock assignments, officer conflicts, " +
       "empty loadouts, and other fleet plan issues. Returns a structured validation report. " +
       "Call this when the Admiral asks to validate their plan, check for problems, " +
-      "or wants an overall health check of their fleet setup.",
-    // No parameters
+      "or wants an overall health check of their fleet setup. " +
+      "Set compare_solvers=true to also preview the greedy vs optimal plan solver side by side " +
+      "(which plan items each would dock, queue, or defer, and the priority coverage gained).",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        compare_solvers: {
+          type: Type.BOOLEAN,
+          description: "Include a greedy vs optimal solver comparison. Omit for validation only.",
+        },
+      },
+    },
   },
 
   // ─── Phase 2: Crew Composition Tools (ADR-025) ─────────
@@ -249,7 +272,7 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
     name: "list_plan_items",
     description:
       "List all plan items (active objectives) with full context: assigned loadout, dock, " +
-      "intent, crew members, away team members. " +
+      "intent, time window (UTC), crew members, away team members. " +
       "Call this when analyzing the fleet plan or checking dock assignments.",
     // No parameters — returns all plan items with context
   },
@@ -373,6 +396,7 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
     description:
       "Estimate resource requirements to upgrade a ship from current tier to a target tier, " +
       "and compare against Admiral inventory to show gaps. " +
+      "Each requirement includes the measured daily income from inventory history and days until it is covered. " +
       "Call this before recommending an upgrade so advice is grounded in available materials.",
     parameters: {
       type: Type.OBJECT,
@@ -393,6 +417,7 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
     name: "estimate_acquisition_time",
     description:
       "Estimate time-to-upgrade based on current resource gaps and expected daily acquisition rates. " +
+      "Rates come from daily_income overrides, then income measured from inventory history, then keyword defaults. " +
       "Use this after calculate_upgrade_path to project how many days remain to reach the target tier.",
     parameters: {
       type: Type.OBJECT,
@@ -481,16 +506,22 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
     description:
       "Analyze a battle log JSON to identify key failure rounds, incoming/outgoing damage trends, " +
       "ability trigger timing, and likely loss causes. " +
+      "Pass report_id to analyze a battle report the Admiral imported, or battle_log for an inline payload. " +
+      "Inline logs are saved to battle history (the result's reportId); include outcome, loadout_id, " +
+      "hostile_id or opponent {name, faction, hull_type} in the log when known so analytics can group by them. " +
       "Call this when the Admiral wants post-battle root cause analysis.",
     parameters: {
       type: Type.OBJECT,
       properties: {
+        report_id: {
+          type: Type.INTEGER,
+          description: "ID of a stored battle report (e.g. 'report #12'). Takes precedence over battle_log.",
+        },
         battle_log: {
           type: Type.OBJECT,
           description: "Battle log payload containing rounds, damage events, and ability triggers.",
         },
       },
-      required: ["battle_log"],
     },
   },
   {
@@ -502,12 +533,36 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
     parameters: {
       type: Type.OBJECT,
       properties: {
+        report_id: {
+          type: Type.INTEGER,
+          description: "ID of a stored battle report. Takes precedence over battle_log.",
+        },
         battle_log: {
           type: Type.OBJECT,
           description: "Battle log payload containing rounds, damage events, and ability triggers.",
         },
       },
-      required: ["battle_log"],
+    },
+  },
+  {
+    name: "get_battle_analytics",
+    description:
+      "Aggregate the Admiral's stored battle history: overall win rate, win rate by loadout, " +
+      "by hostile faction and by hull type, the most frequent likely failure causes across losses, " +
+      "and which officer abilities actually fired (with the win rate of fights they fired in). " +
+      "Call this when the Admiral asks about loss patterns, which crews are working, or what keeps killing them.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        mode: {
+          type: Type.STRING,
+          description: "Only fights of this mode (e.g. 'pvp', 'hostile', 'armada').",
+        },
+        days: {
+          type: Type.INTEGER,
+          description: "Only fights stored in the last N days (1-365). Omit for all history.",
+        },
+      },
     },
   },
   {
@@ -528,7 +583,10 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
       "Returns each assigned dock with availability status and lock reasons: officers locked in away teams, " +
       "officers with hard reservations, etc. Use this when the Admiral asks which ships can join an armada, " +
       "plans fleet composition for an upcoming armada, or wants to know if a specific ship/crew is free. " +
-      "If loadout_ids are provided, checks only those loadouts; otherwise checks all assigned docks.",
+      "If loadout_ids are provided, checks only those loadouts; otherwise checks all assigned docks. " +
+      "When the Admiral is in an alliance, also returns the alliance's upcoming armadas (hostile, ships needed) with who has " +
+      "signed up, their ship and loadout and any readiness issues (not docked, officer away or reserved), " +
+      "and the strongest owned ships and officers of members who share their fleet, so you can suggest who brings what.",
     parameters: {
       type: Type.OBJECT,
       properties: {
@@ -585,7 +643,8 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
     name: "list_targets",
     description:
       "List the Admiral's active targets/goals: officers to acquire, ships to build, " +
-      "crews to assemble. Includes priority, status, and reason for each target. " +
+      "crews to assemble. Includes priority, status, and reason for each target, " +
+      "plus which targets each one depends on and which are still blocking it. " +
       "Call this when the Admiral asks about their goals, priorities, or what to work toward.",
     parameters: {
       type: Type.OBJECT,
@@ -616,7 +675,8 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
     description:
       "Gather comprehensive fleet state to suggest new acquisition and progression targets. " +
       "Returns: fleet overview, owned officers/ships with levels, current loadouts, " +
-      "existing targets, and active conflicts. " +
+      "existing targets in dependency order with percent-complete and what blocks them, and active conflicts. " +
+      "Recommend work on ready (unblocked) targets before anything waiting on a prerequisite. " +
       "Use your STFC knowledge to identify gaps, recommend acquisitions, " +
       "suggest upgrades with high ROI, and propose meta crew compositions the Admiral is missing.",
     // No parameters — gathers everything needed for analysis
@@ -630,8 +690,11 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
       "Detect resource conflicts across the Admiral's active targets. " +
       "Finds: officer contention (same officer in multiple crew targets), " +
       "dock slot contention (same dock needed by multiple targets), " +
-      "cascade effects (officer upgrades affecting multiple loadouts). " +
+      "cascade effects (officer upgrades affecting multiple loadouts), " +
+      "material contention (ship tier targets competing for the same parts, ore or blueprints). " +
       "Each conflict includes severity (blocking/competing/informational) and suggestions. " +
+      "Also returns a resource budget: combined requirements vs inventory and measured income, " +
+      "per-target ETAs under alternative priority orderings, and the recommended ordering. " +
       "Call this when the Admiral asks about conflicts, bottlenecks, or resource competition.",
     // No parameters — analyzes all active targets automatically
   },
@@ -680,6 +743,11 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
           type: Type.STRING,
           description: "Why this target matters — used for prioritization context (e.g. 'Cloaking platform acquisition', 'Needed for Kirk PvP crew')",
         },
+        depends_on: {
+          type: Type.ARRAY,
+          description: "Target IDs that must be finished first (e.g. tier the Saladin before building the Enterprise).",
+          items: { type: Type.INTEGER },
+        },
       },
       required: ["target_type"],
     },
@@ -689,7 +757,7 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
     description:
       "Update an existing target's priority, status, reason, or progression goals. " +
       "Use this to change priority, update the reason, adjust target tier/level/rank, " +
-      "or set status to 'abandoned'. For marking targets complete, prefer complete_target instead.",
+      "add or remove prerequisite targets, or set status to 'abandoned'. For marking targets complete, prefer complete_target instead.",
     parameters: {
       type: Type.OBJECT,
       properties: {
@@ -722,6 +790,16 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
           type: Type.STRING,
           description: "Updated reason/context",
         },
+        depends_on: {
+          type: Type.ARRAY,
+          description: "Target IDs to add as prerequisites. Rejected if it would create a dependency cycle.",
+          items: { type: Type.INTEGER },
+        },
+        remove_depends_on: {
+          type: Type.ARRAY,
+          description: "Prerequisite target IDs to remove.",
+          items: { type: Type.INTEGER },
+        },
       },
       required: ["target_id"],
     },
@@ -841,6 +919,45 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
       required: ["goal_key"],
     },
   },
+  {
+    name: "record_decision",
+    description:
+      "Remember a decision or standing preference the Admiral has stated, so it carries across conversations " +
+      "(e.g. 'I'm saving latinum for the Vi'Dar', 'never put Khan on mining'). " +
+      "Use only for explicit decisions, not passing remarks. Restating a decision about the same officer or ship updates it.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        kind: {
+          type: Type.STRING,
+          description: "goal (working towards), saving (holding a resource back), prefer (standing preference), avoid (never suggest)",
+          enum: ["goal", "saving", "prefer", "avoid"],
+        },
+        statement: {
+          type: Type.STRING,
+          description: "The decision as one short sentence in the Admiral's terms (e.g. 'Saving latinum for the Vi'Dar').",
+        },
+        officer_id: {
+          type: Type.STRING,
+          description: "Reference ID of the officer the decision is about, from search_officers.",
+        },
+        ship_id: {
+          type: Type.STRING,
+          description: "Reference ID of the ship the decision is about, from search_ships.",
+        },
+        assumes_ownership: {
+          type: Type.STRING,
+          description: "Ownership of that officer/ship the decision takes for granted: 'unowned' when saving for it, 'owned' when it is about using it. The decision is invalidated if this changes.",
+          enum: ["owned", "unowned"],
+        },
+        assumes_target: {
+          type: Type.BOOLEAN,
+          description: "Whether the decision assumes the officer/ship is (true) or is not (false) a target.",
+        },
+      },
+      required: ["kind", "statement"],
+    },
+  },
 
   // ─── ADR-025 Mutation Tools (Phase 3) ─────────────────────
 
@@ -1044,7 +1161,7 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
                   },
                   instanceId: {
                     type: Type.STRING,
-                    description: "Instance ID (e.g. 'primary' or 'inst_abc123'). Defaults to 'primary' if omitted.",
+                    description: "Instance ID (e.g. 'primary' or 'inst_abc123'). Defaults to 'primary' if omitted; 'new' adds another copy.",
                   },
                   level: {
                     type: Type.NUMBER,
@@ -1077,7 +1194,7 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
                   },
                   instanceId: {
                     type: Type.STRING,
-                    description: "Instance ID (e.g. 'primary' or 'inst_abc123'). Defaults to 'primary' if omitted.",
+                    description: "Instance ID (e.g. 'primary' or 'inst_abc123'). Defaults to 'primary' if omitted; 'new' adds another copy.",
                   },
                   tier: {
                     type: Type.NUMBER,
@@ -1112,6 +1229,10 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
                     type: Type.INTEGER,
                     description: "Loadout ID assigned to this dock.",
                   },
+                  shipInstanceId: {
+                    type: Type.STRING,
+                    description: "Which owned copy of the ship is docked (ships[].instanceId). Omit for any copy.",
+                  },
                 },
               },
             },
@@ -1144,7 +1265,8 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
       properties: {
         export: {
           type: Type.OBJECT,
-          description: "Research tree snapshot object with schema_version, nodes, and state arrays.",
+          description: "Research tree snapshot object with schema_version, nodes, and state arrays. " +
+            "Nodes may list costs as [{ level, resource, amount }] for plan_research.",
         },
         payload_json: {
           type: Type.STRING,
@@ -1211,6 +1333,7 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
       "Record the Admiral's current resource inventory — ore, gas, crystal, parts, currency, or blueprints. " +
       "Use this when the Admiral tells you what resources they have " +
       "(e.g. 'I have 280 3-star Ore and 150 3-star Crystal'). " +
+      "Every update is also kept as a history snapshot, so regular updates improve income forecasts. " +
       "Each item requires a category and name; grade and quantity are optional.",
     parameters: {
       type: Type.OBJECT,
@@ -1323,6 +1446,11 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
           type: Type.INTEGER,
           description: "Optional variant ID to assign instead of the base loadout",
         },
+        ship_instance_id: {
+          type: Type.STRING,
+          description: "Optional instance ID when the user owns several copies of the loadout's ship " +
+            "(from the instances list in get_ship_detail). Omit to use any copy.",
+        },
         label: {
           type: Type.STRING,
           description: "Optional label for this dock assignment (e.g. 'PvP Dock', 'Mining')",
@@ -1359,6 +1487,10 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
           type: Type.INTEGER,
           description: "New dock number (optional — omit to keep current)",
         },
+        ship_instance_id: {
+          type: Type.STRING,
+          description: "Which owned copy of the ship to dock (optional). Pass an empty string to clear.",
+        },
         label: {
           type: Type.STRING,
           description: "Updated label",
@@ -1503,6 +1635,38 @@ export const FLEET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
       required: ["target_node_id"],
     },
   },
+  {
+    name: "plan_research",
+    description:
+      "Rank the Admiral's unfinished research against a goal and build an ordered research queue. " +
+      "Scores each reachable node by buff value for the goal (effect taxonomy weights) per remaining resource cost, " +
+      "queues prerequisites ahead of the nodes they unlock, and checks cumulative resource totals against inventory. " +
+      "Give exactly one goal: an intent key (e.g. 'mining-gas', 'pvp'), a ship (scored by its loadouts' intents), " +
+      "or an officer (scored for away-team stats). " +
+      "Use this when the Admiral asks 'what should I research next for mining?' or " +
+      "'which research helps my Enterprise most?'.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        intent_key: {
+          type: Type.STRING,
+          description: "Activity intent to optimize for (from list_intents)",
+        },
+        ship_id: {
+          type: Type.STRING,
+          description: "Reference ship ID to optimize research for",
+        },
+        officer_id: {
+          type: Type.STRING,
+          description: "Reference officer ID to optimize research for",
+        },
+        limit: {
+          type: Type.INTEGER,
+          description: "Max queue steps to return (default 10, max 50)",
+        },
+      },
+    },
+  },
   {
     name: "check_ops_unlocks",
     description:
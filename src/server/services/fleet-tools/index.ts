@@ -8,6 +8,7 @@
  */
 
 import { log } from "../../logger.js";
+import { emitChatStream } from "../chat-stream.js";
 import type { ToolEnv } from "./declarations.js";
 import { toolRegistry } from "./tool-registry.js";
 
@@ -16,6 +17,8 @@ export { FLEET_TOOL_DECLARATIONS, type ToolEnv, type ToolContext, type ResolvedS
 export { toolRegistry } from "./tool-registry.js";
 export { type ToolDef, type DepKey } from "./define-tool.js";
 export { toClaudeTools, type ClaudeToolDef } from "./claude-tool-adapter.js";
+export { toOpenAiTools, type OpenAiToolDef } from "./openai-tool-adapter.js";
+export { checkToolArgs } from "./tool-args.js";
 
 // ─── Dispatcher ─────────────────────────────────────────────
 
@@ -25,6 +28,7 @@ export { toClaudeTools, type ClaudeToolDef } from "./claude-tool-adapter.js";
  * Returns a plain object suitable for FunctionResponse.response.
  * Errors are caught and returned as { error: string } — never thrown —
  * so the model can gracefully inform the Admiral.
+ * Start and finish are reported to the chat stream as tool progress.
  */
 export async function executeFleetTool(
   name: string,
@@ -32,16 +36,19 @@ export async function executeFleetTool(
   ctx: ToolEnv,
 ): Promise<object> {
   const startTime = Date.now();
+  emitChatStream({ type: "tool", tool: name, phase: "started" });
 
   try {
     const result = await dispatchTool(name, args, ctx);
     const durationMs = Date.now() - startTime;
     log.gemini.debug({ tool: name, durationMs }, "tool:execute");
+    emitChatStream({ type: "tool", tool: name, phase: "completed", ok: !("error" in result) });
     return result;
   } catch (err) {
     const durationMs = Date.now() - startTime;
     const message = err instanceof Error ? err.message : String(err);
     log.gemini.warn({ tool: name, durationMs, err: message }, "tool:error");
+    emitChatStream({ type: "tool", tool: name, phase: "completed", ok: false });
     return { error: `Tool execution failed: ${message}` };
   }
 }
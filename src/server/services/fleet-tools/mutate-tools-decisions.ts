@@ -0,0 +1,110 @@
+/**
+ * fleet-tools/mutate-tools-decisions.ts — Fleet decision recording
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * record_decision: Aria remembers an explicit decision or standing
+ * preference (stores/decision-store.ts). trust:auto — the Admiral can
+ * review, edit and delete decisions in settings.
+ */
+
+import type { ToolEnv } from "./declarations.js";
+import type { CreateDecisionInput, DecisionKind } from "../../stores/decision-store.js";
+import { VALID_DECISION_KINDS, DecisionLimitError } from "../../stores/decision-store.js";
+import { str } from "./mutate-tools-helpers.js";
+
+// ─── Record Decision ────────────────────────────────────────
+
+export async function recordDecisionTool(
+  args: Record<string, unknown>,
+  ctx: ToolEnv,
+): Promise<object> {
+  const decisionStore = ctx.deps.decisionStore;
+  if (!decisionStore) {
+    return { tool: "record_decision", error: "Decision store not available." };
+  }
+
+  const kind = str(args, "kind") as DecisionKind;
+  if (!VALID_DECISION_KINDS.includes(kind)) {
+    return {
+      tool: "record_decision",
+      error: `Invalid kind. Must be one of: ${VALID_DECISION_KINDS.join(", ")}.`,
+      input: { kind: args.kind ?? null },
+    };
+  }
+
+  const statement = str(args, "statement");
+  if (!statement) {
+    return { tool: "record_decision", error: "statement is required." };
+  }
+
+  const officerId = str(args, "officer_id");
+  const shipId = str(args, "ship_id");
+  if (officerId && shipId) {
+    return { tool: "record_decision", error: "Give officer_id or ship_id, not both." };
+  }
+
+  const assumesOwnership = args.assumes_ownership == null ? null : str(args, "assumes_ownership");
+  if (assumesOwnership !== null && assumesOwnership !== "owned" && assumesOwnership !== "unowned") {
+    return {
+      tool: "record_decision",
+      error: "assumes_ownership must be 'owned' or 'unowned'.",
+      input: { assumes_ownership: args.assumes_ownership },
+    };
+  }
+
+  const input: CreateDecisionInput = { kind, statement, source: "chat" };
+  if (officerId || shipId) {
+    const subject = officerId
+      ? await ctx.deps.referenceStore?.getOfficer(officerId)
+      : await ctx.deps.referenceStore?.getShip(shipId);
+    if (!subject) {
+      const label = officerId ? "Officer" : "Ship";
+      return {
+        tool: "record_decision",
+        error: `${label} not found: ${officerId || shipId}. Resolve the name with ${officerId ? "search_officers" : "search_ships"} first.`,
+      };
+    }
+    input.subjectType = officerId ? "officer" : "ship";
+    input.subjectRefId = subject.id;
+    input.subjectName = subject.name;
+    input.assumesOwnership = assumesOwnership;
+    input.assumesTarget = args.assumes_target == null ? null : Boolean(args.assumes_target);
+  }
+
+  // Restating a decision about the same subject replaces it rather than piling up
+  const existing = input.subjectRefId
+    ? (await decisionStore.list({ status: "active" })).find(
+      (d) => d.kind === kind && d.subjectType === input.subjectType && d.subjectRefId === input.subjectRefId,
+    )
+    : undefined;
+
+  try {
+    const decision = existing
+      ? await decisionStore.update(existing.id, input)
+      : await decisionStore.create(input);
+    if (!decision) {
+      return { tool: "record_decision", error: "Failed to persist decision." };
+    }
+    return {
+      tool: "record_decision",
+      recorded: true,
+      replaced: !!existing,
+      decision: {
+        id: decision.id,
+        kind: decision.kind,
+        statement: decision.statement,
+        subjectType: decision.subjectType,
+        subjectName: decision.subjectName,
+        assumesOwnership: decision.assumesOwnership,
+        assumesTarget: decision.assumesTarget,
+      },
+      nextSteps: ["The Admiral can review or edit remembered decisions under Settings → Fleet Decisions."],
+    };
+  } catch (err) {
+    if (err instanceof DecisionLimitError) {
+      return { tool: "record_decision", error: err.message };
+    }
+    throw err;
+  }
+}
@@ -9,7 +9,21 @@
  */
 
 import type { ToolEnv } from "./declarations.js";
+import type { CrewStore } from "../../stores/crew-store.js";
 import { str, validNotes } from "./mutate-tools-helpers.js";
+import { MAX_INSTANCE_ID_LEN } from "../../stores/overlay-store.js";
+import { checkPlanShipInstance } from "../plan-ship-instance.js";
+
+/** Error message when the instance is not one of the plan item's ship, else null. */
+async function shipInstanceError(
+  ctx: ToolEnv,
+  crewStore: CrewStore,
+  item: { loadoutId?: number | null; variantId?: number | null },
+  shipInstanceId: string,
+): Promise<string | null> {
+  if (!ctx.deps.overlayStore) return "Ship instances are not available, so ship_instance_id cannot be set.";
+  return checkPlanShipInstance(crewStore, ctx.deps.overlayStore, item, shipInstanceId);
+}
 
 // ─── Assign Dock ────────────────────────────────────────────
 
@@ -43,6 +57,11 @@ export async function assignDockTool(
 
   const label = str(args, "label") || undefined;
   const notes = validNotes(args);
+  const shipInstanceId = str(args, "ship_instance_id").slice(0, MAX_INSTANCE_ID_LEN) || undefined;
+  if (shipInstanceId) {
+    const error = await shipInstanceError(ctx, ctx.deps.crewStore, { loadoutId, variantId }, shipInstanceId);
+    if (error) return { tool: "assign_dock", error, input: { ship_instance_id: shipInstanceId } };
+  }
 
   // Ensure the dock slot exists
   await ctx.deps.crewStore.upsertDock(dockNumber, {
@@ -65,6 +84,7 @@ export async function assignDockTool(
     label: label ?? `Dock ${dockNumber} assignment`,
     isActive: true,
     notes,
+    shipInstanceId,
   });
 
   return {
@@ -75,6 +95,7 @@ export async function assignDockTool(
       dockNumber: planItem.dockNumber,
       loadoutId: planItem.loadoutId,
       variantId: planItem.variantId,
+      shipInstanceId: planItem.shipInstanceId,
       label: planItem.label,
     },
     nextSteps: [
@@ -118,8 +139,24 @@ export async function updateDockTool(
   if (args.dock_number != null) fields.dockNumber = Number(args.dock_number);
   if (args.label != null) fields.label = str(args, "label");
   if (args.is_active != null) fields.isActive = Boolean(args.is_active);
+  if (args.ship_instance_id != null) {
+    fields.shipInstanceId = str(args, "ship_instance_id").slice(0, MAX_INSTANCE_ID_LEN) || null;
+  }
   fields.notes = validNotes(args);
 
+  // A kept instance must still match when the loadout or variant changes
+  const shipChanges = fields.loadoutId !== undefined || fields.variantId !== undefined;
+  const shipInstanceId = fields.shipInstanceId !== undefined
+    ? fields.shipInstanceId as string | null
+    : shipChanges ? existing.shipInstanceId : null;
+  if (shipInstanceId) {
+    const item = shipChanges
+      ? { loadoutId: fields.loadoutId as number | undefined, variantId: fields.variantId as number | undefined }
+      : existing;
+    const error = await shipInstanceError(ctx, ctx.deps.crewStore, item, shipInstanceId);
+    if (error) return { tool: "update_dock", error, input: { plan_item_id: planItemId, ship_instance_id: shipInstanceId } };
+  }
+
   const updated = await ctx.deps.crewStore.updatePlanItem(planItemId, fields);
   if (!updated) {
     return { tool: "update_dock", error: `Failed to update plan item ${planItemId}.` };
@@ -133,6 +170,7 @@ export async function updateDockTool(
       dockNumber: updated.dockNumber,
       loadoutId: updated.loadoutId,
       variantId: updated.variantId,
+      shipInstanceId: updated.shipInstanceId,
       label: updated.label,
       isActive: updated.isActive,
     },
@@ -24,6 +24,8 @@ export interface SyncOverlayDockInput {
   number?: number;
   shipId?: string;
   loadoutId?: number;
+  /** Which owned copy of the ship is docked (ADR-051) */
+  shipInstanceId?: string;
 }
 
 export interface MajelGameExport {
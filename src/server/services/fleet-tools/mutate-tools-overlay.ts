@@ -10,7 +10,7 @@
 
 import type { ToolEnv } from "./declarations.js";
 import type { OwnershipState, SetShipOverlayInput, SetOfficerOverlayInput } from "../../stores/overlay-store.js";
-import { VALID_OWNERSHIP_STATES } from "../../stores/overlay-store.js";
+import { VALID_OWNERSHIP_STATES, resolveInstanceId } from "../../stores/overlay-store.js";
 import { str, MAX_NAME_LEN, MAX_NOTES_LEN } from "./mutate-tools-helpers.js";
 
 // ─── Set Ship Overlay ───────────────────────────────────────
@@ -37,7 +37,7 @@ export async function setShipOverlayTool(
   }
 
   const input: SetShipOverlayInput = { refId: shipId };
-  if (args.instance_id != null) input.instanceId = str(args, "instance_id");
+  if (args.instance_id != null) input.instanceId = resolveInstanceId(str(args, "instance_id"));
   if (args.ownership_state != null) input.ownershipState = args.ownership_state as OwnershipState;
   if (args.tier != null) input.tier = Number(args.tier);
   if (args.level != null) input.level = Number(args.level);
@@ -88,7 +88,7 @@ export async function setOfficerOverlayTool(
   }
 
   const input: SetOfficerOverlayInput = { refId: officerId };
-  if (args.instance_id != null) input.instanceId = str(args, "instance_id");
+  if (args.instance_id != null) input.instanceId = resolveInstanceId(str(args, "instance_id"));
   if (args.ownership_state != null) input.ownershipState = args.ownership_state as OwnershipState;
   if (args.level != null) input.level = Number(args.level);
   if (args.rank != null) input.rank = str(args, "rank");
@@ -9,9 +9,12 @@
  */
 
 import type { ToolEnv } from "./declarations.js";
+import { publishImportCommitted } from "../fleet-events.js";
 import type { OwnershipState, SetShipOverlayInput, SetOfficerOverlayInput } from "../../stores/overlay-store.js";
+import { resolveInstanceId } from "../../stores/overlay-store.js";
 import type {
   ResearchBuff,
+  ResearchCost,
   ResearchNodeInput,
   ResearchStateInput,
   ReplaceResearchSnapshotInput,
@@ -207,6 +210,7 @@ interface ResearchNodeExport {
   max_level?: unknown;
   dependencies?: unknown;
   buffs?: unknown;
+  costs?: unknown;
 }
 
 interface ResearchStateExport {
@@ -299,6 +303,29 @@ function parseResearchExport(args: Record<string, unknown>): { data?: ReplaceRes
       });
     }
 
+    const costsRaw = Array.isArray(nodeEntry.costs) ? nodeEntry.costs : [];
+    const costs: ResearchCost[] = [];
+    for (const cost of costsRaw) {
+      const entry = (cost && typeof cost === "object" ? cost : {}) as Record<string, unknown>;
+      const level = entry.level;
+      const resource = entry.resource;
+      const amount = entry.amount;
+      if (
+        typeof level !== "number"
+        || !Number.isInteger(level)
+        || level < 1
+        || level > maxLevel
+        || typeof resource !== "string"
+        || !resource.trim()
+        || typeof amount !== "number"
+        || !Number.isFinite(amount)
+        || amount < 0
+      ) {
+        return { error: `Node ${nodeId} has invalid cost fields.` };
+      }
+      costs.push({ level, resource: resource.trim(), amount });
+    }
+
     nodes.push({
       nodeId,
       tree,
@@ -306,6 +333,7 @@ function parseResearchExport(args: Record<string, unknown>): { data?: ReplaceRes
       maxLevel,
       dependencies,
       buffs,
+      costs,
     });
   }
 
@@ -412,6 +440,7 @@ export async function syncOverlayTool(
     dockNumber: number;
     fromLoadoutId: number | null;
     toLoadoutId: number | null;
+    shipInstanceId?: string;
     action: "assigned" | "reassigned" | "cleared";
   }> = [];
   let skippedUnknownOfficerRefs = 0;
@@ -424,7 +453,7 @@ export async function syncOverlayTool(
       continue;
     }
     const refId = normalizeOfficerRefId(entry.refId);
-    const instanceId = typeof entry.instanceId === "string" && entry.instanceId ? entry.instanceId : "primary";
+    const instanceId = resolveInstanceId(typeof entry.instanceId === "string" && entry.instanceId ? entry.instanceId : undefined);
 
     if (ctx.deps.referenceStore) {
       const exists = await ctx.deps.referenceStore.getOfficer(refId);
@@ -463,7 +492,7 @@ export async function syncOverlayTool(
       continue;
     }
     const refId = normalizeShipRefId(entry.refId);
-    const instanceId = typeof entry.instanceId === "string" && entry.instanceId ? entry.instanceId : "primary";
+    const instanceId = resolveInstanceId(typeof entry.instanceId === "string" && entry.instanceId ? entry.instanceId : undefined);
 
     if (ctx.deps.referenceStore) {
       const exists = await ctx.deps.referenceStore.getShip(refId);
@@ -504,11 +533,11 @@ export async function syncOverlayTool(
         ctx.deps.crewStore.listLoadouts(),
       ]);
 
-      const dockItemMap = new Map<number, { id: number; loadoutId: number | null }>();
+      const dockItemMap = new Map<number, { id: number; loadoutId: number | null; shipInstanceId: string | null }>();
       for (const item of activePlanItems) {
         if (item.dockNumber == null || item.awayOfficers) continue;
         if (!dockItemMap.has(item.dockNumber)) {
-          dockItemMap.set(item.dockNumber, { id: item.id, loadoutId: item.loadoutId });
+          dockItemMap.set(item.dockNumber, { id: item.id, loadoutId: item.loadoutId, shipInstanceId: item.shipInstanceId ?? null });
         }
       }
 
@@ -548,9 +577,13 @@ export async function syncOverlayTool(
           desiredLoadoutId = matchedLoadoutId;
         }
 
+        const desiredInstanceId = desiredLoadoutId != null && typeof entry.shipInstanceId === "string" && entry.shipInstanceId
+          ? entry.shipInstanceId
+          : null;
         const existing = dockItemMap.get(dockNumber);
         const currentLoadoutId = existing?.loadoutId ?? null;
-        if (currentLoadoutId === desiredLoadoutId) continue;
+        const currentInstanceId = existing?.shipInstanceId ?? null;
+        if (currentLoadoutId === desiredLoadoutId && currentInstanceId === desiredInstanceId) continue;
 
         const action: "assigned" | "reassigned" | "cleared" =
           currentLoadoutId == null
@@ -563,6 +596,7 @@ export async function syncOverlayTool(
           dockNumber,
           fromLoadoutId: currentLoadoutId,
           toLoadoutId: desiredLoadoutId,
+          ...(desiredInstanceId ? { shipInstanceId: desiredInstanceId } : {}),
           action,
         });
 
@@ -571,12 +605,14 @@ export async function syncOverlayTool(
             await ctx.deps.crewStore.updatePlanItem(existing.id, {
               dockNumber,
               loadoutId: desiredLoadoutId,
+              shipInstanceId: desiredInstanceId,
               source: "manual",
             });
           } else if (desiredLoadoutId != null) {
             await ctx.deps.crewStore.createPlanItem({
               dockNumber,
               loadoutId: desiredLoadoutId,
+              shipInstanceId: desiredInstanceId,
               source: "manual",
               label: "sync_overlay import",
             });
@@ -662,6 +698,11 @@ export async function syncOverlayTool(
       },
     });
     receiptId = receipt.id;
+    publishImportCommitted(ctx.userId, receipt, {
+      officers: officerReceiptChanges.length,
+      ships: shipReceiptChanges.length,
+      docks: dockChanges.length,
+    });
   }
 
   const unmatchedOfficerInstances = [...officerMap.keys()].filter((key) => !matchedOfficerKeys.has(key));
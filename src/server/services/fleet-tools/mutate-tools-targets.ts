@@ -3,7 +3,8 @@
  *
  * Majel — STFC Fleet Intelligence System
  *
- * Create, update, complete targets + silent delta/feedback/restatement logging.
+ * Create, update, complete targets (including prerequisite links) +
+ * silent delta/feedback/restatement logging.
  * Extracted from mutate-tools.ts (#193).
  */
 
@@ -11,8 +12,18 @@ import type { ToolEnv } from "./declarations.js";
 import type { TargetStatus, TargetType, UpdateTargetInput } from "../../stores/target-store.js";
 import { VALID_TARGET_TYPES, VALID_TARGET_STATUSES } from "../../stores/target-store.js";
 import { log } from "../../logger.js";
+import { publishTargetAchieved } from "../fleet-events.js";
 import { str, MAX_NOTES_LEN } from "./mutate-tools-helpers.js";
 
+/** Positive integer IDs from an array arg; null when any entry is invalid. */
+function targetIdList(args: Record<string, unknown>, key: string): number[] | null {
+  const raw = args[key];
+  if (raw == null) return [];
+  if (!Array.isArray(raw)) return null;
+  const ids = raw.map((value) => Number(value));
+  return ids.every((id) => Number.isInteger(id) && id > 0) ? [...new Set(ids)] : null;
+}
+
 // ─── Create Target ──────────────────────────────────────────
 
 export async function createTargetTool(
@@ -81,6 +92,25 @@ export async function createTargetTool(
     };
   }
 
+  const dependsOn = targetIdList(args, "depends_on");
+  if (!dependsOn) {
+    return {
+      tool: "create_target",
+      error: "depends_on must be a list of target IDs.",
+      input: { depends_on: args.depends_on },
+    };
+  }
+  for (const id of dependsOn) {
+    if (!(await ctx.deps.targetStore.get(id))) {
+      return {
+        tool: "create_target",
+        error: `Prerequisite target not found with ID ${id}.`,
+        input: { depends_on: dependsOn },
+        nextSteps: ["Use list_targets to find existing target IDs."],
+      };
+    }
+  }
+
   const reason = str(args, "reason") || null;
   const targetTier = args.target_tier != null ? Number(args.target_tier) : null;
   const targetLevel = args.target_level != null ? Number(args.target_level) : null;
@@ -96,6 +126,10 @@ export async function createTargetTool(
     targetLevel,
     targetRank,
   });
+  // A brand-new target has no dependents, so these edges can't close a cycle
+  for (const id of dependsOn) {
+    await ctx.deps.targetStore.addDependency(target.id, id);
+  }
 
   return {
     tool: "create_target",
@@ -108,6 +142,7 @@ export async function createTargetTool(
       priority: target.priority,
       reason: target.reason,
       status: target.status,
+      dependsOn,
     },
     nextSteps: [
       "Use list_targets to see all current targets.",
@@ -200,14 +235,52 @@ export async function updateTargetTool(
     hasUpdates = true;
   }
 
+  const addDependsOn = targetIdList(args, "depends_on");
+  const removeDependsOn = targetIdList(args, "remove_depends_on");
+  if (!addDependsOn || !removeDependsOn) {
+    return {
+      tool: "update_target",
+      error: "depends_on and remove_depends_on must be lists of target IDs.",
+      input: { target_id: targetId, depends_on: args.depends_on ?? null, remove_depends_on: args.remove_depends_on ?? null },
+    };
+  }
+  if (addDependsOn.length > 0 || removeDependsOn.length > 0) hasUpdates = true;
+
   if (!hasUpdates) {
     return {
       tool: "update_target",
-      error: "No fields to update — provide at least one of: priority, status, reason, target_tier, target_level, target_rank.",
+      error: "No fields to update — provide at least one of: priority, status, reason, target_tier, target_level, target_rank, depends_on, remove_depends_on.",
       input: { target_id: targetId },
     };
   }
 
+  for (const id of removeDependsOn) {
+    await ctx.deps.targetStore.removeDependency(targetId, id);
+  }
+  const added: number[] = [];
+  for (const id of addDependsOn) {
+    try {
+      const dependency = await ctx.deps.targetStore.addDependency(targetId, id);
+      if (!dependency) {
+        return {
+          tool: "update_target",
+          error: `Prerequisite target not found with ID ${id}.`,
+          input: { target_id: targetId, depends_on: addDependsOn },
+          dependenciesAdded: added,
+        };
+      }
+      added.push(id);
+    } catch (err) {
+      return {
+        tool: "update_target",
+        error: err instanceof Error ? err.message : String(err),
+        input: { target_id: targetId, depends_on: addDependsOn },
+        dependenciesAdded: added,
+        nextSteps: ["Use list_targets to review the existing dependency chain."],
+      };
+    }
+  }
+
   const updated = await ctx.deps.targetStore.update(targetId, fields);
   if (!updated) {
     return { tool: "update_target", error: `Failed to update target ${targetId}.` };
@@ -224,6 +297,9 @@ export async function updateTargetTool(
       status: updated.status,
       reason: updated.reason,
     },
+    ...(added.length > 0 || removeDependsOn.length > 0
+      ? { dependencies: { added, removed: removeDependsOn } }
+      : {}),
     nextSteps: [
       "Use list_targets to see updated target list.",
       updated.status === "abandoned"
@@ -287,6 +363,7 @@ export async function completeTargetTool(
   if (!achieved) {
     return { tool: "complete_target", error: `Failed to mark target ${targetId} as achieved.` };
   }
+  void publishTargetAchieved(ctx.userId, achieved, ctx.deps.referenceStore);
 
   return {
     tool: "complete_target",
@@ -27,6 +27,11 @@ export {
   recordGoalRestatementTool,
 } from "./mutate-tools-targets.js";
 
+// ── Fleet decisions ─────────────────────────────────────────
+export {
+  recordDecisionTool,
+} from "./mutate-tools-decisions.js";
+
 // ── Bulk import sync ────────────────────────────────────────
 export {
   syncOverlayTool,
@@ -0,0 +1,36 @@
+/**
+ * openai-tool-adapter.ts — Gemini → OpenAI function-calling converter.
+ *
+ * OpenAI-compatible servers (llama.cpp, Ollama, vLLM) take tools as
+ * `{ type: "function", function: { name, description, parameters } }`
+ * where `parameters` is plain JSON Schema — the same schema the Claude
+ * adapter already produces, just wrapped differently.
+ */
+
+import type { FunctionDeclaration } from "@google/genai";
+import { toClaudeTools, type ClaudeJsonSchema } from "./claude-tool-adapter.js";
+
+// ─── OpenAI Tool Types ──────────────────────────────────────
+
+export interface OpenAiToolDef {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: ClaudeJsonSchema;
+  };
+}
+
+// ─── Converter ──────────────────────────────────────────────
+
+/** Convert Gemini FunctionDeclarations to OpenAI chat-completions tools. */
+export function toOpenAiTools(declarations: FunctionDeclaration[]): OpenAiToolDef[] {
+  return toClaudeTools(declarations).map((tool) => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.input_schema,
+    },
+  }));
+}
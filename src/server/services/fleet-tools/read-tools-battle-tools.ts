@@ -1,24 +1,48 @@
 import type { ToolEnv } from "./declarations.js";
-import { parseBattleLog, mapOfficerIdsToAbilities } from "./read-tools-data-helpers.js";
+import { parseBattleLog, mapOfficerIdsToAbilities, sumDamageByType, type ParsedBattleLog } from "./read-tools-data-helpers.js";
 import { calculateResearchAdvisory, extractRelevantBuffs } from "./read-tools-research-helpers.js";
+import { classifyBattleFailure, enrichBattleContext, labelBattleAnalytics, parseBattleContext } from "../battle-log.js";
 
-export async function analyzeBattleLog(
+/**
+ * Load the battle log for a tool call: a stored report when report_id is
+ * given, otherwise the inline battle_log payload. Inline logs are saved to
+ * battle history so they count toward get_battle_analytics.
+ */
+async function resolveBattleLog(
   battleLog: unknown,
+  reportId: unknown,
   ctx: ToolEnv,
-): Promise<object> {
+): Promise<{ log: ParsedBattleLog; reportId: number | null } | { error: string }> {
+  if (reportId != null && reportId !== "") {
+    const id = Number(reportId);
+    if (!Number.isInteger(id) || id < 1) return { error: "report_id must be a positive integer." };
+    if (!ctx.deps.battleReportStore) return { error: "Battle report store not available." };
+    const report = await ctx.deps.battleReportStore.get(id);
+    if (!report) return { error: `Battle report not found: ${id}` };
+    return { log: report.log, reportId: id };
+  }
   const parsed = parseBattleLog(battleLog);
   if (!parsed) {
     return { error: "Invalid battle_log payload. Expected object with non-empty rounds array." };
   }
+  if (!ctx.deps.battleReportStore) return { log: parsed, reportId: null };
+  const context = await enrichBattleContext(parseBattleContext(battleLog), ctx.deps.referenceStore ?? null);
+  const report = await ctx.deps.battleReportStore.create({ format: "json", source: "chat", log: parsed, context });
+  return { log: parsed, reportId: report.id };
+}
+
+export async function analyzeBattleLog(
+  battleLog: unknown,
+  ctx: ToolEnv,
+  reportId?: unknown,
+): Promise<object> {
+  const resolved = await resolveBattleLog(battleLog, reportId, ctx);
+  if ("error" in resolved) return resolved;
+  const parsed = resolved.log;
 
   const roundAnalysis = parsed.rounds.map((round) => {
     const damageReceived = round.damageReceived.reduce((sum, entry) => sum + entry.amount, 0);
     const damageDealt = round.damageDealt.reduce((sum, entry) => sum + entry.amount, 0);
-    const incomingByType = new Map<string, number>();
-    for (const event of round.damageReceived) {
-      const key = event.type ?? "unknown";
-      incomingByType.set(key, (incomingByType.get(key) ?? 0) + event.amount);
-    }
 
     return {
       round: round.round,
@@ -29,23 +53,13 @@ export async function analyzeBattleLog(
       shieldAfter: round.shieldAfter,
       destroyed: round.destroyed,
       abilityTriggers: round.abilityTriggers,
-      incomingByType: Array.from(incomingByType.entries())
-        .sort((a, b) => b[1] - a[1])
-        .map(([type, amount]) => ({ type, amount })),
+      incomingByType: sumDamageByType(round.damageReceived),
     };
   });
 
-  const failureRound = roundAnalysis
-    .filter((row) => row.destroyed)
-    .sort((a, b) => a.round - b.round)[0]
-    ?? [...roundAnalysis].sort((a, b) => b.damageReceived - a.damageReceived)[0];
-
-  const topIncomingType = (failureRound.incomingByType[0]?.type ?? "unknown").toLowerCase();
-  const likelyCause = topIncomingType.includes("kinetic")
-    ? "kinetic_spike_overwhelmed_mitigation"
-    : topIncomingType.includes("energy")
-      ? "energy_spike_broke_shields"
-      : "sustained_damage_exceeded_defense";
+  const failure = classifyBattleFailure(parsed);
+  const failureRound = roundAnalysis[parsed.rounds.indexOf(failure.round)];
+  const likelyCause = failure.likelyCause;
 
   const allTriggered = Array.from(new Set(roundAnalysis.flatMap((row) => row.abilityTriggers))).slice(0, 10);
   const officerRefs = await mapOfficerIdsToAbilities(
@@ -59,6 +73,7 @@ export async function analyzeBattleLog(
 
   return {
     battle: {
+      reportId: resolved.reportId,
       battleId: parsed.battleId,
       mode: parsed.mode,
       rounds: parsed.rounds.length,
@@ -92,8 +107,9 @@ export async function analyzeBattleLog(
 export async function suggestCounter(
   battleLog: unknown,
   ctx: ToolEnv,
+  reportId?: unknown,
 ): Promise<object> {
-  const analysis = await analyzeBattleLog(battleLog, ctx) as Record<string, unknown>;
+  const analysis = await analyzeBattleLog(battleLog, ctx, reportId) as Record<string, unknown>;
   if (analysis.error) return analysis;
 
   const failure = analysis.failurePoint as Record<string, unknown>;
@@ -172,4 +188,54 @@ export async function suggestCounter(
       researchPriority: researchContext.priority ?? "none",
     },
   };
-}
\ No newline at end of file
+}
+
+const MAX_ANALYTICS_DAYS = 365;
+
+/**
+ * Win rates and loss patterns across stored battle reports: by loadout,
+ * hostile faction and hull type, the most frequent failure causes, and
+ * which abilities actually fired.
+ */
+export async function getBattleAnalytics(
+  mode: unknown,
+  days: unknown,
+  ctx: ToolEnv,
+): Promise<object> {
+  if (!ctx.deps.battleReportStore) return { error: "Battle report store not available." };
+  let since: string | undefined;
+  if (days != null && days !== "") {
+    const lookback = Number(days);
+    if (!Number.isInteger(lookback) || lookback < 1 || lookback > MAX_ANALYTICS_DAYS) {
+      return { error: `days must be an integer between 1 and ${MAX_ANALYTICS_DAYS}.` };
+    }
+    since = new Date(Date.now() - lookback * 86_400_000).toISOString();
+  }
+  const modeFilter = typeof mode === "string" && mode.trim() ? mode.trim() : undefined;
+
+  const analytics = await labelBattleAnalytics(
+    await ctx.deps.battleReportStore.analytics({ mode: modeFilter, since }),
+    ctx.deps.crewStore ?? null,
+  );
+  if (analytics.fights === 0) {
+    return {
+      ...analytics,
+      filters: { mode: modeFilter ?? null, days: since ? Number(days) : null },
+      note: "No stored battles in range. Import reports in the Fleet view or analyze a battle log in chat to build history.",
+    };
+  }
+
+  const taggedWith = (buckets: Array<{ key: string | null; fights: number }>) =>
+    buckets.filter((bucket) => bucket.key != null).reduce((sum, bucket) => sum + bucket.fights, 0);
+
+  return {
+    ...analytics,
+    filters: { mode: modeFilter ?? null, days: since ? Number(days) : null },
+    topFailureCause: analytics.failureCauses[0]?.likelyCause ?? null,
+    dataQuality: {
+      fightsWithLoadout: taggedWith(analytics.byLoadout),
+      fightsWithOpponentFaction: taggedWith(analytics.byOpponentFaction),
+      fightsWithOpponentHullType: taggedWith(analytics.byOpponentHullType),
+    },
+  };
+}
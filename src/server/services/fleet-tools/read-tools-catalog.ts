@@ -213,6 +213,17 @@ export async function getShipDetail(shipId: string, ctx: ToolEnv): Promise<objec
         targetPriority: overlay.targetPriority,
       };
     }
+    // ADR-051: surface every owned copy so dock tools can pick one
+    const instances = await ctx.deps.overlayStore.listShipInstances(shipId);
+    if (instances.length > 1) {
+      result.instances = instances.map((inst) => ({
+        instanceId: inst.instanceId,
+        ownershipState: inst.ownershipState,
+        tier: inst.tier,
+        level: inst.level,
+        power: inst.power,
+      }));
+    }
   }
 
   return result;
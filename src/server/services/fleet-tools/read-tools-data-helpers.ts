@@ -92,6 +92,18 @@ export function parseBattleDamageEvents(value: unknown): BattleDamageEvent[] {
   return events;
 }
 
+/** Total damage per type, largest first. Untyped events count as "unknown". */
+export function sumDamageByType(events: BattleDamageEvent[]): Array<{ type: string; amount: number }> {
+  const byType = new Map<string, number>();
+  for (const event of events) {
+    const key = event.type ?? "unknown";
+    byType.set(key, (byType.get(key) ?? 0) + event.amount);
+  }
+  return Array.from(byType.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([type, amount]) => ({ type, amount }));
+}
+
 export function parseBattleLog(input: unknown): ParsedBattleLog | null {
   const payload = typeof input === "string" ? parseJsonOrFallback<unknown>(input, null) : input;
   if (!payload || typeof payload !== "object") return null;
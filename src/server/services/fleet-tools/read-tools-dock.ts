@@ -232,5 +232,77 @@ export async function getArmadaContext(
     note: ships.length === 0
       ? "No assigned ships found. Use assign_dock to set up dock assignments first."
       : undefined,
+    alliance: await getAllianceArmadaContext(ctx),
+  };
+}
+
+/**
+ * Alliance side of get_armada_context: scheduled armadas with their sign-ups,
+ * and the fleets of members who opted in to sharing. Undefined outside an alliance.
+ */
+async function getAllianceArmadaContext(ctx: ToolEnv): Promise<object | undefined> {
+  const { allianceStore, allianceRoster } = ctx.deps;
+  if (!allianceStore) return undefined;
+  const membership = await allianceStore.getMembership();
+  if (!membership) return undefined;
+
+  const [armadas, fleets] = await Promise.all([
+    allianceStore.listArmadas({ upcoming: true }),
+    allianceRoster?.sharedFleets() ?? null,
+  ]);
+  const memberFleets = fleets?.members ?? [];
+  const [shipNames, officerNames] = await Promise.all([
+    buildShipNameMap(memberFleets.flatMap((m) => m.ships.map((s) => s.refId)), ctx),
+    buildOfficerNameMap(memberFleets.flatMap((m) => m.officers.map((o) => o.refId)), ctx),
+  ]);
+
+  return {
+    name: membership.alliance.name,
+    tag: membership.alliance.tag,
+    yourRole: membership.role,
+    memberCount: membership.memberCount,
+    upcomingArmadas: armadas.map((a) => ({
+      armadaId: a.id,
+      name: a.name,
+      hostile: a.hostileId ? { hostileId: a.hostileId, name: a.hostileName } : null,
+      startsAt: a.startsAt,
+      shipsNeeded: a.minParticipants,
+      signedUp: a.signups.length,
+      stillNeeded: a.minParticipants != null ? Math.max(0, a.minParticipants - a.signups.length) : null,
+      youSignedUp: a.signups.some((s) => s.userId === ctx.userId),
+      signups: a.signups.map((s) => ({
+        member: s.displayName,
+        shipName: s.shipName,
+        loadoutName: s.loadoutName,
+        dockNumber: s.dockNumber,
+        ready: s.checkedAt != null ? s.issues.length === 0 : null,
+        issues: s.issues.map((i) => i.detail),
+        note: s.note,
+      })),
+    })),
+    memberFleets: memberFleets.map((m) => ({
+      member: m.displayName,
+      role: m.role,
+      totalOwnedShips: m.totalShips,
+      totalOwnedOfficers: m.totalOfficers,
+      strongestShips: m.ships.map((s) => ({
+        shipId: s.refId,
+        shipName: shipNames.get(s.refId) ?? null,
+        tier: s.tier,
+        level: s.level,
+        power: s.power,
+      })),
+      strongestOfficers: m.officers.map((o) => ({
+        officerId: o.refId,
+        officerName: officerNames.get(o.refId) ?? null,
+        level: o.level,
+        rank: o.rank,
+        power: o.power,
+      })),
+    })),
+    membersNotSharing: fleets?.notSharing ?? [],
+    note: memberFleets.length === 0
+      ? "No other alliance members share their fleet yet. Members can opt in from the Alliance panel."
+      : undefined,
   };
 }
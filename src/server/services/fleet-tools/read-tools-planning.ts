@@ -5,8 +5,12 @@
 import type { ToolEnv } from "./declarations.js";
 import { SEED_INTENTS, type SeedIntent } from "../../types/crew-types.js";
 import { buildOfficerNameMap } from "./read-tools-formatting.js";
+import { compareSolvers } from "../plan-solver.js";
+import { loadSubstitutionSource } from "../crew-substitution.js";
+import { describeWindow } from "../plan-windows.js";
+import type { CrewStore } from "../../stores/crew-store.js";
 
-export async function validatePlan(ctx: ToolEnv): Promise<object> {
+export async function validatePlan(ctx: ToolEnv, compareSolverModes = false): Promise<object> {
   if (!ctx.deps.crewStore) {
     return { error: "Crew system not available." };
   }
@@ -33,6 +37,35 @@ export async function validatePlan(ctx: ToolEnv): Promise<object> {
     totalDocks: state.docks.length,
     totalPlanItems: planItems.length,
     totalConflicts: state.conflicts.length,
+    ...(compareSolverModes ? { solverComparison: await buildSolverComparison(ctx, ctx.deps.crewStore) } : {}),
+  };
+}
+
+async function buildSolverComparison(ctx: ToolEnv, crewStore: CrewStore): Promise<object> {
+  // Same substitution data as /api/crew/plan/solve, so Aria and the REST route agree
+  const substitutes = await loadSubstitutionSource({
+    effectStore: ctx.deps.effectStore ?? null,
+    overlayStore: ctx.deps.overlayStore ?? null,
+    referenceStore: ctx.deps.referenceStore ?? null,
+  });
+  const comparison = await compareSolvers(crewStore, { substitutes });
+  const greedyById = new Map(comparison.greedy.assignments.map((a) => [a.planItemId, a]));
+  return {
+    summary: comparison.summary,
+    greedyCoverage: comparison.greedy.coverage,
+    optimalCoverage: comparison.optimal.coverage,
+    coverageGain: comparison.coverageGain,
+    differences: comparison.optimal.assignments
+      .filter((a) => comparison.changedPlanItemIds.includes(a.planItemId))
+      .map((a) => {
+        const greedy = greedyById.get(a.planItemId);
+        return {
+          planItemId: a.planItemId,
+          label: a.planItemLabel,
+          greedy: greedy ? { action: greedy.action, dockNumber: greedy.dockNumber, explanation: greedy.explanation } : null,
+          optimal: { action: a.action, dockNumber: a.dockNumber, explanation: a.explanation },
+        };
+      }),
   };
 }
 
@@ -54,6 +87,7 @@ export async function listPlanItems(ctx: ToolEnv): Promise<object> {
       isActive: p.isActive,
       source: p.source,
       awayOfficers: p.awayOfficers,
+      window: p.window ? describeWindow(p.window) : null,
     })),
     totalItems: items.length,
   };
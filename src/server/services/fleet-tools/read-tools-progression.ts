@@ -16,6 +16,13 @@ import {
   inferDefaultDailyRate,
   resolveOverrideDailyRate,
 } from "./read-tools-upgrade-helpers.js";
+import { mergeIntentWeights, planResearch as planResearchQueue } from "../research-planner.js";
+import {
+  forecastIncome,
+  indexForecastsByName,
+  DEFAULT_FORECAST_WINDOW_DAYS,
+  type ResourceIncomeForecast,
+} from "../inventory-forecast.js";
 
 const ETA_CONFIDENCE_THRESHOLD = 0.75;
 
@@ -122,11 +129,17 @@ export async function calculateUpgradePath(
     inventoryByKey.set(key, (inventoryByKey.get(key) ?? 0) + item.quantity);
   }
 
+  const since = new Date(Date.now() - DEFAULT_FORECAST_WINDOW_DAYS * 86_400_000).toISOString();
+  const forecastsByKey = indexForecastsByName(forecastIncome(await ctx.deps.inventoryStore.listHistory({ since })));
+
   const requirementRows = tierRequirements.map((requirement) => {
     const inventoryMatchQty =
       inventoryByKey.get(normalizeToken(requirement.name))
       ?? (requirement.resourceId ? inventoryByKey.get(normalizeToken(requirement.resourceId)) : undefined)
       ?? 0;
+    const forecast: ResourceIncomeForecast | undefined =
+      forecastsByKey.get(normalizeToken(requirement.name))
+      ?? (requirement.resourceId ? forecastsByKey.get(normalizeToken(requirement.resourceId)) : undefined);
     const required = Math.round(requirement.amount);
     const available = Math.max(0, Math.round(inventoryMatchQty));
     const gap = Math.max(0, required - available);
@@ -138,6 +151,12 @@ export async function calculateUpgradePath(
       available,
       gap,
       ready: gap === 0,
+      income: forecast
+        ? { dailyRate: forecast.dailyIncome, confidence: forecast.confidence, samples: forecast.samples, spanDays: forecast.spanDays }
+        : null,
+      daysToReady: gap === 0
+        ? 0
+        : forecast && forecast.dailyIncome > 0 ? Math.ceil((gap / forecast.dailyIncome) * 10) / 10 : null,
     };
   });
 
@@ -168,6 +187,7 @@ export async function calculateUpgradePath(
     assumptions: [
       "Upgrade path uses available ship tier component build_cost data.",
       "Inventory matching uses normalized resource names/IDs and may miss unmapped resources.",
+      `Income rates come from the last ${DEFAULT_FORECAST_WINDOW_DAYS} days of inventory history; daysToReady is null without history.`,
     ],
   };
 }
@@ -194,10 +214,13 @@ export async function estimateAcquisitionTime(
     .map((entry) => {
       const name = String(entry.name ?? "unknown_resource");
       const resourceId = entry.resourceId == null ? null : String(entry.resourceId);
+      const income = entry.income as { dailyRate: number; confidence: string } | null | undefined;
 
-      const dailyRate =
-        resolveOverrideDailyRate(name, resourceId, overrides)
-        ?? inferDefaultDailyRate(name);
+      // Admiral's stated rate, then measured history, then a keyword guess
+      const override = resolveOverrideDailyRate(name, resourceId, overrides);
+      const measured = income && income.confidence !== "low" ? income.dailyRate : undefined;
+      const rateSource = override != null ? "override" : measured != null ? "history" : "default";
+      const dailyRate = override ?? measured ?? inferDefaultDailyRate(name);
 
       const gap = Number(entry.gap ?? 0);
       const days = dailyRate > 0 ? Math.ceil((gap / dailyRate) * 10) / 10 : null;
@@ -207,6 +230,7 @@ export async function estimateAcquisitionTime(
         resourceId,
         gap,
         dailyRate,
+        rateSource,
         days,
         blocked: days === null,
       };
@@ -218,11 +242,12 @@ export async function estimateAcquisitionTime(
   const estimatedDays = nonBlocked.length > 0 ? Math.max(...nonBlocked.map((entry) => Number(entry.days))) : null;
 
   const hasBlocking = blocking.length > 0;
-  const hasOverrides = overrides.size > 0;
+  const historyRates = perResource.filter((entry) => entry.rateSource === "history").length;
+  const allRatesMeasured = perResource.length > 0 && perResource.every((entry) => entry.rateSource !== "default");
   const confidenceScoreRaw = hasBlocking
     ? 0.45
     : 0.6
-      + (hasOverrides ? 0.15 : 0)
+      + (allRatesMeasured ? 0.15 : 0)
       + (perResource.length > 0 && perResource.length <= 3 ? 0.1 : 0)
       + (nonBlocked.length === perResource.length && perResource.length > 0 ? 0.05 : 0);
   const confidenceScore = Math.max(0, Math.min(1, Math.round(confidenceScoreRaw * 100) / 100));
@@ -245,6 +270,7 @@ export async function estimateAcquisitionTime(
       estimatedDays: numericEtaAllowed ? estimatedDays : null,
       feasible: blocking.length === 0 && estimatedDays !== null,
       overrideCount: overrides.size,
+      historyRateCount: historyRates,
       etaMode: numericEtaAllowed ? "numeric" : "qualitative",
       confidenceScore,
       confidenceThreshold: ETA_CONFIDENCE_THRESHOLD,
@@ -252,7 +278,7 @@ export async function estimateAcquisitionTime(
     },
     assumptions: [
       "Uses calculate_upgrade_path gap output as baseline.",
-      "Daily rates default by resource keyword unless overridden in daily_income.",
+      "Daily rates come from daily_income overrides, then inventory history, then a default by resource keyword.",
     ],
   };
 }
@@ -463,3 +489,106 @@ export async function getResearchPath(
     ],
   };
 }
+
+export interface PlanResearchArgs {
+  intentKey?: string;
+  shipId?: string;
+  officerId?: string;
+  limit?: number;
+}
+
+/** Intent used to score research for an officer target (officer stats apply on away teams). */
+const OFFICER_GOAL_INTENT = "away-team";
+
+async function resolveResearchGoal(
+  args: PlanResearchArgs,
+  ctx: ToolEnv,
+): Promise<{ goal: object; intents: string[]; weights: Record<string, number> } | { error: string }> {
+  const effectStore = ctx.deps.effectStore!;
+  const weightsFor = async (intents: string[]) =>
+    mergeIntentWeights(await Promise.all(intents.map((intent) => effectStore.getIntentWeights(intent))));
+
+  if (args.intentKey) {
+    const weights = await effectStore.getIntentWeights(args.intentKey);
+    if (Object.keys(weights).length === 0) {
+      return { error: `Unknown intent or intent has no effect weights: ${args.intentKey}` };
+    }
+    return { goal: { type: "intent", intentKey: args.intentKey }, intents: [args.intentKey], weights };
+  }
+
+  if (args.shipId) {
+    if (!ctx.deps.referenceStore) return { error: "Reference catalog not available." };
+    const ship = await ctx.deps.referenceStore.getShip(args.shipId);
+    if (!ship) return { error: `Ship not found: ${args.shipId}` };
+
+    // Prefer what the Admiral actually flies this ship for
+    const loadouts = ctx.deps.crewStore ? await ctx.deps.crewStore.listLoadouts({ shipId: args.shipId }) : [];
+    let intents = [...new Set(loadouts.flatMap((loadout) => loadout.intentKeys))];
+    let source = "loadouts";
+    if (intents.length === 0) {
+      source = "hull";
+      intents = ship.hullType === 1
+        ? (await effectStore.listIntents()).map((intent) => intent.id).filter((id) => id.startsWith("mining-"))
+        : ["general"];
+    }
+    return {
+      goal: { type: "ship", shipId: ship.id, name: ship.name, hullType: hullTypeLabel(ship.hullType), intentSource: source },
+      intents,
+      weights: await weightsFor(intents),
+    };
+  }
+
+  if (args.officerId) {
+    if (!ctx.deps.referenceStore) return { error: "Reference catalog not available." };
+    const officer = await ctx.deps.referenceStore.getOfficer(args.officerId);
+    if (!officer) return { error: `Officer not found: ${args.officerId}` };
+    return {
+      goal: { type: "officer", officerId: officer.id, name: officer.name },
+      intents: [OFFICER_GOAL_INTENT],
+      weights: await weightsFor([OFFICER_GOAL_INTENT]),
+    };
+  }
+
+  return { error: "Provide intent_key, ship_id, or officer_id." };
+}
+
+export async function planResearch(
+  args: PlanResearchArgs,
+  ctx: ToolEnv,
+): Promise<object> {
+  if (!ctx.deps.researchStore) {
+    return { error: "Research store not available. Sync research data first." };
+  }
+  if (!ctx.deps.effectStore) {
+    return { error: "Effect taxonomy not available." };
+  }
+
+  const resolved = await resolveResearchGoal(args, ctx);
+  if ("error" in resolved) return resolved;
+
+  const nodes = await ctx.deps.researchStore.listNodes();
+  if (nodes.length === 0) {
+    return { error: "No research data synced. Use sync_research first." };
+  }
+
+  const inventory = new Map<string, number>();
+  for (const item of ctx.deps.inventoryStore ? await ctx.deps.inventoryStore.listItems() : []) {
+    const key = normalizeToken(item.name);
+    inventory.set(key, (inventory.get(key) ?? 0) + item.quantity);
+  }
+
+  const plan = planResearchQueue({ nodes, weights: resolved.weights, inventory, limit: args.limit });
+
+  return {
+    goal: resolved.goal,
+    intents: resolved.intents,
+    ...plan,
+    assumptions: [
+      "Buff value = intent effect weight × buff magnitude × share of levels still to research.",
+      "Resource costs come from synced node costs; nodes without cost data are ranked by value alone.",
+      ctx.deps.inventoryStore
+        ? "Resource availability is matched to inventory by item name."
+        : "Inventory store unavailable; every requirement shows as a gap.",
+    ],
+  };
+}
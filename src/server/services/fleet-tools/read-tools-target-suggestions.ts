@@ -2,6 +2,7 @@ import type { ToolEnv } from "./declarations.js";
 import { officerClassLabel, hullTypeLabel } from "../game-enums.js";
 import { normalizeToken, extractTierRequirements } from "./read-tools-upgrade-helpers.js";
 import { normalizeFactionStanding, readUserJsonSetting } from "./read-tools-context-helpers.js";
+import { loadTargetGraph } from "../target-graph.js";
 
 export async function suggestTargets(ctx: ToolEnv): Promise<object> {
   const result: Record<string, unknown> = {};
@@ -79,16 +80,36 @@ export async function suggestTargets(ctx: ToolEnv): Promise<object> {
     }));
   }
 
+  // Active targets in dependency order — prerequisites before what waits on them
+  const blockedShipTargets = new Map<string, number[]>();
   if (ctx.deps.targetStore) {
-    const targets = await ctx.deps.targetStore.list({ status: "active" } as never);
-    result.existingTargets = targets.map((t) => ({
-      id: t.id,
-      targetType: t.targetType,
-      refId: t.refId,
-      loadoutId: t.loadoutId,
-      reason: t.reason,
-      priority: t.priority,
+    const graph = await loadTargetGraph(ctx.deps.targetStore, {
+      referenceStore: ctx.deps.referenceStore,
+      overlayStore: ctx.deps.overlayStore,
+    });
+    const active = graph.nodes.filter((node) => node.target.status === "active");
+    result.existingTargets = active.map((node) => ({
+      id: node.target.id,
+      targetType: node.target.targetType,
+      refId: node.target.refId,
+      loadoutId: node.target.loadoutId,
+      label: node.label,
+      reason: node.target.reason,
+      priority: node.target.priority,
+      progressPct: node.progress.percent,
+      dependsOn: node.dependsOn,
+      blockedBy: node.blockedBy,
     }));
+    result.targetOrder = {
+      ready: graph.ready,
+      blocked: active.filter((node) => node.blocked).map((node) => ({ id: node.target.id, blockedBy: node.blockedBy })),
+      ...(graph.cycles.length > 0 ? { cycles: graph.cycles } : {}),
+    };
+    for (const node of active) {
+      if (node.blocked && node.target.targetType === "ship" && node.target.refId) {
+        blockedShipTargets.set(node.target.refId, node.blockedBy);
+      }
+    }
   }
 
   if (ctx.deps.crewStore) {
@@ -174,6 +195,7 @@ export async function suggestTargets(ctx: ToolEnv): Promise<object> {
         currentTier: number;
         nextTier: number;
         coveragePct: number;
+        blockedByTargets?: number[];
       }> = [];
 
       for (const overlay of ownedShipOverlays) {
@@ -202,12 +224,15 @@ export async function suggestTargets(ctx: ToolEnv): Promise<object> {
             currentTier,
             nextTier,
             coveragePct,
+            ...(blockedShipTargets.has(overlay.refId) ? { blockedByTargets: blockedShipTargets.get(overlay.refId) } : {}),
           });
         }
       }
 
       if (readyToUpgrade.length > 0) {
-        readyToUpgrade.sort((a, b) => b.coveragePct - a.coveragePct);
+        // Ships whose target still waits on a prerequisite go last
+        readyToUpgrade.sort((a, b) =>
+          Number(a.blockedByTargets != null) - Number(b.blockedByTargets != null) || b.coveragePct - a.coveragePct);
         result.readyToUpgrade = readyToUpgrade.slice(0, 10);
       }
     } catch (_err) {
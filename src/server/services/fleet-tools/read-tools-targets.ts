@@ -4,6 +4,7 @@
 
 import type { ToolEnv } from "./declarations.js";
 import { detectTargetConflicts } from "../target-conflicts.js";
+import { loadTargetBudget } from "../target-budget.js";
 
 const ETA_CONFIDENCE_THRESHOLD = 0.75;
 const SOURCE_ATTRIBUTION_TARGET_PCT = 90;
@@ -44,6 +45,16 @@ export async function listTargets(
     })));
   }));
 
+  const dependencies = await ctx.deps.targetStore.listDependencies();
+  const activeIds = new Set(
+    (filters.status === "active" ? targets : await ctx.deps.targetStore.list({ status: "active" }))
+      .map((target) => target.id),
+  );
+  const dependsOnByTarget = new Map<number, number[]>();
+  for (const edge of dependencies) {
+    dependsOnByTarget.set(edge.targetId, [...(dependsOnByTarget.get(edge.targetId) ?? []), edge.dependsOnId]);
+  }
+
   const reminderFeedback = await ctx.deps.targetStore.listReminderFeedback(1000);
   const reminderByTarget = new Map<number, Array<Record<string, unknown>>>();
   for (const entry of reminderFeedback) {
@@ -92,6 +103,8 @@ export async function listTargets(
       status: t.status,
       autoSuggested: t.autoSuggested,
       achievedAt: t.achievedAt,
+      dependsOn: dependsOnByTarget.get(t.id) ?? [],
+      blockedBy: (dependsOnByTarget.get(t.id) ?? []).filter((id) => activeIds.has(id)),
     })),
     totalTargets: targets.length,
   };
@@ -227,7 +240,15 @@ export async function detectConflicts(ctx: ToolEnv): Promise<object> {
     return { error: "Crew system not available." };
   }
 
-  const conflicts = await detectTargetConflicts(ctx.deps.targetStore, ctx.deps.crewStore);
+  // Material budgeting needs ship tier costs from the reference catalog
+  const budget = ctx.deps.referenceStore
+    ? await loadTargetBudget(await ctx.deps.targetStore.list({ status: "active" }), {
+      referenceStore: ctx.deps.referenceStore,
+      overlayStore: ctx.deps.overlayStore,
+      inventoryStore: ctx.deps.inventoryStore,
+    })
+    : null;
+  const conflicts = await detectTargetConflicts(ctx.deps.targetStore, ctx.deps.crewStore, budget);
 
   const byType: Record<string, number> = {};
   const bySeverity: Record<string, number> = {};
@@ -251,5 +272,14 @@ export async function detectConflicts(ctx: ToolEnv): Promise<object> {
       byType,
       bySeverity,
     },
+    budget: budget
+      ? {
+        resources: budget.resources,
+        targets: budget.targets,
+        orderings: budget.orderings,
+        recommended: budget.recommended,
+        skipped: budget.skipped,
+      }
+      : null,
   };
 }
@@ -17,7 +17,7 @@
 
 // ── Pre-existing extracted helpers (re-exported for tool-registry) ───
 export { __resetWebLookupStateForTests, webLookup } from "./read-tools-web-lookup.js";
-export { analyzeBattleLog, suggestCounter } from "./read-tools-battle-tools.js";
+export { analyzeBattleLog, suggestCounter, getBattleAnalytics } from "./read-tools-battle-tools.js";
 export { suggestTargets } from "./read-tools-target-suggestions.js";
 
 // ── Catalog ─────────────────────────────────────────────────
@@ -33,7 +33,7 @@ export { validatePlan, listPlanItems, listIntents } from "./read-tools-planning.
 export { listOwnedOfficers, getLoadoutDetail, findLoadoutsForIntent, suggestCrew, resolveConflict, whatIfRemoveOfficer } from "./read-tools-crew.js";
 
 // ── Progression ─────────────────────────────────────────────
-export { listResearch, listInventory, calculateUpgradePath, estimateAcquisitionTime, calculateTruePower, getResearchPath } from "./read-tools-progression.js";
+export { listResearch, listInventory, calculateUpgradePath, estimateAcquisitionTime, calculateTruePower, getResearchPath, planResearch } from "./read-tools-progression.js";
 
 // ── Context ─────────────────────────────────────────────────
 export { listActiveEvents, listAwayTeams, getFactionStanding } from "./read-tools-context.js";
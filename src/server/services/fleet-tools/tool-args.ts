@@ -0,0 +1,48 @@
+/**
+ * fleet-tools/tool-args.ts — Argument checks for directly invoked tools
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * The chat engines validate tool arguments against the declarations
+ * themselves. Direct invocation (routes/tools.ts, the chat `/` palette)
+ * has no model in between, so arguments are checked against the same
+ * JSON Schema before the tool runs.
+ */
+
+import type { ClaudeJsonSchema, ClaudePropertySchema } from "./claude-tool-adapter.js";
+
+function matchesType(value: unknown, prop: ClaudePropertySchema): boolean {
+  switch (prop.type) {
+    case "string": return typeof value === "string";
+    case "integer": return Number.isInteger(value);
+    case "number": return typeof value === "number" && Number.isFinite(value);
+    case "boolean": return typeof value === "boolean";
+    case "array": return Array.isArray(value) && (!prop.items || value.every((item) => matchesType(item, prop.items!)));
+    case "object": return !!value && typeof value === "object" && !Array.isArray(value);
+    default: return true;
+  }
+}
+
+function describeType(prop: ClaudePropertySchema): string {
+  if (prop.type === "array" && prop.items) return `an array of ${prop.items.type}s`;
+  return /^[aeiou]/.test(prop.type) ? `an ${prop.type}` : `a ${prop.type}`;
+}
+
+/** Problems with `args` against a tool's input schema — empty when they are valid. */
+export function checkToolArgs(schema: ClaudeJsonSchema, args: Record<string, unknown>): string[] {
+  const problems: string[] = [];
+  for (const key of schema.required ?? []) {
+    if (args[key] === undefined || args[key] === null || args[key] === "") problems.push(`${key} is required`);
+  }
+  for (const [key, value] of Object.entries(args)) {
+    const prop = schema.properties[key];
+    if (!prop) {
+      problems.push(`unknown argument ${key}`);
+    } else if (value !== undefined && value !== null && !matchesType(value, prop)) {
+      problems.push(`${key} must be ${describeType(prop)}`);
+    } else if (prop.enum && typeof value === "string" && !prop.enum.includes(value)) {
+      problems.push(`${key} must be one of: ${prop.enum.join(", ")}`);
+    }
+  }
+  return problems;
+}
@@ -0,0 +1,72 @@
+/**
+ * fleet-tools/tool-context.ts — Per-user ToolEnv factory (#85, ADR-039 D7)
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Builds the ToolContextFactory shared by the chat engines, proposal apply,
+ * the translator and the MCP server. Stores are read from the sources at
+ * call time, so the factory can be built before every store is online.
+ */
+
+import type { AppState } from "../../app-context.js";
+import type { ResourceDef } from "../resource-defs.js";
+import type { ToolContextFactory } from "./declarations.js";
+import { createAllianceRoster } from "../alliance-roster.js";
+
+/** Store sources a ToolEnv is resolved from — a subset of AppState. */
+export type ToolContextSources = Pick<
+  AppState,
+  | "referenceStore"
+  | "overlayStoreFactory"
+  | "crewStoreFactory"
+  | "targetStoreFactory"
+  | "receiptStoreFactory"
+  | "researchStoreFactory"
+  | "inventoryStoreFactory"
+  | "battleReportStoreFactory"
+  | "decisionStoreFactory"
+  | "allianceStoreFactory"
+  | "userSettingsStore"
+  | "effectStore"
+>;
+
+/**
+ * Create a factory that scopes every store to the given user.
+ * Returns null when no tool-backing store is available at all.
+ */
+export function createToolContextFactory(
+  sources: ToolContextSources,
+  resourceDefs: Map<number, ResourceDef> | null,
+): ToolContextFactory | null {
+  const hasStores = sources.referenceStore || sources.overlayStoreFactory || sources.crewStoreFactory
+    || sources.targetStoreFactory || sources.researchStoreFactory || sources.inventoryStoreFactory
+    || sources.userSettingsStore;
+  if (!hasStores) return null;
+
+  return {
+    forUser(userId: string) {
+      const allianceStore = sources.allianceStoreFactory?.forUser(userId) ?? null;
+      return {
+        userId,
+        deps: {
+          referenceStore: sources.referenceStore,
+          overlayStore: sources.overlayStoreFactory?.forUser(userId) ?? null,
+          crewStore: sources.crewStoreFactory?.forUser(userId) ?? null,
+          targetStore: sources.targetStoreFactory?.forUser(userId) ?? null,
+          receiptStore: sources.receiptStoreFactory?.forUser(userId) ?? null,
+          researchStore: sources.researchStoreFactory?.forUser(userId) ?? null,
+          inventoryStore: sources.inventoryStoreFactory?.forUser(userId) ?? null,
+          battleReportStore: sources.battleReportStoreFactory?.forUser(userId) ?? null,
+          decisionStore: sources.decisionStoreFactory?.forUser(userId) ?? null,
+          allianceStore,
+          allianceRoster: allianceStore && sources.overlayStoreFactory
+            ? createAllianceRoster(allianceStore, sources.overlayStoreFactory, userId)
+            : null,
+          userSettingsStore: sources.userSettingsStore,
+          effectStore: sources.effectStore,
+          resourceDefs: resourceDefs && resourceDefs.size > 0 ? resourceDefs : null,
+        },
+      };
+    },
+  };
+}
@@ -37,10 +37,12 @@ import {
   calculateUpgradePath,
   estimateAcquisitionTime,
   calculateTruePower,
+  planResearch,
   findLoadoutsForIntent,
   suggestCrew,
   analyzeBattleLog,
   suggestCounter,
+  getBattleAnalytics,
   analyzeFleet,
   getArmadaContext,
   resolveConflict,
@@ -71,6 +73,7 @@ import {
   recordTargetDeltaTool,
   recordReminderFeedbackTool,
   recordGoalRestatementTool,
+  recordDecisionTool,
   setShipOverlayTool,
   setOfficerOverlayTool,
   updateInventoryTool,
@@ -150,7 +153,7 @@ toolRegistry.register(defineTool({
 toolRegistry.register(defineTool({
   name: "validate_plan",
   deps: ["crewStore", "referenceStore"],
-  run: (_args, env) => validatePlan(env),
+  run: (args, env) => validatePlan(env, args.compare_solvers === true),
 }));
 
 toolRegistry.register(defineTool({
@@ -269,6 +272,17 @@ toolRegistry.register(defineTool({
   },
 }));
 
+toolRegistry.register(defineTool({
+  name: "plan_research",
+  deps: ["researchStore", "inventoryStore", "effectStore", "referenceStore", "crewStore"],
+  run: (args, env) => planResearch({
+    intentKey: args.intent_key ? String(args.intent_key) : undefined,
+    shipId: args.ship_id ? String(args.ship_id) : undefined,
+    officerId: args.officer_id ? String(args.officer_id) : undefined,
+    limit: args.limit == null ? undefined : Number(args.limit),
+  }, env),
+}));
+
 // ── Read tools: crew recommendation ─────────────────────────
 
 toolRegistry.register(defineTool({
@@ -285,14 +299,20 @@ toolRegistry.register(defineTool({
 
 toolRegistry.register(defineTool({
   name: "analyze_battle_log",
-  deps: ["researchStore"],
-  run: (args, env) => analyzeBattleLog(args.battle_log, env),
+  deps: ["researchStore", "battleReportStore"],
+  run: (args, env) => analyzeBattleLog(args.battle_log, env, args.report_id),
 }));
 
 toolRegistry.register(defineTool({
   name: "suggest_counter",
-  deps: ["overlayStore", "referenceStore"],
-  run: (args, env) => suggestCounter(args.battle_log, env),
+  deps: ["overlayStore", "referenceStore", "battleReportStore"],
+  run: (args, env) => suggestCounter(args.battle_log, env, args.report_id),
+}));
+
+toolRegistry.register(defineTool({
+  name: "get_battle_analytics",
+  deps: ["battleReportStore", "crewStore"],
+  run: (args, env) => getBattleAnalytics(args.mode, args.days, env),
 }));
 
 toolRegistry.register(defineTool({
@@ -303,7 +323,7 @@ toolRegistry.register(defineTool({
 
 toolRegistry.register(defineTool({
   name: "get_armada_context",
-  deps: ["crewStore", "referenceStore"],
+  deps: ["crewStore", "referenceStore", "allianceStore", "allianceRoster"],
   run: (args, env) => {
     const rawIds = args.loadout_ids;
     const loadoutIds = Array.isArray(rawIds)
@@ -347,7 +367,7 @@ toolRegistry.register(defineTool({
 
 toolRegistry.register(defineTool({
   name: "detect_target_conflicts",
-  deps: ["targetStore", "crewStore"],
+  deps: ["targetStore", "crewStore", "referenceStore", "overlayStore", "inventoryStore"],
   run: (_args, env) => detectConflicts(env),
 }));
 
@@ -505,6 +525,12 @@ toolRegistry.register(defineTool({
   run: (args, env) => recordGoalRestatementTool(args, env),
 }));
 
+toolRegistry.register(defineTool({
+  name: "record_decision",
+  deps: ["decisionStore", "referenceStore"],
+  run: (args, env) => recordDecisionTool(args, env),
+}));
+
 // ── Mutation tools: overlays & inventory ────────────────────
 
 toolRegistry.register(defineTool({
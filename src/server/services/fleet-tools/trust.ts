@@ -37,6 +37,7 @@ const DEFAULT_TRUST: Record<string, TrustLevel> = {
   record_target_delta: "auto",
   record_reminder_feedback: "auto",
   record_goal_restatement: "auto",
+  record_decision: "auto",
 
   // Approve: structural mutations
   create_bridge_core: "approve",
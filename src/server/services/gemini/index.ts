@@ -29,10 +29,11 @@ import type { ProposalStoreFactory } from "../../stores/proposal-store.js";
 import type { UserSettingsStore } from "../../stores/user-settings-store.js";
 import { MODEL_REGISTRY, MODEL_REGISTRY_MAP, resolveModelId } from "./model-registry.js";
 import { buildSystemPrompt, SAFETY_SETTINGS } from "./system-prompt.js";
-import type { ChatEngine } from "../engine.js";
+import type { ChatEngine, ChatRoute } from "../engine.js";
 import type { ToolMode } from "./tool-mode.js";
 import { countStructuredLines } from "./tool-mode.js";
 import { ContextCacheManager } from "./context-cache.js";
+import { sendChatMessage } from "./stream.js";
 import {
   handleFunctionCalls,
   extractResponseDiagnostics,
@@ -199,7 +200,7 @@ export function createGeminiEngine(
     timeoutMs?: number,
   ): Promise<ReturnType<Chat["sendMessage"]>> {
     const doSend = () => {
-      const sendPromise = session.chat.sendMessage({ message: messageParts });
+      const sendPromise = sendChatMessage(session.chat, messageParts);
       if (!timeoutMs) return sendPromise;
       return withTimeout(sendPromise, timeoutMs, label);
     };
@@ -210,7 +211,7 @@ export function createGeminiEngine(
         handleCacheExpiry(session);
         return withRetry(
           () => {
-            const p = session.chat.sendMessage({ message: messageParts });
+            const p = sendChatMessage(session.chat, messageParts);
             if (!timeoutMs) return p;
             return withTimeout(p, timeoutMs, `${label}-cache-retry`);
           },
@@ -234,6 +235,7 @@ export function createGeminiEngine(
     session: SessionState,
     messageParts: string | Part[],
     label: string,
+    modelId: string = currentModelId,
   ): Promise<ReturnType<Chat["sendMessage"]>> {
     const toollessConfig: GenerateContentConfig = {
       systemInstruction,
@@ -242,11 +244,11 @@ export function createGeminiEngine(
       maxOutputTokens: 4096,
     };
     const tempChat = ai.chats.create({
-      model: currentModelId,
+      model: modelId,
       config: toollessConfig,
       history: toSdkHistory(session.history, session.summary),
     });
-    return withRetry(() => tempChat.sendMessage({ message: messageParts }), label);
+    return withRetry(() => sendChatMessage(tempChat, messageParts), label);
   }
 
   // ── Bulk-gated path (ADR-049 §3) ─────────────────────────────
@@ -269,6 +271,7 @@ export function createGeminiEngine(
     session: SessionState,
     messageParts: string | Part[],
     label: string,
+    modelId: string = currentModelId,
   ): Promise<ReturnType<Chat["sendMessage"]>> {
     const bulkConfig: GenerateContentConfig = {
       systemInstruction: systemInstruction + BULK_ADDENDUM,
@@ -278,11 +281,11 @@ export function createGeminiEngine(
       maxOutputTokens: 4096,
     };
     const tempChat = ai.chats.create({
-      model: currentModelId,
+      model: modelId,
       config: bulkConfig,
       history: toSdkHistory(session.history, session.summary),
     });
-    return withRetry(() => tempChat.sendMessage({ message: messageParts }), label);
+    return withRetry(() => sendChatMessage(tempChat, messageParts), label);
   }
 
   /** Build a HandoffCard from the original message (ADR-049 §6). */
@@ -299,11 +302,14 @@ export function createGeminiEngine(
     };
   }
 
-  /** Build a GenerateContentConfig shared by all chat sessions for this engine. */
-  function buildChatConfig(): GenerateContentConfig {
+  /**
+   * Build a GenerateContentConfig shared by all chat sessions for this engine.
+   * Pass useCache=false for chats on another model — the cache is model-bound.
+   */
+  function buildChatConfig(useCache = true): GenerateContentConfig {
     // When a context cache is active, use it instead of inline systemInstruction.
     // The cache already contains the system prompt + tool declarations.
-    if (cacheManager.name) {
+    if (useCache && cacheManager.name) {
       return {
         cachedContent: cacheManager.name,
         safetySettings: SAFETY_SETTINGS,
@@ -454,13 +460,14 @@ export function createGeminiEngine(
     }
   }
 
-  /** Get or create a session by ID */
-  function getSession(sessionId: string): SessionState {
+  /** Get or create a session by ID, seeding a new one with `seedHistory` when given */
+  function getSession(sessionId: string, seedHistory?: Array<{ role: string; text: string }>): SessionState {
     let state = sessions.get(sessionId);
     if (!state) {
+      const history = seedHistory ? [...seedHistory] : [];
       state = {
-        chat: createChat(),
-        history: [],
+        chat: createChat(history.length > 0 ? toSdkHistory(history) : undefined),
+        history,
         summary: null,
         lastAccess: Date.now(),
       };
@@ -501,12 +508,12 @@ export function createGeminiEngine(
   }
 
   // ─── Tool dispatch deps (injected into extracted handleFunctionCalls) ────
-  function getToolDispatchDeps(): ToolDispatchDeps {
+  function getToolDispatchDeps(modelId: string): ToolDispatchDeps {
     return {
       sendWithCacheRetry: sendWithCacheRetry as ToolDispatchDeps["sendWithCacheRetry"],
       proposalStoreFactory,
       onTokenUsage,
-      currentModelId,
+      currentModelId: modelId,
     };
   }
 
@@ -532,11 +539,28 @@ export function createGeminiEngine(
   }
 
   return {
-    async chat(message: string, sessionId = "default", image?: ImagePart, userId?: string, requestId?: string, isCancelled?: () => boolean, toolMode?: ToolMode, bulkDetected?: boolean, userRole?: string): Promise<ChatResult> {
+    async chat(message: string, sessionId = "default", image?: ImagePart, userId?: string, requestId?: string, isCancelled?: () => boolean, toolMode?: ToolMode, bulkDetected?: boolean, userRole?: string, route?: ChatRoute): Promise<ChatResult> {
       // #85: Namespace session keys by userId to prevent cross-user session leakage
       const sessionKey = userId ? `${userId}:${sessionId}` : sessionId;
       return withSessionLock(sessionKey, async () => {
-      const session = getSession(sessionKey);
+      const storedSession = getSession(sessionKey, route?.history);
+
+      // Fallback routing: serve this turn on another Gemini model through a
+      // temporary chat seeded with the session history. The stored chat is
+      // left untouched and resynced from history afterwards.
+      const turnModelId = route?.modelId && route.modelId !== currentModelId && MODEL_REGISTRY_MAP.get(route.modelId)?.provider === "gemini"
+        ? route.modelId
+        : currentModelId;
+      const session: SessionState = turnModelId === currentModelId
+        ? storedSession
+        : {
+            ...storedSession,
+            chat: ai.chats.create({
+              model: turnModelId,
+              config: buildChatConfig(false),
+              history: toSdkHistory(storedSession.history, storedSession.summary),
+            }),
+          };
 
       // Determine effective tool mode for this call:
       // - If the engine has no tool context, tools are never available.
@@ -544,7 +568,8 @@ export function createGeminiEngine(
       // - Otherwise default to "fleet" (preserves existing behavior).
       const effectiveToolMode: ToolMode = !hasToolContext ? "none" : (toolMode ?? "fleet");
       const isBulkGated = bulkDetected === true && hasToolContext;
-      let needsSessionRebuild = false;
+      // A turn served on another model must resync the stored chat afterwards
+      let needsSessionRebuild = session !== storedSession;
       const attempts: AttemptInfo[] = [];
 
       log.gemini.debug({ requestId, sessionId: sessionKey, messageLen: message.length, hasImage: !!image, historyLen: session.history.length, userId, toolMode: effectiveToolMode }, "chat:send");
@@ -571,7 +596,7 @@ export function createGeminiEngine(
           userId: effectiveUserId,
           role: userRole ?? "ensign",
           tenantId: effectiveUserId,
-          modelFamily: currentModelId,
+          modelFamily: turnModelId,
           procedureMode: isBulkGated ? "bulk" : "chat",
         };
         const { contract, gatedContext, augmentedMessage } = await microRunner.prepare(message, governance);
@@ -579,29 +604,31 @@ export function createGeminiEngine(
         // Send augmented message — bulk-gated mode strips mutation tools (ADR-049),
         // toolless mode uses a temporary chat without tool declarations
         const result = isBulkGated
-          ? await sendBulkGated(session, buildMessageParts(augmentedMessage), "micro-runner-bulk-gated")
+          ? await sendBulkGated(session, buildMessageParts(augmentedMessage), "micro-runner-bulk-gated", turnModelId)
           : effectiveToolMode === "none"
-            ? await sendToolless(session, buildMessageParts(augmentedMessage), "micro-runner-toolless")
+            ? await sendToolless(session, buildMessageParts(augmentedMessage), "micro-runner-toolless", turnModelId)
             : await sendWithCacheRetry(session, buildMessageParts(augmentedMessage), "micro-runner");
         if (effectiveToolMode === "none" || isBulkGated) needsSessionRebuild = true;
 
         const initUsage = (result as { usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number } }).usageMetadata;
         if (initUsage) {
           log.gemini.info({ requestId, sessionId: sessionKey, ...initUsage, toolMode: effectiveToolMode }, "token:usage:initial");
-          onTokenUsage?.(effectiveUserId, currentModelId, "chat", initUsage.promptTokenCount ?? 0, initUsage.candidatesTokenCount ?? 0);
+          onTokenUsage?.(effectiveUserId, turnModelId, "chat", initUsage.promptTokenCount ?? 0, initUsage.candidatesTokenCount ?? 0);
         }
         attempts.push(buildAttemptInfo(1, effectiveToolMode, result));
 
         // Only check for function calls when tools are enabled
         let responseText: string;
         let chatProposals: ProposalSummary[] = [];
+        let chatExecutedTools: string[] = [];
         const functionCalls = effectiveToolMode === "fleet" && hasToolContext ? result.functionCalls : undefined;
 
         if (functionCalls && functionCalls.length > 0) {
           // Handle function call loop — tool results feed back to model
-          const chatResult = await handleFunctionCalls(getToolDispatchDeps(), session, functionCalls, sessionKey, scopedContext!, effectiveUserId, requestId, isCancelled);
+          const chatResult = await handleFunctionCalls(getToolDispatchDeps(turnModelId), session, functionCalls, sessionKey, scopedContext!, effectiveUserId, requestId, isCancelled);
           responseText = chatResult.text;
           chatProposals = chatResult.proposals;
+          chatExecutedTools = chatResult.executedTools ?? [];
         } else {
           responseText = result.text ?? "";
           // Retry on empty response with adaptive fallback for malformed function calls
@@ -612,7 +639,7 @@ export function createGeminiEngine(
             // Cancel check before retry (#cancel-gate)
             if (isCancelled?.()) {
               log.gemini.info({ requestId, sessionId: sessionKey, toolMode: effectiveToolMode }, "chat:retry-skipped:cancelled");
-              if (needsSessionRebuild) session.chat = createChat(toSdkHistory(session.history, session.summary));
+              if (needsSessionRebuild) storedSession.chat = createChat(toSdkHistory(storedSession.history, storedSession.summary));
               return { text: "", proposals: [], toolMode: effectiveToolMode, attempts };
             }
 
@@ -625,14 +652,14 @@ export function createGeminiEngine(
             log.gemini.warn({ requestId, sessionId: sessionKey, diagnostics: diag, retryToolMode, retryReason }, "chat:empty-response:retrying");
 
             const retryResult = retryToolMode === "none"
-              ? await sendToolless(session, buildMessageParts(augmentedMessage), retryLabel)
+              ? await sendToolless(session, buildMessageParts(augmentedMessage), retryLabel, turnModelId)
               : await sendWithCacheRetry(session, buildMessageParts(augmentedMessage), retryLabel);
             if (retryToolMode === "none") needsSessionRebuild = true;
 
             const retryUsage = (retryResult as { usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number } }).usageMetadata;
             if (retryUsage) {
               log.gemini.info({ requestId, sessionId: sessionKey, ...retryUsage, toolMode: retryToolMode }, "token:usage:empty-retry");
-              onTokenUsage?.(effectiveUserId, currentModelId, "empty_retry", retryUsage.promptTokenCount ?? 0, retryUsage.candidatesTokenCount ?? 0);
+              onTokenUsage?.(effectiveUserId, turnModelId, "empty_retry", retryUsage.promptTokenCount ?? 0, retryUsage.candidatesTokenCount ?? 0);
             }
             attempts.push(buildAttemptInfo(2, retryToolMode, retryResult, retryReason));
 
@@ -649,6 +676,7 @@ export function createGeminiEngine(
           responseText, contract, gatedContext, sessionKey, startTime, message, governance,
         );
         const receipt = validation.receipt;
+        let escalate = false;
 
         // Single repair pass if validation failed
         if (validation.needsRepair && validation.repairPrompt) {
@@ -658,7 +686,7 @@ export function createGeminiEngine(
           const repairUsage = (repairResult as { usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number } }).usageMetadata;
           if (repairUsage) {
             log.gemini.info({ requestId, sessionId: sessionKey, ...repairUsage }, "token:usage:repair");
-            onTokenUsage?.(effectiveUserId, currentModelId, "repair", repairUsage.promptTokenCount ?? 0, repairUsage.candidatesTokenCount ?? 0);
+            onTokenUsage?.(effectiveUserId, turnModelId, "repair", repairUsage.promptTokenCount ?? 0, repairUsage.candidatesTokenCount ?? 0);
           }
           responseText = repairResult.text ?? "";
           receipt.repairAttempted = true;
@@ -671,24 +699,36 @@ export function createGeminiEngine(
           receipt.validationDetails = revalidation.receipt.validationDetails;
           receipt.durationMs = Date.now() - startTime;
 
-          // If still failing after repair, prepend disclaimer
+          // Still failing after repair: escalate to the next model in the
+          // fallback chain when nothing was staged or executed, else disclaim
           if (receipt.validationResult === "fail") {
-            responseText = `${VALIDATION_DISCLAIMER}\n\n${responseText}`;
+            if (route?.escalate && chatProposals.length === 0 && chatExecutedTools.length === 0) {
+              escalate = true;
+            } else {
+              responseText = `${VALIDATION_DISCLAIMER}\n\n${responseText}`;
+            }
           }
         }
 
         microRunner.finalize(receipt);
 
+        if (escalate) {
+          // Drop the failed exchange from the SDK chat; history never saw it
+          storedSession.chat = createChat(toSdkHistory(storedSession.history, storedSession.summary));
+          log.gemini.info({ requestId, sessionId: sessionKey, model: turnModelId, violations: receipt.validationDetails }, "microrunner:escalate");
+          return { text: responseText, proposals: [], toolMode: effectiveToolMode, attempts, validationFailed: true };
+        }
+
         // Unwrap accidental JSON output (model sometimes wraps answer in outputSchema structure)
         responseText = extractConversationalAnswer(responseText);
 
         // Only record non-empty responses into session history to avoid poisoning the context
         if (responseText) {
-          await recordTurnAndTrim(session, message, responseText, effectiveUserId);
+          await recordTurnAndTrim(storedSession, message, responseText, effectiveUserId);
         }
         // Rebuild session chat after toolless calls to sync SDK history
         if (needsSessionRebuild) {
-          session.chat = createChat(toSdkHistory(session.history, session.summary));
+          storedSession.chat = createChat(toSdkHistory(storedSession.history, storedSession.summary));
         }
         log.gemini.debug({ requestId, sessionId: sessionKey, responseLen: responseText.length, historyLen: session.history.length, toolMode: effectiveToolMode }, "chat:recv");
         const handoff = isBulkGated ? buildHandoffCard(message) : undefined;
@@ -697,16 +737,16 @@ export function createGeminiEngine(
 
       // ── Standard path (no MicroRunner) ────────────────────
       const result = isBulkGated
-        ? await sendBulkGated(session, buildMessageParts(message), "standard-bulk-gated")
+        ? await sendBulkGated(session, buildMessageParts(message), "standard-bulk-gated", turnModelId)
         : effectiveToolMode === "none"
-          ? await sendToolless(session, buildMessageParts(message), "standard-toolless")
+          ? await sendToolless(session, buildMessageParts(message), "standard-toolless", turnModelId)
           : await sendWithCacheRetry(session, buildMessageParts(message), "standard");
       if (effectiveToolMode === "none" || isBulkGated) needsSessionRebuild = true;
 
       const stdUsage = (result as { usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number } }).usageMetadata;
       if (stdUsage) {
         log.gemini.info({ requestId, sessionId: sessionKey, ...stdUsage, toolMode: effectiveToolMode }, "token:usage:initial");
-        onTokenUsage?.(effectiveUserId, currentModelId, "chat", stdUsage.promptTokenCount ?? 0, stdUsage.candidatesTokenCount ?? 0);
+        onTokenUsage?.(effectiveUserId, turnModelId, "chat", stdUsage.promptTokenCount ?? 0, stdUsage.candidatesTokenCount ?? 0);
       }
       attempts.push(buildAttemptInfo(1, effectiveToolMode, result));
 
@@ -717,7 +757,7 @@ export function createGeminiEngine(
 
       let responseDiagnostics: Record<string, unknown> | undefined;
       if (functionCalls && functionCalls.length > 0) {
-        const chatResult = await handleFunctionCalls(getToolDispatchDeps(), session, functionCalls, sessionKey, scopedContext!, effectiveUserId, requestId, isCancelled);
+        const chatResult = await handleFunctionCalls(getToolDispatchDeps(turnModelId), session, functionCalls, sessionKey, scopedContext!, effectiveUserId, requestId, isCancelled);
         responseText = chatResult.text;
         chatProposals = chatResult.proposals;
       } else {
@@ -729,7 +769,7 @@ export function createGeminiEngine(
           // Cancel check before retry (#cancel-gate)
           if (isCancelled?.()) {
             log.gemini.info({ requestId, sessionId: sessionKey, toolMode: effectiveToolMode }, "chat:retry-skipped:cancelled");
-            if (needsSessionRebuild) session.chat = createChat(toSdkHistory(session.history, session.summary));
+            if (needsSessionRebuild) storedSession.chat = createChat(toSdkHistory(storedSession.history, storedSession.summary));
             return { text: "", proposals: [], toolMode: effectiveToolMode, attempts };
           }
 
@@ -742,14 +782,14 @@ export function createGeminiEngine(
           log.gemini.warn({ requestId, sessionId: sessionKey, diagnostics: diag, retryToolMode, retryReason }, "chat:empty-response:retrying");
 
           const retryResult = retryToolMode === "none"
-            ? await sendToolless(session, buildMessageParts(message), retryLabel)
+            ? await sendToolless(session, buildMessageParts(message), retryLabel, turnModelId)
             : await sendWithCacheRetry(session, buildMessageParts(message), retryLabel);
           if (retryToolMode === "none") needsSessionRebuild = true;
 
           const retryUsage = (retryResult as { usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number } }).usageMetadata;
           if (retryUsage) {
             log.gemini.info({ requestId, sessionId: sessionKey, ...retryUsage, toolMode: retryToolMode }, "token:usage:empty-retry");
-            onTokenUsage?.(effectiveUserId, currentModelId, "empty_retry", retryUsage.promptTokenCount ?? 0, retryUsage.candidatesTokenCount ?? 0);
+            onTokenUsage?.(effectiveUserId, turnModelId, "empty_retry", retryUsage.promptTokenCount ?? 0, retryUsage.candidatesTokenCount ?? 0);
           }
           attempts.push(buildAttemptInfo(2, retryToolMode, retryResult, retryReason));
 
@@ -767,11 +807,11 @@ export function createGeminiEngine(
 
       // Only record non-empty responses into session history to avoid poisoning the context
       if (responseText) {
-        await recordTurnAndTrim(session, image ? `[image: ${image.inlineData.mimeType}] ${message}` : message, responseText, effectiveUserId);
+        await recordTurnAndTrim(storedSession, image ? `[image: ${image.inlineData.mimeType}] ${message}` : message, responseText, effectiveUserId);
       }
       // Rebuild session chat after toolless calls to sync SDK history
       if (needsSessionRebuild) {
-        session.chat = createChat(toSdkHistory(session.history, session.summary));
+        storedSession.chat = createChat(toSdkHistory(storedSession.history, storedSession.summary));
       }
 
       log.gemini.debug({ requestId, sessionId: sessionKey, responseLen: responseText.length, historyLen: session.history.length, toolMode: effectiveToolMode }, "chat:recv");
@@ -20,7 +20,7 @@
 export interface ModelDef {
   id: string;
   name: string;
-  provider: "gemini" | "claude";
+  provider: "gemini" | "claude" | "local";
   tier: "budget" | "balanced" | "thinking" | "premium" | "frontier";
   description: string;
   thinking: boolean;
@@ -123,6 +123,22 @@ export const MODEL_REGISTRY: ModelDef[] = [
     roleGate: "admiral",
     defaultEnabled: false,
   },
+  // ── Local model (OpenAI-compatible server) ────────────────
+  // One entry stands in for whatever model MAJEL_LOCAL_MODEL names on the
+  // self-hosted server. Enabled by default: configuring the server URL is the
+  // opt-in, and without it the provider is never capable.
+  {
+    id: "local",
+    name: "Local Model",
+    provider: "local",
+    tier: "budget",
+    description: "Self-hosted model on an OpenAI-compatible server (llama.cpp, Ollama, vLLM). Runs fully offline.",
+    thinking: false,
+    contextWindow: 32_768,
+    costRelative: 1,
+    speed: "moderate",
+    defaultEnabled: true,
+  },
 ];
 
 export const MODEL_REGISTRY_MAP = new Map(MODEL_REGISTRY.map((m) => [m.id, m]));
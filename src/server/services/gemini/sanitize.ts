@@ -32,7 +32,7 @@ const DIRECTIVE_XML = /<\/?(?:system|instruction|context|config|prompt)[^>]*>/gi
  * game text like [Level 5] or [Alliance Name].
  */
 const DIRECTIVE_KEYWORD =
-  /\[\s*\/?\s*(?:reference|overlay|injected\s+data|intent\s+config|fleet\s+config|system(?:\s+prompt)?|instruction|context|behavioral\s+rules|progression\s+brief|end\s+\w[\w\s]{0,40})\b[^\]]*\]/gi;
+  /\[\s*\/?\s*(?:reference|overlay|injected\s+data|intent\s+config|fleet\s+config|system(?:\s+prompt)?|instruction|context|behavioral\s+rules|fleet\s+decisions|progression\s+brief|end\s+\w[\w\s]{0,40})\b[^\]]*\]/gi;
 
 /**
  * Strip prompt-injection markers from a string before it enters model context.
@@ -0,0 +1,43 @@
+/**
+ * stream.ts — Streamed sendMessage for Gemini chats
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * When a chat stream is bound (chat-stream.ts), sends go through
+ * sendMessageStream(): text parts are forwarded as they arrive and the chunks
+ * are folded back into one GenerateContentResponse, so callers keep reading
+ * `.text`, `.functionCalls` and `.usageMetadata` exactly as before.
+ */
+
+import { GenerateContentResponse, type Chat, type Part } from "@google/genai";
+import { createResponseTextEmitter, getChatStreamSink } from "../chat-stream.js";
+
+/** chat.sendMessage(), streamed when a chat stream sink is bound. */
+export async function sendChatMessage(chat: Chat, message: string | Part[]): Promise<GenerateContentResponse> {
+  const sink = getChatStreamSink();
+  if (!sink) return chat.sendMessage({ message });
+
+  const emitText = createResponseTextEmitter(sink);
+  const stream = await chat.sendMessageStream({ message });
+  const parts: Part[] = [];
+  let first: GenerateContentResponse | undefined;
+  let last: GenerateContentResponse | undefined;
+
+  for await (const chunk of stream) {
+    first ??= chunk;
+    last = chunk;
+    for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+      parts.push(part);
+      if (typeof part.text === "string" && !part.thought) emitText(part.text);
+    }
+  }
+
+  const response = new GenerateContentResponse();
+  const candidate = last?.candidates?.[0];
+  if (candidate) response.candidates = [{ ...candidate, content: { role: "model", parts } }];
+  response.usageMetadata = last?.usageMetadata;
+  response.promptFeedback = first?.promptFeedback;
+  response.modelVersion = last?.modelVersion;
+  response.responseId = last?.responseId;
+  return response;
+}
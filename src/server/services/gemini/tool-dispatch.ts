@@ -6,15 +6,16 @@
  */
 
 import { createHash } from "node:crypto";
-import { nanoid } from "nanoid";
 import type { Part, FunctionCall } from "@google/genai";
 import { log } from "../../logger.js";
 import type { ToolEnv } from "../fleet-tools/index.js";
 import { executeFleetTool } from "../fleet-tools/index.js";
 import { getTrustLevel, isMutationTool } from "../fleet-tools/trust.js";
 import type { ProposalStoreFactory, BatchItem } from "../../stores/proposal-store.js";
+import { newInstanceId, PRIMARY_INSTANCE_ID } from "../../stores/overlay-store.js";
 import { sanitizeForModel } from "./sanitize.js";
 import { canonicalStringify } from "../../util/canonical-json.js";
+import { publishProposalCreated } from "../fleet-events.js";
 import type {
   SessionState,
   ProposalSummary,
@@ -197,6 +198,7 @@ export async function createBatchProposal(
       expiresAt: proposal.expiresAt,
     };
     proposals.push(summary);
+    publishProposalCreated(proposal);
     return summary;
   } catch (err) {
     log.gemini.error({ err: err instanceof Error ? err.message : String(err) }, "proposal:create-failed");
@@ -204,6 +206,104 @@ export async function createBatchProposal(
   }
 }
 
+// ─── resolveOverlayCreate ───────────────────────────────────────
+
+/**
+ * Detect whether an overlay mutation creates a new overlay or updates one
+ * (ADR-049 Slice 2, ADR-051 Slice 1) so the trust gate can apply the
+ * ownership-creation rule. Rewrites `instance_id: "new"` to a generated ID
+ * in place. Returns undefined for every other tool.
+ */
+export async function resolveOverlayCreate(
+  toolName: string,
+  args: Record<string, unknown>,
+  scopedContext: ToolEnv,
+): Promise<boolean | undefined> {
+  const overlayStore = scopedContext.deps.overlayStore;
+  if (!overlayStore) return undefined;
+
+  const refKey = toolName === "set_officer_overlay" ? "officer_id" : toolName === "set_ship_overlay" ? "ship_id" : null;
+  if (!refKey) return undefined;
+  const refId = typeof args[refKey] === "string" ? args[refKey] as string : undefined;
+  if (!refId) return undefined;
+
+  // Resolve instance_id: "new" → generated ID (ADR-051)
+  const instanceId = typeof args.instance_id === "string" ? args.instance_id : undefined;
+  if (instanceId === "new") {
+    args.instance_id = newInstanceId();
+    return true;
+  }
+  const effective = instanceId ?? PRIMARY_INSTANCE_ID;
+  const existing = toolName === "set_officer_overlay"
+    ? await overlayStore.getOfficerOverlay(refId, effective)
+    : await overlayStore.getShipOverlay(refId, effective);
+  return existing === null;
+}
+
+// ─── runGatedToolCall ───────────────────────────────────────────
+
+/** Per-message trust gate bookkeeping for engines that run their own tool loop. */
+export interface ToolGateState {
+  mutationCount: number;
+  pendingBatch: BatchItem[];
+  /** Mutation tools that were auto-executed (mirrors ChatResult.executedTools). */
+  executedTools: string[];
+}
+
+export function createToolGateState(): ToolGateState {
+  return { mutationCount: 0, pendingBatch: [], executedTools: [] };
+}
+
+/**
+ * Run one tool call through the trust gate — the provider-neutral twin of the
+ * per-call body of handleFunctionCalls. Returns the raw (unsanitized) response
+ * object to hand back to the model; approve-tier calls are staged on
+ * `gate.pendingBatch` for the caller to turn into a proposal.
+ */
+export async function runGatedToolCall(
+  toolName: string,
+  args: Record<string, unknown>,
+  scopedContext: ToolEnv,
+  userId: string,
+  gate: ToolGateState,
+  requestId?: string,
+): Promise<object> {
+  if (isMutationTool(toolName)) {
+    const isCreate = await resolveOverlayCreate(toolName, args, scopedContext);
+    const trustLevel = await getTrustLevel(toolName, userId, scopedContext.deps.userSettingsStore, isCreate);
+
+    if (trustLevel === "block") {
+      return {
+        tool: toolName,
+        blocked: true,
+        error: `Tool "${toolName}" is blocked. The Admiral must unlock it in fleet settings (fleet.trust) before it can be used.`,
+      };
+    }
+
+    gate.mutationCount++;
+    if (gate.mutationCount > MAX_MUTATIONS_PER_CHAT) {
+      return { error: "Mutation limit reached for this message. Ask the Admiral to confirm before proceeding." };
+    }
+
+    if (trustLevel === "approve") {
+      const preview = generatePreview(toolName, args);
+      gate.pendingBatch.push({ tool: toolName, args, preview });
+      return { tool: toolName, staged: true, message: `Staged for Admiral approval: ${preview}` };
+    }
+
+    gate.executedTools.push(toolName);
+  }
+
+  const result = await executeFleetTool(toolName, args, scopedContext);
+  const resultObj = result as Record<string, unknown>;
+  if (resultObj.error) {
+    log.gemini.warn({ requestId, tool: toolName, args, error: resultObj.error }, "tool:result:error");
+  } else {
+    log.gemini.debug({ requestId, tool: toolName, args, ok: true }, "tool:result:ok");
+  }
+  return result;
+}
+
 // ─── handleFunctionCalls ────────────────────────────────────────
 
 /**
@@ -261,38 +361,7 @@ export async function handleFunctionCalls(
         // ── Trust tier gate for mutation tools ──────────────
         if (isMutationTool(toolName)) {
           // Detect overlay creation vs update (ADR-049 Slice 2, ADR-051 Slice 1)
-          let isCreate: boolean | undefined;
-          if (toolName === "set_officer_overlay" && scopedContext.deps.overlayStore) {
-            const refId = typeof args.officer_id === "string" ? args.officer_id : undefined;
-            if (refId) {
-              // Resolve instance_id: "new" → generated ID (ADR-051)
-              let instanceId = typeof args.instance_id === "string" ? args.instance_id : undefined;
-              if (instanceId === "new") {
-                instanceId = `inst_${nanoid()}`;
-                args.instance_id = instanceId;
-                isCreate = true;
-              } else {
-                const effective = instanceId ?? "primary";
-                const existing = await scopedContext.deps.overlayStore.getOfficerOverlay(refId, effective);
-                isCreate = existing === null;
-              }
-            }
-          } else if (toolName === "set_ship_overlay" && scopedContext.deps.overlayStore) {
-            const refId = typeof args.ship_id === "string" ? args.ship_id : undefined;
-            if (refId) {
-              // Resolve instance_id: "new" → generated ID (ADR-051)
-              let instanceId = typeof args.instance_id === "string" ? args.instance_id : undefined;
-              if (instanceId === "new") {
-                instanceId = `inst_${nanoid()}`;
-                args.instance_id = instanceId;
-                isCreate = true;
-              } else {
-                const effective = instanceId ?? "primary";
-                const existing = await scopedContext.deps.overlayStore.getShipOverlay(refId, effective);
-                isCreate = existing === null;
-              }
-            }
-          }
+          const isCreate = await resolveOverlayCreate(toolName, args, scopedContext);
 
           const trustLevel = await getTrustLevel(
             toolName,
@@ -7,6 +7,7 @@
 
 import type { Chat } from "@google/genai";
 import type { ToolMode } from "./tool-mode.js";
+import type { FallbackHop } from "../model-fallback.js";
 
 /**
  * Fleet configuration context for the system prompt.
@@ -87,6 +88,13 @@ export interface ChatResult {
   attempts?: AttemptInfo[];
   /** Structured handoff when bulk-commit gate fires (ADR-049). */
   handoff?: HandoffCard;
+  /**
+   * Set on escalatable calls (ChatRoute.escalate) when validation still fails
+   * after repair. The turn was not recorded and `text` has no disclaimer.
+   */
+  validationFailed?: boolean;
+  /** Models tried by the engine manager's fallback chain, when more than one. */
+  fallbackPath?: FallbackHop[];
 }
 
 /** Callback for recording token usage (ADR-048 Phase A, #236). */
@@ -0,0 +1,143 @@
+/**
+ * inventory-forecast.ts — Resource income forecasting (ADR-028 Phase 3)
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Derives daily income rates from inventory history snapshots.
+ *
+ * Income is the sum of increases between consecutive snapshots divided by
+ * the days covered — drops are spending, not negative income, so upgrading
+ * a ship mid-window doesn't hide what the Admiral actually earns. Net change
+ * (last − first) is reported alongside for "am I saving or burning?".
+ *
+ * A forecast needs at least two snapshots spanning MIN_SPAN_HOURS; short
+ * histories would turn one mining trip into a daily rate.
+ */
+
+import type { InventoryCategory, InventorySnapshotRecord } from "../stores/inventory-store.js";
+import { normalizeToken } from "./fleet-tools/read-tools-upgrade-helpers.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export type ForecastConfidence = "high" | "medium" | "low";
+
+export interface ResourceIncomeForecast {
+  category: InventoryCategory;
+  name: string;
+  grade: string | null;
+  /** Latest recorded quantity. */
+  quantity: number;
+  samples: number;
+  spanDays: number;
+  /** Gross income per day (increases only). */
+  dailyIncome: number;
+  /** (last − first) / spanDays — negative when spending outpaces income. */
+  netDailyChange: number;
+  confidence: ForecastConfidence;
+  /** Quantity after 7 and 30 more days at the current income rate, ignoring spending. */
+  projected: { days7: number; days30: number };
+}
+
+// ─── Constants ──────────────────────────────────────────────
+
+export const DEFAULT_FORECAST_WINDOW_DAYS = 30;
+export const MAX_FORECAST_WINDOW_DAYS = 180;
+
+const MIN_SPAN_HOURS = 12;
+const MS_PER_DAY = 86_400_000;
+
+// ─── Forecast ───────────────────────────────────────────────
+
+function round(value: number, places = 1): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function confidenceFor(samples: number, spanDays: number): ForecastConfidence {
+  if (samples >= 5 && spanDays >= 7) return "high";
+  if (samples >= 3 && spanDays >= 2) return "medium";
+  return "low";
+}
+
+/** Forecast one item from its snapshots (any order). Null when history is too short. */
+export function forecastItem(snapshots: InventorySnapshotRecord[]): ResourceIncomeForecast | null {
+  if (snapshots.length < 2) return null;
+  const ordered = [...snapshots].sort((a, b) => Date.parse(a.capturedAt) - Date.parse(b.capturedAt));
+  const first = ordered[0];
+  const last = ordered[ordered.length - 1];
+  const spanMs = Date.parse(last.capturedAt) - Date.parse(first.capturedAt);
+  if (spanMs < MIN_SPAN_HOURS * 3_600_000) return null;
+
+  let gained = 0;
+  for (let i = 1; i < ordered.length; i++) {
+    gained += Math.max(0, ordered[i].quantity - ordered[i - 1].quantity);
+  }
+
+  const spanDays = spanMs / MS_PER_DAY;
+  const dailyIncome = gained / spanDays;
+  return {
+    category: last.category,
+    name: last.name,
+    grade: last.grade,
+    quantity: last.quantity,
+    samples: ordered.length,
+    spanDays: round(spanDays),
+    dailyIncome: round(dailyIncome),
+    netDailyChange: round((last.quantity - first.quantity) / spanDays),
+    confidence: confidenceFor(ordered.length, spanDays),
+    projected: {
+      days7: Math.round(last.quantity + dailyIncome * 7),
+      days30: Math.round(last.quantity + dailyIncome * 30),
+    },
+  };
+}
+
+/** Forecast every item in a mixed snapshot list, highest income first. */
+export function forecastIncome(snapshots: InventorySnapshotRecord[]): ResourceIncomeForecast[] {
+  const byItem = new Map<string, InventorySnapshotRecord[]>();
+  for (const snapshot of snapshots) {
+    const key = `${snapshot.category}\u0000${snapshot.name}\u0000${snapshot.grade ?? ""}`;
+    const list = byItem.get(key) ?? [];
+    list.push(snapshot);
+    byItem.set(key, list);
+  }
+
+  const forecasts: ResourceIncomeForecast[] = [];
+  for (const list of byItem.values()) {
+    const forecast = forecastItem(list);
+    if (forecast) forecasts.push(forecast);
+  }
+  return forecasts.sort((a, b) => b.dailyIncome - a.dailyIncome || a.name.localeCompare(b.name));
+}
+
+/**
+ * Index forecasts by normalized resource name for matching upgrade requirements.
+ * Grades of the same name share a key; their rates add up and the weakest
+ * confidence wins.
+ */
+export function indexForecastsByName(forecasts: ResourceIncomeForecast[]): Map<string, ResourceIncomeForecast> {
+  const rank: Record<ForecastConfidence, number> = { low: 0, medium: 1, high: 2 };
+  const index = new Map<string, ResourceIncomeForecast>();
+  for (const forecast of forecasts) {
+    const key = normalizeToken(forecast.name);
+    const existing = index.get(key);
+    if (!existing) {
+      index.set(key, forecast);
+      continue;
+    }
+    index.set(key, {
+      ...existing,
+      quantity: existing.quantity + forecast.quantity,
+      samples: Math.min(existing.samples, forecast.samples),
+      spanDays: Math.min(existing.spanDays, forecast.spanDays),
+      dailyIncome: round(existing.dailyIncome + forecast.dailyIncome),
+      netDailyChange: round(existing.netDailyChange + forecast.netDailyChange),
+      confidence: rank[forecast.confidence] < rank[existing.confidence] ? forecast.confidence : existing.confidence,
+      projected: {
+        days7: existing.projected.days7 + forecast.projected.days7,
+        days30: existing.projected.days30 + forecast.projected.days30,
+      },
+    });
+  }
+  return index;
+}
@@ -0,0 +1,68 @@
+/**
+ * local/embeddings.ts — Embedder for an OpenAI-compatible `/embeddings` endpoint
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Gives semantic recall (semantic-recall.ts) a real embedding model —
+ * Ollama (`nomic-embed-text`), llama.cpp `--embedding`, vLLM — usually the
+ * same server the local chat engine talks to.
+ */
+
+import { log } from "../../logger.js";
+import type { Embedder } from "../semantic-recall.js";
+
+const REQUEST_TIMEOUT_MS = 30_000;
+/** Inputs per request — servers cap batch sizes, llama.cpp especially */
+const MAX_BATCH = 32;
+
+interface EmbeddingResponse {
+  data?: Array<{ index?: number; embedding?: number[] }>;
+}
+
+/**
+ * @param baseUrl Server base URL including the API prefix, e.g. `http://localhost:11434/v1`
+ * @param model   Embedding model name, e.g. `nomic-embed-text`
+ * @param apiKey  Optional bearer key
+ */
+export function createOpenAiEmbedder(baseUrl: string, model: string, apiKey?: string | null): Embedder {
+  if (!baseUrl) {
+    throw new Error("MAJEL_EMBEDDING_URL (or MAJEL_LOCAL_MODEL_URL) is required for MAJEL_EMBEDDING_MODEL");
+  }
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/embeddings`;
+
+  async function embedBatch(input: string[]): Promise<number[][]> {
+    const res = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model, input }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      const detail = (await res.text().catch(() => "")).slice(0, 200);
+      throw new Error(`Embedding server returned ${res.status}${detail ? `: ${detail}` : ""}`);
+    }
+    const body = await res.json() as EmbeddingResponse;
+    const rows = [...(body.data ?? [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+    if (rows.length !== input.length || rows.some((r) => !Array.isArray(r.embedding))) {
+      throw new Error(`Embedding server returned ${rows.length} vectors for ${input.length} inputs`);
+    }
+    return rows.map((r) => r.embedding!);
+  }
+
+  log.local.debug({ endpoint, model }, "embedder init");
+
+  return {
+    id: `openai:${model}`,
+    minSimilarity: 0.35,
+    async embed(texts) {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += MAX_BATCH) {
+        vectors.push(...await embedBatch(texts.slice(i, i + MAX_BATCH)));
+      }
+      return vectors;
+    },
+  };
+}
@@ -0,0 +1,481 @@
+/**
+ * local/index.ts — Local Chat Engine via an OpenAI-compatible server
+ *
+ * Implements ChatEngine against any `/chat/completions` endpoint that speaks
+ * the OpenAI wire format — llama.cpp server, Ollama, vLLM — so self-hosters
+ * can run Aria without a cloud provider. Like Claude, the API is stateless,
+ * so session management (history, TTL, turn limits) is handled here.
+ *
+ * Majel — STFC Fleet Intelligence System
+ */
+
+import { log } from "../../logger.js";
+import { type MicroRunner, type GovernanceContext, VALIDATION_DISCLAIMER } from "../micro-runner.js";
+import { type ToolEnv, type ToolContextFactory, FLEET_TOOL_DECLARATIONS } from "../fleet-tools/index.js";
+import { toOpenAiTools, type OpenAiToolDef } from "../fleet-tools/openai-tool-adapter.js";
+import type { ProposalStoreFactory } from "../../stores/proposal-store.js";
+import type { UserSettingsStore } from "../../stores/user-settings-store.js";
+import { buildSystemPrompt } from "../gemini/system-prompt.js";
+import {
+  createBatchProposal,
+  createToolGateState,
+  runGatedToolCall,
+  sanitizeToolResponse,
+} from "../gemini/tool-dispatch.js";
+import type { ToolMode } from "../gemini/tool-mode.js";
+import type { ChatEngine, ChatRoute } from "../engine.js";
+import type { FleetConfig, ImagePart, ChatResult, ProposalSummary, TokenUsageCallback } from "../gemini/index.js";
+
+// ─── Constants ────────────────────────────────────────────────
+
+/** Registry ID that stands in for whatever model the local server runs */
+export const LOCAL_MODEL_ID = "local";
+/** Default session TTL: 30 minutes */
+const SESSION_TTL_MS = 30 * 60 * 1000;
+/** Max turns per session before oldest are dropped */
+const SESSION_MAX_TURNS = 50;
+/** Cleanup interval: every 5 minutes */
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
+/** Max rounds of tool calling before forcing a text response */
+const MAX_TOOL_ROUNDS = 5;
+/** Max output tokens per completion */
+const MAX_TOKENS = 4096;
+/** Local inference on consumer hardware is slow — allow long generations */
+const REQUEST_TIMEOUT_MS = 180_000;
+
+// ─── Wire Format ──────────────────────────────────────────────
+
+interface OpenAiToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string | Record<string, unknown> };
+}
+
+type OpenAiContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+type OpenAiMessage =
+  | { role: "system"; content: string }
+  | { role: "user"; content: string | OpenAiContentPart[] }
+  | { role: "assistant"; content: string | null; tool_calls?: OpenAiToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+interface ChatCompletion {
+  choices?: Array<{
+    message?: { content?: string | null; tool_calls?: OpenAiToolCall[] };
+    finish_reason?: string | null;
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/** Non-2xx response from the model server. `status` drives the retry helper. */
+class LocalModelError extends Error {
+  constructor(readonly status: number, detail: string) {
+    super(`Local model server returned ${status}${detail ? `: ${detail}` : ""}`);
+    this.name = "LocalModelError";
+  }
+}
+
+// ─── Retry helper for transient API errors ────────────────────
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+const MAX_RETRIES = 2;
+const BASE_DELAY_MS = 1000;
+
+async function withRetry<T>(fn: () => Promise<T>, label: string): Promise<T> {
+  let lastErr: unknown;
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    try {
+      return await fn();
+    } catch (err: unknown) {
+      lastErr = err;
+      const status = err instanceof LocalModelError ? err.status : undefined;
+      if (attempt < MAX_RETRIES && status != null && RETRYABLE_STATUS.has(status)) {
+        const delay = BASE_DELAY_MS * Math.pow(2, attempt);
+        log.local.warn({ attempt: attempt + 1, status, delay, label }, "local model transient error — retrying");
+        await new Promise((r) => setTimeout(r, delay));
+        continue;
+      }
+      throw err;
+    }
+  }
+  throw lastErr;
+}
+
+/**
+ * Parse function-call arguments. The spec sends a JSON string, but Ollama
+ * and some llama.cpp builds send an object. Returns null when unparseable.
+ */
+function parseToolArguments(raw: OpenAiToolCall["function"]["arguments"] | undefined): Record<string, unknown> | null {
+  if (raw == null || raw === "") return {};
+  if (typeof raw === "object") return Array.isArray(raw) ? null : raw;
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+// ─── Session State ────────────────────────────────────────────
+
+interface SessionState {
+  /** Conversation history in OpenAI message format (system prompt excluded) */
+  messages: OpenAiMessage[];
+  /** Parallel plain-text history for ChatEngine.getHistory() */
+  history: Array<{ role: string; text: string }>;
+  lastAccess: number;
+}
+
+// ─── Engine Factory ───────────────────────────────────────────
+
+/**
+ * @param baseUrl   Server base URL including the API prefix, e.g. `http://localhost:11434/v1`
+ * @param modelName Model name the server expects, e.g. `llama3.1:8b`
+ * @param apiKey    Optional bearer key (vLLM `--api-key`, hosted gateways)
+ */
+export function createLocalEngine(
+  baseUrl: string,
+  modelName: string,
+  apiKey?: string | null,
+  fleetConfig?: FleetConfig | null,
+  dockBriefing?: string | null,
+  microRunner?: MicroRunner | null,
+  toolContextFactory?: ToolContextFactory | null,
+  proposalStoreFactory?: ProposalStoreFactory | null,
+  _userSettingsStore?: UserSettingsStore | null,
+  onTokenUsage?: TokenUsageCallback | null,
+): ChatEngine {
+  if (!baseUrl) {
+    throw new Error("MAJEL_LOCAL_MODEL_URL is required — cannot create local engine without it");
+  }
+  if (!modelName) {
+    throw new Error("MAJEL_LOCAL_MODEL is required — cannot create local engine without it");
+  }
+
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  const hasToolContext = !!toolContextFactory;
+  const systemPrompt = buildSystemPrompt(fleetConfig, dockBriefing, hasToolContext);
+  const tools: OpenAiToolDef[] | undefined = hasToolContext ? toOpenAiTools(FLEET_TOOL_DECLARATIONS) : undefined;
+
+  const sessions = new Map<string, SessionState>();
+
+  /** Per-session mutex: prevents concurrent chat() calls from corrupting history */
+  const sessionLocks = new Map<string, Promise<void>>();
+  function withSessionLock(sessionId: string, fn: () => Promise<ChatResult>): Promise<ChatResult> {
+    const prev = sessionLocks.get(sessionId) ?? Promise.resolve();
+    let release: () => void;
+    const next = new Promise<void>((r) => { release = r; });
+    sessionLocks.set(sessionId, next);
+    return prev.then(fn).finally(() => release());
+  }
+
+  log.local.debug({
+    endpoint,
+    model: modelName,
+    hasFleetConfig: !!fleetConfig,
+    hasMicroRunner: !!microRunner,
+    hasToolContext,
+    toolCount: tools?.length ?? 0,
+    promptLen: systemPrompt.length,
+  }, "init");
+
+  /** Get or create a session by ID, seeding a new one with `seedHistory` when given */
+  function getSession(sessionId: string, seedHistory?: Array<{ role: string; text: string }>): SessionState {
+    let state = sessions.get(sessionId);
+    if (!state) {
+      const history = seedHistory ? [...seedHistory] : [];
+      const messages = history.map((h): OpenAiMessage => h.role === "model"
+        ? { role: "assistant", content: h.text }
+        : { role: "user", content: h.text });
+      state = { messages, history, lastAccess: Date.now() };
+      sessions.set(sessionId, state);
+      log.local.debug({ sessionId, totalSessions: sessions.size }, "session:create");
+    }
+    state.lastAccess = Date.now();
+    return state;
+  }
+
+  /** Record a turn pair and enforce the turn limit. */
+  function recordTurn(session: SessionState, userMsg: string, modelMsg: string): void {
+    session.history.push({ role: "user", text: userMsg });
+    session.history.push({ role: "model", text: modelMsg });
+
+    while (session.history.length > SESSION_MAX_TURNS * 2) {
+      session.history.splice(0, 2);
+    }
+    while (session.messages.length > SESSION_MAX_TURNS * 2) {
+      session.messages.splice(0, 2);
+    }
+  }
+
+  /** Remove expired sessions */
+  function cleanupSessions(): void {
+    const now = Date.now();
+    let cleaned = 0;
+    for (const [id, state] of sessions) {
+      if (id !== "default" && now - state.lastAccess > SESSION_TTL_MS) {
+        sessions.delete(id);
+        sessionLocks.delete(id);
+        cleaned++;
+      }
+    }
+    if (cleaned > 0) {
+      log.local.debug({ cleaned, remaining: sessions.size }, "session:cleanup");
+    }
+  }
+
+  // Periodic cleanup (only in non-test environments)
+  const isTest = process.env.NODE_ENV === "test" || process.env.VITEST === "true";
+  const cleanupTimer = isTest ? null : setInterval(cleanupSessions, CLEANUP_INTERVAL_MS);
+  if (cleanupTimer) cleanupTimer.unref();
+
+  /** POST one chat-completions request and record token usage. */
+  async function complete(
+    messages: OpenAiMessage[],
+    withTools: boolean,
+    userId: string,
+    label: string,
+  ): Promise<{ text: string; toolCalls: OpenAiToolCall[] }> {
+    const body = {
+      model: modelName,
+      messages: [{ role: "system", content: systemPrompt }, ...messages],
+      max_tokens: MAX_TOKENS,
+      stream: false,
+      ...(withTools && tools ? { tools, tool_choice: "auto" } : {}),
+    };
+
+    const completion = await withRetry(async () => {
+      const res = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!res.ok) {
+        const detail = (await res.text().catch(() => "")).slice(0, 200);
+        throw new LocalModelError(res.status, detail);
+      }
+      return await res.json() as ChatCompletion;
+    }, label);
+
+    const message = completion.choices?.[0]?.message;
+    const toolCalls = message?.tool_calls ?? [];
+
+    if (onTokenUsage && completion.usage) {
+      onTokenUsage(
+        userId,
+        LOCAL_MODEL_ID,
+        toolCalls.length > 0 ? "tool_call" : "chat",
+        completion.usage.prompt_tokens ?? 0,
+        completion.usage.completion_tokens ?? 0,
+      );
+    }
+
+    return { text: message?.content ?? "", toolCalls };
+  }
+
+  /**
+   * Send the conversation and handle the tool loop.
+   *
+   * OpenAI function calling:
+   * - The assistant message carries `tool_calls` with JSON-encoded arguments
+   * - Each result goes back as a `role: "tool"` message keyed by tool_call_id
+   * - The loop continues until the model answers without tool calls
+   */
+  async function sendAndHandleTools(
+    sessionMessages: OpenAiMessage[],
+    sessionId: string,
+    scopedContext: ToolEnv | null,
+    userId: string,
+    withTools: boolean,
+    requestId?: string,
+    isCancelled?: () => boolean,
+  ): Promise<ChatResult> {
+    const gate = createToolGateState();
+    const proposals: ProposalSummary[] = [];
+    const accumulated: OpenAiMessage[] = [];
+
+    const finish = async (text: string): Promise<ChatResult> => {
+      if (gate.pendingBatch.length > 0) {
+        await createBatchProposal(proposalStoreFactory, gate.pendingBatch, userId, proposals);
+      }
+      return { text, proposals, executedTools: gate.executedTools };
+    };
+
+    for (let round = 1; round <= MAX_TOOL_ROUNDS + 1; round++) {
+      const { text, toolCalls } = await complete(
+        [...sessionMessages, ...accumulated],
+        withTools && !!scopedContext,
+        userId,
+        `local-chat-round-${round}`,
+      );
+
+      if (toolCalls.length === 0 || !scopedContext) {
+        return finish(text);
+      }
+
+      // Check cancellation before running another round of tools (#232)
+      if (isCancelled?.()) {
+        log.local.info({ requestId, sessionId, round }, "tool:cancelled");
+        return finish("I was interrupted before finishing. Here's what I had so far.");
+      }
+
+      log.local.debug({ requestId, sessionId, round, calls: toolCalls.map((c) => c.function.name) }, "tool:round");
+
+      accumulated.push({ role: "assistant", content: text || null, tool_calls: toolCalls });
+      const results = await Promise.all(toolCalls.map((call) => {
+        const args = parseToolArguments(call.function.arguments);
+        if (!args) {
+          return { tool: call.function.name, error: "Arguments were not a valid JSON object. Retry the call with valid JSON arguments." };
+        }
+        return runGatedToolCall(call.function.name, args, scopedContext, userId, gate, requestId);
+      }));
+      toolCalls.forEach((call, i) => {
+        accumulated.push({ role: "tool", tool_call_id: call.id, content: JSON.stringify(sanitizeToolResponse(results[i])) });
+      });
+    }
+
+    // Fallback: max rounds exceeded — ask model to summarize without tools
+    log.local.warn({ requestId, sessionId, rounds: MAX_TOOL_ROUNDS + 1 }, "tool:max-rounds");
+    accumulated.push({ role: "user", content: "Please provide a text response summarizing the tool results." });
+    const { text } = await complete([...sessionMessages, ...accumulated], false, userId, "local-chat-summary");
+    return finish(text);
+  }
+
+  /** Build user content: text only, or multimodal with image */
+  function buildUserContent(text: string, image?: ImagePart): string | OpenAiContentPart[] {
+    if (!image) return text;
+    return [
+      { type: "image_url", image_url: { url: `data:${image.inlineData.mimeType};base64,${image.inlineData.data}` } },
+      { type: "text", text },
+    ];
+  }
+
+  // ─── ChatEngine implementation ──────────────────────────────
+
+  return {
+    async chat(message: string, sessionId = "default", image?: ImagePart, userId?: string, requestId?: string, isCancelled?: () => boolean, toolMode?: ToolMode, _bulkDetected?: boolean, userRole?: string, route?: ChatRoute): Promise<ChatResult> {
+      const sessionKey = userId ? `${userId}:${sessionId}` : sessionId;
+      return withSessionLock(sessionKey, async () => {
+        const session = getSession(sessionKey, route?.history);
+        log.local.debug({ requestId, sessionId: sessionKey, messageLen: message.length, hasImage: !!image, historyLen: session.history.length, userId }, "chat:send");
+
+        const scopedContext = hasToolContext ? toolContextFactory!.forUser(userId ?? "local") : null;
+        const effectiveUserId = userId ?? "local";
+        const withTools = toolMode !== "none";
+
+        // ── MicroRunner pipeline (optional) ──────────────────
+        if (microRunner) {
+          const startTime = Date.now();
+          const governance: GovernanceContext = {
+            userId: effectiveUserId,
+            role: userRole ?? "ensign",
+            tenantId: effectiveUserId,
+            modelFamily: LOCAL_MODEL_ID,
+            procedureMode: "chat",
+          };
+          const { contract, gatedContext, augmentedMessage } = await microRunner.prepare(message, governance);
+
+          const messageCountBefore = session.messages.length;
+          session.messages.push({ role: "user", content: buildUserContent(augmentedMessage, image) });
+          const result = await sendAndHandleTools(
+            session.messages, sessionKey, scopedContext, effectiveUserId, withTools, requestId, isCancelled,
+          );
+          session.messages.push({ role: "assistant", content: result.text });
+
+          // Validate response against contract
+          let finalText = result.text;
+          const validation = await microRunner.validate(
+            finalText, contract, gatedContext, sessionKey, startTime, message, governance,
+          );
+          const receipt = validation.receipt;
+
+          if (validation.needsRepair && validation.repairPrompt) {
+            log.local.debug({ sessionId: sessionKey, violations: receipt.validationDetails }, "microrunner:repair");
+            session.messages.push({ role: "user", content: validation.repairPrompt });
+
+            finalText = (await complete(session.messages, false, effectiveUserId, "local-repair")).text;
+            session.messages.push({ role: "assistant", content: finalText });
+            receipt.repairAttempted = true;
+
+            const revalidation = await microRunner.validate(
+              finalText, contract, gatedContext, sessionKey, startTime, message, governance,
+            );
+            receipt.validationResult = revalidation.receipt.validationResult === "pass" ? "repaired" : "fail";
+            receipt.validationDetails = revalidation.receipt.validationDetails;
+            receipt.durationMs = Date.now() - startTime;
+
+            if (receipt.validationResult === "fail") {
+              // Escalate along the fallback chain unless the turn had side effects
+              if (route?.escalate && result.proposals.length === 0 && !result.executedTools?.length) {
+                microRunner.finalize(receipt);
+                session.messages.splice(messageCountBefore);
+                log.local.info({ requestId, sessionId: sessionKey, violations: receipt.validationDetails }, "microrunner:escalate");
+                return { text: finalText, proposals: [], validationFailed: true };
+              }
+              finalText = `${VALIDATION_DISCLAIMER}\n\n${finalText}`;
+            }
+          }
+
+          microRunner.finalize(receipt);
+          recordTurn(session, message, finalText);
+          log.local.debug({ requestId, sessionId: sessionKey, responseLen: finalText.length, historyLen: session.history.length }, "chat:recv");
+          return { ...result, text: finalText };
+        }
+
+        // ── Standard path (no MicroRunner) ────────────────────
+        // Only the user message and final text are kept in the session;
+        // intermediate tool exchanges stay inside sendAndHandleTools.
+        session.messages.push({ role: "user", content: buildUserContent(message, image) });
+        const result = await sendAndHandleTools(
+          session.messages, sessionKey, scopedContext, effectiveUserId, withTools, requestId, isCancelled,
+        );
+        session.messages.push({ role: "assistant", content: result.text });
+
+        recordTurn(session, image ? `[image: ${image.inlineData.mimeType}] ${message}` : message, result.text);
+        log.local.debug({ requestId, sessionId: sessionKey, responseLen: result.text.length, historyLen: session.history.length }, "chat:recv");
+        return result;
+      }); // end withSessionLock
+    },
+
+    getHistory(sessionId = "default"): Array<{ role: string; text: string }> {
+      const session = sessions.get(sessionId);
+      return session ? [...session.history] : [];
+    },
+
+    getSessionCount(): number {
+      return sessions.size;
+    },
+
+    closeSession(sessionId: string): void {
+      const deleted = sessions.delete(sessionId);
+      sessionLocks.delete(sessionId);
+      if (deleted) {
+        log.local.debug({ sessionId, remaining: sessions.size }, "session:close");
+      }
+    },
+
+    getModel(): string {
+      return LOCAL_MODEL_ID;
+    },
+
+    setModel(modelId: string): void {
+      // The server decides which weights are loaded — there is exactly one local model.
+      if (modelId !== LOCAL_MODEL_ID) {
+        throw new Error(`Unknown model: ${modelId}. The local engine only serves "${LOCAL_MODEL_ID}"`);
+      }
+    },
+
+    close(): void {
+      if (cleanupTimer) clearInterval(cleanupTimer);
+      sessions.clear();
+      sessionLocks.clear();
+      log.local.debug("engine:close");
+    },
+  };
+}
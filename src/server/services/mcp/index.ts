@@ -0,0 +1,9 @@
+/**
+ * mcp/index.ts — Barrel re-export for the Model Context Protocol server
+ *
+ * Majel — STFC Fleet Intelligence System
+ */
+
+export * from "./types.js";
+export * from "./server.js";
+export * from "./stdio.js";
@@ -0,0 +1,244 @@
+/**
+ * mcp/server.ts — Model Context Protocol server over the fleet tool registry
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Transport-agnostic JSON-RPC handler: the HTTP route (routes/mcp.ts) and the
+ * stdio entry point (mcp-stdio.ts) both feed parsed messages through here.
+ *
+ * Tools are the same FLEET_TOOL_DECLARATIONS the chat engines see. Mutation
+ * tools pass the same trust gate as chat (#93):
+ *   - auto:    Execute immediately
+ *   - approve: Stage a single-item proposal for the Admiral to apply
+ *   - block:   Reject — the tool must be unlocked in fleet.trust first
+ */
+
+import { readFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { log } from "../../logger.js";
+import {
+  executeFleetTool,
+  FLEET_TOOL_DECLARATIONS,
+  toClaudeTools,
+  toolRegistry,
+  type ToolContextFactory,
+} from "../fleet-tools/index.js";
+import { getTrustLevel, isMutationTool } from "../fleet-tools/trust.js";
+import {
+  createBatchProposal,
+  generatePreview,
+  resolveOverlayCreate,
+  sanitizeToolResponse,
+} from "../gemini/tool-dispatch.js";
+import type { ProposalStoreFactory } from "../../stores/proposal-store.js";
+import {
+  JsonRpcErrorCode,
+  type JsonRpcFailure,
+  type JsonRpcId,
+  type JsonRpcResponse,
+  type McpTool,
+  type McpToolResult,
+} from "./types.js";
+
+// ─── Constants ──────────────────────────────────────────────
+
+/** Protocol revisions this server speaks, newest first. */
+export const MCP_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"] as const;
+
+const SERVER_INSTRUCTIONS =
+  "Majel manages a Star Trek Fleet Command fleet. Read tools are always available. " +
+  "Mutation tools follow the Admiral's trust settings: some run immediately, some are staged " +
+  "as proposals that must be applied in Majel, and blocked tools are refused.";
+
+// Read version from package.json once at module load
+const SERVER_VERSION = (() => {
+  try {
+    const here = dirname(fileURLToPath(import.meta.url));
+    const pkg = JSON.parse(readFileSync(resolve(here, "../../../../package.json"), "utf-8"));
+    return String(pkg.version ?? "unknown");
+  } catch {
+    return "unknown";
+  }
+})();
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface McpServerDeps {
+  toolContextFactory: ToolContextFactory;
+  /** Needed to stage approve-tier mutations. Without it those calls fail. */
+  proposalStoreFactory?: ProposalStoreFactory | null;
+}
+
+export interface McpServer {
+  /**
+   * Handle one parsed JSON-RPC message (or batch) on behalf of a user.
+   * Returns null when nothing should be sent back (notifications only).
+   */
+  handle(message: unknown, userId: string): Promise<JsonRpcResponse | JsonRpcResponse[] | null>;
+  /** Tool list as served by tools/list for this user. */
+  listTools(userId: string): Promise<McpTool[]>;
+  /** Run a tool through the trust gate for this user. */
+  callTool(name: string, args: Record<string, unknown>, userId: string): Promise<McpToolResult>;
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function rpcError(id: JsonRpcId | null, code: number, message: string): JsonRpcFailure {
+  return { jsonrpc: "2.0", id, error: { code, message } };
+}
+
+function toolResult(payload: unknown, isError: boolean): McpToolResult {
+  const structuredContent = isRecord(payload) ? payload : { result: payload };
+  return {
+    content: [{ type: "text", text: JSON.stringify(structuredContent) }],
+    structuredContent,
+    isError,
+  };
+}
+
+/** Pick the client's protocol revision when we speak it, otherwise our newest. */
+export function negotiateProtocolVersion(requested: unknown): string {
+  return typeof requested === "string" && (MCP_PROTOCOL_VERSIONS as readonly string[]).includes(requested)
+    ? requested
+    : MCP_PROTOCOL_VERSIONS[0];
+}
+
+// ─── Factory ────────────────────────────────────────────────
+
+export function createMcpServer(deps: McpServerDeps): McpServer {
+  // Declarations are static — convert once. Only registered tools are served.
+  const baseTools = toClaudeTools(FLEET_TOOL_DECLARATIONS).filter((tool) => toolRegistry.has(tool.name));
+
+  async function listTools(userId: string): Promise<McpTool[]> {
+    const userSettingsStore = deps.toolContextFactory.forUser(userId).deps.userSettingsStore;
+    return Promise.all(baseTools.map(async (tool): Promise<McpTool> => {
+      const mutation = isMutationTool(tool.name);
+      const entry: McpTool = {
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.input_schema as unknown as Record<string, unknown>,
+        annotations: { readOnlyHint: !mutation },
+      };
+      if (mutation) {
+        entry._meta = { "majel/trust": await getTrustLevel(tool.name, userId, userSettingsStore) };
+      }
+      return entry;
+    }));
+  }
+
+  async function callTool(name: string, args: Record<string, unknown>, userId: string): Promise<McpToolResult> {
+    const env = deps.toolContextFactory.forUser(userId);
+
+    if (isMutationTool(name)) {
+      const isCreate = await resolveOverlayCreate(name, args, env);
+      const trustLevel = await getTrustLevel(name, userId, env.deps.userSettingsStore, isCreate);
+      log.fleet.debug({ tool: name, userId, trustLevel }, "mcp:mutation");
+
+      if (trustLevel === "block") {
+        return toolResult({
+          tool: name,
+          blocked: true,
+          error: `Tool "${name}" is blocked. The Admiral must unlock it in fleet settings (fleet.trust) before it can be used.`,
+        }, true);
+      }
+
+      if (trustLevel === "approve") {
+        const preview = generatePreview(name, args);
+        const proposal = await createBatchProposal(deps.proposalStoreFactory, [{ tool: name, args, preview }], userId, []);
+        if (!proposal) {
+          return toolResult({ tool: name, error: "Proposal store not available — this tool needs Admiral approval and cannot be staged." }, true);
+        }
+        return toolResult({
+          tool: name,
+          staged: true,
+          proposalId: proposal.id,
+          preview,
+          expiresAt: proposal.expiresAt,
+          message: `Staged for Admiral approval: ${preview}. Apply it in Majel (POST /api/mutations/proposals/${proposal.id}/apply) before it expires.`,
+        }, false);
+      }
+    }
+
+    const result = await executeFleetTool(name, args, env);
+    return toolResult(sanitizeToolResponse(result) ?? {}, "error" in result);
+  }
+
+  async function handleOne(message: unknown, userId: string): Promise<JsonRpcResponse | null> {
+    if (!isRecord(message) || message.jsonrpc !== "2.0" || typeof message.method !== "string") {
+      const id = isRecord(message) && (typeof message.id === "string" || typeof message.id === "number") ? message.id : null;
+      return rpcError(id, JsonRpcErrorCode.INVALID_REQUEST, "Invalid JSON-RPC 2.0 request");
+    }
+
+    const { method } = message;
+    const params = isRecord(message.params) ? message.params : {};
+
+    // Notifications carry no id and never get a response
+    if (message.id === undefined || message.id === null) {
+      log.fleet.debug({ method, userId }, "mcp:notification");
+      return null;
+    }
+    if (typeof message.id !== "string" && typeof message.id !== "number") {
+      return rpcError(null, JsonRpcErrorCode.INVALID_REQUEST, "id must be a string or number");
+    }
+    const id = message.id;
+
+    try {
+      switch (method) {
+        case "initialize":
+          return {
+            jsonrpc: "2.0",
+            id,
+            result: {
+              protocolVersion: negotiateProtocolVersion(params.protocolVersion),
+              capabilities: { tools: { listChanged: false } },
+              serverInfo: { name: "majel", title: "Majel — STFC Fleet Intelligence", version: SERVER_VERSION },
+              instructions: SERVER_INSTRUCTIONS,
+            },
+          };
+
+        case "ping":
+          return { jsonrpc: "2.0", id, result: {} };
+
+        case "tools/list":
+          return { jsonrpc: "2.0", id, result: { tools: await listTools(userId) } };
+
+        case "tools/call": {
+          if (typeof params.name !== "string" || !params.name) {
+            return rpcError(id, JsonRpcErrorCode.INVALID_PARAMS, "params.name is required");
+          }
+          if (!toolRegistry.has(params.name)) {
+            return rpcError(id, JsonRpcErrorCode.INVALID_PARAMS, `Unknown tool: ${params.name}`);
+          }
+          if (params.arguments !== undefined && !isRecord(params.arguments)) {
+            return rpcError(id, JsonRpcErrorCode.INVALID_PARAMS, "params.arguments must be an object");
+          }
+          const args = isRecord(params.arguments) ? { ...params.arguments } : {};
+          const result = await callTool(params.name, args, userId);
+          return { jsonrpc: "2.0", id, result: { ...result } };
+        }
+
+        default:
+          return rpcError(id, JsonRpcErrorCode.METHOD_NOT_FOUND, `Method not found: ${method}`);
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      log.fleet.error({ method, userId, err: msg }, "mcp:error");
+      return rpcError(id, JsonRpcErrorCode.INTERNAL_ERROR, msg);
+    }
+  }
+
+  async function handle(message: unknown, userId: string): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+    if (!Array.isArray(message)) return handleOne(message, userId);
+    if (message.length === 0) return rpcError(null, JsonRpcErrorCode.INVALID_REQUEST, "Empty batch");
+    const responses = (await Promise.all(message.map((entry) => handleOne(entry, userId))))
+      .filter((response): response is JsonRpcResponse => response !== null);
+    return responses.length > 0 ? responses : null;
+  }
+
+  return { handle, listTools, callTool };
+}
@@ -0,0 +1,120 @@
+/**
+ * mcp/stdio-boot.ts — Standalone store wiring for the stdio MCP server
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Desktop MCP clients spawn Majel as a child process, so there is no HTTP
+ * server to borrow stores from. This opens the same pools as boot, brings up
+ * only the stores the fleet tools need, authenticates MAJEL_MCP_TOKEN and
+ * serves JSON-RPC on stdin/stdout until the client hangs up.
+ */
+
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { log } from "../../logger.js";
+import { createPool, ensureAppRole } from "../../db.js";
+import { bootstrapConfigSync, resolveConfig, type AppConfig } from "../../config.js";
+import { createSettingsStore } from "../../stores/settings.js";
+import { createReferenceStore } from "../../stores/reference-store.js";
+import { createOverlayStoreFactory } from "../../stores/overlay-store.js";
+import { createCrewStoreFactory } from "../../stores/crew-store.js";
+import { createTargetStoreFactory } from "../../stores/target-store.js";
+import { createReceiptStoreFactory } from "../../stores/receipt-store.js";
+import { createResearchStoreFactory } from "../../stores/research-store.js";
+import { createInventoryStoreFactory } from "../../stores/inventory-store.js";
+import { createBattleReportStoreFactory } from "../../stores/battle-report-store.js";
+import { createDecisionStoreFactory } from "../../stores/decision-store.js";
+import { createAllianceStoreFactory } from "../../stores/alliance-store.js";
+import { createProposalStoreFactory } from "../../stores/proposal-store.js";
+import { createUserSettingsStore } from "../../stores/user-settings-store.js";
+import { createEffectStore } from "../../stores/effect-store.js";
+import { createUserStore, deriveAdminUserId, roleLevel } from "../../stores/user-store.js";
+import { createApiTokenStore, type ApiTokenStore } from "../../stores/api-token-store.js";
+import { timingSafeCompare } from "../password.js";
+import { loadResourceDefs } from "../resource-defs.js";
+import { createToolContextFactory } from "../fleet-tools/tool-context.js";
+import { createMcpServer } from "./server.js";
+import { runStdioTransport } from "./stdio.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+/**
+ * Resolve the MCP token to a user ID with the same rules as requireVisitor:
+ * auth disabled → "local"; admin token → derived Admiral; otherwise a live
+ * personal access token with the "mcp" scope, owned by a verified, unlocked
+ * user of lieutenant rank or higher.
+ */
+export async function resolveStdioUser(
+  token: string | undefined,
+  config: Pick<AppConfig, "authEnabled" | "adminToken">,
+  apiTokenStore: Pick<ApiTokenStore, "resolveToken" | "touchToken"> | null,
+): Promise<string> {
+  if (!config.authEnabled) return "local";
+  if (!token) throw new Error("MAJEL_MCP_TOKEN is required — mint one with POST /api/mcp/token");
+
+  if (config.adminToken && timingSafeCompare(token, config.adminToken)) {
+    return deriveAdminUserId(config.adminToken);
+  }
+
+  const resolved = apiTokenStore ? await apiTokenStore.resolveToken(token) : null;
+  if (!resolved) throw new Error("MAJEL_MCP_TOKEN is invalid or expired");
+  if (!resolved.scopes.includes("mcp")) throw new Error("MAJEL_MCP_TOKEN lacks the mcp scope");
+  if (!resolved.emailVerified) throw new Error("Please verify your email before using MCP");
+  if (resolved.lockedAt) throw new Error("Account is temporarily locked");
+  if (roleLevel(resolved.role) < roleLevel("lieutenant")) {
+    throw new Error("Minimum rank required: lieutenant");
+  }
+  apiTokenStore?.touchToken(resolved.tokenId).catch(() => {});
+  return resolved.userId;
+}
+
+/** Wire stores, authenticate, and serve MCP on stdio. Resolves when stdin closes. */
+export async function startStdioServer(): Promise<void> {
+  const adminPool = createPool(bootstrapConfigSync().databaseAdminUrl);
+  await ensureAppRole(adminPool);
+  const settingsStore = await createSettingsStore(adminPool);
+  const config = await resolveConfig(settingsStore);
+  const pool = createPool(config.databaseUrl);
+
+  try {
+    // Users first — api_tokens holds a foreign key into them
+    await createUserStore(adminPool, pool);
+    const apiTokenStore = await createApiTokenStore(adminPool, pool);
+    const userId = await resolveStdioUser(config.mcpToken || undefined, config, apiTokenStore);
+
+    // Reference tables first — overlay and crew tables hold foreign keys into them (ADR-047)
+    const referenceStore = await createReferenceStore(adminPool, pool);
+    const [
+      overlayStoreFactory, crewStoreFactory, targetStoreFactory, receiptStoreFactory,
+      researchStoreFactory, inventoryStoreFactory, battleReportStoreFactory, proposalStoreFactory,
+      userSettingsStore, effectStore, decisionStoreFactory, allianceStoreFactory,
+    ] = await Promise.all([
+      createOverlayStoreFactory(adminPool, pool),
+      createCrewStoreFactory(adminPool, pool),
+      createTargetStoreFactory(adminPool, pool),
+      createReceiptStoreFactory(adminPool, pool),
+      createResearchStoreFactory(adminPool, pool),
+      createInventoryStoreFactory(adminPool, pool),
+      createBattleReportStoreFactory(adminPool, pool),
+      createProposalStoreFactory(adminPool, pool),
+      createUserSettingsStore(adminPool, pool, settingsStore),
+      createEffectStore(adminPool, pool),
+      createDecisionStoreFactory(adminPool, pool),
+      createAllianceStoreFactory(adminPool, pool),
+    ]);
+    const resourceDefs = loadResourceDefs(path.join(__dirname, "../../../../data/.stfc-snapshot"));
+
+    const toolContextFactory = createToolContextFactory({
+      referenceStore, overlayStoreFactory, crewStoreFactory, targetStoreFactory, receiptStoreFactory,
+      researchStoreFactory, inventoryStoreFactory, battleReportStoreFactory, userSettingsStore, effectStore,
+      decisionStoreFactory, allianceStoreFactory,
+    }, resourceDefs)!;
+
+    log.boot.info({ userId }, "mcp stdio server online");
+    await runStdioTransport(createMcpServer({ toolContextFactory, proposalStoreFactory }), userId);
+    log.boot.info("mcp stdio client disconnected");
+  } finally {
+    await pool.end();
+    await adminPool.end();
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * mcp/stdio.ts — Newline-delimited JSON-RPC transport over stdin/stdout
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Every line on input is one JSON-RPC message (or batch); every response is
+ * written as one line on output. Nothing else may touch stdout — logs go
+ * to stderr (see mcp-stdio.ts).
+ */
+
+import { createInterface } from "node:readline";
+import type { Readable, Writable } from "node:stream";
+import { JsonRpcErrorCode, type JsonRpcResponse } from "./types.js";
+import type { McpServer } from "./server.js";
+
+/**
+ * Serve MCP over a line stream for a single authenticated user.
+ * Resolves when the input closes, after in-flight requests have answered.
+ */
+export async function runStdioTransport(
+  server: McpServer,
+  userId: string,
+  input: Readable = process.stdin,
+  output: Writable = process.stdout,
+): Promise<void> {
+  const write = (response: JsonRpcResponse | JsonRpcResponse[]) => {
+    output.write(JSON.stringify(response) + "\n");
+  };
+
+  const pending = new Set<Promise<void>>();
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      write({ jsonrpc: "2.0", id: null, error: { code: JsonRpcErrorCode.PARSE_ERROR, message: "Parse error" } });
+      continue;
+    }
+
+    // Requests run concurrently, like the HTTP transport; responses carry their id.
+    const task = server.handle(message, userId).then((response) => {
+      if (response) write(response);
+    });
+    pending.add(task);
+    void task.finally(() => pending.delete(task));
+  }
+
+  await Promise.all(pending);
+}
@@ -0,0 +1,65 @@
+/**
+ * mcp/types.ts — Model Context Protocol wire types
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * The JSON-RPC 2.0 envelope and the subset of MCP messages Majel serves
+ * (lifecycle, ping, tools/list, tools/call).
+ */
+
+// ─── JSON-RPC 2.0 ───────────────────────────────────────────
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcSuccess {
+  jsonrpc: "2.0";
+  id: JsonRpcId;
+  result: Record<string, unknown>;
+}
+
+export interface JsonRpcFailure {
+  jsonrpc: "2.0";
+  id: JsonRpcId | null;
+  error: { code: number; message: string; data?: unknown };
+}
+
+export type JsonRpcResponse = JsonRpcSuccess | JsonRpcFailure;
+
+/** Standard JSON-RPC error codes. */
+export const JsonRpcErrorCode = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+} as const;
+
+// ─── MCP Tools ──────────────────────────────────────────────
+
+export interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  annotations: { readOnlyHint: boolean };
+  /** Mutation tools carry the caller's trust tier (auto / approve / block). */
+  _meta?: { "majel/trust": string };
+}
+
+export interface McpToolResult {
+  content: Array<{ type: "text"; text: string }>;
+  structuredContent: Record<string, unknown>;
+  isError: boolean;
+}
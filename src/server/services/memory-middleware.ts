@@ -45,7 +45,7 @@ export function attachScopedMemory(appState: AppState): RequestHandler {
       const store = ctx
         ? appState.frameStoreFactory.forContext(ctx)
         : appState.frameStoreFactory.forUser(userId);
-      res.locals.memory = createMemoryService(store);
+      res.locals.memory = createMemoryService(store, appState.embedder);
     } else if (appState.memoryService) {
       // Fallback: shared (unscoped) memory service (SQLite or system-scoped PG)
       res.locals.memory = appState.memoryService;
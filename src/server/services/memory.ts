@@ -14,15 +14,38 @@
  * When using PostgreSQL, the FrameStore is pre-scoped to a user via
  * FrameStoreFactory.forUser(). RLS enforces isolation at the DB level.
  * The MemoryService API has NO userId parameters — isolation is structural.
+ *
+ * Recall is hybrid (semantic-recall.ts): each frame also carries an
+ * embedding, and results blend cosine similarity with the full-text rank.
+ * Frames saved before embeddings existed are embedded lazily on recall and
+ * by backfillEmbeddings().
  */
 
 import { createFrameStore } from "@smartergpt/lex/store";
 import { createFrame } from "@smartergpt/lex/types";
 import type { Frame, FrameStore } from "@smartergpt/lex/store";
 import { log } from "../logger.js";
+import {
+  cosineSimilarity,
+  createHashingEmbedder,
+  frameEmbeddingText,
+  isVectorFrameStore,
+  rankHybrid,
+  turnEmbeddingText,
+  type Embedder,
+  type RecallHit,
+  type ScoredFrame,
+} from "./semantic-recall.js";
 
 // Re-export Frame type for consumers
 export type { Frame };
+export type { RecallHit };
+
+/** Frames embedded per recall before searching — keeps the first recall after an upgrade fast */
+const LAZY_BACKFILL_LIMIT = 100;
+/** Candidates gathered from each side before hybrid ranking */
+const CANDIDATE_MULTIPLIER = 3;
+const BACKFILL_BATCH = 50;
 
 export interface ConversationTurn {
   question: string;
@@ -36,6 +59,15 @@ export interface MemoryService {
   /** Search past conversations by free-text query. */
   recall(query: string, limit?: number): Promise<Frame[]>;
 
+  /** Hybrid keyword + vector search, with scores. */
+  search(query: string, limit?: number): Promise<RecallHit[]>;
+
+  /**
+   * Embed frames that have no vector from the current embedder.
+   * Returns the number of frames embedded (0 for stores without vectors).
+   */
+  backfillEmbeddings(limit?: number): Promise<number>;
+
   /** Get recent conversation timeline. */
   timeline(limit?: number): Promise<Frame[]>;
 
@@ -57,8 +89,13 @@ export interface MemoryService {
  *
  * For PostgreSQL (production, ADR-021):
  *   createMemoryService(factory.forUser(userId))  // pre-scoped via RLS
+ *
+ * `embedder` defaults to the built-in hashing embedder.
  */
-export function createMemoryService(storeOrPath?: FrameStore | string): MemoryService {
+export function createMemoryService(
+  storeOrPath?: FrameStore | string,
+  embedder: Embedder = createHashingEmbedder(),
+): MemoryService {
   const store: FrameStore = typeof storeOrPath === "string" || storeOrPath === undefined
     ? createFrameStore(storeOrPath)
     : storeOrPath;
@@ -67,7 +104,7 @@ export function createMemoryService(storeOrPath?: FrameStore | string): MemorySe
     ? "postgres (RLS-scoped)"
     : `${process.env.LEX_WORKSPACE_ROOT || process.cwd()}/.smartergpt/lex/memory.db`;
 
-  return {
+  const service: MemoryService = {
     async remember(turn: ConversationTurn): Promise<Frame> {
       // Extract a reference point from the question (first ~60 chars)
       const refPoint = turn.question.length > 60
@@ -87,6 +124,15 @@ export function createMemoryService(storeOrPath?: FrameStore | string): MemorySe
       });
 
       await store.saveFrame(frame);
+      if (isVectorFrameStore(store)) {
+        try {
+          const [embedding] = await embedder.embed([turnEmbeddingText(turn.question, turn.answer)]);
+          await store.saveEmbedding(frame.id, embedder.id, embedding);
+        } catch (err) {
+          // The frame is saved; backfill embeds it later
+          log.lex.warn({ err: err instanceof Error ? err.message : String(err), frameId: frame.id }, "embedding failed");
+        }
+      }
       log.lex.debug({
         frameId: frame.id,
         branch: frame.branch,
@@ -98,9 +144,66 @@ export function createMemoryService(storeOrPath?: FrameStore | string): MemorySe
     },
 
     async recall(query: string, limit = 10): Promise<Frame[]> {
-      const results = await store.searchFrames({ query, limit });
-      log.lex.debug({ query, limit, resultsFound: results.length }, "recall");
-      return results;
+      const hits = await service.search(query, limit);
+      return hits.map((h) => h.frame);
+    },
+
+    async search(query: string, limit = 10): Promise<RecallHit[]> {
+      const candidates = limit * CANDIDATE_MULTIPLIER;
+      let vectorHits: ScoredFrame[] = [];
+      let keywordHits: ScoredFrame[];
+
+      if (isVectorFrameStore(store)) {
+        keywordHits = await store.searchFramesRanked(query, candidates);
+        // An unreachable embedding server degrades recall to keywords only
+        try {
+          await service.backfillEmbeddings(LAZY_BACKFILL_LIMIT);
+          const [queryEmbedding] = await embedder.embed([query]);
+          vectorHits = await store.findSimilar(queryEmbedding, embedder.id, candidates);
+        } catch (err) {
+          log.lex.warn({ err: err instanceof Error ? err.message : String(err), embedder: embedder.id }, "vector recall failed");
+        }
+      } else {
+        // No stored vectors (SQLite): rank Lex's keyword matches by position
+        // and re-score them against the query's embedding.
+        const frames = await store.searchFrames({ query, limit: candidates });
+        keywordHits = frames.map((frame: Frame, i: number) => ({ frame, score: frames.length - i }));
+        if (frames.length > 0) {
+          try {
+            const [queryEmbedding, ...embeddings] = await embedder.embed([query, ...frames.map(frameEmbeddingText)]);
+            vectorHits = frames.map((frame: Frame, i: number) => ({ frame, score: cosineSimilarity(queryEmbedding, embeddings[i]) }));
+          } catch (err) {
+            log.lex.warn({ err: err instanceof Error ? err.message : String(err), embedder: embedder.id }, "vector recall failed");
+          }
+        }
+      }
+
+      const hits = rankHybrid(vectorHits, keywordHits, limit, embedder.minSimilarity);
+      log.lex.debug({
+        query,
+        limit,
+        embedder: embedder.id,
+        vectorCandidates: vectorHits.length,
+        keywordCandidates: keywordHits.length,
+        resultsFound: hits.length,
+      }, "recall");
+      return hits;
+    },
+
+    async backfillEmbeddings(limit = Infinity): Promise<number> {
+      if (!isVectorFrameStore(store)) return 0;
+      let embedded = 0;
+      while (embedded < limit) {
+        const frames = await store.listFramesWithoutEmbedding(embedder.id, Math.min(BACKFILL_BATCH, limit - embedded));
+        if (frames.length === 0) break;
+        const embeddings = await embedder.embed(frames.map(frameEmbeddingText));
+        for (let i = 0; i < frames.length; i++) {
+          await store.saveEmbedding(frames[i].id, embedder.id, embeddings[i]);
+        }
+        embedded += frames.length;
+      }
+      if (embedded > 0) log.lex.debug({ embedder: embedder.id, embedded }, "embeddings backfilled");
+      return embedded;
     },
 
     async timeline(limit = 20): Promise<Frame[]> {
@@ -126,6 +229,7 @@ export function createMemoryService(storeOrPath?: FrameStore | string): MemorySe
       return dbDescription;
     },
   };
+  return service;
 }
 
 /**
@@ -19,6 +19,9 @@ import type { GovernanceRuleStore } from "./governance/rule-store.js";
 import type { TrustGapStore } from "./governance/trust-gap.js";
 import type { DerivedConstraintSet, TrustGapEvent, AgentTrustProfile } from "./governance/types.js";
 import { deriveConstraints } from "./governance/derive.js";
+import { getFallbackScope } from "./model-fallback.js";
+import type { FleetDecision } from "../stores/decision-store.js";
+import { formatDecisionBlock, type DecisionSource } from "./decision-memory.js";
 
 // ─── Types ──────────────────────────────────────────────────
 
@@ -85,6 +88,8 @@ export interface MicroRunnerReceipt {
   validationDetails: string[];
   repairAttempted: boolean;
   durationMs: number;
+  /** Models the fallback chain tried for this message, ending with this attempt's. */
+  fallbackPath: string[];
 }
 
 /**
@@ -175,6 +180,7 @@ export interface ContextBudgetResult {
 /** Default truncation order: drop least-critical context blocks first */
 const DEFAULT_TRUNCATION_ORDER = [
   "behavioralRules",
+  "fleetDecisions",
   "t2Reference",
   "t1Roster",
   "t1FleetConfig",
@@ -265,6 +271,11 @@ export function applyContextBudget(
       current = current.replace(/\[BEHAVIORAL RULES\][\s\S]*?\[END BEHAVIORAL RULES\]\n*/g, "");
       if (current !== before) truncated.push("behavioralRules");
     }
+    if (block === "fleetDecisions") {
+      const before = current;
+      current = current.replace(/\[FLEET DECISIONS\][\s\S]*?\[END FLEET DECISIONS\]\n*/g, "");
+      if (current !== before) truncated.push("fleetDecisions");
+    }
     // Future context blocks (t2Reference, t1Roster, t1FleetConfig)
     // will have their own markers and removal logic here.
   }
@@ -485,11 +496,13 @@ export interface GatedContext {
  *
  * Previously injected T2 officer reference data proactively; now the model
  * uses its tools (get_officer_detail, search_officers) on demand instead.
- * Retained as a seam for future context sources.
+ * The user's active fleet decisions (decision-memory.ts) are the one block
+ * injected for every task type — they constrain advice of any kind.
  */
 export function gateContext(
   _contract: TaskContract,
   contextSources: ContextSources,
+  decisions: FleetDecision[] = [],
 ): GatedContext {
   // Track which context sources are available, even though injection
   // is now tool-based on demand.  Provides forensic signal in receipts.
@@ -499,7 +512,10 @@ export function gateContext(
   if (contextSources.hasDockBriefing) keysInjected.push("t1:dockBriefing");
   if (contextSources.lookupOfficer) keysInjected.push("t2:officerLookup");
 
-  return { contextBlock: null, keysInjected, t2Provenance: [] };
+  const contextBlock = formatDecisionBlock(decisions);
+  if (contextBlock) keysInjected.push("t1:decisions");
+
+  return { contextBlock, keysInjected, t2Provenance: [] };
 }
 
 /**
@@ -734,9 +750,14 @@ export interface MicroRunnerConfig {
   governanceRuleStore?: GovernanceRuleStore;
   /** Trust-gap event store for pattern learning (Phase R1). */
   trustGapStore?: TrustGapStore;
+  /** The user's standing fleet decisions, injected by the ContextGate. */
+  decisionSource?: DecisionSource;
 }
 
 export interface MicroRunner {
+  /** Classify a message without gating context — drives fallback-chain routing. */
+  classify(message: string): TaskType;
+
   /**
    * Process a message through the full pipeline:
    * compile → gate → (let caller send to model) → validate
@@ -816,6 +837,10 @@ function sanitizeRuleText(text: string): string {
 
 export function createMicroRunner(config: MicroRunnerConfig): MicroRunner {
   return {
+    classify(message: string): TaskType {
+      return compileTask(message, config.contextSources, config.knownOfficerNames).taskType;
+    },
+
     async prepare(message: string, governance?: GovernanceContext) {
       const contract = compileTask(message, config.contextSources, config.knownOfficerNames);
 
@@ -833,7 +858,17 @@ export function createMicroRunner(config: MicroRunnerConfig): MicroRunner {
         }
       }
 
-      const gated = gateContext(contract, config.contextSources);
+      // Decisions are per user — without governance there is no user to load for
+      let decisions: FleetDecision[] = [];
+      if (config.decisionSource && governance) {
+        try {
+          decisions = await config.decisionSource.activeDecisions(governance.userId);
+        } catch (err) {
+          log.gemini.warn({ err: err instanceof Error ? err.message : String(err) }, "microrunner:decisions-unavailable");
+        }
+      }
+
+      const gated = gateContext(contract, config.contextSources, decisions);
 
       // Phase 4d: Surface behavioral rules in the augmented message so the
       // model can follow them during generation, not just post-validation.
@@ -947,6 +982,7 @@ export function createMicroRunner(config: MicroRunnerConfig): MicroRunner {
         validationDetails: result.violations,
         repairAttempted: false,
         durationMs,
+        fallbackPath: getFallbackScope()?.path ?? [],
       };
 
       // Shadow mode: log violations but do NOT trigger repair
@@ -1014,6 +1050,7 @@ export function createMicroRunner(config: MicroRunnerConfig): MicroRunner {
         violations: receipt.validationDetails,
         repairAttempted: receipt.repairAttempted,
         durationMs: receipt.durationMs,
+        fallbackPath: receipt.fallbackPath,
       }, "microrunner:receipt");
 
       // Persist trust-gap events asynchronously (fire-and-forget)
@@ -8,6 +8,7 @@
  */
 
 import { MODEL_REGISTRY_MAP, type ModelDef } from "./gemini/model-registry.js";
+import type { AppConfig } from "../config.js";
 
 // ─── Types ────────────────────────────────────────────────────
 
@@ -21,6 +22,7 @@ export type ModelOverrides = Record<string, ModelOverride>;
 export interface ProviderCapabilities {
   gemini: boolean;
   claude: boolean;
+  local: boolean;
 }
 
 export interface ModelAvailability {
@@ -32,6 +34,30 @@ export interface ModelAvailability {
   effectiveReason?: string;
 }
 
+/** Human-readable provider names for "not configured" reasons. */
+const PROVIDER_LABELS: Record<ModelDef["provider"], string> = {
+  gemini: "Gemini",
+  claude: "Vertex AI",
+  local: "Local model server",
+};
+
+// ─── Provider Capabilities ────────────────────────────────────
+
+/**
+ * Derive which providers are configured. Gemini stays capable without a key
+ * (stub engine, dev) unless this is a local-only install, where Gemini
+ * models would silently route to the local engine.
+ */
+export function resolveProviderCapabilities(
+  config: Pick<AppConfig, "geminiApiKey" | "vertexProjectId" | "localModelUrl">,
+): ProviderCapabilities {
+  return {
+    gemini: !!config.geminiApiKey || !config.localModelUrl,
+    claude: !!config.vertexProjectId,
+    local: !!config.localModelUrl,
+  };
+}
+
 // ─── Resolver ─────────────────────────────────────────────────
 
 /**
@@ -75,7 +101,7 @@ export function resolveModelAvailability(
   let effectiveReason: string | undefined;
   if (!available) {
     if (!providerCapable) {
-      effectiveReason = `${model.provider === "claude" ? "Vertex AI" : "Gemini"} provider not configured`;
+      effectiveReason = `${PROVIDER_LABELS[model.provider]} provider not configured`;
     } else if (!roleAllowed) {
       effectiveReason = "Requires admiral role";
     } else if (!effectiveEnabled) {
@@ -0,0 +1,202 @@
+/**
+ * model-fallback.ts — Per-task model fallback chains
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * The engine manager serves each message along a chain of models chosen by
+ * the message's TaskType (compileTask). It moves to the next model when a
+ * provider fails (overload, quota, timeout) or when the micro-runner's
+ * validation still fails after repair. A per-model circuit breaker skips
+ * models that keep failing, so an outage costs one timeout rather than one
+ * per message.
+ *
+ * The chain travelled so far is bound to AsyncLocalStorage for the duration
+ * of each attempt, the same way context-store.ts carries request
+ * correlation: the token ledger and MicroRunnerReceipt read it for telemetry
+ * without threading it through every engine call site.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { MODEL_REGISTRY_MAP } from "./gemini/model-registry.js";
+import type { TaskType } from "./micro-runner.js";
+
+// ─── Types ────────────────────────────────────────────────────
+
+/** Chain key: a TaskType, or "default" for tasks without their own chain. */
+export type FallbackChainKey = TaskType | "default";
+
+export type FallbackChains = Partial<Record<FallbackChainKey, string[]>>;
+
+export type FallbackOutcome =
+  /** This model's answer was returned */
+  | "served"
+  /** Overload, quota, timeout or 5xx — moved to the next model */
+  | "provider_error"
+  /** Validation still failed after repair — escalated to the next model */
+  | "validation_failed"
+  /** Skipped: the model's circuit breaker is open */
+  | "circuit_open"
+  /** Skipped: no engine is configured for the model's provider */
+  | "unavailable";
+
+export interface FallbackHop {
+  modelId: string;
+  outcome: FallbackOutcome;
+  /** Error message for provider failures */
+  detail?: string;
+}
+
+/** Telemetry scope for one attempt along a chain. */
+export interface FallbackScope {
+  taskType: FallbackChainKey;
+  /** Models attempted for this message so far, ending with the current one */
+  path: string[];
+}
+
+const CHAIN_KEYS: readonly FallbackChainKey[] = [
+  "reference_lookup", "dock_planning", "fleet_query", "strategy_general", "default",
+];
+
+// ─── Settings ─────────────────────────────────────────────────
+
+/**
+ * Parse the model.fallbackChains JSON blob from the SettingsStore.
+ * Unknown keys, unknown model IDs and duplicates are dropped; returns an
+ * empty object on parse failure.
+ */
+export function parseFallbackChains(raw: string): FallbackChains {
+  if (!raw || raw === "{}") return {};
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) return {};
+    const result: FallbackChains = {};
+    for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+      if (!CHAIN_KEYS.includes(key as FallbackChainKey) || !Array.isArray(value)) continue;
+      const models = [...new Set(value.filter((id): id is string => typeof id === "string" && MODEL_REGISTRY_MAP.has(id)))];
+      if (models.length > 0) result[key as FallbackChainKey] = models;
+    }
+    return result;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Plan the models to try for one message. The chain for the task type (or
+ * "default") is entered at the currently selected model, so escalation only
+ * moves forward from what the Admiral picked; a selected model that is not
+ * in the chain is tried first. Without a chain the selected model is the
+ * only candidate — the pre-fallback behavior.
+ */
+export function planFallbackRoute(chains: FallbackChains, taskType: TaskType | null, currentModelId: string): string[] {
+  const chain = (taskType ? chains[taskType] : undefined) ?? chains.default ?? [];
+  const at = chain.indexOf(currentModelId);
+  if (at >= 0) return chain.slice(at);
+  return [currentModelId, ...chain.filter((id) => id !== currentModelId)];
+}
+
+// ─── Provider Failures ────────────────────────────────────────
+
+const PROVIDER_FAILURE_STATUS = new Set([408, 429, 500, 502, 503, 504, 529]);
+const PROVIDER_FAILURE_PATTERN = /RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded|quota|rate.?limit|timeout|timed out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|fetch failed/i;
+
+/**
+ * Whether an engine error is the provider's fault (worth trying another
+ * model) rather than a bug or bad request that would fail anywhere.
+ */
+export function isProviderFailure(err: unknown): boolean {
+  if (!err || typeof err !== "object") return false;
+  const e = err as { status?: unknown; httpStatusCode?: unknown; name?: unknown; message?: unknown };
+  const status = typeof e.status === "number" ? e.status : typeof e.httpStatusCode === "number" ? e.httpStatusCode : null;
+  if (status !== null) return PROVIDER_FAILURE_STATUS.has(status);
+  if (e.name === "TimeoutError" || e.name === "AbortError") return true;
+  return typeof e.message === "string" && PROVIDER_FAILURE_PATTERN.test(e.message);
+}
+
+// ─── Circuit Breaker ──────────────────────────────────────────
+
+export interface CircuitBreakerOptions {
+  /** Consecutive provider failures that open a model's circuit. Default 3. */
+  failureThreshold?: number;
+  /** How long an open circuit skips the model before one trial call. Default 60s. */
+  cooldownMs?: number;
+  /** Clock, for tests. */
+  now?: () => number;
+}
+
+export interface CircuitBreaker {
+  /** False while the model's circuit is open. After the cooldown one trial call is allowed. */
+  allows(modelId: string): boolean;
+  recordSuccess(modelId: string): void;
+  recordFailure(modelId: string): void;
+  /** Models whose circuit is currently open, with the time they reopen for a trial. */
+  openCircuits(): Array<{ modelId: string; retryAt: number }>;
+}
+
+interface CircuitState {
+  failures: number;
+  openedAt: number | null;
+  trialInFlight: boolean;
+}
+
+export function createCircuitBreaker(options: CircuitBreakerOptions = {}): CircuitBreaker {
+  const threshold = options.failureThreshold ?? 3;
+  const cooldownMs = options.cooldownMs ?? 60_000;
+  const now = options.now ?? Date.now;
+  const states = new Map<string, CircuitState>();
+
+  function stateFor(modelId: string): CircuitState {
+    let state = states.get(modelId);
+    if (!state) {
+      state = { failures: 0, openedAt: null, trialInFlight: false };
+      states.set(modelId, state);
+    }
+    return state;
+  }
+
+  return {
+    allows(modelId) {
+      const state = states.get(modelId);
+      if (!state || state.openedAt === null) return true;
+      if (now() - state.openedAt < cooldownMs || state.trialInFlight) return false;
+      // Half-open: let exactly one call through to probe the provider
+      state.trialInFlight = true;
+      return true;
+    },
+
+    recordSuccess(modelId) {
+      states.delete(modelId);
+    },
+
+    recordFailure(modelId) {
+      const state = stateFor(modelId);
+      state.failures++;
+      state.trialInFlight = false;
+      if (state.openedAt !== null || state.failures >= threshold) {
+        state.openedAt = now();
+      }
+    },
+
+    openCircuits() {
+      const result: Array<{ modelId: string; retryAt: number }> = [];
+      for (const [modelId, state] of states) {
+        if (state.openedAt !== null) result.push({ modelId, retryAt: state.openedAt + cooldownMs });
+      }
+      return result;
+    },
+  };
+}
+
+// ─── Telemetry Scope ──────────────────────────────────────────
+
+const fallbackStorage = new AsyncLocalStorage<FallbackScope>();
+
+/** Run one attempt of a chain with its scope bound for telemetry. */
+export function runInFallbackScope<T>(scope: FallbackScope, fn: () => T): T {
+  return fallbackStorage.run(scope, fn);
+}
+
+/** The current attempt's scope, or undefined outside the engine manager. */
+export function getFallbackScope(): FallbackScope | undefined {
+  return fallbackStorage.getStore();
+}
@@ -0,0 +1,240 @@
+/**
+ * operation-stream.ts — Push delivery for operation events (ADR-037)
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Replaces the SSE route's 1s poll of operation_events with signals:
+ *
+ *   - event: an operation_events row was committed. An AFTER INSERT trigger
+ *     NOTIFYs it, so every instance hears of it; the SSE route then reads the
+ *     row through the RLS-scoped store exactly as the poll did.
+ *   - text / tool: streaming output of a running chat (chat-stream.ts),
+ *     published with pg_notify and never stored. The text streamed so far is
+ *     buffered in memory per operation so a reconnecting client gets it back.
+ *
+ * Chat runs are claimed by whichever instance polls first, so the SSE stream
+ * and the run often live on different instances — hence LISTEN/NOTIFY rather
+ * than an in-process bus. One pool client per instance holds the LISTEN and
+ * reconnects on failure. While it is down, signals are delivered in-process
+ * only and isLive() is false, so the SSE route falls back to polling.
+ */
+
+import type { Pool, PoolClient } from "../db.js";
+import { log } from "../logger.js";
+import { OPERATION_EVENT_CHANNEL } from "../stores/operation-event-store.js";
+import type { ChatStreamSink } from "./chat-stream.js";
+
+// ─── Types ────────────────────────────────────────────────────
+
+interface SignalTarget {
+  topic: string;
+  operationId: string;
+  userId: string;
+}
+
+export type OperationSignal = SignalTarget & (
+  /** A durable operation event was committed */
+  | { kind: "event"; seq: number; eventType: string }
+  /** Streamed answer text: replaces everything from `offset` on */
+  | { kind: "text"; offset: number; text: string }
+  /** Tool call progress */
+  | { kind: "tool"; tool: string; phase: "started" | "completed"; ok?: boolean }
+);
+
+export type StreamingSignal = Exclude<OperationSignal, { kind: "event" }>;
+
+export interface OperationStream {
+  /** Publish streaming output to every instance. Best-effort and ordered. */
+  publish(signal: StreamingSignal): void;
+  /** Receive signals for one operation. Returns the unsubscribe function. */
+  subscribe(target: SignalTarget, listener: (signal: OperationSignal) => void): () => void;
+  /** Text streamed so far for a running operation ("" when none or finished). */
+  textSoFar(target: SignalTarget): string;
+  /** Whether durable events are pushed. When false, subscribers must poll. */
+  isLive(): boolean;
+  close(): Promise<void>;
+}
+
+// ─── Constants ────────────────────────────────────────────────
+
+/** pg_notify payloads are capped at 8000 bytes — split long text well below it. */
+const MAX_TEXT_CHUNK = 1500;
+const RECONNECT_MS = 5000;
+/** Buffers of runs whose terminal event was missed are dropped after this long. */
+const TEXT_BUFFER_TTL_MS = 10 * 60 * 1000;
+const TERMINAL_EVENTS = new Set(["run.completed", "run.failed", "run.cancelled", "run.timed_out", "run.budget_exceeded"]);
+
+function keyOf(target: SignalTarget): string {
+  return `${target.topic}\u0000${target.operationId}\u0000${target.userId}`;
+}
+
+function parseSignal(payload: string | undefined): OperationSignal | null {
+  if (!payload) return null;
+  try {
+    const parsed = JSON.parse(payload) as Partial<OperationSignal>;
+    if (typeof parsed.topic !== "string" || typeof parsed.operationId !== "string" || typeof parsed.userId !== "string") return null;
+    if (parsed.kind === "event" || parsed.kind === "text" || parsed.kind === "tool") return parsed as OperationSignal;
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+// ─── Stream ───────────────────────────────────────────────────
+
+export async function createOperationStream(pool: Pool | null): Promise<OperationStream> {
+  const listeners = new Map<string, Set<(signal: OperationSignal) => void>>();
+  const textBuffers = new Map<string, { text: string; updatedAt: number }>();
+  let listenClient: PoolClient | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let publishChain: Promise<void> = Promise.resolve();
+  let closed = false;
+
+  function deliver(signal: OperationSignal): void {
+    const key = keyOf(signal);
+    const now = Date.now();
+    if (signal.kind === "text") {
+      const current = textBuffers.get(key)?.text ?? "";
+      // A gap means this instance missed earlier text — keep what we have
+      if (signal.offset <= current.length) {
+        textBuffers.set(key, { text: current.slice(0, signal.offset) + signal.text, updatedAt: now });
+      }
+    } else if (signal.kind === "event" && TERMINAL_EVENTS.has(signal.eventType)) {
+      textBuffers.delete(key);
+    }
+    for (const [bufferKey, buffer] of textBuffers) {
+      if (now - buffer.updatedAt > TEXT_BUFFER_TTL_MS) textBuffers.delete(bufferKey);
+    }
+
+    for (const listener of listeners.get(key) ?? []) {
+      try {
+        listener(signal);
+      } catch (err) {
+        log.http.warn({ err: err instanceof Error ? err.message : String(err) }, "operation stream listener failed");
+      }
+    }
+  }
+
+  function scheduleReconnect(): void {
+    if (closed || !pool || reconnectTimer) return;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      void listen();
+    }, RECONNECT_MS);
+    reconnectTimer.unref?.();
+  }
+
+  async function listen(): Promise<void> {
+    if (!pool || closed) return;
+    let client: PoolClient | null = null;
+    try {
+      client = await pool.connect();
+      const connected = client;
+      connected.on("notification", (msg) => {
+        if (msg.channel !== OPERATION_EVENT_CHANNEL) return;
+        const signal = parseSignal(msg.payload);
+        if (signal) deliver(signal);
+      });
+      connected.on("error", (err) => {
+        log.http.warn({ err: err.message }, "operation stream listener lost — reconnecting");
+        if (listenClient === connected) listenClient = null;
+        connected.release(err);
+        scheduleReconnect();
+      });
+      await connected.query(`LISTEN ${OPERATION_EVENT_CHANNEL}`);
+      listenClient = connected;
+      log.boot.info("operation stream listening (LISTEN/NOTIFY)");
+    } catch (err) {
+      log.http.warn({ err: err instanceof Error ? err.message : String(err) }, "operation stream LISTEN failed — falling back to polling");
+      client?.release(err instanceof Error ? err : true);
+      scheduleReconnect();
+    }
+  }
+
+  await listen();
+
+  return {
+    publish(signal) {
+      if (!pool || !listenClient) {
+        deliver(signal);
+        return;
+      }
+      const payload = JSON.stringify(signal);
+      publishChain = publishChain
+        .then(async () => {
+          await pool.query("SELECT pg_notify($1, $2)", [OPERATION_EVENT_CHANNEL, payload]);
+        })
+        .catch((err) => {
+          log.http.warn({ err: err instanceof Error ? err.message : String(err), kind: signal.kind }, "operation stream publish failed");
+        });
+    },
+
+    subscribe(target, listener) {
+      const key = keyOf(target);
+      let set = listeners.get(key);
+      if (!set) {
+        set = new Set();
+        listeners.set(key, set);
+      }
+      set.add(listener);
+      return () => {
+        set.delete(listener);
+        if (set.size === 0) listeners.delete(key);
+      };
+    },
+
+    textSoFar(target) {
+      return textBuffers.get(keyOf(target))?.text ?? "";
+    },
+
+    isLive() {
+      return listenClient !== null;
+    },
+
+    async close() {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      await publishChain;
+      const client = listenClient;
+      listenClient = null;
+      if (client) {
+        try {
+          await client.query(`UNLISTEN ${OPERATION_EVENT_CHANNEL}`);
+        } finally {
+          client.release();
+        }
+      }
+      listeners.clear();
+      textBuffers.clear();
+    },
+  };
+}
+
+// ─── Chat Forwarding ──────────────────────────────────────────
+
+/**
+ * Sink forwarding one chat run's incremental output (chat-stream.ts) to the
+ * operation stream as offset-addressed text and tool signals.
+ */
+export function createChatStreamForwarder(stream: OperationStream, target: SignalTarget): ChatStreamSink {
+  let length = 0;
+  return (event) => {
+    switch (event.type) {
+      case "text":
+        for (let i = 0; i < event.text.length; i += MAX_TEXT_CHUNK) {
+          const text = event.text.slice(i, i + MAX_TEXT_CHUNK);
+          stream.publish({ ...target, kind: "text", offset: length, text });
+          length += text.length;
+        }
+        break;
+      case "reset":
+        if (length === 0) break;
+        length = 0;
+        stream.publish({ ...target, kind: "text", offset: 0, text: "" });
+        break;
+      case "tool":
+        stream.publish({ ...target, kind: "tool", tool: event.tool, phase: event.phase, ...(event.ok !== undefined ? { ok: event.ok } : {}) });
+        break;
+    }
+  };
+}
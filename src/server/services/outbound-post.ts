@@ -0,0 +1,133 @@
+/**
+ * outbound-post.ts — JSON POSTs to user-supplied URLs
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Webhooks and chat surface replies are sent to URLs chosen by users, so
+ * a hostname check at save time is not enough: the name can resolve to an
+ * internal address, or be re-pointed there after it was checked. Here the
+ * host is resolved at send time, every address it resolves to must be
+ * public, and the socket connects to one of those checked addresses (the
+ * lookup result is used as-is, so a second resolution cannot swap it).
+ *
+ * Redirects are not followed and the response body is never read — the
+ * caller only learns the status code.
+ */
+
+import { lookup as dnsLookup, type LookupAddress } from "node:dns";
+import { request as httpRequest, type RequestOptions } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+
+// ─── Address Policy ───────────────────────────────────────────
+
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],        // "this" network
+  ["10.0.0.0", 8],       // private
+  ["100.64.0.0", 10],    // carrier-grade NAT
+  ["127.0.0.0", 8],      // loopback
+  ["169.254.0.0", 16],   // link-local, cloud metadata
+  ["172.16.0.0", 12],    // private
+  ["192.0.0.0", 24],     // IETF protocol assignments
+  ["192.168.0.0", 16],   // private
+  ["198.18.0.0", 15],    // benchmarking
+  ["224.0.0.0", 4],      // multicast
+  ["240.0.0.0", 4],      // reserved, broadcast
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],           // unspecified
+  ["::1", 128],          // loopback
+  ["64:ff9b::", 96],     // NAT64 — reaches IPv4 space through the gateway
+  ["fc00::", 7],         // unique local
+  ["fe80::", 10],        // link-local
+  ["ff00::", 8],         // multicast
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is publicly routable. IPv4-mapped IPv6 addresses
+ * (::ffff:7f00:1) are judged by the IPv4 address they carry.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !NON_PUBLIC.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// ─── Sending ──────────────────────────────────────────────────
+
+export interface OutboundRequest {
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface OutboundResponse {
+  status: number;
+}
+
+/** POST a body to a URL; resolves with the status, rejects on network errors and blocked hosts. */
+export type OutboundPost = (url: string, request: OutboundRequest) => Promise<OutboundResponse>;
+
+export interface OutboundPostOptions {
+  /** Allow loopback and private addresses (development only). */
+  allowPrivate: boolean;
+  timeoutMs: number;
+}
+
+/** A DNS lookup that fails unless every address of the host is public. */
+function publicOnlyLookup(): LookupFunction {
+  return (hostname, options, callback) => {
+    dnsLookup(hostname, { all: true, family: options.family }, (err, addresses: LookupAddress[]) => {
+      if (err) return callback(err, "");
+      const blocked = addresses.find((a) => !isPublicAddress(a.address));
+      if (blocked) return callback(new Error(`${hostname} resolves to non-public address ${blocked.address}`), "");
+      if (addresses.length === 0) return callback(new Error(`${hostname} did not resolve`), "");
+      if (options.all) return callback(null, addresses);
+      return callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+}
+
+export function createOutboundPost(options: OutboundPostOptions): OutboundPost {
+  const lookup = options.allowPrivate ? undefined : publicOnlyLookup();
+
+  return (url, request) => new Promise((resolve, reject) => {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      return reject(new Error("Invalid URL"));
+    }
+    if (target.protocol !== "https:" && target.protocol !== "http:") {
+      return reject(new Error(`Unsupported protocol ${target.protocol}`));
+    }
+    // IP literals skip the lookup, so they are checked here
+    const host = target.hostname.replace(/^\[|\]$/g, "");
+    if (!options.allowPrivate && isIP(host) && !isPublicAddress(host)) {
+      return reject(new Error(`${host} is not a public address`));
+    }
+
+    const requestOptions: RequestOptions = {
+      method: "POST",
+      headers: { ...request.headers, "Content-Length": String(Buffer.byteLength(request.body)) },
+      lookup,
+    };
+    const req = (target.protocol === "https:" ? httpsRequest : httpRequest)(target, requestOptions, (res) => {
+      clearTimeout(timer);
+      res.resume();
+      resolve({ status: res.statusCode ?? 0 });
+    });
+    const timer = setTimeout(() => {
+      req.destroy(new Error(`Request timed out after ${options.timeoutMs} ms`));
+    }, options.timeoutMs);
+    req.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    req.end(request.body);
+  });
+}
@@ -0,0 +1,237 @@
+/**
+ * plan-schedule.ts — Dock Schedule Timeline (ADR-025)
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Turns time-windowed plan items into a per-dock timeline. The horizon is cut
+ * at every window boundary; each segment is solved with the plan solver
+ * (only items whose window is open participate), then adjacent segments with
+ * the same occupant are merged.
+ *
+ * Output answers "when does each dock switch loadout, and which officers
+ * have to move when it does?"
+ */
+
+import type { CrewStore } from "../stores/crew-store.js";
+import {
+  MAX_SEARCH_NODES,
+  prepareSolver,
+  type CrewChange,
+  type SolverMode,
+  type SubstitutionSource,
+} from "./plan-solver.js";
+import { isWindowOpen, windowIntervals } from "./plan-windows.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export const DEFAULT_SCHEDULE_HOURS = 24;
+export const MAX_SCHEDULE_HOURS = 7 * 24;
+/** Optimal search nodes for a whole schedule, split across its segments */
+export const MAX_SCHEDULE_SEARCH_NODES = MAX_SEARCH_NODES;
+/** Beyond this many segments an optimal schedule is solved greedily instead */
+export const MAX_OPTIMAL_SCHEDULE_SEGMENTS = 48;
+
+/** The plan item occupying a dock. */
+export interface ScheduleOccupant {
+  planItemId: number;
+  planItemLabel: string | null;
+  loadoutId: number | null;
+  loadoutName: string | null;
+}
+
+export interface ScheduleOfficer {
+  id: string;
+  name: string;
+}
+
+/** A contiguous span where one plan item holds a dock. */
+export interface DockScheduleEntry extends ScheduleOccupant {
+  start: string;
+  end: string;
+  officers: ScheduleOfficer[];
+  crewChange?: CrewChange;
+}
+
+export interface DockTimeline {
+  dockNumber: number;
+  entries: DockScheduleEntry[];
+}
+
+/** A dock changing hands at a window boundary. */
+export interface DockSwitch {
+  at: string;
+  dockNumber: number;
+  from: ScheduleOccupant | null;
+  to: ScheduleOccupant | null;
+  /** Officers leaving this dock's bridge */
+  officersOut: ScheduleOfficer[];
+  /** Officers joining this dock's bridge */
+  officersIn: ScheduleOfficer[];
+}
+
+/** A span where an in-window plan item could not be placed. */
+export interface UnscheduledSpan {
+  start: string;
+  end: string;
+  planItemId: number;
+  planItemLabel: string | null;
+  action: "queued" | "conflict";
+  explanation: string;
+}
+
+export interface DockSchedule {
+  mode: SolverMode;
+  from: string;
+  to: string;
+  docks: DockTimeline[];
+  switches: DockSwitch[];
+  unscheduled: UnscheduledSpan[];
+  warnings: string[];
+}
+
+type ScheduleStore = Parameters<typeof prepareSolver>[0] & Pick<CrewStore, "listPlanItems">;
+
+interface ScheduleOptions {
+  from: Date;
+  hours?: number;
+  mode?: SolverMode;
+  substitutes?: SubstitutionSource | null;
+  /** Officer display names (falls back to the ID) */
+  officerName?: (officerId: string) => string;
+}
+
+// ─── Schedule ───────────────────────────────────────────────
+
+/**
+ * Build the dock timeline for [from, from + hours).
+ * Read-only — never writes plan items.
+ */
+export async function buildDockSchedule(
+  store: ScheduleStore,
+  opts: ScheduleOptions,
+): Promise<DockSchedule> {
+  const hours = Math.min(Math.max(opts.hours ?? DEFAULT_SCHEDULE_HOURS, 1), MAX_SCHEDULE_HOURS);
+  const from = opts.from;
+  const to = new Date(from.getTime() + hours * 3_600_000);
+  let solver = await prepareSolver(store, { mode: opts.mode, substitutes: opts.substitutes });
+  const nameOf = opts.officerName ?? ((id: string) => id);
+  const officer = (id: string): ScheduleOfficer => ({ id, name: nameOf(id) });
+
+  // Cut the horizon at every window boundary
+  const cuts = new Set<number>([from.getTime(), to.getTime()]);
+  for (const pi of solver.planItems) {
+    if (!pi.window) continue;
+    for (const iv of windowIntervals(pi.window, from, to)) {
+      cuts.add(iv.start.getTime());
+      cuts.add(iv.end.getTime());
+    }
+  }
+  const times = [...cuts].sort((a, b) => a - b);
+  const warnings = new Set<string>();
+
+  // Each segment is a full solve; keep optimal schedules to about one solve's worth of search
+  const segments = times.length - 1;
+  if (solver.mode === "optimal" && segments > MAX_OPTIMAL_SCHEDULE_SEGMENTS) {
+    warnings.add(`Schedule has ${segments} window segments — solved greedily (optimal is limited to ${MAX_OPTIMAL_SCHEDULE_SEGMENTS}).`);
+    solver = await prepareSolver(store, { mode: "greedy", substitutes: opts.substitutes });
+  }
+  const searchNodes = Math.floor(MAX_SCHEDULE_SEARCH_NODES / segments);
+  const windowById = new Map(solver.planItems.map((pi) => [pi.id, pi.window]));
+
+  const timelines = new Map<number, DockScheduleEntry[]>(solver.dockNumbers.map((n) => [n, []]));
+  const current = new Map<number, DockScheduleEntry | null>();
+  const switches: DockSwitch[] = [];
+  const unscheduled: UnscheduledSpan[] = [];
+  const lastSpan = new Map<number, UnscheduledSpan>();
+
+  for (let i = 0; i < times.length - 1; i++) {
+    const start = new Date(times[i]);
+    const segStart = start.toISOString();
+    const segEnd = new Date(times[i + 1]).toISOString();
+    const run = solver.solveAt(start, searchNodes);
+    run.warnings.forEach((w) => warnings.add(w));
+
+    const occupants = new Map<number, DockScheduleEntry>();
+    for (const a of run.assignments) {
+      const placed = a.action === "assigned" || a.action === "unchanged";
+      if (placed && a.dockNumber != null) {
+        occupants.set(a.dockNumber, {
+          planItemId: a.planItemId,
+          planItemLabel: a.planItemLabel,
+          loadoutId: a.loadoutId,
+          loadoutName: a.loadoutName,
+          start: segStart,
+          end: segEnd,
+          officers: (run.crews.get(a.planItemId) ?? []).map(officer),
+          ...(a.crewChange ? { crewChange: a.crewChange } : {}),
+        });
+        continue;
+      }
+      // Items outside their window are expected to be idle — not "unscheduled"
+      if (placed || !isWindowOpen(windowById.get(a.planItemId) ?? null, start)) continue;
+      const action = a.action as UnscheduledSpan["action"];
+      const last = lastSpan.get(a.planItemId);
+      if (last && last.end === segStart && last.action === action && last.explanation === a.explanation) {
+        last.end = segEnd;
+      } else {
+        const span: UnscheduledSpan = {
+          start: segStart, end: segEnd, planItemId: a.planItemId,
+          planItemLabel: a.planItemLabel, action, explanation: a.explanation,
+        };
+        unscheduled.push(span);
+        lastSpan.set(a.planItemId, span);
+      }
+    }
+
+    for (const dockNumber of solver.dockNumbers) {
+      const prev = current.get(dockNumber) ?? null;
+      const next = occupants.get(dockNumber) ?? null;
+
+      if (prev && next && sameOccupancy(prev, next)) {
+        prev.end = segEnd;
+        continue;
+      }
+      if (next) timelines.get(dockNumber)!.push(next);
+      current.set(dockNumber, next);
+
+      // The first segment is the starting state, not a switch
+      if (i === 0 || (!prev && !next)) continue;
+      const outIds = new Set(prev?.officers.map((o) => o.id) ?? []);
+      const inIds = new Set(next?.officers.map((o) => o.id) ?? []);
+      switches.push({
+        at: segStart,
+        dockNumber,
+        from: prev ? occupantOf(prev) : null,
+        to: next ? occupantOf(next) : null,
+        officersOut: (prev?.officers ?? []).filter((o) => !inIds.has(o.id)),
+        officersIn: (next?.officers ?? []).filter((o) => !outIds.has(o.id)),
+      });
+    }
+  }
+
+  return {
+    mode: solver.mode,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    docks: solver.dockNumbers.map((dockNumber) => ({ dockNumber, entries: timelines.get(dockNumber)! })),
+    switches,
+    unscheduled,
+    warnings: [...warnings],
+  };
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function sameOccupancy(a: DockScheduleEntry, b: DockScheduleEntry): boolean {
+  return a.planItemId === b.planItemId
+    && a.officers.map((o) => o.id).join(",") === b.officers.map((o) => o.id).join(",");
+}
+
+function occupantOf(entry: DockScheduleEntry): ScheduleOccupant {
+  return {
+    planItemId: entry.planItemId,
+    planItemLabel: entry.planItemLabel,
+    loadoutId: entry.loadoutId,
+    loadoutName: entry.loadoutName,
+  };
+}
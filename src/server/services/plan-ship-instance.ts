@@ -0,0 +1,33 @@
+/**
+ * plan-ship-instance.ts — Check a plan item's pinned ship instance
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * A plan item may pin one copy of its loadout's ship (overlay instance).
+ * The instance must be one the user has recorded for that ship; away-team
+ * items have no ship and cannot pin one.
+ */
+
+import type { CrewStore } from "../stores/crew-store.js";
+import type { OverlayStore } from "../stores/overlay-store.js";
+
+/** Returns why `shipInstanceId` is not valid for the item, or null when it is. */
+export async function checkPlanShipInstance(
+  crewStore: Pick<CrewStore, "getLoadout" | "getVariant">,
+  overlayStore: Pick<OverlayStore, "listShipInstances">,
+  item: { loadoutId?: number | null; variantId?: number | null },
+  shipInstanceId: string,
+): Promise<string | null> {
+  let loadoutId = item.loadoutId ?? null;
+  if (loadoutId == null && item.variantId != null) {
+    loadoutId = (await crewStore.getVariant(item.variantId))?.baseLoadoutId ?? null;
+  }
+  const loadout = loadoutId != null ? await crewStore.getLoadout(loadoutId) : null;
+  if (!loadout) return "shipInstanceId requires a plan item with a loadout or variant";
+
+  const instances = await overlayStore.listShipInstances(loadout.shipId);
+  if (!instances.some((i) => i.instanceId === shipInstanceId)) {
+    return `shipInstanceId "${shipInstanceId}" is not an instance of ship ${loadout.shipId}`;
+  }
+  return null;
+}
@@ -1,34 +1,73 @@
 /**
- * plan-solver.ts — Greedy Priority Queue Plan Solver (ADR-025)
+ * plan-solver.ts — Plan Solver: Greedy + Optimal Modes (ADR-025)
  *
  * Majel — STFC Fleet Intelligence System
  *
  * Constraint satisfaction engine that takes active plan items, available docks,
  * and loadout data to produce optimal dock assignments with explanations.
  *
- * Algorithm: Greedy Priority Queue (v1)
+ * Algorithm: Greedy Priority Queue (v1, default mode "greedy")
  * 1. Sort active plan items by priority (ascending = highest priority first)
  * 2. For each plan item, assign to the first available dock
  * 3. Track officer consumption — once assigned to a higher-priority item,
  *    an officer is unavailable for lower-priority ones
  * 4. Produce explanations for every decision
  *
+ * Algorithm: Branch-and-Bound (mode "optimal")
+ * Searches include/exclude decisions over the same plan items to maximize
+ * total weighted priority coverage (weight = MAX_PRIORITY + 1 − priority),
+ * subject to the dock count, officer exclusivity, and hard-locked
+ * reservations. A high-priority item that hogs an officer two lower-priority
+ * items both need is deferred when the pair covers more weight.
+ *
+ * Both modes return the same SolverResult shape so callers can compare them
+ * side by side (see compareSolvers).
+ *
+ * Conflict resolution (both modes)
+ * When an item's bridge crew collides with officers already placed, the
+ * solver first tries the loadout's variants (bridge patches). If none is
+ * free, it substitutes each conflicted seat with the best owned officer for
+ * the item's intent (SubstitutionSource, scored by the effect evaluator) and
+ * reports the swap and its score cost instead of a dead-end conflict.
+ *
+ * Time windows
+ * A solve is for one instant (default: now). Plan items whose time window is
+ * closed then sit out as "queued"; plan-schedule.ts solves once per window
+ * segment to build the dock timeline.
+ *
  * Key requirement: the solver EXPLAINS, it doesn't just assign.
  *
  * Migrated from LoadoutStore/loadout-types (ADR-022) to CrewStore/crew-types (ADR-025).
  */
 
-import type {
-  PlanItem,
-  Dock,
-  Loadout,
-  LoadoutWithRefs,
-  OfficerConflict,
-  OfficerReservation,
+import {
+  SEED_INTENTS,
+  VALID_BRIDGE_SLOTS,
+  type PlanItem,
+  type Dock,
+  type Loadout,
+  type LoadoutWithRefs,
+  type LoadoutVariant,
+  type VariantPatch,
+  type BridgeSlot,
+  type OfficerConflict,
+  type OfficerReservation,
 } from "../types/crew-types.js";
+import { isWindowOpen, describeWindow } from "./plan-windows.js";
 
 // ─── Types ──────────────────────────────────────────────────
 
+/** Solver algorithm selector. */
+export type SolverMode = "greedy" | "optimal";
+
+export const VALID_SOLVER_MODES: SolverMode[] = ["greedy", "optimal"];
+
+/** Highest allowed plan item priority number (lowest importance). */
+export const MAX_PRIORITY = 100;
+
+/** Branch-and-bound node budget before the optimal search returns its best-so-far. */
+export const MAX_SEARCH_NODES = 200_000;
+
 /** Solver assignment result (ADR-025 shape) */
 export interface SolverAssignment {
   planItemId: number;
@@ -38,17 +77,89 @@ export interface SolverAssignment {
   dockNumber: number | null;
   action: "assigned" | "queued" | "conflict" | "unchanged";
   explanation: string;
+  /** Present when a variant or substitution cleared an officer conflict */
+  crewChange?: CrewChange;
+}
+
+/** One bridge seat swapped to an owned officer. */
+export interface OfficerSubstitution {
+  slot: BridgeSlot;
+  fromOfficerId: string;
+  fromOfficerName: string;
+  toOfficerId: string;
+  toOfficerName: string;
+}
+
+/** How the solver changed an item's crew to clear an officer conflict. */
+export interface CrewChange {
+  kind: "variant" | "substitution";
+  /** Variant used; for substitutions, the variant created on apply (null in previews) */
+  variantId: number | null;
+  variantName: string | null;
+  /** Seats that differ from the item's current crew */
+  substitutions: OfficerSubstitution[];
+  /** Crew score change vs the current crew for the item's intent (%), null when unscored */
+  scoreDeltaPct: number | null;
+}
+
+/** Owned roster + effect scoring used to substitute conflicted officers. */
+export interface SubstitutionSource {
+  /** Owned officer IDs — the substitution candidates */
+  ownedOfficerIds: string[];
+  /** Effect-evaluator score for an officer seated in a bridge slot for an intent */
+  scoreOfficer(officerId: string, intentKey: string | null, slot: BridgeSlot): number;
+  officerName(officerId: string): string;
+}
+
+/** Weighted priority coverage achieved by a solve. */
+export interface SolverCoverage {
+  /** Sum of weights for assigned + unchanged items */
+  achieved: number;
+  /** Sum of weights for every active plan item */
+  possible: number;
 }
 
 /** Full solver result with explanations and validation. */
 export interface SolverResult {
+  mode: SolverMode;
   assignments: SolverAssignment[];
   applied: boolean;
   conflicts: OfficerConflict[];
+  coverage: SolverCoverage;
   summary: string;
   warnings: string[];
 }
 
+/** Solver data loaded once, solvable at any instant (see buildDockSchedule). */
+export interface PreparedSolver {
+  mode: SolverMode;
+  /** Active plan items sorted by priority */
+  planItems: PlanItem[];
+  dockNumbers: number[];
+  /** searchNodes caps the optimal search for this solve (default MAX_SEARCH_NODES) */
+  solveAt(at: Date, searchNodes?: number): SolverRun;
+}
+
+/** One solve at an instant, plus the crew each placed item runs with. */
+export interface SolverRun {
+  assignments: SolverAssignment[];
+  warnings: string[];
+  coverage: SolverCoverage;
+  /** planItemId → bridge officer IDs for assigned/unchanged items */
+  crews: Map<number, string[]>;
+}
+
+/** Side-by-side greedy vs optimal preview. */
+export interface SolverComparison {
+  greedy: SolverResult;
+  optimal: SolverResult;
+  /** Plan item IDs whose action or dock differs between the two modes */
+  changedPlanItemIds: number[];
+  /** optimal.coverage.achieved − greedy.coverage.achieved */
+  coverageGain: number;
+  summary: string;
+}
+
 interface CrewStoreSlice {
   listPlanItems(filters?: { active?: boolean }): Promise<PlanItem[]>;
   listDocks(): Promise<Dock[]>;
@@ -57,9 +168,13 @@ interface CrewStoreSlice {
   getLoadoutsByIds(ids: number[]): Promise<Map<number, LoadoutWithRefs>>;
   getEffectiveDockState(): Promise<{ conflicts: OfficerConflict[] }>;
   listReservations(): Promise<OfficerReservation[]>;
+  listVariants(baseLoadoutId: number): Promise<LoadoutVariant[]>;
+  getVariant(id: number): Promise<LoadoutVariant | null>;
+  createVariant(baseLoadoutId: number, name: string, patch: VariantPatch, notes?: string): Promise<LoadoutVariant>;
   updatePlanItem(id: number, fields: {
     dockNumber?: number | null;
     loadoutId?: number | null;
+    variantId?: number | null;
     isActive?: boolean;
   }): Promise<PlanItem | null>;
 }
@@ -67,15 +182,70 @@ interface CrewStoreSlice {
 interface SolverOptions {
   /** Apply assignments to DB (default: false = dry run) */
   apply?: boolean;
+  /** Algorithm to run (default: "greedy") */
+  mode?: SolverMode;
+  /** Owned roster for officer substitution (omit = variants only) */
+  substitutes?: SubstitutionSource | null;
+  /** Instant to solve for — decides which time-windowed items are open (default: now) */
+  at?: Date;
+}
+
+type BridgeSeats = Partial<Record<BridgeSlot, string>>;
+
+/** Pre-fetched solver input shared by both modes. */
+interface SolverInput {
+  /** Active plan items sorted by priority (ascending) */
+  sorted: PlanItem[];
+  dockNumbers: number[];
+  reservationMap: Map<string, OfficerReservation>;
+  loadoutById: Map<number, Loadout>;
+  loadoutBridgeMap: Map<number, BridgeSeats>;
+  variantsByLoadout: Map<number, LoadoutVariant[]>;
+  /** variantId → base loadout ID for items planned on a variant */
+  variantBase: Map<number, number>;
+}
+
+/** Per-item facts derived once from SolverInput. */
+interface ItemFacts {
+  pi: PlanItem;
+  label: string;
+  /** Loadout the crew comes from (the variant's base for variant items) */
+  baseLoadoutId: number | null;
+  loadoutName: string | null;
+  /** Current crew seats (base loadout with the item's variant applied) */
+  bridge: BridgeSeats;
+  /** Bridge patch of the item's current variant, if any */
+  currentPatch: BridgeSeats;
+  officers: string[];
+  variants: LoadoutVariant[];
+  lockedOfficers: string[];
+  softReserved: string[];
+  /** What each reserved officer of this item is reserved for */
+  reservedFor: Map<string, string>;
+  isAwayTeam: boolean;
+  weight: number;
+}
+
+/** A crew the item can run with, plus how it differs from the current crew. */
+interface CrewOption {
+  officers: string[];
+  change: CrewChange | null;
+}
+
+/** Shared state for conflict resolution. */
+interface ResolveContext {
+  lockedOfficers: Set<string>;
+  substitutes: SubstitutionSource | null;
 }
 
 // ─── Solver ─────────────────────────────────────────────────
 
 /**
- * Run the greedy priority queue solver.
+ * Run the plan solver.
  *
  * @param store — crew store for data access + writes
- * @param opts — { apply: true } to write assignments to DB
+ * @param opts — { apply: true } to write assignments to DB, { mode: "optimal" } for branch-and-bound,
+ *   { at } to solve for another instant (default: now)
  * @returns SolverResult with assignments, explanations, and summary
  */
 export async function solvePlan(
@@ -83,8 +253,132 @@ export async function solvePlan(
   opts: SolverOptions = {},
 ): Promise<SolverResult> {
   const apply = opts.apply === true;
+  const { solver, facts } = await prepare(store, opts);
+  const mode = solver.mode;
+
+  const { assignments, warnings, coverage } = solver.solveAt(opts.at ?? new Date());
+
+  // Apply to DB if requested (only items whose dock or crew actually changed)
+  if (apply) {
+    const factsById = new Map(facts.map((f) => [f.pi.id, f]));
+    for (const a of assignments) {
+      if (a.action !== "assigned") continue;
+      const fields: { dockNumber?: number; loadoutId?: null; variantId?: number } = {};
+      if (a.dockNumber != null) fields.dockNumber = a.dockNumber;
+      if (a.crewChange) {
+        const f = factsById.get(a.planItemId)!;
+        if (a.crewChange.kind === "substitution") {
+          const variant = await createSubstitutionVariant(store, f, a.crewChange);
+          a.crewChange.variantId = variant.id;
+          a.crewChange.variantName = variant.name;
+        }
+        // A plan item points at either its loadout or a variant, never both
+        fields.loadoutId = null;
+        fields.variantId = a.crewChange.variantId!;
+      }
+      await store.updatePlanItem(a.planItemId, fields);
+    }
+    // Items that lost their dock (e.g. displaced by the optimal solver) must
+    // release it, or the DB ends up with two active items on one dock
+    for (const a of assignments) {
+      if (a.action !== "queued" && a.action !== "conflict") continue;
+      if (factsById.get(a.planItemId)?.pi.dockNumber == null) continue;
+      await store.updatePlanItem(a.planItemId, { dockNumber: null });
+    }
+  }
+
+  // Post-solve conflict check
+  const effectiveState = apply
+    ? await store.getEffectiveDockState()
+    : null;
+  const conflicts = effectiveState?.conflicts ?? [];
+
+  return {
+    mode,
+    assignments,
+    applied: apply,
+    conflicts,
+    coverage,
+    summary: buildSummary(mode, apply, assignments, coverage),
+    warnings,
+  };
+}
+
+/**
+ * Run both solver modes as previews and diff them.
+ * Never writes to the DB.
+ */
+export async function compareSolvers(
+  store: CrewStoreSlice,
+  opts: { substitutes?: SubstitutionSource | null } = {},
+): Promise<SolverComparison> {
+  const greedy = await solvePlan(store, { mode: "greedy", substitutes: opts.substitutes });
+  const optimal = await solvePlan(store, { mode: "optimal", substitutes: opts.substitutes });
+
+  const greedyById = new Map(greedy.assignments.map((a) => [a.planItemId, a]));
+  const changedPlanItemIds = optimal.assignments
+    .filter((a) => {
+      const g = greedyById.get(a.planItemId);
+      return !g || g.action !== a.action || g.dockNumber !== a.dockNumber
+        || crewChangeKey(g.crewChange) !== crewChangeKey(a.crewChange);
+    })
+    .map((a) => a.planItemId);
+
+  const coverageGain = optimal.coverage.achieved - greedy.coverage.achieved;
+  const summary = coverageGain > 0
+    ? `Optimal plan covers ${optimal.coverage.achieved}/${optimal.coverage.possible} priority weight vs greedy ${greedy.coverage.achieved} (+${coverageGain}); ${changedPlanItemIds.length} plan item(s) differ.`
+    : `Greedy plan is already optimal (${greedy.coverage.achieved}/${greedy.coverage.possible} priority weight).`;
+
+  return { greedy, optimal, changedPlanItemIds, coverageGain, summary };
+}
+
+/**
+ * Load solver data once so it can be solved at many instants.
+ * Each solveAt() only considers plan items whose time window is open then.
+ */
+export async function prepareSolver(
+  store: CrewStoreSlice,
+  opts: Pick<SolverOptions, "mode" | "substitutes"> = {},
+): Promise<PreparedSolver> {
+  return (await prepare(store, opts)).solver;
+}
+
+async function prepare(
+  store: CrewStoreSlice,
+  opts: Pick<SolverOptions, "mode" | "substitutes">,
+): Promise<{ solver: PreparedSolver; facts: ItemFacts[] }> {
+  const mode: SolverMode = opts.mode ?? "greedy";
+  const input = await loadSolverInput(store);
+  const facts = input.sorted.map((pi) => buildItemFacts(pi, input));
+  const rc: ResolveContext = {
+    lockedOfficers: new Set([...input.reservationMap.values()].filter(r => r.locked).map(r => r.officerId)),
+    substitutes: opts.substitutes ?? null,
+  };
+
+  const solveAt = (at: Date, searchNodes = MAX_SEARCH_NODES): SolverRun => {
+    const open = facts.filter(f => isWindowOpen(f.pi.window, at));
+    const run = mode === "optimal"
+      ? solveOptimal(open, input.dockNumbers, rc, searchNodes)
+      : solveGreedy(open, input.dockNumbers, rc);
+
+    // Items outside their window sit out this instant without a warning
+    const closed = facts.filter(f => !isWindowOpen(f.pi.window, at));
+    if (closed.length > 0) {
+      for (const f of closed) run.assignments.push(outOfWindowAssignment(f));
+      const order = new Map(facts.map((f, i) => [f.pi.id, i]));
+      run.assignments.sort((a, b) => order.get(a.planItemId)! - order.get(b.planItemId)!);
+    }
+
+    return { ...run, coverage: computeCoverage(open, run.assignments) };
+  };
+
+  return { solver: { mode, planItems: input.sorted, dockNumbers: input.dockNumbers, solveAt }, facts };
+}
 
-  // 1. Fetch all active plan items, docks, loadout data, and reservations
+// ─── Input ──────────────────────────────────────────────────
+
+async function loadSolverInput(store: CrewStoreSlice): Promise<SolverInput> {
+  // Fetch all active plan items, docks, loadout data, and reservations
   const [planItems, docks, allLoadouts, reservations] = await Promise.all([
     store.listPlanItems({ active: true }),
     store.listDocks(),
@@ -92,24 +386,17 @@ export async function solvePlan(
     store.listReservations(),
   ]);
 
-  // 2. Sort plan items by priority (ascending = highest priority first)
+  // Sort plan items by priority (ascending = highest priority first)
   const sorted = [...planItems].sort((a, b) => a.priority - b.priority);
 
-  // 3. Build available dock set (all dock numbers, initially all free)
-  const dockNumbers = docks.map(d => d.dockNumber);
-  const availableDocks = new Set(dockNumbers);
-  const usedOfficers = new Set<string>();
-  const assignments: SolverAssignment[] = [];
-  const warnings: string[] = [];
-
   // Build reservation map: officerId → reservation
   const reservationMap = new Map<string, OfficerReservation>();
   for (const r of reservations) {
     reservationMap.set(r.officerId, r);
   }
 
-  // Build loadout→bridge officer mapping (batch-fetch all loadouts at once)
-  const loadoutBridgeMap = new Map<number, string[]>();
+  // Build loadout→bridge seat mapping (batch-fetch all loadouts at once)
+  const loadoutBridgeMap = new Map<number, BridgeSeats>();
   const loadoutById = new Map<number, Loadout>();
   for (const loadout of allLoadouts) {
     loadoutById.set(loadout.id, loadout);
@@ -118,70 +405,106 @@ export async function solvePlan(
   const fullLoadouts = await store.getLoadoutsByIds(loadoutIds);
   for (const [id, full] of fullLoadouts) {
     if (full.bridgeCore) {
-      loadoutBridgeMap.set(id, full.bridgeCore.members.map(m => m.officerId));
+      const seats: BridgeSeats = {};
+      for (const m of full.bridgeCore.members) seats[m.slot] = m.officerId;
+      loadoutBridgeMap.set(id, seats);
     }
   }
 
-  // 4. Greedy assignment loop
+  // Plan items reference either a loadout or one of its variants
+  const variantBase = new Map<number, number>();
   for (const pi of sorted) {
-    const label = pi.label || `Plan item #${pi.id}`;
-    const loadout = pi.loadoutId ? loadoutById.get(pi.loadoutId) : undefined;
-    const loadoutName = loadout?.name || null;
+    if (pi.variantId == null || variantBase.has(pi.variantId)) continue;
+    const variant = await store.getVariant(pi.variantId);
+    if (variant) variantBase.set(variant.id, variant.baseLoadoutId);
+  }
 
-    // Check for officer conflicts in this plan item's loadout
-    const memberOfficerIds = pi.loadoutId
-      ? (loadoutBridgeMap.get(pi.loadoutId) || [])
-      : [];
+  // Variants are the first fallback when a crew conflicts
+  const variantsByLoadout = new Map<number, LoadoutVariant[]>();
+  const planLoadoutIds = [...new Set(sorted
+    .map(pi => pi.loadoutId ?? (pi.variantId != null ? variantBase.get(pi.variantId) : undefined))
+    .filter((id): id is number => id != null))];
+  for (const id of planLoadoutIds) {
+    variantsByLoadout.set(id, await store.listVariants(id));
+  }
 
-    // Check for hard-locked reservations (cannot assign)
-    const lockedOfficers = memberOfficerIds.filter(oid => {
-      const res = reservationMap.get(oid);
-      return res?.locked === true;
-    });
+  return {
+    sorted,
+    dockNumbers: docks.map(d => d.dockNumber),
+    reservationMap,
+    loadoutById,
+    loadoutBridgeMap,
+    variantsByLoadout,
+    variantBase,
+  };
+}
 
-    if (lockedOfficers.length > 0) {
-      const details = lockedOfficers.map(oid => {
-        const res = reservationMap.get(oid)!;
-        return `${oid} (locked for ${res.reservedFor})`;
-      });
-      assignments.push({
-        planItemId: pi.id,
-        planItemLabel: label,
-        loadoutId: pi.loadoutId,
-        loadoutName,
-        dockNumber: null,
-        action: "conflict",
-        explanation: `Cannot assign ${label} — hard-locked reservation(s): ${details.join(", ")}. Remove the reservation or use a different loadout.`,
-      });
+function buildItemFacts(pi: PlanItem, input: SolverInput): ItemFacts {
+  const baseLoadoutId = pi.loadoutId ?? (pi.variantId != null ? input.variantBase.get(pi.variantId) ?? null : null);
+  const loadout = baseLoadoutId ? input.loadoutById.get(baseLoadoutId) : undefined;
+  const baseSeats = baseLoadoutId ? (input.loadoutBridgeMap.get(baseLoadoutId) ?? {}) : {};
+  const variants = baseLoadoutId ? (input.variantsByLoadout.get(baseLoadoutId) ?? []) : [];
+  const currentPatch = variants.find(v => v.id === pi.variantId)?.patch.bridge ?? {};
+  const bridge = { ...baseSeats, ...currentPatch };
+  const officers = seatOfficers(bridge);
+  return {
+    pi,
+    label: pi.label || `Plan item #${pi.id}`,
+    baseLoadoutId,
+    loadoutName: loadout?.name || null,
+    bridge,
+    currentPatch,
+    officers,
+    variants: variants.filter(v => v.id !== pi.variantId),
+    lockedOfficers: officers.filter(oid => input.reservationMap.get(oid)?.locked === true),
+    softReserved: officers.filter(oid => {
+      const res = input.reservationMap.get(oid);
+      return res && !res.locked;
+    }),
+    reservedFor: new Map(officers.flatMap(oid => {
+      const res = input.reservationMap.get(oid);
+      return res ? [[oid, res.reservedFor] as const] : [];
+    })),
+    isAwayTeam: pi.dockNumber == null && (pi.awayOfficers?.length ?? 0) > 0,
+    weight: priorityWeight(pi.priority),
+  };
+}
 
-      warnings.push(`Locked reservation conflict on ${label}: ${lockedOfficers.join(", ")}`);
-      continue;
-    }
+/** Coverage weight for a plan item — priority #1 is worth the most. */
+export function priorityWeight(priority: number): number {
+  return Math.max(1, MAX_PRIORITY + 1 - priority);
+}
 
-    // Check for soft reservations (warn but allow)
-    const softReserved = memberOfficerIds.filter(oid => {
-      const res = reservationMap.get(oid);
-      return res && !res.locked;
-    });
-    if (softReserved.length > 0) {
-      const details = softReserved.map(oid => {
-        const res = reservationMap.get(oid)!;
-        return `${oid} (reserved for ${res.reservedFor})`;
-      });
-      warnings.push(`Soft reservation on ${label}: ${details.join(", ")} — proceeding anyway`);
-    }
+// ─── Greedy Mode ────────────────────────────────────────────
 
-    const conflictingOfficers = memberOfficerIds.filter(oid => usedOfficers.has(oid));
+function solveGreedy(
+  facts: ItemFacts[],
+  dockNumbers: number[],
+  rc: ResolveContext,
+): Omit<SolverRun, "coverage"> {
+  const availableDocks = new Set(dockNumbers);
+  const usedOfficers = new Set<string>();
+  const assignments: SolverAssignment[] = [];
+  const warnings: string[] = [];
+  const crews = new Map<number, string[]>();
+
+  for (const f of facts) {
+    const { pi, label, loadoutName } = f;
+
+    if (pushReservationOutcome(f, assignments, warnings)) continue;
 
-    if (conflictingOfficers.length > 0) {
+    const crew = crewOptions(f, usedOfficers, rc)[0];
+
+    if (!crew) {
+      const conflictingOfficers = f.officers.filter(oid => usedOfficers.has(oid));
       assignments.push({
         planItemId: pi.id,
         planItemLabel: label,
-        loadoutId: pi.loadoutId,
+        loadoutId: f.baseLoadoutId,
         loadoutName,
         dockNumber: null,
         action: "conflict",
-        explanation: `Cannot assign ${label} — officer conflict: ${conflictingOfficers.join(", ")} already assigned to higher-priority loadout(s). Suggestion: swap officers or run sequentially.`,
+        explanation: `Cannot assign ${label} — officer conflict: ${conflictingOfficers.join(", ")} already assigned to higher-priority loadout(s).${noFallbackNote(f, rc)} Suggestion: swap officers or run sequentially.`,
       });
 
       warnings.push(`Officer conflict on ${label}: ${conflictingOfficers.join(", ")}`);
@@ -189,85 +512,494 @@ export async function solvePlan(
     }
 
     // No dock needed for away teams (dockNumber already null by design)
-    if (pi.dockNumber == null && (pi.awayOfficers?.length ?? 0) > 0) {
-      // Away team — no dock assignment needed
-      memberOfficerIds.forEach(oid => usedOfficers.add(oid));
-      assignments.push({
-        planItemId: pi.id,
-        planItemLabel: label,
-        loadoutId: pi.loadoutId,
-        loadoutName,
-        dockNumber: null,
-        action: "unchanged",
-        explanation: `${label} is an away team mission — no dock required.`,
-      });
+    if (f.isAwayTeam) {
+      crew.officers.forEach(oid => usedOfficers.add(oid));
+      crews.set(pi.id, crew.officers);
+      assignments.push(withCrewChange(awayTeamAssignment(f), f, crew.change));
       continue;
     }
 
-    // Try to assign a dock
-    if (pi.dockNumber != null && availableDocks.has(pi.dockNumber)) {
-      // Already has a valid dock assignment — keep it
-      availableDocks.delete(pi.dockNumber);
-      memberOfficerIds.forEach(oid => usedOfficers.add(oid));
+    const dock = claimDock(f, availableDocks, dockNumbers);
+    if (dock) {
+      crew.officers.forEach(oid => usedOfficers.add(oid));
+      crews.set(pi.id, crew.officers);
+      assignments.push(withCrewChange(dockAssignment(f, dock, "dock available"), f, crew.change));
+    } else {
       assignments.push({
         planItemId: pi.id,
         planItemLabel: label,
-        loadoutId: pi.loadoutId,
+        loadoutId: f.baseLoadoutId,
         loadoutName,
-        dockNumber: pi.dockNumber,
-        action: "unchanged",
-        explanation: `${label} keeps Dock ${pi.dockNumber} (already assigned, priority #${pi.priority}).`,
+        dockNumber: null,
+        action: "queued",
+        explanation: `Queued ${label} — no dock available (${dockNumbers.length} dock(s) occupied by higher-priority loadouts). Consider adding more docks or reducing active plan items.`,
       });
-      continue;
+
+      warnings.push(`No dock for ${label} — queued`);
     }
+  }
 
-    // Need a dock — find first available
-    const freeDock = findFirstAvailableDock(availableDocks, dockNumbers);
+  return { assignments, warnings, crews };
+}
 
-    if (freeDock != null) {
-      availableDocks.delete(freeDock);
-      memberOfficerIds.forEach(oid => usedOfficers.add(oid));
+// ─── Optimal Mode ───────────────────────────────────────────
 
-      const changed = freeDock !== pi.dockNumber;
-      assignments.push({
-        planItemId: pi.id,
-        planItemLabel: label,
-        loadoutId: pi.loadoutId,
-        loadoutName,
-        dockNumber: freeDock,
-        action: changed ? "assigned" : "unchanged",
-        explanation: changed
-          ? `Assigned ${label} to Dock ${freeDock} (priority #${pi.priority}, dock available).`
-          : `${label} stays at Dock ${freeDock}.`,
-      });
+function solveOptimal(
+  facts: ItemFacts[],
+  dockNumbers: number[],
+  rc: ResolveContext,
+  searchNodes: number,
+): Omit<SolverRun, "coverage"> {
+  const assignments: SolverAssignment[] = [];
+  const warnings: string[] = [];
 
-      // Apply to DB if requested
-      if (apply && changed) {
-        await store.updatePlanItem(pi.id, { dockNumber: freeDock });
+  // Hard-locked items can never be placed; report them exactly like greedy.
+  const candidates: ItemFacts[] = [];
+  for (const f of facts) {
+    if (pushReservationOutcome(f, assignments, warnings)) continue;
+    candidates.push(f);
+  }
+
+  const search = searchBestSubset(candidates, dockNumbers.length, rc, searchNodes);
+  if (search.exhausted) {
+    warnings.push(`Optimal search stopped after ${searchNodes} nodes — result is the best plan found, not a proven optimum.`);
+  }
+
+  // Officer → label of the chosen item holding it (for conflict explanations)
+  const officerHolder = new Map<string, string>();
+  for (const f of candidates) {
+    const crew = search.chosen.get(f.pi.id);
+    if (!crew) continue;
+    for (const oid of crew.officers) officerHolder.set(oid, f.label);
+  }
+
+  // Chosen dock items keep a valid existing dock first, then fill the rest in order.
+  const availableDocks = new Set(dockNumbers);
+  const dockFor = new Map<number, { dock: number; kept: boolean }>();
+  for (const f of candidates) {
+    if (!search.chosen.has(f.pi.id) || f.isAwayTeam) continue;
+    if (f.pi.dockNumber != null && availableDocks.has(f.pi.dockNumber)) {
+      availableDocks.delete(f.pi.dockNumber);
+      dockFor.set(f.pi.id, { dock: f.pi.dockNumber, kept: true });
+    }
+  }
+  for (const f of candidates) {
+    if (!search.chosen.has(f.pi.id) || f.isAwayTeam || dockFor.has(f.pi.id)) continue;
+    const free = findFirstAvailableDock(availableDocks, dockNumbers);
+    if (free == null) continue; // unreachable: search respects dock capacity
+    availableDocks.delete(free);
+    dockFor.set(f.pi.id, { dock: free, kept: false });
+  }
+
+  for (const f of candidates) {
+    const { pi, label, loadoutName } = f;
+
+    const crew = search.chosen.get(pi.id);
+    if (crew) {
+      if (f.isAwayTeam) {
+        assignments.push(withCrewChange(awayTeamAssignment(f), f, crew.change));
+        continue;
       }
-    } else {
-      // No docks available
+      assignments.push(withCrewChange(dockAssignment(f, dockFor.get(pi.id)!, "optimal coverage"), f, crew.change));
+      continue;
+    }
+
+    const blockers = f.officers.filter(oid => officerHolder.has(oid));
+    if (blockers.length > 0) {
+      const holders = [...new Set(blockers.map(oid => officerHolder.get(oid)!))];
       assignments.push({
         planItemId: pi.id,
         planItemLabel: label,
-        loadoutId: pi.loadoutId,
+        loadoutId: f.baseLoadoutId,
         loadoutName,
         dockNumber: null,
-        action: "queued",
-        explanation: `Queued ${label} — no dock available (${dockNumbers.length} dock(s) occupied by higher-priority loadouts). Consider adding more docks or reducing active plan items.`,
+        action: "conflict",
+        explanation: `Deferred ${label} — officer conflict: ${blockers.join(", ")} placed on ${holders.join(", ")}, which together cover more priority weight than ${label} (weight ${f.weight}).${noFallbackNote(f, rc)} Suggestion: swap officers or run sequentially.`,
       });
+      warnings.push(`Officer conflict on ${label}: ${blockers.join(", ")}`);
+      continue;
+    }
 
-      warnings.push(`No dock for ${label} — queued`);
+    assignments.push({
+      planItemId: pi.id,
+      planItemLabel: label,
+      loadoutId: f.baseLoadoutId,
+      loadoutName,
+      dockNumber: null,
+      action: "queued",
+      explanation: `Queued ${label} — no dock available (all ${dockNumbers.length} dock(s) hold the highest-weight combination of plan items). Consider adding more docks or reducing active plan items.`,
+    });
+    warnings.push(`No dock for ${label} — queued`);
+  }
+
+  // Keep output in priority order, matching greedy.
+  const order = new Map(facts.map((f, i) => [f.pi.id, i]));
+  assignments.sort((a, b) => order.get(a.planItemId)! - order.get(b.planItemId)!);
+
+  const crews = new Map([...search.chosen].map(([id, crew]) => [id, crew.officers]));
+  return { assignments, warnings, crews };
+}
+
+/**
+ * Branch-and-bound over include/exclude decisions in priority order.
+ *
+ * Include is explored first, so among equal-weight solutions the one that
+ * keeps higher-priority items wins (the greedy answer when it is optimal).
+ */
+function searchBestSubset(
+  items: ItemFacts[],
+  dockCapacity: number,
+  rc: ResolveContext,
+  maxNodes: number,
+): { chosen: Map<number, CrewOption>; exhausted: boolean } {
+  // suffix[i] = total weight of items[i..] — the optimistic bound
+  const suffix = new Array<number>(items.length + 1).fill(0);
+  for (let i = items.length - 1; i >= 0; i--) {
+    suffix[i] = suffix[i + 1] + items[i].weight;
+  }
+
+  let bestWeight = -1;
+  let best: Array<[number, CrewOption]> = [];
+  let nodes = 0;
+  let exhausted = false;
+
+  const picked: Array<[number, CrewOption]> = [];
+  const usedOfficers = new Set<string>();
+
+  function visit(i: number, weight: number, docksUsed: number): void {
+    if (exhausted) return;
+    if (++nodes > maxNodes) {
+      exhausted = true;
+      return;
+    }
+    if (weight + suffix[i] <= bestWeight) return;
+    if (i === items.length) {
+      bestWeight = weight;
+      best = [...picked];
+      return;
+    }
+
+    const f = items[i];
+    const needsDock = !f.isAwayTeam;
+    const options = !needsDock || docksUsed < dockCapacity
+      ? crewOptions(f, usedOfficers, rc)
+      : [];
+
+    // Current crew first, then variants, then substitution
+    for (const crew of options) {
+      picked.push([f.pi.id, crew]);
+      crew.officers.forEach(oid => usedOfficers.add(oid));
+      visit(i + 1, weight + f.weight, docksUsed + (needsDock ? 1 : 0));
+      crew.officers.forEach(oid => usedOfficers.delete(oid));
+      picked.pop();
     }
+    visit(i + 1, weight, docksUsed);
   }
 
-  // 5. Post-solve conflict check
-  const effectiveState = apply
-    ? await store.getEffectiveDockState()
-    : null;
-  const conflicts = effectiveState?.conflicts ?? [];
+  visit(0, 0, 0);
+  return { chosen: new Map(best), exhausted };
+}
+
+// ─── Conflict Resolution ────────────────────────────────────
+
+/**
+ * Crews an item can run with given the officers already placed, in
+ * preference order: current crew, conflict-free variants, then (only when
+ * nothing else fits) a substitution from the owned roster.
+ */
+function crewOptions(
+  f: ItemFacts,
+  usedOfficers: Set<string>,
+  rc: ResolveContext,
+): CrewOption[] {
+  const isFree = (oid: string) => !usedOfficers.has(oid);
+  if (f.officers.every(isFree)) {
+    return [{ officers: f.officers, change: null }];
+  }
+
+  const options: CrewOption[] = [];
+  for (const v of f.variants) {
+    const seats = { ...f.bridge, ...v.patch.bridge };
+    const officers = seatOfficers(seats);
+    if (!officers.every(oid => isFree(oid) && !rc.lockedOfficers.has(oid))) continue;
+    options.push({
+      officers,
+      change: {
+        kind: "variant",
+        variantId: v.id,
+        variantName: v.name,
+        substitutions: seatDiff(f.bridge, seats, rc.substitutes),
+        scoreDeltaPct: scoreDelta(f, seats, rc.substitutes),
+      },
+    });
+  }
+  if (options.length > 0) return options;
+
+  const sub = substituteCrew(f, usedOfficers, rc);
+  return sub ? [sub] : [];
+}
+
+/** Replace each conflicted seat with the best-scoring free owned officer. */
+function substituteCrew(
+  f: ItemFacts,
+  usedOfficers: Set<string>,
+  rc: ResolveContext,
+): CrewOption | null {
+  const source = rc.substitutes;
+  if (!source || f.baseLoadoutId == null) return null;
+
+  const seats: BridgeSeats = { ...f.bridge };
+  for (const slot of VALID_BRIDGE_SLOTS) {
+    const current = seats[slot];
+    if (!current || !usedOfficers.has(current)) continue;
+
+    const seated = new Set(seatOfficers(seats));
+    let best: { id: string; score: number } | null = null;
+    for (const id of source.ownedOfficerIds) {
+      if (usedOfficers.has(id) || seated.has(id) || rc.lockedOfficers.has(id)) continue;
+      const score = source.scoreOfficer(id, f.pi.intentKey, slot);
+      if (!best || score > best.score) best = { id, score };
+    }
+    if (!best) return null;
+    seats[slot] = best.id;
+  }
+
+  return {
+    officers: seatOfficers(seats),
+    change: {
+      kind: "substitution",
+      variantId: null,
+      variantName: null,
+      substitutions: seatDiff(f.bridge, seats, source),
+      scoreDeltaPct: scoreDelta(f, seats, source),
+    },
+  };
+}
+
+function seatOfficers(seats: BridgeSeats): string[] {
+  return VALID_BRIDGE_SLOTS.map(slot => seats[slot]).filter((id): id is string => !!id);
+}
+
+function seatDiff(
+  from: BridgeSeats,
+  to: BridgeSeats,
+  source: SubstitutionSource | null,
+): OfficerSubstitution[] {
+  const name = (id: string) => source?.officerName(id) ?? id;
+  const diffs: OfficerSubstitution[] = [];
+  for (const slot of VALID_BRIDGE_SLOTS) {
+    const a = from[slot];
+    const b = to[slot];
+    if (!a || !b || a === b) continue;
+    diffs.push({ slot, fromOfficerId: a, fromOfficerName: name(a), toOfficerId: b, toOfficerName: name(b) });
+  }
+  return diffs;
+}
+
+/** Percent change in summed crew score for the item's intent; null when unscored. */
+function scoreDelta(
+  f: ItemFacts,
+  seats: BridgeSeats,
+  source: SubstitutionSource | null,
+): number | null {
+  if (!source) return null;
+  const crewScore = (s: BridgeSeats) => VALID_BRIDGE_SLOTS.reduce(
+    (sum, slot) => sum + (s[slot] ? source.scoreOfficer(s[slot]!, f.pi.intentKey, slot) : 0),
+    0,
+  );
+  const base = crewScore(f.bridge);
+  if (base <= 0) return null;
+  return Math.round(((crewScore(seats) - base) / base) * 100);
+}
+
+/** Persist a substitution as a loadout variant so the dock state matches the plan. */
+async function createSubstitutionVariant(
+  store: CrewStoreSlice,
+  f: ItemFacts,
+  change: CrewChange,
+): Promise<LoadoutVariant> {
+  const bridge: BridgeSeats = { ...f.currentPatch };
+  for (const s of change.substitutions) bridge[s.slot] = s.toOfficerId;
+
+  const baseName = `Solver: ${change.substitutions.map(s => `${s.fromOfficerName} → ${s.toOfficerName}`).join(", ")}`;
+  const taken = new Set(f.variants.map(v => v.name));
+  let name = baseName;
+  for (let n = 2; taken.has(name); n++) name = `${baseName} (${n})`;
+
+  return store.createVariant(f.baseLoadoutId!, name, { bridge }, `Created by plan solver for ${f.label}.`);
+}
+
+/** Attach a crew change to an assignment and fold it into the explanation. */
+function withCrewChange(
+  a: SolverAssignment,
+  f: ItemFacts,
+  change: CrewChange | null,
+): SolverAssignment {
+  if (!change) return a;
+
+  const swaps = change.substitutions.map(s => `${s.fromOfficerName} → ${s.toOfficerName}`).join(", ");
+  const score = change.scoreDeltaPct == null
+    ? ""
+    : ` (${formatPct(change.scoreDeltaPct)} ${scoreLabel(f.pi.intentKey)})`;
+  const detail = change.kind === "variant"
+    ? `using variant "${change.variantName}"${swaps ? `: ${swaps}` : ""}${score}`
+    : `with substitution: ${swaps}${score}`;
+
+  return {
+    ...a,
+    // A crew change is a change even when the dock is kept
+    action: "assigned",
+    explanation: `${a.explanation.replace(/\.$/, "")} — ${detail}.`,
+    crewChange: change,
+  };
+}
+
+function noFallbackNote(f: ItemFacts, rc: ResolveContext): string {
+  if (f.variants.length === 0 && !rc.substitutes) return "";
+  return rc.substitutes
+    ? " No conflict-free variant or owned substitute is available."
+    : " No conflict-free variant is available.";
+}
+
+function formatPct(pct: number): string {
+  if (pct === 0) return "±0%";
+  return pct > 0 ? `+${pct}%` : `−${Math.abs(pct)}%`;
+}
+
+/** "mining score" for mining-gas, etc. */
+function scoreLabel(intentKey: string | null): string {
+  const category = SEED_INTENTS.find(i => i.key === intentKey)?.category;
+  return category ? `${category} score` : "intent score";
+}
+
+function crewChangeKey(change: CrewChange | undefined): string {
+  if (!change) return "";
+  return `${change.kind}:${change.variantId ?? ""}:${change.substitutions.map(s => `${s.slot}=${s.toOfficerId}`).join(",")}`;
+}
+
+// ─── Shared Helpers ─────────────────────────────────────────
+
+/**
+ * Emit the reservation outcome for an item.
+ * Returns true when the item is blocked by a hard-locked reservation.
+ */
+function pushReservationOutcome(
+  f: ItemFacts,
+  assignments: SolverAssignment[],
+  warnings: string[],
+): boolean {
+  const { pi, label, loadoutName, lockedOfficers, softReserved, reservedFor } = f;
+
+  // Check for hard-locked reservations (cannot assign)
+  if (lockedOfficers.length > 0) {
+    const details = lockedOfficers.map(oid => `${oid} (locked for ${reservedFor.get(oid)})`);
+    assignments.push({
+      planItemId: pi.id,
+      planItemLabel: label,
+      loadoutId: f.baseLoadoutId,
+      loadoutName,
+      dockNumber: null,
+      action: "conflict",
+      explanation: `Cannot assign ${label} — hard-locked reservation(s): ${details.join(", ")}. Remove the reservation or use a different loadout.`,
+    });
+
+    warnings.push(`Locked reservation conflict on ${label}: ${lockedOfficers.join(", ")}`);
+    return true;
+  }
 
-  // 6. Build summary
+  // Check for soft reservations (warn but allow)
+  if (softReserved.length > 0) {
+    const details = softReserved.map(oid => `${oid} (reserved for ${reservedFor.get(oid)})`);
+    warnings.push(`Soft reservation on ${label}: ${details.join(", ")} — proceeding anyway`);
+  }
+  return false;
+}
+
+function outOfWindowAssignment(f: ItemFacts): SolverAssignment {
+  return {
+    planItemId: f.pi.id,
+    planItemLabel: f.label,
+    loadoutId: f.baseLoadoutId,
+    loadoutName: f.loadoutName,
+    dockNumber: null,
+    action: "queued",
+    explanation: `${f.label} is outside its time window (${describeWindow(f.pi.window!)}) — not scheduled now.`,
+  };
+}
+
+function awayTeamAssignment(f: ItemFacts): SolverAssignment {
+  return {
+    planItemId: f.pi.id,
+    planItemLabel: f.label,
+    loadoutId: f.baseLoadoutId,
+    loadoutName: f.loadoutName,
+    dockNumber: null,
+    action: "unchanged",
+    explanation: `${f.label} is an away team mission — no dock required.`,
+  };
+}
+
+/** Greedy dock claim: keep a valid existing dock, else take the first free one. */
+function claimDock(
+  f: ItemFacts,
+  availableDocks: Set<number>,
+  dockNumbers: number[],
+): { dock: number; kept: boolean } | null {
+  if (f.pi.dockNumber != null && availableDocks.has(f.pi.dockNumber)) {
+    availableDocks.delete(f.pi.dockNumber);
+    return { dock: f.pi.dockNumber, kept: true };
+  }
+  const freeDock = findFirstAvailableDock(availableDocks, dockNumbers);
+  if (freeDock == null) return null;
+  availableDocks.delete(freeDock);
+  return { dock: freeDock, kept: freeDock === f.pi.dockNumber };
+}
+
+function dockAssignment(
+  f: ItemFacts,
+  placement: { dock: number; kept: boolean },
+  reason: string,
+): SolverAssignment {
+  const { pi, label } = f;
+  const base = {
+    planItemId: pi.id,
+    planItemLabel: label,
+    loadoutId: f.baseLoadoutId,
+    loadoutName: f.loadoutName,
+    dockNumber: placement.dock,
+  };
+  if (placement.kept) {
+    return {
+      ...base,
+      action: "unchanged",
+      explanation: `${label} keeps Dock ${placement.dock} (already assigned, priority #${pi.priority}).`,
+    };
+  }
+  return {
+    ...base,
+    action: "assigned",
+    explanation: `Assigned ${label} to Dock ${placement.dock} (priority #${pi.priority}, ${reason}).`,
+  };
+}
+
+function computeCoverage(facts: ItemFacts[], assignments: SolverAssignment[]): SolverCoverage {
+  const weightById = new Map(facts.map((f) => [f.pi.id, f.weight]));
+  let achieved = 0;
+  for (const a of assignments) {
+    if (a.action === "assigned" || a.action === "unchanged") {
+      achieved += weightById.get(a.planItemId) ?? 0;
+    }
+  }
+  const possible = facts.reduce((sum, f) => sum + f.weight, 0);
+  return { achieved, possible };
+}
+
+function buildSummary(
+  mode: SolverMode,
+  apply: boolean,
+  assignments: SolverAssignment[],
+  coverage: SolverCoverage,
+): string {
   const assigned = assignments.filter(a => a.action === "assigned").length;
   const unchanged = assignments.filter(a => a.action === "unchanged").length;
   const queued = assignments.filter(a => a.action === "queued").length;
@@ -279,21 +1011,18 @@ export async function solvePlan(
   if (queued) parts.push(`${queued} queued`);
   if (conflicted) parts.push(`${conflicted} conflict(s)`);
 
-  const summary = apply
+  if (mode === "optimal") {
+    const covered = `Covers ${coverage.achieved}/${coverage.possible} priority weight.`;
+    return apply
+      ? `Optimal solver applied: ${parts.join(", ")}. ${covered}`
+      : `Optimal solver preview: ${parts.join(", ")}. ${covered} Use apply=true to execute.`;
+  }
+
+  return apply
     ? `Solver applied: ${parts.join(", ")}.`
     : `Solver preview: ${parts.join(", ")}. Use apply=true to execute.`;
-
-  return {
-    assignments,
-    applied: apply,
-    conflicts,
-    summary,
-    warnings,
-  };
 }
 
-// ─── Helpers ────────────────────────────────────────────────
-
 /**
  * Find the first available dock number from the ordered list.
  */
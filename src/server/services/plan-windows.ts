@@ -0,0 +1,124 @@
+/**
+ * plan-windows.ts — Time windows for plan items (ADR-025)
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Pure helpers for PlanWindow: validation, "is it open right now?", and
+ * expanding windows into concrete [start, end) intervals over a horizon.
+ * All times are UTC — STFC's daily reset is UTC-anchored.
+ */
+
+import { VALID_PLAN_WINDOW_KINDS, type PlanWindow, type PlanWindowKind } from "../types/crew-types.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+/** A concrete occurrence of a window. */
+export interface WindowInterval {
+  start: Date;
+  end: Date;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const MS_PER_MINUTE = 60_000;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// ─── Validation ─────────────────────────────────────────────
+
+/**
+ * Validate untrusted input as a PlanWindow.
+ * Returns the normalized window, null for "no window", or an error string.
+ */
+export function parsePlanWindow(value: unknown): PlanWindow | null | { error: string } {
+  if (value === null) return null;
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return { error: "window must be an object or null" };
+  }
+  const { kind, start, end } = value as Record<string, unknown>;
+  if (!VALID_PLAN_WINDOW_KINDS.includes(kind as PlanWindowKind)) {
+    return { error: `window.kind must be one of: ${VALID_PLAN_WINDOW_KINDS.join(", ")}` };
+  }
+  if (typeof start !== "string" || typeof end !== "string") {
+    return { error: "window.start and window.end are required strings" };
+  }
+
+  if (kind === "daily") {
+    if (!TIME_OF_DAY.test(start) || !TIME_OF_DAY.test(end)) {
+      return { error: "daily window start/end must be HH:MM (UTC)" };
+    }
+    return { kind, start, end };
+  }
+
+  const startMs = Date.parse(start);
+  const endMs = Date.parse(end);
+  if (Number.isNaN(startMs) || Number.isNaN(endMs)) {
+    return { error: "once window start/end must be ISO timestamps" };
+  }
+  if (endMs <= startMs) {
+    return { error: "window.end must be after window.start" };
+  }
+  return { kind: "once", start: new Date(startMs).toISOString(), end: new Date(endMs).toISOString() };
+}
+
+export function isWindowError(value: PlanWindow | null | { error: string }): value is { error: string } {
+  return value !== null && "error" in value;
+}
+
+// ─── Evaluation ─────────────────────────────────────────────
+
+/** True when the window covers `at` (a null window is always open). */
+export function isWindowOpen(window: PlanWindow | null, at: Date): boolean {
+  if (!window) return true;
+  if (window.kind === "once") {
+    const t = at.getTime();
+    return Date.parse(window.start) <= t && t < Date.parse(window.end);
+  }
+  const minute = at.getUTCHours() * 60 + at.getUTCMinutes();
+  const start = minutesOfDay(window.start);
+  const end = minutesOfDay(window.end);
+  if (start === end) return true;
+  return start < end
+    ? minute >= start && minute < end
+    : minute >= start || minute < end;
+}
+
+/**
+ * Expand a window into the intervals that overlap [from, to), clipped to it.
+ * A null window yields the whole range.
+ */
+export function windowIntervals(window: PlanWindow | null, from: Date, to: Date): WindowInterval[] {
+  if (!window) return [{ start: from, end: to }];
+
+  const raw: WindowInterval[] = [];
+  if (window.kind === "once") {
+    raw.push({ start: new Date(window.start), end: new Date(window.end) });
+  } else {
+    const start = minutesOfDay(window.start);
+    const end = minutesOfDay(window.end);
+    const duration = ((end - start + MINUTES_PER_DAY) % MINUTES_PER_DAY) || MINUTES_PER_DAY;
+    // Start a day early so an overnight window that began yesterday is included
+    const day = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()) - MINUTES_PER_DAY * MS_PER_MINUTE;
+    for (let d = day; d < to.getTime(); d += MINUTES_PER_DAY * MS_PER_MINUTE) {
+      const s = d + start * MS_PER_MINUTE;
+      raw.push({ start: new Date(s), end: new Date(s + duration * MS_PER_MINUTE) });
+    }
+  }
+
+  return raw
+    .filter((iv) => iv.end > from && iv.start < to)
+    .map((iv) => ({
+      start: iv.start < from ? from : iv.start,
+      end: iv.end > to ? to : iv.end,
+    }));
+}
+
+/** Human label, e.g. "daily 22:00–06:00 UTC". */
+export function describeWindow(window: PlanWindow): string {
+  return window.kind === "daily"
+    ? `daily ${window.start}–${window.end} UTC`
+    : `${window.start} → ${window.end}`;
+}
+
+function minutesOfDay(hhmm: string): number {
+  const [h, m] = hhmm.split(":").map(Number);
+  return h * 60 + m;
+}
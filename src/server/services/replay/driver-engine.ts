@@ -0,0 +1,256 @@
+/**
+ * replay/driver-engine.ts — ChatEngine over a pluggable ModelDriver
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Runs the same pipeline as the provider engines — micro-runner prepare /
+ * validate / repair, the fleet tool loop through the trust gate, batch
+ * proposals, token accounting — but delegates each model exchange to a
+ * ModelDriver. With a recording driver it captures a live trajectory; with
+ * the replay driver it reproduces one exactly, with no network.
+ */
+
+import { log } from "../../logger.js";
+import { type MicroRunner, type GovernanceContext, VALIDATION_DISCLAIMER } from "../micro-runner.js";
+import type { ToolEnv, ToolContextFactory } from "../fleet-tools/index.js";
+import type { ProposalStoreFactory } from "../../stores/proposal-store.js";
+import { buildSystemPrompt } from "../gemini/system-prompt.js";
+import {
+  createBatchProposal,
+  createToolGateState,
+  runGatedToolCall,
+  sanitizeToolResponse,
+} from "../gemini/tool-dispatch.js";
+import type { ToolMode } from "../gemini/tool-mode.js";
+import type { ChatEngine } from "../engine.js";
+import type { FleetConfig, ImagePart, ChatResult, ProposalSummary, TokenUsageCallback } from "../gemini/index.js";
+import type { ModelDriver, ModelStep, TranscriptEntry } from "./types.js";
+
+/** Max rounds of tool calling before forcing a text response */
+const MAX_TOOL_ROUNDS = 5;
+
+export interface DriverEngineOptions {
+  fleetConfig?: FleetConfig | null;
+  dockBriefing?: string | null;
+  microRunner?: MicroRunner | null;
+  toolContextFactory?: ToolContextFactory | null;
+  proposalStoreFactory?: ProposalStoreFactory | null;
+  onTokenUsage?: TokenUsageCallback | null;
+}
+
+interface SessionState {
+  /** Transcript carried between turns: user messages and final answers */
+  transcript: TranscriptEntry[];
+  history: Array<{ role: string; text: string }>;
+}
+
+export function createDriverEngine(driver: ModelDriver, options: DriverEngineOptions = {}): ChatEngine {
+  const { microRunner, toolContextFactory, proposalStoreFactory, onTokenUsage } = options;
+  const hasToolContext = !!toolContextFactory;
+  const systemPrompt = buildSystemPrompt(options.fleetConfig, options.dockBriefing, hasToolContext);
+
+  const sessions = new Map<string, SessionState>();
+
+  /** Per-session mutex: prevents concurrent chat() calls from corrupting history */
+  const sessionLocks = new Map<string, Promise<void>>();
+  function withSessionLock(sessionId: string, fn: () => Promise<ChatResult>): Promise<ChatResult> {
+    const prev = sessionLocks.get(sessionId) ?? Promise.resolve();
+    let release: () => void;
+    const next = new Promise<void>((r) => { release = r; });
+    sessionLocks.set(sessionId, next);
+    return prev.then(fn).finally(() => release());
+  }
+
+  function getSession(sessionId: string): SessionState {
+    let state = sessions.get(sessionId);
+    if (!state) {
+      state = { transcript: [], history: [] };
+      sessions.set(sessionId, state);
+    }
+    return state;
+  }
+
+  /** Run one exchange and record token usage. */
+  async function complete(
+    transcript: TranscriptEntry[],
+    tools: boolean,
+    userId: string,
+    repair = false,
+  ): Promise<ModelStep> {
+    const step = await driver.complete({ systemPrompt, transcript, tools });
+    if (onTokenUsage && step.usage) {
+      const operation = repair ? "repair" : step.functionCalls.length > 0 ? "tool_call" : "chat";
+      onTokenUsage(userId, driver.modelId, operation, step.usage.inputTokens, step.usage.outputTokens);
+    }
+    return step;
+  }
+
+  async function sendAndHandleTools(
+    transcript: TranscriptEntry[],
+    sessionId: string,
+    scopedContext: ToolEnv | null,
+    userId: string,
+    withTools: boolean,
+    requestId?: string,
+    isCancelled?: () => boolean,
+  ): Promise<ChatResult> {
+    const gate = createToolGateState();
+    const proposals: ProposalSummary[] = [];
+    const accumulated: TranscriptEntry[] = [];
+
+    const finish = async (text: string): Promise<ChatResult> => {
+      if (gate.pendingBatch.length > 0) {
+        await createBatchProposal(proposalStoreFactory, gate.pendingBatch, userId, proposals);
+      }
+      return { text, proposals, executedTools: gate.executedTools };
+    };
+
+    for (let round = 1; round <= MAX_TOOL_ROUNDS + 1; round++) {
+      const step = await complete([...transcript, ...accumulated], withTools && !!scopedContext, userId);
+
+      if (step.functionCalls.length === 0 || !scopedContext) {
+        return finish(step.text);
+      }
+
+      if (isCancelled?.()) {
+        log.replay.info({ requestId, sessionId, round }, "tool:cancelled");
+        return finish("I was interrupted before finishing. Here's what I had so far.");
+      }
+
+      log.replay.debug({ requestId, sessionId, round, calls: step.functionCalls.map((c) => c.name) }, "tool:round");
+
+      accumulated.push({ role: "model", text: step.text, functionCalls: step.functionCalls });
+      const responses = await Promise.all(step.functionCalls.map((call) =>
+        runGatedToolCall(call.name, call.args, scopedContext, userId, gate, requestId),
+      ));
+      accumulated.push({
+        role: "tool",
+        results: step.functionCalls.map((call, i) => ({
+          id: call.id,
+          name: call.name,
+          response: sanitizeToolResponse(responses[i]),
+        })),
+      });
+    }
+
+    // Fallback: max rounds exceeded — ask model to summarize without tools
+    log.replay.warn({ requestId, sessionId, rounds: MAX_TOOL_ROUNDS + 1 }, "tool:max-rounds");
+    accumulated.push({ role: "user", text: "Please provide a text response summarizing the tool results." });
+    const { text } = await complete([...transcript, ...accumulated], false, userId);
+    return finish(text);
+  }
+
+  async function runTurn(
+    session: SessionState,
+    message: string,
+    sessionKey: string,
+    image: ImagePart | undefined,
+    userId: string,
+    withTools: boolean,
+    requestId?: string,
+    isCancelled?: () => boolean,
+    userRole?: string,
+  ): Promise<ChatResult> {
+    const scopedContext = hasToolContext ? toolContextFactory!.forUser(userId) : null;
+
+    if (!microRunner) {
+      session.transcript.push({ role: "user", text: message, image });
+      const result = await sendAndHandleTools(
+        session.transcript, sessionKey, scopedContext, userId, withTools, requestId, isCancelled,
+      );
+      session.transcript.push({ role: "model", text: result.text, functionCalls: [] });
+      return result;
+    }
+
+    const startTime = Date.now();
+    const governance: GovernanceContext = {
+      userId,
+      role: userRole ?? "ensign",
+      tenantId: userId,
+      modelFamily: driver.modelId,
+      procedureMode: "chat",
+    };
+    const { contract, gatedContext, augmentedMessage } = await microRunner.prepare(message, governance);
+
+    session.transcript.push({ role: "user", text: augmentedMessage, image });
+    const result = await sendAndHandleTools(
+      session.transcript, sessionKey, scopedContext, userId, withTools, requestId, isCancelled,
+    );
+    session.transcript.push({ role: "model", text: result.text, functionCalls: [] });
+
+    let finalText = result.text;
+    const validation = await microRunner.validate(
+      finalText, contract, gatedContext, sessionKey, startTime, message, governance,
+    );
+    const receipt = validation.receipt;
+
+    if (validation.needsRepair && validation.repairPrompt) {
+      log.replay.debug({ sessionId: sessionKey, violations: receipt.validationDetails }, "microrunner:repair");
+      session.transcript.push({ role: "user", text: validation.repairPrompt });
+      finalText = (await complete(session.transcript, false, userId, true)).text;
+      session.transcript.push({ role: "model", text: finalText, functionCalls: [] });
+      receipt.repairAttempted = true;
+
+      const revalidation = await microRunner.validate(
+        finalText, contract, gatedContext, sessionKey, startTime, message, governance,
+      );
+      receipt.validationResult = revalidation.receipt.validationResult === "pass" ? "repaired" : "fail";
+      receipt.validationDetails = revalidation.receipt.validationDetails;
+      receipt.durationMs = Date.now() - startTime;
+
+      if (receipt.validationResult === "fail") {
+        finalText = `${VALIDATION_DISCLAIMER}\n\n${finalText}`;
+      }
+    }
+
+    microRunner.finalize(receipt);
+    return { ...result, text: finalText };
+  }
+
+  return {
+    async chat(message: string, sessionId = "default", image?: ImagePart, userId?: string, requestId?: string, isCancelled?: () => boolean, toolMode?: ToolMode, _bulkDetected?: boolean, userRole?: string): Promise<ChatResult> {
+      const sessionKey = userId ? `${userId}:${sessionId}` : sessionId;
+      return withSessionLock(sessionKey, async () => {
+        const session = getSession(sessionKey);
+        driver.beginTurn?.(message);
+        const result = await runTurn(
+          session, message, sessionKey, image, userId ?? "local", toolMode !== "none", requestId, isCancelled, userRole,
+        );
+        driver.endTurn?.(result.text);
+
+        session.history.push({ role: "user", text: message });
+        session.history.push({ role: "model", text: result.text });
+        return result;
+      });
+    },
+
+    getHistory(sessionId = "default"): Array<{ role: string; text: string }> {
+      const session = sessions.get(sessionId);
+      return session ? [...session.history] : [];
+    },
+
+    getSessionCount(): number {
+      return sessions.size;
+    },
+
+    closeSession(sessionId: string): void {
+      sessions.delete(sessionId);
+      sessionLocks.delete(sessionId);
+    },
+
+    getModel(): string {
+      return driver.modelId;
+    },
+
+    setModel(modelId: string): void {
+      if (modelId !== driver.modelId) {
+        throw new Error(`Unknown model: ${modelId}. This engine is bound to "${driver.modelId}"`);
+      }
+    },
+
+    close(): void {
+      sessions.clear();
+      sessionLocks.clear();
+    },
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * replay/fixture.ts — Replay fixture load, save, and validation
+ *
+ * Majel — STFC Fleet Intelligence System
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { REPLAY_FIXTURE_VERSION, type ReplayFixture } from "./types.js";
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Validate parsed JSON as a replay fixture. Checks the version and the
+ * structural shape — enough to fail early on a hand-edited or stale file.
+ */
+export function parseReplayFixture(raw: unknown): ReplayFixture {
+  if (!isRecord(raw)) throw new Error("Replay fixture must be a JSON object");
+  if (raw.version !== REPLAY_FIXTURE_VERSION) {
+    throw new Error(`Unsupported replay fixture version: ${String(raw.version)} (expected ${REPLAY_FIXTURE_VERSION})`);
+  }
+  if (typeof raw.modelId !== "string" || !raw.modelId) throw new Error("Replay fixture is missing modelId");
+  if (!Array.isArray(raw.turns)) throw new Error("Replay fixture is missing turns");
+
+  raw.turns.forEach((turn: unknown, t) => {
+    if (!isRecord(turn) || typeof turn.message !== "string" || typeof turn.text !== "string" || !Array.isArray(turn.exchanges)) {
+      throw new Error(`Replay fixture turn ${t} is malformed`);
+    }
+    turn.exchanges.forEach((exchange: unknown, e) => {
+      const where = `turn ${t}, exchange ${e}`;
+      if (!isRecord(exchange) || typeof exchange.tools !== "boolean") {
+        throw new Error(`Replay fixture ${where} is malformed`);
+      }
+      const input = exchange.input;
+      if (!isRecord(input) || (input.role !== "user" && input.role !== "tool")) {
+        throw new Error(`Replay fixture ${where} has an invalid input`);
+      }
+      const step = exchange.step;
+      if (!isRecord(step) || typeof step.text !== "string" || !Array.isArray(step.functionCalls)) {
+        throw new Error(`Replay fixture ${where} has an invalid step`);
+      }
+    });
+  });
+
+  return raw as unknown as ReplayFixture;
+}
+
+export async function loadReplayFixture(path: string): Promise<ReplayFixture> {
+  return parseReplayFixture(JSON.parse(await readFile(path, "utf-8")));
+}
+
+export async function saveReplayFixture(path: string, fixture: ReplayFixture): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(fixture, null, 2) + "\n", "utf-8");
+}
@@ -0,0 +1,79 @@
+/**
+ * replay/gemini-driver.ts — Live Gemini ModelDriver
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Stateless generateContent calls with the full fleet tool declaration set
+ * and SDK auto-calling disabled, so the driver engine owns the tool loop.
+ * Used to record replay fixtures against the real model.
+ */
+
+import { GoogleGenAI, type Content, type Part } from "@google/genai";
+import { FLEET_TOOL_DECLARATIONS } from "../fleet-tools/index.js";
+import { SAFETY_SETTINGS } from "../gemini/system-prompt.js";
+import type { ModelDriver, ModelRequest, ModelStep, TranscriptEntry } from "./types.js";
+
+/** Convert the provider-neutral transcript to Gemini contents. */
+function toContents(transcript: TranscriptEntry[]): Content[] {
+  return transcript.map((entry): Content => {
+    switch (entry.role) {
+      case "user":
+        return { role: "user", parts: entry.image ? [entry.image, { text: entry.text }] : [{ text: entry.text }] };
+      case "model": {
+        const parts: Part[] = entry.text ? [{ text: entry.text }] : [];
+        for (const call of entry.functionCalls) {
+          parts.push({ functionCall: { id: call.id, name: call.name, args: call.args } });
+        }
+        return { role: "model", parts };
+      }
+      case "tool":
+        return {
+          role: "user",
+          parts: entry.results.map((r): Part => ({
+            functionResponse: {
+              id: r.id,
+              name: r.name,
+              // Gemini requires an object response — wrap arrays and scalars
+              response: r.response && typeof r.response === "object" && !Array.isArray(r.response)
+                ? r.response as Record<string, unknown>
+                : { result: r.response },
+            },
+          })),
+        };
+    }
+  });
+}
+
+export function createGeminiDriver(apiKey: string, modelId: string): ModelDriver {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    modelId,
+
+    async complete(request: ModelRequest): Promise<ModelStep> {
+      const result = await ai.models.generateContent({
+        model: modelId,
+        contents: toContents(request.transcript),
+        config: {
+          systemInstruction: request.systemPrompt,
+          safetySettings: SAFETY_SETTINGS,
+          ...(request.tools ? { tools: [{ functionDeclarations: FLEET_TOOL_DECLARATIONS }] } : {}),
+          automaticFunctionCalling: { disable: true },
+        },
+      });
+
+      const usage = result.usageMetadata;
+      return {
+        text: result.text ?? "",
+        functionCalls: (result.functionCalls ?? []).map((fc, i) => ({
+          id: fc.id ?? `${fc.name}-${i}`,
+          name: fc.name ?? "",
+          args: (fc.args as Record<string, unknown> | undefined) ?? {},
+        })),
+        usage: usage
+          ? { inputTokens: usage.promptTokenCount ?? 0, outputTokens: usage.candidatesTokenCount ?? 0 }
+          : null,
+      };
+    },
+  };
+}
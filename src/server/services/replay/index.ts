@@ -0,0 +1,76 @@
+/**
+ * replay/index.ts — Record-and-replay chat engines
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * createRecordingEngine wraps a live driver and captures every model
+ * exchange; createReplayEngine plays a captured fixture back through the
+ * ChatEngine interface and reports where the micro-runner or tool dispatch
+ * now produces different model inputs than when it was recorded.
+ */
+
+import type { ChatEngine } from "../engine.js";
+import type { ChatResult } from "../gemini/index.js";
+import { createDriverEngine, type DriverEngineOptions } from "./driver-engine.js";
+import { createRecordingDriver } from "./recording-driver.js";
+import { createReplayDriver } from "./replay-driver.js";
+import type { ModelDriver, ReplayFixture, ReplayMismatch } from "./types.js";
+
+export { createDriverEngine, type DriverEngineOptions } from "./driver-engine.js";
+export { createGeminiDriver } from "./gemini-driver.js";
+export { createRecordingDriver, type RecordingDriver } from "./recording-driver.js";
+export {
+  createReplayDriver,
+  diffJson,
+  formatReplayMismatch,
+  ReplayMismatchError,
+  type ReplayDriver,
+} from "./replay-driver.js";
+export { loadReplayFixture, parseReplayFixture, saveReplayFixture } from "./fixture.js";
+export * from "./types.js";
+
+export interface ReplayEngine extends ChatEngine {
+  /** Every mismatch seen across all turns so far. */
+  mismatches(): ReplayMismatch[];
+}
+
+export interface RecordingEngine extends ChatEngine {
+  /** The fixture recorded so far, ready for saveReplayFixture. */
+  fixture(): ReplayFixture;
+}
+
+export interface ReplayEngineOptions extends DriverEngineOptions {
+  /** Throw ReplayMismatchError on the first mismatch instead of collecting. */
+  strict?: boolean;
+}
+
+/**
+ * Replay a recorded fixture. Mismatches raised during a turn are also
+ * attached to that turn's ChatResult as `diagnostics.replayMismatches`.
+ */
+export function createReplayEngine(fixture: ReplayFixture, options: ReplayEngineOptions = {}): ReplayEngine {
+  const { strict, ...engineOptions } = options;
+  const driver = createReplayDriver(fixture, { strict });
+  const engine = createDriverEngine(driver, engineOptions);
+
+  return {
+    ...engine,
+    async chat(...args: Parameters<ChatEngine["chat"]>): Promise<ChatResult> {
+      const before = driver.mismatches().length;
+      const result = await engine.chat(...args);
+      const found = driver.mismatches().slice(before);
+      if (found.length === 0) return result;
+      return { ...result, diagnostics: { ...result.diagnostics, replayMismatches: found } };
+    },
+    mismatches: () => driver.mismatches(),
+  };
+}
+
+/** Record live exchanges from `live` while serving chat normally. */
+export function createRecordingEngine(live: ModelDriver, options: DriverEngineOptions = {}): RecordingEngine {
+  const driver = createRecordingDriver(live);
+  return {
+    ...createDriverEngine(driver, options),
+    fixture: () => driver.fixture(),
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * replay/recording-driver.ts — Capture live model exchanges as a fixture
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Wraps a live driver and records every exchange — the new input, whether
+ * tools were offered, and the model's step with token counts — grouped by
+ * chat() turn. The result replays through createReplayDriver.
+ */
+
+import { toRecordedInput } from "./replay-driver.js";
+import {
+  REPLAY_FIXTURE_VERSION,
+  type ModelDriver,
+  type ModelRequest,
+  type ModelStep,
+  type ReplayFixture,
+  type ReplayTurn,
+} from "./types.js";
+
+export interface RecordingDriver extends ModelDriver {
+  /** Snapshot of everything recorded so far. */
+  fixture(): ReplayFixture;
+}
+
+export function createRecordingDriver(live: ModelDriver): RecordingDriver {
+  const recordedAt = new Date().toISOString();
+  const turns: ReplayTurn[] = [];
+  let current: ReplayTurn | null = null;
+
+  return {
+    modelId: live.modelId,
+
+    beginTurn(message: string) {
+      live.beginTurn?.(message);
+      current = { message, exchanges: [], text: "" };
+      turns.push(current);
+    },
+
+    async complete(request: ModelRequest): Promise<ModelStep> {
+      const step = await live.complete(request);
+      if (!current) {
+        current = { message: "", exchanges: [], text: "" };
+        turns.push(current);
+      }
+      const last = request.transcript[request.transcript.length - 1];
+      // JSON round-trip detaches the record from objects the engine may mutate later
+      current.exchanges.push(JSON.parse(JSON.stringify({
+        input: toRecordedInput(last),
+        tools: request.tools,
+        step,
+      })));
+      return step;
+    },
+
+    endTurn(text: string) {
+      live.endTurn?.(text);
+      if (current) current.text = text;
+      current = null;
+    },
+
+    fixture() {
+      return JSON.parse(JSON.stringify({
+        version: REPLAY_FIXTURE_VERSION,
+        modelId: live.modelId,
+        recordedAt,
+        turns,
+      })) as ReplayFixture;
+    },
+  };
+}
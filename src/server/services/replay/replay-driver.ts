@@ -0,0 +1,193 @@
+/**
+ * replay/replay-driver.ts — Answer model requests from a recorded fixture
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Each complete() returns the next recorded step and diffs the request's new
+ * input against what was recorded. The input is produced by code under test —
+ * the micro-runner (augmented message, repair prompt) and tool dispatch (tool
+ * results) — so a diff means that code changed behavior since recording.
+ */
+
+import { createHash } from "node:crypto";
+import type {
+  ModelDriver,
+  ModelRequest,
+  ModelStep,
+  RecordedInput,
+  ReplayFixture,
+  ReplayMismatch,
+  TranscriptEntry,
+} from "./types.js";
+
+/** Cap on per-exchange diff entries — the first few differences tell the story. */
+const MAX_DIFFS_PER_VALUE = 5;
+
+const EMPTY_STEP: ModelStep = { text: "", functionCalls: [], usage: null };
+
+// ─── Errors ─────────────────────────────────────────────────
+
+/** Thrown by strict replays on the first mismatch. */
+export class ReplayMismatchError extends Error {
+  public readonly mismatch: ReplayMismatch;
+
+  constructor(mismatch: ReplayMismatch) {
+    super(`Replay mismatch — ${formatReplayMismatch(mismatch)}`);
+    this.name = "ReplayMismatchError";
+    this.mismatch = mismatch;
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+/** Reduce a transcript entry to its fixture form (images become a content hash). */
+export function toRecordedInput(entry: TranscriptEntry): RecordedInput {
+  if (entry.role === "tool") return { role: "tool", results: entry.results };
+  if (entry.role === "model") {
+    // Never the last entry of a well-formed request; record it as text for diagnostics.
+    return { role: "user", text: entry.text };
+  }
+  if (!entry.image) return { role: "user", text: entry.text };
+  return {
+    role: "user",
+    text: entry.text,
+    image: {
+      mimeType: entry.image.inlineData.mimeType,
+      sha256: createHash("sha256").update(entry.image.inlineData.data).digest("hex"),
+    },
+  };
+}
+
+/** JSON round-trip so recorded and live values compare on equal footing. */
+function normalize(value: unknown): unknown {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value)) as unknown;
+}
+
+/** Collect up to `limit` differences between two JSON values, with their paths. */
+export function diffJson(
+  expected: unknown,
+  actual: unknown,
+  path = "",
+  out: Array<{ path: string; expected: unknown; actual: unknown }> = [],
+  limit = MAX_DIFFS_PER_VALUE,
+): Array<{ path: string; expected: unknown; actual: unknown }> {
+  if (out.length >= limit) return out;
+  if (Object.is(expected, actual)) return out;
+
+  const bothArrays = Array.isArray(expected) && Array.isArray(actual);
+  const bothObjects = !bothArrays
+    && expected !== null && actual !== null
+    && typeof expected === "object" && typeof actual === "object"
+    && !Array.isArray(expected) && !Array.isArray(actual);
+
+  if (bothArrays) {
+    const len = Math.max(expected.length, actual.length);
+    for (let i = 0; i < len && out.length < limit; i++) {
+      diffJson(expected[i], actual[i], `${path}[${i}]`, out, limit);
+    }
+    return out;
+  }
+  if (bothObjects) {
+    const e = expected as Record<string, unknown>;
+    const a = actual as Record<string, unknown>;
+    const keys = [...new Set([...Object.keys(e), ...Object.keys(a)])].sort();
+    for (const key of keys) {
+      if (out.length >= limit) break;
+      diffJson(e[key], a[key], path ? `${path}.${key}` : key, out, limit);
+    }
+    return out;
+  }
+
+  out.push({ path: path || "(root)", expected, actual });
+  return out;
+}
+
+/** One-line description of a mismatch for logs and error messages. */
+export function formatReplayMismatch(m: ReplayMismatch): string {
+  const where = m.exchange === null ? `turn ${m.turn}` : `turn ${m.turn}, exchange ${m.exchange}`;
+  const show = (v: unknown) => {
+    const s = v === undefined ? "undefined" : JSON.stringify(v);
+    return s.length > 120 ? `${s.slice(0, 120)}…` : s;
+  };
+  return `${m.kind} at ${where} (${m.path}): expected ${show(m.expected)}, got ${show(m.actual)}`;
+}
+
+// ─── Driver ─────────────────────────────────────────────────
+
+export interface ReplayDriver extends ModelDriver {
+  /** Every mismatch seen so far, in order. */
+  mismatches(): ReplayMismatch[];
+}
+
+/**
+ * Create a driver that replays `fixture`. In strict mode the first mismatch
+ * throws ReplayMismatchError; otherwise replay carries on with the recorded
+ * steps and mismatches accumulate for inspection.
+ */
+export function createReplayDriver(fixture: ReplayFixture, options: { strict?: boolean } = {}): ReplayDriver {
+  const found: ReplayMismatch[] = [];
+  let turnIndex = -1;
+  let exchangeIndex = 0;
+
+  function report(mismatch: ReplayMismatch): void {
+    found.push(mismatch);
+    if (options.strict) throw new ReplayMismatchError(mismatch);
+  }
+
+  return {
+    modelId: fixture.modelId,
+
+    mismatches() {
+      return [...found];
+    },
+
+    beginTurn(message: string) {
+      turnIndex++;
+      exchangeIndex = 0;
+      const turn = fixture.turns[turnIndex];
+      if (!turn) {
+        report({ kind: "exhausted", turn: turnIndex, exchange: null, path: "turns", expected: fixture.turns.length, actual: turnIndex + 1 });
+        return;
+      }
+      if (turn.message !== message) {
+        report({ kind: "message", turn: turnIndex, exchange: null, path: "message", expected: turn.message, actual: message });
+      }
+    },
+
+    async complete(request: ModelRequest): Promise<ModelStep> {
+      // Engines that skip beginTurn still replay, one turn per fixture turn.
+      if (turnIndex < 0) turnIndex = 0;
+      const turn = fixture.turns[turnIndex];
+      const exchange = turn?.exchanges[exchangeIndex];
+      const at = exchangeIndex++;
+
+      if (!exchange) {
+        report({ kind: "exhausted", turn: turnIndex, exchange: at, path: "exchanges", expected: turn?.exchanges.length ?? 0, actual: at + 1 });
+        return EMPTY_STEP;
+      }
+
+      if (exchange.tools !== request.tools) {
+        report({ kind: "tools", turn: turnIndex, exchange: at, path: "tools", expected: exchange.tools, actual: request.tools });
+      }
+
+      const last = request.transcript[request.transcript.length - 1];
+      const actualInput = last ? normalize(toRecordedInput(last)) : undefined;
+      for (const diff of diffJson(exchange.input, actualInput, "input")) {
+        report({ kind: "input", turn: turnIndex, exchange: at, ...diff });
+      }
+
+      return exchange.step;
+    },
+
+    endTurn(text: string) {
+      const turn = fixture.turns[turnIndex];
+      if (!turn) return;
+      if (exchangeIndex < turn.exchanges.length) {
+        report({ kind: "unused", turn: turnIndex, exchange: exchangeIndex, path: "exchanges", expected: turn.exchanges.length, actual: exchangeIndex });
+      }
+      if (turn.text !== text) {
+        report({ kind: "text", turn: turnIndex, exchange: null, path: "text", expected: turn.text, actual: text });
+      }
+    },
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * replay/types.ts — Model driver and replay fixture types
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * A ModelDriver is the single seam between the driver engine's tool loop and
+ * a model: live drivers call a provider, the replay driver answers from a
+ * fixture. Fixtures are versioned JSON so they can live beside the tests.
+ */
+
+import type { ImagePart } from "../gemini/index.js";
+
+// ─── Model Turns ────────────────────────────────────────────
+
+export interface ModelFunctionCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ModelToolResult {
+  id: string;
+  name: string;
+  response: unknown;
+}
+
+export interface ModelUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** One model response: text and/or function calls. */
+export interface ModelStep {
+  text: string;
+  functionCalls: ModelFunctionCall[];
+  usage: ModelUsage | null;
+}
+
+export type TranscriptEntry =
+  | { role: "user"; text: string; image?: ImagePart }
+  | { role: "model"; text: string; functionCalls: ModelFunctionCall[] }
+  | { role: "tool"; results: ModelToolResult[] };
+
+export interface ModelRequest {
+  systemPrompt: string;
+  /** Full conversation; the last entry is the new input for this exchange. */
+  transcript: TranscriptEntry[];
+  /** Whether fleet tools are offered on this exchange. */
+  tools: boolean;
+}
+
+export interface ModelDriver {
+  /** Model ID reported by the engine and the token ledger. */
+  readonly modelId: string;
+  complete(request: ModelRequest): Promise<ModelStep>;
+  /** Turn boundaries, for drivers that keep per-turn state. */
+  beginTurn?(message: string): void;
+  endTurn?(text: string): void;
+}
+
+// ─── Fixtures ───────────────────────────────────────────────
+
+export const REPLAY_FIXTURE_VERSION = 1;
+
+/** New input as stored in a fixture — images are kept as a content hash. */
+export type RecordedInput =
+  | { role: "user"; text: string; image?: { mimeType: string; sha256: string } }
+  | { role: "tool"; results: ModelToolResult[] };
+
+export interface ReplayExchange {
+  input: RecordedInput;
+  tools: boolean;
+  step: ModelStep;
+}
+
+export interface ReplayTurn {
+  /** Raw message passed to chat(), before the micro-runner. */
+  message: string;
+  exchanges: ReplayExchange[];
+  /** Final text chat() returned. */
+  text: string;
+}
+
+export interface ReplayFixture {
+  version: typeof REPLAY_FIXTURE_VERSION;
+  modelId: string;
+  recordedAt: string;
+  turns: ReplayTurn[];
+}
+
+// ─── Diagnostics ────────────────────────────────────────────
+
+export type ReplayMismatchKind =
+  /** chat() received a different message than recorded */
+  | "message"
+  /** The model input (micro-runner output or tool results) differs */
+  | "input"
+  /** Tools were offered on a different set of exchanges */
+  | "tools"
+  /** The engine asked for more exchanges or turns than were recorded */
+  | "exhausted"
+  /** The turn ended with recorded exchanges left over */
+  | "unused"
+  /** The final text differs (e.g. validation disclaimer added or dropped) */
+  | "text";
+
+export interface ReplayMismatch {
+  kind: ReplayMismatchKind;
+  /** Zero-based turn index */
+  turn: number;
+  /** Zero-based exchange index within the turn, when applicable */
+  exchange: number | null;
+  /** JSON path to the differing value, e.g. `input.results[0].response.officers` */
+  path: string;
+  expected: unknown;
+  actual: unknown;
+}
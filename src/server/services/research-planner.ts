@@ -0,0 +1,344 @@
+/**
+ * research-planner.ts — Research Queue Optimizer (ADR-028 Phase 2)
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Ranks the Admiral's unfinished research nodes against a goal and builds an
+ * ordered research queue with running resource totals.
+ *
+ * Scoring
+ * - Goal weights come from the effect taxonomy: an intent's effect weights
+ *   (e.g. mining-gas → mining_rate_gas ×3, cargo_capacity ×1).
+ * - Each research buff metric is mapped to the longest effect key it names
+ *   ("ship_weapon_damage_pct" → weapon_damage) after token aliases
+ *   (hp → health, speed → rate, critical → crit).
+ * - Value = Σ weight × buff magnitude × share of levels still to research.
+ *   Magnitude is the percent as a fraction, a multiplier's distance from 1,
+ *   or a nominal FLAT_BUFF_MAGNITUDE for flat buffs (no common scale).
+ * - Cost = remaining levels' resources, each resource normalized by the
+ *   largest remaining amount of it among candidates, so ore and latinum
+ *   weigh in on the same 0–1 scale. Nodes without cost data cost 0 and are
+ *   flagged costKnown: false.
+ * - Efficiency = value / (1 + cost).
+ *
+ * Queue (greedy)
+ * Repeatedly take the node whose chain — its unfinished prerequisites plus
+ * itself — has the best combined efficiency, and append the chain roots
+ * first. Prerequisites count toward chain value, so a cheap unlock in front
+ * of a strong node can win. Nodes with a dependency missing from the
+ * snapshot are unreachable and never queued.
+ *
+ * Resource totals accumulate step by step and are checked against
+ * inventory (matched by normalized resource name).
+ */
+
+import type { ResearchBuff, ResearchNodeRecord } from "../stores/research-store.js";
+import { normalizePercentValue } from "./fleet-tools/read-tools-research-helpers.js";
+import { normalizeToken } from "./fleet-tools/read-tools-upgrade-helpers.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface ResourceAmount {
+  resource: string;
+  amount: number;
+}
+
+export interface ResourceRequirement {
+  resource: string;
+  required: number;
+  available: number;
+  gap: number;
+}
+
+export interface ScoredResearchNode {
+  nodeId: string;
+  name: string;
+  tree: string;
+  currentLevel: number;
+  maxLevel: number;
+  value: number;
+  cost: ResourceAmount[];
+  costKnown: boolean;
+  efficiency: number;
+  /** Buffs that matched a goal effect key. */
+  matchedEffects: Array<{ metric: string; effectKey: string; weight: number }>;
+  /** Unfinished prerequisites that must be researched first. */
+  blockedBy: string[];
+}
+
+export interface ResearchQueueStep {
+  position: number;
+  nodeId: string;
+  name: string;
+  tree: string;
+  fromLevel: number;
+  toLevel: number;
+  /** "goal" for a node queued for its own value, "prerequisite" when it unlocks one. */
+  role: "goal" | "prerequisite";
+  /** For prerequisites: the goal node that pulled it into the queue. */
+  unlocks: string | null;
+  value: number;
+  efficiency: number;
+  cost: ResourceAmount[];
+  costKnown: boolean;
+  /** Running totals through this step. */
+  cumulative: ResourceRequirement[];
+  /** True when the running totals fit current inventory. */
+  affordable: boolean;
+}
+
+export interface ResearchPlan {
+  queue: ResearchQueueStep[];
+  /** Top-valued reachable nodes, best efficiency first. */
+  ranked: ScoredResearchNode[];
+  totals: ResourceRequirement[];
+  summary: {
+    candidates: number;
+    valued: number;
+    unreachable: number;
+    queued: number;
+    /** Steps from the front of the queue that inventory already covers. */
+    affordableSteps: number;
+    stepsWithCostData: number;
+    unmatchedMetrics: string[];
+  };
+}
+
+export interface ResearchPlanInput {
+  nodes: ResearchNodeRecord[];
+  /** Effect key → goal weight. */
+  weights: Record<string, number>;
+  /** normalizeToken(resource name) → quantity held. */
+  inventory: Map<string, number>;
+  /** Maximum queue steps (default 10). */
+  limit?: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────
+
+export const DEFAULT_QUEUE_LIMIT = 10;
+export const MAX_QUEUE_LIMIT = 50;
+const MAX_RANKED = 15;
+
+/** Flat buffs have no common scale; count them like a 5% buff. */
+const FLAT_BUFF_MAGNITUDE = 0.05;
+
+const TOKEN_ALIASES: Record<string, string> = {
+  hp: "health",
+  speed: "rate",
+  critical: "crit",
+  shields: "shield",
+  weapons: "weapon",
+  dmg: "damage",
+  protected: "protection",
+};
+
+// ─── Goal weights ───────────────────────────────────────────
+
+/** Combine several intents' weights, keeping the strongest weight per effect key. */
+export function mergeIntentWeights(weightSets: Array<Record<string, number>>): Record<string, number> {
+  const merged: Record<string, number> = {};
+  for (const weights of weightSets) {
+    for (const [key, weight] of Object.entries(weights)) {
+      merged[key] = Math.max(merged[key] ?? 0, weight);
+    }
+  }
+  return merged;
+}
+
+/** The goal effect key a research buff metric names, or null. */
+export function matchBuffEffectKey(metric: string, weights: Record<string, number>): string | null {
+  const tokens = metric
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map((token) => TOKEN_ALIASES[token] ?? token);
+  const haystack = `_${tokens.join("_")}_`;
+  let best: string | null = null;
+  for (const key of Object.keys(weights)) {
+    if (!haystack.includes(`_${key}_`)) continue;
+    if (!best || key.length > best.length) best = key;
+  }
+  return best;
+}
+
+function buffMagnitude(buff: ResearchBuff): number {
+  if (buff.unit === "percent") return Math.abs(normalizePercentValue(buff.value));
+  if (buff.unit === "multiplier") return Math.abs(buff.value - 1);
+  return FLAT_BUFF_MAGNITUDE;
+}
+
+// ─── Planner ────────────────────────────────────────────────
+
+function round(value: number, places = 4): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function remainingCost(node: ResearchNodeRecord): ResourceAmount[] {
+  const byResource = new Map<string, number>();
+  for (const cost of node.costs) {
+    if (cost.level <= node.level) continue;
+    byResource.set(cost.resource, (byResource.get(cost.resource) ?? 0) + cost.amount);
+  }
+  return [...byResource.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([resource, amount]) => ({ resource, amount }));
+}
+
+function requirementRows(totals: Map<string, number>, inventory: Map<string, number>): ResourceRequirement[] {
+  return [...totals.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([resource, required]) => {
+      const available = Math.max(0, inventory.get(normalizeToken(resource)) ?? 0);
+      return { resource, required, available, gap: Math.max(0, required - available) };
+    });
+}
+
+/** Score every unfinished node against the goal and build the research queue. */
+export function planResearch(input: ResearchPlanInput): ResearchPlan {
+  const limit = Math.min(Math.max(Math.floor(input.limit ?? DEFAULT_QUEUE_LIMIT), 1), MAX_QUEUE_LIMIT);
+  const nodeMap = new Map(input.nodes.map((node) => [node.nodeId, node]));
+
+  // Reachability: every transitive dependency must exist in the snapshot
+  const reachableMemo = new Map<string, boolean>();
+  const isReachable = (nodeId: string, trail: Set<string> = new Set()): boolean => {
+    const cached = reachableMemo.get(nodeId);
+    if (cached !== undefined) return cached;
+    const node = nodeMap.get(nodeId);
+    if (!node || trail.has(nodeId)) return false;
+    trail.add(nodeId);
+    const ok = node.dependencies.every((dep) => isReachable(dep, trail));
+    trail.delete(nodeId);
+    reachableMemo.set(nodeId, ok);
+    return ok;
+  };
+
+  // Unfinished prerequisites, roots first
+  const prerequisites = (nodeId: string): string[] => {
+    const ordered: string[] = [];
+    const seen = new Set<string>();
+    const walk = (id: string) => {
+      if (seen.has(id)) return;
+      seen.add(id);
+      const node = nodeMap.get(id);
+      if (!node) return;
+      for (const dep of node.dependencies) walk(dep);
+      if (id !== nodeId && !node.completed) ordered.push(id);
+    };
+    walk(nodeId);
+    return ordered;
+  };
+
+  const candidates = input.nodes.filter((node) => !node.completed && node.level < node.maxLevel);
+  const unmatched = new Set<string>();
+  const scored = new Map<string, ScoredResearchNode>();
+  const costScale = new Map<string, number>();
+
+  for (const node of candidates) {
+    const remainingShare = (node.maxLevel - node.level) / node.maxLevel;
+    const matchedEffects: ScoredResearchNode["matchedEffects"] = [];
+    let value = 0;
+    for (const buff of node.buffs) {
+      const effectKey = matchBuffEffectKey(buff.metric, input.weights);
+      if (!effectKey) {
+        unmatched.add(buff.metric);
+        continue;
+      }
+      const weight = input.weights[effectKey];
+      value += weight * buffMagnitude(buff) * remainingShare;
+      matchedEffects.push({ metric: buff.metric, effectKey, weight });
+    }
+    const cost = remainingCost(node);
+    for (const entry of cost) {
+      costScale.set(entry.resource, Math.max(costScale.get(entry.resource) ?? 0, entry.amount));
+    }
+    scored.set(node.nodeId, {
+      nodeId: node.nodeId,
+      name: node.name,
+      tree: node.tree,
+      currentLevel: node.level,
+      maxLevel: node.maxLevel,
+      value: round(value),
+      cost,
+      costKnown: cost.length > 0,
+      efficiency: 0,
+      matchedEffects,
+      blockedBy: prerequisites(node.nodeId),
+    });
+  }
+
+  const normalizedCost = (entry: ScoredResearchNode) =>
+    entry.cost.reduce((sum, c) => sum + (costScale.get(c.resource) ? c.amount / costScale.get(c.resource)! : 0), 0);
+  for (const entry of scored.values()) {
+    entry.efficiency = round(entry.value / (1 + normalizedCost(entry)));
+  }
+
+  const reachable = [...scored.values()].filter((entry) => isReachable(entry.nodeId));
+  const valued = reachable.filter((entry) => entry.value > 0);
+
+  // Greedy chain selection
+  const queued = new Set<string>();
+  const queue: ResearchQueueStep[] = [];
+  const running = new Map<string, number>();
+  while (queue.length < limit) {
+    let best: { goal: ScoredResearchNode; chain: ScoredResearchNode[]; efficiency: number } | null = null;
+    for (const goal of valued) {
+      if (queued.has(goal.nodeId)) continue;
+      const chain = [...goal.blockedBy.filter((id) => !queued.has(id)), goal.nodeId]
+        .map((id) => scored.get(id))
+        .filter((entry): entry is ScoredResearchNode => entry !== undefined);
+      const chainValue = chain.reduce((sum, entry) => sum + entry.value, 0);
+      const chainCost = chain.reduce((sum, entry) => sum + normalizedCost(entry), 0);
+      const efficiency = chainValue / (1 + chainCost);
+      if (!best || efficiency > best.efficiency || (efficiency === best.efficiency && goal.nodeId < best.goal.nodeId)) {
+        best = { goal, chain, efficiency };
+      }
+    }
+    if (!best) break;
+    // Keep whole chains together; only the first chain may overrun the limit
+    if (queue.length > 0 && queue.length + best.chain.length > limit) break;
+
+    for (const entry of best.chain) {
+      queued.add(entry.nodeId);
+      for (const c of entry.cost) running.set(c.resource, (running.get(c.resource) ?? 0) + c.amount);
+      const cumulative = requirementRows(running, input.inventory);
+      const isGoal = entry.nodeId === best.goal.nodeId;
+      queue.push({
+        position: queue.length + 1,
+        nodeId: entry.nodeId,
+        name: entry.name,
+        tree: entry.tree,
+        fromLevel: entry.currentLevel,
+        toLevel: entry.maxLevel,
+        role: isGoal ? "goal" : "prerequisite",
+        unlocks: isGoal ? null : best.goal.nodeId,
+        value: entry.value,
+        efficiency: entry.efficiency,
+        cost: entry.cost,
+        costKnown: entry.costKnown,
+        cumulative,
+        affordable: cumulative.every((row) => row.gap === 0),
+      });
+    }
+  }
+
+  const firstUnaffordable = queue.findIndex((step) => !step.affordable);
+
+  return {
+    queue,
+    ranked: [...valued]
+      .sort((a, b) => b.efficiency - a.efficiency || a.nodeId.localeCompare(b.nodeId))
+      .slice(0, MAX_RANKED),
+    totals: requirementRows(running, input.inventory),
+    summary: {
+      candidates: candidates.length,
+      valued: valued.length,
+      unreachable: scored.size - reachable.length,
+      queued: queue.length,
+      affordableSteps: firstUnaffordable < 0 ? queue.length : firstUnaffordable,
+      stepsWithCostData: queue.filter((step) => step.costKnown).length,
+      unmatchedMetrics: [...unmatched].sort(),
+    },
+  };
+}
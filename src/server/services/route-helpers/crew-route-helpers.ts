@@ -1,5 +1,6 @@
 import type { Response } from "express";
 import type { AppState } from "../../app-context.js";
+import { loadSubstitutionSource } from "../crew-substitution.js";
 
 export const MAX_NAME = 200;
 export const MAX_NOTES = 2000;
@@ -9,3 +10,17 @@ export function getCrewStore(appState: AppState, res: Response) {
   const userId = (res.locals.ctx?.identity.userId ?? (res.locals.userId as string)) || "local";
   return appState.crewStoreFactory?.forUser(userId) ?? appState.crewStore;
 }
+
+export function getOverlayStore(appState: AppState, res: Response) {
+  const userId = (res.locals.ctx?.identity.userId ?? (res.locals.userId as string)) || "local";
+  return appState.overlayStoreFactory?.forUser(userId) ?? appState.overlayStore;
+}
+
+/** Owned-roster substitution data for the plan solver (null when effect data is unavailable). */
+export async function getSubstitutionSource(appState: AppState, res: Response) {
+  return loadSubstitutionSource({
+    effectStore: appState.effectStore,
+    overlayStore: getOverlayStore(appState, res),
+    referenceStore: appState.referenceStore,
+  });
+}
@@ -1,5 +1,5 @@
 import { ErrorCode } from "../../envelope.js";
-import type { OwnershipState } from "../../stores/overlay-store.js";
+import { PRIMARY_INSTANCE_ID, newInstanceId, type OwnershipState } from "../../stores/overlay-store.js";
 import type { ImportFormat } from "../import-mapping.js";
 import { recordImportReject } from "../import-rejection-counters.js";
 
@@ -105,6 +105,34 @@ export function diffFieldsShip(before: ShipOverlayRow | null, next: ShipOverlayR
   return changed;
 }
 
+/**
+ * Assign overlay instances to import rows (ADR-051).
+ * The Nth row for a ref updates that ref's Nth existing instance (primary
+ * first); rows beyond the existing copies become new instances.
+ */
+export function createInstanceAllocator(
+  existing: Array<{ refId: string; instanceId: string }>,
+): (refId: string) => string {
+  const byRef = new Map<string, string[]>();
+  for (const row of existing) {
+    const list = byRef.get(row.refId) ?? [];
+    list.push(row.instanceId);
+    byRef.set(row.refId, list);
+  }
+  for (const list of byRef.values()) {
+    list.sort((a, b) => Number(b === PRIMARY_INSTANCE_ID) - Number(a === PRIMARY_INSTANCE_ID) || a.localeCompare(b));
+  }
+
+  const taken = new Map<string, number>();
+  return (refId) => {
+    const n = taken.get(refId) ?? 0;
+    taken.set(refId, n + 1);
+    const list = byRef.get(refId) ?? [];
+    if (n < list.length) return list[n];
+    return n === 0 ? PRIMARY_INSTANCE_ID : newInstanceId();
+  };
+}
+
 export function isProtectedOverwriteOfficer(before: OfficerOverlayRow, next: OfficerOverlayRow): boolean {
   if (before.ownershipState !== "unknown" && before.ownershipState !== next.ownershipState) return true;
   if (before.level != null && before.level !== next.level) return true;
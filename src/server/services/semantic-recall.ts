@@ -0,0 +1,208 @@
+/**
+ * semantic-recall.ts — Embedding-based recall for Lex memory frames
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Keyword search misses turns that answer a question in other words
+ * ("my mining crew" vs "Helvia on the Envoy"). Each frame also gets an
+ * embedding; recall compares the query's embedding with them and blends the
+ * cosine similarity with the full-text rank (hybrid ranking).
+ *
+ * Embedders are pluggable. The built-in hashing embedder needs no model and
+ * no network: it hashes word stems and character trigrams into a fixed
+ * vector, so it catches inflections and near-spellings but not synonyms.
+ * Point MAJEL_EMBEDDING_MODEL at an OpenAI-compatible `/embeddings` server
+ * (local/embeddings.ts) for real semantic matching.
+ *
+ * Vectors are stored with the id of the embedder that produced them and are
+ * only ever compared with vectors from the same embedder. Similarity is
+ * computed in-process over the user's most recent frames — no pgvector.
+ */
+
+import type { Frame, FrameStore } from "@smartergpt/lex/store";
+import type { AppConfig } from "../config.js";
+import { createOpenAiEmbedder } from "./local/embeddings.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface Embedder {
+  /** Stable identifier stored with each vector, e.g. "hash-512" or "openai:nomic-embed-text" */
+  readonly id: string;
+  /** Cosine similarity below which a vector-only match is treated as noise */
+  readonly minSimilarity: number;
+  /** One vector per input text, in order. */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface ScoredFrame {
+  frame: Frame;
+  score: number;
+}
+
+export interface RecallHit {
+  frame: Frame;
+  /** Hybrid score, 0–1: weighted similarity plus keyword rank */
+  score: number;
+  /** Cosine similarity to the query; null when the frame has no comparable vector */
+  similarity: number | null;
+  /** Full-text rank relative to the best keyword match, 0–1 (0 = no keyword match) */
+  keywordScore: number;
+}
+
+/**
+ * FrameStore with stored embeddings and ranked full-text search
+ * (PostgresFrameStore). Lex's SQLite store lacks these, so recall falls
+ * back to embedding its keyword results on the fly.
+ */
+export interface VectorFrameStore extends FrameStore {
+  saveEmbedding(id: string, model: string, embedding: number[]): Promise<boolean>;
+  /** Frames ordered by cosine similarity to `embedding`, among the most recent `candidates` embedded by `model`. */
+  findSimilar(embedding: number[], model: string, limit: number, candidates?: number): Promise<ScoredFrame[]>;
+  /** Frames matching any query term, with ts_rank scores, best first. */
+  searchFramesRanked(query: string, limit: number): Promise<ScoredFrame[]>;
+  /** Frames without a vector from `model`, newest first. */
+  listFramesWithoutEmbedding(model: string, limit: number): Promise<Frame[]>;
+}
+
+export function isVectorFrameStore(store: FrameStore): store is VectorFrameStore {
+  const candidate = store as Partial<VectorFrameStore>;
+  return typeof candidate.findSimilar === "function"
+    && typeof candidate.saveEmbedding === "function"
+    && typeof candidate.searchFramesRanked === "function"
+    && typeof candidate.listFramesWithoutEmbedding === "function";
+}
+
+// ─── Ranking ────────────────────────────────────────────────
+
+const VECTOR_WEIGHT = 0.65;
+const KEYWORD_WEIGHT = 0.35;
+/** Characters of a turn that go into its embedding */
+export const EMBEDDING_TEXT_CHARS = 2000;
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/** Text embedded for a new conversation turn — the whole answer, not just the caption. */
+export function turnEmbeddingText(question: string, answer: string): string {
+  return `${question}\n${answer}`.slice(0, EMBEDDING_TEXT_CHARS);
+}
+
+/** Text embedded for a stored frame (backfill, or stores without vectors). */
+export function frameEmbeddingText(frame: Frame): string {
+  return [frame.reference_point, frame.summary_caption, ...(frame.keywords ?? [])].join("\n").slice(0, EMBEDDING_TEXT_CHARS);
+}
+
+/**
+ * Merge vector and keyword candidates into one ranking. Frames below the
+ * embedder's similarity floor survive only on a keyword match.
+ */
+export function rankHybrid(
+  vectorHits: ScoredFrame[],
+  keywordHits: ScoredFrame[],
+  limit: number,
+  minSimilarity: number,
+): RecallHit[] {
+  const topRank = Math.max(0, ...keywordHits.map((h) => h.score));
+  const hits = new Map<string, RecallHit>();
+  for (const { frame, score } of vectorHits) {
+    hits.set(frame.id, { frame, score: 0, similarity: score, keywordScore: 0 });
+  }
+  for (const { frame, score } of keywordHits) {
+    const keywordScore = topRank > 0 ? score / topRank : 1;
+    const existing = hits.get(frame.id);
+    hits.set(frame.id, existing ? { ...existing, keywordScore } : { frame, score: 0, similarity: null, keywordScore });
+  }
+
+  return [...hits.values()]
+    .filter((h) => h.keywordScore > 0 || (h.similarity ?? 0) >= minSimilarity)
+    .map((h) => ({
+      ...h,
+      score: round(VECTOR_WEIGHT * Math.max(0, h.similarity ?? 0) + KEYWORD_WEIGHT * h.keywordScore),
+      similarity: h.similarity === null ? null : round(h.similarity),
+      keywordScore: round(h.keywordScore),
+    }))
+    .sort((a, b) => b.score - a.score || b.frame.timestamp.localeCompare(a.frame.timestamp))
+    .slice(0, limit);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// ─── Hashing Embedder ───────────────────────────────────────
+
+const STOP_WORDS = new Set([
+  "a", "an", "the", "is", "are", "was", "were", "be", "been", "have", "has", "had",
+  "do", "does", "did", "will", "would", "could", "should", "can", "to", "of", "in",
+  "for", "on", "with", "at", "by", "from", "as", "into", "about", "and", "but", "or",
+  "if", "so", "not", "what", "which", "who", "this", "that", "these", "those", "it",
+  "its", "i", "me", "my", "we", "our", "you", "your", "they", "them", "their",
+]);
+
+/** Crude suffix stripping so "mining", "mines" and "mined" share a feature. */
+function stem(word: string): string {
+  for (const suffix of ["ing", "ers", "ed", "er", "es", "s"]) {
+    if (word.length > suffix.length + 2 && word.endsWith(suffix)) return word.slice(0, -suffix.length);
+  }
+  return word;
+}
+
+/** 32-bit FNV-1a */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Feature-hashing embedder: word stems (weight 1) and character trigrams
+ * (weight 0.5) hashed with a sign bit into `dimensions` buckets, L2-normalized.
+ */
+export function createHashingEmbedder(dimensions = 512): Embedder {
+  function embedOne(text: string): number[] {
+    const vector = new Array<number>(dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const h = hash(feature);
+      vector[h % dimensions] += (h & 0x80000000) ? -weight : weight;
+    };
+    const words = text.toLowerCase().replace(/[^a-z0-9\s]/g, " ").split(/\s+/).filter((w) => w.length > 1 && !STOP_WORDS.has(w));
+    for (const word of words) {
+      const root = stem(word);
+      add(`w:${root}`, 1);
+      const padded = `^${root}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) add(`t:${padded.slice(i, i + 3)}`, 0.5);
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+  }
+
+  return {
+    id: `hash-${dimensions}`,
+    minSimilarity: 0.2,
+    async embed(texts) {
+      return texts.map(embedOne);
+    },
+  };
+}
+
+/** The configured embedding model, or the hashing embedder when none is set. */
+export function createEmbedder(
+  config: Pick<AppConfig, "embeddingModel" | "embeddingUrl" | "localModelApiKey">,
+): Embedder {
+  return config.embeddingModel
+    ? createOpenAiEmbedder(config.embeddingUrl, config.embeddingModel, config.localModelApiKey)
+    : createHashingEmbedder();
+}
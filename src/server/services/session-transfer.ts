@@ -0,0 +1,235 @@
+/**
+ * session-transfer.ts — Chat session export, import and share links
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Three ways to get a conversation out of /api/sessions/:id:
+ *
+ *   - Markdown: the active branch as a readable transcript.
+ *   - JSON ("majel.session", versioned): the whole message tree with tool
+ *     calls and proposal ids. parseSessionImport() validates it so it can be
+ *     loaded into a new session.
+ *   - Share links: a signed token naming a session and the message the link
+ *     was made at, with an expiry. Anyone holding it sees that branch
+ *     read-only — later turns in the session are not revealed. Tokens are
+ *     stateless; deleting the session is what revokes them.
+ */
+
+import { createHmac } from "node:crypto";
+import type { ChatMessage, ChatSession, ImportedMessage } from "../sessions.js";
+import { timingSafeCompare } from "./password.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export const SESSION_EXPORT_FORMAT = "majel.session";
+export const SESSION_EXPORT_VERSION = 1;
+
+export interface SessionExport {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: typeof SESSION_EXPORT_VERSION;
+  exportedAt: string;
+  session: { title: string; createdAt: string; updatedAt: string };
+  /** The message the session was showing — its branch is restored on import. */
+  activeMessageId: number | null;
+  /** Every message of every branch, ids ascending, so parents come first. */
+  messages: ImportedMessage[];
+}
+
+export interface ShareClaims {
+  sessionId: string;
+  /** Last message visible through the link */
+  messageId: number;
+  expiresAt: Date;
+}
+
+// ─── Limits ─────────────────────────────────────────────────
+
+export const MAX_IMPORT_MESSAGES = 2000;
+const MAX_IMPORT_TEXT = 100_000;
+const MAX_IMPORT_TITLE = 200;
+const MAX_IMPORT_IDS = 50;
+
+export const DEFAULT_SHARE_HOURS = 72;
+export const MAX_SHARE_HOURS = 24 * 30;
+
+const ROLES: ReadonlySet<string> = new Set(["user", "model", "system", "error"]);
+
+// ─── Errors ─────────────────────────────────────────────────
+
+/** Thrown by parseSessionImport with the first problem found. */
+export class SessionImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionImportError";
+  }
+}
+
+// ─── Export ─────────────────────────────────────────────────
+
+export function buildSessionExport(
+  session: ChatSession,
+  messages: ChatMessage[],
+  activeMessageId: number | null,
+  now: Date = new Date(),
+): SessionExport {
+  return {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    session: { title: session.title, createdAt: session.createdAt, updatedAt: session.updatedAt },
+    activeMessageId,
+    messages: [...messages]
+      .sort((a, b) => a.id - b.id)
+      .map((m) => ({
+        id: m.id,
+        parentId: m.parentId,
+        role: m.role,
+        text: m.text,
+        createdAt: m.createdAt,
+        ...(m.proposalIds?.length ? { proposalIds: m.proposalIds } : {}),
+        ...(m.toolCalls?.length ? { toolCalls: m.toolCalls } : {}),
+      })),
+  };
+}
+
+const SPEAKERS: Record<ChatMessage["role"], string> = {
+  user: "You",
+  model: "Aria",
+  system: "System",
+  error: "Error",
+};
+
+/** A branch of a session as a Markdown transcript. */
+export function renderSessionMarkdown(title: string, branch: ChatMessage[], now: Date = new Date()): string {
+  const lines = [`# ${title.replace(/\s+/g, " ").trim()}`, "", `_Exported from Majel on ${now.toISOString()}_`];
+  for (const m of branch) {
+    lines.push("", `## ${SPEAKERS[m.role]} · ${m.createdAt}`, "", m.text.trim());
+    if (m.toolCalls?.length) lines.push("", `> Tools: ${m.toolCalls.map((t) => `\`${t}\``).join(", ")}`);
+    if (m.proposalIds?.length) lines.push("", `> Proposals: ${m.proposalIds.map((p) => `\`${p}\``).join(", ")}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+// ─── Import ─────────────────────────────────────────────────
+
+function isTimestamp(value: unknown): value is string {
+  return typeof value === "string" && value.length <= 40 && !Number.isNaN(Date.parse(value));
+}
+
+function parseIdList(value: unknown, field: string, index: number): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.length > MAX_IMPORT_IDS
+    || !value.every((v) => typeof v === "string" && v.length > 0 && v.length <= 200)) {
+    throw new SessionImportError(`messages[${index}].${field} must be an array of up to ${MAX_IMPORT_IDS} strings`);
+  }
+  return value.length ? value as string[] : undefined;
+}
+
+/** Validate an uploaded "majel.session" document. Throws SessionImportError. */
+export function parseSessionImport(input: unknown): SessionExport {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new SessionImportError("Import must be a JSON object");
+  }
+  const doc = input as Record<string, unknown>;
+  if (doc.format !== SESSION_EXPORT_FORMAT) {
+    throw new SessionImportError(`format must be "${SESSION_EXPORT_FORMAT}"`);
+  }
+  if (doc.version !== SESSION_EXPORT_VERSION) {
+    throw new SessionImportError(`Unsupported version ${JSON.stringify(doc.version)} — this server reads version ${SESSION_EXPORT_VERSION}`);
+  }
+
+  const session = doc.session as Record<string, unknown> | undefined;
+  if (!session || typeof session !== "object") throw new SessionImportError("Missing session");
+  if (typeof session.title !== "string" || session.title.trim().length === 0) {
+    throw new SessionImportError("session.title must be a non-empty string");
+  }
+  if (!isTimestamp(session.createdAt) || !isTimestamp(session.updatedAt)) {
+    throw new SessionImportError("session.createdAt and session.updatedAt must be timestamps");
+  }
+
+  if (!Array.isArray(doc.messages)) throw new SessionImportError("messages must be an array");
+  if (doc.messages.length > MAX_IMPORT_MESSAGES) {
+    throw new SessionImportError(`At most ${MAX_IMPORT_MESSAGES} messages can be imported`);
+  }
+
+  const seen = new Set<number>();
+  const messages = doc.messages.map((raw: unknown, i): ImportedMessage => {
+    const m = (raw ?? {}) as Record<string, unknown>;
+    if (typeof m.id !== "number" || !Number.isSafeInteger(m.id) || seen.has(m.id)) {
+      throw new SessionImportError(`messages[${i}].id must be a unique integer`);
+    }
+    if (m.parentId !== null && (typeof m.parentId !== "number" || !seen.has(m.parentId))) {
+      throw new SessionImportError(`messages[${i}].parentId must be null or the id of an earlier message`);
+    }
+    if (typeof m.role !== "string" || !ROLES.has(m.role)) {
+      throw new SessionImportError(`messages[${i}].role must be one of ${[...ROLES].join(", ")}`);
+    }
+    if (typeof m.text !== "string" || m.text.length > MAX_IMPORT_TEXT) {
+      throw new SessionImportError(`messages[${i}].text must be a string of at most ${MAX_IMPORT_TEXT} characters`);
+    }
+    if (!isTimestamp(m.createdAt)) throw new SessionImportError(`messages[${i}].createdAt must be a timestamp`);
+    seen.add(m.id);
+    const proposalIds = parseIdList(m.proposalIds, "proposalIds", i);
+    const toolCalls = parseIdList(m.toolCalls, "toolCalls", i);
+    return {
+      id: m.id,
+      parentId: m.parentId as number | null,
+      role: m.role as ChatMessage["role"],
+      text: m.text,
+      createdAt: new Date(m.createdAt).toISOString(),
+      ...(proposalIds ? { proposalIds } : {}),
+      ...(toolCalls ? { toolCalls } : {}),
+    };
+  });
+
+  const active = doc.activeMessageId ?? null;
+  if (active !== null && (typeof active !== "number" || !seen.has(active))) {
+    throw new SessionImportError("activeMessageId must be null or the id of an imported message");
+  }
+
+  return {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: isTimestamp(doc.exportedAt) ? doc.exportedAt : new Date().toISOString(),
+    session: {
+      title: session.title.trim().slice(0, MAX_IMPORT_TITLE),
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+    },
+    activeMessageId: active,
+    messages,
+  };
+}
+
+// ─── Share Links ────────────────────────────────────────────
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(`majel-share:v1:${payload}`).digest("base64url");
+}
+
+/** Token granting read-only access to a session up to `messageId` until `expiresAt`. */
+export function createShareToken(claims: ShareClaims, secret: string): string {
+  const payload = Buffer.from(JSON.stringify({
+    s: claims.sessionId,
+    m: claims.messageId,
+    e: Math.floor(claims.expiresAt.getTime() / 1000),
+  })).toString("base64url");
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/** The claims of a valid, unexpired token — null for anything else. */
+export function verifyShareToken(token: string, secret: string, now: Date = new Date()): ShareClaims | null {
+  if (!secret || token.length > 1000) return null;
+  const [payload, signature, extra] = token.split(".");
+  if (!payload || !signature || extra !== undefined) return null;
+  if (!timingSafeCompare(signature, sign(payload, secret))) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as { s?: unknown; m?: unknown; e?: unknown };
+    if (typeof claims.s !== "string" || !Number.isSafeInteger(claims.m) || !Number.isSafeInteger(claims.e)) return null;
+    const expiresAt = new Date((claims.e as number) * 1000);
+    if (expiresAt.getTime() <= now.getTime()) return null;
+    return { sessionId: claims.s, messageId: claims.m as number, expiresAt };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,325 @@
+/**
+ * target-budget.ts — Resource budgeting across active targets (#18 Phase 2)
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Sums the material requirements of every active ship tier target, sets
+ * them against inventory and measured income, and works out which targets
+ * starve which.
+ *
+ * Allocation is sequential: targets draw from the shared stockpile in
+ * order, and a target's ETA is the slowest of its resources —
+ * (cumulative need through this target − available) / daily income.
+ * A target is starved on a resource when its own need fits the stockpile
+ * but the targets ahead of it have already claimed it.
+ *
+ * The same simulation scores alternative orderings (cheapest first,
+ * closest to ready first) so the Admiral can see whether reshuffling
+ * priorities gets more targets funded sooner.
+ *
+ * Only ship targets with a target tier carry cost data today; officer and
+ * crew targets are listed as skipped.
+ */
+
+import type { Target } from "../stores/target-store.js";
+import type { ReferenceStore } from "../stores/reference-store.js";
+import type { OverlayStore } from "../stores/overlay-store.js";
+import type { InventoryStore } from "../stores/inventory-store.js";
+import {
+  extractTierRequirements,
+  normalizeToken,
+  type UpgradeRequirement,
+} from "./fleet-tools/read-tools-upgrade-helpers.js";
+import {
+  forecastIncome,
+  indexForecastsByName,
+  DEFAULT_FORECAST_WINDOW_DAYS,
+} from "./inventory-forecast.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export type BudgetStrategy = "priority" | "cheapest-first" | "closest-first";
+
+export interface BudgetTargetInput {
+  target: Target;
+  label: string;
+  requirements: UpgradeRequirement[];
+}
+
+export interface ResourceSupply {
+  available: number;
+  /** Measured daily income, or null without usable history. */
+  dailyIncome: number | null;
+}
+
+export interface ResourceBudgetLine {
+  key: string;
+  name: string;
+  required: number;
+  available: number;
+  dailyIncome: number | null;
+  shortfall: number;
+  /** Days of income to cover the shortfall; null when it never closes. */
+  daysToCover: number | null;
+  targets: Array<{ targetId: number; amount: number }>;
+}
+
+export interface TargetStarvation {
+  resourceKey: string;
+  resourceName: string;
+  /** Earlier target whose claim on the resource leaves too little. */
+  starver: Target;
+  starverLabel: string;
+  starved: Target;
+  starvedLabel: string;
+  /** How much of the starved target's need the starver consumes. */
+  amount: number;
+  /** Days of income until the starved target's share is covered; null when it never is. */
+  daysToCover: number | null;
+}
+
+export interface BudgetOrdering {
+  strategy: BudgetStrategy;
+  order: number[];
+  /** Targets fully covered by current inventory in this order. */
+  fundedNow: number;
+  etas: Array<{ targetId: number; days: number | null }>;
+  /** Mean ETA over targets that ever get funded. */
+  meanEtaDays: number | null;
+}
+
+export interface TargetBudget {
+  resources: ResourceBudgetLine[];
+  targets: Array<{
+    targetId: number;
+    label: string;
+    priority: number;
+    /** Covered by inventory if it were the only target. */
+    fundedAlone: boolean;
+    /** Covered by inventory after higher-priority targets take their share. */
+    fundedInPriorityOrder: boolean;
+  }>;
+  starvation: TargetStarvation[];
+  orderings: BudgetOrdering[];
+  recommended: BudgetStrategy;
+  skipped: Array<{ targetId: number; reason: string }>;
+}
+
+export interface BudgetSources {
+  referenceStore: ReferenceStore;
+  overlayStore?: OverlayStore | null;
+  inventoryStore?: InventoryStore | null;
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function round(value: number, places = 1): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function daysFor(deficit: number, dailyIncome: number | null): number | null {
+  if (deficit <= 0) return 0;
+  if (!dailyIncome || dailyIncome <= 0) return null;
+  return Math.ceil((deficit / dailyIncome) * 10) / 10;
+}
+
+function byPriority(a: BudgetTargetInput, b: BudgetTargetInput): number {
+  return a.target.priority - b.target.priority || a.target.id - b.target.id;
+}
+
+/** Sequential allocation: each target's ETA given everything ahead of it. */
+function simulate(
+  ordered: BudgetTargetInput[],
+  supply: Map<string, ResourceSupply>,
+  strategy: BudgetStrategy,
+): BudgetOrdering {
+  const claimed = new Map<string, number>();
+  const etas = ordered.map((entry) => {
+    let eta: number | null = 0;
+    for (const req of entry.requirements) {
+      const cumulative = (claimed.get(req.key) ?? 0) + req.amount;
+      claimed.set(req.key, cumulative);
+      const resource = supply.get(req.key)!;
+      const days = daysFor(cumulative - resource.available, resource.dailyIncome);
+      eta = eta === null || days === null ? null : Math.max(eta, days);
+    }
+    return { targetId: entry.target.id, days: eta };
+  });
+  const reachable = etas.filter((entry) => entry.days !== null).map((entry) => entry.days!);
+  return {
+    strategy,
+    order: ordered.map((entry) => entry.target.id),
+    fundedNow: etas.filter((entry) => entry.days === 0).length,
+    etas,
+    meanEtaDays: reachable.length > 0 ? round(reachable.reduce((sum, d) => sum + d, 0) / reachable.length) : null,
+  };
+}
+
+// ─── Budget ─────────────────────────────────────────────────
+
+/**
+ * Budget materials across targets. `supply` must hold an entry for every
+ * requirement key.
+ */
+export function buildTargetBudget(
+  inputs: BudgetTargetInput[],
+  supply: Map<string, ResourceSupply>,
+  skipped: TargetBudget["skipped"] = [],
+): TargetBudget {
+  const prioritized = [...inputs].sort(byPriority);
+
+  // Per-resource totals
+  const lines = new Map<string, ResourceBudgetLine>();
+  for (const entry of prioritized) {
+    for (const req of entry.requirements) {
+      const resource = supply.get(req.key)!;
+      const line = lines.get(req.key) ?? {
+        key: req.key,
+        name: req.name,
+        required: 0,
+        available: resource.available,
+        dailyIncome: resource.dailyIncome,
+        shortfall: 0,
+        daysToCover: 0,
+        targets: [],
+      };
+      line.required += req.amount;
+      line.targets.push({ targetId: entry.target.id, amount: req.amount });
+      lines.set(req.key, line);
+    }
+  }
+  for (const line of lines.values()) {
+    line.shortfall = Math.max(0, line.required - line.available);
+    line.daysToCover = daysFor(line.shortfall, line.dailyIncome);
+  }
+
+  // Starvation under the current priority order
+  const starvation: TargetStarvation[] = [];
+  const claimedBefore = new Map<string, Array<{ entry: BudgetTargetInput; amount: number }>>();
+  const fundedInOrder = new Set<number>();
+  for (const entry of prioritized) {
+    let funded = true;
+    for (const req of entry.requirements) {
+      const resource = supply.get(req.key)!;
+      const earlier = claimedBefore.get(req.key) ?? [];
+      const claimed = earlier.reduce((sum, e) => sum + e.amount, 0);
+      const deficit = claimed + req.amount - resource.available;
+      if (deficit > 0) funded = false;
+      if (deficit > 0 && req.amount <= resource.available) {
+        const days = daysFor(deficit, resource.dailyIncome);
+        for (const prior of earlier) {
+          starvation.push({
+            resourceKey: req.key,
+            resourceName: req.name,
+            starver: prior.entry.target,
+            starverLabel: prior.entry.label,
+            starved: entry.target,
+            starvedLabel: entry.label,
+            amount: Math.min(prior.amount, deficit),
+            daysToCover: days,
+          });
+        }
+      }
+      claimedBefore.set(req.key, [...earlier, { entry, amount: req.amount }]);
+    }
+    if (funded) fundedInOrder.add(entry.target.id);
+  }
+
+  // Alternative orderings
+  const aloneEta = new Map(prioritized.map((entry) => [entry.target.id, simulate([entry], supply, "priority").etas[0].days]));
+  const demandShare = (entry: BudgetTargetInput) =>
+    entry.requirements.reduce((sum, req) => sum + req.amount / Math.max(1, lines.get(req.key)!.required), 0);
+  const orderings = [
+    simulate(prioritized, supply, "priority"),
+    simulate([...prioritized].sort((a, b) => demandShare(a) - demandShare(b) || byPriority(a, b)), supply, "cheapest-first"),
+    simulate([...prioritized].sort((a, b) => {
+      const da = aloneEta.get(a.target.id) ?? Infinity;
+      const db = aloneEta.get(b.target.id) ?? Infinity;
+      return da - db || byPriority(a, b);
+    }), supply, "closest-first"),
+  ];
+  // Keep the Admiral's order unless another one funds more now, or as many sooner
+  let recommended = orderings[0];
+  for (const candidate of orderings.slice(1)) {
+    const fundsMore = candidate.fundedNow > recommended.fundedNow;
+    const sooner = candidate.fundedNow === recommended.fundedNow
+      && candidate.meanEtaDays != null
+      && (recommended.meanEtaDays == null || candidate.meanEtaDays < recommended.meanEtaDays);
+    if (fundsMore || sooner) recommended = candidate;
+  }
+
+  return {
+    resources: [...lines.values()].sort((a, b) => b.shortfall - a.shortfall || a.name.localeCompare(b.name)),
+    targets: prioritized.map((entry) => ({
+      targetId: entry.target.id,
+      label: entry.label,
+      priority: entry.target.priority,
+      fundedAlone: aloneEta.get(entry.target.id) === 0,
+      fundedInPriorityOrder: fundedInOrder.has(entry.target.id),
+    })),
+    starvation,
+    orderings,
+    recommended: recommended.strategy,
+    skipped,
+  };
+}
+
+// ─── Loader ─────────────────────────────────────────────────
+
+/** Gather ship tier requirements, inventory and income for the given targets and budget them. */
+export async function loadTargetBudget(targets: Target[], sources: BudgetSources): Promise<TargetBudget> {
+  const inputs: BudgetTargetInput[] = [];
+  const skipped: TargetBudget["skipped"] = [];
+
+  for (const target of targets) {
+    if (target.status !== "active") continue;
+    if (target.targetType !== "ship" || !target.refId || target.targetTier == null) {
+      skipped.push({ targetId: target.id, reason: "No material cost data for this target type." });
+      continue;
+    }
+    const ship = await sources.referenceStore.getShip(target.refId);
+    if (!ship) {
+      skipped.push({ targetId: target.id, reason: `Ship not found: ${target.refId}` });
+      continue;
+    }
+    const overlay = sources.overlayStore ? await sources.overlayStore.getShipOverlay(target.refId) : null;
+    const currentTier = overlay?.tier ?? ship.tier ?? 0;
+    const requirements = extractTierRequirements(ship.tiers, currentTier, target.targetTier)
+      .map((req) => ({ ...req, amount: Math.round(req.amount) }));
+    if (requirements.length === 0) {
+      skipped.push({
+        targetId: target.id,
+        reason: target.targetTier <= currentTier ? "Target tier already reached." : "Ship has no tier cost data.",
+      });
+      continue;
+    }
+    inputs.push({ target, label: `${ship.name} → T${target.targetTier}`, requirements });
+  }
+
+  const inventory = new Map<string, number>();
+  let forecasts = new Map<string, { dailyIncome: number; confidence: string }>();
+  if (sources.inventoryStore) {
+    for (const item of await sources.inventoryStore.listItems()) {
+      const key = normalizeToken(item.name);
+      inventory.set(key, (inventory.get(key) ?? 0) + item.quantity);
+    }
+    const since = new Date(Date.now() - DEFAULT_FORECAST_WINDOW_DAYS * 86_400_000).toISOString();
+    forecasts = indexForecastsByName(forecastIncome(await sources.inventoryStore.listHistory({ since })));
+  }
+
+  // Same name-then-ID matching as calculate_upgrade_path
+  const supply = new Map<string, ResourceSupply>();
+  for (const req of inputs.flatMap((entry) => entry.requirements)) {
+    if (supply.has(req.key)) continue;
+    const lookup = <T>(map: Map<string, T>) =>
+      map.get(normalizeToken(req.name)) ?? (req.resourceId ? map.get(normalizeToken(req.resourceId)) : undefined);
+    const forecast = lookup(forecasts);
+    supply.set(req.key, {
+      available: Math.max(0, Math.round(lookup(inventory) ?? 0)),
+      dailyIncome: forecast && forecast.confidence !== "low" ? forecast.dailyIncome : null,
+    });
+  }
+
+  return buildTargetBudget(inputs, supply, skipped);
+}
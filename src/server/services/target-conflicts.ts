@@ -8,14 +8,15 @@
  *    by active loadouts AND a crew target
  * 2. Dock contention — multiple crew targets assigned to plan items on the same dock
  * 3. Crew cascade — officer targets whose officer is already in multiple active loadouts
- *
- * Material contention is deferred until cost/material data is imported (game data).
+ * 4. Material contention — ship tier targets whose parts, ore or blueprints are
+ *    claimed by higher-priority targets first (from a TargetBudget, see target-budget.ts)
  *
  * Migrated from LoadoutStore (ADR-022) to CrewStore (ADR-025).
  */
 
 import type { Target, TargetStore } from "../stores/target-store.js";
 import type { CrewStore } from "../stores/crew-store.js";
+import type { TargetBudget } from "./target-budget.js";
 import type {
   LoadoutWithRefs,
   PlanItem,
@@ -24,7 +25,7 @@ import type {
 
 // ─── Types ──────────────────────────────────────────────────
 
-export type ConflictType = "officer" | "slot" | "cascade";
+export type ConflictType = "officer" | "slot" | "cascade" | "material";
 export type Severity = "blocking" | "competing" | "informational";
 
 export interface TargetRef {
@@ -52,11 +53,13 @@ export interface ResourceConflict {
  * Detect resource conflicts across all active targets.
  *
  * Pure analysis — reads fleet state, computes conflicts, returns them.
- * Does not mutate any state.
+ * Does not mutate any state. Material conflicts are included when a
+ * budget (loadTargetBudget) is passed in.
  */
 export async function detectTargetConflicts(
   targetStore: TargetStore,
   crewStore: CrewStore,
+  budget?: TargetBudget | null,
 ): Promise<ResourceConflict[]> {
   const conflicts: ResourceConflict[] = [];
 
@@ -84,6 +87,12 @@ export async function detectTargetConflicts(
   const effectiveState = await crewStore.getEffectiveDockState();
   detectOfficerCascade(officerTargets, effectiveState.conflicts, crewTargets, loadoutMap, conflicts);
 
+  // 4. Material contention between ship tier targets
+  if (budget) {
+    const byId = new Map(targets.map((t) => [t.id, t]));
+    detectMaterialContention(budget, byId, conflicts);
+  }
+
   return conflicts;
 }
 
@@ -275,6 +284,40 @@ function detectOfficerCascade(
   }
 }
 
+// ─── 4. Material Contention ─────────────────────────────────
+
+/**
+ * Detect when a higher-priority target's materials leave a later target short
+ * of something inventory could have covered on its own.
+ */
+function detectMaterialContention(
+  budget: TargetBudget,
+  activeTargets: Map<number, Target>,
+  conflicts: ResourceConflict[],
+): void {
+  for (const s of budget.starvation) {
+    // Budget may have been computed from a different target snapshot
+    if (!activeTargets.has(s.starver.id) || !activeTargets.has(s.starved.id)) continue;
+
+    const waitText = s.daysToCover == null
+      ? "with no measured income to close the gap"
+      : `for about ${s.daysToCover} more days of income`;
+    conflicts.push({
+      conflictType: "material",
+      targetA: toRef(s.starver),
+      targetB: toRef(s.starved),
+      resource: `material:${s.resourceKey}`,
+      severity: s.daysToCover == null ? "blocking" : "competing",
+      description:
+        `"${s.starverLabel}" claims ${s.amount} ${s.resourceName} that "${s.starvedLabel}" needs — ` +
+        `inventory covers either alone but not both, so "${s.starvedLabel}" waits ${waitText}.`,
+      suggestion: budget.recommended !== "priority"
+        ? `Consider the ${budget.recommended} ordering — it funds more targets sooner than current priorities.`
+        : `Finish "${s.starverLabel}" first, or raise "${s.starvedLabel}" priority if it matters more.`,
+    });
+  }
+}
+
 // ─── Helpers ────────────────────────────────────────────────
 
 function toRef(t: Target): TargetRef {
@@ -0,0 +1,342 @@
+/**
+ * target-graph.ts — Target dependencies and milestone progress (#17)
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Turns flat targets plus their dependency edges into a graph: what is
+ * blocked on what, a work order that puts prerequisites first, and a
+ * percent-complete for every target.
+ *
+ * Progress compares the current value of each goal metric (tier, level,
+ * rank) with the target value. Current values come from the overlay, or
+ * from the latest recorded delta with an absolute value when the overlay
+ * has nothing. When the earliest delta for a metric reveals where the
+ * Admiral started, progress is measured from that baseline instead of zero.
+ * Targets without a goal metric fall back to ownership, then to an explicit
+ * "progress" delta (0–100).
+ *
+ * Only active prerequisites block: an achieved one is done, and an
+ * abandoned one will never finish, so waiting on it makes no sense.
+ * The store rejects cyclic edges; cycles are still reported here so
+ * legacy data can't hang the ordering.
+ */
+
+import type { Target, TargetDependency, TargetProgressDelta, TargetStore } from "../stores/target-store.js";
+import type { ReferenceStore } from "../stores/reference-store.js";
+import type { OverlayStore } from "../stores/overlay-store.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export type MilestoneMetricName = "tier" | "level" | "rank" | "owned" | "progress";
+
+export interface MilestoneMetric {
+  metric: MilestoneMetricName;
+  current: number | null;
+  goal: number;
+  /** Start value inferred from the earliest recorded delta, if any. */
+  baseline: number | null;
+  source: "overlay" | "delta" | null;
+}
+
+export interface TargetMilestone {
+  /** 0–100, or null when nothing is known about the current state. */
+  percent: number | null;
+  source: "achieved" | "overlay" | "deltas" | "mixed" | "none";
+  metrics: MilestoneMetric[];
+}
+
+/** Current state of the target's subject, read from the overlay. */
+export interface TargetCurrentState {
+  owned?: boolean | null;
+  tier?: number | null;
+  level?: number | null;
+  rank?: number | null;
+}
+
+export interface TargetGraphNode {
+  target: Target;
+  label: string;
+  progress: TargetMilestone;
+  /** Direct prerequisites. */
+  dependsOn: number[];
+  /** Targets that list this one as a prerequisite. */
+  dependents: number[];
+  /** Direct prerequisites that are still active. */
+  blockedBy: number[];
+  blocked: boolean;
+  /** Length of the longest prerequisite chain below this target. */
+  depth: number;
+}
+
+export interface TargetGraph {
+  /** Nodes in work order: prerequisites before dependents, then priority. */
+  nodes: TargetGraphNode[];
+  edges: TargetDependency[];
+  cycles: number[][];
+  /** Active targets with nothing left to wait on, in work order. */
+  ready: number[];
+}
+
+export interface TargetGraphSources {
+  referenceStore?: ReferenceStore | null;
+  overlayStore?: OverlayStore | null;
+}
+
+// ─── Progress ───────────────────────────────────────────────
+
+const DELTA_METRIC_PATTERNS: Array<[MilestoneMetricName, RegExp]> = [
+  ["tier", /tier/],
+  ["level", /level|lvl/],
+  ["rank", /rank/],
+  ["progress", /progress|percent|pct/],
+];
+
+function deltaMetricName(metric: string): MilestoneMetricName | null {
+  const normalized = metric.trim().toLowerCase();
+  for (const [name, pattern] of DELTA_METRIC_PATTERNS) {
+    if (pattern.test(normalized)) return name;
+  }
+  return null;
+}
+
+/** Leading integer of a rank label ("4", "Rank 4"), or null. */
+export function parseRank(rank: string | null | undefined): number | null {
+  const match = rank?.match(/\d+/);
+  return match ? Number(match[0]) : null;
+}
+
+/** Latest and earliest absolute readings per metric from newest-first deltas. */
+function readDeltas(deltas: TargetProgressDelta[]): Map<MilestoneMetricName, { latest: number; baseline: number }> {
+  const readings = new Map<MilestoneMetricName, { latest: number; baseline: number }>();
+  for (const delta of deltas) {
+    if (delta.absoluteValue == null) continue;
+    const name = deltaMetricName(delta.metric);
+    if (!name) continue;
+    const start = delta.absoluteValue - delta.delta;
+    const existing = readings.get(name);
+    readings.set(name, existing
+      ? { latest: existing.latest, baseline: start }
+      : { latest: delta.absoluteValue, baseline: start });
+  }
+  return readings;
+}
+
+function metricRatio(metric: MilestoneMetric): number | null {
+  if (metric.current == null) return null;
+  if (metric.current >= metric.goal) return 1;
+  if (metric.baseline != null && metric.baseline < metric.goal) {
+    return Math.max(0, (metric.current - metric.baseline) / (metric.goal - metric.baseline));
+  }
+  return metric.goal > 0 ? Math.max(0, metric.current / metric.goal) : null;
+}
+
+/**
+ * Percent-complete for one target.
+ * `deltas` must be newest first, as TargetStore.listDeltas returns them.
+ */
+export function computeTargetProgress(
+  target: Target,
+  current: TargetCurrentState | null,
+  deltas: TargetProgressDelta[],
+): TargetMilestone {
+  if (target.status === "achieved") {
+    return { percent: 100, source: "achieved", metrics: [] };
+  }
+
+  const readings = readDeltas(deltas);
+  const goals: Array<[MilestoneMetricName, number | null, number | null | undefined]> = [
+    ["tier", target.targetTier, current?.tier],
+    ["level", target.targetLevel, current?.level],
+    ["rank", parseRank(target.targetRank), current?.rank],
+  ];
+
+  const metrics: MilestoneMetric[] = [];
+  for (const [name, goal, overlayValue] of goals) {
+    if (goal == null) continue;
+    const reading = readings.get(name);
+    const fromOverlay = overlayValue != null;
+    metrics.push({
+      metric: name,
+      current: fromOverlay ? overlayValue : reading?.latest ?? null,
+      goal,
+      baseline: reading?.baseline ?? null,
+      source: fromOverlay ? "overlay" : reading ? "delta" : null,
+    });
+  }
+  if (metrics.length === 0 && current?.owned != null) {
+    metrics.push({ metric: "owned", current: current.owned ? 1 : 0, goal: 1, baseline: null, source: "overlay" });
+  }
+  const progressReading = readings.get("progress");
+  if (metrics.every((metric) => metric.current == null) && progressReading) {
+    metrics.push({ metric: "progress", current: progressReading.latest, goal: 100, baseline: null, source: "delta" });
+  }
+
+  const ratios = metrics.map(metricRatio).filter((ratio): ratio is number => ratio != null);
+  if (ratios.length === 0) {
+    return { percent: null, source: "none", metrics };
+  }
+  const sources = new Set(metrics.map((metric) => metric.source).filter(Boolean));
+  return {
+    percent: Math.round((ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length) * 100),
+    source: sources.size > 1 ? "mixed" : sources.has("overlay") ? "overlay" : "deltas",
+    metrics,
+  };
+}
+
+// ─── Graph ──────────────────────────────────────────────────
+
+function byPriority(a: Target, b: Target): number {
+  return a.priority - b.priority || a.id - b.id;
+}
+
+/** Every dependency cycle among the given targets, each as a list of target IDs. */
+export function findDependencyCycles(targetIds: number[], edges: TargetDependency[]): number[][] {
+  const prerequisites = new Map<number, number[]>(targetIds.map((id) => [id, []]));
+  for (const edge of edges) {
+    prerequisites.get(edge.targetId)?.push(edge.dependsOnId);
+  }
+
+  const cycles: number[][] = [];
+  const state = new Map<number, "visiting" | "done">();
+  const stack: number[] = [];
+  const visit = (id: number) => {
+    state.set(id, "visiting");
+    stack.push(id);
+    for (const next of prerequisites.get(id) ?? []) {
+      if (!prerequisites.has(next)) continue;
+      if (state.get(next) === "visiting") {
+        cycles.push(stack.slice(stack.indexOf(next)));
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    }
+    stack.pop();
+    state.set(id, "done");
+  };
+  for (const id of targetIds) {
+    if (!state.has(id)) visit(id);
+  }
+  return cycles;
+}
+
+/**
+ * Build the dependency graph. Edges that point outside `targets` are
+ * dropped; targets without an entry in `progress` get an unknown milestone.
+ */
+export function buildTargetGraph(
+  targets: Target[],
+  edges: TargetDependency[],
+  progress: Map<number, TargetMilestone> = new Map(),
+  labels: Map<number, string> = new Map(),
+): TargetGraph {
+  const byId = new Map(targets.map((target) => [target.id, target]));
+  const known = edges.filter((edge) => byId.has(edge.targetId) && byId.has(edge.dependsOnId));
+  const dependsOn = new Map<number, number[]>(targets.map((target) => [target.id, []]));
+  const dependents = new Map<number, number[]>(targets.map((target) => [target.id, []]));
+  for (const edge of known) {
+    dependsOn.get(edge.targetId)!.push(edge.dependsOnId);
+    dependents.get(edge.dependsOnId)!.push(edge.targetId);
+  }
+
+  // Kahn's algorithm, always taking the highest-priority available target
+  const remaining = new Map(targets.map((target) => [target.id, dependsOn.get(target.id)!.length]));
+  const available = targets.filter((target) => remaining.get(target.id) === 0);
+  const order: Target[] = [];
+  while (available.length > 0) {
+    available.sort(byPriority);
+    const next = available.shift()!;
+    order.push(next);
+    remaining.delete(next.id);
+    for (const dependent of dependents.get(next.id)!) {
+      const count = remaining.get(dependent)! - 1;
+      remaining.set(dependent, count);
+      if (count === 0) available.push(byId.get(dependent)!);
+    }
+  }
+  // Anything left sits on a cycle (or behind one)
+  const cyclic = [...remaining.keys()].map((id) => byId.get(id)!).sort(byPriority);
+  order.push(...cyclic);
+  const cycles = cyclic.length > 0 ? findDependencyCycles(cyclic.map((target) => target.id), known) : [];
+
+  const depth = new Map<number, number>();
+  for (const target of order) {
+    const prior = dependsOn.get(target.id)!.map((id) => depth.get(id) ?? 0);
+    depth.set(target.id, prior.length > 0 ? Math.max(...prior) + 1 : 0);
+  }
+
+  const nodes = order.map((target): TargetGraphNode => {
+    const blockedBy = dependsOn.get(target.id)!.filter((id) => byId.get(id)!.status === "active");
+    return {
+      target,
+      label: labels.get(target.id) ?? defaultLabel(target),
+      progress: progress.get(target.id) ?? { percent: null, source: "none", metrics: [] },
+      dependsOn: dependsOn.get(target.id)!,
+      dependents: dependents.get(target.id)!,
+      blockedBy,
+      blocked: blockedBy.length > 0,
+      depth: depth.get(target.id)!,
+    };
+  });
+
+  return {
+    nodes,
+    edges: known,
+    cycles,
+    ready: nodes.filter((node) => node.target.status === "active" && !node.blocked).map((node) => node.target.id),
+  };
+}
+
+function goalSuffix(target: Target): string {
+  const parts: string[] = [];
+  if (target.targetTier != null) parts.push(`T${target.targetTier}`);
+  if (target.targetLevel != null) parts.push(`L${target.targetLevel}`);
+  if (target.targetRank) parts.push(`R${target.targetRank}`);
+  return parts.length > 0 ? ` → ${parts.join(" ")}` : "";
+}
+
+function defaultLabel(target: Target): string {
+  const subject = target.refId ?? (target.loadoutId != null ? `loadout #${target.loadoutId}` : `target #${target.id}`);
+  return `${subject}${goalSuffix(target)}`;
+}
+
+// ─── Loader ─────────────────────────────────────────────────
+
+const DELTAS_PER_TARGET = 50;
+
+/** Load targets, dependencies, overlay state and deltas, and build the graph. */
+export async function loadTargetGraph(targetStore: TargetStore, sources: TargetGraphSources = {}): Promise<TargetGraph> {
+  const [targets, edges] = await Promise.all([targetStore.list(), targetStore.listDependencies()]);
+  const progress = new Map<number, TargetMilestone>();
+  const labels = new Map<number, string>();
+
+  await Promise.all(targets.map(async (target) => {
+    const deltas = target.status === "achieved" ? [] : await targetStore.listDeltas(target.id, DELTAS_PER_TARGET);
+    let current: TargetCurrentState | null = null;
+    let name: string | null = null;
+
+    if (target.refId && target.targetType === "ship") {
+      const [ship, overlay] = await Promise.all([
+        sources.referenceStore?.getShip(target.refId) ?? null,
+        sources.overlayStore?.getShipOverlay(target.refId) ?? null,
+      ]);
+      name = ship?.name ?? null;
+      if (overlay) {
+        current = { owned: overlay.ownershipState === "owned", tier: overlay.tier, level: overlay.level };
+      }
+    } else if (target.refId && target.targetType === "officer") {
+      const [officer, overlay] = await Promise.all([
+        sources.referenceStore?.getOfficer(target.refId) ?? null,
+        sources.overlayStore?.getOfficerOverlay(target.refId) ?? null,
+      ]);
+      name = officer?.name ?? null;
+      if (overlay) {
+        current = { owned: overlay.ownershipState === "owned", level: overlay.level, rank: parseRank(overlay.rank) };
+      }
+    }
+
+    progress.set(target.id, computeTargetProgress(target, current, deltas));
+    if (name) labels.set(target.id, `${name}${goalSuffix(target)}`);
+  }));
+
+  return buildTargetGraph(targets, edges, progress, labels);
+}
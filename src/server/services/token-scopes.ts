@@ -0,0 +1,45 @@
+/**
+ * token-scopes.ts — Which API token scope a request needs
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Personal access tokens act with their owner's role but can only reach
+ * the routes their scopes cover. Anything not listed here — account and
+ * token management, admin, imports, mutations beyond overlays — is closed
+ * to tokens no matter the scope, so a leaked token cannot be used to mint
+ * another one or to change a password.
+ */
+
+import type { ApiTokenScope } from "../stores/api-token-store.js";
+
+interface ScopeRule {
+  scope: ApiTokenScope;
+  methods: readonly string[];
+  path: RegExp;
+}
+
+const READ = ["GET", "HEAD"] as const;
+
+const SCOPE_RULES: readonly ScopeRule[] = [
+  // Overlay edits sit under /api/catalog — match them before the read rule
+  { scope: "overlay:write", methods: ["PATCH", "POST", "DELETE"], path: /^\/api\/catalog\/(officers|ships)\/(bulk-overlay|[^/]+\/overlay)$/ },
+  { scope: "catalog:read", methods: READ, path: /^\/api\/catalog(\/|$)/ },
+  {
+    scope: "plan:read",
+    methods: READ,
+    path: /^\/api\/(crew|effective-state|officer-reservations|targets|fleet-presets|bridge-cores|below-deck-policies|inventory|alliance)(\/|$)/,
+  },
+  { scope: "chat:run", methods: ["GET", "POST"], path: /^\/api\/chat(\/|$)/ },
+  // The JSON-RPC endpoint only — not /api/mcp/token, so an MCP token cannot mint another
+  { scope: "mcp", methods: ["POST"], path: /^\/api\/mcp$/ },
+];
+
+/**
+ * The scope a token needs for `method` + `path` (full path, no query),
+ * or null when tokens may not call the route at all.
+ */
+export function requiredTokenScope(method: string, path: string): ApiTokenScope | null {
+  const normalized = path.length > 1 ? path.replace(/\/+$/, "") : path;
+  const rule = SCOPE_RULES.find((r) => r.methods.includes(method.toUpperCase()) && r.path.test(normalized));
+  return rule?.scope ?? null;
+}
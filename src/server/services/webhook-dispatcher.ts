@@ -0,0 +1,250 @@
+/**
+ * webhook-dispatcher.ts — Signed delivery of fleet events to user webhooks
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Subscribes to the fleet event bus, queues one delivery per enabled
+ * webhook subscribed to the event and sends it straight away. Failed
+ * attempts are retried with backoff by a periodic sweep until they
+ * succeed or run out of attempts; every attempt lands in the delivery log.
+ *
+ * Each request is a JSON POST signed like:
+ *
+ *   X-Majel-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *
+ * keyed with the webhook's secret, so receivers can check both origin and
+ * freshness (verifyWebhookSignature does exactly that). Requests go through
+ * outbound-post.ts, which only connects to public addresses; the log keeps
+ * the response status, never the body.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { isIP } from "node:net";
+import { log } from "../logger.js";
+import type { ClaimedDelivery, Webhook, WebhookDelivery, WebhookPayload, WebhookStoreFactory } from "../stores/webhook-store.js";
+import { subscribeFleetEvents, type FleetEvent } from "./fleet-events.js";
+import { createOutboundPost, isPublicAddress, type OutboundPost } from "./outbound-post.js";
+
+// ─── Constants ────────────────────────────────────────────────
+
+/** Wait before retry n (1-based); the attempt after the last entry is the final one. */
+export const RETRY_DELAYS_MS = [30_000, 2 * 60_000, 10 * 60_000, 60 * 60_000, 6 * 60 * 60_000] as const;
+export const MAX_DELIVERY_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const SWEEP_INTERVAL_MS = 30_000;
+const CLAIM_BATCH = 20;
+/** Receivers should reject signatures older than this. */
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export const SIGNATURE_HEADER = "X-Majel-Signature";
+
+// ─── Signing ──────────────────────────────────────────────────
+
+/** Hex HMAC-SHA256 of "<timestamp>.<body>". */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/** The X-Majel-Signature header value for a body. */
+export function signatureHeader(secret: string, body: string, now = Date.now()): string {
+  const timestamp = Math.floor(now / 1000);
+  return `t=${timestamp},v1=${signWebhookPayload(secret, timestamp, body)}`;
+}
+
+/** Check an X-Majel-Signature header against the raw body. */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string | undefined,
+  body: string,
+  now = Date.now(),
+): boolean {
+  if (!header) return false;
+  const parts = new Map(header.split(",").map((part) => {
+    const eq = part.indexOf("=");
+    return [part.slice(0, eq).trim(), part.slice(eq + 1).trim()] as const;
+  }));
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1");
+  if (!Number.isInteger(timestamp) || !signature) return false;
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// ─── URL Policy ───────────────────────────────────────────────
+
+const PRIVATE_HOSTNAME_RE = /^(localhost|.*\.localhost|.*\.local|.*\.internal)$/i;
+
+/**
+ * Validate a webhook URL. Returns an error message or null.
+ * Outside development only public https endpoints are allowed. This only
+ * catches the obvious cases when the URL is saved; names are resolved and
+ * checked again on every send (outbound-post.ts).
+ */
+export function validateWebhookUrl(value: unknown, allowPrivate: boolean): string | null {
+  if (typeof value !== "string" || value.length > 2000) return "url must be a string of at most 2000 characters";
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "url must be an absolute URL";
+  }
+  if (url.username || url.password) return "url must not contain credentials";
+  if (allowPrivate) {
+    if (url.protocol !== "https:" && url.protocol !== "http:") return "url must use http or https";
+    return null;
+  }
+  if (url.protocol !== "https:") return "url must use https";
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) ? !isPublicAddress(host) : PRIVATE_HOSTNAME_RE.test(host)) return "url must point to a public host";
+  return null;
+}
+
+// ─── Dispatcher ───────────────────────────────────────────────
+
+export interface WebhookDispatcher {
+  /** Subscribe to fleet events and start the retry sweep. */
+  start(): void;
+  /** Queue the event for every subscribed webhook and send. Returns deliveries queued. */
+  dispatch(event: FleetEvent): Promise<number>;
+  /**
+   * Queue a delivery to one webhook regardless of its subscriptions and send
+   * just that one (test pings, redelivery). Other due deliveries are left to the sweep.
+   */
+  deliver(webhook: Pick<Webhook, "id" | "userId">, payload: WebhookPayload): Promise<WebhookDelivery>;
+  /** Send every due delivery. Returns attempts made. */
+  processDue(): Promise<number>;
+  close(): void;
+}
+
+export interface WebhookDispatcherOptions {
+  /** Send loopback and private-network deliveries (development only). */
+  allowPrivate?: boolean;
+  post?: OutboundPost;
+  sweepIntervalMs?: number;
+}
+
+export function createWebhookDispatcher(webhooks: WebhookStoreFactory, options: WebhookDispatcherOptions = {}): WebhookDispatcher {
+  const post = options.post ?? createOutboundPost({ allowPrivate: options.allowPrivate ?? false, timeoutMs: REQUEST_TIMEOUT_MS });
+  const sweepIntervalMs = options.sweepIntervalMs ?? SWEEP_INTERVAL_MS;
+  let unsubscribe: (() => void) | null = null;
+  let sweepTimer: ReturnType<typeof setInterval> | null = null;
+  let draining: Promise<number> | null = null;
+  let rerun = false;
+
+  async function attempt(delivery: ClaimedDelivery): Promise<void> {
+    const body = JSON.stringify({ id: delivery.id, ...delivery.payload });
+    const attemptNumber = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await post(delivery.url, {
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Majel-Webhooks/1",
+          "X-Majel-Event": delivery.event,
+          "X-Majel-Delivery": String(delivery.id),
+          [SIGNATURE_HEADER]: signatureHeader(delivery.secret, body),
+        },
+        body,
+      });
+      responseStatus = response.status;
+      if (response.status < 200 || response.status >= 300) error = `HTTP ${response.status}`;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const ok = error === null;
+    const retryDelay = RETRY_DELAYS_MS[attemptNumber - 1];
+    const nextAttemptAt = !ok && retryDelay !== undefined ? new Date(Date.now() + retryDelay) : null;
+    await webhooks.queue.recordAttempt(delivery.id, { ok, nextAttemptAt, responseStatus, error });
+
+    if (!ok) {
+      log.fleet.warn(
+        { deliveryId: delivery.id, webhookId: delivery.webhookId, attempt: attemptNumber, error, willRetry: nextAttemptAt !== null },
+        "webhook:delivery-failed",
+      );
+    }
+  }
+
+  async function drain(): Promise<number> {
+    let attempts = 0;
+    do {
+      rerun = false;
+      for (;;) {
+        const batch = await webhooks.queue.claimDue(CLAIM_BATCH);
+        if (batch.length === 0) break;
+        await Promise.all(batch.map(attempt));
+        attempts += batch.length;
+      }
+    } while (rerun);
+    return attempts;
+  }
+
+  /** One drain at a time per instance; a call during a drain makes it go round again. */
+  function processDue(): Promise<number> {
+    if (draining) {
+      rerun = true;
+      return draining;
+    }
+    draining = drain().finally(() => {
+      draining = null;
+    });
+    return draining;
+  }
+
+  async function dispatch(event: FleetEvent): Promise<number> {
+    const store = webhooks.forUser(event.userId);
+    const subscribers = await store.listSubscribers(event.type);
+    if (subscribers.length === 0) return 0;
+    const payload: WebhookPayload = { event: event.type, occurredAt: event.occurredAt, data: event.data };
+    for (const webhook of subscribers) {
+      await store.enqueueDelivery(webhook.id, payload);
+    }
+    await processDue();
+    return subscribers.length;
+  }
+
+  return {
+    start() {
+      if (unsubscribe) return;
+      unsubscribe = subscribeFleetEvents((event) => {
+        dispatch(event).catch((err) => {
+          log.fleet.error({ err: err instanceof Error ? err.message : String(err), event: event.type }, "webhook:dispatch-failed");
+        });
+      });
+      sweepTimer = setInterval(() => {
+        processDue().catch((err) => {
+          log.fleet.warn({ err: err instanceof Error ? err.message : String(err) }, "webhook:sweep-failed");
+        });
+      }, sweepIntervalMs);
+      sweepTimer.unref();
+    },
+
+    dispatch,
+
+    async deliver(webhook, payload) {
+      const store = webhooks.forUser(webhook.userId);
+      const delivery = await store.enqueueDelivery(webhook.id, payload);
+      // A sweep may have claimed it first; it is then sent from there
+      const claimed = await webhooks.queue.claimDelivery(delivery.id);
+      if (claimed) await attempt(claimed);
+      return (await store.getDelivery(delivery.id)) ?? delivery;
+    },
+
+    processDue,
+
+    close() {
+      unsubscribe?.();
+      unsubscribe = null;
+      if (sweepTimer) {
+        clearInterval(sweepTimer);
+        sweepTimer = null;
+      }
+    },
+  };
+}
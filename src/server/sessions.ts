@@ -7,9 +7,13 @@
  * message log so users can browse and restore past conversations.
  *
  * Migrated to PostgreSQL in ADR-018 Phase 3.
+ *
+ * Messages form a tree: editing a user message or regenerating a reply adds
+ * a sibling instead of overwriting, so the original thread is kept. Each
+ * session remembers its active leaf; get() returns the branch ending there.
  */
 
-import { initSchema, type Pool } from "./db.js";
+import { initSchema, withTransaction, type Pool } from "./db.js";
 import { log } from "./logger.js";
 
 // ─── Types ──────────────────────────────────────────────────
@@ -21,8 +25,17 @@ export interface ChatMessage {
   createdAt: string;
   /** Proposal IDs attached to this message (model messages with approve-tier mutations). */
   proposalIds?: string[];
+  /** Fleet tools the model called while producing this message. */
+  toolCalls?: string[];
+  /** The message this one follows; null for the first message of a thread. */
+  parentId: number | null;
+  /** This message and its alternatives (edits, regenerations), oldest first. Only set where the thread forks. */
+  branchIds?: number[];
 }
 
+/** A message of an imported tree, addressed by its id in the source session. */
+export type ImportedMessage = Omit<ChatMessage, "branchIds">;
+
 export interface ChatSession {
   id: string;
   title: string;
@@ -47,7 +60,20 @@ export interface SessionStore {
   list(limit?: number, userId?: string): Promise<SessionSummary[]>;
   get(id: string): Promise<(ChatSession & { messages: ChatMessage[] }) | null>;
   updateTitle(id: string, title: string): Promise<boolean>;
-  addMessage(sessionId: string, role: ChatMessage["role"], text: string, userId?: string, proposalIds?: string[]): Promise<ChatMessage>;
+  /** Append a message. Without `parentId` it follows the active leaf; either way it becomes the active leaf. */
+  addMessage(sessionId: string, role: ChatMessage["role"], text: string, userId?: string, proposalIds?: string[], parentId?: number | null, toolCalls?: string[]): Promise<ChatMessage>;
+  getMessage(sessionId: string, messageId: number): Promise<ChatMessage | null>;
+  /** Messages from the root to `leafId` (default: the active leaf). */
+  getBranch(sessionId: string, leafId?: number): Promise<ChatMessage[]>;
+  /** Every message of the session, all branches, oldest first — with the active leaf. */
+  getTree(sessionId: string): Promise<{ messages: ChatMessage[]; activeMessageId: number | null }>;
+  /**
+   * Create a session from a message tree in one transaction. Messages are
+   * given new ids; each `parentId` must refer to an earlier message in the list.
+   */
+  importSession(id: string, title: string, userId: string | undefined, messages: ImportedMessage[], activeMessageId: number | null): Promise<ChatSession & { messages: ChatMessage[] }>;
+  /** Make the newest message under `messageId` the active leaf. False if the message is not in the session. */
+  selectBranch(sessionId: string, messageId: number): Promise<boolean>;
   delete(id: string): Promise<boolean>;
   touch(id: string): Promise<void>;
   count(): Promise<number>;
@@ -86,6 +112,28 @@ const SCHEMA_STATEMENTS = [
     ALTER TABLE messages ADD COLUMN proposal_ids JSONB;
   EXCEPTION WHEN duplicate_column THEN NULL;
   END $$`,
+  // Conversation branching: existing sessions are linear, so chain each
+  // message to the one before it when the column is first added
+  `DO $$ BEGIN
+    ALTER TABLE messages ADD COLUMN parent_id INTEGER REFERENCES messages(id) ON DELETE CASCADE;
+    UPDATE messages m SET parent_id = (
+      SELECT p.id FROM messages p
+      WHERE p.session_id = m.session_id AND p.id < m.id
+      ORDER BY p.id DESC LIMIT 1
+    );
+  EXCEPTION WHEN duplicate_column THEN NULL;
+  END $$`,
+  `CREATE INDEX IF NOT EXISTS idx_messages_parent
+    ON messages(parent_id)`,
+  `DO $$ BEGIN
+    ALTER TABLE sessions ADD COLUMN active_message_id INTEGER;
+  EXCEPTION WHEN duplicate_column THEN NULL;
+  END $$`,
+  // Tool calls behind a model message, kept for session export
+  `DO $$ BEGIN
+    ALTER TABLE messages ADD COLUMN tool_calls JSONB;
+  EXCEPTION WHEN duplicate_column THEN NULL;
+  END $$`,
 ];
 
 const SQL = {
@@ -123,9 +171,16 @@ const SQL = {
   getOwner: `SELECT user_id AS "userId" FROM sessions WHERE id = $1`,
   updateTitle: `UPDATE sessions SET title = $1, updated_at = $2 WHERE id = $3`,
   touchSession: `UPDATE sessions SET updated_at = $1 WHERE id = $2`,
+  advanceSession: `UPDATE sessions SET updated_at = $1, active_message_id = $2 WHERE id = $3`,
+  getActiveLeaf: `SELECT COALESCE(
+    s.active_message_id,
+    (SELECT MAX(id) FROM messages WHERE session_id = s.id)
+  ) AS "leafId" FROM sessions s WHERE s.id = $1`,
+  setActiveMessage: `UPDATE sessions SET active_message_id = $1 WHERE id = $2`,
   deleteSession: `DELETE FROM sessions WHERE id = $1`,
-  insertMessage: `INSERT INTO messages (session_id, role, text, created_at, proposal_ids) VALUES ($1, $2, $3, $4, $5) RETURNING id`,
-  getMessages: `SELECT id, role, text, created_at AS "createdAt", proposal_ids AS "proposalIds" FROM messages WHERE session_id = $1 ORDER BY created_at ASC`,
+  insertMessage: `INSERT INTO messages (session_id, role, text, created_at, proposal_ids, parent_id, tool_calls) VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id`,
+  getMessages: `SELECT id, role, text, created_at AS "createdAt", proposal_ids AS "proposalIds", parent_id AS "parentId", tool_calls AS "toolCalls" FROM messages WHERE session_id = $1 ORDER BY created_at ASC, id ASC`,
+  getMessage: `SELECT id, role, text, created_at AS "createdAt", proposal_ids AS "proposalIds", parent_id AS "parentId", tool_calls AS "toolCalls" FROM messages WHERE session_id = $1 AND id = $2`,
   countSessions: `SELECT COUNT(*) AS count FROM sessions`,
   sessionExists: `SELECT 1 FROM sessions WHERE id = $1`,
 };
@@ -144,6 +199,64 @@ export function generateTimestampTitle(date: Date = new Date()): string {
   return `${y}${mo}${d}-${h}${mi}${s}`;
 }
 
+function toChatMessage(r: Record<string, unknown>): ChatMessage {
+  return {
+    id: Number(r.id),
+    role: r.role as ChatMessage["role"],
+    text: String(r.text),
+    createdAt: r.createdAt instanceof Date ? r.createdAt.toISOString() : String(r.createdAt),
+    proposalIds: Array.isArray(r.proposalIds) ? r.proposalIds as string[] : undefined,
+    toolCalls: Array.isArray(r.toolCalls) ? r.toolCalls as string[] : undefined,
+    parentId: r.parentId == null ? null : Number(r.parentId),
+  };
+}
+
+/**
+ * The branch of a message tree ending at `leafId` (default, or when unknown:
+ * the newest message), root first, with `branchIds` set wherever the thread forks.
+ */
+export function resolveBranch(messages: ChatMessage[], leafId?: number | null): ChatMessage[] {
+  if (messages.length === 0) return [];
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const siblings = new Map<number | null, number[]>();
+  for (const m of [...messages].sort((a, b) => a.id - b.id)) {
+    const ids = siblings.get(m.parentId) ?? [];
+    ids.push(m.id);
+    siblings.set(m.parentId, ids);
+  }
+
+  let current: ChatMessage | undefined = (leafId != null ? byId.get(leafId) : undefined)
+    ?? messages.reduce((newest, m) => (m.id > newest.id ? m : newest));
+  const branch: ChatMessage[] = [];
+  const seen = new Set<number>();
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    const ids = siblings.get(current.parentId) ?? [];
+    branch.push(ids.length > 1 ? { ...current, branchIds: ids } : current);
+    current = current.parentId === null ? undefined : byId.get(current.parentId);
+  }
+  return branch.reverse();
+}
+
+/** The newest message in the subtree rooted at `messageId` — where switching to that branch lands. */
+export function latestLeafUnder(messages: ChatMessage[], messageId: number): number {
+  const children = new Map<number, number[]>();
+  for (const m of messages) {
+    if (m.parentId === null) continue;
+    const ids = children.get(m.parentId) ?? [];
+    ids.push(m.id);
+    children.set(m.parentId, ids);
+  }
+  let latest = messageId;
+  const stack = [messageId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id > latest) latest = id;
+    stack.push(...(children.get(id) ?? []));
+  }
+  return latest;
+}
+
 export async function createSessionStore(adminPool: Pool, runtimePool?: Pool): Promise<SessionStore> {
   await initSchema(adminPool, SCHEMA_STATEMENTS);
   const pool = runtimePool ?? adminPool;
@@ -173,15 +286,7 @@ export async function createSessionStore(adminPool: Pool, runtimePool?: Pool): P
       const sessionResult = await pool.query(SQL.getSession, [id]);
       const session = sessionResult.rows[0] as ChatSession | undefined;
       if (!session) return null;
-      const msgResult = await pool.query(SQL.getMessages, [id]);
-      const messages = (msgResult.rows as Array<Record<string, unknown>>).map((r) => ({
-        id: Number(r.id),
-        role: r.role as ChatMessage["role"],
-        text: String(r.text),
-        createdAt: String(r.createdAt),
-        proposalIds: Array.isArray(r.proposalIds) ? r.proposalIds as string[] : undefined,
-      }));
-      return { ...session, messages };
+      return { ...session, messages: await store.getBranch(id) };
     },
 
     async updateTitle(id: string, title: string): Promise<boolean> {
@@ -190,7 +295,7 @@ export async function createSessionStore(adminPool: Pool, runtimePool?: Pool): P
       return (result.rowCount ?? 0) > 0;
     },
 
-    async addMessage(sessionId, role, text, userId?, proposalIds?) {
+    async addMessage(sessionId, role, text, userId?, proposalIds?, parentId?, toolCalls?) {
       // Auto-create session if it doesn't exist
       const existsResult = await pool.query(SQL.sessionExists, [sessionId]);
       if (existsResult.rows.length === 0) {
@@ -201,24 +306,92 @@ export async function createSessionStore(adminPool: Pool, runtimePool?: Pool): P
         await store.create(sessionId, title, userId);
       }
 
+      let parent = parentId;
+      if (parent === undefined) {
+        const leafResult = await pool.query(SQL.getActiveLeaf, [sessionId]);
+        const leafId = (leafResult.rows[0] as { leafId: number | string | null } | undefined)?.leafId;
+        parent = leafId == null ? null : Number(leafId);
+      }
+
       const now = new Date().toISOString();
       const result = await pool.query(SQL.insertMessage, [
         sessionId, role, text, now,
         proposalIds?.length ? JSON.stringify(proposalIds) : null,
+        parent,
+        toolCalls?.length ? JSON.stringify(toolCalls) : null,
       ]);
+      const id = Number(result.rows[0].id);
 
-      // Touch the session's updated_at
-      await pool.query(SQL.touchSession, [now, sessionId]);
+      // Touch the session's updated_at and move its active leaf to the new message
+      await pool.query(SQL.advanceSession, [now, id, sessionId]);
 
       return {
-        id: Number(result.rows[0].id),
+        id,
         role,
         text,
         createdAt: now,
         proposalIds: proposalIds?.length ? proposalIds : undefined,
+        toolCalls: toolCalls?.length ? toolCalls : undefined,
+        parentId: parent,
       };
     },
 
+    async getMessage(sessionId: string, messageId: number): Promise<ChatMessage | null> {
+      const result = await pool.query(SQL.getMessage, [sessionId, messageId]);
+      const row = result.rows[0] as Record<string, unknown> | undefined;
+      return row ? toChatMessage(row) : null;
+    },
+
+    async getBranch(sessionId: string, leafId?: number): Promise<ChatMessage[]> {
+      const msgResult = await pool.query(SQL.getMessages, [sessionId]);
+      const messages = (msgResult.rows as Array<Record<string, unknown>>).map(toChatMessage);
+      if (leafId !== undefined) return resolveBranch(messages, leafId);
+      const leafResult = await pool.query(SQL.getActiveLeaf, [sessionId]);
+      const active = (leafResult.rows[0] as { leafId: number | string | null } | undefined)?.leafId;
+      return resolveBranch(messages, active == null ? null : Number(active));
+    },
+
+    async getTree(sessionId: string) {
+      const msgResult = await pool.query(SQL.getMessages, [sessionId]);
+      const messages = (msgResult.rows as Array<Record<string, unknown>>).map(toChatMessage);
+      const leafResult = await pool.query(SQL.getActiveLeaf, [sessionId]);
+      const active = (leafResult.rows[0] as { leafId: number | string | null } | undefined)?.leafId;
+      return { messages, activeMessageId: active == null ? null : Number(active) };
+    },
+
+    async importSession(id, title, userId, messages, activeMessageId) {
+      const now = new Date().toISOString();
+      await withTransaction(pool, async (client) => {
+        await client.query(SQL.insertSession, [id, title, userId ?? null, now, now]);
+        const newIds = new Map<number, number>();
+        for (const m of messages) {
+          const parent = m.parentId === null ? null : newIds.get(m.parentId);
+          if (parent === undefined) throw new Error(`message ${m.id} refers to unknown parent ${m.parentId}`);
+          const result = await client.query(SQL.insertMessage, [
+            id, m.role, m.text, m.createdAt,
+            m.proposalIds?.length ? JSON.stringify(m.proposalIds) : null,
+            parent,
+            m.toolCalls?.length ? JSON.stringify(m.toolCalls) : null,
+          ]);
+          newIds.set(m.id, Number(result.rows[0].id));
+        }
+        const active = activeMessageId === null ? undefined : newIds.get(activeMessageId);
+        await client.query(SQL.setActiveMessage, [active ?? null, id]);
+      });
+      log.settings.debug({ id, userId, messages: messages.length }, "session imported");
+      const session = await store.get(id);
+      if (!session) throw new Error(`imported session ${id} not found`);
+      return session;
+    },
+
+    async selectBranch(sessionId: string, messageId: number): Promise<boolean> {
+      const msgResult = await pool.query(SQL.getMessages, [sessionId]);
+      const messages = (msgResult.rows as Array<Record<string, unknown>>).map(toChatMessage);
+      if (!messages.some((m) => m.id === messageId)) return false;
+      await pool.query(SQL.setActiveMessage, [latestLeafUnder(messages, messageId), sessionId]);
+      return true;
+    },
+
     async delete(id: string): Promise<boolean> {
       const result = await pool.query(SQL.deleteSession, [id]);
       return (result.rowCount ?? 0) > 0;
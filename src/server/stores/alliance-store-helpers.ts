@@ -0,0 +1,91 @@
+/**
+ * alliance-store-helpers.ts — Alliance roles, errors and membership checks
+ *
+ * Shared by alliance-store.ts (membership) and alliance-store-shared.ts
+ * (plan items, targets, armadas).
+ */
+
+import type { QueryExecutor } from "../request-context.js";
+
+// ─── Roles ──────────────────────────────────────────────────
+
+/**
+ * Alliance roles, ordered by privilege. They sit on top of the site RBAC
+ * (ensign → admiral): the site role decides who may use alliances at all,
+ * the alliance role decides what a member may change inside one.
+ *
+ * member  — reads everything, signs up for armadas, shares their own overlays
+ * officer — manages plan items, targets and armadas; removes members
+ * leader  — manages the alliance and member roles; one per alliance
+ */
+export const ALLIANCE_ROLES = ["member", "officer", "leader"] as const;
+export type AllianceRole = (typeof ALLIANCE_ROLES)[number];
+
+/** Numeric privilege level for each alliance role. */
+export function allianceRoleLevel(role: AllianceRole): number {
+  return ALLIANCE_ROLES.indexOf(role);
+}
+
+// ─── Limits ─────────────────────────────────────────────────
+
+export const MAX_ALLIANCE_MEMBERS = 100;
+/** Most plan items, targets or armadas one alliance keeps (each) */
+export const MAX_ALLIANCE_ITEMS = 200;
+export const MAX_ALLIANCE_NAME_LENGTH = 60;
+export const MAX_ALLIANCE_TAG_LENGTH = 6;
+export const MAX_ALLIANCE_TEXT_LENGTH = 500;
+
+// ─── Errors ─────────────────────────────────────────────────
+
+export type AllianceErrorReason = "not_member" | "forbidden" | "not_found" | "conflict" | "invalid";
+
+/** Thrown by alliance store operations the caller may not perform. Routes map `reason` to a status. */
+export class AllianceError extends Error {
+  readonly reason: AllianceErrorReason;
+
+  constructor(reason: AllianceErrorReason, message: string) {
+    super(message);
+    this.name = "AllianceError";
+    this.reason = reason;
+  }
+}
+
+// ─── Membership ─────────────────────────────────────────────
+
+export interface CallerMembership {
+  allianceId: string;
+  role: AllianceRole;
+}
+
+/**
+ * The caller's alliance and role, checked against a minimum role.
+ * Runs inside the caller's scope — RLS already limits what it can see.
+ */
+export async function requireMembership(
+  client: QueryExecutor,
+  userId: string,
+  minRole: AllianceRole = "member",
+): Promise<CallerMembership> {
+  const result = await client.query(
+    "SELECT alliance_id, role FROM alliance_members WHERE user_id = $1",
+    [userId],
+  );
+  const row = result.rows[0] as { alliance_id: string; role: AllianceRole } | undefined;
+  if (!row) throw new AllianceError("not_member", "You are not in an alliance");
+  if (allianceRoleLevel(row.role) < allianceRoleLevel(minRole)) {
+    throw new AllianceError("forbidden", `Alliance ${minRole} role required`);
+  }
+  return { allianceId: row.alliance_id, role: row.role };
+}
+
+export function toIso(value: unknown): string {
+  return (value instanceof Date ? value : new Date(String(value))).toISOString();
+}
+
+export function toIsoOrNull(value: unknown): string | null {
+  return value == null ? null : toIso(value);
+}
+
+export function strOrNull(value: unknown): string | null {
+  return value == null ? null : String(value);
+}
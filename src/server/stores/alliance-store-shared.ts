@@ -0,0 +1,311 @@
+/**
+ * alliance-store-shared.ts — Alliance plan item, target and armada query families
+ *
+ * Every member reads these; officers and the leader manage them. Any member
+ * signs themselves up for an armada. Rows carry alliance_id and are
+ * isolated by the alliance RLS policies in alliance-store.ts.
+ */
+
+import { log } from "../logger.js";
+import type { QueryExecutor, ScopeProvider } from "../request-context.js";
+import {
+  AllianceError,
+  MAX_ALLIANCE_ITEMS,
+  MAX_ALLIANCE_NAME_LENGTH,
+  MAX_ALLIANCE_TEXT_LENGTH,
+  requireMembership,
+  strOrNull,
+  toIso,
+  toIsoOrNull,
+} from "./alliance-store-helpers.js";
+import type {
+  AllianceArmada,
+  AlliancePlanItem,
+  AlliancePlanStatus,
+  AllianceTarget,
+  AllianceTargetType,
+  ArmadaSignup,
+  ArmadaSignupInput,
+  ArmadaSignupIssue,
+  CreateAlliancePlanItemInput,
+  CreateAllianceTargetInput,
+  CreateArmadaInput,
+  UpdateAlliancePlanItemInput,
+} from "./alliance-store.js";
+
+const PLAN_COLS = "id, title, notes, due_at, status, created_by, created_at, updated_at";
+const TARGET_COLS = "id, target_type, ref_id, label, priority, notes, created_by, created_at";
+const ARMADA_COLS = "id, name, hostile_id, hostile_name, starts_at, min_participants, notes, created_by, created_at";
+
+function text(value: string | null | undefined, max = MAX_ALLIANCE_TEXT_LENGTH): string | null {
+  const trimmed = value?.trim().slice(0, max);
+  return trimmed || null;
+}
+
+function mapPlanRow(row: Record<string, unknown>): AlliancePlanItem {
+  return {
+    id: Number(row.id),
+    title: String(row.title),
+    notes: strOrNull(row.notes),
+    dueAt: toIsoOrNull(row.due_at),
+    status: String(row.status) as AlliancePlanStatus,
+    createdBy: String(row.created_by),
+    createdAt: toIso(row.created_at),
+    updatedAt: toIso(row.updated_at),
+  };
+}
+
+function mapTargetRow(row: Record<string, unknown>): AllianceTarget {
+  return {
+    id: Number(row.id),
+    targetType: String(row.target_type) as AllianceTargetType,
+    refId: strOrNull(row.ref_id),
+    label: String(row.label),
+    priority: Number(row.priority),
+    notes: strOrNull(row.notes),
+    createdBy: String(row.created_by),
+    createdAt: toIso(row.created_at),
+  };
+}
+
+function mapSignupRow(row: Record<string, unknown>): ArmadaSignup {
+  return {
+    userId: String(row.user_id),
+    displayName: String(row.display_name ?? ""),
+    shipRefId: strOrNull(row.ship_ref_id),
+    shipName: strOrNull(row.ship_name),
+    loadoutId: row.loadout_id == null ? null : Number(row.loadout_id),
+    loadoutName: strOrNull(row.loadout_name),
+    dockNumber: row.dock_number == null ? null : Number(row.dock_number),
+    issues: Array.isArray(row.issues) ? (row.issues as ArmadaSignupIssue[]) : [],
+    checkedAt: toIsoOrNull(row.checked_at),
+    note: strOrNull(row.note),
+    createdAt: toIso(row.created_at),
+  };
+}
+
+async function requireRoom(client: QueryExecutor, table: string, allianceId: string): Promise<void> {
+  const { rows: [{ count }] } = await client.query(`SELECT COUNT(*) AS count FROM ${table} WHERE alliance_id = $1`, [allianceId]);
+  if (Number(count) >= MAX_ALLIANCE_ITEMS) {
+    throw new AllianceError("conflict", `At most ${MAX_ALLIANCE_ITEMS} entries can be kept — delete some first`);
+  }
+}
+
+/** Armadas with their sign-ups (display names from the member list), soonest first. */
+async function readArmadas(client: QueryExecutor, allianceId: string, filters: { upcoming?: boolean; id?: number } = {}): Promise<AllianceArmada[]> {
+  const armadas = await client.query(
+    `SELECT ${ARMADA_COLS} FROM alliance_armadas
+     WHERE alliance_id = $1
+       AND ($2::boolean IS NOT TRUE OR starts_at >= NOW() - INTERVAL '1 hour')
+       AND ($3::bigint IS NULL OR id = $3)
+     ORDER BY starts_at ASC, id ASC`,
+    [allianceId, filters.upcoming ?? null, filters.id ?? null],
+  );
+  if (armadas.rows.length === 0) return [];
+  const signups = await client.query(
+    `SELECT s.armada_id, s.user_id, m.display_name, s.ship_ref_id, s.ship_name, s.loadout_id, s.loadout_name,
+       s.dock_number, s.issues, s.checked_at, s.note, s.created_at
+     FROM alliance_armada_signups s LEFT JOIN alliance_members m ON m.user_id = s.user_id
+     WHERE s.armada_id = ANY($1::bigint[])
+     ORDER BY s.created_at ASC`,
+    [armadas.rows.map((row) => row.id)],
+  );
+  const byArmada = new Map<number, ArmadaSignup[]>();
+  for (const row of signups.rows as Record<string, unknown>[]) {
+    const list = byArmada.get(Number(row.armada_id)) ?? [];
+    list.push(mapSignupRow(row));
+    byArmada.set(Number(row.armada_id), list);
+  }
+  return (armadas.rows as Record<string, unknown>[]).map((row) => ({
+    id: Number(row.id),
+    name: String(row.name),
+    hostileId: strOrNull(row.hostile_id),
+    hostileName: strOrNull(row.hostile_name),
+    startsAt: toIso(row.starts_at),
+    minParticipants: row.min_participants == null ? null : Number(row.min_participants),
+    notes: strOrNull(row.notes),
+    createdBy: String(row.created_by),
+    createdAt: toIso(row.created_at),
+    signups: byArmada.get(Number(row.id)) ?? [],
+  }));
+}
+
+async function requireArmada(client: QueryExecutor, allianceId: string, armadaId: number): Promise<AllianceArmada> {
+  const [armada] = await readArmadas(client, allianceId, { id: armadaId });
+  if (!armada) throw new AllianceError("not_found", "Armada not found");
+  return armada;
+}
+
+export function createAllianceSharedMixin(scope: ScopeProvider, userId: string) {
+  return {
+    // ═══════════════════════════════════════════════════════
+    // Plan Items
+    // ═══════════════════════════════════════════════════════
+
+    async listPlanItems(): Promise<AlliancePlanItem[]> {
+      return scope.read(async (client) => {
+        const me = await requireMembership(client, userId);
+        const result = await client.query(
+          `SELECT ${PLAN_COLS} FROM alliance_plan_items WHERE alliance_id = $1
+           ORDER BY status ASC, due_at ASC NULLS LAST, id ASC`,
+          [me.allianceId],
+        );
+        return result.rows.map((row) => mapPlanRow(row as Record<string, unknown>));
+      });
+    },
+
+    async createPlanItem(input: CreateAlliancePlanItemInput): Promise<AlliancePlanItem> {
+      return scope.write(async (client) => {
+        const me = await requireMembership(client, userId, "officer");
+        await requireRoom(client, "alliance_plan_items", me.allianceId);
+        const result = await client.query(
+          `INSERT INTO alliance_plan_items (alliance_id, title, notes, due_at, created_by)
+           VALUES ($1, $2, $3, $4, $5) RETURNING ${PLAN_COLS}`,
+          [me.allianceId, text(input.title, MAX_ALLIANCE_NAME_LENGTH * 2), text(input.notes), input.dueAt ?? null, userId],
+        );
+        return mapPlanRow(result.rows[0] as Record<string, unknown>);
+      });
+    },
+
+    async updatePlanItem(id: number, input: UpdateAlliancePlanItemInput): Promise<AlliancePlanItem | null> {
+      return scope.write(async (client) => {
+        const me = await requireMembership(client, userId, "officer");
+        const result = await client.query(
+          `UPDATE alliance_plan_items SET
+             title = COALESCE($3, title),
+             notes = CASE WHEN $4::boolean THEN $5 ELSE notes END,
+             due_at = CASE WHEN $6::boolean THEN $7::timestamptz ELSE due_at END,
+             status = COALESCE($8, status),
+             updated_at = NOW()
+           WHERE alliance_id = $1 AND id = $2
+           RETURNING ${PLAN_COLS}`,
+          [
+            me.allianceId, id,
+            input.title === undefined ? null : text(input.title, MAX_ALLIANCE_NAME_LENGTH * 2),
+            input.notes !== undefined, text(input.notes),
+            input.dueAt !== undefined, input.dueAt ?? null,
+            input.status ?? null,
+          ],
+        );
+        return result.rows[0] ? mapPlanRow(result.rows[0] as Record<string, unknown>) : null;
+      });
+    },
+
+    async deletePlanItem(id: number): Promise<boolean> {
+      return scope.write(async (client) => {
+        const me = await requireMembership(client, userId, "officer");
+        const result = await client.query("DELETE FROM alliance_plan_items WHERE alliance_id = $1 AND id = $2", [me.allianceId, id]);
+        return (result.rowCount ?? 0) > 0;
+      });
+    },
+
+    // ═══════════════════════════════════════════════════════
+    // Targets
+    // ═══════════════════════════════════════════════════════
+
+    async listTargets(): Promise<AllianceTarget[]> {
+      return scope.read(async (client) => {
+        const me = await requireMembership(client, userId);
+        const result = await client.query(
+          `SELECT ${TARGET_COLS} FROM alliance_targets WHERE alliance_id = $1 ORDER BY priority ASC, id ASC`,
+          [me.allianceId],
+        );
+        return result.rows.map((row) => mapTargetRow(row as Record<string, unknown>));
+      });
+    },
+
+    async createTarget(input: CreateAllianceTargetInput): Promise<AllianceTarget> {
+      return scope.write(async (client) => {
+        const me = await requireMembership(client, userId, "officer");
+        await requireRoom(client, "alliance_targets", me.allianceId);
+        const result = await client.query(
+          `INSERT INTO alliance_targets (alliance_id, target_type, ref_id, label, priority, notes, created_by)
+           VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING ${TARGET_COLS}`,
+          [
+            me.allianceId, input.targetType, input.targetType === "other" ? null : input.refId ?? null,
+            text(input.label, MAX_ALLIANCE_NAME_LENGTH * 2), input.priority ?? 2, text(input.notes), userId,
+          ],
+        );
+        return mapTargetRow(result.rows[0] as Record<string, unknown>);
+      });
+    },
+
+    async deleteTarget(id: number): Promise<boolean> {
+      return scope.write(async (client) => {
+        const me = await requireMembership(client, userId, "officer");
+        const result = await client.query("DELETE FROM alliance_targets WHERE alliance_id = $1 AND id = $2", [me.allianceId, id]);
+        return (result.rowCount ?? 0) > 0;
+      });
+    },
+
+    // ═══════════════════════════════════════════════════════
+    // Armadas
+    // ═══════════════════════════════════════════════════════
+
+    async listArmadas(filters?: { upcoming?: boolean }): Promise<AllianceArmada[]> {
+      return scope.read(async (client) => {
+        const me = await requireMembership(client, userId);
+        return readArmadas(client, me.allianceId, { upcoming: filters?.upcoming });
+      });
+    },
+
+    async createArmada(input: CreateArmadaInput): Promise<AllianceArmada> {
+      return scope.write(async (client) => {
+        const me = await requireMembership(client, userId, "officer");
+        await requireRoom(client, "alliance_armadas", me.allianceId);
+        const result = await client.query(
+          `INSERT INTO alliance_armadas (alliance_id, name, hostile_id, hostile_name, starts_at, min_participants, notes, created_by)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING id`,
+          [
+            me.allianceId, text(input.name, MAX_ALLIANCE_NAME_LENGTH), input.hostileId ?? null,
+            text(input.hostileName, MAX_ALLIANCE_NAME_LENGTH * 2), input.startsAt, input.minParticipants ?? null,
+            text(input.notes), userId,
+          ],
+        );
+        const armadaId = Number(result.rows[0].id);
+        log.fleet.info({ userId, allianceId: me.allianceId, armadaId }, "alliance armada scheduled");
+        return requireArmada(client, me.allianceId, armadaId);
+      });
+    },
+
+    async deleteArmada(id: number): Promise<boolean> {
+      return scope.write(async (client) => {
+        const me = await requireMembership(client, userId, "officer");
+        const result = await client.query("DELETE FROM alliance_armadas WHERE alliance_id = $1 AND id = $2", [me.allianceId, id]);
+        return (result.rowCount ?? 0) > 0;
+      });
+    },
+
+    async signUp(armadaId: number, input: ArmadaSignupInput): Promise<AllianceArmada> {
+      return scope.write(async (client) => {
+        const me = await requireMembership(client, userId);
+        await requireArmada(client, me.allianceId, armadaId);
+        const check = input.check ?? null;
+        await client.query(
+          `INSERT INTO alliance_armada_signups
+             (armada_id, alliance_id, user_id, ship_ref_id, ship_name, loadout_id, loadout_name, dock_number, issues, checked_at, note)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, CASE WHEN $10::boolean THEN NOW() END, $11)
+           ON CONFLICT (armada_id, user_id) DO UPDATE SET
+             ship_ref_id = EXCLUDED.ship_ref_id, ship_name = EXCLUDED.ship_name,
+             loadout_id = EXCLUDED.loadout_id, loadout_name = EXCLUDED.loadout_name, dock_number = EXCLUDED.dock_number,
+             issues = EXCLUDED.issues, checked_at = EXCLUDED.checked_at, note = EXCLUDED.note`,
+          [
+            armadaId, me.allianceId, userId, input.shipRefId ?? null, text(input.shipName, MAX_ALLIANCE_NAME_LENGTH),
+            check?.loadoutId ?? null, text(check?.loadoutName, MAX_ALLIANCE_NAME_LENGTH * 2), check?.dockNumber ?? null,
+            JSON.stringify(check?.issues ?? []), check != null, text(input.note),
+          ],
+        );
+        return requireArmada(client, me.allianceId, armadaId);
+      });
+    },
+
+    async withdraw(armadaId: number): Promise<AllianceArmada> {
+      return scope.write(async (client) => {
+        const me = await requireMembership(client, userId);
+        await requireArmada(client, me.allianceId, armadaId);
+        await client.query("DELETE FROM alliance_armada_signups WHERE armada_id = $1 AND user_id = $2", [armadaId, userId]);
+        return requireArmada(client, me.allianceId, armadaId);
+      });
+    },
+  };
+}
@@ -0,0 +1,598 @@
+/**
+ * alliance-store.ts — Alliance (shared workspace) Store
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Every other store is per-user: RLS keys rows on app.current_user_id
+ * (#85). An alliance is the one place users share data — plan items,
+ * armadas with sign-ups, and a target list — plus opt-in, read-only
+ * visibility of each member's overlays (services/alliance-roster.ts).
+ *
+ * A user belongs to at most one alliance. Alliance roles (leader /
+ * officer / member, alliance-store-helpers.ts) are checked here, inside
+ * the same transaction as the change; the site role that may use
+ * alliances at all is checked by the routes.
+ *
+ * Security:
+ * - Shared tables carry alliance_id; RLS policies compare it with
+ *   majel_current_alliance_id(), which resolves the caller's alliance from
+ *   alliance_members. The function is SECURITY DEFINER so the policy on
+ *   alliance_members can use it without recursing into itself.
+ * - A member row is visible to its own user and to the rest of the alliance.
+ * - Joining resolves an alliance the caller cannot see yet through
+ *   majel_alliance_id_for_code(), which only answers for an exact code.
+ *
+ * Decomposed like crew-store.ts:
+ *   alliance-store-helpers.ts — roles, AllianceError, membership check
+ *   alliance-store-shared.ts  — plan item, target and armada mixin
+ */
+
+import { randomBytes, randomUUID } from "node:crypto";
+import { initSchema, type Pool } from "../db.js";
+import { log } from "../logger.js";
+import type { QueryExecutor, RequestContext, ScopeProvider } from "../request-context.js";
+import { scopeFromContext, scopeFromPool } from "../request-context.js";
+import {
+  AllianceError,
+  allianceRoleLevel,
+  MAX_ALLIANCE_MEMBERS,
+  MAX_ALLIANCE_NAME_LENGTH,
+  MAX_ALLIANCE_TAG_LENGTH,
+  requireMembership,
+  strOrNull,
+  toIso,
+  type AllianceRole,
+} from "./alliance-store-helpers.js";
+import { createAllianceSharedMixin } from "./alliance-store-shared.js";
+
+export {
+  ALLIANCE_ROLES,
+  AllianceError,
+  allianceRoleLevel,
+  MAX_ALLIANCE_ITEMS,
+  MAX_ALLIANCE_MEMBERS,
+  MAX_ALLIANCE_NAME_LENGTH,
+  MAX_ALLIANCE_TAG_LENGTH,
+  MAX_ALLIANCE_TEXT_LENGTH,
+  type AllianceErrorReason,
+  type AllianceRole,
+} from "./alliance-store-helpers.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface Alliance {
+  id: string;
+  name: string;
+  tag: string | null;
+  /** Code other players join with — only shown to officers and the leader */
+  joinCode: string | null;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AllianceMember {
+  userId: string;
+  displayName: string;
+  role: AllianceRole;
+  /** The member lets the alliance read their owned officers and ships */
+  shareOverlays: boolean;
+  joinedAt: string;
+}
+
+/** The caller's alliance as seen by the caller. */
+export interface AllianceMembership {
+  alliance: Alliance;
+  role: AllianceRole;
+  shareOverlays: boolean;
+  memberCount: number;
+}
+
+export type AlliancePlanStatus = "open" | "done";
+export const VALID_ALLIANCE_PLAN_STATUSES: AlliancePlanStatus[] = ["open", "done"];
+
+export interface AlliancePlanItem {
+  id: number;
+  title: string;
+  notes: string | null;
+  dueAt: string | null;
+  status: AlliancePlanStatus;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateAlliancePlanItemInput {
+  title: string;
+  notes?: string | null;
+  dueAt?: string | null;
+}
+
+export type UpdateAlliancePlanItemInput = Partial<CreateAlliancePlanItemInput> & {
+  status?: AlliancePlanStatus;
+};
+
+export type AllianceTargetType = "officer" | "ship" | "other";
+export const VALID_ALLIANCE_TARGET_TYPES: AllianceTargetType[] = ["officer", "ship", "other"];
+
+export interface AllianceTarget {
+  id: number;
+  targetType: AllianceTargetType;
+  /** Reference catalog ID for officer and ship targets */
+  refId: string | null;
+  label: string;
+  /** 1 (high) – 3 (low) */
+  priority: number;
+  notes: string | null;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface CreateAllianceTargetInput {
+  targetType: AllianceTargetType;
+  refId?: string | null;
+  label: string;
+  priority?: number;
+  notes?: string | null;
+}
+
+export type ArmadaSignupIssueType = "not_docked" | "away_team" | "officer_reserved";
+
+/** Why a signed-up ship may not make it, from the member's dock state. */
+export interface ArmadaSignupIssue {
+  type: ArmadaSignupIssueType;
+  officerId: string | null;
+  detail: string;
+}
+
+/** Result of checking a sign-up against the member's EffectiveDockState. */
+export interface ArmadaSignupCheck {
+  loadoutId: number | null;
+  loadoutName: string | null;
+  dockNumber: number | null;
+  issues: ArmadaSignupIssue[];
+}
+
+export interface ArmadaSignup {
+  userId: string;
+  displayName: string;
+  shipRefId: string | null;
+  shipName: string | null;
+  loadoutId: number | null;
+  loadoutName: string | null;
+  dockNumber: number | null;
+  issues: ArmadaSignupIssue[];
+  /** When the sign-up was checked against the dock state; null if it never was. */
+  checkedAt: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface AllianceArmada {
+  id: number;
+  name: string;
+  hostileId: string | null;
+  hostileName: string | null;
+  startsAt: string;
+  /** Ships needed; each sign-up brings one. */
+  minParticipants: number | null;
+  notes: string | null;
+  createdBy: string;
+  createdAt: string;
+  signups: ArmadaSignup[];
+}
+
+export interface CreateArmadaInput {
+  name: string;
+  hostileId?: string | null;
+  hostileName?: string | null;
+  startsAt: string;
+  minParticipants?: number | null;
+  notes?: string | null;
+}
+
+export interface ArmadaSignupInput {
+  shipRefId?: string | null;
+  shipName?: string | null;
+  note?: string | null;
+  check?: ArmadaSignupCheck | null;
+}
+
+export interface AllianceStore {
+  // Membership
+  getMembership(): Promise<AllianceMembership | null>;
+  create(input: { name: string; tag?: string | null; displayName: string }): Promise<AllianceMembership>;
+  join(joinCode: string, displayName: string): Promise<AllianceMembership>;
+  leave(): Promise<void>;
+  dissolve(): Promise<void>;
+  update(input: { name?: string; tag?: string | null; rotateJoinCode?: boolean }): Promise<Alliance>;
+  listMembers(): Promise<AllianceMember[]>;
+  setMemberRole(memberUserId: string, role: AllianceRole): Promise<AllianceMember[]>;
+  removeMember(memberUserId: string): Promise<void>;
+  setShareOverlays(share: boolean): Promise<AllianceMember>;
+
+  // Plan items
+  listPlanItems(): Promise<AlliancePlanItem[]>;
+  createPlanItem(input: CreateAlliancePlanItemInput): Promise<AlliancePlanItem>;
+  updatePlanItem(id: number, input: UpdateAlliancePlanItemInput): Promise<AlliancePlanItem | null>;
+  deletePlanItem(id: number): Promise<boolean>;
+
+  // Targets
+  listTargets(): Promise<AllianceTarget[]>;
+  createTarget(input: CreateAllianceTargetInput): Promise<AllianceTarget>;
+  deleteTarget(id: number): Promise<boolean>;
+
+  // Armadas
+  listArmadas(filters?: { upcoming?: boolean }): Promise<AllianceArmada[]>;
+  createArmada(input: CreateArmadaInput): Promise<AllianceArmada>;
+  deleteArmada(id: number): Promise<boolean>;
+  signUp(armadaId: number, input: ArmadaSignupInput): Promise<AllianceArmada>;
+  withdraw(armadaId: number): Promise<AllianceArmada>;
+
+  close(): void;
+}
+
+export interface AllianceStoreFactory {
+  forUser(userId: string): AllianceStore;
+  forContext(ctx: RequestContext): AllianceStore;
+}
+
+// ─── Schema ─────────────────────────────────────────────────
+
+const ME = "current_setting('app.current_user_id', true)";
+
+function policy(table: string, name: string, using: string, check: string = using): string {
+  return `DO $$ BEGIN
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_policies WHERE tablename = '${table}' AND policyname = '${name}'
+    ) THEN
+      CREATE POLICY ${name} ON ${table} USING (${using}) WITH CHECK (${check});
+    END IF;
+  END $$`;
+}
+
+const SHARED_TABLES = ["alliance_plan_items", "alliance_targets", "alliance_armadas", "alliance_armada_signups"];
+
+const SCHEMA_STATEMENTS = [
+  `CREATE TABLE IF NOT EXISTS alliances (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    tag TEXT,
+    join_code TEXT NOT NULL UNIQUE,
+    created_by TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE TABLE IF NOT EXISTS alliance_members (
+    user_id TEXT PRIMARY KEY,
+    alliance_id TEXT NOT NULL REFERENCES alliances(id) ON DELETE CASCADE,
+    role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('member', 'officer', 'leader')),
+    display_name TEXT NOT NULL DEFAULT '',
+    share_overlays BOOLEAN NOT NULL DEFAULT FALSE,
+    joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_alliance_members_alliance ON alliance_members(alliance_id)`,
+  `CREATE TABLE IF NOT EXISTS alliance_plan_items (
+    id BIGSERIAL PRIMARY KEY,
+    alliance_id TEXT NOT NULL REFERENCES alliances(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    notes TEXT,
+    due_at TIMESTAMPTZ,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'done')),
+    created_by TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_alliance_plan_items_alliance ON alliance_plan_items(alliance_id, status)`,
+  `CREATE TABLE IF NOT EXISTS alliance_targets (
+    id BIGSERIAL PRIMARY KEY,
+    alliance_id TEXT NOT NULL REFERENCES alliances(id) ON DELETE CASCADE,
+    target_type TEXT NOT NULL CHECK (target_type IN ('officer', 'ship', 'other')),
+    ref_id TEXT,
+    label TEXT NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 2 CHECK (priority BETWEEN 1 AND 3),
+    notes TEXT,
+    created_by TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_alliance_targets_alliance ON alliance_targets(alliance_id)`,
+  `CREATE TABLE IF NOT EXISTS alliance_armadas (
+    id BIGSERIAL PRIMARY KEY,
+    alliance_id TEXT NOT NULL REFERENCES alliances(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    starts_at TIMESTAMPTZ NOT NULL,
+    min_participants INTEGER,
+    notes TEXT,
+    created_by TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_alliance_armadas_alliance ON alliance_armadas(alliance_id, starts_at)`,
+  `CREATE TABLE IF NOT EXISTS alliance_armada_signups (
+    armada_id BIGINT NOT NULL REFERENCES alliance_armadas(id) ON DELETE CASCADE,
+    alliance_id TEXT NOT NULL REFERENCES alliances(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+    ship_ref_id TEXT,
+    ship_name TEXT,
+    note TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (armada_id, user_id)
+  )`,
+  `ALTER TABLE alliance_armadas ADD COLUMN IF NOT EXISTS hostile_id TEXT`,
+  `ALTER TABLE alliance_armadas ADD COLUMN IF NOT EXISTS hostile_name TEXT`,
+  `ALTER TABLE alliance_armada_signups ADD COLUMN IF NOT EXISTS loadout_id INTEGER`,
+  `ALTER TABLE alliance_armada_signups ADD COLUMN IF NOT EXISTS loadout_name TEXT`,
+  `ALTER TABLE alliance_armada_signups ADD COLUMN IF NOT EXISTS dock_number INTEGER`,
+  `ALTER TABLE alliance_armada_signups ADD COLUMN IF NOT EXISTS issues JSONB NOT NULL DEFAULT '[]'`,
+  `ALTER TABLE alliance_armada_signups ADD COLUMN IF NOT EXISTS checked_at TIMESTAMPTZ`,
+  `CREATE OR REPLACE FUNCTION majel_current_alliance_id() RETURNS TEXT
+    LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+      SELECT alliance_id FROM alliance_members WHERE user_id = ${ME}
+    $$`,
+  `CREATE OR REPLACE FUNCTION majel_alliance_id_for_code(code TEXT) RETURNS TEXT
+    LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+      SELECT id FROM alliances WHERE join_code = code
+    $$`,
+  ...["alliances", "alliance_members", ...SHARED_TABLES].flatMap((table) => [
+    `ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY`,
+    `ALTER TABLE ${table} FORCE ROW LEVEL SECURITY`,
+  ]),
+  // Creating an alliance inserts it before the creator is a member
+  policy("alliances", "alliances_member_access",
+    "id = majel_current_alliance_id()",
+    `id = majel_current_alliance_id() OR created_by = ${ME}`),
+  policy("alliance_members", "alliance_members_access",
+    `user_id = ${ME} OR alliance_id = majel_current_alliance_id()`),
+  ...SHARED_TABLES.map((table) => policy(table, `${table}_alliance_isolation`, "alliance_id = majel_current_alliance_id()")),
+];
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function newJoinCode(): string {
+  // 8 characters from an alphabet without look-alikes (0/O, 1/I)
+  const alphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+  return Array.from(randomBytes(8), (byte) => alphabet[byte % alphabet.length]).join("");
+}
+
+function cleanName(name: string): string {
+  return name.trim().slice(0, MAX_ALLIANCE_NAME_LENGTH);
+}
+
+function cleanTag(tag: string | null | undefined): string | null {
+  const value = tag?.trim().toUpperCase().slice(0, MAX_ALLIANCE_TAG_LENGTH);
+  return value || null;
+}
+
+function mapAllianceRow(row: Record<string, unknown>, role: AllianceRole): Alliance {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    tag: strOrNull(row.tag),
+    joinCode: allianceRoleLevel(role) >= allianceRoleLevel("officer") ? String(row.join_code) : null,
+    createdBy: String(row.created_by),
+    createdAt: toIso(row.created_at),
+    updatedAt: toIso(row.updated_at),
+  };
+}
+
+function mapMemberRow(row: Record<string, unknown>): AllianceMember {
+  return {
+    userId: String(row.user_id),
+    displayName: String(row.display_name),
+    role: String(row.role) as AllianceRole,
+    shareOverlays: Boolean(row.share_overlays),
+    joinedAt: toIso(row.joined_at),
+  };
+}
+
+const MEMBER_COLS = "user_id, display_name, role, share_overlays, joined_at";
+
+async function readMembership(client: QueryExecutor, userId: string): Promise<AllianceMembership | null> {
+  const result = await client.query(
+    `SELECT a.id, a.name, a.tag, a.join_code, a.created_by, a.created_at, a.updated_at,
+       m.role, m.share_overlays,
+       (SELECT COUNT(*) FROM alliance_members c WHERE c.alliance_id = a.id) AS member_count
+     FROM alliance_members m JOIN alliances a ON a.id = m.alliance_id
+     WHERE m.user_id = $1`,
+    [userId],
+  );
+  const row = result.rows[0] as Record<string, unknown> | undefined;
+  if (!row) return null;
+  const role = String(row.role) as AllianceRole;
+  return {
+    alliance: mapAllianceRow(row, role),
+    role,
+    shareOverlays: Boolean(row.share_overlays),
+    memberCount: Number(row.member_count),
+  };
+}
+
+async function listMemberRows(client: QueryExecutor, allianceId: string): Promise<AllianceMember[]> {
+  const result = await client.query(
+    `SELECT ${MEMBER_COLS} FROM alliance_members WHERE alliance_id = $1
+     ORDER BY CASE role WHEN 'leader' THEN 0 WHEN 'officer' THEN 1 ELSE 2 END, display_name, user_id`,
+    [allianceId],
+  );
+  return result.rows.map((row) => mapMemberRow(row as Record<string, unknown>));
+}
+
+async function requireNotMember(client: QueryExecutor, userId: string): Promise<void> {
+  const existing = await client.query("SELECT 1 FROM alliance_members WHERE user_id = $1", [userId]);
+  if (existing.rows.length > 0) {
+    throw new AllianceError("conflict", "You are already in an alliance — leave it first");
+  }
+}
+
+// ─── Store ──────────────────────────────────────────────────
+
+function createScopedAllianceStore(scope: ScopeProvider, userId: string): AllianceStore {
+  return {
+    async getMembership() {
+      return scope.read((client) => readMembership(client, userId));
+    },
+
+    async create(input) {
+      return scope.write(async (client) => {
+        await requireNotMember(client, userId);
+        const id = randomUUID();
+        // No RETURNING: the row is not visible to the creator until the member row exists
+        await client.query(
+          `INSERT INTO alliances (id, name, tag, join_code, created_by) VALUES ($1, $2, $3, $4, $5)`,
+          [id, cleanName(input.name), cleanTag(input.tag), newJoinCode(), userId],
+        );
+        await client.query(
+          `INSERT INTO alliance_members (user_id, alliance_id, role, display_name) VALUES ($1, $2, 'leader', $3)`,
+          [userId, id, input.displayName],
+        );
+        log.fleet.info({ userId, allianceId: id }, "alliance created");
+        return (await readMembership(client, userId))!;
+      });
+    },
+
+    async join(joinCode, displayName) {
+      return scope.write(async (client) => {
+        await requireNotMember(client, userId);
+        const lookup = await client.query("SELECT majel_alliance_id_for_code($1) AS id", [joinCode.trim().toUpperCase()]);
+        const allianceId = lookup.rows[0]?.id as string | null;
+        if (!allianceId) throw new AllianceError("not_found", "No alliance has that join code");
+
+        // The alliance's rows only become visible once the member row exists — check the cap after inserting
+        await client.query(
+          `INSERT INTO alliance_members (user_id, alliance_id, role, display_name) VALUES ($1, $2, 'member', $3)`,
+          [userId, allianceId, displayName],
+        );
+        const membership = (await readMembership(client, userId))!;
+        if (membership.memberCount > MAX_ALLIANCE_MEMBERS) {
+          throw new AllianceError("conflict", `Alliances are limited to ${MAX_ALLIANCE_MEMBERS} members`);
+        }
+        log.fleet.info({ userId, allianceId }, "alliance joined");
+        return membership;
+      });
+    },
+
+    async leave() {
+      await scope.write(async (client) => {
+        const me = await requireMembership(client, userId);
+        if (me.role === "leader") {
+          const others = await client.query(
+            "SELECT COUNT(*) AS count FROM alliance_members WHERE alliance_id = $1 AND user_id <> $2",
+            [me.allianceId, userId],
+          );
+          if (Number(others.rows[0].count) > 0) {
+            throw new AllianceError("conflict", "Make another member leader before leaving, or dissolve the alliance");
+          }
+          await client.query("DELETE FROM alliances WHERE id = $1", [me.allianceId]);
+        } else {
+          await client.query("DELETE FROM alliance_armada_signups WHERE user_id = $1", [userId]);
+          await client.query("DELETE FROM alliance_members WHERE user_id = $1", [userId]);
+        }
+        log.fleet.info({ userId, allianceId: me.allianceId }, "alliance left");
+      });
+    },
+
+    async dissolve() {
+      await scope.write(async (client) => {
+        const me = await requireMembership(client, userId, "leader");
+        await client.query("DELETE FROM alliances WHERE id = $1", [me.allianceId]);
+        log.fleet.info({ userId, allianceId: me.allianceId }, "alliance dissolved");
+      });
+    },
+
+    async update(input) {
+      return scope.write(async (client) => {
+        const me = await requireMembership(client, userId, "leader");
+        const result = await client.query(
+          `UPDATE alliances SET
+             name = COALESCE($2, name),
+             tag = CASE WHEN $3::boolean THEN $4 ELSE tag END,
+             join_code = CASE WHEN $5::boolean THEN $6 ELSE join_code END,
+             updated_at = NOW()
+           WHERE id = $1
+           RETURNING id, name, tag, join_code, created_by, created_at, updated_at`,
+          [
+            me.allianceId,
+            input.name === undefined ? null : cleanName(input.name),
+            input.tag !== undefined, cleanTag(input.tag),
+            input.rotateJoinCode === true, newJoinCode(),
+          ],
+        );
+        return mapAllianceRow(result.rows[0] as Record<string, unknown>, me.role);
+      });
+    },
+
+    async listMembers() {
+      return scope.read(async (client) => {
+        const me = await requireMembership(client, userId);
+        return listMemberRows(client, me.allianceId);
+      });
+    },
+
+    async setMemberRole(memberUserId, role) {
+      return scope.write(async (client) => {
+        const me = await requireMembership(client, userId, "leader");
+        if (memberUserId === userId) throw new AllianceError("invalid", "Hand leadership to another member instead");
+        const updated = await client.query(
+          "UPDATE alliance_members SET role = $3 WHERE user_id = $2 AND alliance_id = $1",
+          [me.allianceId, memberUserId, role],
+        );
+        if ((updated.rowCount ?? 0) === 0) throw new AllianceError("not_found", "Member not found");
+        if (role === "leader") {
+          // One leader per alliance — the current one steps down to officer
+          await client.query("UPDATE alliance_members SET role = 'officer' WHERE user_id = $1", [userId]);
+        }
+        log.fleet.info({ userId, allianceId: me.allianceId, memberUserId, role }, "alliance role changed");
+        return listMemberRows(client, me.allianceId);
+      });
+    },
+
+    async removeMember(memberUserId) {
+      await scope.write(async (client) => {
+        const me = await requireMembership(client, userId, "officer");
+        if (memberUserId === userId) throw new AllianceError("invalid", "Leave the alliance instead");
+        const target = await client.query(
+          "SELECT role FROM alliance_members WHERE user_id = $2 AND alliance_id = $1",
+          [me.allianceId, memberUserId],
+        );
+        const targetRole = target.rows[0]?.role as AllianceRole | undefined;
+        if (!targetRole) throw new AllianceError("not_found", "Member not found");
+        if (allianceRoleLevel(targetRole) >= allianceRoleLevel(me.role)) {
+          throw new AllianceError("forbidden", `Only a higher-ranked member can remove a ${targetRole}`);
+        }
+        await client.query("DELETE FROM alliance_armada_signups WHERE user_id = $1 AND alliance_id = $2", [memberUserId, me.allianceId]);
+        await client.query("DELETE FROM alliance_members WHERE user_id = $1", [memberUserId]);
+        log.fleet.info({ userId, allianceId: me.allianceId, memberUserId }, "alliance member removed");
+      });
+    },
+
+    async setShareOverlays(share) {
+      return scope.write(async (client) => {
+        await requireMembership(client, userId);
+        const result = await client.query(
+          `UPDATE alliance_members SET share_overlays = $2 WHERE user_id = $1 RETURNING ${MEMBER_COLS}`,
+          [userId, share],
+        );
+        return mapMemberRow(result.rows[0] as Record<string, unknown>);
+      });
+    },
+
+    ...createAllianceSharedMixin(scope, userId),
+
+    close() {
+    },
+  };
+}
+
+// ─── Factory ────────────────────────────────────────────────
+
+export async function createAllianceStoreFactory(adminPool: Pool, runtimePool?: Pool): Promise<AllianceStoreFactory> {
+  await initSchema(adminPool, SCHEMA_STATEMENTS);
+  const pool = runtimePool ?? adminPool;
+
+  return {
+    forUser(userId: string) {
+      return createScopedAllianceStore(scopeFromPool(pool, userId), userId);
+    },
+    forContext(ctx: RequestContext) {
+      return createScopedAllianceStore(scopeFromContext(ctx), ctx.identity.userId);
+    },
+  };
+}
@@ -0,0 +1,248 @@
+/**
+ * api-token-store.ts — Personal Access Token Store
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Scoped, long-lived Bearer tokens for third-party integrations
+ * (spreadsheets, bots) so they never need a login session.
+ *
+ * Tables:
+ *   api_tokens — one row per token; only the SHA-256 of the secret is kept
+ *
+ * The secret ("mjl_pat_…") is returned once at creation. A token carries
+ * its owner's role, limited further by its scopes (see services/token-scopes.ts).
+ */
+
+import { randomBytes, createHash } from "node:crypto";
+import { initSchema, type Pool } from "../db.js";
+import { log } from "../logger.js";
+import type { Role } from "./user-store.js";
+
+// ─── Constants ──────────────────────────────────────────────────
+
+/** Scopes a token can be granted. */
+export const API_TOKEN_SCOPES = ["catalog:read", "overlay:write", "plan:read", "chat:run", "mcp"] as const;
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+/** Every personal access token starts with this prefix — how auth tells it from a session token. */
+export const API_TOKEN_PREFIX = "mjl_pat_";
+
+/** Secret length in bytes (32 bytes = 43 base64url chars). */
+const TOKEN_SECRET_BYTES = 32;
+
+/** Characters of the secret kept in clear so users can tell tokens apart. */
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+/** Active (unrevoked, unexpired) tokens a user may hold. */
+export const MAX_TOKENS_PER_USER = 20;
+
+/** Longest allowed expiry in days. Tokens may also never expire. */
+export const MAX_TOKEN_EXPIRY_DAYS = 365;
+
+// ─── Schema ─────────────────────────────────────────────────────
+
+const SCHEMA_STATEMENTS = [
+  `CREATE TABLE IF NOT EXISTS api_tokens (
+    id            BIGSERIAL PRIMARY KEY,
+    user_id       UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name          TEXT NOT NULL,
+    token_hash    TEXT NOT NULL UNIQUE,
+    token_prefix  TEXT NOT NULL,
+    scopes        TEXT[] NOT NULL,
+    created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at    TIMESTAMPTZ,
+    last_used_at  TIMESTAMPTZ,
+    last_used_ip  INET,
+    revoked_at    TIMESTAMPTZ
+  )`,
+
+  `CREATE INDEX IF NOT EXISTS idx_api_tokens_user_id ON api_tokens (user_id)`,
+];
+
+// ─── SQL ────────────────────────────────────────────────────────
+
+const ACTIVE = `revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())`;
+
+const SQL = {
+  insert: `INSERT INTO api_tokens (user_id, name, token_hash, token_prefix, scopes, expires_at)
+    VALUES ($1, $2, $3, $4, $5, CASE WHEN $6::INTEGER IS NULL THEN NULL ELSE NOW() + make_interval(days => $6::INTEGER) END)
+    RETURNING *`,
+  listByUser: `SELECT * FROM api_tokens WHERE user_id = $1 ORDER BY created_at DESC, id DESC`,
+  listAll: `SELECT t.*, u.email, u.display_name
+    FROM api_tokens t JOIN users u ON t.user_id = u.id ORDER BY t.created_at DESC, t.id DESC`,
+  countActive: `SELECT COUNT(*) AS count FROM api_tokens WHERE user_id = $1 AND ${ACTIVE}`,
+  resolve: `SELECT t.*, u.email, u.display_name, u.role, u.email_verified, u.locked_at
+    FROM api_tokens t JOIN users u ON t.user_id = u.id
+    WHERE t.token_hash = $1 AND t.revoked_at IS NULL AND (t.expires_at IS NULL OR t.expires_at > NOW())`,
+  touch: `UPDATE api_tokens SET last_used_at = NOW(), last_used_ip = $2 WHERE id = $1`,
+  revoke: `UPDATE api_tokens SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL RETURNING *`,
+  revokeOwned: `UPDATE api_tokens SET revoked_at = NOW() WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL RETURNING *`,
+};
+
+// ─── Types ──────────────────────────────────────────────────────
+
+export interface ApiToken {
+  id: number;
+  userId: string;
+  name: string;
+  /** First characters of the secret, e.g. "mjl_pat_a1B2c3". */
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  createdAt: string;
+  /** Null = never expires. */
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+}
+
+/** Admiral console view: token plus owner. */
+export interface ApiTokenWithOwner extends ApiToken {
+  ownerEmail: string;
+  ownerDisplayName: string;
+}
+
+/** A live token resolved with its owner's account state. */
+export interface ResolvedApiToken {
+  tokenId: number;
+  userId: string;
+  email: string;
+  displayName: string;
+  role: Role;
+  emailVerified: boolean;
+  lockedAt: string | null;
+  scopes: ApiTokenScope[];
+}
+
+export interface CreateApiTokenInput {
+  name: string;
+  scopes: ApiTokenScope[];
+  /** Days until expiry, or null for a token that never expires. */
+  expiresInDays: number | null;
+}
+
+export interface CreatedApiToken {
+  token: ApiToken;
+  /** The full secret — shown once, never stored. */
+  secret: string;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return typeof value === "string" && (API_TOKEN_SCOPES as readonly string[]).includes(value);
+}
+
+function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function toIso(value: unknown): string | null {
+  if (value == null) return null;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function rowToToken(row: Record<string, unknown>): ApiToken {
+  return {
+    id: Number(row.id),
+    userId: row.user_id as string,
+    name: row.name as string,
+    tokenPrefix: row.token_prefix as string,
+    scopes: ((row.scopes as string[]) ?? []).filter(isApiTokenScope),
+    createdAt: toIso(row.created_at)!,
+    expiresAt: toIso(row.expires_at),
+    lastUsedAt: toIso(row.last_used_at),
+    lastUsedIp: row.last_used_ip as string | null,
+    revokedAt: toIso(row.revoked_at),
+  };
+}
+
+// ─── Store Interface ────────────────────────────────────────────
+
+export interface ApiTokenStore {
+  createToken(userId: string, input: CreateApiTokenInput): Promise<CreatedApiToken>;
+  /** All of a user's tokens, including revoked and expired ones. */
+  listTokens(userId: string): Promise<ApiToken[]>;
+  /** Every token with its owner (Admiral console). */
+  listAllTokens(): Promise<ApiTokenWithOwner[]>;
+  countActiveTokens(userId: string): Promise<number>;
+  /** Look up a presented secret. Null when unknown, revoked or expired. */
+  resolveToken(secret: string): Promise<ResolvedApiToken | null>;
+  /** Record last use (fire-and-forget from auth). */
+  touchToken(tokenId: number, ip?: string): Promise<void>;
+  /** Revoke a token. With ownerId, only that user's token. Null when nothing was revoked. */
+  revokeToken(tokenId: number, ownerId?: string): Promise<ApiToken | null>;
+  close(): void;
+}
+
+// ─── Factory ────────────────────────────────────────────────────
+
+export async function createApiTokenStore(adminPool: Pool, runtimePool?: Pool): Promise<ApiTokenStore> {
+  await initSchema(adminPool, SCHEMA_STATEMENTS);
+  const pool = runtimePool ?? adminPool;
+
+  log.fleet.debug("api token store initialized (pg)");
+
+  return {
+    async createToken(userId, input) {
+      const secret = API_TOKEN_PREFIX + randomBytes(TOKEN_SECRET_BYTES).toString("base64url");
+      const res = await pool.query(SQL.insert, [
+        userId, input.name, hashSecret(secret), secret.slice(0, DISPLAY_PREFIX_LENGTH),
+        [...new Set(input.scopes)], input.expiresInDays,
+      ]);
+      return { token: rowToToken(res.rows[0] as Record<string, unknown>), secret };
+    },
+
+    async listTokens(userId) {
+      const res = await pool.query(SQL.listByUser, [userId]);
+      return (res.rows as Record<string, unknown>[]).map(rowToToken);
+    },
+
+    async listAllTokens() {
+      const res = await pool.query(SQL.listAll);
+      return (res.rows as Record<string, unknown>[]).map((row) => ({
+        ...rowToToken(row),
+        ownerEmail: row.email as string,
+        ownerDisplayName: row.display_name as string,
+      }));
+    },
+
+    async countActiveTokens(userId) {
+      const res = await pool.query(SQL.countActive, [userId]);
+      return parseInt((res.rows[0] as Record<string, unknown>).count as string, 10);
+    },
+
+    async resolveToken(secret) {
+      if (!secret.startsWith(API_TOKEN_PREFIX)) return null;
+      const res = await pool.query(SQL.resolve, [hashSecret(secret)]);
+      const row = res.rows[0] as Record<string, unknown> | undefined;
+      if (!row) return null;
+      return {
+        tokenId: Number(row.id),
+        userId: row.user_id as string,
+        email: row.email as string,
+        displayName: row.display_name as string,
+        role: row.role as Role,
+        emailVerified: row.email_verified as boolean,
+        lockedAt: toIso(row.locked_at),
+        scopes: ((row.scopes as string[]) ?? []).filter(isApiTokenScope),
+      };
+    },
+
+    async touchToken(tokenId, ip) {
+      await pool.query(SQL.touch, [tokenId, ip ?? null]);
+    },
+
+    async revokeToken(tokenId, ownerId) {
+      const res = ownerId
+        ? await pool.query(SQL.revokeOwned, [tokenId, ownerId])
+        : await pool.query(SQL.revoke, [tokenId]);
+      const row = res.rows[0] as Record<string, unknown> | undefined;
+      return row ? rowToToken(row) : null;
+    },
+
+    close() {
+      // Pool lifecycle managed externally
+    },
+  };
+}
@@ -41,6 +41,10 @@ export const AUDIT_EVENTS = [
   // Session
   "auth.session.expired_cleanup",
 
+  // Personal access tokens
+  "auth.token.create",
+  "auth.token.revoke",
+
   // Account management (Admiral)
   "admin.role_change",
   "admin.list_users",
@@ -49,6 +53,11 @@ export const AUDIT_EVENTS = [
   "admin.delete_user",
   "admin.resend_verification",
   "admin.verify_user",
+  "admin.token_revoke",
+  "admin.surface_create",
+  "admin.surface_update",
+  "admin.surface_rotate_secret",
+  "admin.surface_delete",
 
   // Cleanup
   "auth.unverified_cleanup",
@@ -0,0 +1,411 @@
+/**
+ * battle-report-store.ts — Per-User Battle Report Store
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Persists imported combat reports as normalized battle logs so they can be
+ * replayed in the UI and analyzed by report ID from chat. Logs analyzed
+ * inline by the chat tools are kept too, tagged with outcome, loadout and
+ * opponent so analytics() can aggregate win rates and loss patterns.
+ * Rows are user-scoped with RLS like the other per-user stores; the same
+ * log stored twice resolves to one report (matched by content fingerprint).
+ */
+
+import { createHash } from "node:crypto";
+import { initSchema, type Pool } from "../db.js";
+import { log } from "../logger.js";
+import type { RequestContext, ScopeProvider } from "../request-context.js";
+import { scopeFromContext, scopeFromPool } from "../request-context.js";
+import type { ParsedBattleLog } from "../services/fleet-tools/read-tools-data-helpers.js";
+import {
+  classifyBattleFailure,
+  resolveBattleOutcome,
+  type BattleContext,
+  type BattleFailureCause,
+  type BattleLogFormat,
+  type BattleOutcome,
+} from "../services/battle-log.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+/** Where a report came from: a file import, or an inline log analyzed in chat. */
+export type BattleReportSource = "import" | "chat";
+
+export interface BattleReportSummary {
+  id: number;
+  battleId: string | null;
+  mode: string | null;
+  fileName: string | null;
+  format: BattleLogFormat;
+  rounds: number;
+  destroyed: boolean;
+  damageDealt: number;
+  damageReceived: number;
+  source: BattleReportSource;
+  outcome: BattleOutcome;
+  likelyCause: BattleFailureCause | null;
+  loadoutId: number | null;
+  shipId: string | null;
+  hostileId: string | null;
+  opponentName: string | null;
+  opponentFaction: string | null;
+  opponentHullType: string | null;
+  createdAt: string;
+}
+
+export interface BattleReport extends BattleReportSummary {
+  log: ParsedBattleLog;
+}
+
+export interface CreateBattleReportInput {
+  fileName?: string | null;
+  format: BattleLogFormat;
+  log: ParsedBattleLog;
+  /** Defaults to "import". */
+  source?: BattleReportSource;
+  context?: Partial<BattleContext>;
+}
+
+/** Fights and wins for one group (a loadout, faction or hull type). */
+export interface BattleWinRate {
+  key: string | null;
+  fights: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+}
+
+export interface BattleAnalytics {
+  fights: number;
+  wins: number;
+  losses: number;
+  /** Null when there are no fights in range. */
+  winRate: number | null;
+  byLoadout: BattleWinRate[];
+  byOpponentFaction: BattleWinRate[];
+  byOpponentHullType: BattleWinRate[];
+  /** Likely failure causes across lost fights, most frequent first. */
+  failureCauses: Array<{ likelyCause: string; count: number; share: number }>;
+  /** Abilities that actually triggered, with how many fights they fired in and the win rate of those fights. */
+  abilities: Array<{ name: string; fights: number; triggers: number; winRate: number }>;
+}
+
+export interface BattleAnalyticsFilters {
+  mode?: string;
+  /** ISO timestamp — only fights stored at or after it. */
+  since?: string;
+}
+
+export interface BattleReportStore {
+  /** Store a report, or re-tag and return the existing one when the same log was stored before. */
+  create(input: CreateBattleReportInput): Promise<BattleReportSummary>;
+  list(filters?: { limit?: number }): Promise<BattleReportSummary[]>;
+  get(id: number): Promise<BattleReport | null>;
+  delete(id: number): Promise<boolean>;
+  counts(): Promise<{ total: number }>;
+  analytics(filters?: BattleAnalyticsFilters): Promise<BattleAnalytics>;
+  close(): void;
+}
+
+export interface BattleReportStoreFactory {
+  forUser(userId: string): BattleReportStore;
+  forContext(ctx: RequestContext): BattleReportStore;
+}
+
+// ─── Schema ─────────────────────────────────────────────────
+
+const SCHEMA_STATEMENTS = [
+  `CREATE TABLE IF NOT EXISTS battle_reports (
+    id SERIAL PRIMARY KEY,
+    user_id TEXT NOT NULL DEFAULT 'local',
+    battle_id TEXT,
+    mode TEXT,
+    file_name TEXT,
+    format TEXT NOT NULL CHECK (format IN ('json', 'csv')),
+    rounds INTEGER NOT NULL,
+    destroyed BOOLEAN NOT NULL DEFAULT FALSE,
+    damage_dealt DOUBLE PRECISION NOT NULL DEFAULT 0,
+    damage_received DOUBLE PRECISION NOT NULL DEFAULT 0,
+    log JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_battle_reports_user ON battle_reports(user_id, created_at DESC)`,
+  // Fight context + analytics tags
+  `ALTER TABLE battle_reports ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'import' CHECK (source IN ('import', 'chat'))`,
+  `ALTER TABLE battle_reports ADD COLUMN IF NOT EXISTS outcome TEXT CHECK (outcome IN ('win', 'loss'))`,
+  `ALTER TABLE battle_reports ADD COLUMN IF NOT EXISTS likely_cause TEXT`,
+  `ALTER TABLE battle_reports ADD COLUMN IF NOT EXISTS loadout_id INTEGER`,
+  `ALTER TABLE battle_reports ADD COLUMN IF NOT EXISTS ship_id TEXT`,
+  `ALTER TABLE battle_reports ADD COLUMN IF NOT EXISTS hostile_id TEXT`,
+  `ALTER TABLE battle_reports ADD COLUMN IF NOT EXISTS opponent_name TEXT`,
+  `ALTER TABLE battle_reports ADD COLUMN IF NOT EXISTS opponent_faction TEXT`,
+  `ALTER TABLE battle_reports ADD COLUMN IF NOT EXISTS opponent_hull_type TEXT`,
+  `ALTER TABLE battle_reports ADD COLUMN IF NOT EXISTS fingerprint TEXT`,
+  `CREATE UNIQUE INDEX IF NOT EXISTS idx_battle_reports_fingerprint ON battle_reports(user_id, fingerprint)`,
+  `ALTER TABLE battle_reports ENABLE ROW LEVEL SECURITY`,
+  `ALTER TABLE battle_reports FORCE ROW LEVEL SECURITY`,
+  `DO $$ BEGIN
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_policies
+      WHERE tablename = 'battle_reports' AND policyname = 'battle_reports_user_isolation'
+    ) THEN
+      CREATE POLICY battle_reports_user_isolation ON battle_reports
+        USING (user_id = current_setting('app.current_user_id', true))
+        WITH CHECK (user_id = current_setting('app.current_user_id', true));
+    END IF;
+  END $$`,
+];
+
+/** Rows stored before outcomes were recorded count a lost ship as a loss. */
+const OUTCOME_SQL = `COALESCE(outcome, CASE WHEN destroyed THEN 'loss' ELSE 'win' END)`;
+
+const SUMMARY_COLS = `id, battle_id, mode, file_name, format, rounds, destroyed,
+  damage_dealt, damage_received, source, ${OUTCOME_SQL} AS outcome, likely_cause, loadout_id,
+  ship_id, hostile_id, opponent_name, opponent_faction, opponent_hull_type, created_at`;
+
+const SQL = {
+  insert: `INSERT INTO battle_reports (
+      user_id, battle_id, mode, file_name, format, rounds, destroyed, damage_dealt, damage_received, log,
+      source, outcome, likely_cause, loadout_id, ship_id, hostile_id,
+      opponent_name, opponent_faction, opponent_hull_type, fingerprint
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10::jsonb, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+    ON CONFLICT (user_id, fingerprint) DO UPDATE SET
+      file_name = COALESCE(EXCLUDED.file_name, battle_reports.file_name),
+      outcome = COALESCE($21::text, battle_reports.outcome),
+      loadout_id = COALESCE(EXCLUDED.loadout_id, battle_reports.loadout_id),
+      ship_id = COALESCE(EXCLUDED.ship_id, battle_reports.ship_id),
+      hostile_id = COALESCE(EXCLUDED.hostile_id, battle_reports.hostile_id),
+      opponent_name = COALESCE(EXCLUDED.opponent_name, battle_reports.opponent_name),
+      opponent_faction = COALESCE(EXCLUDED.opponent_faction, battle_reports.opponent_faction),
+      opponent_hull_type = COALESCE(EXCLUDED.opponent_hull_type, battle_reports.opponent_hull_type)
+    RETURNING ${SUMMARY_COLS}`,
+  list: `SELECT ${SUMMARY_COLS} FROM battle_reports
+    WHERE user_id = $1
+    ORDER BY created_at DESC, id DESC
+    LIMIT $2`,
+  get: `SELECT ${SUMMARY_COLS}, log FROM battle_reports WHERE user_id = $1 AND id = $2`,
+  delete: `DELETE FROM battle_reports WHERE user_id = $1 AND id = $2`,
+  counts: `SELECT COUNT(*) AS total FROM battle_reports WHERE user_id = $1`,
+};
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+const MAX_ANALYTICS_ABILITIES = 25;
+
+/** Whitelisted grouping columns for win-rate buckets. */
+const BUCKET_COLUMNS = {
+  byLoadout: "loadout_id::text",
+  byOpponentFaction: "opponent_faction",
+  byOpponentHullType: "opponent_hull_type",
+} as const;
+
+function analyticsWhere(userId: string, filters?: BattleAnalyticsFilters): { where: string; params: unknown[] } {
+  const clauses = ["user_id = $1"];
+  const params: unknown[] = [userId];
+  if (filters?.mode) {
+    params.push(filters.mode);
+    clauses.push(`mode = $${params.length}`);
+  }
+  if (filters?.since) {
+    params.push(filters.since);
+    clauses.push(`created_at >= $${params.length}::timestamptz`);
+  }
+  return { where: clauses.join(" AND "), params };
+}
+
+function ratio(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 1000 : 0;
+}
+
+function mapWinRateRow(row: Record<string, unknown>): BattleWinRate {
+  const fights = Number(row.fights);
+  const wins = Number(row.wins);
+  return {
+    key: row.key == null ? null : String(row.key),
+    fights,
+    wins,
+    losses: fights - wins,
+    winRate: ratio(wins, fights),
+  };
+}
+
+function mapSummaryRow(row: Record<string, unknown>): BattleReportSummary {
+  return {
+    id: Number(row.id),
+    battleId: row.battle_id == null ? null : String(row.battle_id),
+    mode: row.mode == null ? null : String(row.mode),
+    fileName: row.file_name == null ? null : String(row.file_name),
+    format: String(row.format) as BattleLogFormat,
+    rounds: Number(row.rounds),
+    destroyed: Boolean(row.destroyed),
+    damageDealt: Number(row.damage_dealt),
+    damageReceived: Number(row.damage_received),
+    source: String(row.source) as BattleReportSource,
+    outcome: String(row.outcome) as BattleOutcome,
+    likelyCause: row.likely_cause == null ? null : String(row.likely_cause) as BattleFailureCause,
+    loadoutId: row.loadout_id == null ? null : Number(row.loadout_id),
+    shipId: row.ship_id == null ? null : String(row.ship_id),
+    hostileId: row.hostile_id == null ? null : String(row.hostile_id),
+    opponentName: row.opponent_name == null ? null : String(row.opponent_name),
+    opponentFaction: row.opponent_faction == null ? null : String(row.opponent_faction),
+    opponentHullType: row.opponent_hull_type == null ? null : String(row.opponent_hull_type),
+    createdAt: new Date(String(row.created_at)).toISOString(),
+  };
+}
+
+function sumDamage(log: ParsedBattleLog, side: "damageDealt" | "damageReceived"): number {
+  return log.rounds.reduce(
+    (total, round) => total + round[side].reduce((sum, event) => sum + event.amount, 0),
+    0,
+  );
+}
+
+function createScopedBattleReportStore(scope: ScopeProvider, userId: string): BattleReportStore {
+  return {
+    async create(input) {
+      const context = input.context ?? {};
+      const explicitOutcome = context.outcome ?? null;
+      return scope.write(async (client) => {
+        const result = await client.query(SQL.insert, [
+          userId,
+          input.log.battleId,
+          input.log.mode,
+          input.fileName ?? null,
+          input.format,
+          input.log.rounds.length,
+          input.log.rounds.some((round) => round.destroyed),
+          sumDamage(input.log, "damageDealt"),
+          sumDamage(input.log, "damageReceived"),
+          JSON.stringify(input.log),
+          input.source ?? "import",
+          resolveBattleOutcome(input.log, { outcome: explicitOutcome }),
+          classifyBattleFailure(input.log).likelyCause,
+          context.loadoutId ?? null,
+          context.shipId ?? null,
+          context.hostileId ?? null,
+          context.opponentName ?? null,
+          context.opponentFaction ?? null,
+          context.opponentHullType ?? null,
+          createHash("sha256").update(JSON.stringify(input.log)).digest("hex"),
+          explicitOutcome,
+        ]);
+        const report = mapSummaryRow(result.rows[0] as Record<string, unknown>);
+        log.fleet.info({ userId, reportId: report.id, rounds: report.rounds, format: report.format }, "battle report stored");
+        return report;
+      });
+    },
+
+    async list(filters) {
+      const limit = Math.min(Math.max(Math.floor(filters?.limit ?? DEFAULT_LIST_LIMIT), 1), MAX_LIST_LIMIT);
+      return scope.read(async (client) => {
+        const result = await client.query(SQL.list, [userId, limit]);
+        return result.rows.map((row) => mapSummaryRow(row as Record<string, unknown>));
+      });
+    },
+
+    async get(id) {
+      return scope.read(async (client) => {
+        const result = await client.query(SQL.get, [userId, id]);
+        const row = result.rows[0] as Record<string, unknown> | undefined;
+        if (!row) return null;
+        return { ...mapSummaryRow(row), log: row.log as ParsedBattleLog };
+      });
+    },
+
+    async delete(id) {
+      return scope.write(async (client) => {
+        const result = await client.query(SQL.delete, [userId, id]);
+        return (result.rowCount ?? 0) > 0;
+      });
+    },
+
+    async counts() {
+      return scope.read(async (client) => {
+        const result = await client.query(SQL.counts, [userId]);
+        return { total: Number((result.rows[0] as { total: string | number }).total) };
+      });
+    },
+
+    async analytics(filters) {
+      const { where, params } = analyticsWhere(userId, filters);
+      return scope.read(async (client) => {
+        const totals = (await client.query(
+          `SELECT COUNT(*) AS fights, COUNT(*) FILTER (WHERE ${OUTCOME_SQL} = 'win') AS wins
+           FROM battle_reports WHERE ${where}`,
+          params,
+        )).rows[0] as Record<string, unknown>;
+        const fights = Number(totals.fights);
+        const wins = Number(totals.wins);
+
+        const buckets = {} as Record<keyof typeof BUCKET_COLUMNS, BattleWinRate[]>;
+        for (const [name, column] of Object.entries(BUCKET_COLUMNS) as Array<[keyof typeof BUCKET_COLUMNS, string]>) {
+          const result = await client.query(
+            `SELECT ${column} AS key, COUNT(*) AS fights, COUNT(*) FILTER (WHERE ${OUTCOME_SQL} = 'win') AS wins
+             FROM battle_reports WHERE ${where}
+             GROUP BY 1 ORDER BY fights DESC, key NULLS LAST`,
+            params,
+          );
+          buckets[name] = result.rows.map((row) => mapWinRateRow(row as Record<string, unknown>));
+        }
+
+        const causes = await client.query(
+          `SELECT likely_cause, COUNT(*) AS count FROM battle_reports
+           WHERE ${where} AND ${OUTCOME_SQL} = 'loss' AND likely_cause IS NOT NULL
+           GROUP BY likely_cause ORDER BY count DESC, likely_cause`,
+          params,
+        );
+        const losses = fights - wins;
+
+        const abilities = await client.query(
+          `SELECT fired.name, COUNT(DISTINCT b.id) AS fights, COUNT(*) AS triggers,
+             COUNT(DISTINCT b.id) FILTER (WHERE ${OUTCOME_SQL} = 'win') AS wins
+           FROM (SELECT * FROM battle_reports WHERE ${where}) b
+           CROSS JOIN LATERAL jsonb_array_elements(b.log->'rounds') AS log_round(value)
+           CROSS JOIN LATERAL jsonb_array_elements_text(log_round.value->'abilityTriggers') AS fired(name)
+           GROUP BY fired.name ORDER BY fights DESC, triggers DESC, fired.name
+           LIMIT ${MAX_ANALYTICS_ABILITIES}`,
+          params,
+        );
+
+        return {
+          fights,
+          wins,
+          losses,
+          winRate: fights > 0 ? ratio(wins, fights) : null,
+          ...buckets,
+          failureCauses: causes.rows.map((row) => {
+            const count = Number((row as Record<string, unknown>).count);
+            return { likelyCause: String((row as Record<string, unknown>).likely_cause), count, share: ratio(count, losses) };
+          }),
+          abilities: abilities.rows.map((row) => {
+            const record = row as Record<string, unknown>;
+            const abilityFights = Number(record.fights);
+            return {
+              name: String(record.name),
+              fights: abilityFights,
+              triggers: Number(record.triggers),
+              winRate: ratio(Number(record.wins), abilityFights),
+            };
+          }),
+        };
+      });
+    },
+
+    close() {
+    },
+  };
+}
+
+export async function createBattleReportStoreFactory(adminPool: Pool, runtimePool?: Pool): Promise<BattleReportStoreFactory> {
+  await initSchema(adminPool, SCHEMA_STATEMENTS);
+  const pool = runtimePool ?? adminPool;
+
+  return {
+    forUser(userId: string) {
+      return createScopedBattleReportStore(scopeFromPool(pool, userId), userId);
+    },
+    forContext(ctx: RequestContext) {
+      return createScopedBattleReportStore(scopeFromContext(ctx), ctx.identity.userId);
+    },
+  };
+}
@@ -0,0 +1,483 @@
+/**
+ * chat-surface-store.ts — Chat Surface Store
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * External messaging bots ("chat surfaces", e.g. an alliance Discord bot)
+ * that relay their users' messages to Aria, the platform accounts linked
+ * to Majel users, and the replies owed back to each bot.
+ *
+ * Tables:
+ *   chat_surfaces           — one row per bot: callback URL + shared signing secret
+ *   chat_surface_links      — platform user ↔ Majel user, per surface
+ *   chat_surface_link_codes — one-time codes a Majel user sends through the bot to link
+ *   chat_surface_replies    — chat runs started from a surface; doubles as the reply queue
+ *
+ * The signing secret ("cssec_…") is kept in clear because inbound requests
+ * are verified and outbound replies signed with it; it is shown once at
+ * creation or rotation. Link codes are stored as SHA-256 hashes. Replies
+ * are claimed once their chat run has finished, with FOR UPDATE SKIP
+ * LOCKED and a lease on next_attempt_at (services/chat-surfaces.ts sends
+ * them).
+ */
+
+import { createHash, randomBytes, randomInt } from "node:crypto";
+import { initSchema, withTransaction, type Pool } from "../db.js";
+import { log } from "../logger.js";
+
+// ─── Constants ──────────────────────────────────────────────────
+
+export const SURFACE_SECRET_PREFIX = "cssec_";
+
+/** Secret length in bytes (24 bytes = 32 base64url chars). */
+const SECRET_BYTES = 24;
+
+/** Characters of the secret kept for display so Admirals can tell secrets apart. */
+const DISPLAY_PREFIX_LENGTH = SURFACE_SECRET_PREFIX.length + 6;
+
+/** Link codes avoid look-alike characters (0/O, 1/I/L) — they are typed by hand. */
+const LINK_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const LINK_CODE_LENGTH = 8;
+
+/** How long a link code can be redeemed. */
+export const LINK_CODE_TTL_MINUTES = 10;
+
+/** How long a claimed reply is hidden from other claimers while it is sent. */
+const CLAIM_LEASE_SECONDS = 60;
+
+export type SurfaceKind = "webhook";
+export type SurfaceReplyStatus = "pending" | "sent" | "failed";
+
+// ─── Schema ─────────────────────────────────────────────────────
+
+const SCHEMA_STATEMENTS = [
+  `CREATE TABLE IF NOT EXISTS chat_surfaces (
+    id             BIGSERIAL PRIMARY KEY,
+    kind           TEXT NOT NULL DEFAULT 'webhook' CHECK (kind IN ('webhook')),
+    name           TEXT NOT NULL,
+    callback_url   TEXT NOT NULL,
+    secret         TEXT NOT NULL,
+    enabled        BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by     TEXT NOT NULL,
+    created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+
+  `CREATE TABLE IF NOT EXISTS chat_surface_links (
+    surface_id        BIGINT NOT NULL REFERENCES chat_surfaces(id) ON DELETE CASCADE,
+    platform_user_id  TEXT NOT NULL,
+    platform_username TEXT,
+    user_id           TEXT NOT NULL,
+    linked_at         TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_message_at   TIMESTAMPTZ,
+    PRIMARY KEY (surface_id, platform_user_id)
+  )`,
+
+  `CREATE INDEX IF NOT EXISTS idx_chat_surface_links_user ON chat_surface_links (user_id)`,
+
+  `CREATE TABLE IF NOT EXISTS chat_surface_link_codes (
+    code_hash      TEXT PRIMARY KEY,
+    surface_id     BIGINT NOT NULL REFERENCES chat_surfaces(id) ON DELETE CASCADE,
+    user_id        TEXT NOT NULL,
+    expires_at     TIMESTAMPTZ NOT NULL,
+    UNIQUE (surface_id, user_id)
+  )`,
+
+  `CREATE TABLE IF NOT EXISTS chat_surface_replies (
+    run_id           TEXT PRIMARY KEY,
+    surface_id       BIGINT NOT NULL REFERENCES chat_surfaces(id) ON DELETE CASCADE,
+    user_id          TEXT NOT NULL,
+    platform_user_id TEXT NOT NULL,
+    conversation_id  TEXT NOT NULL,
+    reply_to         TEXT,
+    status           TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    attempts         INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    error            TEXT,
+    created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    sent_at          TIMESTAMPTZ
+  )`,
+
+  `CREATE INDEX IF NOT EXISTS idx_chat_surface_replies_due ON chat_surface_replies (next_attempt_at) WHERE status = 'pending'`,
+];
+
+// ─── SQL ────────────────────────────────────────────────────────
+
+const SURFACE_COLS = `s.*, (SELECT COUNT(*) FROM chat_surface_links l WHERE l.surface_id = s.id) AS link_count`;
+
+const SQL = {
+  insert: `INSERT INTO chat_surfaces (name, callback_url, secret, created_by)
+    VALUES ($1, $2, $3, $4) RETURNING *, 0 AS link_count`,
+  list: `SELECT ${SURFACE_COLS} FROM chat_surfaces s ORDER BY s.created_at ASC, s.id ASC`,
+  get: `SELECT ${SURFACE_COLS} FROM chat_surfaces s WHERE s.id = $1`,
+  update: `UPDATE chat_surfaces s SET
+      name = COALESCE($2, name),
+      callback_url = COALESCE($3, callback_url),
+      enabled = COALESCE($4, enabled),
+      updated_at = NOW()
+    WHERE s.id = $1 RETURNING ${SURFACE_COLS}`,
+  rotateSecret: `UPDATE chat_surfaces SET secret = $2, updated_at = NOW() WHERE id = $1`,
+  delete: `DELETE FROM chat_surfaces WHERE id = $1`,
+  upsertCode: `INSERT INTO chat_surface_link_codes (code_hash, surface_id, user_id, expires_at)
+    VALUES ($1, $2, $3, NOW() + make_interval(mins => ${LINK_CODE_TTL_MINUTES}))
+    ON CONFLICT (surface_id, user_id) DO UPDATE SET code_hash = EXCLUDED.code_hash, expires_at = EXCLUDED.expires_at
+    RETURNING expires_at`,
+  takeCode: `DELETE FROM chat_surface_link_codes
+    WHERE code_hash = $1 AND surface_id = $2 AND expires_at > NOW() RETURNING user_id`,
+  upsertLink: `INSERT INTO chat_surface_links (surface_id, platform_user_id, platform_username, user_id)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (surface_id, platform_user_id) DO UPDATE SET
+      platform_username = EXCLUDED.platform_username, user_id = EXCLUDED.user_id, linked_at = NOW()
+    RETURNING *`,
+  getLink: `SELECT * FROM chat_surface_links WHERE surface_id = $1 AND platform_user_id = $2`,
+  touchLink: `UPDATE chat_surface_links SET last_message_at = NOW(),
+      platform_username = COALESCE($3, platform_username)
+    WHERE surface_id = $1 AND platform_user_id = $2`,
+  listLinksForUser: `SELECT l.*, s.name AS surface_name FROM chat_surface_links l
+    JOIN chat_surfaces s ON s.id = l.surface_id
+    WHERE l.user_id = $1 ORDER BY l.linked_at DESC`,
+  deleteLink: `DELETE FROM chat_surface_links WHERE surface_id = $1 AND platform_user_id = $2`,
+  deleteOwnLink: `DELETE FROM chat_surface_links WHERE surface_id = $1 AND platform_user_id = $2 AND user_id = $3`,
+  trackReply: `INSERT INTO chat_surface_replies (run_id, surface_id, user_id, platform_user_id, conversation_id, reply_to)
+    VALUES ($1, $2, $3, $4, $5, $6)`,
+  claimReplies: `WITH due AS (
+      SELECT r.run_id FROM chat_surface_replies r
+      JOIN chat_surfaces s ON s.id = r.surface_id AND s.enabled
+      JOIN chat_runs c ON c.id = r.run_id AND c.status NOT IN ('queued', 'running')
+      WHERE r.status = 'pending' AND r.next_attempt_at <= NOW()
+      ORDER BY r.next_attempt_at ASC, r.created_at ASC
+      LIMIT $1
+      FOR UPDATE OF r SKIP LOCKED
+    )
+    UPDATE chat_surface_replies r
+    SET next_attempt_at = NOW() + make_interval(secs => ${CLAIM_LEASE_SECONDS})
+    FROM due, chat_surfaces s, chat_runs c
+    WHERE r.run_id = due.run_id AND s.id = r.surface_id AND c.id = r.run_id
+    RETURNING r.*, s.kind AS surface_kind, s.callback_url, s.secret, c.status AS run_status`,
+  recordReply: `UPDATE chat_surface_replies SET
+      status = $2,
+      attempts = attempts + 1,
+      next_attempt_at = COALESCE($3, next_attempt_at),
+      error = $4,
+      sent_at = CASE WHEN $2 = 'sent' THEN NOW() ELSE sent_at END
+    WHERE run_id = $1 RETURNING *`,
+  purgeReplies: `DELETE FROM chat_surface_replies WHERE created_at < NOW() - $1::INTERVAL`,
+  purgeCodes: `DELETE FROM chat_surface_link_codes WHERE expires_at < NOW()`,
+};
+
+// ─── Types ──────────────────────────────────────────────────────
+
+export interface ChatSurface {
+  id: number;
+  kind: SurfaceKind;
+  name: string;
+  /** Where replies are POSTed. */
+  callbackUrl: string;
+  /** First characters of the signing secret, e.g. "cssec_a1B2c3". */
+  secretPrefix: string;
+  enabled: boolean;
+  createdBy: string;
+  linkCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateSurfaceInput {
+  name: string;
+  callbackUrl: string;
+}
+
+export interface UpdateSurfaceInput {
+  name?: string;
+  callbackUrl?: string;
+  enabled?: boolean;
+}
+
+export interface CreatedSurface {
+  surface: ChatSurface;
+  /** The signing secret — shown once. */
+  secret: string;
+}
+
+export interface ChatSurfaceLink {
+  surfaceId: number;
+  platformUserId: string;
+  platformUsername: string | null;
+  userId: string;
+  linkedAt: string;
+  lastMessageAt: string | null;
+}
+
+export interface UserSurfaceLink extends ChatSurfaceLink {
+  surfaceName: string;
+}
+
+export interface PlatformUser {
+  id: string;
+  username?: string | null;
+}
+
+/** Where the answer to a surface-started chat run goes. */
+export interface TrackReplyInput {
+  runId: string;
+  surfaceId: number;
+  userId: string;
+  platformUserId: string;
+  conversationId: string;
+  /** Platform message the reply answers, when the bot sent one. */
+  replyTo?: string | null;
+}
+
+export interface SurfaceReply extends Required<TrackReplyInput> {
+  status: SurfaceReplyStatus;
+  attempts: number;
+  error: string | null;
+  createdAt: string;
+  sentAt: string | null;
+}
+
+/** A reply claimed for sending: its run has finished. */
+export interface ClaimedReply extends SurfaceReply {
+  surfaceKind: SurfaceKind;
+  callbackUrl: string;
+  secret: string;
+  runStatus: string;
+}
+
+/** Outcome of one send. nextAttemptAt null + ok false = give up. */
+export interface ReplyAttempt {
+  ok: boolean;
+  nextAttemptAt: Date | null;
+  error: string | null;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+function toIso(value: unknown): string | null {
+  if (value == null) return null;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function newSecret(): string {
+  return SURFACE_SECRET_PREFIX + randomBytes(SECRET_BYTES).toString("base64url");
+}
+
+/** Upper-case and drop separators, so "abcd-efgh" redeems "ABCDEFGH". */
+export function normalizeLinkCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+function hashLinkCode(code: string): string {
+  return createHash("sha256").update(normalizeLinkCode(code)).digest("hex");
+}
+
+function newLinkCode(): string {
+  let code = "";
+  for (let i = 0; i < LINK_CODE_LENGTH; i += 1) {
+    code += LINK_CODE_ALPHABET[randomInt(LINK_CODE_ALPHABET.length)];
+  }
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+function rowToSurface(row: Record<string, unknown>): ChatSurface {
+  return {
+    id: Number(row.id),
+    kind: row.kind as SurfaceKind,
+    name: row.name as string,
+    callbackUrl: row.callback_url as string,
+    secretPrefix: (row.secret as string).slice(0, DISPLAY_PREFIX_LENGTH),
+    enabled: row.enabled as boolean,
+    createdBy: row.created_by as string,
+    linkCount: Number(row.link_count ?? 0),
+    createdAt: toIso(row.created_at)!,
+    updatedAt: toIso(row.updated_at)!,
+  };
+}
+
+function rowToLink(row: Record<string, unknown>): ChatSurfaceLink {
+  return {
+    surfaceId: Number(row.surface_id),
+    platformUserId: row.platform_user_id as string,
+    platformUsername: (row.platform_username as string | null) ?? null,
+    userId: row.user_id as string,
+    linkedAt: toIso(row.linked_at)!,
+    lastMessageAt: toIso(row.last_message_at),
+  };
+}
+
+function rowToReply(row: Record<string, unknown>): SurfaceReply {
+  return {
+    runId: row.run_id as string,
+    surfaceId: Number(row.surface_id),
+    userId: row.user_id as string,
+    platformUserId: row.platform_user_id as string,
+    conversationId: row.conversation_id as string,
+    replyTo: (row.reply_to as string | null) ?? null,
+    status: row.status as SurfaceReplyStatus,
+    attempts: Number(row.attempts),
+    error: (row.error as string | null) ?? null,
+    createdAt: toIso(row.created_at)!,
+    sentAt: toIso(row.sent_at),
+  };
+}
+
+// ─── Store Interface ────────────────────────────────────────────
+
+export interface ChatSurfaceStore {
+  createSurface(createdBy: string, input: CreateSurfaceInput): Promise<CreatedSurface>;
+  listSurfaces(): Promise<ChatSurface[]>;
+  getSurface(id: number): Promise<ChatSurface | null>;
+  /** A surface with its signing secret, for verifying inbound requests. */
+  getSurfaceWithSecret(id: number): Promise<{ surface: ChatSurface; secret: string } | null>;
+  updateSurface(id: number, input: UpdateSurfaceInput): Promise<ChatSurface | null>;
+  /** Replace the signing secret. Returns the new secret, or null when the surface is gone. */
+  rotateSecret(id: number): Promise<string | null>;
+  /** Delete a surface with its links, codes and queued replies. */
+  deleteSurface(id: number): Promise<boolean>;
+
+  /** Issue a link code for a user, replacing any earlier unredeemed one. */
+  createLinkCode(surfaceId: number, userId: string): Promise<{ code: string; expiresAt: string }>;
+  /** Redeem a link code: links the platform user to the code's owner. Null when invalid or expired. */
+  redeemLinkCode(surfaceId: number, code: string, platformUser: PlatformUser): Promise<ChatSurfaceLink | null>;
+  getLink(surfaceId: number, platformUserId: string): Promise<ChatSurfaceLink | null>;
+  touchLink(surfaceId: number, platformUser: PlatformUser): Promise<void>;
+  listLinksForUser(userId: string): Promise<UserSurfaceLink[]>;
+  /** Unlink a platform user. With userId, only that user's link is removed. */
+  deleteLink(surfaceId: number, platformUserId: string, userId?: string): Promise<boolean>;
+
+  trackReply(input: TrackReplyInput): Promise<void>;
+  /** Lease up to `limit` pending replies whose chat run has finished. */
+  claimReplies(limit: number): Promise<ClaimedReply[]>;
+  recordReply(runId: string, attempt: ReplyAttempt): Promise<SurfaceReply | null>;
+  /** Drop replies older than a PG interval (e.g. "7 days") and expired link codes. */
+  purgeOlderThan(interval: string): Promise<number>;
+  close(): void;
+}
+
+// ─── Factory ────────────────────────────────────────────────────
+
+export async function createChatSurfaceStore(adminPool: Pool, runtimePool?: Pool): Promise<ChatSurfaceStore> {
+  await initSchema(adminPool, SCHEMA_STATEMENTS);
+  const pool = runtimePool ?? adminPool;
+
+  log.fleet.debug("chat surface store initialized (pg)");
+
+  return {
+    async createSurface(createdBy, input) {
+      const secret = newSecret();
+      const res = await pool.query(SQL.insert, [input.name, input.callbackUrl, secret, createdBy]);
+      return { surface: rowToSurface(res.rows[0] as Record<string, unknown>), secret };
+    },
+
+    async listSurfaces() {
+      const res = await pool.query(SQL.list);
+      return (res.rows as Record<string, unknown>[]).map(rowToSurface);
+    },
+
+    async getSurface(id) {
+      const res = await pool.query(SQL.get, [id]);
+      const row = res.rows[0] as Record<string, unknown> | undefined;
+      return row ? rowToSurface(row) : null;
+    },
+
+    async getSurfaceWithSecret(id) {
+      const res = await pool.query(SQL.get, [id]);
+      const row = res.rows[0] as Record<string, unknown> | undefined;
+      return row ? { surface: rowToSurface(row), secret: row.secret as string } : null;
+    },
+
+    async updateSurface(id, input) {
+      const res = await pool.query(SQL.update, [
+        id, input.name ?? null, input.callbackUrl ?? null, input.enabled ?? null,
+      ]);
+      const row = res.rows[0] as Record<string, unknown> | undefined;
+      return row ? rowToSurface(row) : null;
+    },
+
+    async rotateSecret(id) {
+      const secret = newSecret();
+      const res = await pool.query(SQL.rotateSecret, [id, secret]);
+      return (res.rowCount ?? 0) > 0 ? secret : null;
+    },
+
+    async deleteSurface(id) {
+      const res = await pool.query(SQL.delete, [id]);
+      return (res.rowCount ?? 0) > 0;
+    },
+
+    async createLinkCode(surfaceId, userId) {
+      const code = newLinkCode();
+      const res = await pool.query(SQL.upsertCode, [hashLinkCode(code), surfaceId, userId]);
+      return { code, expiresAt: toIso((res.rows[0] as Record<string, unknown>).expires_at)! };
+    },
+
+    async redeemLinkCode(surfaceId, code, platformUser) {
+      return withTransaction(pool, async (client) => {
+        const taken = await client.query(SQL.takeCode, [hashLinkCode(code), surfaceId]);
+        const owner = (taken.rows[0] as { user_id: string } | undefined)?.user_id;
+        if (!owner) return null;
+        const res = await client.query(SQL.upsertLink, [surfaceId, platformUser.id, platformUser.username ?? null, owner]);
+        return rowToLink(res.rows[0] as Record<string, unknown>);
+      });
+    },
+
+    async getLink(surfaceId, platformUserId) {
+      const res = await pool.query(SQL.getLink, [surfaceId, platformUserId]);
+      const row = res.rows[0] as Record<string, unknown> | undefined;
+      return row ? rowToLink(row) : null;
+    },
+
+    async touchLink(surfaceId, platformUser) {
+      await pool.query(SQL.touchLink, [surfaceId, platformUser.id, platformUser.username ?? null]);
+    },
+
+    async listLinksForUser(userId) {
+      const res = await pool.query(SQL.listLinksForUser, [userId]);
+      return (res.rows as Record<string, unknown>[]).map((row) => ({
+        ...rowToLink(row),
+        surfaceName: row.surface_name as string,
+      }));
+    },
+
+    async deleteLink(surfaceId, platformUserId, userId) {
+      const res = userId === undefined
+        ? await pool.query(SQL.deleteLink, [surfaceId, platformUserId])
+        : await pool.query(SQL.deleteOwnLink, [surfaceId, platformUserId, userId]);
+      return (res.rowCount ?? 0) > 0;
+    },
+
+    async trackReply(input) {
+      await pool.query(SQL.trackReply, [
+        input.runId, input.surfaceId, input.userId, input.platformUserId, input.conversationId, input.replyTo ?? null,
+      ]);
+    },
+
+    async claimReplies(limit) {
+      const res = await pool.query(SQL.claimReplies, [limit]);
+      return (res.rows as Record<string, unknown>[]).map((row) => ({
+        ...rowToReply(row),
+        surfaceKind: row.surface_kind as SurfaceKind,
+        callbackUrl: row.callback_url as string,
+        secret: row.secret as string,
+        runStatus: row.run_status as string,
+      }));
+    },
+
+    async recordReply(runId, attempt) {
+      const status: SurfaceReplyStatus = attempt.ok ? "sent" : attempt.nextAttemptAt ? "pending" : "failed";
+      const res = await pool.query(SQL.recordReply, [runId, status, attempt.ok ? null : attempt.nextAttemptAt, attempt.error]);
+      const row = res.rows[0] as Record<string, unknown> | undefined;
+      return row ? rowToReply(row) : null;
+    },
+
+    async purgeOlderThan(interval) {
+      const replies = await pool.query(SQL.purgeReplies, [interval]);
+      const codes = await pool.query(SQL.purgeCodes);
+      return (replies.rowCount ?? 0) + (codes.rowCount ?? 0);
+    },
+
+    close() {
+      // Pool lifecycle managed externally
+    },
+  };
+}
@@ -13,6 +13,7 @@ import type {
   FleetPresetWithSlots,
   PlanItem,
   PlanSource,
+  PlanWindow,
   OfficerReservation,
 } from "../types/crew-types.js";
 import { DOCK_COLS, FP_COLS, FPS_COLS, PI_COLS, RES_COLS } from "./crew-store-schema.js";
@@ -182,13 +183,14 @@ export function createFleetMixin(scope: ScopeProvider, userId: string) {
     async createPlanItem(fields: {
       intentKey?: string; label?: string; loadoutId?: number; variantId?: number;
       dockNumber?: number; awayOfficers?: string[]; priority?: number;
-      isActive?: boolean; source?: PlanSource; notes?: string;
+      isActive?: boolean; source?: PlanSource; notes?: string; window?: PlanWindow | null;
+      shipInstanceId?: string | null;
     }): Promise<PlanItem> {
       return scope.write(async (client) => {
         const now = new Date().toISOString();
         const result = await client.query(
-          `INSERT INTO plan_items (user_id, intent_key, label, loadout_id, variant_id, dock_number, away_officers, priority, is_active, source, notes, created_at, updated_at)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13) RETURNING ${PI_COLS}`,
+          `INSERT INTO plan_items (user_id, intent_key, label, loadout_id, variant_id, dock_number, away_officers, priority, is_active, source, notes, time_window, ship_instance_id, created_at, updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15) RETURNING ${PI_COLS}`,
           [
             userId,
             fields.intentKey ?? null, fields.label ?? null,
@@ -197,6 +199,8 @@ export function createFleetMixin(scope: ScopeProvider, userId: string) {
             fields.awayOfficers ? JSON.stringify(fields.awayOfficers) : null,
             fields.priority ?? 0, fields.isActive ?? true,
             fields.source ?? "manual", fields.notes ?? null,
+            fields.window ? JSON.stringify(fields.window) : null,
+            fields.shipInstanceId ?? null,
             now, now,
           ],
         );
@@ -208,6 +212,7 @@ export function createFleetMixin(scope: ScopeProvider, userId: string) {
       intentKey?: string | null; label?: string; loadoutId?: number | null;
       variantId?: number | null; dockNumber?: number | null; awayOfficers?: string[] | null;
       priority?: number; isActive?: boolean; source?: PlanSource; notes?: string;
+      window?: PlanWindow | null; shipInstanceId?: string | null;
     }): Promise<PlanItem | null> {
       return scope.write(async (client) => {
         const setClauses: string[] = [];
@@ -226,6 +231,11 @@ export function createFleetMixin(scope: ScopeProvider, userId: string) {
         if (fields.isActive !== undefined) { setClauses.push(`is_active = $${idx++}`); params.push(fields.isActive); }
         if (fields.source !== undefined) { setClauses.push(`source = $${idx++}`); params.push(fields.source); }
         if (fields.notes !== undefined) { setClauses.push(`notes = $${idx++}`); params.push(fields.notes); }
+        if (fields.window !== undefined) {
+          setClauses.push(`time_window = $${idx++}`);
+          params.push(fields.window ? JSON.stringify(fields.window) : null);
+        }
+        if (fields.shipInstanceId !== undefined) { setClauses.push(`ship_instance_id = $${idx++}`); params.push(fields.shipInstanceId); }
         if (setClauses.length === 0) {
           const r = await client.query(`SELECT ${PI_COLS} FROM plan_items WHERE id = $1`, [id]);
           return (r.rows[0] as PlanItem) ?? null;
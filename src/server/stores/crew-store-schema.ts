@@ -180,6 +180,14 @@ export const SCHEMA_STATEMENTS = [
   `CREATE INDEX IF NOT EXISTS idx_plan_items_intent ON plan_items(intent_key)`,
   `CREATE INDEX IF NOT EXISTS idx_plan_items_active ON plan_items(is_active) WHERE is_active = TRUE`,
 
+  // ── L3d: Time windows ───────────────────────────────
+  `ALTER TABLE plan_items ADD COLUMN IF NOT EXISTS time_window JSONB`,
+
+  // ── L3e: Ship instances (ADR-051) ────────────────────
+  // Which owned copy of the loadout's ship sits in the dock. No FK — the
+  // overlay row lives in another store; null means "any copy".
+  `ALTER TABLE plan_items ADD COLUMN IF NOT EXISTS ship_instance_id TEXT`,
+
   // ── L2e: Officer Reservations ────────────────────────
   `CREATE TABLE IF NOT EXISTS officer_reservations (
     user_id TEXT NOT NULL DEFAULT 'local',
@@ -241,6 +249,6 @@ export const FPS_COLS = `id, preset_id AS "presetId", dock_number AS "dockNumber
   label, priority, notes`;
 export const PI_COLS = `id, intent_key AS "intentKey", label, loadout_id AS "loadoutId",
   variant_id AS "variantId", dock_number AS "dockNumber", away_officers AS "awayOfficers",
-  priority, is_active AS "isActive", source, notes,
-  created_at AS "createdAt", updated_at AS "updatedAt"`;
+  priority, is_active AS "isActive", source, notes, time_window AS "window",
+  ship_instance_id AS "shipInstanceId", created_at AS "createdAt", updated_at AS "updatedAt"`;
 export const RES_COLS = `officer_id AS "officerId", reserved_for AS "reservedFor", locked, notes, created_at AS "createdAt"`;
@@ -50,6 +50,7 @@ import type {
   FleetPresetWithSlots,
   PlanItem,
   PlanSource,
+  PlanWindow,
   OfficerReservation,
   ResolvedLoadout,
   OfficerConflict,
@@ -63,13 +64,14 @@ import { resolveLoadout, resolveLoadouts, validatePatch } from "./crew-store-hel
 import { createBridgeMixin } from "./crew-store-bridge.js";
 import { createLoadoutMixin } from "./crew-store-loadout.js";
 import { createFleetMixin } from "./crew-store-fleet.js";
+import { isWindowOpen } from "../services/plan-windows.js";
 
 export type {
   BridgeCore, BridgeCoreMember, BridgeCoreWithMembers,
   BelowDeckPolicy, BelowDeckPolicySpec,
   Loadout, LoadoutWithRefs, LoadoutVariant, VariantPatch,
   Dock, FleetPreset, FleetPresetSlot, FleetPresetWithSlots,
-  PlanItem, OfficerReservation,
+  PlanItem, PlanWindow, OfficerReservation,
   ResolvedLoadout, OfficerConflict, EffectiveDockState,
   CrewStore, CrewStoreFactory,
 };
@@ -138,12 +140,14 @@ interface CrewStore {
   createPlanItem(fields: {
     intentKey?: string; label?: string; loadoutId?: number; variantId?: number;
     dockNumber?: number; awayOfficers?: string[]; priority?: number;
-    isActive?: boolean; source?: PlanSource; notes?: string;
+    isActive?: boolean; source?: PlanSource; notes?: string; window?: PlanWindow | null;
+    shipInstanceId?: string | null;
   }): Promise<PlanItem>;
   updatePlanItem(id: number, fields: {
     intentKey?: string | null; label?: string; loadoutId?: number | null;
     variantId?: number | null; dockNumber?: number | null; awayOfficers?: string[] | null;
     priority?: number; isActive?: boolean; source?: PlanSource; notes?: string;
+    window?: PlanWindow | null; shipInstanceId?: string | null;
   }): Promise<PlanItem | null>;
   deletePlanItem(id: number): Promise<boolean>;
 
@@ -247,8 +251,10 @@ function createScopedCrewStore(scope: ScopeProvider, userId: string): CrewStore
     },
 
     async getEffectiveDockState() {
-      // 1. Get all active plan items, ordered by priority
-      const planItems = await store.listPlanItems({ active: true });
+      // 1. Get active plan items whose time window is open now, ordered by priority
+      const now = new Date();
+      const planItems = (await store.listPlanItems({ active: true }))
+        .filter((item) => isWindowOpen(item.window, now));
 
       // 2. Batch-resolve all direct loadout IDs (avoids N+1 per-item queries)
       const directLoadoutIds: number[] = [];
@@ -296,6 +302,7 @@ function createScopedCrewStore(scope: ScopeProvider, userId: string): CrewStore
           variantPatch,
           intentKeys: item.intentKey ? [item.intentKey] : (loadout?.intentKeys ?? []),
           source: item.source as PlanSource,
+          shipInstanceId: item.shipInstanceId ?? null,
         });
       }
 
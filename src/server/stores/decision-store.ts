@@ -0,0 +1,301 @@
+/**
+ * decision-store.ts — Per-User Fleet Decision Store
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * Explicit decisions and standing preferences the Admiral has stated
+ * ("I'm saving latinum for the Vi'Dar", "never put Khan on mining").
+ * Aria records them with the record_decision fleet tool; the Admiral
+ * lists and edits them in settings. Active decisions are injected into
+ * every chat turn by the MicroRunner's ContextGate.
+ *
+ * A decision may name the officer or ship it is about and the overlay
+ * state it takes for granted (e.g. the Vi'Dar is not owned yet). When a
+ * newer overlay contradicts that, services/decision-memory.ts marks the
+ * decision invalidated instead of letting Aria act on stale intent.
+ *
+ * RLS scoped like the other per-user stores (#85).
+ */
+
+import { initSchema, type Pool } from "../db.js";
+import { log } from "../logger.js";
+import type { RequestContext, ScopeProvider } from "../request-context.js";
+import { scopeFromContext, scopeFromPool } from "../request-context.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+/**
+ * goal   — something the Admiral is working towards
+ * saving — a resource being held back for something
+ * prefer — a standing preference
+ * avoid  — something never to suggest
+ */
+export type DecisionKind = "goal" | "saving" | "prefer" | "avoid";
+export const VALID_DECISION_KINDS: DecisionKind[] = ["goal", "saving", "prefer", "avoid"];
+
+export type DecisionStatus = "active" | "invalidated";
+export const VALID_DECISION_STATUSES: DecisionStatus[] = ["active", "invalidated"];
+
+export type DecisionSubjectType = "officer" | "ship";
+export type DecisionSource = "chat" | "manual";
+
+export const MAX_DECISIONS_PER_USER = 100;
+export const MAX_STATEMENT_LENGTH = 300;
+
+export interface FleetDecision {
+  id: number;
+  kind: DecisionKind;
+  /** The decision as a short sentence, e.g. "Saving latinum for the Vi'Dar" */
+  statement: string;
+  subjectType: DecisionSubjectType | null;
+  /** Reference catalog ID of the officer or ship the decision is about */
+  subjectRefId: string | null;
+  subjectName: string | null;
+  /** Ownership of the subject this decision assumes (null = no assumption) */
+  assumesOwnership: "owned" | "unowned" | null;
+  /** Target flag of the subject this decision assumes (null = no assumption) */
+  assumesTarget: boolean | null;
+  status: DecisionStatus;
+  invalidatedReason: string | null;
+  invalidatedAt: string | null;
+  source: DecisionSource;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateDecisionInput {
+  kind: DecisionKind;
+  statement: string;
+  subjectType?: DecisionSubjectType | null;
+  subjectRefId?: string | null;
+  subjectName?: string | null;
+  assumesOwnership?: "owned" | "unowned" | null;
+  assumesTarget?: boolean | null;
+  source?: DecisionSource;
+}
+
+/** Editable fields. Any edit re-affirms the decision: setting status "active" clears an invalidation. */
+export type UpdateDecisionInput = Partial<Omit<CreateDecisionInput, "source">> & {
+  status?: DecisionStatus;
+};
+
+/** Thrown when a user already has MAX_DECISIONS_PER_USER decisions. */
+export class DecisionLimitError extends Error {
+  constructor() {
+    super(`At most ${MAX_DECISIONS_PER_USER} decisions can be stored — delete some first`);
+    this.name = "DecisionLimitError";
+  }
+}
+
+export interface DecisionStore {
+  list(filters?: { status?: DecisionStatus }): Promise<FleetDecision[]>;
+  get(id: number): Promise<FleetDecision | null>;
+  create(input: CreateDecisionInput): Promise<FleetDecision>;
+  update(id: number, input: UpdateDecisionInput): Promise<FleetDecision | null>;
+  invalidate(id: number, reason: string): Promise<FleetDecision | null>;
+  delete(id: number): Promise<boolean>;
+  counts(): Promise<{ active: number; invalidated: number }>;
+  close(): void;
+}
+
+export interface DecisionStoreFactory {
+  forUser(userId: string): DecisionStore;
+  forContext(ctx: RequestContext): DecisionStore;
+}
+
+// ─── Schema ─────────────────────────────────────────────────
+
+const SCHEMA_STATEMENTS = [
+  `CREATE TABLE IF NOT EXISTS fleet_decisions (
+    id BIGSERIAL PRIMARY KEY,
+    user_id TEXT NOT NULL DEFAULT 'local',
+    kind TEXT NOT NULL CHECK (kind IN ('goal', 'saving', 'prefer', 'avoid')),
+    statement TEXT NOT NULL,
+    subject_type TEXT CHECK (subject_type IN ('officer', 'ship')),
+    subject_ref_id TEXT,
+    subject_name TEXT,
+    assumes_ownership TEXT CHECK (assumes_ownership IN ('owned', 'unowned')),
+    assumes_target BOOLEAN,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'invalidated')),
+    invalidated_reason TEXT,
+    invalidated_at TIMESTAMPTZ,
+    source TEXT NOT NULL DEFAULT 'chat',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_fleet_decisions_user ON fleet_decisions(user_id, status)`,
+  `ALTER TABLE fleet_decisions ENABLE ROW LEVEL SECURITY`,
+  `ALTER TABLE fleet_decisions FORCE ROW LEVEL SECURITY`,
+  `DO $$ BEGIN
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_policies
+      WHERE tablename = 'fleet_decisions' AND policyname = 'fleet_decisions_user_isolation'
+    ) THEN
+      CREATE POLICY fleet_decisions_user_isolation ON fleet_decisions
+        USING (user_id = current_setting('app.current_user_id', true))
+        WITH CHECK (user_id = current_setting('app.current_user_id', true));
+    END IF;
+  END $$`,
+];
+
+const COLS = `id, kind, statement, subject_type, subject_ref_id, subject_name,
+  assumes_ownership, assumes_target, status, invalidated_reason, invalidated_at,
+  source, created_at, updated_at`;
+
+const SQL = {
+  list: `SELECT ${COLS} FROM fleet_decisions
+    WHERE user_id = $1 AND ($2::text IS NULL OR status = $2)
+    ORDER BY status ASC, updated_at DESC, id DESC`,
+  get: `SELECT ${COLS} FROM fleet_decisions WHERE user_id = $1 AND id = $2`,
+  count: `SELECT COUNT(*) AS count FROM fleet_decisions WHERE user_id = $1`,
+  insert: `INSERT INTO fleet_decisions (
+      user_id, kind, statement, subject_type, subject_ref_id, subject_name,
+      assumes_ownership, assumes_target, source
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    RETURNING ${COLS}`,
+  update: `UPDATE fleet_decisions SET
+      kind = $3, statement = $4, subject_type = $5, subject_ref_id = $6, subject_name = $7,
+      assumes_ownership = $8, assumes_target = $9, status = $10,
+      invalidated_reason = CASE WHEN $10 = 'active' THEN NULL ELSE invalidated_reason END,
+      invalidated_at = CASE WHEN $10 = 'active' THEN NULL ELSE invalidated_at END,
+      updated_at = NOW()
+    WHERE user_id = $1 AND id = $2
+    RETURNING ${COLS}`,
+  invalidate: `UPDATE fleet_decisions SET
+      status = 'invalidated', invalidated_reason = $3, invalidated_at = NOW()
+    WHERE user_id = $1 AND id = $2 AND status = 'active'
+    RETURNING ${COLS}`,
+  delete: `DELETE FROM fleet_decisions WHERE user_id = $1 AND id = $2`,
+  counts: `SELECT
+      COUNT(*) FILTER (WHERE status = 'active') AS active,
+      COUNT(*) FILTER (WHERE status = 'invalidated') AS invalidated
+    FROM fleet_decisions WHERE user_id = $1`,
+};
+
+function toIso(value: unknown): string {
+  return new Date(String(value)).toISOString();
+}
+
+function mapDecisionRow(row: Record<string, unknown>): FleetDecision {
+  return {
+    id: Number(row.id),
+    kind: String(row.kind) as DecisionKind,
+    statement: String(row.statement),
+    subjectType: row.subject_type == null ? null : String(row.subject_type) as DecisionSubjectType,
+    subjectRefId: row.subject_ref_id == null ? null : String(row.subject_ref_id),
+    subjectName: row.subject_name == null ? null : String(row.subject_name),
+    assumesOwnership: row.assumes_ownership == null ? null : String(row.assumes_ownership) as "owned" | "unowned",
+    assumesTarget: row.assumes_target == null ? null : Boolean(row.assumes_target),
+    status: String(row.status) as DecisionStatus,
+    invalidatedReason: row.invalidated_reason == null ? null : String(row.invalidated_reason),
+    invalidatedAt: row.invalidated_at == null ? null : toIso(row.invalidated_at),
+    source: String(row.source) as DecisionSource,
+    createdAt: toIso(row.created_at),
+    updatedAt: toIso(row.updated_at),
+  };
+}
+
+/** A decision without a subject cannot carry overlay assumptions. */
+function normalizeSubject(input: CreateDecisionInput): CreateDecisionInput {
+  const hasSubject = !!input.subjectType && !!input.subjectRefId;
+  return {
+    ...input,
+    statement: input.statement.trim().slice(0, MAX_STATEMENT_LENGTH),
+    subjectType: hasSubject ? input.subjectType : null,
+    subjectRefId: hasSubject ? input.subjectRefId : null,
+    subjectName: hasSubject ? input.subjectName ?? null : null,
+    assumesOwnership: hasSubject ? input.assumesOwnership ?? null : null,
+    assumesTarget: hasSubject ? input.assumesTarget ?? null : null,
+  };
+}
+
+// ─── Store ──────────────────────────────────────────────────
+
+function createScopedDecisionStore(scope: ScopeProvider, userId: string): DecisionStore {
+  return {
+    async list(filters) {
+      return scope.read(async (client) => {
+        const result = await client.query(SQL.list, [userId, filters?.status ?? null]);
+        return result.rows.map((row) => mapDecisionRow(row as Record<string, unknown>));
+      });
+    },
+
+    async get(id) {
+      return scope.read(async (client) => {
+        const result = await client.query(SQL.get, [userId, id]);
+        return result.rows[0] ? mapDecisionRow(result.rows[0] as Record<string, unknown>) : null;
+      });
+    },
+
+    async create(input) {
+      const d = normalizeSubject(input);
+      return scope.write(async (client) => {
+        const { rows: [{ count }] } = await client.query(SQL.count, [userId]);
+        if (Number(count) >= MAX_DECISIONS_PER_USER) throw new DecisionLimitError();
+
+        const result = await client.query(SQL.insert, [
+          userId, d.kind, d.statement, d.subjectType, d.subjectRefId, d.subjectName,
+          d.assumesOwnership, d.assumesTarget, d.source ?? "chat",
+        ]);
+        const decision = mapDecisionRow(result.rows[0] as Record<string, unknown>);
+        log.fleet.info({ userId, decisionId: decision.id, kind: decision.kind, source: decision.source }, "decision recorded");
+        return decision;
+      });
+    },
+
+    async update(id, input) {
+      return scope.write(async (client) => {
+        const existing = await client.query(SQL.get, [userId, id]);
+        if (!existing.rows[0]) return null;
+        const current = mapDecisionRow(existing.rows[0] as Record<string, unknown>);
+        const d = normalizeSubject({ ...current, ...input });
+        const result = await client.query(SQL.update, [
+          userId, id, d.kind, d.statement, d.subjectType, d.subjectRefId, d.subjectName,
+          d.assumesOwnership, d.assumesTarget, input.status ?? current.status,
+        ]);
+        return mapDecisionRow(result.rows[0] as Record<string, unknown>);
+      });
+    },
+
+    async invalidate(id, reason) {
+      return scope.write(async (client) => {
+        const result = await client.query(SQL.invalidate, [userId, id, reason]);
+        if (!result.rows[0]) return null;
+        log.fleet.info({ userId, decisionId: id, reason }, "decision invalidated");
+        return mapDecisionRow(result.rows[0] as Record<string, unknown>);
+      });
+    },
+
+    async delete(id) {
+      return scope.write(async (client) => {
+        const result = await client.query(SQL.delete, [userId, id]);
+        return (result.rowCount ?? 0) > 0;
+      });
+    },
+
+    async counts() {
+      return scope.read(async (client) => {
+        const result = await client.query(SQL.counts, [userId]);
+        const row = result.rows[0] as { active: string | number; invalidated: string | number };
+        return { active: Number(row.active), invalidated: Number(row.invalidated) };
+      });
+    },
+
+    close() {
+    },
+  };
+}
+
+export async function createDecisionStoreFactory(adminPool: Pool, runtimePool?: Pool): Promise<DecisionStoreFactory> {
+  await initSchema(adminPool, SCHEMA_STATEMENTS);
+  const pool = runtimePool ?? adminPool;
+
+  return {
+    forUser(userId: string) {
+      return createScopedDecisionStore(scopeFromPool(pool, userId), userId);
+    },
+    forContext(ctx: RequestContext) {
+      return createScopedDecisionStore(scopeFromContext(ctx), ctx.identity.userId);
+    },
+  };
+}
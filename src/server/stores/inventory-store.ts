@@ -5,6 +5,11 @@
  *
  * Tracks user inventory resources (ore, gas, crystal, parts, currency, blueprints)
  * with RLS scoping and category-based reads for planning tools.
+ *
+ * Every upsert also appends a timestamped row to inventory_snapshots, so
+ * income rates can be derived from how quantities move over time
+ * (see services/inventory-forecast.ts). Snapshots older than
+ * SNAPSHOT_RETENTION_DAYS are pruned on write.
  */
 
 import { initSchema, type Pool } from "../db.js";
@@ -40,6 +45,23 @@ export interface InventoryItemRecord {
   updatedAt: string;
 }
 
+/** One recorded quantity for an item at a point in time. */
+export interface InventorySnapshotRecord {
+  category: InventoryCategory;
+  name: string;
+  grade: string | null;
+  quantity: number;
+  source: string | null;
+  capturedAt: string;
+}
+
+export interface InventoryHistoryFilters {
+  /** Restrict to one item (inventory_items.id). */
+  itemId?: number;
+  /** ISO timestamp; only snapshots captured at or after it. */
+  since?: string;
+}
+
 export interface InventoryCategoryView {
   category: InventoryCategory;
   items: InventoryItemRecord[];
@@ -53,6 +75,9 @@ export interface InventoryStore {
   upsertItems(input: UpsertInventoryInput): Promise<{ upserted: number; categories: number }>;
   listItems(filters?: { category?: InventoryCategory; q?: string }): Promise<InventoryItemRecord[]>;
   listByCategory(filters?: { category?: InventoryCategory; q?: string }): Promise<InventoryCategoryView[]>;
+  getItem(id: number): Promise<InventoryItemRecord | null>;
+  /** Snapshots oldest first. */
+  listHistory(filters?: InventoryHistoryFilters): Promise<InventorySnapshotRecord[]>;
   counts(): Promise<{ items: number; categories: number }>;
   close(): void;
 }
@@ -62,6 +87,9 @@ export interface InventoryStoreFactory {
   forContext(ctx: RequestContext): InventoryStore;
 }
 
+/** Snapshots older than this are pruned on the next upsert. */
+export const SNAPSHOT_RETENTION_DAYS = 365;
+
 const SCHEMA_STATEMENTS = [
   `CREATE TABLE IF NOT EXISTS inventory_items (
     id BIGSERIAL PRIMARY KEY,
@@ -93,6 +121,31 @@ const SCHEMA_STATEMENTS = [
         WITH CHECK (user_id = current_setting('app.current_user_id', true));
     END IF;
   END $$`,
+  `CREATE TABLE IF NOT EXISTS inventory_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    user_id TEXT NOT NULL DEFAULT 'local',
+    category TEXT NOT NULL,
+    name TEXT NOT NULL,
+    grade TEXT NOT NULL DEFAULT '',
+    quantity BIGINT NOT NULL CHECK (quantity >= 0),
+    source TEXT,
+    captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_inventory_snapshots_item
+    ON inventory_snapshots(user_id, category, name, grade, captured_at)`,
+  `CREATE INDEX IF NOT EXISTS idx_inventory_snapshots_captured ON inventory_snapshots(user_id, captured_at)`,
+  `ALTER TABLE inventory_snapshots ENABLE ROW LEVEL SECURITY`,
+  `ALTER TABLE inventory_snapshots FORCE ROW LEVEL SECURITY`,
+  `DO $$ BEGIN
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_policies
+      WHERE tablename = 'inventory_snapshots' AND policyname = 'inventory_snapshots_user_isolation'
+    ) THEN
+      CREATE POLICY inventory_snapshots_user_isolation ON inventory_snapshots
+        USING (user_id = current_setting('app.current_user_id', true))
+        WITH CHECK (user_id = current_setting('app.current_user_id', true));
+    END IF;
+  END $$`,
 ];
 
 const SQL = {
@@ -107,6 +160,26 @@ const SQL = {
       source = EXCLUDED.source,
       captured_at = EXCLUDED.captured_at,
       updated_at = NOW()`,
+  insertSnapshot: `INSERT INTO inventory_snapshots (
+      user_id, category, name, grade, quantity, source, captured_at
+    ) VALUES (
+      $1, $2, $3, $4, $5, $6, COALESCE($7::timestamptz, NOW())
+    )`,
+  pruneSnapshots: `DELETE FROM inventory_snapshots
+    WHERE user_id = $1 AND captured_at < NOW() - make_interval(days => $2)`,
+  getItem: `SELECT id, category, name, grade, quantity, unit, source, captured_at, updated_at
+    FROM inventory_items
+    WHERE user_id = $1 AND id = $2`,
+  listHistory: `SELECT s.category, s.name, s.grade, s.quantity, s.source, s.captured_at
+    FROM inventory_snapshots s
+    WHERE s.user_id = $1
+      AND ($2::bigint IS NULL OR EXISTS (
+        SELECT 1 FROM inventory_items i
+        WHERE i.id = $2 AND i.user_id = s.user_id
+          AND i.category = s.category AND i.name = s.name AND i.grade = s.grade
+      ))
+      AND ($3::timestamptz IS NULL OR s.captured_at >= $3::timestamptz)
+    ORDER BY s.captured_at ASC, s.id ASC`,
   listItems: `SELECT id, category, name, grade, quantity, unit, source, captured_at, updated_at
     FROM inventory_items
     WHERE user_id = $1
@@ -134,22 +207,46 @@ function mapInventoryRow(row: Record<string, unknown>): InventoryItemRecord {
   };
 }
 
+function mapSnapshotRow(row: Record<string, unknown>): InventorySnapshotRecord {
+  return {
+    category: String(row.category) as InventoryCategory,
+    name: String(row.name),
+    grade: row.grade == null || String(row.grade) === "" ? null : String(row.grade),
+    quantity: Number(row.quantity),
+    source: row.source == null ? null : String(row.source),
+    capturedAt: new Date(String(row.captured_at)).toISOString(),
+  };
+}
+
 function createScopedInventoryStore(scope: ScopeProvider, userId: string): InventoryStore {
   return {
     async upsertItems(input) {
       return scope.write(async (client) => {
         for (const item of input.items) {
+          const name = item.name.trim();
+          const grade = item.grade ?? "";
+          const quantity = Math.max(0, Math.floor(item.quantity));
           await client.query(SQL.upsertItem, [
             userId,
             item.category,
-            item.name.trim(),
-            item.grade ?? "",
-            Math.max(0, Math.floor(item.quantity)),
+            name,
+            grade,
+            quantity,
             item.unit,
             input.source,
             input.capturedAt,
           ]);
+          await client.query(SQL.insertSnapshot, [
+            userId,
+            item.category,
+            name,
+            grade,
+            quantity,
+            input.source,
+            input.capturedAt,
+          ]);
         }
+        await client.query(SQL.pruneSnapshots, [userId, SNAPSHOT_RETENTION_DAYS]);
 
         const categories = new Set(input.items.map((item) => item.category)).size;
         log.fleet.info({ userId, items: input.items.length, categories }, "inventory items upserted");
@@ -187,6 +284,20 @@ function createScopedInventoryStore(scope: ScopeProvider, userId: string): Inven
         }));
     },
 
+    async getItem(id) {
+      return scope.read(async (client) => {
+        const result = await client.query(SQL.getItem, [userId, id]);
+        return result.rows[0] ? mapInventoryRow(result.rows[0] as Record<string, unknown>) : null;
+      });
+    },
+
+    async listHistory(filters) {
+      return scope.read(async (client) => {
+        const result = await client.query(SQL.listHistory, [userId, filters?.itemId ?? null, filters?.since ?? null]);
+        return result.rows.map((row) => mapSnapshotRow(row as Record<string, unknown>));
+      });
+    },
+
     async counts() {
       return scope.read(async (client) => {
         const result = await client.query(SQL.counts, [userId]);
@@ -9,6 +9,9 @@ import type { RequestContext, ScopeProvider } from "../request-context.js";
 import { scopeFromContext, scopeFromPool } from "../request-context.js";
 
 const ALLOWED_TOPICS = new Set(["chat_run", "runner_job"]);
+
+/** LISTEN/NOTIFY channel announcing committed events (services/operation-stream.ts). */
+export const OPERATION_EVENT_CHANNEL = "majel_operation_events";
 const TOPIC_RE = /^[a-z0-9_]{2,40}$/;
 const OPERATION_ID_RE = /^[a-zA-Z0-9._:-]{2,120}$/;
 const ROUTING_ID_RE = /^[a-zA-Z0-9_-]{2,120}$/;
@@ -144,6 +147,20 @@ const SCHEMA_STATEMENTS = [
         WITH CHECK (user_id = current_setting('app.current_user_id', true));
     END IF;
   END $$`,
+  // Push delivery: announce each committed event so SSE streams need not poll
+  `CREATE OR REPLACE FUNCTION notify_operation_event() RETURNS TRIGGER AS $$
+  BEGIN
+    PERFORM pg_notify('${OPERATION_EVENT_CHANNEL}', json_build_object(
+      'kind', 'event', 'topic', NEW.topic, 'operationId', NEW.operation_id,
+      'userId', NEW.user_id, 'seq', NEW.seq, 'eventType', NEW.event_type
+    )::text);
+    RETURN NEW;
+  END;
+  $$ LANGUAGE plpgsql`,
+  `DROP TRIGGER IF EXISTS trg_operation_events_notify ON operation_events`,
+  `CREATE TRIGGER trg_operation_events_notify
+    AFTER INSERT ON operation_events
+    FOR EACH ROW EXECUTE FUNCTION notify_operation_event()`,
 ];
 
 const EVENT_COLS = `seq, topic, operation_id AS "operationId", user_id AS "userId",
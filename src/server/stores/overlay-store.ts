@@ -7,7 +7,7 @@
  * relationship to each entity: ownership state, targeting, level, rank.
  *
  * The reference data (abilities, rarity, group) lives in reference-store.ts.
- * This module stores ONLY user-specific state, keyed by (user_id, ref_id).
+ * This module stores ONLY user-specific state, keyed by (user_id, ref_id, instance_id).
  *
  * Design choices (from ADR-016):
  * - ownership_state is three-state: 'unknown' | 'owned' | 'unowned'
@@ -21,10 +21,16 @@
  * - Application-level user_id included in all INSERTs (belt-and-suspenders)
  * - OverlayStoreFactory produces user-scoped stores via forUser(userId)
  *
+ * Instances (ADR-051):
+ * - A player may own several copies of one ship/officer; each is a row with its
+ *   own instance_id. 'primary' is the default; extra copies are 'inst_<nanoid>'
+ * - Bulk ownership/target operations apply to every instance of a ref
+ *
  * Migrated from @libsql/client to PostgreSQL (pg) in ADR-018 Phase 3.
  * User isolation added in #85.
  */
 
+import { nanoid } from "nanoid";
 import { initSchema, type Pool } from "../db.js";
 import { log } from "../logger.js";
 import type { RequestContext, ScopeProvider } from "../request-context.js";
@@ -36,6 +42,24 @@ export type OwnershipState = "unknown" | "owned" | "unowned";
 
 export const VALID_OWNERSHIP_STATES: OwnershipState[] = ["unknown", "owned", "unowned"];
 
+/** Default instance — every ref has at most one, and it is never auto-deleted (ADR-051). */
+export const PRIMARY_INSTANCE_ID = "primary";
+export const MAX_INSTANCE_ID_LEN = 50;
+
+/** Generate an ID for an additional instance of a ref. */
+export function newInstanceId(): string {
+  return `inst_${nanoid()}`;
+}
+
+/**
+ * Resolve a caller-supplied instance ID: omitted → primary, "new" → generated.
+ * Any other value is used as-is (instance IDs are opaque).
+ */
+export function resolveInstanceId(instanceId: string | null | undefined): string {
+  if (!instanceId) return PRIMARY_INSTANCE_ID;
+  return instanceId === "new" ? newInstanceId() : instanceId;
+}
+
 export interface OfficerOverlay {
   refId: string;
   instanceId: string;
@@ -129,7 +153,8 @@ const SCHEMA_STATEMENTS = [
     target_note TEXT,
     target_priority INTEGER CHECK (target_priority >= 1 AND target_priority <= 3),
     updated_at TEXT NOT NULL,
-    PRIMARY KEY (user_id, ref_id)
+    instance_id TEXT NOT NULL DEFAULT 'primary',
+    PRIMARY KEY (user_id, ref_id, instance_id)
   )`,
   `CREATE INDEX IF NOT EXISTS idx_officer_overlay_state ON officer_overlay(ownership_state)`,
   `CREATE INDEX IF NOT EXISTS idx_officer_overlay_target ON officer_overlay(target) WHERE target = TRUE`,
@@ -146,7 +171,8 @@ const SCHEMA_STATEMENTS = [
     target_note TEXT,
     target_priority INTEGER CHECK (target_priority >= 1 AND target_priority <= 3),
     updated_at TEXT NOT NULL,
-    PRIMARY KEY (user_id, ref_id)
+    instance_id TEXT NOT NULL DEFAULT 'primary',
+    PRIMARY KEY (user_id, ref_id, instance_id)
   )`,
   `CREATE INDEX IF NOT EXISTS idx_ship_overlay_state ON ship_overlay(ownership_state)`,
   `CREATE INDEX IF NOT EXISTS idx_ship_overlay_target ON ship_overlay(target) WHERE target = TRUE`,
@@ -334,18 +360,15 @@ const SQL = {
   listShipInstances: `${SHIP_SELECT} WHERE ref_id = $1 ORDER BY instance_id`,
   deleteShipOverlay: `DELETE FROM ship_overlay WHERE ref_id = $1 AND instance_id = $2`,
 
-  bulkUpsertOfficerOwnership: `INSERT INTO officer_overlay (user_id, ref_id, instance_id, ownership_state, target, updated_at)
-    VALUES ($1, $2, 'primary', $3, FALSE, $4)
-    ON CONFLICT(user_id, ref_id, instance_id) DO UPDATE SET ownership_state = excluded.ownership_state, updated_at = excluded.updated_at`,
-  bulkUpsertShipOwnership: `INSERT INTO ship_overlay (user_id, ref_id, instance_id, ownership_state, target, updated_at)
-    VALUES ($1, $2, 'primary', $3, FALSE, $4)
-    ON CONFLICT(user_id, ref_id, instance_id) DO UPDATE SET ownership_state = excluded.ownership_state, updated_at = excluded.updated_at`,
-  bulkUpsertOfficerTarget: `INSERT INTO officer_overlay (user_id, ref_id, instance_id, ownership_state, target, updated_at)
-    VALUES ($1, $2, 'primary', 'unknown', $3, $4)
-    ON CONFLICT(user_id, ref_id, instance_id) DO UPDATE SET target = excluded.target, updated_at = excluded.updated_at`,
-  bulkUpsertShipTarget: `INSERT INTO ship_overlay (user_id, ref_id, instance_id, ownership_state, target, updated_at)
-    VALUES ($1, $2, 'primary', 'unknown', $3, $4)
-    ON CONFLICT(user_id, ref_id, instance_id) DO UPDATE SET target = excluded.target, updated_at = excluded.updated_at`,
+  // Bulk operations touch every instance of a ref; a ref with no rows gets a primary row
+  bulkUpdateOfficerOwnership: `UPDATE officer_overlay SET ownership_state = $2, updated_at = $3 WHERE ref_id = $1`,
+  bulkUpdateShipOwnership: `UPDATE ship_overlay SET ownership_state = $2, updated_at = $3 WHERE ref_id = $1`,
+  bulkUpdateOfficerTarget: `UPDATE officer_overlay SET target = $2, updated_at = $3 WHERE ref_id = $1`,
+  bulkUpdateShipTarget: `UPDATE ship_overlay SET target = $2, updated_at = $3 WHERE ref_id = $1`,
+  bulkInsertOfficer: `INSERT INTO officer_overlay (user_id, ref_id, instance_id, ownership_state, target, updated_at)
+    VALUES ($1, $2, 'primary', $3, $4, $5)`,
+  bulkInsertShip: `INSERT INTO ship_overlay (user_id, ref_id, instance_id, ownership_state, target, updated_at)
+    VALUES ($1, $2, 'primary', $3, $4, $5)`,
 
   countOfficers: `SELECT
     COUNT(*) AS total,
@@ -385,7 +408,7 @@ function createScopedOverlayStore(scope: ScopeProvider, userId: string): Overlay
     if (filters.ownershipState) { clauses.push(`ownership_state = $${paramIdx++}`); params.push(filters.ownershipState); }
     if (filters.target !== undefined) { clauses.push(`target = $${paramIdx++}`); params.push(filters.target); }
     const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
-    return { sql: `${OFFICER_SELECT} ${where} ORDER BY ref_id`, params };
+    return { sql: `${OFFICER_SELECT} ${where} ORDER BY ref_id, instance_id`, params };
   }
 
   function buildShipFilterQuery(filters: { ownershipState?: OwnershipState; target?: boolean }): { sql: string; params: (string | boolean)[] } {
@@ -395,11 +418,11 @@ function createScopedOverlayStore(scope: ScopeProvider, userId: string): Overlay
     if (filters.ownershipState) { clauses.push(`ownership_state = $${paramIdx++}`); params.push(filters.ownershipState); }
     if (filters.target !== undefined) { clauses.push(`target = $${paramIdx++}`); params.push(filters.target); }
     const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
-    return { sql: `${SHIP_SELECT} ${where} ORDER BY ref_id`, params };
+    return { sql: `${SHIP_SELECT} ${where} ORDER BY ref_id, instance_id`, params };
   }
 
   return {
-    async getOfficerOverlay(refId, instanceId = "primary") {
+    async getOfficerOverlay(refId, instanceId = PRIMARY_INSTANCE_ID) {
       return scope.read(async (client) => {
         const result = await client.query(SQL.getOfficerOverlay, [refId, instanceId]);
         const raw = result.rows[0] as RawOfficerOverlay | undefined;
@@ -410,7 +433,7 @@ function createScopedOverlayStore(scope: ScopeProvider, userId: string): Overlay
     async setOfficerOverlay(input) {
       return scope.write(async (client) => {
         const now = new Date().toISOString();
-        const instanceId = input.instanceId ?? "primary";
+        const instanceId = input.instanceId ?? PRIMARY_INSTANCE_ID;
         const existingRes = await client.query(SQL.getOfficerOverlay, [input.refId, instanceId]);
         const existing = existingRes.rows[0] as RawOfficerOverlay | undefined;
 
@@ -442,7 +465,7 @@ function createScopedOverlayStore(scope: ScopeProvider, userId: string): Overlay
       });
     },
 
-    async deleteOfficerOverlay(refId, instanceId = "primary") {
+    async deleteOfficerOverlay(refId, instanceId = PRIMARY_INSTANCE_ID) {
       return scope.write(async (client) => {
         const result = await client.query(SQL.deleteOfficerOverlay, [refId, instanceId]);
         return (result.rowCount ?? 0) > 0;
@@ -456,7 +479,7 @@ function createScopedOverlayStore(scope: ScopeProvider, userId: string): Overlay
       });
     },
 
-    async getShipOverlay(refId, instanceId = "primary") {
+    async getShipOverlay(refId, instanceId = PRIMARY_INSTANCE_ID) {
       return scope.read(async (client) => {
         const result = await client.query(SQL.getShipOverlay, [refId, instanceId]);
         const raw = result.rows[0] as RawShipOverlay | undefined;
@@ -467,7 +490,7 @@ function createScopedOverlayStore(scope: ScopeProvider, userId: string): Overlay
     async setShipOverlay(input) {
       return scope.write(async (client) => {
         const now = new Date().toISOString();
-        const instanceId = input.instanceId ?? "primary";
+        const instanceId = input.instanceId ?? PRIMARY_INSTANCE_ID;
         const existingRes = await client.query(SQL.getShipOverlay, [input.refId, instanceId]);
         const existing = existingRes.rows[0] as RawShipOverlay | undefined;
 
@@ -499,7 +522,7 @@ function createScopedOverlayStore(scope: ScopeProvider, userId: string): Overlay
       });
     },
 
-    async deleteShipOverlay(refId, instanceId = "primary") {
+    async deleteShipOverlay(refId, instanceId = PRIMARY_INSTANCE_ID) {
       return scope.write(async (client) => {
         const result = await client.query(SQL.deleteShipOverlay, [refId, instanceId]);
         return (result.rowCount ?? 0) > 0;
@@ -517,7 +540,8 @@ function createScopedOverlayStore(scope: ScopeProvider, userId: string): Overlay
       const now = new Date().toISOString();
       return scope.write(async (client) => {
         for (const refId of refIds) {
-          await client.query(SQL.bulkUpsertOfficerOwnership, [userId, refId, state, now]);
+          const updated = await client.query(SQL.bulkUpdateOfficerOwnership, [refId, state, now]);
+          if (!updated.rowCount) await client.query(SQL.bulkInsertOfficer, [userId, refId, state, false, now]);
         }
         log.fleet.info({ count: refIds.length, state, userId }, "bulk set officer ownership");
         return refIds.length;
@@ -528,7 +552,8 @@ function createScopedOverlayStore(scope: ScopeProvider, userId: string): Overlay
       const now = new Date().toISOString();
       return scope.write(async (client) => {
         for (const refId of refIds) {
-          await client.query(SQL.bulkUpsertShipOwnership, [userId, refId, state, now]);
+          const updated = await client.query(SQL.bulkUpdateShipOwnership, [refId, state, now]);
+          if (!updated.rowCount) await client.query(SQL.bulkInsertShip, [userId, refId, state, false, now]);
         }
         log.fleet.info({ count: refIds.length, state, userId }, "bulk set ship ownership");
         return refIds.length;
@@ -539,7 +564,8 @@ function createScopedOverlayStore(scope: ScopeProvider, userId: string): Overlay
       const now = new Date().toISOString();
       return scope.write(async (client) => {
         for (const refId of refIds) {
-          await client.query(SQL.bulkUpsertOfficerTarget, [userId, refId, target, now]);
+          const updated = await client.query(SQL.bulkUpdateOfficerTarget, [refId, target, now]);
+          if (!updated.rowCount) await client.query(SQL.bulkInsertOfficer, [userId, refId, "unknown", target, now]);
         }
         log.fleet.info({ count: refIds.length, target, userId }, "bulk set officer target");
         return refIds.length;
@@ -550,7 +576,8 @@ function createScopedOverlayStore(scope: ScopeProvider, userId: string): Overlay
       const now = new Date().toISOString();
       return scope.write(async (client) => {
         for (const refId of refIds) {
-          await client.query(SQL.bulkUpsertShipTarget, [userId, refId, target, now]);
+          const updated = await client.query(SQL.bulkUpdateShipTarget, [refId, target, now]);
+          if (!updated.rowCount) await client.query(SQL.bulkInsertShip, [userId, refId, "unknown", target, now]);
         }
         log.fleet.info({ count: refIds.length, target, userId }, "bulk set ship target");
         return refIds.length;
@@ -9,6 +9,8 @@
  * - tsvector GENERATED column + GIN index for full-text search
  * - Row-Level Security for multi-tenant isolation
  * - Shared pg.Pool (owned by the app, not the store)
+ * - Stored embeddings + ranked full-text search for semantic recall
+ *   (VectorFrameStore, services/semantic-recall.ts)
  *
  * @see docs/ADR-021-postgres-frame-store.md
  */
@@ -20,8 +22,8 @@ import {
 import { log } from "../logger.js";
 import type { QueryExecutor, RequestContext, ScopeProvider } from "../request-context.js";
 import { scopeFromContext, scopeFromPool } from "../request-context.js";
+import { cosineSimilarity, type ScoredFrame, type VectorFrameStore } from "../services/semantic-recall.js";
 import type {
-  FrameStore,
   FrameSearchCriteria,
   FrameListOptions,
   FrameListResult,
@@ -89,8 +91,22 @@ const SCHEMA_STATEMENTS = [
   `CREATE INDEX IF NOT EXISTS idx_lex_frames_module ON lex_frames USING GIN (module_scope)`,
   `CREATE INDEX IF NOT EXISTS idx_lex_frames_jira ON lex_frames (jira) WHERE jira IS NOT NULL`,
   `CREATE INDEX IF NOT EXISTS idx_lex_frames_superseded ON lex_frames (superseded_by) WHERE superseded_by IS NOT NULL`,
+
+  // Semantic recall: one vector per frame, tagged with the embedder that made it
+  `DO $$ BEGIN
+    ALTER TABLE lex_frames ADD COLUMN embedding REAL[];
+  EXCEPTION WHEN duplicate_column THEN NULL;
+  END $$`,
+  `DO $$ BEGIN
+    ALTER TABLE lex_frames ADD COLUMN embedding_model TEXT;
+  EXCEPTION WHEN duplicate_column THEN NULL;
+  END $$`,
+  `CREATE INDEX IF NOT EXISTS idx_lex_frames_embedding ON lex_frames (user_id, embedding_model, timestamp DESC)`,
 ];
 
+/** Most recent embedded frames compared per recall (in-process cosine scan). */
+const MAX_VECTOR_CANDIDATES = 5000;
+
 // ─── Row ↔ Frame mapping ───────────────────────────────────────
 
 interface FrameRow {
@@ -209,7 +225,7 @@ const INSERT_SQL = `INSERT INTO lex_frames (
 ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19,$20,$21,$22,$23,$24,$25)
 ON CONFLICT (id) DO NOTHING`;
 
-export class PostgresFrameStore implements FrameStore {
+export class PostgresFrameStore implements VectorFrameStore {
   constructor(
     private scope: ScopeProvider,
     private userId: string,
@@ -634,6 +650,76 @@ export class PostgresFrameStore implements FrameStore {
     });
   }
 
+  // ─── Semantic recall ──────────────────────────────────────────
+
+  async saveEmbedding(id: string, model: string, embedding: number[]): Promise<boolean> {
+    return this.scoped(async (client) => {
+      const { rowCount } = await client.query(
+        `UPDATE lex_frames SET embedding = $1, embedding_model = $2 WHERE id = $3`,
+        [embedding, model, id],
+      );
+      return (rowCount ?? 0) > 0;
+    });
+  }
+
+  async findSimilar(
+    embedding: number[],
+    model: string,
+    limit: number,
+    candidates = MAX_VECTOR_CANDIDATES,
+  ): Promise<ScoredFrame[]> {
+    return this.scopedRead(async (client) => {
+      const { rows } = await client.query(
+        `SELECT id, embedding FROM lex_frames
+         WHERE embedding_model = $1 AND embedding IS NOT NULL
+         ORDER BY timestamp DESC LIMIT $2`,
+        [model, candidates],
+      );
+      const top = (rows as Array<{ id: string; embedding: number[] }>)
+        .map((r) => ({ id: r.id, score: cosineSimilarity(embedding, r.embedding) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+      if (top.length === 0) return [];
+
+      const { rows: frameRows } = await client.query(
+        `SELECT ${SELECT_COLS} FROM lex_frames WHERE id = ANY($1)`,
+        [top.map((t) => t.id)],
+      );
+      const frames = new Map(frameRows.map((r) => [r.id as string, rowToFrame(r as FrameRow)]));
+      return top.flatMap((t) => {
+        const frame = frames.get(t.id);
+        return frame ? [{ frame, score: t.score }] : [];
+      });
+    });
+  }
+
+  async searchFramesRanked(query: string, limit: number): Promise<ScoredFrame[]> {
+    const terms = query.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    if (terms.length === 0) return [];
+    return this.scopedRead(async (client) => {
+      const { rows } = await client.query(
+        `SELECT ${SELECT_COLS}, ts_rank_cd(search_vector, q) AS rank
+         FROM lex_frames, to_tsquery('english', $1) q
+         WHERE search_vector @@ q
+         ORDER BY rank DESC, timestamp DESC LIMIT $2`,
+        [terms.map((t) => `${t}:*`).join(" | "), limit],
+      );
+      return rows.map((r) => ({ frame: rowToFrame(r as FrameRow), score: Number(r.rank) }));
+    });
+  }
+
+  async listFramesWithoutEmbedding(model: string, limit: number): Promise<Frame[]> {
+    return this.scopedRead(async (client) => {
+      const { rows } = await client.query(
+        `SELECT ${SELECT_COLS} FROM lex_frames
+         WHERE embedding_model IS DISTINCT FROM $1
+         ORDER BY timestamp DESC LIMIT $2`,
+        [model, limit],
+      );
+      return rows.map((r) => rowToFrame(r as FrameRow));
+    });
+  }
+
   async purgeSuperseded(): Promise<number> {
     return this.scoped(async (client) => {
       const { rowCount } = await client.query(
@@ -664,15 +750,29 @@ export async function createFrameStoreFactory(
   return new FrameStoreFactory(runtimePool ?? adminPool);
 }
 
+/**
+ * Users owning frames without a vector from `model` — the embedding backfill
+ * work list. Needs the admin pool: RLS hides other users' frames from the
+ * runtime role. Returns [] when the admin role is itself subject to RLS;
+ * recall then backfills each user lazily.
+ */
+export async function listUsersMissingEmbeddings(adminPool: Pool, model: string): Promise<string[]> {
+  const { rows } = await adminPool.query(
+    `SELECT DISTINCT user_id FROM lex_frames WHERE embedding_model IS DISTINCT FROM $1`,
+    [model],
+  );
+  return rows.map((r) => r.user_id as string);
+}
+
 export class FrameStoreFactory {
   constructor(private pool: Pool) {}
 
   /** Create a FrameStore scoped to a specific user. RLS enforces isolation. */
-  forUser(userId: string): FrameStore {
+  forUser(userId: string): VectorFrameStore {
     return new PostgresFrameStore(scopeFromPool(this.pool, userId), userId);
   }
 
-  forContext(ctx: RequestContext): FrameStore {
+  forContext(ctx: RequestContext): VectorFrameStore {
     return new PostgresFrameStore(scopeFromContext(ctx), ctx.identity.userId);
   }
 }
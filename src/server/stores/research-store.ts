@@ -19,6 +19,13 @@ export interface ResearchBuff {
   unit: "percent" | "flat" | "multiplier";
 }
 
+/** Resources needed to research a node up to `level` (one entry per resource per level). */
+export interface ResearchCost {
+  level: number;
+  resource: string;
+  amount: number;
+}
+
 export interface ResearchNodeInput {
   nodeId: string;
   tree: string;
@@ -26,6 +33,7 @@ export interface ResearchNodeInput {
   maxLevel: number;
   dependencies: string[];
   buffs: ResearchBuff[];
+  costs?: ResearchCost[];
 }
 
 export interface ResearchStateInput {
@@ -49,6 +57,7 @@ export interface ResearchNodeRecord {
   maxLevel: number;
   dependencies: string[];
   buffs: ResearchBuff[];
+  costs: ResearchCost[];
   level: number;
   completed: boolean;
   stateUpdatedAt: string | null;
@@ -117,6 +126,7 @@ const SCHEMA_STATEMENTS = [
     updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
     PRIMARY KEY (user_id, node_id)
   )`,
+  `ALTER TABLE research_nodes ADD COLUMN IF NOT EXISTS costs JSONB NOT NULL DEFAULT '[]'::jsonb`,
   `CREATE INDEX IF NOT EXISTS idx_research_nodes_user ON research_nodes(user_id)`,
   `CREATE INDEX IF NOT EXISTS idx_research_nodes_tree ON research_nodes(tree)`,
   `CREATE INDEX IF NOT EXISTS idx_research_nodes_completed ON research_nodes(completed)`,
@@ -138,13 +148,13 @@ const SQL = {
   deleteAll: `DELETE FROM research_nodes WHERE user_id = $1`,
   insertNode: `INSERT INTO research_nodes (
       user_id, node_id, tree, name, max_level, dependencies, buffs,
-      level, completed, state_updated_at, source, captured_at, updated_at
+      level, completed, state_updated_at, source, captured_at, costs, updated_at
     ) VALUES (
       $1, $2, $3, $4, $5, $6::jsonb, $7::jsonb,
-      $8, $9, $10::timestamptz, $11, $12::timestamptz, NOW()
+      $8, $9, $10::timestamptz, $11, $12::timestamptz, $13::jsonb, NOW()
     )`,
   listNodes: `SELECT
-      node_id, tree, name, max_level, dependencies, buffs,
+      node_id, tree, name, max_level, dependencies, buffs, costs,
       level, completed, state_updated_at, source, captured_at, updated_at
     FROM research_nodes
     WHERE user_id = $1
@@ -165,6 +175,7 @@ function mapNodeRow(row: Record<string, unknown>): ResearchNodeRecord {
     maxLevel: Number(row.max_level),
     dependencies: (row.dependencies as string[] | null) ?? [],
     buffs: (row.buffs as ResearchBuff[] | null) ?? [],
+    costs: (row.costs as ResearchCost[] | null) ?? [],
     level: Number(row.level),
     completed: Boolean(row.completed),
     stateUpdatedAt: row.state_updated_at ? new Date(String(row.state_updated_at)).toISOString() : null,
@@ -196,6 +207,7 @@ function createScopedResearchStore(scope: ScopeProvider, userId: string): Resear
             state?.updatedAt ?? null,
             input.source ?? null,
             input.capturedAt ?? null,
+            JSON.stringify(node.costs ?? []),
           ]);
         }
 
@@ -166,6 +166,18 @@ export const SETTINGS_SCHEMA: SettingDef[] = [
     min: 0,
     max: 1,
   },
+  {
+    key: "model.fallbackChains",
+    category: "model",
+    label: "Fallback Chains",
+    description:
+      "JSON object mapping task types (reference_lookup, dock_planning, fleet_query, strategy_general, default) " +
+      "to ordered model IDs tried on provider errors or repeated validation failures. " +
+      'Example: {"default":["gemini-2.5-flash-lite","gemini-2.5-flash","claude-sonnet-4-6"]}. ' +
+      "Empty = no fallback.",
+    type: "json",
+    default: "{}",
+  },
 
   // ── System ──────────────────────────────────────────────────
   {
@@ -12,6 +12,10 @@
  * - RLS policies enforce isolation at the database level
  * - TargetStoreFactory produces user-scoped stores via forUser(userId)
  *
+ * Targets can depend on each other ("tier the Saladin before building the
+ * Enterprise"). Dependency edges live in target_dependencies; adding an
+ * edge that would close a cycle is rejected.
+ *
  * Three target types:
  * - officer: acquire or upgrade a specific officer
  * - ship: build or tier a specific ship
@@ -89,6 +93,14 @@ export interface RecordTargetDeltaInput {
   note?: string | null;
 }
 
+export interface TargetDependency {
+  /** The target that waits. */
+  targetId: number;
+  /** The target that must be finished first. */
+  dependsOnId: number;
+  createdAt: string;
+}
+
 export type ReminderUsefulness = "useful" | "not_useful";
 
 export interface ReminderFeedback {
@@ -141,6 +153,10 @@ export interface TargetStore {
   markAchieved(id: number): Promise<Target | null>;
   recordDelta(input: RecordTargetDeltaInput): Promise<TargetProgressDelta | null>;
   listDeltas(targetId: number, limit?: number): Promise<TargetProgressDelta[]>;
+  /** Null when either target is missing; throws on self-dependency or cycles. */
+  addDependency(targetId: number, dependsOnId: number): Promise<TargetDependency | null>;
+  removeDependency(targetId: number, dependsOnId: number): Promise<boolean>;
+  listDependencies(): Promise<TargetDependency[]>;
   recordReminderFeedback(input: RecordReminderFeedbackInput): Promise<ReminderFeedback | null>;
   listReminderFeedback(limit?: number): Promise<ReminderFeedback[]>;
   recordGoalRestatement(input: RecordGoalRestatementInput): Promise<GoalRestatement | null>;
@@ -237,6 +253,29 @@ const SCHEMA_STATEMENTS = [
     END IF;
   END $$`,
 
+  `CREATE TABLE IF NOT EXISTS target_dependencies (
+    user_id TEXT NOT NULL DEFAULT 'local',
+    target_id INTEGER NOT NULL REFERENCES targets(id) ON DELETE CASCADE,
+    depends_on_id INTEGER NOT NULL REFERENCES targets(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (target_id, depends_on_id),
+    CHECK (target_id <> depends_on_id)
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_target_dependencies_depends_on ON target_dependencies(depends_on_id)`,
+  `CREATE INDEX IF NOT EXISTS idx_target_dependencies_user ON target_dependencies(user_id)`,
+  `ALTER TABLE target_dependencies ENABLE ROW LEVEL SECURITY`,
+  `ALTER TABLE target_dependencies FORCE ROW LEVEL SECURITY`,
+  `DO $$ BEGIN
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_policies
+      WHERE tablename = 'target_dependencies' AND policyname = 'target_dependencies_user_isolation'
+    ) THEN
+      CREATE POLICY target_dependencies_user_isolation ON target_dependencies
+        USING (user_id = current_setting('app.current_user_id', true))
+        WITH CHECK (user_id = current_setting('app.current_user_id', true));
+    END IF;
+  END $$`,
+
   `CREATE TABLE IF NOT EXISTS target_reminder_feedback (
     id SERIAL PRIMARY KEY,
     user_id TEXT NOT NULL DEFAULT 'local',
@@ -296,6 +335,7 @@ const SQL = {
   list: `SELECT ${COLS} FROM targets ORDER BY priority ASC, created_at DESC LIMIT 500`,
   listByRefId: `SELECT ${COLS} FROM targets WHERE ref_id = $1 ORDER BY priority ASC, created_at DESC LIMIT 500`,
   get: `SELECT ${COLS} FROM targets WHERE id = $1`,
+  existingIds: `SELECT id FROM targets WHERE id = ANY($1::int[])`,
   create: `INSERT INTO targets (user_id, target_type, ref_id, loadout_id, target_tier, target_rank, target_level, reason, priority, auto_suggested)
     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
     RETURNING ${COLS}`,
@@ -309,6 +349,21 @@ const SQL = {
     WHERE target_id = $1
     ORDER BY created_at DESC, id DESC
     LIMIT $2`,
+  addDependency: `INSERT INTO target_dependencies (user_id, target_id, depends_on_id)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (target_id, depends_on_id) DO UPDATE SET target_id = EXCLUDED.target_id
+    RETURNING target_id, depends_on_id, created_at`,
+  removeDependency: `DELETE FROM target_dependencies WHERE target_id = $1 AND depends_on_id = $2`,
+  listDependencies: `SELECT target_id, depends_on_id, created_at
+    FROM target_dependencies
+    ORDER BY target_id, depends_on_id`,
+  // Does $1 (the prospective prerequisite) already wait on $2, directly or transitively?
+  dependencyReaches: `WITH RECURSIVE upstream(id) AS (
+      SELECT depends_on_id FROM target_dependencies WHERE target_id = $1
+      UNION
+      SELECT d.depends_on_id FROM target_dependencies d JOIN upstream u ON d.target_id = u.id
+    )
+    SELECT 1 FROM upstream WHERE id = $2 LIMIT 1`,
   recordReminderFeedback: `INSERT INTO target_reminder_feedback (user_id, target_id, reminder_key, usefulness, source, note)
     VALUES ($1, $2, $3, $4, $5, $6)
     RETURNING id, target_id, reminder_key, usefulness, source, note, created_at`,
@@ -368,6 +423,14 @@ function mapDeltaRow(row: Record<string, unknown>): TargetProgressDelta {
   };
 }
 
+function mapDependencyRow(row: Record<string, unknown>): TargetDependency {
+  return {
+    targetId: Number(row.target_id),
+    dependsOnId: Number(row.depends_on_id),
+    createdAt: (row.created_at as Date).toISOString(),
+  };
+}
+
 function mapReminderFeedbackRow(row: Record<string, unknown>): ReminderFeedback {
   return {
     id: row.id as number,
@@ -548,6 +611,38 @@ function createScopedTargetStore(scope: ScopeProvider, userId: string): TargetSt
       });
     },
 
+    async addDependency(targetId, dependsOnId) {
+      if (targetId === dependsOnId) {
+        throw new Error(`Target ${targetId} cannot depend on itself`);
+      }
+      return scope.write(async (client) => {
+        const found = await client.query(SQL.existingIds, [[targetId, dependsOnId]]);
+        if (found.rows.length < 2) {
+          return null;
+        }
+        const cycle = await client.query(SQL.dependencyReaches, [dependsOnId, targetId]);
+        if (cycle.rows.length > 0) {
+          throw new Error(`Dependency would create a cycle: target ${dependsOnId} already depends on target ${targetId}`);
+        }
+        const result = await client.query(SQL.addDependency, [userId, targetId, dependsOnId]);
+        return mapDependencyRow(result.rows[0]);
+      });
+    },
+
+    async removeDependency(targetId, dependsOnId) {
+      return scope.write(async (client) => {
+        const result = await client.query(SQL.removeDependency, [targetId, dependsOnId]);
+        return result.rowCount! > 0;
+      });
+    },
+
+    async listDependencies() {
+      return scope.read(async (client) => {
+        const result = await client.query(SQL.listDependencies);
+        return result.rows.map(mapDependencyRow);
+      });
+    },
+
     async recordReminderFeedback(input) {
       return scope.write(async (client) => {
         const reminderKey = input.reminderKey.trim();
@@ -31,6 +31,8 @@ const SCHEMA_STATEMENTS = [
       CHECK (operation IN ('chat','tool_call','repair','fallback','summarize','empty_retry'));
   EXCEPTION WHEN duplicate_object THEN NULL;
   END $$`,
+  // Migration: fallback chain travelled to this call, e.g. "gemini-2.5-flash-lite>gemini-2.5-flash"
+  `ALTER TABLE token_ledger ADD COLUMN IF NOT EXISTS fallback_path TEXT`,
 ];
 
 // ─── Types ──────────────────────────────────────────────────────
@@ -43,6 +45,8 @@ export interface TokenRecord {
   operation: TokenOperation;
   inputTokens: number;
   outputTokens: number;
+  /** Models tried for this message, ">"-joined — null unless the call was a fallback */
+  fallbackPath?: string | null;
 }
 
 export interface DailyUsage {
@@ -81,9 +85,9 @@ export async function createTokenLedgerStore(adminPool: Pool, runtimePool?: Pool
     async record(entry: TokenRecord): Promise<void> {
       try {
         await pool.query(
-          `INSERT INTO token_ledger (user_id, model_id, operation, input_tokens, output_tokens)
-           VALUES ($1, $2, $3, $4, $5)`,
-          [entry.userId, entry.modelId, entry.operation, entry.inputTokens, entry.outputTokens],
+          `INSERT INTO token_ledger (user_id, model_id, operation, input_tokens, output_tokens, fallback_path)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [entry.userId, entry.modelId, entry.operation, entry.inputTokens, entry.outputTokens, entry.fallbackPath ?? null],
         );
       } catch (err) {
         // Best-effort — never block chat for a telemetry write failure
@@ -322,6 +322,8 @@ export interface UserStore {
   signIn(email: string, password: string, ip?: string, ua?: string): Promise<SignInResult>;
 
   // ── Session Management ───────────────────────────────────
+  /** Issue a fresh session for an already-authenticated user (e.g. an MCP client token). */
+  createSession(userId: string, ip?: string, ua?: string): Promise<UserSession>;
   resolveSession(sessionToken: string): Promise<ResolvedSession | null>;
   touchSession(sessionToken: string): Promise<void>;
   destroySession(sessionToken: string): Promise<void>;
@@ -489,6 +491,14 @@ export async function createUserStore(adminPool: Pool, runtimePool?: Pool): Prom
     },
 
     // ── Session Management ─────────────────────────────────
+    async createSession(userId: string, ip?: string, ua?: string): Promise<UserSession> {
+      const res = await pool.query(SQL.insertSession, [
+        generateToken(), userId, ip ?? null, ua ?? null,
+        `${SESSION_EXPIRY_DAYS} days`,
+      ]);
+      return rowToSession(res.rows[0] as Record<string, unknown>);
+    },
+
     async resolveSession(sessionToken: string): Promise<ResolvedSession | null> {
       const res = await pool.query(SQL.getSession, [sessionToken]);
       const row = res.rows[0] as Record<string, unknown> | undefined;
@@ -708,6 +718,11 @@ export async function createUserStore(adminPool: Pool, runtimePool?: Pool): Prom
         await tryDelete("DELETE FROM operation_streams WHERE user_id = $1::TEXT");
         // User settings
         await tryDelete("DELETE FROM user_settings WHERE user_id = $1");
+        // Webhooks (cascades webhook_deliveries via FK)
+        await tryDelete("DELETE FROM webhooks WHERE user_id = $1");
+        // Chat bot links + pending link codes
+        await tryDelete("DELETE FROM chat_surface_links WHERE user_id = $1");
+        await tryDelete("DELETE FROM chat_surface_link_codes WHERE user_id = $1");
         // User record (cascades sessions + email_tokens via FK)
         const res = await client.query(SQL.deleteUser, [uid]);
         await client.query("COMMIT");
@@ -0,0 +1,499 @@
+/**
+ * webhook-store.ts — Outbound Webhook Store
+ *
+ * Majel — STFC Fleet Intelligence System
+ *
+ * User-configured HTTP endpoints that receive fleet events (see
+ * services/fleet-events.ts), and the log of every delivery attempt.
+ *
+ * Tables:
+ *   webhooks           — one row per endpoint: URL, subscribed events, signing secret
+ *   webhook_deliveries — one row per event per webhook; doubles as the retry queue
+ *
+ * The signing secret ("whsec_…") has to be kept in clear because every
+ * delivery is signed with it. It is returned once at creation and never
+ * listed again. Deliveries are claimed with FOR UPDATE SKIP LOCKED and
+ * leased by pushing next_attempt_at forward, so two instances never send
+ * the same attempt (services/webhook-dispatcher.ts does the sending).
+ *
+ * Both tables are RLS scoped like the other per-user stores (#85):
+ * WebhookStoreFactory.forUser(userId) → WebhookStore. The delivery queue
+ * works across users through three SECURITY DEFINER functions (claim,
+ * record an attempt, purge) that the runtime role can call, as the admin
+ * pool is closed once boot finishes.
+ */
+
+import { randomBytes } from "node:crypto";
+import { initSchema, type Pool } from "../db.js";
+import { log } from "../logger.js";
+import type { RequestContext, ScopeProvider } from "../request-context.js";
+import { scopeFromContext, scopeFromPool } from "../request-context.js";
+
+// ─── Constants ──────────────────────────────────────────────────
+
+export const WEBHOOK_SECRET_PREFIX = "whsec_";
+
+/** Secret length in bytes (24 bytes = 32 base64url chars). */
+const SECRET_BYTES = 24;
+
+/** Characters of the secret kept for display so users can tell secrets apart. */
+const DISPLAY_PREFIX_LENGTH = WEBHOOK_SECRET_PREFIX.length + 6;
+
+/** Webhooks a user may configure. */
+export const MAX_WEBHOOKS_PER_USER = 10;
+
+/** How long a claimed delivery is hidden from other claimers while it is sent. */
+const CLAIM_LEASE_SECONDS = 120;
+
+/** Error recorded on deliveries still pending when their webhook is paused. */
+const DISABLED_ERROR = "Webhook disabled";
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+// ─── Schema ─────────────────────────────────────────────────────
+
+/** webhook_deliveries columns, as returned by the queue functions. */
+const DELIVERY_COLUMNS = [
+  ["id", "BIGINT"], ["webhook_id", "BIGINT"], ["user_id", "TEXT"], ["event", "TEXT"], ["payload", "JSONB"],
+  ["status", "TEXT"], ["attempts", "INTEGER"], ["next_attempt_at", "TIMESTAMPTZ"], ["last_attempt_at", "TIMESTAMPTZ"],
+  ["response_status", "INTEGER"], ["error", "TEXT"], ["created_at", "TIMESTAMPTZ"], ["delivered_at", "TIMESTAMPTZ"],
+] as const;
+
+const SCHEMA_STATEMENTS = [
+  `CREATE TABLE IF NOT EXISTS webhooks (
+    id             BIGSERIAL PRIMARY KEY,
+    user_id        TEXT NOT NULL,
+    url            TEXT NOT NULL,
+    secret         TEXT NOT NULL,
+    events         TEXT[] NOT NULL,
+    enabled        BOOLEAN NOT NULL DEFAULT TRUE,
+    description    TEXT,
+    created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+
+  `CREATE INDEX IF NOT EXISTS idx_webhooks_user_id ON webhooks (user_id)`,
+
+  `CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id               BIGSERIAL PRIMARY KEY,
+    webhook_id       BIGINT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    user_id          TEXT NOT NULL,
+    event            TEXT NOT NULL,
+    payload          JSONB NOT NULL,
+    status           TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+    attempts         INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at  TIMESTAMPTZ,
+    last_attempt_at  TIMESTAMPTZ,
+    response_status  INTEGER,
+    error            TEXT,
+    created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    delivered_at     TIMESTAMPTZ
+  )`,
+
+  `CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries (webhook_id, created_at DESC)`,
+  `CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries (next_attempt_at) WHERE status = 'pending'`,
+
+  // Response bodies are no longer kept — only the status code
+  `ALTER TABLE webhook_deliveries DROP COLUMN IF EXISTS response_body`,
+
+  // RLS policies
+  `ALTER TABLE webhooks ENABLE ROW LEVEL SECURITY`,
+  `ALTER TABLE webhooks FORCE ROW LEVEL SECURITY`,
+  `DO $$ BEGIN
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_policies
+      WHERE tablename = 'webhooks' AND policyname = 'webhooks_user_isolation'
+    ) THEN
+      CREATE POLICY webhooks_user_isolation ON webhooks
+        USING (user_id = current_setting('app.current_user_id', true))
+        WITH CHECK (user_id = current_setting('app.current_user_id', true));
+    END IF;
+  END $$`,
+
+  `ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY`,
+  `ALTER TABLE webhook_deliveries FORCE ROW LEVEL SECURITY`,
+  `DO $$ BEGIN
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_policies
+      WHERE tablename = 'webhook_deliveries' AND policyname = 'webhook_deliveries_user_isolation'
+    ) THEN
+      CREATE POLICY webhook_deliveries_user_isolation ON webhook_deliveries
+        USING (user_id = current_setting('app.current_user_id', true))
+        WITH CHECK (user_id = current_setting('app.current_user_id', true));
+    END IF;
+  END $$`,
+
+  // Delivery queue — the dispatcher works across users on the runtime
+  // pool, so these run as the owner (SECURITY DEFINER) and do nothing else
+  `CREATE OR REPLACE FUNCTION majel_webhook_claim(max_rows INTEGER, delivery_id BIGINT)
+    RETURNS TABLE (${DELIVERY_COLUMNS.map(([name, type]) => `${name} ${type}`).join(", ")}, url TEXT, secret TEXT)
+    LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public AS $$
+      WITH due AS (
+        SELECT q.id FROM webhook_deliveries q JOIN webhooks h ON h.id = q.webhook_id
+        WHERE q.status = 'pending' AND q.next_attempt_at <= NOW() AND h.enabled
+          AND (delivery_id IS NULL OR q.id = delivery_id)
+        ORDER BY q.next_attempt_at ASC, q.id ASC
+        LIMIT max_rows
+        FOR UPDATE OF q SKIP LOCKED
+      )
+      UPDATE webhook_deliveries d
+      SET next_attempt_at = NOW() + make_interval(secs => ${CLAIM_LEASE_SECONDS})
+      FROM due, webhooks w
+      WHERE d.id = due.id AND w.id = d.webhook_id AND w.enabled
+      RETURNING ${DELIVERY_COLUMNS.map(([name]) => `d.${name}`).join(", ")}, w.url, w.secret
+    $$`,
+  `CREATE OR REPLACE FUNCTION majel_webhook_record_attempt(
+      delivery_id BIGINT, new_status TEXT, retry_at TIMESTAMPTZ, status_code INTEGER, failure TEXT)
+    RETURNS TABLE (${DELIVERY_COLUMNS.map(([name, type]) => `${name} ${type}`).join(", ")})
+    LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public AS $$
+      UPDATE webhook_deliveries SET
+        status = new_status,
+        attempts = attempts + 1,
+        last_attempt_at = NOW(),
+        next_attempt_at = retry_at,
+        response_status = status_code,
+        error = failure,
+        delivered_at = CASE WHEN new_status = 'succeeded' THEN NOW() ELSE delivered_at END
+      WHERE id = delivery_id
+      RETURNING ${DELIVERY_COLUMNS.map(([name]) => name).join(", ")}
+    $$`,
+  `CREATE OR REPLACE FUNCTION majel_webhook_purge(max_age INTERVAL) RETURNS INTEGER
+    LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public AS $$
+      WITH gone AS (
+        DELETE FROM webhook_deliveries WHERE status <> 'pending' AND created_at < NOW() - max_age RETURNING 1
+      )
+      SELECT COUNT(*)::INTEGER FROM gone
+    $$`,
+];
+
+// ─── SQL ────────────────────────────────────────────────────────
+
+const SQL = {
+  insert: `INSERT INTO webhooks (user_id, url, secret, events, description)
+    VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+  listByUser: `SELECT * FROM webhooks WHERE user_id = $1 ORDER BY created_at DESC, id DESC`,
+  get: `SELECT * FROM webhooks WHERE id = $1 AND user_id = $2`,
+  count: `SELECT COUNT(*) AS count FROM webhooks WHERE user_id = $1`,
+  update: `UPDATE webhooks SET
+      url = COALESCE($3, url),
+      events = COALESCE($4, events),
+      enabled = COALESCE($5, enabled),
+      description = CASE WHEN $6::BOOLEAN THEN $7 ELSE description END,
+      updated_at = NOW()
+    WHERE id = $1 AND user_id = $2 RETURNING *`,
+  skipPending: `UPDATE webhook_deliveries SET status = 'failed', next_attempt_at = NULL, error = $3
+    WHERE webhook_id = $1 AND user_id = $2 AND status = 'pending'`,
+  delete: `DELETE FROM webhooks WHERE id = $1 AND user_id = $2`,
+  subscribers: `SELECT * FROM webhooks WHERE user_id = $1 AND enabled AND $2 = ANY(events) ORDER BY id`,
+  enqueue: `INSERT INTO webhook_deliveries (webhook_id, user_id, event, payload, next_attempt_at)
+    VALUES ($1, $2, $3, $4, NOW()) RETURNING *`,
+  claim: `SELECT * FROM majel_webhook_claim($1, $2)`,
+  recordAttempt: `SELECT * FROM majel_webhook_record_attempt($1, $2, $3, $4, $5)`,
+  listDeliveries: `SELECT * FROM webhook_deliveries WHERE webhook_id = $1 AND user_id = $2
+    ORDER BY created_at DESC, id DESC LIMIT $3`,
+  getDelivery: `SELECT * FROM webhook_deliveries WHERE id = $1 AND user_id = $2`,
+  purge: `SELECT majel_webhook_purge($1::INTERVAL) AS count`,
+};
+
+// ─── Types ──────────────────────────────────────────────────────
+
+export interface Webhook {
+  id: number;
+  userId: string;
+  url: string;
+  /** First characters of the signing secret, e.g. "whsec_a1B2c3". */
+  secretPrefix: string;
+  events: string[];
+  enabled: boolean;
+  description: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateWebhookInput {
+  url: string;
+  events: string[];
+  description?: string | null;
+}
+
+export interface UpdateWebhookInput {
+  url?: string;
+  events?: string[];
+  enabled?: boolean;
+  description?: string | null;
+}
+
+export interface CreatedWebhook {
+  webhook: Webhook;
+  /** The signing secret — shown once. */
+  secret: string;
+}
+
+/** The event envelope a delivery sends, minus the delivery id. */
+export interface WebhookPayload {
+  event: string;
+  occurredAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  webhookId: number;
+  event: string;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** When the next attempt is due; null once succeeded or failed for good. */
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+/** A delivery claimed for sending, with what is needed to send it. */
+export interface ClaimedDelivery extends WebhookDelivery {
+  url: string;
+  secret: string;
+}
+
+/** Outcome of one attempt. nextAttemptAt null + ok false = give up. */
+export interface DeliveryAttempt {
+  ok: boolean;
+  nextAttemptAt: Date | null;
+  responseStatus: number | null;
+  error: string | null;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+function toIso(value: unknown): string | null {
+  if (value == null) return null;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function rowToWebhook(row: Record<string, unknown>): Webhook {
+  return {
+    id: Number(row.id),
+    userId: row.user_id as string,
+    url: row.url as string,
+    secretPrefix: (row.secret as string).slice(0, DISPLAY_PREFIX_LENGTH),
+    events: (row.events as string[]) ?? [],
+    enabled: row.enabled as boolean,
+    description: (row.description as string | null) ?? null,
+    createdAt: toIso(row.created_at)!,
+    updatedAt: toIso(row.updated_at)!,
+  };
+}
+
+function rowToDelivery(row: Record<string, unknown>): WebhookDelivery {
+  return {
+    id: Number(row.id),
+    webhookId: Number(row.webhook_id),
+    event: row.event as string,
+    payload: row.payload as WebhookPayload,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: Number(row.attempts),
+    nextAttemptAt: row.status === "pending" ? toIso(row.next_attempt_at) : null,
+    lastAttemptAt: toIso(row.last_attempt_at),
+    responseStatus: row.response_status == null ? null : Number(row.response_status),
+    error: (row.error as string | null) ?? null,
+    createdAt: toIso(row.created_at)!,
+    deliveredAt: toIso(row.delivered_at),
+  };
+}
+
+function rowToClaimed(row: Record<string, unknown>): ClaimedDelivery {
+  return { ...rowToDelivery(row), url: row.url as string, secret: row.secret as string };
+}
+
+// ─── Store Interface ────────────────────────────────────────────
+
+/** One user's webhooks and delivery log. */
+export interface WebhookStore {
+  createWebhook(input: CreateWebhookInput): Promise<CreatedWebhook>;
+  listWebhooks(): Promise<Webhook[]>;
+  getWebhook(id: number): Promise<Webhook | null>;
+  countWebhooks(): Promise<number>;
+  updateWebhook(id: number, input: UpdateWebhookInput): Promise<Webhook | null>;
+  /** Delete a webhook and its delivery log. */
+  deleteWebhook(id: number): Promise<boolean>;
+  /** Enabled webhooks subscribed to an event. */
+  listSubscribers(event: string): Promise<Webhook[]>;
+  /** Queue a delivery, due immediately. */
+  enqueueDelivery(webhookId: number, payload: WebhookPayload): Promise<WebhookDelivery>;
+  /** Most recent deliveries of a webhook, newest first. */
+  listDeliveries(webhookId: number, limit?: number): Promise<WebhookDelivery[]>;
+  getDelivery(id: number): Promise<WebhookDelivery | null>;
+  close(): void;
+}
+
+/** Every user's pending deliveries, for the dispatcher. */
+export interface WebhookDeliveryQueue {
+  /** Lease up to `limit` due deliveries for sending. */
+  claimDue(limit: number): Promise<ClaimedDelivery[]>;
+  /** Lease one delivery if it is due and not leased already. */
+  claimDelivery(id: number): Promise<ClaimedDelivery | null>;
+  recordAttempt(deliveryId: number, attempt: DeliveryAttempt): Promise<WebhookDelivery | null>;
+  /** Drop finished deliveries older than a PG interval (e.g. "30 days"). */
+  purgeOlderThan(interval: string): Promise<number>;
+}
+
+export interface WebhookStoreFactory {
+  forUser(userId: string): WebhookStore;
+  forContext(ctx: RequestContext): WebhookStore;
+  readonly queue: WebhookDeliveryQueue;
+}
+
+// ─── Store ──────────────────────────────────────────────────────
+
+function createScopedWebhookStore(scope: ScopeProvider, userId: string): WebhookStore {
+  return {
+    async createWebhook(input) {
+      const secret = WEBHOOK_SECRET_PREFIX + randomBytes(SECRET_BYTES).toString("base64url");
+      return scope.write(async (client) => {
+        const res = await client.query(SQL.insert, [
+          userId, input.url, secret, [...new Set(input.events)], input.description ?? null,
+        ]);
+        return { webhook: rowToWebhook(res.rows[0] as Record<string, unknown>), secret };
+      });
+    },
+
+    async listWebhooks() {
+      return scope.read(async (client) => {
+        const res = await client.query(SQL.listByUser, [userId]);
+        return (res.rows as Record<string, unknown>[]).map(rowToWebhook);
+      });
+    },
+
+    async getWebhook(id) {
+      return scope.read(async (client) => {
+        const res = await client.query(SQL.get, [id, userId]);
+        const row = res.rows[0] as Record<string, unknown> | undefined;
+        return row ? rowToWebhook(row) : null;
+      });
+    },
+
+    async countWebhooks() {
+      return scope.read(async (client) => {
+        const res = await client.query(SQL.count, [userId]);
+        return parseInt((res.rows[0] as Record<string, unknown>).count as string, 10);
+      });
+    },
+
+    async updateWebhook(id, input) {
+      return scope.write(async (client) => {
+        const res = await client.query(SQL.update, [
+          id, userId,
+          input.url ?? null,
+          input.events ? [...new Set(input.events)] : null,
+          input.enabled ?? null,
+          input.description !== undefined,
+          input.description ?? null,
+        ]);
+        const row = res.rows[0] as Record<string, unknown> | undefined;
+        if (!row) return null;
+        // Pausing drops the backlog rather than flushing it on resume
+        if (input.enabled === false) await client.query(SQL.skipPending, [id, userId, DISABLED_ERROR]);
+        return rowToWebhook(row);
+      });
+    },
+
+    async deleteWebhook(id) {
+      return scope.write(async (client) => {
+        const res = await client.query(SQL.delete, [id, userId]);
+        return (res.rowCount ?? 0) > 0;
+      });
+    },
+
+    async listSubscribers(event) {
+      return scope.read(async (client) => {
+        const res = await client.query(SQL.subscribers, [userId, event]);
+        return (res.rows as Record<string, unknown>[]).map(rowToWebhook);
+      });
+    },
+
+    async enqueueDelivery(webhookId, payload) {
+      return scope.write(async (client) => {
+        const res = await client.query(SQL.enqueue, [webhookId, userId, payload.event, JSON.stringify(payload)]);
+        return rowToDelivery(res.rows[0] as Record<string, unknown>);
+      });
+    },
+
+    async listDeliveries(webhookId, limit = 50) {
+      return scope.read(async (client) => {
+        const res = await client.query(SQL.listDeliveries, [webhookId, userId, limit]);
+        return (res.rows as Record<string, unknown>[]).map(rowToDelivery);
+      });
+    },
+
+    async getDelivery(id) {
+      return scope.read(async (client) => {
+        const res = await client.query(SQL.getDelivery, [id, userId]);
+        const row = res.rows[0] as Record<string, unknown> | undefined;
+        return row ? rowToDelivery(row) : null;
+      });
+    },
+
+    close() {
+      // Pool lifecycle managed externally
+    },
+  };
+}
+
+/**
+ * Cross-user queue operations. RLS hides other users' rows from the runtime
+ * role, so each goes through a SECURITY DEFINER function (see schema).
+ */
+function createDeliveryQueue(pool: Pool): WebhookDeliveryQueue {
+  return {
+    async claimDue(limit) {
+      const res = await pool.query(SQL.claim, [limit, null]);
+      return (res.rows as Record<string, unknown>[]).map(rowToClaimed);
+    },
+
+    async claimDelivery(id) {
+      const res = await pool.query(SQL.claim, [1, id]);
+      const row = res.rows[0] as Record<string, unknown> | undefined;
+      return row ? rowToClaimed(row) : null;
+    },
+
+    async recordAttempt(deliveryId, attempt) {
+      const status: WebhookDeliveryStatus = attempt.ok ? "succeeded" : attempt.nextAttemptAt ? "pending" : "failed";
+      const res = await pool.query(SQL.recordAttempt, [
+        deliveryId,
+        status,
+        attempt.ok ? null : attempt.nextAttemptAt,
+        attempt.responseStatus,
+        attempt.error,
+      ]);
+      const row = res.rows[0] as Record<string, unknown> | undefined;
+      return row ? rowToDelivery(row) : null;
+    },
+
+    async purgeOlderThan(interval) {
+      const res = await pool.query(SQL.purge, [interval]);
+      return Number((res.rows[0] as Record<string, unknown>).count);
+    },
+  };
+}
+
+// ─── Factory ────────────────────────────────────────────────────
+
+export async function createWebhookStoreFactory(adminPool: Pool, runtimePool?: Pool): Promise<WebhookStoreFactory> {
+  await initSchema(adminPool, SCHEMA_STATEMENTS);
+  const pool = runtimePool ?? adminPool;
+
+  log.fleet.debug("webhook store initialized (pg, user-scoped)");
+
+  return {
+    forUser(userId: string) {
+      return createScopedWebhookStore(scopeFromPool(pool, userId), userId);
+    },
+    forContext(ctx: RequestContext) {
+      return createScopedWebhookStore(scopeFromContext(ctx), ctx.identity.userId);
+    },
+    queue: createDeliveryQueue(pool),
+  };
+}
@@ -182,6 +182,23 @@ export interface FleetPresetWithSlots extends FleetPreset {
   slots: FleetPresetSlot[];
 }
 
+// ─── Time Windows ───────────────────────────────────────────
+
+export type PlanWindowKind = "once" | "daily";
+
+export const VALID_PLAN_WINDOW_KINDS: PlanWindowKind[] = ["once", "daily"];
+
+/**
+ * When a plan item occupies its dock. All times are UTC.
+ * - once:  start/end are ISO timestamps (end > start)
+ * - daily: start/end are "HH:MM"; end ≤ start wraps past midnight, equal = all day
+ */
+export interface PlanWindow {
+  kind: PlanWindowKind;
+  start: string;
+  end: string;
+}
+
 // ─── Plan Items ─────────────────────────────────────────────
 
 export type PlanSource = "manual" | "preset";
@@ -198,6 +215,10 @@ export interface PlanItem {
   isActive: boolean;
   source: PlanSource;
   notes: string | null;
+  /** When the item occupies its dock; null = always */
+  window: PlanWindow | null;
+  /** Which owned copy of the ship is docked (ADR-051); null = any */
+  shipInstanceId: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -245,6 +266,7 @@ export interface EffectiveDockEntry {
   variantPatch: VariantPatch | null;
   intentKeys: string[];
   source: PlanSource;
+  shipInstanceId: string | null;
 }
 
 export interface EffectiveAwayTeam {
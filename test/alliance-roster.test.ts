@@ -0,0 +1,57 @@
+/**
+ * alliance-roster.test.ts — Opted-in member fleets for get_armada_context
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { createAllianceRoster, MAX_SHARED_SHIPS_PER_MEMBER } from "../src/server/services/alliance-roster.js";
+import type { AllianceMember, AllianceStore } from "../src/server/stores/alliance-store.js";
+import type { OverlayStore, OverlayStoreFactory } from "../src/server/stores/overlay-store.js";
+import { createMockAllianceStore, createMockOverlayStore } from "./fleet-tools/helpers.js";
+
+function member(userId: string, shareOverlays: boolean): AllianceMember {
+  return { userId, displayName: userId.toUpperCase(), role: "member", shareOverlays, joinedAt: "2026-03-01T00:00:00.000Z" };
+}
+
+function overlayFactory(stores: Record<string, OverlayStore>): OverlayStoreFactory {
+  return { forUser: vi.fn((userId: string) => stores[userId]) } as unknown as OverlayStoreFactory;
+}
+
+describe("createAllianceRoster", () => {
+  it("returns null outside an alliance", async () => {
+    const store = createMockAllianceStore({ getMembership: vi.fn().mockResolvedValue(null) });
+    const roster = createAllianceRoster(store, overlayFactory({}), "kirk");
+
+    expect(await roster.sharedFleets()).toBeNull();
+    expect(store.listMembers).not.toHaveBeenCalled();
+  });
+
+  it("reads only other members who opted in, strongest first", async () => {
+    const ships = Array.from({ length: MAX_SHARED_SHIPS_PER_MEMBER + 5 }, (_, i) => ({
+      refId: `ship-${i}`, tier: 1, level: 10, power: i * 100,
+    }));
+    const suluOverlays = createMockOverlayStore({
+      listShipOverlays: vi.fn().mockResolvedValue(ships),
+      listOfficerOverlays: vi.fn().mockResolvedValue([
+        { refId: "officer-a", level: 10, rank: "2", power: null },
+        { refId: "officer-b", level: 30, rank: "3", power: 5000 },
+      ]),
+    });
+    const factory = overlayFactory({ sulu: suluOverlays });
+    const store: AllianceStore = createMockAllianceStore({
+      listMembers: vi.fn().mockResolvedValue([member("kirk", true), member("sulu", true), member("chekov", false)]),
+    });
+
+    const fleets = await createAllianceRoster(store, factory, "kirk").sharedFleets();
+
+    expect(factory.forUser).toHaveBeenCalledTimes(1);
+    expect(factory.forUser).toHaveBeenCalledWith("sulu");
+    expect(suluOverlays.listShipOverlays).toHaveBeenCalledWith({ ownershipState: "owned" });
+    expect(fleets!.notSharing).toEqual(["CHEKOV"]);
+
+    const [sulu] = fleets!.members;
+    expect(sulu).toMatchObject({ userId: "sulu", displayName: "SULU", totalShips: ships.length, totalOfficers: 2 });
+    expect(sulu.ships).toHaveLength(MAX_SHARED_SHIPS_PER_MEMBER);
+    expect(sulu.ships[0]).toEqual({ refId: `ship-${ships.length - 1}`, tier: 1, level: 10, power: (ships.length - 1) * 100 });
+    expect(sulu.officers.map((o) => o.refId)).toEqual(["officer-b", "officer-a"]);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * alliance-routes.test.ts — Alliance route tests
+ *
+ * Supertest-based HTTP-level tests covering:
+ *   - Store-not-available (503)
+ *   - Create / join / leave with validation
+ *   - Alliance role errors mapped to status codes
+ *   - Plan items, targets and armada sign-ups
+ *   - Hostile lookup and dock-state checks on armada sign-ups
+ */
+
+import { describe, it, expect, vi, beforeEach, beforeAll, afterAll } from "vitest";
+import { testRequest } from "./helpers/test-request.js";
+import type { Express } from "express";
+import { createApp } from "../src/server/index.js";
+import { makeState } from "./helpers/make-state.js";
+import { createAllianceStoreFactory, type AllianceStoreFactory } from "../src/server/stores/alliance-store.js";
+import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
+import type { CrewStoreFactory } from "../src/server/stores/crew-store.js";
+import { createMockCrewStore, createMockReferenceStore } from "./fleet-tools/helpers.js";
+
+let pool: Pool;
+beforeAll(() => { pool = createTestPool(); });
+afterAll(async () => { await pool.end(); });
+
+describe("Alliance routes — store not available", () => {
+  it("GET /api/alliance returns 503 when the store is null", async () => {
+    const res = await testRequest(createApp(makeState())).get("/api/alliance");
+    expect(res.status).toBe(503);
+    expect(res.body.error.code).toBe("ALLIANCE_STORE_NOT_AVAILABLE");
+  });
+});
+
+describe("Alliance routes — with live store", () => {
+  let app: Express;
+  let factory: AllianceStoreFactory;
+
+  beforeEach(async () => {
+    await cleanDatabase(pool);
+    factory = await createAllianceStoreFactory(pool);
+    app = createApp(makeState({ allianceStoreFactory: factory }));
+  });
+
+  /** Another user founds an alliance; the dev-mode user joins it as a member. */
+  async function joinAsMember() {
+    const kirk = factory.forUser("kirk");
+    const created = await kirk.create({ name: "Starfleet Vanguard", displayName: "Kirk" });
+    const res = await testRequest(app).post("/api/alliance/join").send({ code: created.alliance.joinCode });
+    expect(res.status).toBe(200);
+    return kirk;
+  }
+
+  it("reports no membership outside an alliance", async () => {
+    const res = await testRequest(app).get("/api/alliance");
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ membership: null, members: [] });
+
+    const plan = await testRequest(app).get("/api/alliance/plan");
+    expect(plan.status).toBe(404);
+    expect(plan.body.error.hints).toBeDefined();
+  });
+
+  it("creates an alliance and validates the body", async () => {
+    const res = await testRequest(app).post("/api/alliance").send({ name: "Starfleet Vanguard", tag: "SFV" });
+    expect(res.status).toBe(201);
+    expect(res.body.data).toMatchObject({ role: "leader", memberCount: 1 });
+    expect(res.body.data.alliance.joinCode).toMatch(/^[A-Z2-9]{8}$/);
+
+    const again = await testRequest(app).post("/api/alliance").send({ name: "Second" });
+    expect(again.status).toBe(409);
+    expect((await testRequest(app).post("/api/alliance").send({ name: "" })).status).toBe(400);
+    expect((await testRequest(app).post("/api/alliance").send({ name: "x", tag: "TOOLONGTAG" })).status).toBe(400);
+  });
+
+  it("joins by code and rejects bad codes", async () => {
+    expect((await testRequest(app).post("/api/alliance/join").send({})).status).toBe(400);
+    expect((await testRequest(app).post("/api/alliance/join").send({ code: "NOPE2345" })).status).toBe(404);
+
+    await joinAsMember();
+    const res = await testRequest(app).get("/api/alliance");
+    expect(res.body.data.membership).toMatchObject({ role: "member", memberCount: 2 });
+    expect(res.body.data.membership.alliance.joinCode).toBeNull();
+    expect(res.body.data.members.map((m: { userId: string }) => m.userId)).toEqual(["kirk", "local"]);
+  });
+
+  it("maps alliance role errors to 403", async () => {
+    await joinAsMember();
+
+    const plan = await testRequest(app).post("/api/alliance/plan").send({ title: "Take the Gorn system" });
+    expect(plan.status).toBe(403);
+    expect(plan.body.error.code).toBe("FORBIDDEN");
+    expect((await testRequest(app).patch("/api/alliance").send({ name: "Mutiny" })).status).toBe(403);
+    expect((await testRequest(app).delete("/api/alliance/members/kirk")).status).toBe(403);
+  });
+
+  it("validates member role changes and the sharing opt-in", async () => {
+    await joinAsMember();
+
+    expect((await testRequest(app).patch("/api/alliance/members/kirk").send({ role: "captain" })).status).toBe(400);
+    expect((await testRequest(app).patch("/api/alliance/me").send({ shareOverlays: "yes" })).status).toBe(400);
+
+    const res = await testRequest(app).patch("/api/alliance/me").send({ shareOverlays: true });
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ userId: "local", shareOverlays: true });
+  });
+
+  it("manages plan items and targets as leader", async () => {
+    await testRequest(app).post("/api/alliance").send({ name: "Starfleet Vanguard" });
+
+    expect((await testRequest(app).post("/api/alliance/plan").send({ title: "x", dueAt: "someday" })).status).toBe(400);
+    const created = await testRequest(app).post("/api/alliance/plan").send({ title: "Take the Gorn system" });
+    expect(created.status).toBe(201);
+    const id = created.body.data.id;
+
+    expect((await testRequest(app).patch(`/api/alliance/plan/${id}`).send({ status: "later" })).status).toBe(400);
+    const done = await testRequest(app).patch(`/api/alliance/plan/${id}`).send({ status: "done" });
+    expect(done.body.data.status).toBe("done");
+    expect((await testRequest(app).patch("/api/alliance/plan/9999").send({ status: "done" })).status).toBe(404);
+    expect((await testRequest(app).delete(`/api/alliance/plan/${id}`)).status).toBe(200);
+
+    expect((await testRequest(app).post("/api/alliance/targets").send({ targetType: "planet", label: "x" })).status).toBe(400);
+    expect((await testRequest(app).post("/api/alliance/targets").send({ targetType: "ship", label: "x", priority: 5 })).status).toBe(400);
+    const target = await testRequest(app).post("/api/alliance/targets").send({ targetType: "ship", label: "Borg Cube", priority: 1 });
+    expect(target.status).toBe(201);
+    expect((await testRequest(app).get("/api/alliance/targets")).body.data.count).toBe(1);
+  });
+
+  it("schedules armadas and records sign-ups", async () => {
+    const kirk = await joinAsMember();
+    const startsAt = new Date(Date.now() + 86_400_000).toISOString();
+    const armada = await kirk.createArmada({ name: "Gorn Eclipse", startsAt, minParticipants: 3 });
+
+    expect((await testRequest(app).post("/api/alliance/armadas").send({ name: "Mine", startsAt })).status).toBe(403);
+
+    const signed = await testRequest(app).post(`/api/alliance/armadas/${armada.id}/signup`).send({ shipName: "Saladin" });
+    expect(signed.status).toBe(200);
+    expect(signed.body.data.signups).toEqual([expect.objectContaining({ userId: "local", shipName: "Saladin" })]);
+
+    const list = await testRequest(app).get("/api/alliance/armadas?upcoming=true");
+    expect(list.body.data.count).toBe(1);
+
+    const withdrawn = await testRequest(app).delete(`/api/alliance/armadas/${armada.id}/signup`);
+    expect(withdrawn.body.data.signups).toEqual([]);
+    expect((await testRequest(app).post("/api/alliance/armadas/9999/signup").send({})).status).toBe(404);
+  });
+
+  it("validates armada input as leader", async () => {
+    await testRequest(app).post("/api/alliance").send({ name: "Starfleet Vanguard" });
+
+    expect((await testRequest(app).post("/api/alliance/armadas").send({ name: "Gorn" })).status).toBe(400);
+    expect((await testRequest(app).post("/api/alliance/armadas").send({
+      name: "Gorn", startsAt: new Date().toISOString(), minParticipants: 0,
+    })).status).toBe(400);
+  });
+
+  it("names an armada after its catalog hostile", async () => {
+    const referenceStore = createMockReferenceStore();
+    app = createApp(makeState({ allianceStoreFactory: factory, referenceStore }));
+    await testRequest(app).post("/api/alliance").send({ name: "Starfleet Vanguard" });
+    const startsAt = new Date(Date.now() + 86_400_000).toISOString();
+
+    const res = await testRequest(app).post("/api/alliance/armadas").send({ hostileId: "cdn:hostile:9001", startsAt, minParticipants: 5 });
+    expect(res.status).toBe(201);
+    expect(res.body.data).toMatchObject({ name: "Gorn Hunter (Lv 60)", hostileId: "cdn:hostile:9001", hostileName: "Gorn Hunter (Lv 60)", minParticipants: 5 });
+
+    vi.mocked(referenceStore.getHostile).mockResolvedValueOnce(null);
+    expect((await testRequest(app).post("/api/alliance/armadas").send({ hostileId: "cdn:hostile:1", startsAt })).status).toBe(404);
+  });
+
+  it("checks a ship sign-up against the member's dock state", async () => {
+    const crewStore = createMockCrewStore({
+      listReservations: vi.fn().mockResolvedValue([
+        { officerId: "officer-kirk", reservedFor: "Borg armada", locked: true, notes: null, createdAt: "2026-03-01" },
+      ]),
+    });
+    const crewStoreFactory = { forUser: vi.fn(() => crewStore) } as unknown as CrewStoreFactory;
+    app = createApp(makeState({ allianceStoreFactory: factory, referenceStore: createMockReferenceStore(), crewStoreFactory }));
+    const kirk = await joinAsMember();
+    const armada = await kirk.createArmada({ name: "Gorn Eclipse", startsAt: new Date(Date.now() + 86_400_000).toISOString() });
+
+    const res = await testRequest(app).post(`/api/alliance/armadas/${armada.id}/signup`).send({ shipRefId: "ship-enterprise" });
+    expect(res.status).toBe(200);
+    expect(crewStoreFactory.forUser).toHaveBeenCalledWith("local");
+    expect(res.body.data.signups[0]).toMatchObject({
+      shipRefId: "ship-enterprise",
+      shipName: "USS Enterprise",
+      loadoutId: 10,
+      dockNumber: 1,
+      issues: [{ type: "officer_reserved", officerId: "officer-kirk", detail: "Reserved for: Borg armada" }],
+    });
+
+    expect((await testRequest(app).post(`/api/alliance/armadas/${armada.id}/signup`).send({ loadoutId: 10 })).status).toBe(400);
+    const wrongLoadout = await testRequest(app).post(`/api/alliance/armadas/${armada.id}/signup`).send({ shipRefId: "ship-enterprise", loadoutId: 99 });
+    expect(wrongLoadout.status).toBe(400);
+    expect(wrongLoadout.body.error.message).toBe("Loadout 99 not found");
+  });
+
+  it("leaves the alliance", async () => {
+    await joinAsMember();
+    const res = await testRequest(app).post("/api/alliance/leave");
+    expect(res.status).toBe(200);
+    expect((await testRequest(app).get("/api/alliance")).body.data.membership).toBeNull();
+  });
+});
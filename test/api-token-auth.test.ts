@@ -0,0 +1,282 @@
+/**
+ * api-token-auth.test.ts — Personal access tokens: scope enforcement + routes
+ *
+ * Tests:
+ *   - requireRole/requireVisitor honour token scopes on top of the owner's role
+ *   - token management is closed to tokens themselves
+ *   - /api/auth/tokens create/list/revoke and the Admiral console routes
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import express from "express";
+import cookieParser from "cookie-parser";
+import { testRequest } from "./helpers/test-request.js";
+import { createUserStore, type UserStore } from "../src/server/stores/user-store.js";
+import { createApiTokenStore, type ApiTokenStore } from "../src/server/stores/api-token-store.js";
+import { createAuditStore, type AuditStore } from "../src/server/stores/audit-store.js";
+import type { AppState } from "../src/server/app-context.js";
+import { envelopeMiddleware, errorHandler, sendOk } from "../src/server/envelope.js";
+import { requireRole, requireVisitor, SESSION_COOKIE } from "../src/server/services/auth.js";
+import { createAuthRoutes } from "../src/server/routes/auth.js";
+import { createAdmiralRoutes } from "../src/server/routes/admiral.js";
+import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
+import { makeReadyState as makeState, makeConfig } from "./helpers/make-state.js";
+
+const ADMIN_TOKEN = "test-admiral-token-12345";
+const PASSWORD = "securePassword12345!";
+
+let pool: Pool;
+
+beforeAll(() => {
+  pool = createTestPool();
+});
+
+afterAll(async () => {
+  await pool.end();
+});
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+function buildTestApp(appState: AppState) {
+  const app = express();
+  app.use(envelopeMiddleware);
+  app.use(express.json());
+  app.use(cookieParser());
+
+  app.get("/api/catalog/officers", requireRole(appState, "ensign"), (_req, res) => {
+    sendOk(res, { userId: res.locals.userId, apiTokenId: res.locals.apiTokenId ?? null });
+  });
+  app.patch("/api/catalog/officers/:id/overlay", requireVisitor(appState), (_req, res) => {
+    sendOk(res, { updated: true });
+  });
+  app.post("/api/mcp", requireVisitor(appState), (_req, res) => {
+    sendOk(res, { userId: res.locals.userId });
+  });
+  app.use(createAuthRoutes(appState));
+  app.use(createAdmiralRoutes(appState));
+  app.use(errorHandler);
+  return app;
+}
+
+async function waitForAuditEvent(auditStore: AuditStore, event: Parameters<AuditStore["queryByEvent"]>[0]) {
+  for (let attempt = 0; attempt < 20; attempt += 1) {
+    const entries = await auditStore.queryByEvent(event, 5);
+    if (entries.length > 0) return entries;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  return auditStore.queryByEvent(event, 5);
+}
+
+describe("API tokens", () => {
+  let userStore: UserStore;
+  let apiTokenStore: ApiTokenStore;
+  let auditStore: AuditStore;
+  let state: AppState;
+  let app: ReturnType<typeof buildTestApp>;
+
+  async function createUser(email: string, role: "ensign" | "lieutenant") {
+    const { user } = await userStore.signUp({ email, password: PASSWORD, displayName: email.split("@")[0]! });
+    await userStore.setEmailVerified(user.id, true);
+    await userStore.setRole(user.id, role);
+    return user.id;
+  }
+
+  beforeEach(async () => {
+    await cleanDatabase(pool);
+    userStore = await createUserStore(pool);
+    apiTokenStore = await createApiTokenStore(pool);
+    auditStore = await createAuditStore(pool);
+    state = makeState({
+      config: makeConfig({ adminToken: ADMIN_TOKEN, authEnabled: true }),
+      userStore,
+      apiTokenStore,
+      auditStore,
+    });
+    app = buildTestApp(state);
+  });
+
+  // ── Enforcement ───────────────────────────────────────────
+
+  describe("scope enforcement", () => {
+    it("lets a token reach routes its scopes cover", async () => {
+      const userId = await createUser("uhura@example.com", "lieutenant");
+      const { token, secret } = await apiTokenStore.createToken(userId, { name: "Sheet", scopes: ["catalog:read"], expiresInDays: null });
+
+      const res = await testRequest(app).get("/api/catalog/officers?limit=5").set("Authorization", `Bearer ${secret}`);
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual({ userId, apiTokenId: token.id });
+    });
+
+    it("rejects a token without the route's scope", async () => {
+      const userId = await createUser("uhura@example.com", "lieutenant");
+      const { secret } = await apiTokenStore.createToken(userId, { name: "Sheet", scopes: ["catalog:read"], expiresInDays: null });
+
+      const res = await testRequest(app)
+        .patch("/api/catalog/officers/kirk/overlay")
+        .set("Authorization", `Bearer ${secret}`)
+        .send({ ownershipState: "owned" });
+      expect(res.status).toBe(403);
+      expect(res.body.error.code).toBe("INSUFFICIENT_SCOPE");
+      expect(res.body.error.detail).toEqual({ requiredScope: "overlay:write" });
+    });
+
+    it("still applies the owner's rank", async () => {
+      const userId = await createUser("chekov@example.com", "ensign");
+      const { secret } = await apiTokenStore.createToken(userId, { name: "Bot", scopes: ["overlay:write"], expiresInDays: null });
+
+      const res = await testRequest(app)
+        .patch("/api/catalog/officers/kirk/overlay")
+        .set("Authorization", `Bearer ${secret}`)
+        .send({ ownershipState: "owned" });
+      expect(res.status).toBe(403);
+      expect(res.body.error.code).toBe("INSUFFICIENT_RANK");
+    });
+
+    it("keeps token management closed to tokens", async () => {
+      const userId = await createUser("uhura@example.com", "lieutenant");
+      const { secret } = await apiTokenStore.createToken(userId, { name: "Everything", scopes: ["catalog:read", "overlay:write", "plan:read", "chat:run"], expiresInDays: null });
+
+      const res = await testRequest(app)
+        .post("/api/auth/tokens")
+        .set("Authorization", `Bearer ${secret}`)
+        .send({ name: "Escalate", scopes: ["chat:run"] });
+      expect(res.status).toBe(403);
+      expect(res.body.error.code).toBe("INSUFFICIENT_SCOPE");
+      expect(res.body.error.detail).toEqual({ requiredScope: null });
+    });
+
+    it("limits an mcp token to the MCP endpoint", async () => {
+      const userId = await createUser("uhura@example.com", "lieutenant");
+      const { secret } = await apiTokenStore.createToken(userId, { name: "MCP client", scopes: ["mcp"], expiresInDays: 30 });
+
+      const mcp = await testRequest(app).post("/api/mcp").set("Authorization", `Bearer ${secret}`).send({});
+      expect(mcp.status).toBe(200);
+      expect(mcp.body.data.userId).toBe(userId);
+      const catalog = await testRequest(app).get("/api/catalog/officers").set("Authorization", `Bearer ${secret}`);
+      expect(catalog.status).toBe(403);
+    });
+
+    it("does not accept a session token as Bearer", async () => {
+      const userId = await createUser("uhura@example.com", "lieutenant");
+      const session = await userStore.createSession(userId);
+
+      const bearer = await testRequest(app).get("/api/catalog/officers").set("Authorization", `Bearer ${session.id}`);
+      expect(bearer.status).toBe(401);
+      const cookie = await testRequest(app).get("/api/catalog/officers").set("Cookie", `${SESSION_COOKIE}=${session.id}`);
+      expect(cookie.status).toBe(200);
+    });
+
+    it("rejects revoked tokens and records last use", async () => {
+      const userId = await createUser("uhura@example.com", "lieutenant");
+      const { token, secret } = await apiTokenStore.createToken(userId, { name: "Sheet", scopes: ["catalog:read"], expiresInDays: null });
+
+      await testRequest(app).get("/api/catalog/officers").set("Authorization", `Bearer ${secret}`);
+      // last-use tracking is fire-and-forget
+      let lastUsedAt: string | null = null;
+      for (let attempt = 0; attempt < 20 && !lastUsedAt; attempt += 1) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        lastUsedAt = (await apiTokenStore.listTokens(userId))[0]!.lastUsedAt;
+      }
+      expect(lastUsedAt).not.toBeNull();
+
+      await apiTokenStore.revokeToken(token.id);
+      const res = await testRequest(app).get("/api/catalog/officers").set("Authorization", `Bearer ${secret}`);
+      expect(res.status).toBe(401);
+    });
+  });
+
+  // ── Routes ────────────────────────────────────────────────
+
+  describe("/api/auth/tokens", () => {
+    async function signIn(email: string, role: "ensign" | "lieutenant" = "lieutenant") {
+      const userId = await createUser(email, role);
+      const { sessionToken } = await userStore.signIn(email, PASSWORD);
+      return { userId, cookie: `${SESSION_COOKIE}=${sessionToken}` };
+    }
+
+    it("creates a token, shows the secret once and lists it without the secret", async () => {
+      const { userId, cookie } = await signIn("uhura@example.com");
+
+      const created = await testRequest(app)
+        .post("/api/auth/tokens")
+        .set("Cookie", cookie)
+        .send({ name: "Fleet sheet", scopes: ["catalog:read", "plan:read"], expiresInDays: 30 });
+      expect(created.status).toBe(201);
+      expect(created.body.data.secret).toMatch(/^mjl_pat_/);
+      expect(created.body.data.token).toMatchObject({ name: "Fleet sheet", scopes: ["catalog:read", "plan:read"] });
+
+      const listed = await testRequest(app).get("/api/auth/tokens").set("Cookie", cookie);
+      expect(listed.status).toBe(200);
+      expect(listed.body.data.tokens).toHaveLength(1);
+      expect(JSON.stringify(listed.body.data)).not.toContain(created.body.data.secret);
+
+      const entries = await waitForAuditEvent(auditStore, "auth.token.create");
+      expect(entries[0]).toMatchObject({ actorId: userId });
+    });
+
+    it("defaults to a 90-day expiry and accepts null for none", async () => {
+      const { cookie } = await signIn("uhura@example.com");
+
+      const defaulted = await testRequest(app).post("/api/auth/tokens").set("Cookie", cookie).send({ name: "A", scopes: ["chat:run"] });
+      const expiresAt = new Date(defaulted.body.data.token.expiresAt).getTime();
+      expect(expiresAt).toBeGreaterThan(Date.now() + 89 * 86_400_000);
+
+      const forever = await testRequest(app).post("/api/auth/tokens").set("Cookie", cookie).send({ name: "B", scopes: ["chat:run"], expiresInDays: null });
+      expect(forever.body.data.token.expiresAt).toBeNull();
+    });
+
+    it("validates name, scopes and expiry", async () => {
+      const { cookie } = await signIn("uhura@example.com");
+
+      for (const body of [
+        { name: "", scopes: ["chat:run"] },
+        { name: "A", scopes: [] },
+        { name: "A", scopes: ["admin:all"] },
+        { name: "A", scopes: ["chat:run"], expiresInDays: 0 },
+        { name: "A", scopes: ["chat:run"], expiresInDays: 400 },
+      ]) {
+        const res = await testRequest(app).post("/api/auth/tokens").set("Cookie", cookie).send(body);
+        expect(res.status).toBe(400);
+        expect(res.body.error.code).toBe("INVALID_PARAM");
+      }
+    });
+
+    it("revokes only the caller's own tokens", async () => {
+      const uhura = await signIn("uhura@example.com");
+      const sulu = await signIn("sulu@example.com");
+      const { token } = await apiTokenStore.createToken(uhura.userId, { name: "Sheet", scopes: ["catalog:read"], expiresInDays: null });
+
+      const foreign = await testRequest(app).delete(`/api/auth/tokens/${token.id}`).set("Cookie", sulu.cookie);
+      expect(foreign.status).toBe(404);
+
+      const own = await testRequest(app).delete(`/api/auth/tokens/${token.id}`).set("Cookie", uhura.cookie);
+      expect(own.status).toBe(200);
+      expect((await apiTokenStore.listTokens(uhura.userId))[0]!.revokedAt).not.toBeNull();
+    });
+  });
+
+  describe("/api/admiral/tokens", () => {
+    it("lists every token and revokes any of them", async () => {
+      const userId = await createUser("uhura@example.com", "lieutenant");
+      const { token } = await apiTokenStore.createToken(userId, { name: "Sheet", scopes: ["catalog:read"], expiresInDays: null });
+
+      const listed = await testRequest(app).get("/api/admiral/tokens").set("Authorization", `Bearer ${ADMIN_TOKEN}`);
+      expect(listed.status).toBe(200);
+      expect(listed.body.data.tokens[0]).toMatchObject({ id: token.id, ownerEmail: "uhura@example.com" });
+
+      const revoked = await testRequest(app).delete(`/api/admiral/tokens/${token.id}`).set("Authorization", `Bearer ${ADMIN_TOKEN}`);
+      expect(revoked.status).toBe(200);
+
+      const entries = await waitForAuditEvent(auditStore, "admin.token_revoke");
+      expect(entries[0]).toMatchObject({ targetId: userId });
+    });
+
+    it("is closed to lieutenants", async () => {
+      await createUser("uhura@example.com", "lieutenant");
+      const { sessionToken } = await userStore.signIn("uhura@example.com", PASSWORD);
+
+      const res = await testRequest(app).get("/api/admiral/tokens").set("Cookie", `${SESSION_COOKIE}=${sessionToken}`);
+      expect(res.status).toBe(403);
+    });
+  });
+});
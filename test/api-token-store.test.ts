@@ -0,0 +1,125 @@
+/**
+ * api-token-store.test.ts — Personal access token store + scope policy
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createUserStore, type UserStore } from "../src/server/stores/user-store.js";
+import { createApiTokenStore, API_TOKEN_PREFIX, type ApiTokenStore } from "../src/server/stores/api-token-store.js";
+import { requiredTokenScope } from "../src/server/services/token-scopes.js";
+import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
+
+// ─── Scope Policy ───────────────────────────────────────────
+
+describe("requiredTokenScope", () => {
+  it("maps catalog reads and overlay writes", () => {
+    expect(requiredTokenScope("GET", "/api/catalog/officers")).toBe("catalog:read");
+    expect(requiredTokenScope("GET", "/api/catalog/ships/merged")).toBe("catalog:read");
+    expect(requiredTokenScope("PATCH", "/api/catalog/officers/kirk/overlay")).toBe("overlay:write");
+    expect(requiredTokenScope("DELETE", "/api/catalog/ships/enterprise/overlay")).toBe("overlay:write");
+    expect(requiredTokenScope("POST", "/api/catalog/officers/bulk-overlay")).toBe("overlay:write");
+  });
+
+  it("maps plan reads and chat runs", () => {
+    expect(requiredTokenScope("GET", "/api/crew/plan")).toBe("plan:read");
+    expect(requiredTokenScope("GET", "/api/effective-state")).toBe("plan:read");
+    expect(requiredTokenScope("GET", "/api/targets/")).toBe("plan:read");
+    expect(requiredTokenScope("POST", "/api/chat")).toBe("chat:run");
+    expect(requiredTokenScope("GET", "/api/chat/runs/abc")).toBe("chat:run");
+  });
+
+  it("maps the MCP endpoint but not token minting", () => {
+    expect(requiredTokenScope("POST", "/api/mcp")).toBe("mcp");
+    expect(requiredTokenScope("POST", "/api/mcp/token")).toBeNull();
+  });
+
+  it("closes everything else to tokens", () => {
+    expect(requiredTokenScope("POST", "/api/crew/plan")).toBeNull();
+    expect(requiredTokenScope("POST", "/api/auth/tokens")).toBeNull();
+    expect(requiredTokenScope("POST", "/api/auth/change-password")).toBeNull();
+    expect(requiredTokenScope("GET", "/api/admiral/tokens")).toBeNull();
+    expect(requiredTokenScope("GET", "/api/catalogue")).toBeNull();
+  });
+});
+
+// ─── Integration Tests (PG) ────────────────────────────────
+
+describe("ApiTokenStore — integration", () => {
+  let pool: Pool;
+  let userStore: UserStore;
+  let store: ApiTokenStore;
+  let userId: string;
+
+  beforeAll(() => {
+    pool = createTestPool();
+  });
+  afterAll(async () => {
+    await pool.end();
+  });
+  beforeEach(async () => {
+    await cleanDatabase(pool);
+    userStore = await createUserStore(pool);
+    store = await createApiTokenStore(pool);
+    const { user } = await userStore.signUp({ email: "uhura@example.com", password: "securePassword12345!", displayName: "Uhura" });
+    userId = user.id;
+  });
+
+  it("creates a token whose secret resolves to the owner and scopes", async () => {
+    const { token, secret } = await store.createToken(userId, { name: "Sheet", scopes: ["catalog:read", "plan:read"], expiresInDays: 30 });
+
+    expect(secret.startsWith(API_TOKEN_PREFIX)).toBe(true);
+    expect(secret.startsWith(token.tokenPrefix)).toBe(true);
+    expect(token.scopes).toEqual(["catalog:read", "plan:read"]);
+    expect(new Date(token.expiresAt!).getTime()).toBeGreaterThan(Date.now() + 29 * 86_400_000);
+
+    const resolved = await store.resolveToken(secret);
+    expect(resolved).toMatchObject({ tokenId: token.id, userId, email: "uhura@example.com", role: "ensign", scopes: ["catalog:read", "plan:read"] });
+  });
+
+  it("never stores the secret in clear", async () => {
+    const { secret } = await store.createToken(userId, { name: "Bot", scopes: ["chat:run"], expiresInDays: null });
+    const res = await pool.query("SELECT token_hash FROM api_tokens");
+    expect(res.rows[0].token_hash).not.toContain(secret.slice(API_TOKEN_PREFIX.length));
+  });
+
+  it("does not resolve unknown, revoked or expired tokens", async () => {
+    expect(await store.resolveToken(`${API_TOKEN_PREFIX}nope`)).toBeNull();
+    expect(await store.resolveToken("not-a-token")).toBeNull();
+
+    const revoked = await store.createToken(userId, { name: "Old", scopes: ["catalog:read"], expiresInDays: null });
+    await store.revokeToken(revoked.token.id, userId);
+    expect(await store.resolveToken(revoked.secret)).toBeNull();
+
+    const expired = await store.createToken(userId, { name: "Short", scopes: ["catalog:read"], expiresInDays: 1 });
+    await pool.query("UPDATE api_tokens SET expires_at = NOW() - INTERVAL '1 minute' WHERE id = $1", [expired.token.id]);
+    expect(await store.resolveToken(expired.secret)).toBeNull();
+    expect(await store.countActiveTokens(userId)).toBe(0);
+  });
+
+  it("records last use", async () => {
+    const { token } = await store.createToken(userId, { name: "Sheet", scopes: ["catalog:read"], expiresInDays: null });
+    await store.touchToken(token.id, "10.0.0.7");
+
+    const [listed] = await store.listTokens(userId);
+    expect(listed!.lastUsedAt).not.toBeNull();
+    expect(listed!.lastUsedIp).toBe("10.0.0.7");
+  });
+
+  it("only lets the owner revoke through the owned path", async () => {
+    const other = await userStore.signUp({ email: "sulu@example.com", password: "securePassword12345!", displayName: "Sulu" });
+    const { token } = await store.createToken(userId, { name: "Sheet", scopes: ["catalog:read"], expiresInDays: null });
+
+    expect(await store.revokeToken(token.id, other.user.id)).toBeNull();
+    expect(await store.revokeToken(token.id)).toMatchObject({ id: token.id, userId });
+    expect(await store.revokeToken(token.id)).toBeNull();
+
+    const [all] = await store.listAllTokens();
+    expect(all).toMatchObject({ id: token.id, ownerEmail: "uhura@example.com", ownerDisplayName: "Uhura" });
+    expect(all!.revokedAt).not.toBeNull();
+  });
+
+  it("removes tokens with their owner", async () => {
+    await store.createToken(userId, { name: "Sheet", scopes: ["catalog:read"], expiresInDays: null });
+    await userStore.deleteUser(userId);
+    expect(await store.listAllTokens()).toEqual([]);
+  });
+});
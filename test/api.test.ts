@@ -14,6 +14,7 @@ import type { MemoryService, Frame } from "../src/server/services/memory.js";
 import { createSettingsStore, type SettingsStore } from "../src/server/stores/settings.js";
 import { createOperationEventStoreFactory } from "../src/server/stores/operation-event-store.js";
 import { createChatRunStore } from "../src/server/stores/chat-run-store.js";
+import { createSessionStore, type SessionStore } from "../src/server/sessions.js";
 import { TokenBudgetExceededError, type BudgetStatus, type TokenBudgetStore } from "../src/server/stores/token-budget-store.js";
 import { makeState, makeConfig } from "./helpers/make-state.js";
 import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
@@ -39,6 +40,8 @@ function makeMockMemory(frames: Frame[] = []): MemoryService {
   return {
     remember: vi.fn().mockResolvedValue(makeFrame()),
     recall: vi.fn().mockResolvedValue(frames),
+    search: vi.fn().mockResolvedValue(frames.map((frame) => ({ frame, score: 0.8, similarity: 0.7, keywordScore: 1 }))),
+    backfillEmbeddings: vi.fn().mockResolvedValue(0),
     timeline: vi.fn().mockResolvedValue(frames),
     close: vi.fn().mockResolvedValue(undefined),
     getFrameCount: vi.fn().mockResolvedValue(frames.length),
@@ -261,7 +264,7 @@ describe("POST /api/chat", () => {
     expect(res.body.data.runId).toMatch(/^crun_/);
     expect(res.body.data.sessionId).toBe("default");
     expect(res.body.data.tabId).toBe("default_tab");
-    expect(engine.chat).toHaveBeenCalledWith("Hello", "default", undefined, "local", expect.any(String), undefined, "fleet", false, "admiral");
+    expect(engine.chat).toHaveBeenCalledWith("Hello", "default", undefined, "local", expect.any(String), undefined, "fleet", false, "admiral", undefined);
   });
 
   it("supports async submit-and-return flow with run status", async () => {
@@ -519,7 +522,7 @@ describe("POST /api/chat", () => {
       .set("X-Session-Id", "tab-abc")
       .send({ message: "Hello from tab A" });
 
-    expect(engine.chat).toHaveBeenCalledWith("Hello from tab A", "tab-abc", undefined, "local", expect.any(String), undefined, "fleet", false, "admiral");
+    expect(engine.chat).toHaveBeenCalledWith("Hello from tab A", "tab-abc", undefined, "local", expect.any(String), undefined, "fleet", false, "admiral", undefined);
   });
 
   it("uses 'default' session when no X-Session-Id header", async () => {
@@ -531,7 +534,7 @@ describe("POST /api/chat", () => {
       .post("/api/chat")
       .send({ message: "Hello" });
 
-    expect(engine.chat).toHaveBeenCalledWith("Hello", "default", undefined, "local", expect.any(String), undefined, "fleet", false, "admiral");
+    expect(engine.chat).toHaveBeenCalledWith("Hello", "default", undefined, "local", expect.any(String), undefined, "fleet", false, "admiral", undefined);
   });
 
   it("isolates history between different session IDs", async () => {
@@ -684,6 +687,7 @@ describe("GET /api/recall", () => {
     expect(res.body.data.results[0].id).toBe("recall-1");
     expect(res.body.data.results[0].reference).toBe("Kirk discussion");
     expect(res.body.data.results[0].keywords).toEqual(["kirk", "captain"]);
+    expect(res.body.data.results[0]).toMatchObject({ score: 0.8, similarity: 0.7, keywordScore: 1 });
   });
 
   it("passes limit to recall", async () => {
@@ -692,12 +696,12 @@ describe("GET /api/recall", () => {
     const app = createApp(state);
 
     await testRequest(app).get("/api/recall?q=test&limit=5");
-    expect(memory.recall).toHaveBeenCalledWith("test", 5);
+    expect(memory.search).toHaveBeenCalledWith("test", 5);
   });
 
   it("returns 500 when recall throws", async () => {
     const memory = makeMockMemory();
-    (memory.recall as ReturnType<typeof vi.fn>).mockRejectedValue(
+    (memory.search as ReturnType<typeof vi.fn>).mockRejectedValue(
       new Error("Search index corrupt")
     );
     const state = makeState({ memoryService: memory });
@@ -761,7 +765,7 @@ describe("edge cases", () => {
 
   it("recall handles non-Error throw gracefully", async () => {
     const memory = makeMockMemory();
-    (memory.recall as ReturnType<typeof vi.fn>).mockRejectedValue(
+    (memory.search as ReturnType<typeof vi.fn>).mockRejectedValue(
       "string error"
     );
     const state = makeState({ memoryService: memory });
@@ -802,7 +806,7 @@ describe("edge cases", () => {
     const app = createApp(state);
 
     await testRequest(app).get("/api/recall?q=test");
-    expect(memory.recall).toHaveBeenCalledWith("test", 10);
+    expect(memory.search).toHaveBeenCalledWith("test", 10);
   });
 });
 
@@ -1465,6 +1469,7 @@ describe("image validation", () => {
       "fleet",
       false,
       "admiral",
+      undefined,
     );
   });
 });
@@ -1496,3 +1501,90 @@ describe("message validation edge cases", () => {
     expect(res.body.error.message).toContain("Invalid session ID");
   });
 });
+
+// ─── Conversation branching ─────────────────────────────────────
+
+describe("conversation branching", () => {
+  let sessionStore: SessionStore;
+
+  beforeEach(async () => {
+    await cleanDatabase(pool);
+    sessionStore = await createSessionStore(pool);
+  });
+
+  const routeOf = (engine: ChatEngine, call: number) => vi.mocked(engine.chat).mock.calls[call][9];
+
+  it("returns the stored IDs of each turn", async () => {
+    const app = createApp(makeState({ geminiEngine: makeMockEngine(), sessionStore }));
+
+    const res = await testRequest(app).post("/api/chat").send({ message: "Hello" });
+    expect(res.status).toBe(200);
+    const branch = await sessionStore.getBranch("default");
+    expect(res.body.data.messageIds).toEqual({ user: branch[0].id, model: branch[1].id });
+  });
+
+  it("keeps follow-ups on the engine's live session", async () => {
+    const engine = makeMockEngine();
+    const app = createApp(makeState({ geminiEngine: engine, sessionStore }));
+
+    await testRequest(app).post("/api/chat").send({ message: "Q1" });
+    await testRequest(app).post("/api/chat").send({ message: "Q2" });
+    expect(routeOf(engine, 1)).toBeUndefined();
+    expect(engine.closeSession).not.toHaveBeenCalled();
+  });
+
+  it("edits a user message on a new branch and rebuilds the engine session", async () => {
+    const engine = makeMockEngine("Kirk, Spock, McCoy");
+    const app = createApp(makeState({ geminiEngine: engine, sessionStore }));
+
+    const first = await testRequest(app).post("/api/chat").send({ message: "Crew for the Enterprise?" });
+    await testRequest(app).post("/api/chat").send({ message: "And for mining?" });
+    const edit = await testRequest(app).post("/api/chat").send({
+      message: "PvP crew for the Enterprise?",
+      editMessageId: first.body.data.messageIds.user,
+    });
+
+    expect(edit.status).toBe(200);
+    expect(engine.closeSession).toHaveBeenCalledWith("local:default");
+    expect(routeOf(engine, 2)).toEqual({ history: [] });
+
+    const session = await sessionStore.get("default");
+    expect(session!.messages.map((m) => m.text)).toEqual(["PvP crew for the Enterprise?", "Kirk, Spock, McCoy"]);
+    expect(session!.messages[0].branchIds).toEqual([first.body.data.messageIds.user, edit.body.data.messageIds.user]);
+    expect(await sessionStore.getBranch("default", first.body.data.messageIds.model)).toHaveLength(2);
+  });
+
+  it("regenerates a reply from the branch before it", async () => {
+    const engine = makeMockEngine();
+    const app = createApp(makeState({ geminiEngine: engine, sessionStore }));
+
+    await testRequest(app).post("/api/chat").send({ message: "Q1" });
+    const second = await testRequest(app).post("/api/chat").send({ message: "Q2" });
+    const regen = await testRequest(app).post("/api/chat").send({ regenerateMessageId: second.body.data.messageIds.model });
+
+    expect(regen.status).toBe(200);
+    expect(vi.mocked(engine.chat).mock.calls[2][0]).toBe("Q2");
+    expect(routeOf(engine, 2)).toEqual({
+      history: [{ role: "user", text: "Q1" }, { role: "model", text: "Aye, Admiral." }],
+    });
+    expect(regen.body.data.messageIds.user).toBe(second.body.data.messageIds.user);
+
+    const branch = await sessionStore.getBranch("default");
+    expect(branch).toHaveLength(4);
+    expect(branch[3].branchIds).toEqual([second.body.data.messageIds.model, regen.body.data.messageIds.model]);
+  });
+
+  it("validates edit and regenerate targets", async () => {
+    const app = createApp(makeState({ geminiEngine: makeMockEngine(), sessionStore }));
+    const first = await testRequest(app).post("/api/chat").send({ message: "Q1" });
+    const { user, model } = first.body.data.messageIds;
+
+    const both = await testRequest(app).post("/api/chat").send({ message: "x", editMessageId: user, regenerateMessageId: model });
+    expect(both.status).toBe(400);
+    expect((await testRequest(app).post("/api/chat").send({ message: "x", editMessageId: "1" })).status).toBe(400);
+    // Editing needs a user message, regenerating a reply
+    expect((await testRequest(app).post("/api/chat").send({ message: "x", editMessageId: model })).status).toBe(404);
+    expect((await testRequest(app).post("/api/chat").send({ regenerateMessageId: user })).status).toBe(404);
+    expect((await testRequest(app).post("/api/chat").set("X-Session-Id", "other").send({ regenerateMessageId: model })).status).toBe(404);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * armada-signup-check.test.ts — Armada sign-ups checked against the dock state
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { checkArmadaSignup } from "../src/server/services/armada-signup-check.js";
+import { AllianceError } from "../src/server/stores/alliance-store-helpers.js";
+import type { LoadoutWithRefs } from "../src/server/types/crew-types.js";
+import { createMockCrewStore } from "./fleet-tools/helpers.js";
+
+function loadout(overrides: Partial<LoadoutWithRefs> = {}): LoadoutWithRefs {
+  return {
+    id: 10, shipId: "ship-enterprise", bridgeCoreId: 1, belowDeckPolicyId: null, name: "Kirk Crew",
+    priority: 1, isActive: true, intentKeys: [], tags: [], notes: null,
+    createdAt: "2026-03-01T00:00:00.000Z", updatedAt: "2026-03-01T00:00:00.000Z",
+    bridgeCore: {
+      id: 1, name: "TOS", notes: null, createdAt: "2026-03-01T00:00:00.000Z", updatedAt: "2026-03-01T00:00:00.000Z",
+      members: [
+        { id: 1, bridgeCoreId: 1, officerId: "officer-kirk", slot: "captain" },
+        { id: 2, bridgeCoreId: 1, officerId: "officer-spock", slot: "bridge_1" },
+      ],
+    },
+    belowDeckPolicy: null,
+    ...overrides,
+  };
+}
+
+describe("checkArmadaSignup", () => {
+  it("passes a docked ship whose bridge is free", async () => {
+    const crewStore = createMockCrewStore({ getLoadout: vi.fn().mockResolvedValue(loadout()) });
+
+    expect(await checkArmadaSignup(crewStore, "ship-enterprise", 10)).toEqual({
+      loadoutId: 10, loadoutName: "Kirk Crew", dockNumber: 1, issues: [],
+    });
+  });
+
+  it("falls back to the docked loadout when none is named", async () => {
+    const crewStore = createMockCrewStore();
+    const check = await checkArmadaSignup(crewStore, "ship-enterprise", null);
+
+    expect(crewStore.getLoadout).not.toHaveBeenCalled();
+    expect(check).toMatchObject({ loadoutId: 10, loadoutName: "Kirk Crew", dockNumber: 1, issues: [] });
+  });
+
+  it("flags a ship that is not in a dock", async () => {
+    const check = await checkArmadaSignup(createMockCrewStore(), "ship-vidar", null);
+
+    expect(check.dockNumber).toBeNull();
+    expect(check.issues).toEqual([{ type: "not_docked", officerId: null, detail: "Ship is not assigned to a dock" }]);
+  });
+
+  it("flags bridge officers on away teams or under hard reservations", async () => {
+    const base = createMockCrewStore();
+    const state = await base.getEffectiveDockState();
+    const crewStore = createMockCrewStore({
+      getLoadout: vi.fn().mockResolvedValue(loadout()),
+      getEffectiveDockState: vi.fn().mockResolvedValue({
+        ...state,
+        awayTeams: [{ label: "Dilithium run", officers: ["officer-spock"], source: "manual" }],
+      }),
+      listReservations: vi.fn().mockResolvedValue([
+        { officerId: "officer-kirk", reservedFor: "Borg armada", locked: true, notes: null, createdAt: "2026-03-01" },
+        { officerId: "officer-spock", reservedFor: "Mining", locked: false, notes: null, createdAt: "2026-03-01" },
+      ]),
+    });
+
+    const check = await checkArmadaSignup(crewStore, "ship-enterprise", 10);
+    expect(check.issues).toEqual([
+      { type: "officer_reserved", officerId: "officer-kirk", detail: "Reserved for: Borg armada" },
+      { type: "away_team", officerId: "officer-spock", detail: "On away mission: Dilithium run" },
+    ]);
+  });
+
+  it("rejects a missing loadout or one for another ship", async () => {
+    await expect(checkArmadaSignup(createMockCrewStore(), "ship-enterprise", 99)).rejects.toThrow(AllianceError);
+
+    const crewStore = createMockCrewStore({ getLoadout: vi.fn().mockResolvedValue(loadout({ shipId: "ship-vidar" })) });
+    await expect(checkArmadaSignup(crewStore, "ship-enterprise", 10)).rejects.toMatchObject({
+      reason: "invalid",
+      message: 'Loadout "Kirk Crew" is for a different ship',
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * battle-log.test.ts — Battle report parsing and replay series
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  battleLogFromCsv,
+  buildBattleReplay,
+  classifyBattleFailure,
+  detectBattleLogFormat,
+  enrichBattleContext,
+  labelBattleAnalytics,
+  parseBattleContext,
+  parseBattleLogFile,
+  resolveBattleOutcome,
+} from "../src/server/services/battle-log.js";
+import { parseBattleLog } from "../src/server/services/fleet-tools/read-tools-data-helpers.js";
+import type { ReferenceHostile } from "../src/server/stores/reference-store.js";
+
+const CSV = [
+  "battle_id,mode,round,direction,amount,type,source_officer_id,ability,hull_after,shield_after,destroyed",
+  "b-7,hostile,1,dealt,5000,energy,kirk,,,,",
+  "b-7,hostile,1,received,3000,kinetic,,Cloak Strike,90000,40000,",
+  ",,2,received,2500,kinetic,,,,,",
+  ",,2,received,1500,energy,,,,,",
+  ",,2,dealt,6000,energy,spock,Logic,60000,0,",
+  ",,3,received,70000,kinetic,,Cloak Strike,0,0,true",
+].join("\n");
+
+describe("detectBattleLogFormat", () => {
+  it("prefers the file extension, then sniffs the content", () => {
+    expect(detectBattleLogFormat("round,amount", "fight.json")).toBe("json");
+    expect(detectBattleLogFormat('{"rounds":[]}', "fight.csv")).toBe("csv");
+    expect(detectBattleLogFormat('  {"rounds":[]}')).toBe("json");
+    expect(detectBattleLogFormat("round,amount\n1,5")).toBe("csv");
+  });
+});
+
+describe("battleLogFromCsv", () => {
+  it("groups event rows into rounds", () => {
+    const raw = battleLogFromCsv(CSV);
+    expect(raw.battle_id).toBe("b-7");
+    expect(raw.mode).toBe("hostile");
+    expect(raw.attacker_officers).toEqual(["kirk", "spock"]);
+
+    const parsed = parseBattleLogFile(CSV, "csv")!.log;
+    expect(parsed.rounds.map((r) => r.round)).toEqual([1, 2, 3]);
+    expect(parsed.rounds[1].damageReceived.map((e) => e.amount)).toEqual([2500, 1500]);
+    expect(parsed.rounds[1].shieldAfter).toBe(0);
+    expect(parsed.rounds[2].destroyed).toBe(true);
+    expect(parsed.rounds[0].abilityTriggers).toEqual(["Cloak Strike"]);
+  });
+
+  it("reads fight context columns from the first row that sets them", () => {
+    const csv = [
+      "round,direction,amount,outcome,loadout_id,opponent_faction,opponent_hull_type",
+      "1,received,100,,,,",
+      "2,received,200,defeat,7,Klingon,3",
+    ].join("\n");
+    expect(parseBattleLogFile(csv, "csv")!.context).toMatchObject({
+      outcome: "loss",
+      loadoutId: 7,
+      opponentFaction: "Klingon",
+      opponentHullType: "Battleship",
+    });
+  });
+
+  it("requires a round column", () => {
+    expect(() => battleLogFromCsv("amount,type\n5,energy")).toThrow(/round/);
+  });
+
+  it("returns null for a CSV without data rows", () => {
+    expect(parseBattleLogFile("round,amount\n", "csv")).toBeNull();
+  });
+});
+
+describe("buildBattleReplay", () => {
+  it("sums damage per round and per type with ability counts", () => {
+    const replay = buildBattleReplay(parseBattleLogFile(CSV, "csv")!.log);
+
+    expect(replay.rounds.map((r) => [r.round, r.damageReceived, r.hullAfter])).toEqual([
+      [1, 3000, 90000],
+      [2, 4000, 60000],
+      [3, 70000, 0],
+    ]);
+    expect(replay.rounds[1].receivedByType).toEqual([
+      { type: "kinetic", amount: 2500 },
+      { type: "energy", amount: 1500 },
+    ]);
+    expect(replay.totals.damageDealt).toBe(11000);
+    expect(replay.totals.receivedByType[0]).toEqual({ type: "kinetic", amount: 75500 });
+    expect(replay.abilities).toEqual([
+      { name: "Cloak Strike", count: 2, firstRound: 1 },
+      { name: "Logic", count: 1, firstRound: 2 },
+    ]);
+  });
+});
+
+describe("parseBattleContext", () => {
+  it("reads top-level tags and an opponent object", () => {
+    expect(parseBattleContext({
+      result: "Victory",
+      loadoutId: "12",
+      ship_id: "ship-enterprise",
+      opponent: { name: "Gorn Hunter", faction: 4153667145, hull_type: "explorer", hostile_id: "h-1" },
+    })).toEqual({
+      outcome: "win",
+      loadoutId: 12,
+      shipId: "ship-enterprise",
+      hostileId: "h-1",
+      opponentName: "Gorn Hunter",
+      opponentFaction: "Klingon",
+      opponentHullType: "Explorer",
+    });
+  });
+
+  it("ignores unknown outcomes and invalid loadout IDs", () => {
+    const context = parseBattleContext({ outcome: "draw", loadout_id: -3, opponent: "Marauder" });
+    expect(context.outcome).toBeNull();
+    expect(context.loadoutId).toBeNull();
+    expect(context.opponentName).toBe("Marauder");
+  });
+});
+
+describe("enrichBattleContext", () => {
+  it("fills opponent fields from the hostile catalog", async () => {
+    const getHostile = vi.fn().mockResolvedValue({ name: "Gorn Hunter", faction: "Gorn", hullType: 2 } as ReferenceHostile);
+    const context = await enrichBattleContext(
+      { ...parseBattleContext({ hostile_id: "h-1", opponent_faction: "Rogue" }) },
+      { getHostile },
+    );
+    expect(getHostile).toHaveBeenCalledWith("h-1");
+    expect(context).toMatchObject({ opponentName: "Gorn Hunter", opponentFaction: "Rogue", opponentHullType: "Explorer" });
+  });
+
+  it("skips the lookup without a hostile ID", async () => {
+    const getHostile = vi.fn();
+    await enrichBattleContext(parseBattleContext({}), { getHostile });
+    expect(getHostile).not.toHaveBeenCalled();
+  });
+});
+
+describe("classifyBattleFailure", () => {
+  const log = parseBattleLogFile(CSV, "csv")!.log;
+
+  it("picks the first destroyed round and its dominant damage type", () => {
+    const failure = classifyBattleFailure(log);
+    expect(failure.round.round).toBe(3);
+    expect(failure.likelyCause).toBe("kinetic_spike_overwhelmed_mitigation");
+    expect(resolveBattleOutcome(log, { outcome: null })).toBe("loss");
+    expect(resolveBattleOutcome(log, { outcome: "win" })).toBe("win");
+  });
+
+  it("falls back to the heaviest round when the ship survives", () => {
+    const survived = parseBattleLog({
+      rounds: [
+        { round: 1, damage_received: [{ amount: 50, type: "energy" }] },
+        { round: 2, damage_received: [{ amount: 80 }] },
+      ],
+    })!;
+    const failure = classifyBattleFailure(survived);
+    expect(failure.round.round).toBe(2);
+    expect(failure.likelyCause).toBe("sustained_damage_exceeded_defense");
+    expect(resolveBattleOutcome(survived, { outcome: null })).toBe("win");
+  });
+});
+
+describe("labelBattleAnalytics", () => {
+  it("names loadout buckets and leaves untagged ones null", async () => {
+    const bucket = { fights: 1, wins: 0, losses: 1, winRate: 0 };
+    const labeled = await labelBattleAnalytics({
+      fights: 2, wins: 0, losses: 2, winRate: 0,
+      byLoadout: [{ key: "4", ...bucket }, { key: null, ...bucket }],
+      byOpponentFaction: [], byOpponentHullType: [], failureCauses: [], abilities: [],
+    }, { getLoadoutsByIds: vi.fn().mockResolvedValue(new Map([[4, { name: "Mining Crew" }]])) });
+    expect(labeled.byLoadout.map((b) => b.loadoutName)).toEqual(["Mining Crew", null]);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createBattleReportStoreFactory } from "../src/server/stores/battle-report-store.js";
+import { parseBattleLog } from "../src/server/services/fleet-tools/read-tools-data-helpers.js";
+import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
+
+let pool: Pool;
+
+beforeAll(() => {
+  pool = createTestPool();
+});
+
+afterAll(async () => {
+  await pool.end();
+});
+
+const LOG = parseBattleLog({
+  battle_id: "b-1",
+  mode: "pvp",
+  rounds: [
+    { round: 1, damage_received: [{ amount: 100 }], damage_dealt: [{ amount: 40 }], hull_after: 900 },
+    { round: 2, damage_received: [{ amount: 900 }], damage_dealt: [{ amount: 60 }], hull_after: 0 },
+  ],
+})!;
+
+function fight(battleId: string, trigger: string, hullAfter: number) {
+  return parseBattleLog({
+    battle_id: battleId,
+    mode: "hostile",
+    rounds: [
+      { round: 1, damage_received: [{ amount: 500, type: "energy" }], ability_triggers: [trigger], hull_after: hullAfter },
+      { round: 2, damage_received: [{ amount: 100, type: "kinetic" }], ability_triggers: [trigger], hull_after: hullAfter },
+    ],
+  })!;
+}
+
+describe("BattleReportStore", () => {
+  beforeEach(async () => {
+    await cleanDatabase(pool);
+  });
+
+  it("stores a report with summary totals and returns the log", async () => {
+    const factory = await createBattleReportStoreFactory(pool);
+    const store = factory.forUser("u1");
+
+    const summary = await store.create({ fileName: "fight.json", format: "json", log: LOG });
+    expect(summary).toMatchObject({
+      battleId: "b-1", mode: "pvp", fileName: "fight.json", format: "json",
+      rounds: 2, destroyed: true, damageDealt: 100, damageReceived: 1000,
+    });
+
+    const report = await store.get(summary.id);
+    expect(report?.log.rounds[1].hullAfter).toBe(0);
+    expect(await store.counts()).toEqual({ total: 1 });
+  });
+
+  it("lists newest first and deletes", async () => {
+    const factory = await createBattleReportStoreFactory(pool);
+    const store = factory.forUser("u1");
+
+    const first = await store.create({ format: "json", log: LOG });
+    const second = await store.create({ format: "csv", log: { ...LOG, battleId: "b-2" } });
+    expect((await store.list()).map((r) => r.id)).toEqual([second.id, first.id]);
+    expect((await store.list({ limit: 1 })).map((r) => r.id)).toEqual([second.id]);
+
+    expect(await store.delete(first.id)).toBe(true);
+    expect(await store.delete(first.id)).toBe(false);
+    expect(await store.get(first.id)).toBeNull();
+  });
+
+  it("derives outcome and failure cause and re-tags a log stored twice", async () => {
+    const factory = await createBattleReportStoreFactory(pool);
+    const store = factory.forUser("u1");
+
+    const first = await store.create({ format: "json", source: "chat", log: LOG });
+    expect(first).toMatchObject({ source: "chat", outcome: "loss", likelyCause: "sustained_damage_exceeded_defense", loadoutId: null });
+
+    const again = await store.create({
+      fileName: "fight.json",
+      format: "json",
+      log: LOG,
+      context: { loadoutId: 4, opponentFaction: "Klingon", outcome: "win" },
+    });
+    expect(again.id).toBe(first.id);
+    expect(again).toMatchObject({ fileName: "fight.json", loadoutId: 4, opponentFaction: "Klingon", outcome: "win" });
+    expect(await store.counts()).toEqual({ total: 1 });
+  });
+
+  it("aggregates win rates, failure causes and fired abilities", async () => {
+    const factory = await createBattleReportStoreFactory(pool);
+    const store = factory.forUser("u1");
+
+    await store.create({ format: "json", log: fight("f1", "Opening Volley", 0), context: { loadoutId: 1, opponentFaction: "Klingon" } });
+    await store.create({ format: "json", log: fight("f2", "Opening Volley", 0), context: { loadoutId: 1, opponentFaction: "Klingon" } });
+    await store.create({ format: "json", log: fight("f3", "Shield Wall", 500), context: { loadoutId: 2, opponentHullType: "Explorer" } });
+    await store.create({ format: "json", log: { ...LOG, mode: "pvp" } });
+
+    const analytics = await store.analytics({ mode: "hostile" });
+    expect(analytics).toMatchObject({ fights: 3, wins: 1, losses: 2, winRate: 0.333 });
+    expect(analytics.byLoadout).toEqual([
+      { key: "1", fights: 2, wins: 0, losses: 2, winRate: 0 },
+      { key: "2", fights: 1, wins: 1, losses: 0, winRate: 1 },
+    ]);
+    expect(analytics.byOpponentFaction[0]).toEqual({ key: "Klingon", fights: 2, wins: 0, losses: 2, winRate: 0 });
+    expect(analytics.byOpponentHullType.map((b) => b.key)).toEqual([null, "Explorer"]);
+    expect(analytics.failureCauses).toEqual([{ likelyCause: "energy_spike_broke_shields", count: 2, share: 1 }]);
+    expect(analytics.abilities).toEqual([
+      { name: "Opening Volley", fights: 2, triggers: 4, winRate: 0 },
+      { name: "Shield Wall", fights: 1, triggers: 2, winRate: 1 },
+    ]);
+
+    const future = await store.analytics({ since: new Date(Date.now() + 60_000).toISOString() });
+    expect(future).toMatchObject({ fights: 0, winRate: null, byLoadout: [] });
+  });
+
+  it("isolates reports per user", async () => {
+    const factory = await createBattleReportStoreFactory(pool);
+    const a = factory.forUser("u-a");
+    const b = factory.forUser("u-b");
+
+    const report = await a.create({ format: "json", log: LOG });
+    expect(await b.get(report.id)).toBeNull();
+    expect(await b.list()).toEqual([]);
+    expect(await b.delete(report.id)).toBe(false);
+  });
+});
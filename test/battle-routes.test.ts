@@ -0,0 +1,127 @@
+/**
+ * battle-routes.test.ts — Battle report import/replay route tests
+ *
+ * Supertest-based HTTP-level tests covering:
+ *   - Store-not-available (503)
+ *   - Import (JSON, CSV, validation)
+ *   - List, get with replay, delete
+ *   - History analytics
+ */
+
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from "vitest";
+import { testRequest } from "./helpers/test-request.js";
+import type { Express } from "express";
+import { createApp } from "../src/server/index.js";
+import { makeState } from "./helpers/make-state.js";
+import { createBattleReportStoreFactory } from "../src/server/stores/battle-report-store.js";
+import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
+
+let pool: Pool;
+beforeAll(() => { pool = createTestPool(); });
+afterAll(async () => { await pool.end(); });
+
+const JSON_LOG = JSON.stringify({
+  battle_id: "b-1",
+  mode: "pvp",
+  rounds: [
+    { round: 1, damage_received: [{ amount: 500, type: "energy" }], ability_triggers: ["Opening Volley"], hull_after: 900, shield_after: 200 },
+    { round: 2, damage_received: [{ amount: 900, type: "kinetic" }], hull_after: 0, shield_after: 0 },
+  ],
+});
+
+const CSV_LOG = [
+  "round,direction,amount,type,ability,hull_after,shield_after",
+  "1,dealt,300,energy,,,",
+  "1,received,200,kinetic,Cloak Strike,800,100",
+].join("\n");
+
+describe("Battle routes — store not available", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = createApp(makeState());
+  });
+
+  it("GET /api/battles returns 503 when the store is null", async () => {
+    const res = await testRequest(app).get("/api/battles");
+    expect(res.status).toBe(503);
+    expect(res.body.error.code).toBe("BATTLE_STORE_NOT_AVAILABLE");
+  });
+
+  it("POST /api/battles/import returns 503 when the store is null", async () => {
+    const res = await testRequest(app).post("/api/battles/import").send({ content: JSON_LOG });
+    expect(res.status).toBe(503);
+  });
+});
+
+describe("Battle routes — with live store", () => {
+  let app: Express;
+
+  beforeEach(async () => {
+    await cleanDatabase(pool);
+    const battleReportStoreFactory = await createBattleReportStoreFactory(pool);
+    app = createApp(makeState({ battleReportStoreFactory }));
+  });
+
+  it("imports a JSON report and replays it", async () => {
+    const imported = await testRequest(app).post("/api/battles/import").send({ content: JSON_LOG, fileName: "fight.json" });
+    expect(imported.status).toBe(201);
+    expect(imported.body.data.report).toMatchObject({ format: "json", rounds: 2, destroyed: true, battleId: "b-1" });
+
+    const id = imported.body.data.report.id;
+    const res = await testRequest(app).get(`/api/battles/${id}`);
+    expect(res.status).toBe(200);
+    expect(res.body.data.report.fileName).toBe("fight.json");
+    expect(res.body.data.replay.rounds.map((r: { hullAfter: number }) => r.hullAfter)).toEqual([900, 0]);
+    expect(res.body.data.replay.abilities).toEqual([{ name: "Opening Volley", count: 1, firstRound: 1 }]);
+  });
+
+  it("detects CSV content", async () => {
+    const res = await testRequest(app).post("/api/battles/import").send({ content: CSV_LOG });
+    expect(res.status).toBe(201);
+    expect(res.body.data.report).toMatchObject({ format: "csv", rounds: 1, damageDealt: 300, damageReceived: 200 });
+  });
+
+  it("rejects missing content, bad format, and empty logs", async () => {
+    expect((await testRequest(app).post("/api/battles/import").send({})).status).toBe(400);
+    expect((await testRequest(app).post("/api/battles/import").send({ content: JSON_LOG, format: "xml" })).status).toBe(400);
+    const empty = await testRequest(app).post("/api/battles/import").send({ content: '{"rounds":[]}' });
+    expect(empty.status).toBe(400);
+    expect(empty.body.error.message).toMatch(/no rounds/);
+    const noRound = await testRequest(app).post("/api/battles/import").send({ content: "amount\n5", format: "csv" });
+    expect(noRound.status).toBe(400);
+  });
+
+  it("lists and deletes reports", async () => {
+    await testRequest(app).post("/api/battles/import").send({ content: JSON_LOG });
+    const list = await testRequest(app).get("/api/battles");
+    expect(list.body.data.count).toBe(1);
+
+    const id = list.body.data.reports[0].id;
+    expect((await testRequest(app).delete(`/api/battles/${id}`)).status).toBe(200);
+    expect((await testRequest(app).get(`/api/battles/${id}`)).status).toBe(404);
+    expect((await testRequest(app).delete("/api/battles/abc")).status).toBe(400);
+  });
+
+  it("tags imports and aggregates them in analytics", async () => {
+    const imported = await testRequest(app).post("/api/battles/import").send({ content: JSON_LOG, loadoutId: 5 });
+    expect(imported.body.data.report).toMatchObject({ loadoutId: 5, outcome: "loss", likelyCause: "kinetic_spike_overwhelmed_mitigation" });
+    await testRequest(app).post("/api/battles/import").send({ content: CSV_LOG, outcome: "win" });
+
+    const res = await testRequest(app).get("/api/battles/analytics?mode=pvp");
+    expect(res.status).toBe(200);
+    expect(res.body.data.filters).toEqual({ mode: "pvp", days: null });
+    expect(res.body.data.analytics).toMatchObject({ fights: 1, losses: 1, winRate: 0 });
+    expect(res.body.data.analytics.byLoadout[0]).toMatchObject({ key: "5", loadoutName: null });
+    expect(res.body.data.analytics.abilities[0]).toMatchObject({ name: "Opening Volley", fights: 1 });
+
+    const all = await testRequest(app).get("/api/battles/analytics?days=30");
+    expect(all.body.data.analytics).toMatchObject({ fights: 2, wins: 1 });
+  });
+
+  it("validates import tags and analytics filters", async () => {
+    expect((await testRequest(app).post("/api/battles/import").send({ content: JSON_LOG, loadoutId: "x" })).status).toBe(400);
+    expect((await testRequest(app).post("/api/battles/import").send({ content: JSON_LOG, outcome: "draw" })).status).toBe(400);
+    expect((await testRequest(app).get("/api/battles/analytics?days=0")).status).toBe(400);
+  });
+});
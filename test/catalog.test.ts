@@ -241,6 +241,27 @@ describe("GET /api/catalog/ships/:id", () => {
   });
 });
 
+describe("GET /api/catalog/hostiles", () => {
+  it("searches hostiles by name", async () => {
+    await refStore.bulkUpsertHostiles([{
+      id: "cdn:hostile:300", name: "Gorn Eclipse", faction: "Gorn", level: 40, shipType: 1, hullType: 5,
+      rarity: 4, strength: null, systems: null, warp: null, resources: null, gameId: 300,
+      source: "gamedata", license: "CC-BY-NC 4.0", attribution: "test",
+    }]);
+    const app = createApp(makeState({ referenceStore: refStore, overlayStore }));
+    const res = await testRequest(app).get("/api/catalog/hostiles?q=eclipse");
+    expect(res.status).toBe(200);
+    expect(res.body.data.count).toBe(1);
+    expect(res.body.data.hostiles[0]).toMatchObject({ id: "cdn:hostile:300", name: "Gorn Eclipse", level: 40 });
+  });
+
+  it("requires a search query", async () => {
+    const app = createApp(makeState({ referenceStore: refStore, overlayStore }));
+    const res = await testRequest(app).get("/api/catalog/hostiles?q=g");
+    expect(res.status).toBe(400);
+  });
+});
+
 // ═══════════════════════════════════════════════════════════
 // Counts
 // ═══════════════════════════════════════════════════════════
@@ -526,6 +547,18 @@ describe("PATCH /api/catalog/ships/:id/overlay", () => {
     expect(res.body.error.message).toContain("tier");
   });
 
+  it("adds another copy when instanceId is 'new'", async () => {
+    await seedShips(refStore);
+    await overlayStore.setShipOverlay({ refId: "cdn:ship:200", ownershipState: "owned" });
+    const app = createApp(makeState({ referenceStore: refStore, overlayStore }));
+    const res = await testRequest(app)
+      .patch("/api/catalog/ships/cdn:ship:200/overlay")
+      .send({ instanceId: "new", ownershipState: "owned", tier: 4 });
+    expect(res.status).toBe(200);
+    expect(res.body.data.instanceId).toMatch(/^inst_/);
+    expect(await overlayStore.listShipInstances("cdn:ship:200")).toHaveLength(2);
+  });
+
   it("accepts valid ship progression values", async () => {
     await seedShips(refStore);
     const app = createApp(makeState({ referenceStore: refStore, overlayStore }));
@@ -549,6 +582,19 @@ describe("DELETE /api/catalog/ships/:id/overlay", () => {
     expect(res.status).toBe(200);
     expect(res.body.data.deleted).toBe(true);
   });
+
+  it("deletes only the requested instance", async () => {
+    await seedShips(refStore);
+    await overlayStore.setShipOverlay({ refId: "cdn:ship:200", ownershipState: "owned" });
+    await overlayStore.setShipOverlay({ refId: "cdn:ship:200", instanceId: "inst_two", ownershipState: "owned" });
+    const app = createApp(makeState({ referenceStore: refStore, overlayStore }));
+
+    const res = await testRequest(app).delete("/api/catalog/ships/cdn:ship:200/overlay?instanceId=inst_two");
+    expect(res.status).toBe(200);
+    expect(res.body.data.deleted).toBe(true);
+    const remaining = await overlayStore.listShipInstances("cdn:ship:200");
+    expect(remaining.map((i) => i.instanceId)).toEqual(["primary"]);
+  });
 });
 
 // ═══════════════════════════════════════════════════════════
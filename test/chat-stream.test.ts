@@ -0,0 +1,107 @@
+/**
+ * chat-stream.test.ts — Incremental chat output: the AsyncLocalStorage sink,
+ * per-response text emitter, Gemini streamed sends and tool progress.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { GenerateContentResponse, type Chat } from "@google/genai";
+import {
+  createResponseTextEmitter,
+  emitChatStream,
+  getChatStreamSink,
+  runWithChatStream,
+  type ChatStreamEvent,
+} from "../src/server/services/chat-stream.js";
+import { sendChatMessage } from "../src/server/services/gemini/stream.js";
+import { executeFleetTool } from "../src/server/services/fleet-tools/index.js";
+import type { ToolEnv } from "../src/server/services/fleet-tools/index.js";
+
+function chunk(parts: Array<Record<string, unknown>>, extra: Record<string, unknown> = {}): GenerateContentResponse {
+  return Object.assign(new GenerateContentResponse(), { candidates: [{ content: { role: "model", parts } }], ...extra });
+}
+
+function fakeChat(chunks: GenerateContentResponse[]) {
+  return {
+    sendMessage: vi.fn().mockResolvedValue(chunk([{ text: "unstreamed" }])),
+    sendMessageStream: vi.fn(async () => (async function* () { yield* chunks; })()),
+  };
+}
+
+// ─── Sink ─────────────────────────────────────────────────────
+
+describe("chat stream sink", () => {
+  it("is a no-op without a bound sink", () => {
+    expect(getChatStreamSink()).toBeUndefined();
+    expect(() => emitChatStream({ type: "reset" })).not.toThrow();
+  });
+
+  it("delivers events emitted anywhere in the bound call", async () => {
+    const events: ChatStreamEvent[] = [];
+    await runWithChatStream((e) => events.push(e), async () => {
+      await Promise.resolve();
+      emitChatStream({ type: "text", text: "hi" });
+    });
+    expect(events).toEqual([{ type: "text", text: "hi" }]);
+  });
+
+  it("never lets a failing sink reach the engine", () => {
+    runWithChatStream(() => { throw new Error("socket gone"); }, () => {
+      expect(() => emitChatStream({ type: "reset" })).not.toThrow();
+      expect(() => createResponseTextEmitter()("text")).not.toThrow();
+    });
+  });
+
+  it("resets once per response before its first non-empty text", () => {
+    const events: ChatStreamEvent[] = [];
+    const emit = createResponseTextEmitter((e) => events.push(e));
+    emit("");
+    emit("a");
+    emit("b");
+    expect(events).toEqual([{ type: "reset" }, { type: "text", text: "a" }, { type: "text", text: "b" }]);
+  });
+});
+
+// ─── Gemini ───────────────────────────────────────────────────
+
+describe("sendChatMessage", () => {
+  it("uses sendMessage when nothing is listening", async () => {
+    const chat = fakeChat([]);
+    const response = await sendChatMessage(chat as unknown as Chat, "hello");
+    expect(response.text).toBe("unstreamed");
+    expect(chat.sendMessageStream).not.toHaveBeenCalled();
+  });
+
+  it("streams text parts and folds the chunks into one response", async () => {
+    const chat = fakeChat([
+      chunk([{ text: "thinking", thought: true }, { text: "Your fleet " }]),
+      chunk([{ text: "is ready." }, { functionCall: { name: "get_fleet", args: {} } }], {
+        usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 5 },
+      }),
+    ]);
+    const events: ChatStreamEvent[] = [];
+
+    const response = await runWithChatStream((e) => events.push(e), () => sendChatMessage(chat as unknown as Chat, "status?"));
+
+    expect(events).toEqual([
+      { type: "reset" },
+      { type: "text", text: "Your fleet " },
+      { type: "text", text: "is ready." },
+    ]);
+    expect(response.text).toBe("Your fleet is ready.");
+    expect(response.functionCalls).toEqual([{ name: "get_fleet", args: {} }]);
+    expect(response.usageMetadata?.candidatesTokenCount).toBe(5);
+  });
+});
+
+// ─── Tool progress ────────────────────────────────────────────
+
+describe("executeFleetTool progress", () => {
+  it("reports start and finish to the chat stream", async () => {
+    const events: ChatStreamEvent[] = [];
+    await runWithChatStream((e) => events.push(e), () => executeFleetTool("no_such_tool", {}, {} as ToolEnv));
+    expect(events).toEqual([
+      { type: "tool", tool: "no_such_tool", phase: "started" },
+      { type: "tool", tool: "no_such_tool", phase: "completed", ok: false },
+    ]);
+  });
+});
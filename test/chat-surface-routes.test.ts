@@ -0,0 +1,140 @@
+/**
+ * chat-surface-routes.test.ts — Chat bot registration, account linking and signed inbound
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from "vitest";
+import express from "express";
+import cookieParser from "cookie-parser";
+import { testRequest } from "./helpers/test-request.js";
+import type { AppState } from "../src/server/app-context.js";
+import { envelopeMiddleware, errorHandler } from "../src/server/envelope.js";
+import { createChatSurfaceRoutes, SURFACE_INBOUND_PATH_RE } from "../src/server/routes/chat-surfaces.js";
+import { createChatSurfaceRelay, type ChatSurfaceRelay } from "../src/server/services/chat-surfaces.js";
+import type { OutboundPost } from "../src/server/services/outbound-post.js";
+import { signatureHeader } from "../src/server/services/webhook-dispatcher.js";
+import { createChatSurfaceStore, type ChatSurfaceStore } from "../src/server/stores/chat-surface-store.js";
+import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
+import { makeReadyState, makeConfig } from "./helpers/make-state.js";
+
+function buildTestApp(appState: AppState) {
+  const app = express();
+  const json = express.json();
+  app.use(envelopeMiddleware);
+  // Same exemption as index.ts: the inbound route reads the raw body
+  app.use((req, res, next) => (SURFACE_INBOUND_PATH_RE.test(req.path) ? next() : json(req, res, next)));
+  app.use(cookieParser());
+  app.use(createChatSurfaceRoutes(appState));
+  app.use(errorHandler);
+  return app;
+}
+
+describe("chat surface routes", () => {
+  let pool: Pool;
+  let store: ChatSurfaceStore;
+  let relay: ChatSurfaceRelay;
+  let app: ReturnType<typeof buildTestApp>;
+
+  beforeAll(() => {
+    pool = createTestPool();
+  });
+  afterAll(async () => {
+    await pool.end();
+  });
+  beforeEach(async () => {
+    await cleanDatabase(pool);
+    store = await createChatSurfaceStore(pool);
+    const state = makeReadyState({ chatSurfaceStore: store });
+    relay = createChatSurfaceRelay(state, { post: vi.fn() as unknown as OutboundPost });
+    state.chatSurfaceRelay = relay;
+    app = buildTestApp(state);
+  });
+  afterEach(() => {
+    relay.close();
+  });
+
+  async function createSurface() {
+    const res = await testRequest(app).post("/api/admiral/surfaces").send({ name: " Alliance Discord ", callbackUrl: "https://bot.example.com/majel" });
+    expect(res.status).toBe(201);
+    return res.body.data as { surface: { id: number; name: string }; secret: string };
+  }
+
+  function inbound(surfaceId: number, secret: string, event: Record<string, unknown>) {
+    const body = JSON.stringify(event);
+    return testRequest(app).post(`/api/surfaces/${surfaceId}/inbound`)
+      .set("Content-Type", "application/json")
+      .set("X-Majel-Signature", signatureHeader(secret, body))
+      .send(body);
+  }
+
+  it("registers, edits, rotates and deletes surfaces", async () => {
+    const { surface, secret } = await createSurface();
+    expect(surface.name).toBe("Alliance Discord");
+    expect(secret).toMatch(/^cssec_/);
+
+    const list = await testRequest(app).get("/api/admiral/surfaces");
+    expect(list.body.data.count).toBe(1);
+    expect(JSON.stringify(list.body)).not.toContain(secret);
+
+    const paused = await testRequest(app).patch(`/api/admiral/surfaces/${surface.id}`).send({ enabled: false });
+    expect(paused.body.data.surface.enabled).toBe(false);
+
+    const rotated = await testRequest(app).post(`/api/admiral/surfaces/${surface.id}/rotate-secret`);
+    expect(rotated.body.data.secret).not.toBe(secret);
+
+    expect((await testRequest(app).delete(`/api/admiral/surfaces/${surface.id}`)).body.data).toEqual({ id: surface.id, deleted: true });
+    expect((await testRequest(app).delete(`/api/admiral/surfaces/${surface.id}`)).status).toBe(404);
+  });
+
+  it("validates the name and callback URL", async () => {
+    expect((await testRequest(app).post("/api/admiral/surfaces").send({ name: "", callbackUrl: "https://bot.example.com" })).status).toBe(400);
+    const badUrl = await testRequest(app).post("/api/admiral/surfaces").send({ name: "Bot", callbackUrl: "ftp://bot.example.com" });
+    expect(badUrl.status).toBe(400);
+    expect(badUrl.body.error.message).toMatch(/^callbackUrl/);
+
+    const prod = buildTestApp(makeReadyState({ chatSurfaceStore: store, config: makeConfig({ nodeEnv: "production" }) }));
+    const local = await testRequest(prod).post("/api/admiral/surfaces").send({ name: "Bot", callbackUrl: "https://127.0.0.1/hook" });
+    expect(local.status).toBe(400);
+  });
+
+  it("issues link codes that the bot redeems, and lets users unlink", async () => {
+    const { surface, secret } = await createSurface();
+    const issued = await testRequest(app).post(`/api/surfaces/${surface.id}/link-code`);
+    expect(issued.status).toBe(201);
+    expect(issued.body.data.command).toBe(`link ${issued.body.data.code}`);
+
+    const linked = await inbound(surface.id, secret, {
+      type: "message", platformUserId: "d-1", platformUsername: "nyota", conversationId: "c-1", text: issued.body.data.command,
+    });
+    expect(linked.status).toBe(200);
+    expect(linked.body.data).toMatchObject({ status: "replied", reply: { text: expect.stringMatching(/^Linked/) } });
+
+    const mine = await testRequest(app).get("/api/surfaces");
+    expect(mine.body.data.surfaces).toEqual([{ id: surface.id, name: "Alliance Discord" }]);
+    expect(mine.body.data.links).toMatchObject([{ surfaceId: surface.id, platformUserId: "d-1", platformUsername: "nyota" }]);
+
+    expect((await testRequest(app).delete(`/api/surfaces/${surface.id}/links/d-1`)).status).toBe(200);
+    expect((await testRequest(app).delete(`/api/surfaces/${surface.id}/links/d-1`)).status).toBe(404);
+  });
+
+  it("rejects unsigned, malformed and disabled-surface inbound requests", async () => {
+    const { surface, secret } = await createSurface();
+    const event = { type: "message", platformUserId: "d-1", conversationId: "c-1", text: "hi" };
+
+    const unsigned = await testRequest(app).post(`/api/surfaces/${surface.id}/inbound`)
+      .set("Content-Type", "application/json").send(JSON.stringify(event));
+    expect(unsigned.status).toBe(401);
+    expect((await inbound(surface.id, secret, { type: "message" })).status).toBe(400);
+    expect((await inbound(surface.id, "cssec_wrong", event)).status).toBe(401);
+
+    await store.updateSurface(surface.id, { enabled: false });
+    expect((await inbound(surface.id, secret, event)).status).toBe(404);
+    expect((await testRequest(app).post(`/api/surfaces/${surface.id}/link-code`)).status).toBe(404);
+    expect((await inbound(9999, secret, event)).status).toBe(404);
+  });
+
+  it("returns 503 without a chat surface store", async () => {
+    const bare = buildTestApp(makeReadyState());
+    expect((await testRequest(bare).get("/api/surfaces")).status).toBe(503);
+    expect((await testRequest(bare).post("/api/surfaces/1/inbound").send("{}")).status).toBe(503);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * chat-surface-store.test.ts — Chat bots, account links, link codes + reply queue (PG)
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createChatRunStore, type ChatRunStore } from "../src/server/stores/chat-run-store.js";
+import {
+  createChatSurfaceStore,
+  normalizeLinkCode,
+  SURFACE_SECRET_PREFIX,
+  type ChatSurfaceStore,
+} from "../src/server/stores/chat-surface-store.js";
+import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
+
+describe("ChatSurfaceStore — integration", () => {
+  let pool: Pool;
+  let store: ChatSurfaceStore;
+  let runs: ChatRunStore;
+
+  beforeAll(() => {
+    pool = createTestPool();
+  });
+  afterAll(async () => {
+    await pool.end();
+  });
+  beforeEach(async () => {
+    await cleanDatabase(pool);
+    runs = await createChatRunStore(pool);
+    store = await createChatSurfaceStore(pool);
+  });
+
+  async function createSurface(name = "Alliance Discord") {
+    return store.createSurface("admiral", { name, callbackUrl: "https://bot.example.com/majel" });
+  }
+
+  it("creates a surface with a one-time secret and lists it without the secret", async () => {
+    const { surface, secret } = await createSurface();
+    expect(secret.startsWith(SURFACE_SECRET_PREFIX)).toBe(true);
+    expect(surface).toMatchObject({ kind: "webhook", name: "Alliance Discord", enabled: true, createdBy: "admiral", linkCount: 0 });
+    expect(secret.startsWith(surface.secretPrefix)).toBe(true);
+
+    const listed = await store.listSurfaces();
+    expect(listed).toHaveLength(1);
+    expect(JSON.stringify(listed)).not.toContain(secret);
+    expect((await store.getSurfaceWithSecret(surface.id))?.secret).toBe(secret);
+  });
+
+  it("updates, rotates and deletes a surface", async () => {
+    const { surface, secret } = await createSurface();
+    const updated = await store.updateSurface(surface.id, { enabled: false, name: "Bridge bot" });
+    expect(updated).toMatchObject({ enabled: false, name: "Bridge bot", callbackUrl: "https://bot.example.com/majel" });
+
+    const rotated = await store.rotateSecret(surface.id);
+    expect(rotated).not.toBe(secret);
+    expect((await store.getSurfaceWithSecret(surface.id))?.secret).toBe(rotated);
+
+    expect(await store.deleteSurface(surface.id)).toBe(true);
+    expect(await store.getSurface(surface.id)).toBeNull();
+    expect(await store.rotateSecret(surface.id)).toBeNull();
+    expect(await store.updateSurface(surface.id, { enabled: true })).toBeNull();
+  });
+
+  it("redeems a link code once, case-insensitively, and replaces earlier codes", async () => {
+    const { surface } = await createSurface();
+    const first = await store.createLinkCode(surface.id, "uhura");
+    const { code, expiresAt } = await store.createLinkCode(surface.id, "uhura");
+    expect(code).toMatch(/^[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+    expect(new Date(expiresAt).getTime()).toBeGreaterThan(Date.now());
+
+    expect(await store.redeemLinkCode(surface.id, first.code, { id: "d-1" })).toBeNull();
+    const link = await store.redeemLinkCode(surface.id, code.toLowerCase(), { id: "d-1", username: "nyota" });
+    expect(link).toMatchObject({ surfaceId: surface.id, platformUserId: "d-1", platformUsername: "nyota", userId: "uhura" });
+    expect(await store.redeemLinkCode(surface.id, code, { id: "d-2" })).toBeNull();
+
+    expect((await store.getSurface(surface.id))?.linkCount).toBe(1);
+    expect(normalizeLinkCode("abcd-efgh")).toBe("ABCDEFGH");
+  });
+
+  it("rejects codes for another surface and expired codes", async () => {
+    const a = (await createSurface("A")).surface;
+    const b = (await createSurface("B")).surface;
+    const { code } = await store.createLinkCode(a.id, "uhura");
+    expect(await store.redeemLinkCode(b.id, code, { id: "d-1" })).toBeNull();
+
+    await pool.query("UPDATE chat_surface_link_codes SET expires_at = NOW() - INTERVAL '1 minute'");
+    expect(await store.redeemLinkCode(a.id, code, { id: "d-1" })).toBeNull();
+    expect(await store.purgeOlderThan("7 days")).toBe(1);
+  });
+
+  it("lists, touches and unlinks a user's platform accounts", async () => {
+    const { surface } = await createSurface();
+    const { code } = await store.createLinkCode(surface.id, "uhura");
+    await store.redeemLinkCode(surface.id, code, { id: "d-1", username: "nyota" });
+
+    await store.touchLink(surface.id, { id: "d-1", username: "uhura#1701" });
+    const [link] = await store.listLinksForUser("uhura");
+    expect(link).toMatchObject({ surfaceName: "Alliance Discord", platformUsername: "uhura#1701" });
+    expect(link!.lastMessageAt).not.toBeNull();
+
+    expect(await store.deleteLink(surface.id, "d-1", "sulu")).toBe(false);
+    expect(await store.deleteLink(surface.id, "d-1", "uhura")).toBe(true);
+    expect(await store.getLink(surface.id, "d-1")).toBeNull();
+  });
+
+  it("claims replies only once their chat run has finished", async () => {
+    const { surface, secret } = await createSurface();
+    await runs.enqueue({ id: "crun_1", userId: "uhura", sessionId: "s1", tabId: "t1", requestJson: { message: "hi" } });
+    await store.trackReply({
+      runId: "crun_1", surfaceId: surface.id, userId: "uhura", platformUserId: "d-1", conversationId: "c-1", replyTo: "m-1",
+    });
+
+    expect(await store.claimReplies(10)).toEqual([]);
+
+    const claim = await runs.claimNext("lock-1");
+    await runs.finish(claim!.run.id, claim!.lockToken, "succeeded");
+    const [claimed] = await store.claimReplies(10);
+    expect(claimed).toMatchObject({
+      runId: "crun_1", surfaceKind: "webhook", callbackUrl: "https://bot.example.com/majel", secret, runStatus: "succeeded", replyTo: "m-1",
+    });
+    // Leased: a second sweep does not pick it up again
+    expect(await store.claimReplies(10)).toEqual([]);
+
+    const sent = await store.recordReply("crun_1", { ok: true, nextAttemptAt: null, error: null });
+    expect(sent).toMatchObject({ status: "sent", attempts: 1 });
+    expect(sent!.sentAt).not.toBeNull();
+  });
+
+  it("reschedules failed replies, gives up after the last attempt and skips disabled surfaces", async () => {
+    const { surface } = await createSurface();
+    await runs.enqueue({ id: "crun_2", userId: "uhura", sessionId: "s1", tabId: "t1", requestJson: {} });
+    await pool.query("UPDATE chat_runs SET status = 'failed' WHERE id = 'crun_2'");
+    await store.trackReply({
+      runId: "crun_2", surfaceId: surface.id, userId: "uhura", platformUserId: "d-1", conversationId: "c-1", replyTo: null,
+    });
+
+    await store.updateSurface(surface.id, { enabled: false });
+    expect(await store.claimReplies(10)).toEqual([]);
+    await store.updateSurface(surface.id, { enabled: true });
+
+    await store.claimReplies(10);
+    const retry = await store.recordReply("crun_2", { ok: false, nextAttemptAt: new Date(Date.now() - 1000), error: "HTTP 502" });
+    expect(retry).toMatchObject({ status: "pending", attempts: 1, error: "HTTP 502" });
+
+    const [again] = await store.claimReplies(10);
+    expect(again!.runStatus).toBe("failed");
+    const failed = await store.recordReply("crun_2", { ok: false, nextAttemptAt: null, error: "HTTP 502" });
+    expect(failed).toMatchObject({ status: "failed", attempts: 2 });
+    expect(await store.claimReplies(10)).toEqual([]);
+  });
+});
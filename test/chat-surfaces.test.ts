@@ -0,0 +1,245 @@
+/**
+ * chat-surfaces.test.ts — Bot protocol parsing, reply building and the relay
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from "vitest";
+import type { AppState } from "../src/server/app-context.js";
+import {
+  buildReplyContent,
+  createChatSurfaceRelay,
+  MESSAGES_PER_MINUTE,
+  parseInboundEvent,
+  surfaceSessionId,
+  webhookSurfaceAdapter,
+  type ChatSurfaceRelay,
+  type OutboundReply,
+} from "../src/server/services/chat-surfaces.js";
+import type { OutboundPost, OutboundRequest } from "../src/server/services/outbound-post.js";
+import { signatureHeader, verifyWebhookSignature } from "../src/server/services/webhook-dispatcher.js";
+import { createChatRunStore, type ChatRunStore } from "../src/server/stores/chat-run-store.js";
+import { createChatSurfaceStore, type ChatSurface, type ChatSurfaceStore } from "../src/server/stores/chat-surface-store.js";
+import { createOperationEventStoreFactory, type OperationEventStoreFactory } from "../src/server/stores/operation-event-store.js";
+import type { ProposalStoreFactory } from "../src/server/stores/proposal-store.js";
+import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
+import { makeReadyState, makeConfig } from "./helpers/make-state.js";
+
+const SECRET = "cssec_test";
+
+describe("parseInboundEvent", () => {
+  it("accepts messages and actions", () => {
+    expect(parseInboundEvent({ type: "message", platformUserId: "d-1", conversationId: "c-1", text: "hi", messageId: "m-1" }))
+      .toMatchObject({ type: "message", text: "hi", messageId: "m-1" });
+    expect(parseInboundEvent({ type: "action", platformUserId: "d-1", conversationId: "c-1", action: "approve", proposalId: "prop_1" }))
+      .toMatchObject({ type: "action", action: "approve", proposalId: "prop_1" });
+  });
+
+  it("returns an error message for malformed events", () => {
+    expect(parseInboundEvent(null)).toEqual(expect.any(String));
+    expect(parseInboundEvent({ type: "reaction" })).toEqual(expect.any(String));
+    expect(parseInboundEvent({ type: "message", platformUserId: "d-1", conversationId: "c-1", text: "   " })).toEqual(expect.any(String));
+    expect(parseInboundEvent({ type: "message", platformUserId: "", conversationId: "c-1", text: "hi" })).toEqual(expect.any(String));
+    expect(parseInboundEvent({ type: "action", platformUserId: "d-1", conversationId: "c-1", action: "nuke", proposalId: "p" }))
+      .toEqual(expect.any(String));
+  });
+});
+
+describe("webhookSurfaceAdapter", () => {
+  const body = JSON.stringify({ type: "message", platformUserId: "d-1", conversationId: "c-1", text: "hi" });
+
+  it("parses a correctly signed body", () => {
+    const parsed = webhookSurfaceAdapter.parseInbound(body, { "x-majel-signature": signatureHeader(SECRET, body) }, SECRET);
+    expect(parsed).toMatchObject({ ok: true, event: { type: "message", text: "hi" } });
+  });
+
+  it("rejects bad signatures with 401 and bad bodies with 400", () => {
+    expect(webhookSurfaceAdapter.parseInbound(body, {}, SECRET)).toMatchObject({ ok: false, status: 401 });
+    expect(webhookSurfaceAdapter.parseInbound(body, { "x-majel-signature": signatureHeader("cssec_other", body) }, SECRET))
+      .toMatchObject({ ok: false, status: 401 });
+    const stale = signatureHeader(SECRET, body, Date.now() - 60 * 60_000);
+    expect(webhookSurfaceAdapter.parseInbound(body, { "x-majel-signature": stale }, SECRET)).toMatchObject({ ok: false, status: 401 });
+    expect(webhookSurfaceAdapter.parseInbound("nope", { "x-majel-signature": signatureHeader(SECRET, "nope") }, SECRET))
+      .toMatchObject({ ok: false, status: 400 });
+  });
+});
+
+describe("buildReplyContent", () => {
+  it("returns the answer with approve/decline buttons per proposal", () => {
+    const content = buildReplyContent("succeeded", {
+      answer: "Staged a new loadout.",
+      proposals: [{ id: "prop_1", batchItems: [{ tool: "create_loadout", preview: "Create loadout Kirk" }], expiresAt: "2026-10-19T12:00:00.000Z" }],
+    });
+    expect(content.text).toBe("Staged a new loadout.");
+    expect(content.proposals).toEqual([{
+      id: "prop_1",
+      items: ["Create loadout Kirk"],
+      expiresAt: "2026-10-19T12:00:00.000Z",
+      buttons: [
+        { action: "approve", label: "Approve", style: "success", proposalId: "prop_1" },
+        { action: "decline", label: "Decline", style: "danger", proposalId: "prop_1" },
+      ],
+    }]);
+  });
+
+  it("explains failed, timed-out and over-budget runs", () => {
+    expect(buildReplyContent("failed", { errorCode: "X", errorMessage: "boom" }).text).toContain("boom");
+    expect(buildReplyContent("timed_out", null).text).toMatch(/too long/);
+    expect(buildReplyContent("failed", { errorCode: "TOKEN_BUDGET_EXCEEDED" }).text).toMatch(/budget/);
+  });
+
+  it("keeps one session per user and conversation", () => {
+    const id = surfaceSessionId(1, "uhura", "c-1");
+    expect(id).toMatch(/^surface-1-[0-9a-f]{24}$/);
+    expect(surfaceSessionId(1, "uhura", "c-1")).toBe(id);
+    expect(surfaceSessionId(1, "sulu", "c-1")).not.toBe(id);
+  });
+});
+
+describe("ChatSurfaceRelay — integration", () => {
+  let pool: Pool;
+  let store: ChatSurfaceStore;
+  let runs: ChatRunStore;
+  let events: OperationEventStoreFactory;
+  let surface: ChatSurface;
+  let secret: string;
+  let relay: ChatSurfaceRelay;
+  let postMock: ReturnType<typeof vi.fn>;
+  let declined: Array<{ id: string; reason?: string }>;
+
+  beforeAll(() => {
+    pool = createTestPool();
+  });
+  afterAll(async () => {
+    await pool.end();
+  });
+  beforeEach(async () => {
+    await cleanDatabase(pool);
+    runs = await createChatRunStore(pool);
+    events = await createOperationEventStoreFactory(pool);
+    store = await createChatSurfaceStore(pool);
+    ({ surface, secret } = await store.createSurface("admiral", { name: "Discord", callbackUrl: "https://bot.example.com/majel" }));
+
+    declined = [];
+    const proposalStoreFactory = {
+      forUser: () => ({
+        get: async (id: string) => (id === "prop_1" ? { id } : null),
+        decline: async (id: string, reason?: string) => {
+          declined.push({ id, reason });
+          return { id };
+        },
+      }),
+    } as unknown as ProposalStoreFactory;
+
+    postMock = vi.fn(async () => ({ status: 204 }));
+    relay = createChatSurfaceRelay(makeReadyState({
+      chatSurfaceStore: store,
+      chatRunStore: runs,
+      operationEventStoreFactory: events,
+      proposalStoreFactory,
+      geminiEngine: {} as AppState["geminiEngine"],
+    }), { post: postMock as unknown as OutboundPost });
+  });
+  afterEach(() => {
+    relay.close();
+  });
+
+  const message = (text: string, messageId?: string) => ({
+    type: "message" as const, platformUserId: "d-1", platformUsername: "nyota", conversationId: "c-1", text, ...(messageId ? { messageId } : {}),
+  });
+
+  async function link() {
+    const { code } = await store.createLinkCode(surface.id, "local");
+    const result = await relay.handle(surface, message(`link ${code}`));
+    expect(result.reply?.text).toMatch(/^Linked to Majel/);
+  }
+
+  it("asks unlinked users to link, then links and unlinks them", async () => {
+    expect((await relay.handle(surface, message("hello"))).reply?.text).toMatch(/isn't linked/);
+    expect((await relay.handle(surface, message("link ABCD-EFGH"))).reply?.text).toMatch(/invalid or has expired/);
+    await link();
+    expect((await store.getLink(surface.id, "d-1"))?.userId).toBe("local");
+    expect((await relay.handle(surface, message("unlink"))).reply?.text).toBe("Unlinked from Majel.");
+    expect(await store.getLink(surface.id, "d-1")).toBeNull();
+  });
+
+  it("queues a chat run for a linked user and drops redelivered messages", async () => {
+    await link();
+    const result = await relay.handle(surface, message("What should dock 1 run?", "m-1"));
+    expect(result.status).toBe("queued");
+
+    const claim = await runs.claimNext("lock-1");
+    expect(claim?.run).toMatchObject({ id: result.runId, userId: "local", sessionId: surfaceSessionId(surface.id, "local", "c-1") });
+    expect(claim?.run.requestJson).toMatchObject({ message: "What should dock 1 run?", isAdmiral: false, surfaceId: surface.id });
+    expect((await events.forUser("local").latest("chat_run", result.runId!))?.eventType).toBe("run.queued");
+
+    expect(await relay.handle(surface, message("What should dock 1 run?", "m-1"))).toEqual({ status: "duplicate" });
+  });
+
+  it("rate-limits each platform user", async () => {
+    await link();
+    for (let i = 0; i < MESSAGES_PER_MINUTE; i += 1) {
+      expect((await relay.handle(surface, message(`q${i}`))).status).toBe("queued");
+    }
+    expect((await relay.handle(surface, message("one more"))).reply?.text).toMatch(/too fast/);
+  });
+
+  it("refuses users who may not use Aria when auth is on", async () => {
+    await link();
+    const guarded = createChatSurfaceRelay(makeReadyState({
+      chatSurfaceStore: store,
+      config: makeConfig({ authEnabled: true }),
+      userStore: { getUser: async () => ({ id: "local", role: "ensign", emailVerified: true, lockedAt: null }) } as unknown as AppState["userStore"],
+    }));
+    expect((await guarded.handle(surface, message("hi"))).reply?.text).toMatch(/Lieutenant/);
+  });
+
+  it("runs approve/decline buttons against the linked user's proposals", async () => {
+    await link();
+    const action = (act: "approve" | "decline", proposalId: string) => ({
+      type: "action" as const, platformUserId: "d-1", conversationId: "c-1", action: act, proposalId,
+    });
+    expect((await relay.handle(surface, action("decline", "prop_1"))).reply?.text).toMatch(/^Declined/);
+    expect(declined).toEqual([{ id: "prop_1", reason: "declined_via_surface" }]);
+    expect((await relay.handle(surface, action("approve", "prop_404"))).reply?.text).toMatch(/Couldn't apply: Proposal prop_404 not found/);
+  });
+
+  it("posts the finished run's answer and proposals back, signed", async () => {
+    await link();
+    const { runId } = await relay.handle(surface, message("Stage a loadout", "m-7"));
+    const claim = await runs.claimNext("lock-1");
+    await events.forUser("local").emit({
+      topic: "chat_run",
+      operationId: runId!,
+      routing: { sessionId: claim!.run.sessionId, tabId: claim!.run.tabId },
+      eventType: "run.completed",
+      status: "succeeded",
+      payloadJson: {
+        answer: "Staged it.",
+        proposals: [{ id: "prop_1", batchItems: [{ tool: "create_loadout", preview: "Create loadout" }], expiresAt: "2026-10-19T12:00:00.000Z" }],
+      },
+    });
+    await runs.finish(runId!, claim!.lockToken, "succeeded");
+
+    expect(await relay.processDue()).toBe(1);
+    expect(postMock).toHaveBeenCalledTimes(1);
+    const [url, { headers, body }] = postMock.mock.calls[0] as [string, OutboundRequest];
+    expect(url).toBe("https://bot.example.com/majel");
+    expect(verifyWebhookSignature(secret, headers["X-Majel-Signature"], body)).toBe(true);
+    const reply = JSON.parse(body) as OutboundReply;
+    expect(reply).toMatchObject({ type: "reply", conversationId: "c-1", platformUserId: "d-1", replyTo: "m-7", runId, text: "Staged it." });
+    expect(reply.proposals[0]!.buttons.map((b) => b.action)).toEqual(["approve", "decline"]);
+
+    expect(await relay.processDue()).toBe(0);
+  });
+
+  it("retries a reply the bot did not accept", async () => {
+    await link();
+    const { runId } = await relay.handle(surface, message("hi"));
+    const claim = await runs.claimNext("lock-1");
+    await runs.finish(runId!, claim!.lockToken, "failed");
+    postMock.mockResolvedValueOnce({ status: 502 });
+
+    expect(await relay.processDue()).toBe(1);
+    const { rows } = await pool.query("SELECT status, attempts, error FROM chat_surface_replies WHERE run_id = $1", [runId]);
+    expect(rows[0]).toEqual({ status: "pending", attempts: 1, error: "HTTP 502" });
+  });
+});
@@ -11,11 +11,12 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 // ─── Mock the Vertex SDK before importing the engine ──────────
 
 const mockCreate = vi.fn();
+const mockStream = vi.fn();
 
 vi.mock("@anthropic-ai/vertex-sdk", () => {
   return {
     AnthropicVertex: class MockAnthropicVertex {
-      messages = { create: mockCreate };
+      messages = { create: mockCreate, stream: mockStream };
       constructor() { /* no-op */ }
     },
   };
@@ -49,6 +50,7 @@ vi.mock("../src/server/services/fleet-tools/trust.js", () => ({
 }));
 
 import { createClaudeEngine } from "../src/server/services/claude/index.js";
+import { runWithChatStream, type ChatStreamEvent } from "../src/server/services/chat-stream.js";
 import type { ChatEngine } from "../src/server/services/engine.js";
 import { executeFleetTool } from "../src/server/services/fleet-tools/index.js";
 
@@ -293,4 +295,31 @@ describe("ClaudeChatEngine (ADR-041 Phase 3)", () => {
     expect(secondCall.messages[1].role).toBe("assistant");
     expect(secondCall.messages[2].role).toBe("user");
   });
+
+  // ── Streaming ──────────────────────────────────────────────
+
+  it("streams text deltas when a chat stream is bound", async () => {
+    mockStream.mockImplementation(() => {
+      const handlers: Array<(delta: string) => void> = [];
+      return {
+        on: (_event: string, handler: (delta: string) => void) => { handlers.push(handler); },
+        finalMessage: async () => {
+          for (const delta of ["Aye, ", "Admiral."]) handlers.forEach((h) => h(delta));
+          return textResponse("Aye, Admiral.");
+        },
+      };
+    });
+    const events: ChatStreamEvent[] = [];
+
+    const result = await runWithChatStream((e) => events.push(e), () => engine.chat("Hello", "s1", undefined, "user1"));
+
+    expect(result.text).toBe("Aye, Admiral.");
+    expect(mockCreate).not.toHaveBeenCalled();
+    expect(mockStream.mock.calls[0][0].model).toBe("claude-sonnet-4-6");
+    expect(events).toEqual([
+      { type: "reset" },
+      { type: "text", text: "Aye, " },
+      { type: "text", text: "Admiral." },
+    ]);
+  });
 });
@@ -319,11 +319,12 @@ describe("config isolation", () => {
       // Search for process.env in src/ excluding allowed files
       // Allowed: config.ts, logger.ts (bootstrap), runtime-profile.ts (ADR-050),
       //          gemini/ (test detection), 
-      //          claude/ (test detection), settings.ts (internal resolution),
+      //          claude/, local/ (test detection), settings.ts (internal resolution),
       //          memory.ts (Lex API contract),
       //          db.ts (DATABASE_URL fallback), rate-limit.ts (test skip),
       //          email.ts (production detection + BASE_URL),
-      //          routes/auth.ts (dev-verify guard)
+      //          routes/auth.ts (dev-verify guard),
+      //          mcp-stdio.ts (log destination before logger bootstrap)
       const result = execSync(
         'grep -rn "process\\.env" --include="*.ts" src/ | ' +
         'grep -v "src/server/config.ts" | ' +
@@ -331,12 +332,14 @@ describe("config isolation", () => {
         'grep -v "src/server/runtime-profile.ts" | ' +
         'grep -v "src/server/services/gemini/" | ' +
         'grep -v "src/server/services/claude/" | ' +
+        'grep -v "src/server/services/local/" | ' +
         'grep -v "src/server/stores/settings.ts" | ' +
         'grep -v "src/server/services/memory.ts" | ' +
         'grep -v "src/server/db.ts" | ' +
         'grep -v "src/server/rate-limit.ts" | ' +
         'grep -v "src/server/services/email.ts" | ' +
-        'grep -v "src/server/routes/auth.ts"',
+        'grep -v "src/server/routes/auth.ts" | ' +
+        'grep -v "src/server/mcp-stdio.ts"',
         { encoding: 'utf-8', cwd: path.resolve(__dirname, '..') }
       );
       
@@ -14,6 +14,7 @@ import { makeState } from "./helpers/make-state.js";
 import { createCrewStore, type CrewStore } from "../src/server/stores/crew-store.js";
 import { createReceiptStore, type ReceiptStore } from "../src/server/stores/receipt-store.js";
 import { createReferenceStore, type ReferenceStore } from "../src/server/stores/reference-store.js";
+import { createOverlayStore, type OverlayStore } from "../src/server/stores/overlay-store.js";
 import { createTestPool, truncatePublicTables, type Pool } from "./helpers/pg-test.js";
 
 let pool: Pool;
@@ -102,16 +103,18 @@ describe("Crew routes — live store", () => {
   let crewStore: CrewStore;
   let receiptStore: ReceiptStore;
   let refStore: ReferenceStore;
+  let overlayStore: OverlayStore;
 
   beforeAll(async () => {
     refStore = await createReferenceStore(pool);
     crewStore = await createCrewStore(pool);
     receiptStore = await createReceiptStore(pool);
+    overlayStore = await createOverlayStore(pool);
   });
 
   beforeEach(async () => {
     await truncatePublicTables(pool);
-    app = createApp(makeState({ crewStore, receiptStore, referenceStore: refStore }));
+    app = createApp(makeState({ crewStore, receiptStore, referenceStore: refStore, overlayStore }));
 
     // Seed reference data for FK targets
     await seedOfficer(refStore, "kirk", "Kirk");
@@ -520,6 +523,104 @@ describe("Crew routes — live store", () => {
       expect(res.status).toBe(200);
       expect(res.body.data.planItems).toHaveLength(1);
     });
+
+    it("GET /solve previews the greedy solver by default", async () => {
+      const loadout = await crewStore.createLoadout({ shipId: "enterprise", name: "L" });
+      await crewStore.upsertDock(1, { label: "D1" });
+      await crewStore.createPlanItem({ loadoutId: loadout.id, label: "Item" });
+      const res = await testRequest(app).get("/api/crew/plan/solve");
+      expect(res.status).toBe(200);
+      expect(res.body.data.result.mode).toBe("greedy");
+      expect(res.body.data.result.assignments[0].dockNumber).toBe(1);
+    });
+
+    it("GET /solve?mode=compare returns greedy and optimal side by side", async () => {
+      const res = await testRequest(app).get("/api/crew/plan/solve?mode=compare");
+      expect(res.status).toBe(200);
+      expect(res.body.data.comparison.greedy.mode).toBe("greedy");
+      expect(res.body.data.comparison.optimal.mode).toBe("optimal");
+    });
+
+    it("GET /solve rejects unknown mode", async () => {
+      const res = await testRequest(app).get("/api/crew/plan/solve?mode=magic");
+      expect(res.status).toBe(400);
+    });
+
+    it("POST /solve applies the optimal solver", async () => {
+      const loadout = await crewStore.createLoadout({ shipId: "enterprise", name: "L" });
+      await crewStore.upsertDock(1, { label: "D1" });
+      const item = await crewStore.createPlanItem({ loadoutId: loadout.id, label: "Item" });
+      const res = await testRequest(app)
+        .post("/api/crew/plan/solve")
+        .send({ mode: "optimal", apply: true });
+      expect(res.status).toBe(200);
+      expect(res.body.data.result.applied).toBe(true);
+      expect((await crewStore.getPlanItem(item.id))!.dockNumber).toBe(1);
+    });
+
+    it("POST accepts a daily window and rejects a malformed one", async () => {
+      const window = { kind: "daily", start: "22:00", end: "06:00" };
+      const ok = await testRequest(app).post("/api/crew/plan").send({ awayOfficers: ["kirk"], window });
+      expect(ok.status).toBe(201);
+      expect(ok.body.data.planItem.window).toEqual(window);
+
+      const bad = await testRequest(app).post("/api/crew/plan")
+        .send({ awayOfficers: ["kirk"], window: { kind: "daily", start: "9am", end: "06:00" } });
+      expect(bad.status).toBe(400);
+    });
+
+    it("POST/PATCH set a ship instance and reject a non-string one", async () => {
+      const loadout = await crewStore.createLoadout({ shipId: "enterprise", name: "L" });
+      await overlayStore.setShipOverlay({ refId: "enterprise", instanceId: "inst_two", ownershipState: "owned" });
+      const ok = await testRequest(app).post("/api/crew/plan")
+        .send({ loadoutId: loadout.id, dockNumber: 1, shipInstanceId: "inst_two" });
+      expect(ok.status).toBe(201);
+      expect(ok.body.data.planItem.shipInstanceId).toBe("inst_two");
+
+      const cleared = await testRequest(app).patch(`/api/crew/plan/${ok.body.data.planItem.id}`)
+        .send({ shipInstanceId: null });
+      expect(cleared.body.data.planItem.shipInstanceId).toBeNull();
+
+      const bad = await testRequest(app).post("/api/crew/plan")
+        .send({ loadoutId: loadout.id, shipInstanceId: 42 });
+      expect(bad.status).toBe(400);
+    });
+
+    it("POST/PATCH reject an instance of a different ship", async () => {
+      await seedShip(refStore, "kumari", "Kumari");
+      await overlayStore.setShipOverlay({ refId: "kumari", instanceId: "inst_k", ownershipState: "owned" });
+      await overlayStore.setShipOverlay({ refId: "enterprise", instanceId: "inst_e", ownershipState: "owned" });
+      const enterprise = await crewStore.createLoadout({ shipId: "enterprise", name: "E" });
+      const kumari = await crewStore.createLoadout({ shipId: "kumari", name: "K" });
+
+      const wrong = await testRequest(app).post("/api/crew/plan")
+        .send({ loadoutId: enterprise.id, shipInstanceId: "inst_k" });
+      expect(wrong.status).toBe(400);
+      expect(wrong.body.error.message).toMatch(/not an instance of ship enterprise/);
+
+      const ok = await testRequest(app).post("/api/crew/plan")
+        .send({ loadoutId: enterprise.id, shipInstanceId: "inst_e" });
+      expect(ok.status).toBe(201);
+      // Switching ships keeps the pinned instance, which no longer matches
+      const moved = await testRequest(app).patch(`/api/crew/plan/${ok.body.data.planItem.id}`)
+        .send({ loadoutId: kumari.id });
+      expect(moved.status).toBe(400);
+    });
+
+    it("GET /schedule returns a per-dock timeline", async () => {
+      const loadout = await crewStore.createLoadout({ shipId: "enterprise", name: "L" });
+      await crewStore.upsertDock(1, { label: "D1" });
+      await crewStore.createPlanItem({ loadoutId: loadout.id, label: "Item" });
+      const res = await testRequest(app).get("/api/crew/plan/schedule?from=2026-03-01T00:00:00Z&hours=12");
+      expect(res.status).toBe(200);
+      expect(res.body.data.schedule.to).toBe("2026-03-01T12:00:00.000Z");
+      expect(res.body.data.schedule.docks[0].entries[0].planItemLabel).toBe("Item");
+    });
+
+    it("GET /schedule rejects an out-of-range horizon", async () => {
+      const res = await testRequest(app).get("/api/crew/plan/schedule?hours=500");
+      expect(res.status).toBe(400);
+    });
   });
 
   // ── Effective State ─────────────────────────────────────
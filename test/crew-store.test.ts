@@ -615,6 +615,17 @@ describe("CrewStore — Fleet Presets", () => {
     expect(await store.getFleetPreset(preset.id)).toBeNull();
   });
 
+  it("allows one slot per dock in a preset", async () => {
+    const preset = await store.createFleetPreset("Crowded");
+    await store.upsertDock(1, {});
+    const l1 = await store.createLoadout({ shipId: "vidar", name: "L1" });
+    const l2 = await store.createLoadout({ shipId: "kumari", name: "L2" });
+    await expect(store.setFleetPresetSlots(preset.id, [
+      { dockNumber: 1, loadoutId: l1.id },
+      { dockNumber: 1, loadoutId: l2.id },
+    ])).rejects.toThrow();
+  });
+
   it("enforces unique preset name", async () => {
     await store.createFleetPreset("Same");
     await expect(store.createFleetPreset("Same")).rejects.toThrow();
@@ -691,6 +702,23 @@ describe("CrewStore — Plan Items", () => {
     expect(updated!.isActive).toBe(false);
   });
 
+  it("persists and clears a time window", async () => {
+    const window = { kind: "daily" as const, start: "22:00", end: "06:00" };
+    const item = await store.createPlanItem({ label: "Night", awayOfficers: ["kirk"], window });
+    expect(item.window).toEqual(window);
+
+    const cleared = await store.updatePlanItem(item.id, { window: null });
+    expect(cleared!.window).toBeNull();
+  });
+
+  it("persists and clears a ship instance", async () => {
+    const item = await store.createPlanItem({ label: "Second K'Vort", awayOfficers: ["kirk"], shipInstanceId: "inst_two" });
+    expect(item.shipInstanceId).toBe("inst_two");
+
+    const cleared = await store.updatePlanItem(item.id, { shipInstanceId: null });
+    expect(cleared!.shipInstanceId).toBeNull();
+  });
+
   it("deletes a plan item", async () => {
     const item = await store.createPlanItem({ label: "Delete me", awayOfficers: ["kirk"] });
     expect(await store.deletePlanItem(item.id)).toBe(true);
@@ -915,6 +943,25 @@ describe("CrewStore — getEffectiveDockState", () => {
     expect(state.docks[0].loadout).not.toBeNull();
     expect(state.docks[0].loadout!.bridge.captain).toBe("kirk");
     expect(state.docks[0].intentKeys).toContain("mining");
+    expect(state.docks[0].shipInstanceId).toBeNull();
+  });
+
+  it("carries the docked ship instance into the effective state", async () => {
+    await store.upsertDock(1, { label: "D1" });
+    const loadout = await store.createLoadout({ shipId: "vidar", name: "Mining" });
+    await store.createPlanItem({ loadoutId: loadout.id, dockNumber: 1, shipInstanceId: "inst_two" });
+
+    const state = await store.getEffectiveDockState();
+    expect(state.docks[0].shipInstanceId).toBe("inst_two");
+  });
+
+  it("skips plan items whose time window is closed", async () => {
+    const past = { kind: "once" as const, start: "2020-01-01T00:00:00.000Z", end: "2020-01-02T00:00:00.000Z" };
+    await store.createPlanItem({ label: "Expired Event", awayOfficers: ["kirk"], window: past });
+    await store.createPlanItem({ label: "Always", awayOfficers: ["spock"] });
+
+    const state = await store.getEffectiveDockState();
+    expect(state.awayTeams.map((t) => t.label)).toEqual(["Always"]);
   });
 
   it("collects away teams from plan items", async () => {
@@ -0,0 +1,128 @@
+/**
+ * crew-substitution.test.ts — Owned-roster scoring for plan solver substitution
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { loadSubstitutionSource } from "../src/server/services/crew-substitution.js";
+import type { EffectStore, OfficerAbilityWithEffects } from "../src/server/stores/effect-store.js";
+import type { OverlayStore } from "../src/server/stores/overlay-store.js";
+import type { ReferenceStore } from "../src/server/stores/reference-store.js";
+
+function ability(
+  officerId: string,
+  slot: string,
+  effects: Array<{ effectKey: string; magnitude: number; targetKinds?: string[]; conditions?: string[] }>,
+): OfficerAbilityWithEffects {
+  return {
+    id: `${officerId}-${slot}`,
+    officerId,
+    slot,
+    name: null,
+    rawText: null,
+    isInert: false,
+    effects: effects.map((e, i) => ({
+      id: `${officerId}-${slot}-${i}`,
+      abilityId: `${officerId}-${slot}`,
+      effectKey: e.effectKey,
+      magnitude: e.magnitude,
+      unit: "percent",
+      stacking: "additive",
+      targetKinds: e.targetKinds ?? [],
+      targetTags: [],
+      conditions: (e.conditions ?? []).map((conditionKey) => ({ conditionKey, params: null })),
+    })),
+  };
+}
+
+const ABILITIES = new Map<string, OfficerAbilityWithEffects[]>([
+  ["miner", [
+    ability("miner", "cm", [{ effectKey: "mining_rate_gas", magnitude: 0.5 }]),
+    ability("miner", "oa", [{ effectKey: "mining_rate_gas", magnitude: 0.2 }]),
+  ]],
+  ["fighter", [
+    ability("fighter", "oa", [{ effectKey: "weapon_damage", magnitude: 0.3, targetKinds: ["hostile"] }]),
+  ]],
+  ["shaky", [
+    ability("shaky", "oa", [{ effectKey: "mining_rate_gas", magnitude: 0.4, conditions: ["when_shields_depleted"] }]),
+  ]],
+]);
+
+function stores(owned: string[]) {
+  const effectStore = {
+    listIntentsFull: async () => [
+      {
+        id: "mining-gas", name: "Gas Mining", description: "",
+        defaultContext: { intentId: "mining-gas", targetKind: "hostile", engagement: "any", targetTagsJson: null, shipClass: null },
+        effectWeights: [{ effectKey: "mining_rate_gas", weight: 3 }],
+      },
+      {
+        id: "pvp", name: "PvP", description: "",
+        defaultContext: { intentId: "pvp", targetKind: "player_ship", engagement: "attacking", targetTagsJson: "[\"pvp\"]", shipClass: null },
+        effectWeights: [{ effectKey: "weapon_damage", weight: 2 }],
+      },
+    ],
+    getOfficerAbilitiesBulk: async () => ABILITIES,
+  } as unknown as EffectStore;
+  const overlayStore = {
+    listOfficerOverlays: async () => owned.map((refId) => ({ refId, instanceId: "0", ownershipState: "owned" })),
+  } as unknown as OverlayStore;
+  const referenceStore = {
+    listOfficers: async () => [
+      { id: "miner", name: "Miner" },
+      { id: "fighter", name: "Fighter" },
+      { id: "shaky", name: "Shaky" },
+    ],
+  } as unknown as ReferenceStore;
+  return { effectStore, overlayStore, referenceStore };
+}
+
+describe("loadSubstitutionSource", () => {
+  it("returns null when a store is missing", async () => {
+    const source = await loadSubstitutionSource({ ...stores([]), effectStore: null });
+    expect(source).toBeNull();
+  });
+
+  it("lists owned officers known to the reference catalog", async () => {
+    const source = await loadSubstitutionSource(stores(["shaky", "miner", "ghost", "miner"]));
+    expect(source!.ownedOfficerIds).toEqual(["miner", "shaky"]);
+    expect(source!.officerName("miner")).toBe("Miner");
+    expect(source!.officerName("ghost")).toBe("ghost");
+  });
+
+  it("activates CM + OA in the captain seat and OA only on the bridge", async () => {
+    const source = (await loadSubstitutionSource(stores(["miner"])))!;
+    expect(source.scoreOfficer("miner", "mining-gas", "captain")).toBeCloseTo(2.1);
+    expect(source.scoreOfficer("miner", "mining-gas", "bridge_1")).toBeCloseTo(0.6);
+  });
+
+  it("halves conditional effects and zeroes effects blocked by target kind", async () => {
+    const source = (await loadSubstitutionSource(stores(["shaky", "fighter"])))!;
+    expect(source.scoreOfficer("shaky", "mining-gas", "bridge_1")).toBeCloseTo(0.6);
+    expect(source.scoreOfficer("fighter", "pvp", "bridge_1")).toBe(0);
+  });
+
+  it("loads abilities for owned officers only", async () => {
+    const s = stores(["miner"]);
+    const bulk = vi.fn(async () => ABILITIES);
+    (s.effectStore as unknown as { getOfficerAbilitiesBulk: typeof bulk }).getOfficerAbilitiesBulk = bulk;
+    await loadSubstitutionSource(s);
+    expect(bulk).toHaveBeenCalledWith(["miner"]);
+  });
+
+  it("treats malformed intent target tags as untagged", async () => {
+    const s = stores(["miner"]);
+    const effectStore = s.effectStore as unknown as { listIntentsFull: () => Promise<unknown[]> };
+    const intents = await effectStore.listIntentsFull();
+    effectStore.listIntentsFull = async () => intents.map((intent) => ({
+      ...(intent as Record<string, unknown>),
+      defaultContext: { ...(intent as { defaultContext: object }).defaultContext, targetTagsJson: "{not json" },
+    }));
+    const source = (await loadSubstitutionSource(s))!;
+    expect(source.scoreOfficer("miner", "mining-gas", "captain")).toBeCloseTo(2.1);
+  });
+
+  it("scores unknown intents as zero", async () => {
+    const source = (await loadSubstitutionSource(stores(["miner"])))!;
+    expect(source.scoreOfficer("miner", "no-such-intent", "captain")).toBe(0);
+  });
+});
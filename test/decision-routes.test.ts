@@ -0,0 +1,99 @@
+/**
+ * decision-routes.test.ts — Fleet decision settings route tests
+ *
+ * Supertest-based HTTP-level tests covering:
+ *   - Store-not-available (503)
+ *   - Create / edit / delete with validation
+ *   - Listing reconciles against overlay state
+ */
+
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from "vitest";
+import { testRequest } from "./helpers/test-request.js";
+import type { Express } from "express";
+import { createApp } from "../src/server/index.js";
+import { makeState } from "./helpers/make-state.js";
+import { createDecisionStoreFactory, type DecisionStoreFactory } from "../src/server/stores/decision-store.js";
+import type { OverlayStoreFactory } from "../src/server/stores/overlay-store.js";
+import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
+
+let pool: Pool;
+beforeAll(() => { pool = createTestPool(); });
+afterAll(async () => { await pool.end(); });
+
+describe("Decision routes — store not available", () => {
+  it("GET /api/decisions returns 503 when the store is null", async () => {
+    const res = await testRequest(createApp(makeState())).get("/api/decisions");
+    expect(res.status).toBe(503);
+    expect(res.body.error.code).toBe("DECISION_STORE_NOT_AVAILABLE");
+  });
+});
+
+describe("Decision routes — with live store", () => {
+  let app: Express;
+  let factory: DecisionStoreFactory;
+  let vidarOwnedAt: string | null;
+
+  beforeEach(async () => {
+    await cleanDatabase(pool);
+    factory = await createDecisionStoreFactory(pool);
+    vidarOwnedAt = null;
+    const overlayStoreFactory = {
+      forUser: () => ({
+        listShipInstances: async () => vidarOwnedAt
+          ? [{ ownershipState: "owned", target: false, updatedAt: vidarOwnedAt }]
+          : [],
+        listOfficerInstances: async () => [],
+      }),
+    } as unknown as OverlayStoreFactory;
+    app = createApp(makeState({ decisionStoreFactory: factory, overlayStoreFactory }));
+  });
+
+  it("creates manual decisions and validates the body", async () => {
+    const res = await testRequest(app).post("/api/decisions").send({ kind: "avoid", statement: "Never put Khan on mining" });
+    expect(res.status).toBe(201);
+    expect(res.body.data).toMatchObject({ kind: "avoid", source: "manual", status: "active" });
+
+    expect((await testRequest(app).post("/api/decisions").send({ kind: "maybe", statement: "x" })).status).toBe(400);
+    expect((await testRequest(app).post("/api/decisions").send({ kind: "goal", statement: "" })).status).toBe(400);
+    expect((await testRequest(app).post("/api/decisions").send({ kind: "goal", statement: "x".repeat(301) })).status).toBe(400);
+  });
+
+  it("edits, re-activates and deletes a decision", async () => {
+    const created = await factory.forUser("local").create({ kind: "goal", statement: "Get Kirk to tier 5" });
+    await factory.forUser("local").invalidate(created.id, "Kirk is now owned");
+
+    const res = await testRequest(app).patch(`/api/decisions/${created.id}`).send({ statement: "Get Kirk to tier 6", status: "active" });
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ statement: "Get Kirk to tier 6", status: "active", invalidatedReason: null });
+
+    expect((await testRequest(app).patch(`/api/decisions/${created.id}`).send({ status: "archived" })).status).toBe(400);
+    expect((await testRequest(app).patch("/api/decisions/9999").send({ statement: "x" })).status).toBe(404);
+
+    expect((await testRequest(app).delete(`/api/decisions/${created.id}`)).status).toBe(200);
+    expect((await testRequest(app).delete(`/api/decisions/${created.id}`)).status).toBe(404);
+  });
+
+  it("invalidates decisions the overlay contradicts when listing", async () => {
+    const store = factory.forUser("local");
+    await store.create({
+      kind: "saving",
+      statement: "Saving latinum for the Vi'Dar",
+      subjectType: "ship",
+      subjectRefId: "cdn:ship:vidar",
+      subjectName: "Vi'Dar",
+      assumesOwnership: "unowned",
+    });
+    await store.create({ kind: "avoid", statement: "Never put Khan on mining" });
+    vidarOwnedAt = new Date(Date.now() + 60_000).toISOString();
+
+    const res = await testRequest(app).get("/api/decisions");
+    expect(res.status).toBe(200);
+    expect(res.body.data.counts).toEqual({ active: 1, invalidated: 1 });
+    const vidar = res.body.data.decisions.find((d: { kind: string }) => d.kind === "saving");
+    expect(vidar).toMatchObject({ status: "invalidated", invalidatedReason: "Vi'Dar is now owned" });
+
+    const active = await testRequest(app).get("/api/decisions?status=active");
+    expect(active.body.data.decisions.map((d: { kind: string }) => d.kind)).toEqual(["avoid"]);
+    expect((await testRequest(app).get("/api/decisions?status=old")).status).toBe(400);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import {
+  createDecisionStoreFactory,
+  DecisionLimitError,
+  MAX_DECISIONS_PER_USER,
+  MAX_STATEMENT_LENGTH,
+} from "../src/server/stores/decision-store.js";
+import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
+
+let pool: Pool;
+
+beforeAll(() => {
+  pool = createTestPool();
+});
+
+afterAll(async () => {
+  await pool.end();
+});
+
+describe("DecisionStore", () => {
+  beforeEach(async () => {
+    await cleanDatabase(pool);
+  });
+
+  it("creates decisions with a subject and lists them newest first", async () => {
+    const store = (await createDecisionStoreFactory(pool)).forUser("u1");
+
+    const first = await store.create({ kind: "avoid", statement: "Never put Khan on mining" });
+    const second = await store.create({
+      kind: "saving",
+      statement: "  Saving latinum for the Vi'Dar  ",
+      subjectType: "ship",
+      subjectRefId: "cdn:ship:vidar",
+      subjectName: "Vi'Dar",
+      assumesOwnership: "unowned",
+    });
+
+    expect(first).toMatchObject({ status: "active", source: "chat", subjectType: null, assumesOwnership: null });
+    expect(second).toMatchObject({
+      statement: "Saving latinum for the Vi'Dar",
+      subjectRefId: "cdn:ship:vidar",
+      assumesOwnership: "unowned",
+      assumesTarget: null,
+    });
+    expect((await store.list()).map((d) => d.id)).toEqual([second.id, first.id]);
+    expect(await store.counts()).toEqual({ active: 2, invalidated: 0 });
+  });
+
+  it("drops overlay assumptions when there is no subject and caps statements", async () => {
+    const store = (await createDecisionStoreFactory(pool)).forUser("u1");
+    const decision = await store.create({
+      kind: "prefer",
+      statement: "x".repeat(MAX_STATEMENT_LENGTH + 50),
+      assumesOwnership: "owned",
+      assumesTarget: true,
+    });
+    expect(decision.statement).toHaveLength(MAX_STATEMENT_LENGTH);
+    expect(decision.assumesOwnership).toBeNull();
+    expect(decision.assumesTarget).toBeNull();
+  });
+
+  it("invalidates, filters by status and re-activates on edit", async () => {
+    const store = (await createDecisionStoreFactory(pool)).forUser("u1");
+    const decision = await store.create({ kind: "goal", statement: "Get Kirk to tier 5" });
+
+    const invalidated = await store.invalidate(decision.id, "Kirk is now owned");
+    expect(invalidated).toMatchObject({ status: "invalidated", invalidatedReason: "Kirk is now owned" });
+    expect(invalidated?.invalidatedAt).toBeTruthy();
+    expect(await store.list({ status: "active" })).toEqual([]);
+    expect(await store.counts()).toEqual({ active: 0, invalidated: 1 });
+
+    const reactivated = await store.update(decision.id, { status: "active", statement: "Get Kirk to tier 6" });
+    expect(reactivated).toMatchObject({
+      status: "active",
+      statement: "Get Kirk to tier 6",
+      invalidatedReason: null,
+      invalidatedAt: null,
+    });
+    expect(Date.parse(reactivated!.updatedAt)).toBeGreaterThanOrEqual(Date.parse(decision.updatedAt));
+  });
+
+  it("deletes and reports missing rows", async () => {
+    const store = (await createDecisionStoreFactory(pool)).forUser("u1");
+    const decision = await store.create({ kind: "avoid", statement: "No PvP" });
+
+    expect(await store.delete(decision.id)).toBe(true);
+    expect(await store.delete(decision.id)).toBe(false);
+    expect(await store.get(decision.id)).toBeNull();
+    expect(await store.update(decision.id, { statement: "x" })).toBeNull();
+    expect(await store.invalidate(decision.id, "gone")).toBeNull();
+  });
+
+  it("isolates users", async () => {
+    const factory = await createDecisionStoreFactory(pool);
+    const mine = await factory.forUser("u1").create({ kind: "avoid", statement: "No PvP" });
+
+    expect(await factory.forUser("u2").list()).toEqual([]);
+    expect(await factory.forUser("u2").get(mine.id)).toBeNull();
+    expect(await factory.forUser("u2").delete(mine.id)).toBe(false);
+    expect(await factory.forUser("u1").get(mine.id)).not.toBeNull();
+  });
+
+  it("enforces the per-user limit", async () => {
+    const factory = await createDecisionStoreFactory(pool);
+    const store = factory.forUser("u1");
+    for (let i = 0; i < MAX_DECISIONS_PER_USER; i++) {
+      await store.create({ kind: "prefer", statement: `Preference ${i}` });
+    }
+    await expect(store.create({ kind: "prefer", statement: "One too many" })).rejects.toBeInstanceOf(DecisionLimitError);
+    await expect(factory.forUser("u2").create({ kind: "prefer", statement: "Fine" })).resolves.toBeTruthy();
+  });
+});
@@ -147,7 +147,7 @@ describe("POST /api/dev/reset", () => {
     expect(res.body.data.truncated).toEqual(truncated);
     expect(truncated).toContain("ship_overlay");
     expect(truncated).toContain("proposals");
-    expect(truncated.length).toBe(10);
+    expect(truncated.length).toBe(12);
   });
 
   it("skips tables that do not exist (42P01)", async () => {
@@ -173,8 +173,8 @@ describe("POST /api/dev/reset", () => {
     const res = await testRequest(app).post("/api/dev/reset").set("X-Requested-With", "majel-client");
     expect(res.status).toBe(200);
     expect(res.body.data.reset).toBe(true);
-    // research_nodes should be skipped, so only 9 truncated
+    // research_nodes should be skipped, so only 11 truncated
     expect(res.body.data.truncated).not.toContain("research_nodes");
-    expect(res.body.data.truncated.length).toBe(9);
+    expect(res.body.data.truncated.length).toBe(11);
   });
 });
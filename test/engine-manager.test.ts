@@ -8,6 +8,8 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { createEngineManager } from "../src/server/services/engine-manager.js";
 import type { ChatEngine } from "../src/server/services/engine.js";
+import { createCircuitBreaker, getFallbackScope } from "../src/server/services/model-fallback.js";
+import { VALIDATION_DISCLAIMER } from "../src/server/services/micro-runner.js";
 
 // ─── Helpers ──────────────────────────────────────────────────
 
@@ -80,7 +82,7 @@ describe("EngineManager", () => {
   it("routes chat to Gemini when a Gemini model is active", async () => {
     const manager = createEngineManager({ geminiEngine: gemini, claudeEngine: claude });
     await manager.chat("hello", "s1");
-    expect(gemini.chat).toHaveBeenCalledWith("hello", "s1", undefined, undefined, undefined, undefined, undefined, undefined, undefined);
+    expect(gemini.chat).toHaveBeenCalledWith("hello", "s1", undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined);
     expect(claude.chat).not.toHaveBeenCalled();
     manager.close();
   });
@@ -152,4 +154,170 @@ describe("EngineManager", () => {
     manager.close();
     expect(gemini.close).toHaveBeenCalled();
   });
+
+  // ── Local provider ────────────────────────────────────────
+
+  it("routes chat to the local engine when the local model is selected", async () => {
+    const local = createMockEngine("local");
+    const manager = createEngineManager({ geminiEngine: gemini, claudeEngine: claude, localEngine: local });
+    manager.setModel("local");
+    await manager.chat("hello", "s1");
+    expect(local.chat).toHaveBeenCalled();
+    expect(gemini.chat).not.toHaveBeenCalled();
+    manager.closeSession("s1");
+    expect(local.closeSession).toHaveBeenCalledWith("s1");
+    manager.close();
+    expect(local.close).toHaveBeenCalled();
+  });
+
+  it("runs offline with only a local engine", async () => {
+    const local = createMockEngine("local");
+    const manager = createEngineManager({ localEngine: local });
+    expect(manager.getModel()).toBe("local");
+    manager.setModel("gemini-2.5-flash");
+    expect(manager.getModel()).toBe("local");
+    await manager.chat("hello");
+    expect(local.chat).toHaveBeenCalled();
+    manager.close();
+  });
+
+  it("requires a Gemini or local engine", () => {
+    expect(() => createEngineManager({ claudeEngine: claude })).toThrow("Gemini or local engine");
+  });
+
+  // ── Fallback chains ───────────────────────────────────────
+
+  describe("fallback chains", () => {
+    const overloaded = () => Object.assign(new Error("503 UNAVAILABLE: model overloaded"), { status: 503 });
+    const chain = ["gemini-2.5-flash-lite", "gemini-2.5-flash", "claude-sonnet-4-6"];
+
+    function managerWith(chains: Record<string, string[]>, extra: Parameters<typeof createEngineManager>[0] = {}) {
+      const manager = createEngineManager({
+        geminiEngine: gemini,
+        claudeEngine: claude,
+        loadFallbackChains: async () => chains,
+        ...extra,
+      });
+      manager.setModel("gemini-2.5-flash-lite");
+      return manager;
+    }
+
+    const routeOf = (engine: ChatEngine, call = 0) => vi.mocked(engine.chat).mock.calls[call][9];
+
+    it("serves on the selected model without recording a path when it succeeds", async () => {
+      const manager = managerWith({ default: chain });
+      const result = await manager.chat("hello", "s1");
+      expect(result.text).toBe("response from gemini-3-pro-preview");
+      expect(result.fallbackPath).toBeUndefined();
+      expect(routeOf(gemini)).toEqual({ modelId: "gemini-2.5-flash-lite", escalate: true });
+      manager.close();
+    });
+
+    it("moves to the next model on a provider failure", async () => {
+      vi.mocked(gemini.chat).mockRejectedValueOnce(overloaded());
+      const manager = managerWith({ default: chain });
+      const result = await manager.chat("hello", "s1");
+      expect(routeOf(gemini, 1)).toMatchObject({ modelId: "gemini-2.5-flash" });
+      expect(result.fallbackPath).toEqual([
+        { modelId: "gemini-2.5-flash-lite", outcome: "provider_error", detail: "503 UNAVAILABLE: model overloaded" },
+        { modelId: "gemini-2.5-flash", outcome: "served" },
+      ]);
+      manager.close();
+    });
+
+    it("seeds another provider's engine with the primary session's history", async () => {
+      const history = [{ role: "user", text: "earlier" }, { role: "model", text: "reply" }];
+      vi.mocked(gemini.getHistory).mockReturnValue(history);
+      vi.mocked(gemini.chat).mockRejectedValue(overloaded());
+      const manager = managerWith({ default: chain });
+      const result = await manager.chat("hello", "s1", undefined, "u1");
+      expect(gemini.getHistory).toHaveBeenCalledWith("u1:s1");
+      expect(routeOf(claude)).toEqual({ modelId: "claude-sonnet-4-6", escalate: false, history });
+      expect(result.text).toBe("response from claude-sonnet-4-6");
+      manager.close();
+    });
+
+    it("seeds a rebuilt branch history into every engine, the primary included", async () => {
+      const history = [{ role: "user", text: "edited question" }, { role: "model", text: "reply" }];
+      vi.mocked(gemini.chat).mockRejectedValueOnce(overloaded());
+      const manager = managerWith({ default: chain });
+      await manager.chat("hello", "s1", undefined, "u1", undefined, undefined, undefined, undefined, undefined, { history });
+      expect(gemini.getHistory).not.toHaveBeenCalled();
+      expect(routeOf(gemini)).toEqual({ modelId: "gemini-2.5-flash-lite", escalate: true, history });
+      expect(routeOf(gemini, 1)).toEqual({ modelId: "gemini-2.5-flash", escalate: true, history });
+      manager.close();
+    });
+
+    it("escalates when validation fails and binds the path for telemetry", async () => {
+      const paths: string[][] = [];
+      vi.mocked(gemini.chat).mockImplementation(async () => {
+        paths.push(getFallbackScope()!.path);
+        return { text: "shaky", proposals: [], validationFailed: paths.length === 1 };
+      });
+      const manager = managerWith({ default: chain });
+      const result = await manager.chat("hello", "s1");
+      expect(paths).toEqual([["gemini-2.5-flash-lite"], ["gemini-2.5-flash-lite", "gemini-2.5-flash"]]);
+      expect(result.fallbackPath?.map((h) => h.outcome)).toEqual(["validation_failed", "served"]);
+      manager.close();
+    });
+
+    it("returns the last answer with a disclaimer when every escalation fails", async () => {
+      vi.mocked(gemini.chat).mockResolvedValue({ text: "shaky", proposals: [], validationFailed: true });
+      vi.mocked(claude.chat).mockRejectedValue(overloaded());
+      const manager = managerWith({ default: chain });
+      const result = await manager.chat("hello", "s1");
+      expect(result.text).toBe(`${VALIDATION_DISCLAIMER}\n\nshaky`);
+      expect(result.validationFailed).toBeUndefined();
+      expect(result.fallbackPath?.map((h) => h.outcome)).toEqual(["validation_failed", "validation_failed", "provider_error"]);
+      manager.close();
+    });
+
+    it("rethrows errors that are not provider failures", async () => {
+      vi.mocked(gemini.chat).mockRejectedValueOnce(new Error("bad tool schema"));
+      const manager = managerWith({ default: chain });
+      await expect(manager.chat("hello", "s1")).rejects.toThrow("bad tool schema");
+      expect(gemini.chat).toHaveBeenCalledTimes(1);
+      manager.close();
+    });
+
+    it("throws the last provider error when the chain is exhausted", async () => {
+      vi.mocked(gemini.chat).mockRejectedValue(overloaded());
+      vi.mocked(claude.chat).mockRejectedValue(overloaded());
+      const manager = managerWith({ default: chain });
+      await expect(manager.chat("hello", "s1")).rejects.toThrow("overloaded");
+      manager.close();
+    });
+
+    it("skips models whose circuit is open", async () => {
+      const circuitBreaker = createCircuitBreaker({ failureThreshold: 1 });
+      circuitBreaker.recordFailure("gemini-2.5-flash-lite");
+      const manager = managerWith({ default: chain }, { circuitBreaker });
+      const result = await manager.chat("hello", "s1");
+      expect(routeOf(gemini)).toMatchObject({ modelId: "gemini-2.5-flash" });
+      expect(result.fallbackPath?.[0]).toEqual({ modelId: "gemini-2.5-flash-lite", outcome: "circuit_open" });
+      manager.close();
+    });
+
+    it("marks models without an engine as unavailable", async () => {
+      vi.mocked(gemini.chat).mockRejectedValue(overloaded());
+      const manager = createEngineManager({ geminiEngine: gemini, loadFallbackChains: async () => ({ default: chain }) });
+      manager.setModel("gemini-2.5-flash-lite");
+      await expect(manager.chat("hello", "s1")).rejects.toThrow("overloaded");
+      expect(gemini.chat).toHaveBeenCalledTimes(2);
+      // The last servable model gets no escalation flag
+      expect(routeOf(gemini, 1)).toEqual({ modelId: "gemini-2.5-flash", escalate: false });
+      manager.close();
+    });
+
+    it("picks the chain for the classified task type", async () => {
+      const manager = managerWith(
+        { default: chain, reference_lookup: ["gemini-2.5-flash-lite", "gemini-2.5-pro"] },
+        { classifyTask: () => "reference_lookup" },
+      );
+      vi.mocked(gemini.chat).mockRejectedValueOnce(overloaded());
+      await manager.chat("what is Kirk's ability?", "s1");
+      expect(routeOf(gemini, 1)).toMatchObject({ modelId: "gemini-2.5-pro", escalate: false });
+      manager.close();
+    });
+  });
 });
@@ -1,9 +1,10 @@
-import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
 import { testRequest } from "./helpers/test-request.js";
 import { createApp } from "../src/server/index.js";
 import { makeState, makeConfig } from "./helpers/make-state.js";
 import { createOperationEventStoreFactory, type OperationEventStoreFactory } from "../src/server/stores/operation-event-store.js";
 import { createUserStore, type UserStore } from "../src/server/stores/user-store.js";
+import { createChatStreamForwarder, createOperationStream } from "../src/server/services/operation-stream.js";
 import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
 
 let pool: Pool;
@@ -213,6 +214,57 @@ describe("event routes — replay + snapshot", () => {
     }
   });
 
+  it("pushes new events and streamed text without waiting for a poll", async () => {
+    const localStore = factory.forUser("local");
+    const routing = { sessionId: "session-push", tabId: "tab-push" };
+    await localStore.register("chat_run", "run-push", routing);
+    const stream = await createOperationStream(pool);
+    const target = { topic: "chat_run", operationId: "run-push", userId: "local" };
+    // Text streamed before the client connects is replayed as one run.text
+    createChatStreamForwarder(stream, target)({ type: "text", text: "Your Enterprise " });
+    await vi.waitFor(() => expect(stream.textSoFar(target)).toBe("Your Enterprise "));
+
+    const app = createApp(makeState({ operationEventStoreFactory: factory, operationEventStore: localStore, operationStream: stream }));
+    const server = app.listen(0);
+    try {
+      const addr = server.address();
+      if (!addr || typeof addr === "string") throw new Error("unable to read test server address");
+
+      const controller = new AbortController();
+      const response = await fetch(
+        `http://127.0.0.1:${addr.port}/api/events/stream?topic=chat_run&id=run-push`,
+        { signal: controller.signal },
+      );
+      const reader = response.body!.getReader();
+      let text = "";
+      const readUntil = async (needle: string): Promise<void> => {
+        while (!text.includes(needle)) {
+          const chunk = await reader.read();
+          if (chunk.done) throw new Error(`stream ended before ${needle}`);
+          text += new TextDecoder().decode(chunk.value);
+        }
+      };
+
+      await readUntil('"text":"Your Enterprise "');
+      expect(text).toContain("event: run.text");
+
+      const startedAt = Date.now();
+      stream.publish({ ...target, kind: "text", offset: 16, text: "is docked." });
+      stream.publish({ ...target, kind: "tool", tool: "get_fleet", phase: "started" });
+      const completed = await localStore.emit({ topic: "chat_run", operationId: "run-push", routing, eventType: "run.completed", status: "succeeded", payloadJson: { answer: "done" } });
+      await readUntil("event: run.completed");
+
+      expect(Date.now() - startedAt).toBeLessThan(900);
+      expect(text).toContain('data: {"offset":16,"text":"is docked."}');
+      expect(text).toContain('data: {"tool":"get_fleet","phase":"started"}');
+      expect(text).toContain(`id: ${completed.seq}`);
+      controller.abort();
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await stream.close();
+    }
+  });
+
   it("rejects topics outside allowlist", async () => {
     const localStore = factory.forUser("local");
     await localStore.register("chat_run", "run-allow", { sessionId: "session-allow", tabId: "tab-allow" });
@@ -318,6 +318,9 @@ function createMockTargetStore(overrides: Partial<TargetStore> = {}): TargetStor
     markAchieved: vi.fn(),
     recordDelta: vi.fn(),
     listDeltas: vi.fn().mockResolvedValue([]),
+    addDependency: vi.fn(),
+    removeDependency: vi.fn(),
+    listDependencies: vi.fn().mockResolvedValue([]),
     recordReminderFeedback: vi.fn(),
     listReminderFeedback: vi.fn().mockResolvedValue([]),
     recordGoalRestatement: vi.fn(),
@@ -369,6 +372,7 @@ function createMockResearchStore(overrides: Partial<ResearchStore> = {}): Resear
         level: 4,
         completed: false,
         stateUpdatedAt: null,
+        costs: [],
         source: "ripper-cc",
         capturedAt: "2026-02-18T00:00:00Z",
         updatedAt: "2026-02-18T00:00:00Z",
@@ -388,6 +392,7 @@ function createMockResearchStore(overrides: Partial<ResearchStore> = {}): Resear
             level: 4,
             completed: false,
             stateUpdatedAt: null,
+            costs: [],
             source: "ripper-cc",
             capturedAt: "2026-02-18T00:00:00Z",
             updatedAt: "2026-02-18T00:00:00Z",
@@ -437,6 +442,8 @@ function createMockInventoryStore(overrides: Partial<InventoryStore> = {}): Inve
         totals: { itemCount: 1, totalQuantity: 280 },
       },
     ]),
+    getItem: vi.fn().mockResolvedValue(null),
+    listHistory: vi.fn().mockResolvedValue([]),
     counts: vi.fn().mockResolvedValue({ items: 1, categories: 1 }),
     close: vi.fn(),
     ...overrides,
@@ -487,11 +494,13 @@ describe("FLEET_TOOL_DECLARATIONS", () => {
     expect(names).toContain("calculate_upgrade_path");
     expect(names).toContain("estimate_acquisition_time");
     expect(names).toContain("calculate_true_power");
+    expect(names).toContain("plan_research");
     expect(names).toContain("find_loadouts_for_intent");
     // Analysis tools
     expect(names).toContain("suggest_crew");
     expect(names).toContain("analyze_battle_log");
     expect(names).toContain("suggest_counter");
+    expect(names).toContain("get_battle_analytics");
     expect(names).toContain("analyze_fleet");
     expect(names).toContain("resolve_conflict");
     expect(names).toContain("what_if_remove_officer");
@@ -854,7 +863,7 @@ describe("user isolation — scoped stores", () => {
       listByTree: vi.fn().mockResolvedValue([
         {
           tree: "combat",
-          nodes: [{ nodeId: "c1", tree: "combat", name: "Weapons", maxLevel: 10, dependencies: [], buffs: [], level: 5, completed: false, stateUpdatedAt: null, source: "manual", capturedAt: "2026-01-01T00:00:00Z", updatedAt: "2026-01-01T00:00:00Z" }],
+          nodes: [{ nodeId: "c1", tree: "combat", name: "Weapons", maxLevel: 10, dependencies: [], buffs: [], level: 5, completed: false, stateUpdatedAt: null, costs: [], source: "manual", capturedAt: "2026-01-01T00:00:00Z", updatedAt: "2026-01-01T00:00:00Z" }],
           totals: { nodes: 1, completed: 0, inProgress: 1, avgCompletionPct: 50 },
         },
       ]),
@@ -864,7 +873,7 @@ describe("user isolation — scoped stores", () => {
       listByTree: vi.fn().mockResolvedValue([
         {
           tree: "galaxy",
-          nodes: [{ nodeId: "g1", tree: "galaxy", name: "Warp Speed", maxLevel: 8, dependencies: [], buffs: [], level: 3, completed: false, stateUpdatedAt: null, source: "manual", capturedAt: "2026-01-01T00:00:00Z", updatedAt: "2026-01-01T00:00:00Z" }],
+          nodes: [{ nodeId: "g1", tree: "galaxy", name: "Warp Speed", maxLevel: 8, dependencies: [], buffs: [], level: 3, completed: false, stateUpdatedAt: null, costs: [], source: "manual", capturedAt: "2026-01-01T00:00:00Z", updatedAt: "2026-01-01T00:00:00Z" }],
           totals: { nodes: 1, completed: 0, inProgress: 1, avgCompletionPct: 37.5 },
         },
       ]),
@@ -1,11 +1,15 @@
 /**
  * fleet-tools/armada-context.test.ts — Tests for get_armada_context
  *
- * Covers: availability check, away team locks, officer reservations, loadout_ids filter
+ * Covers: availability check, away team locks, officer reservations, loadout_ids filter,
+ * alliance armadas and shared member fleets
  */
 
 import { describe, it, expect, vi } from "vitest";
-import { executeFleetTool, toolEnv, createMockCrewStore, createMockReferenceStore, FIXTURE_PLAN_ITEM } from "./helpers.js";
+import {
+  executeFleetTool, toolEnv, createMockCrewStore, createMockReferenceStore, createMockAllianceStore, FIXTURE_PLAN_ITEM,
+} from "./helpers.js";
+import type { AllianceRoster } from "../../src/server/services/alliance-roster.js";
 
 describe("get_armada_context", () => {
   it("returns all ships available when no locks exist", async () => {
@@ -163,4 +167,104 @@ describe("get_armada_context", () => {
     expect(bridge.captain.id).toBe("officer-kirk");
     expect(typeof bridge.captain.name).toBe("string");
   });
+
+  describe("alliance", () => {
+    const roster: AllianceRoster = {
+      sharedFleets: vi.fn().mockResolvedValue({
+        members: [{
+          userId: "user-2",
+          displayName: "Sulu",
+          role: "officer",
+          ships: [{ refId: "ship-enterprise", tier: 5, level: 40, power: 900000 }],
+          officers: [{ refId: "officer-kirk", level: 50, rank: "4", power: 30000 }],
+          totalShips: 12,
+          totalOfficers: 48,
+        }],
+        notSharing: ["Chekov"],
+      }),
+    };
+
+    it("omits the alliance section when not in an alliance", async () => {
+      const ctx = toolEnv({
+        crewStore: createMockCrewStore(),
+        referenceStore: createMockReferenceStore(),
+        allianceStore: createMockAllianceStore({ getMembership: vi.fn().mockResolvedValue(null) }),
+        allianceRoster: roster,
+      });
+      const result = await executeFleetTool("get_armada_context", {}, ctx) as Record<string, unknown>;
+      expect(result.alliance).toBeUndefined();
+    });
+
+    it("includes upcoming armadas with sign-ups and who still needs to join", async () => {
+      const allianceStore = createMockAllianceStore({
+        listArmadas: vi.fn().mockResolvedValue([{
+          id: 7,
+          name: "Gorn Eclipse",
+          hostileId: "hostile-gorn-eclipse",
+          hostileName: "Gorn Eclipse (Lv 40)",
+          startsAt: "2026-03-02T20:00:00.000Z",
+          minParticipants: 3,
+          notes: null,
+          createdBy: "leader-1",
+          createdAt: "2026-03-01T00:00:00.000Z",
+          signups: [{
+            userId: "local", displayName: "Kirk", shipRefId: "ship-enterprise", shipName: "USS Enterprise",
+            loadoutId: 10, loadoutName: "Enterprise Crew", dockNumber: 1, issues: [],
+            checkedAt: "2026-03-01T00:00:00.000Z", note: null, createdAt: "2026-03-01T00:00:00.000Z",
+          }, {
+            userId: "member-2", displayName: "Spock", shipRefId: "ship-vidar", shipName: "Vi'Dar",
+            loadoutId: null, loadoutName: null, dockNumber: null,
+            issues: [{ type: "not_docked", officerId: null, detail: "Ship is not assigned to a dock" }],
+            checkedAt: "2026-03-01T00:00:00.000Z", note: "late", createdAt: "2026-03-01T00:00:00.000Z",
+          }],
+        }]),
+      });
+      const ctx = toolEnv({
+        crewStore: createMockCrewStore(),
+        referenceStore: createMockReferenceStore(),
+        allianceStore,
+        allianceRoster: roster,
+      });
+      const result = await executeFleetTool("get_armada_context", {}, ctx) as Record<string, unknown>;
+      const alliance = result.alliance as Record<string, unknown>;
+
+      expect(allianceStore.listArmadas).toHaveBeenCalledWith({ upcoming: true });
+      expect(alliance.name).toBe("Starfleet Vanguard");
+      expect(alliance.yourRole).toBe("member");
+      const armadas = alliance.upcomingArmadas as Array<Record<string, unknown>>;
+      expect(armadas).toHaveLength(1);
+      expect(armadas[0].hostile).toEqual({ hostileId: "hostile-gorn-eclipse", name: "Gorn Eclipse (Lv 40)" });
+      expect(armadas[0].shipsNeeded).toBe(3);
+      expect(armadas[0].signedUp).toBe(2);
+      expect(armadas[0].stillNeeded).toBe(1);
+      expect(armadas[0].youSignedUp).toBe(true);
+      expect(armadas[0].signups).toEqual([
+        { member: "Kirk", shipName: "USS Enterprise", loadoutName: "Enterprise Crew", dockNumber: 1, ready: true, issues: [], note: null },
+        { member: "Spock", shipName: "Vi'Dar", loadoutName: null, dockNumber: null, ready: false, issues: ["Ship is not assigned to a dock"], note: "late" },
+      ]);
+    });
+
+    it("lists shared member fleets with resolved names", async () => {
+      const ctx = toolEnv({
+        crewStore: createMockCrewStore(),
+        referenceStore: createMockReferenceStore(),
+        allianceStore: createMockAllianceStore(),
+        allianceRoster: roster,
+      });
+      const result = await executeFleetTool("get_armada_context", {}, ctx) as Record<string, unknown>;
+      const alliance = result.alliance as Record<string, unknown>;
+      const fleets = alliance.memberFleets as Array<Record<string, unknown>>;
+
+      expect(fleets).toHaveLength(1);
+      expect(fleets[0].member).toBe("Sulu");
+      expect(fleets[0].totalOwnedShips).toBe(12);
+      expect(fleets[0].strongestShips).toEqual([
+        { shipId: "ship-enterprise", shipName: "USS Enterprise", tier: 5, level: 40, power: 900000 },
+      ]);
+      const officers = fleets[0].strongestOfficers as Array<Record<string, unknown>>;
+      expect(officers[0].officerName).toBe("James T. Kirk");
+      expect(alliance.membersNotSharing).toEqual(["Chekov"]);
+      expect(alliance.note).toBeUndefined();
+    });
+  });
 });
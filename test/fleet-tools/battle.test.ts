@@ -1,16 +1,20 @@
 /**
  * fleet-tools/battle.test.ts — Tests for battle analysis tools
  *
- * Covers: analyze_battle_log, suggest_counter
+ * Covers: analyze_battle_log, suggest_counter (inline payloads and stored reports),
+ *         get_battle_analytics
  */
 
 import { describe, it, expect, vi } from "vitest";
+import { parseBattleLog } from "../../src/server/services/fleet-tools/read-tools-data-helpers.js";
 import {
   executeFleetTool,
   toolEnv,
   createMockReferenceStore,
   createMockResearchStore,
   createMockOverlayStore,
+  createMockBattleReportStore,
+  createMockCrewStore,
   FIXTURE_OFFICER,
   FIXTURE_OFFICER_OVERLAY,
   FIXTURE_SPOCK_OFFICER,
@@ -78,6 +82,46 @@ describe("analyze_battle_log", () => {
     const result = await executeFleetTool("analyze_battle_log", { battle_log: { rounds: [] } }, {});
     expect(result).toHaveProperty("error");
   });
+
+  it("analyzes a stored report by report_id", async () => {
+    const get = vi.fn().mockResolvedValue({ id: 12, log: parseBattleLog(SAMPLE_BATTLE_LOG) });
+    const ctx = toolEnv({ battleReportStore: createMockBattleReportStore({ get }) });
+
+    const result = await executeFleetTool("analyze_battle_log", { report_id: 12 }, ctx) as Record<string, unknown>;
+    expect(get).toHaveBeenCalledWith(12);
+    expect(result.battle).toMatchObject({ reportId: 12, battleId: "battle-123", rounds: 2 });
+    expect((result.failurePoint as Record<string, unknown>).round).toBe(2);
+  });
+
+  it("returns error for an unknown or invalid report_id", async () => {
+    const ctx = toolEnv({ battleReportStore: createMockBattleReportStore() });
+    expect(await executeFleetTool("analyze_battle_log", { report_id: 99 }, ctx)).toHaveProperty("error");
+    expect(await executeFleetTool("analyze_battle_log", { report_id: "abc" }, ctx)).toHaveProperty("error");
+  });
+
+  it("saves an inline log to battle history with its fight context", async () => {
+    const create = vi.fn().mockResolvedValue({ id: 31 });
+    const ctx = toolEnv({
+      battleReportStore: createMockBattleReportStore({ create }),
+      referenceStore: createMockReferenceStore(),
+    });
+
+    const result = await executeFleetTool("analyze_battle_log", {
+      battle_log: { ...SAMPLE_BATTLE_LOG, loadout_id: 10, hostile_id: "cdn:hostile:9001" },
+    }, ctx) as Record<string, unknown>;
+
+    expect(result.battle).toMatchObject({ reportId: 31 });
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({
+      format: "json",
+      source: "chat",
+      context: expect.objectContaining({
+        loadoutId: 10,
+        opponentName: "Gorn Hunter",
+        opponentFaction: "Gorn",
+        opponentHullType: "Explorer",
+      }),
+    }));
+  });
 });
 
 describe("suggest_counter", () => {
@@ -134,3 +178,55 @@ describe("suggest_counter", () => {
   });
 });
 
+describe("get_battle_analytics", () => {
+  const ANALYTICS = {
+    fights: 4, wins: 1, losses: 3, winRate: 0.25,
+    byLoadout: [
+      { key: "10", fights: 3, wins: 0, losses: 3, winRate: 0 },
+      { key: null, fights: 1, wins: 1, losses: 0, winRate: 1 },
+    ],
+    byOpponentFaction: [{ key: "Klingon", fights: 4, wins: 1, losses: 3, winRate: 0.25 }],
+    byOpponentHullType: [{ key: null, fights: 4, wins: 1, losses: 3, winRate: 0.25 }],
+    failureCauses: [{ likelyCause: "energy_spike_broke_shields", count: 2, share: 0.667 }],
+    abilities: [{ name: "Opening Volley", fights: 2, triggers: 3, winRate: 0.5 }],
+  };
+
+  it("labels loadouts and reports how much history is tagged", async () => {
+    const analytics = vi.fn().mockResolvedValue(ANALYTICS);
+    const ctx = toolEnv({
+      battleReportStore: createMockBattleReportStore({ analytics }),
+      crewStore: createMockCrewStore({
+        getLoadout: vi.fn().mockResolvedValue({ id: 10, name: "Kirk Crew" }),
+      }),
+    });
+
+    const result = await executeFleetTool("get_battle_analytics", { mode: "pvp", days: 30 }, ctx) as Record<string, unknown>;
+    const call = analytics.mock.calls[0][0] as { mode: string; since: string };
+    expect(call.mode).toBe("pvp");
+    expect(Date.parse(call.since)).toBeLessThan(Date.now() - 29 * 86_400_000);
+
+    expect(result.byLoadout).toEqual([
+      expect.objectContaining({ key: "10", loadoutName: "Kirk Crew" }),
+      expect.objectContaining({ key: null, loadoutName: null }),
+    ]);
+    expect(result.topFailureCause).toBe("energy_spike_broke_shields");
+    expect(result.dataQuality).toEqual({
+      fightsWithLoadout: 3,
+      fightsWithOpponentFaction: 4,
+      fightsWithOpponentHullType: 0,
+    });
+  });
+
+  it("notes when there is no history", async () => {
+    const ctx = toolEnv({ battleReportStore: createMockBattleReportStore() });
+    const result = await executeFleetTool("get_battle_analytics", {}, ctx) as Record<string, unknown>;
+    expect(result.fights).toBe(0);
+    expect(result.note).toMatch(/No stored battles/);
+  });
+
+  it("validates days and requires the store", async () => {
+    const ctx = toolEnv({ battleReportStore: createMockBattleReportStore() });
+    expect(await executeFleetTool("get_battle_analytics", { days: 0 }, ctx)).toHaveProperty("error");
+    expect(await executeFleetTool("get_battle_analytics", {}, toolEnv())).toHaveProperty("error");
+  });
+});
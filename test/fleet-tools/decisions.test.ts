@@ -0,0 +1,98 @@
+/**
+ * fleet-tools/decisions.test.ts — Fleet decision recording
+ *
+ * Tests for: record_decision.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  executeFleetTool,
+  toolEnv,
+  createMockDecisionStore,
+  createMockReferenceStore,
+  FIXTURE_SHIP,
+} from "./helpers.js";
+import { DecisionLimitError } from "../../src/server/stores/decision-store.js";
+
+describe("record_decision", () => {
+  it("records a decision about a ship with its ownership assumption", async () => {
+    const decisionStore = createMockDecisionStore();
+    const ctx = toolEnv({ decisionStore, referenceStore: createMockReferenceStore() });
+
+    const result = await executeFleetTool("record_decision", {
+      kind: "saving",
+      statement: "Saving latinum for the Enterprise",
+      ship_id: FIXTURE_SHIP.id,
+      assumes_ownership: "unowned",
+    }, ctx) as Record<string, unknown>;
+
+    expect(result.tool).toBe("record_decision");
+    expect(result.recorded).toBe(true);
+    expect(result.replaced).toBe(false);
+    expect(decisionStore.create).toHaveBeenCalledWith({
+      kind: "saving",
+      statement: "Saving latinum for the Enterprise",
+      source: "chat",
+      subjectType: "ship",
+      subjectRefId: FIXTURE_SHIP.id,
+      subjectName: "USS Enterprise",
+      assumesOwnership: "unowned",
+      assumesTarget: null,
+    });
+  });
+
+  it("records a decision without a subject", async () => {
+    const decisionStore = createMockDecisionStore();
+    const result = await executeFleetTool("record_decision", {
+      kind: "avoid",
+      statement: "Never put Khan on mining",
+    }, toolEnv({ decisionStore, referenceStore: createMockReferenceStore() })) as Record<string, unknown>;
+
+    expect(result.recorded).toBe(true);
+    expect(decisionStore.create).toHaveBeenCalledWith({ kind: "avoid", statement: "Never put Khan on mining", source: "chat" });
+  });
+
+  it("updates an active decision of the same kind about the same subject", async () => {
+    const decisionStore = createMockDecisionStore({
+      list: vi.fn().mockResolvedValue([
+        { id: 7, kind: "saving", subjectType: "ship", subjectRefId: FIXTURE_SHIP.id },
+      ]),
+    });
+    const result = await executeFleetTool("record_decision", {
+      kind: "saving",
+      statement: "Saving latinum and parts for the Enterprise",
+      ship_id: FIXTURE_SHIP.id,
+    }, toolEnv({ decisionStore, referenceStore: createMockReferenceStore() })) as Record<string, unknown>;
+
+    expect(result.replaced).toBe(true);
+    expect(decisionStore.update).toHaveBeenCalledWith(7, expect.objectContaining({ statement: "Saving latinum and parts for the Enterprise" }));
+    expect(decisionStore.create).not.toHaveBeenCalled();
+  });
+
+  it("validates kind, subject and assumptions", async () => {
+    const ctx = toolEnv({
+      decisionStore: createMockDecisionStore(),
+      referenceStore: createMockReferenceStore({ getOfficer: vi.fn().mockResolvedValue(null) }),
+    });
+
+    const badKind = await executeFleetTool("record_decision", { kind: "maybe", statement: "x" }, ctx) as Record<string, unknown>;
+    expect(badKind.error).toMatch(/Invalid kind/);
+    const noStatement = await executeFleetTool("record_decision", { kind: "goal", statement: " " }, ctx) as Record<string, unknown>;
+    expect(noStatement.error).toBe("statement is required.");
+    const both = await executeFleetTool("record_decision", { kind: "goal", statement: "x", officer_id: "a", ship_id: "b" }, ctx) as Record<string, unknown>;
+    expect(both.error).toMatch(/not both/);
+    const badOwnership = await executeFleetTool("record_decision", { kind: "goal", statement: "x", assumes_ownership: "maybe" }, ctx) as Record<string, unknown>;
+    expect(badOwnership.error).toMatch(/assumes_ownership/);
+    const unknownOfficer = await executeFleetTool("record_decision", { kind: "avoid", statement: "x", officer_id: "nobody" }, ctx) as Record<string, unknown>;
+    expect(unknownOfficer.error).toMatch(/Officer not found: nobody/);
+  });
+
+  it("reports the per-user limit", async () => {
+    const ctx = toolEnv({
+      decisionStore: createMockDecisionStore({ create: vi.fn().mockRejectedValue(new DecisionLimitError()) }),
+      referenceStore: createMockReferenceStore(),
+    });
+    const result = await executeFleetTool("record_decision", { kind: "goal", statement: "x" }, ctx) as Record<string, unknown>;
+    expect(result.error).toMatch(/At most 100 decisions/);
+  });
+});
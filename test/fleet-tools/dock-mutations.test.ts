@@ -9,6 +9,7 @@ import {
   executeFleetTool,
   toolEnv,
   createMockCrewStore,
+  createMockOverlayStore,
   FIXTURE_PLAN_ITEM,
 } from "./helpers.js";
 
@@ -82,6 +83,48 @@ describe("assign_dock", () => {
     );
   });
 
+  it("passes ship_instance_id through to the plan item", async () => {
+    const crewStore = createMockCrewStore({
+      getLoadout: vi.fn().mockResolvedValue({ id: 10, shipId: "vidar" }),
+      listPlanItems: vi.fn().mockResolvedValue([]),
+      createPlanItem: vi.fn().mockResolvedValue({ ...FIXTURE_PLAN_ITEM, id: 103, shipInstanceId: "inst_two" }),
+      upsertDock: vi.fn(),
+    });
+    const overlayStore = createMockOverlayStore({
+      listShipInstances: vi.fn().mockResolvedValue([{ refId: "vidar", instanceId: "inst_two" }]),
+    });
+    const ctx = toolEnv({ crewStore, overlayStore });
+
+    const result = await executeFleetTool("assign_dock", {
+      dock_number: 2, loadout_id: 10, ship_instance_id: "inst_two",
+    }, ctx) as Record<string, unknown>;
+
+    expect((result.planItem as Record<string, unknown>).shipInstanceId).toBe("inst_two");
+    expect(crewStore.createPlanItem).toHaveBeenCalledWith(
+      expect.objectContaining({ dockNumber: 2, shipInstanceId: "inst_two" }),
+    );
+  });
+
+  it("rejects a ship_instance_id that is not an instance of the loadout's ship", async () => {
+    const crewStore = createMockCrewStore({
+      getLoadout: vi.fn().mockResolvedValue({ id: 10, shipId: "vidar" }),
+      upsertDock: vi.fn(),
+    });
+    const overlayStore = createMockOverlayStore({
+      listShipInstances: vi.fn().mockResolvedValue([{ refId: "vidar", instanceId: "primary" }]),
+    });
+    const ctx = toolEnv({ crewStore, overlayStore });
+
+    const result = await executeFleetTool("assign_dock", {
+      dock_number: 2, loadout_id: 10, ship_instance_id: "inst_other",
+    }, ctx) as Record<string, unknown>;
+
+    expect(result.error).toMatch(/not an instance of ship vidar/);
+    expect(overlayStore.listShipInstances).toHaveBeenCalledWith("vidar");
+    expect(crewStore.upsertDock).not.toHaveBeenCalled();
+    expect(crewStore.createPlanItem).not.toHaveBeenCalled();
+  });
+
   it("uses default label when none provided", async () => {
     const crewStore = createMockCrewStore({
       listPlanItems: vi.fn().mockResolvedValue([]),
@@ -209,6 +252,20 @@ describe("update_dock", () => {
     );
   });
 
+  it("rejects a kept ship instance that does not belong to the new loadout's ship", async () => {
+    const existing = { ...FIXTURE_PLAN_ITEM, id: 50, shipInstanceId: "inst_two" };
+    const crewStore = createMockCrewStore({
+      getPlanItem: vi.fn().mockResolvedValue(existing),
+      getLoadout: vi.fn().mockResolvedValue({ id: 99, shipId: "kumari" }),
+    });
+    const ctx = toolEnv({ crewStore, overlayStore: createMockOverlayStore() });
+
+    const result = await executeFleetTool("update_dock", { plan_item_id: 50, loadout_id: 99 }, ctx) as Record<string, unknown>;
+
+    expect(result.error).toMatch(/"inst_two" is not an instance of ship kumari/);
+    expect(crewStore.updatePlanItem).not.toHaveBeenCalled();
+  });
+
   it("updates dock_number field", async () => {
     const existing = { ...FIXTURE_PLAN_ITEM, id: 50 };
     const updated = { ...existing, dockNumber: 3 };
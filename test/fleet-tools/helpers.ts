@@ -17,6 +17,9 @@ import type { TargetStore } from "../../src/server/stores/target-store.js";
 import type { ReceiptStore } from "../../src/server/stores/receipt-store.js";
 import type { ResearchStore } from "../../src/server/stores/research-store.js";
 import type { InventoryStore } from "../../src/server/stores/inventory-store.js";
+import type { BattleReportStore } from "../../src/server/stores/battle-report-store.js";
+import type { DecisionStore } from "../../src/server/stores/decision-store.js";
+import type { AllianceStore, AllianceMembership } from "../../src/server/stores/alliance-store.js";
 import type { UserSettingsStore } from "../../src/server/stores/user-settings-store.js";
 
 // ─── Re-export for convenience ──────────────────────────────
@@ -223,10 +226,12 @@ export function createMockOverlayStore(overrides: Partial<OverlayStore> = {}): O
     getOfficerOverlay: vi.fn().mockResolvedValue(FIXTURE_OFFICER_OVERLAY),
     setOfficerOverlay: vi.fn(),
     listOfficerOverlays: vi.fn().mockResolvedValue([]),
+    listOfficerInstances: vi.fn().mockResolvedValue([]),
     deleteOfficerOverlay: vi.fn(),
     getShipOverlay: vi.fn().mockResolvedValue(FIXTURE_SHIP_OVERLAY),
     setShipOverlay: vi.fn(),
     listShipOverlays: vi.fn().mockResolvedValue([]),
+    listShipInstances: vi.fn().mockResolvedValue([]),
     deleteShipOverlay: vi.fn(),
     bulkSetOfficerOwnership: vi.fn(),
     bulkSetShipOwnership: vi.fn(),
@@ -348,6 +353,9 @@ export function createMockTargetStore(overrides: Partial<TargetStore> = {}): Tar
     markAchieved: vi.fn(),
     recordDelta: vi.fn(),
     listDeltas: vi.fn().mockResolvedValue([]),
+    addDependency: vi.fn(),
+    removeDependency: vi.fn(),
+    listDependencies: vi.fn().mockResolvedValue([]),
     recordReminderFeedback: vi.fn(),
     listReminderFeedback: vi.fn().mockResolvedValue([]),
     recordGoalRestatement: vi.fn(),
@@ -399,6 +407,7 @@ export function createMockResearchStore(overrides: Partial<ResearchStore> = {}):
         level: 4,
         completed: false,
         stateUpdatedAt: null,
+        costs: [],
         source: "ripper-cc",
         capturedAt: "2026-02-18T00:00:00Z",
         updatedAt: "2026-02-18T00:00:00Z",
@@ -418,6 +427,7 @@ export function createMockResearchStore(overrides: Partial<ResearchStore> = {}):
             level: 4,
             completed: false,
             stateUpdatedAt: null,
+            costs: [],
             source: "ripper-cc",
             capturedAt: "2026-02-18T00:00:00Z",
             updatedAt: "2026-02-18T00:00:00Z",
@@ -467,12 +477,86 @@ export function createMockInventoryStore(overrides: Partial<InventoryStore> = {}
         totals: { itemCount: 1, totalQuantity: 280 },
       },
     ]),
+    getItem: vi.fn().mockResolvedValue(null),
+    listHistory: vi.fn().mockResolvedValue([]),
     counts: vi.fn().mockResolvedValue({ items: 1, categories: 1 }),
     close: vi.fn(),
     ...overrides,
   } as unknown as InventoryStore;
 }
 
+export function createMockBattleReportStore(overrides: Partial<BattleReportStore> = {}): BattleReportStore {
+  return {
+    create: vi.fn(),
+    list: vi.fn().mockResolvedValue([]),
+    get: vi.fn().mockResolvedValue(null),
+    delete: vi.fn().mockResolvedValue(false),
+    counts: vi.fn().mockResolvedValue({ total: 0 }),
+    analytics: vi.fn().mockResolvedValue({
+      fights: 0, wins: 0, losses: 0, winRate: null,
+      byLoadout: [], byOpponentFaction: [], byOpponentHullType: [], failureCauses: [], abilities: [],
+    }),
+    close: vi.fn(),
+    ...overrides,
+  } as BattleReportStore;
+}
+
+export function createMockDecisionStore(overrides: Partial<DecisionStore> = {}): DecisionStore {
+  const echo = async (input: Record<string, unknown>) => ({
+    id: 1,
+    subjectType: null,
+    subjectRefId: null,
+    subjectName: null,
+    assumesOwnership: null,
+    assumesTarget: null,
+    status: "active",
+    invalidatedReason: null,
+    invalidatedAt: null,
+    source: "chat",
+    createdAt: "2026-03-01T00:00:00.000Z",
+    updatedAt: "2026-03-01T00:00:00.000Z",
+    ...input,
+  });
+  return {
+    list: vi.fn().mockResolvedValue([]),
+    get: vi.fn().mockResolvedValue(null),
+    create: vi.fn().mockImplementation(echo),
+    update: vi.fn().mockImplementation(async (id: number, input: Record<string, unknown>) => ({ ...await echo(input), id })),
+    invalidate: vi.fn().mockResolvedValue(null),
+    delete: vi.fn().mockResolvedValue(false),
+    counts: vi.fn().mockResolvedValue({ active: 0, invalidated: 0 }),
+    close: vi.fn(),
+    ...overrides,
+  } as DecisionStore;
+}
+
+export const FIXTURE_ALLIANCE_MEMBERSHIP: AllianceMembership = {
+  alliance: {
+    id: "alliance-1",
+    name: "Starfleet Vanguard",
+    tag: "SFV",
+    joinCode: null,
+    createdBy: "leader-1",
+    createdAt: "2026-03-01T00:00:00.000Z",
+    updatedAt: "2026-03-01T00:00:00.000Z",
+  },
+  role: "member",
+  shareOverlays: true,
+  memberCount: 3,
+};
+
+export function createMockAllianceStore(overrides: Partial<AllianceStore> = {}): AllianceStore {
+  return {
+    getMembership: vi.fn().mockResolvedValue(FIXTURE_ALLIANCE_MEMBERSHIP),
+    listMembers: vi.fn().mockResolvedValue([]),
+    listPlanItems: vi.fn().mockResolvedValue([]),
+    listTargets: vi.fn().mockResolvedValue([]),
+    listArmadas: vi.fn().mockResolvedValue([]),
+    close: vi.fn(),
+    ...overrides,
+  } as AllianceStore;
+}
+
 export function createMockUserSettingsStore(overrides: Partial<UserSettingsStore> = {}): UserSettingsStore {
   return {
     getForUser: vi.fn().mockImplementation(async (_userId: string, key: string) => {
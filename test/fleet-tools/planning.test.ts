@@ -27,6 +27,51 @@ describe("validate_plan", () => {
     expect((result.officerConflicts as unknown[]).length).toBe(1);
   });
 
+  it("includes greedy vs optimal solver comparison when compare_solvers=true", async () => {
+    const ctx = toolEnv({
+      crewStore: createMockCrewStore({
+        listPlanItems: vi.fn().mockResolvedValue([
+          { id: 1, label: "Hog", loadoutId: 1, variantId: null, dockNumber: null, awayOfficers: null, priority: 1, isActive: true, source: "manual", notes: null, createdAt: "2024-01-01", updatedAt: "2024-01-01" },
+          { id: 2, label: "B", loadoutId: 2, variantId: null, dockNumber: null, awayOfficers: null, priority: 2, isActive: true, source: "manual", notes: null, createdAt: "2024-01-01", updatedAt: "2024-01-01" },
+          { id: 3, label: "C", loadoutId: 3, variantId: null, dockNumber: null, awayOfficers: null, priority: 3, isActive: true, source: "manual", notes: null, createdAt: "2024-01-01", updatedAt: "2024-01-01" },
+        ]),
+        listLoadouts: vi.fn().mockResolvedValue([
+          { id: 1, name: "Hog" }, { id: 2, name: "B" }, { id: 3, name: "C" },
+        ]),
+        getLoadoutsByIds: vi.fn().mockResolvedValue(new Map([
+          [1, { id: 1, bridgeCore: { members: [{ officerId: "kirk", slot: "captain" }, { officerId: "spock", slot: "bridge_1" }] } }],
+          [2, { id: 2, bridgeCore: { members: [{ officerId: "kirk", slot: "captain" }] } }],
+          [3, { id: 3, bridgeCore: { members: [{ officerId: "spock", slot: "captain" }] } }],
+        ])),
+      }),
+    });
+    const result = await executeFleetTool("validate_plan", { compare_solvers: true }, ctx) as Record<string, unknown>;
+    const comparison = result.solverComparison as Record<string, unknown>;
+    expect(comparison.coverageGain).toBeGreaterThan(0);
+    const differences = comparison.differences as Array<Record<string, unknown>>;
+    expect(differences.map((d) => d.label)).toEqual(["Hog", "B", "C"]);
+    expect((differences[0].optimal as Record<string, unknown>).action).toBe("conflict");
+  });
+
+  it("compares solvers with the owned-roster substitution data", async () => {
+    const listOfficerOverlays = vi.fn().mockResolvedValue([]);
+    const ctx = toolEnv({
+      crewStore: createMockCrewStore(),
+      effectStore: { listIntentsFull: vi.fn().mockResolvedValue([]), getOfficerAbilitiesBulk: vi.fn().mockResolvedValue(new Map()) },
+      overlayStore: { listOfficerOverlays },
+      referenceStore: { listOfficers: vi.fn().mockResolvedValue([]) },
+    });
+    const result = await executeFleetTool("validate_plan", { compare_solvers: true }, ctx) as Record<string, unknown>;
+    expect(result).toHaveProperty("solverComparison");
+    expect(listOfficerOverlays).toHaveBeenCalledWith({ ownershipState: "owned" });
+  });
+
+  it("omits solver comparison by default", async () => {
+    const ctx = toolEnv({ crewStore: createMockCrewStore() });
+    const result = await executeFleetTool("validate_plan", {}, ctx) as Record<string, unknown>;
+    expect(result).not.toHaveProperty("solverComparison");
+  });
+
   it("returns error when loadout store unavailable", async () => {
     const result = await executeFleetTool("validate_plan", {}, toolEnv());
     expect(result).toHaveProperty("error");
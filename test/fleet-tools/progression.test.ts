@@ -2,7 +2,7 @@
  * fleet-tools/progression.test.ts — Tests for progression read tools
  *
  * Covers: list_research, list_inventory, calculate_upgrade_path,
- *         estimate_acquisition_time, calculate_true_power
+ *         estimate_acquisition_time, calculate_true_power, plan_research
  */
 
 import { describe, it, expect, vi } from "vitest";
@@ -13,9 +13,11 @@ import {
   createMockOverlayStore,
   createMockResearchStore,
   createMockInventoryStore,
+  createMockCrewStore,
   FIXTURE_SHIP,
   FIXTURE_SHIP_OVERLAY,
 } from "./helpers.js";
+import type { EffectStore } from "../../src/server/stores/effect-store.js";
 
 describe("list_research", () => {
   it("returns grouped research state from store", async () => {
@@ -243,6 +245,54 @@ describe("estimate_acquisition_time", () => {
     expect(perResource[0]).toMatchObject({ name: "3★ Ore", gap: 250, dailyRate: 25, days: 10 });
   });
 
+  it("uses income measured from inventory history when no override is given", async () => {
+    const shipWithTiers = {
+      ...FIXTURE_SHIP,
+      maxTier: 10,
+      tiers: [
+        {
+          tier: 6,
+          components: [
+            { build_cost: [{ resource_id: 101, amount: 300, name: "3★ Ore" }] },
+          ],
+        },
+      ],
+    } as ReferenceShip;
+    const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000).toISOString();
+    const snapshot = (quantity: number, days: number) =>
+      ({ category: "ore", name: "3★ Ore", grade: null, quantity, source: "chat", capturedAt: daysAgo(days) });
+
+    const ctx = toolEnv({
+      referenceStore: createMockReferenceStore({ getShip: vi.fn().mockResolvedValue(shipWithTiers) }),
+      overlayStore: createMockOverlayStore({ getShipOverlay: vi.fn().mockResolvedValue({ ...FIXTURE_SHIP_OVERLAY, tier: 5 }) }),
+      inventoryStore: createMockInventoryStore({
+        listItems: vi.fn().mockResolvedValue([{ id: 1, category: "ore", name: "3★ Ore", grade: null, quantity: 50, unit: null, source: "chat", capturedAt: daysAgo(0), updatedAt: daysAgo(0) }]),
+        listHistory: vi.fn().mockResolvedValue([snapshot(0, 4), snapshot(20, 2), snapshot(50, 0)]),
+      }),
+    });
+
+    const upgrade = await executeFleetTool(
+      "calculate_upgrade_path",
+      { ship_id: "ship-enterprise", target_tier: 6 },
+      ctx,
+    ) as Record<string, unknown>;
+    const requirement = (upgrade.requirements as Array<Record<string, unknown>>)[0];
+    expect(requirement.income).toEqual({ dailyRate: 12.5, confidence: "medium", samples: 3, spanDays: 4 });
+    expect(requirement.daysToReady).toBe(20);
+
+    const result = await executeFleetTool(
+      "estimate_acquisition_time",
+      { ship_id: "ship-enterprise", target_tier: 6 },
+      ctx,
+    ) as Record<string, unknown>;
+
+    const perResource = result.perResource as Array<Record<string, unknown>>;
+    expect(perResource[0]).toMatchObject({ gap: 250, dailyRate: 12.5, rateSource: "history", days: 20 });
+    const summary = result.summary as Record<string, unknown>;
+    expect(summary.historyRateCount).toBe(1);
+    expect(summary.etaMode).toBe("numeric");
+  });
+
   it("falls back to qualitative ETA when confidence is below threshold", async () => {
     const shipWithTiers = {
       ...FIXTURE_SHIP,
@@ -335,3 +385,64 @@ describe("calculate_true_power", () => {
   });
 });
 
+
+describe("plan_research", () => {
+  const effectStore = {
+    getIntentWeights: vi.fn(async (intentId: string) =>
+      intentId === "pvp" || intentId === "general" ? { weapon_damage: 2 } : {}),
+    listIntents: vi.fn().mockResolvedValue([]),
+  } as unknown as EffectStore;
+
+  it("queues research for an intent with inventory-checked costs", async () => {
+    const nodes = await createMockResearchStore().listNodes();
+    const ctx = toolEnv({
+      researchStore: createMockResearchStore({
+        listNodes: vi.fn().mockResolvedValue([
+          { ...nodes[0], costs: [{ level: 5, resource: "3★ Ore", amount: 200 }, { level: 6, resource: "3★ Ore", amount: 200 }] },
+        ]),
+      }),
+      inventoryStore: createMockInventoryStore(),
+      effectStore,
+    });
+
+    const result = await executeFleetTool("plan_research", { intent_key: "pvp" }, ctx) as Record<string, unknown>;
+
+    expect(result.goal).toEqual({ type: "intent", intentKey: "pvp" });
+    const queue = result.queue as Array<Record<string, unknown>>;
+    expect(queue).toHaveLength(1);
+    expect(queue[0].nodeId).toBe("combat.weapon.damage.t4");
+    expect(queue[0].cumulative).toEqual([{ resource: "3★ Ore", required: 400, available: 280, gap: 120 }]);
+    expect(queue[0].affordable).toBe(false);
+  });
+
+  it("scores a ship by its loadout intents", async () => {
+    const crewStore = createMockCrewStore({
+      listLoadouts: vi.fn().mockResolvedValue([{ id: 1, intentKeys: ["pvp"] }]),
+    });
+    const ctx = toolEnv({
+      researchStore: createMockResearchStore(),
+      referenceStore: createMockReferenceStore(),
+      crewStore,
+      effectStore,
+    });
+
+    const result = await executeFleetTool("plan_research", { ship_id: "ship-enterprise" }, ctx) as Record<string, unknown>;
+
+    expect(crewStore.listLoadouts).toHaveBeenCalledWith({ shipId: "ship-enterprise" });
+    expect(result.intents).toEqual(["pvp"]);
+    expect((result.goal as Record<string, unknown>).intentSource).toBe("loadouts");
+    expect(result.queue as unknown[]).toHaveLength(1);
+  });
+
+  it("returns error for an intent without weights", async () => {
+    const ctx = toolEnv({ researchStore: createMockResearchStore(), effectStore });
+    const result = await executeFleetTool("plan_research", { intent_key: "nope" }, ctx);
+    expect(result).toHaveProperty("error");
+  });
+
+  it("returns error without a goal", async () => {
+    const ctx = toolEnv({ researchStore: createMockResearchStore(), effectStore });
+    const result = await executeFleetTool("plan_research", {}, ctx);
+    expect(result).toHaveProperty("error");
+  });
+});
@@ -10,6 +10,9 @@ import {
   toolEnv,
   createMockTargetStore,
   createMockCrewStore,
+  createMockReferenceStore,
+  createMockInventoryStore,
+  FIXTURE_SHIP,
 } from "./helpers.js";
 
 describe("list_targets", () => {
@@ -104,6 +107,8 @@ describe("list_targets", () => {
       status: "active",
       autoSuggested: false,
       achievedAt: null,
+      dependsOn: [],
+      blockedBy: [],
       recentDeltas: [],
       recentReminderFeedback: [],
       continuity: {
@@ -114,6 +119,24 @@ describe("list_targets", () => {
     });
   });
 
+  it("lists prerequisites and the active ones still blocking", async () => {
+    const ctx = toolEnv({
+      targetStore: createMockTargetStore({
+        list: vi.fn()
+          .mockResolvedValueOnce([{ ...FIXTURE_TARGET, status: "abandoned" }]) // requested status
+          .mockResolvedValueOnce([{ ...FIXTURE_TARGET, id: 2 }]), // active targets
+        listDependencies: vi.fn().mockResolvedValue([
+          { targetId: 1, dependsOnId: 2, createdAt: "2026-03-01T00:00:00.000Z" },
+          { targetId: 1, dependsOnId: 3, createdAt: "2026-03-01T00:00:00.000Z" },
+        ]),
+      }),
+    });
+    const result = await executeFleetTool("list_targets", { status: "abandoned" }, ctx) as Record<string, unknown>;
+    const target = (result.targets as Array<Record<string, unknown>>)[0];
+    expect(target.dependsOn).toEqual([2, 3]);
+    expect(target.blockedBy).toEqual([2]);
+  });
+
   it("includes per-target reminder continuity context", async () => {
     const ctx = toolEnv({
       targetStore: createMockTargetStore({
@@ -262,6 +285,29 @@ describe("detect_target_conflicts", () => {
     expect(summary.totalConflicts).toBe(0);
   });
 
+  it("includes a material budget when the reference catalog is available", async () => {
+    const ship = {
+      ...FIXTURE_SHIP,
+      tier: 3,
+      tiers: [{ tier: 4, components: [{ build_cost: [{ resource_id: 101, amount: 300, name: "3★ Ore" }] }] }],
+    };
+    const ctx = toolEnv({
+      targetStore: createMockTargetStore({
+        list: vi.fn().mockResolvedValue([
+          { id: 1, targetType: "ship", refId: "ship-enterprise", loadoutId: null, targetTier: 4, priority: 1, status: "active" },
+        ]),
+      }),
+      crewStore: createMockCrewStore({ listPlanItems: vi.fn().mockResolvedValue([]) }),
+      referenceStore: createMockReferenceStore({ getShip: vi.fn().mockResolvedValue(ship) }),
+      inventoryStore: createMockInventoryStore(),
+    });
+
+    const result = await executeFleetTool("detect_target_conflicts", {}, ctx) as Record<string, unknown>;
+    const budget = result.budget as Record<string, unknown>;
+    expect(budget.resources).toEqual([expect.objectContaining({ name: "3★ Ore", required: 300, available: 280, shortfall: 20 })]);
+    expect(budget.recommended).toBe("priority");
+  });
+
   it("returns error when target store unavailable", async () => {
     const result = await executeFleetTool("detect_target_conflicts", {}, toolEnv());
     expect(result).toHaveProperty("error");
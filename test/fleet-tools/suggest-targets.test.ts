@@ -45,6 +45,7 @@ describe("suggest_targets", () => {
           loadoutId: null,
           reason: "Need for science team",
           priority: 2,
+          status: "active",
         }]),
       }),
     });
@@ -173,6 +174,76 @@ describe("suggest_targets", () => {
 });
 
 
+describe("suggest_targets — dependency order", () => {
+  const base = {
+    targetType: "ship" as const, loadoutId: null, targetTier: null, targetRank: null, targetLevel: null,
+    reason: null, status: "active" as const, autoSuggested: false,
+    createdAt: "2026-01-01T00:00:00.000Z", updatedAt: "2026-01-01T00:00:00.000Z", achievedAt: null,
+  };
+
+  it("lists prerequisites first and separates ready from blocked targets", async () => {
+    const ctx = toolEnv({
+      targetStore: createMockTargetStore({
+        list: vi.fn().mockResolvedValue([
+          { ...base, id: 1, refId: "cdn:ship:enterprise", priority: 1 },
+          { ...base, id: 2, refId: "cdn:ship:saladin", priority: 3, targetTier: 5 },
+          { ...base, id: 3, refId: "cdn:ship:old", priority: 1, status: "achieved" },
+        ]),
+        listDependencies: vi.fn().mockResolvedValue([
+          { targetId: 1, dependsOnId: 2, createdAt: "2026-01-01T00:00:00.000Z" },
+        ]),
+      }),
+    });
+
+    const result = await executeFleetTool("suggest_targets", {}, ctx) as Record<string, unknown>;
+
+    const targets = result.existingTargets as Array<Record<string, unknown>>;
+    expect(targets.map((t) => t.id)).toEqual([2, 1]);
+    expect(targets[1]).toMatchObject({ dependsOn: [2], blockedBy: [2] });
+    expect(result.targetOrder).toEqual({ ready: [2], blocked: [{ id: 1, blockedBy: [2] }] });
+  });
+
+  it("flags upgrade candidates whose ship target is still blocked", async () => {
+    const shipWithTiers = {
+      ...FIXTURE_SHIP,
+      id: "cdn:ship:enterprise",
+      maxTier: 10,
+      tiers: [{ tier: 6, components: [{ build_cost: [{ resource_id: 101, amount: 100, name: "3★ Ore" }] }] }],
+    } as ReferenceShip;
+    const ownedOverlay = { refId: "cdn:ship:enterprise", ownershipState: "owned", tier: 5 };
+
+    const ctx = toolEnv({
+      referenceStore: createMockReferenceStore({ listShips: vi.fn().mockResolvedValue([shipWithTiers]) }),
+      overlayStore: createMockOverlayStore({
+        listOfficerOverlays: vi.fn().mockResolvedValue([]),
+        listShipOverlays: vi.fn()
+          .mockResolvedValueOnce([ownedOverlay])
+          .mockResolvedValueOnce([])
+          .mockResolvedValueOnce([ownedOverlay]),
+      }),
+      inventoryStore: createMockInventoryStore({
+        listItems: vi.fn().mockResolvedValue([
+          { id: 1, category: "ore", name: "3★ Ore", grade: "3-star", quantity: 100, unit: null, source: "chat", capturedAt: "2026-01-01", updatedAt: "2026-01-01" },
+        ]),
+      }),
+      targetStore: createMockTargetStore({
+        list: vi.fn().mockResolvedValue([
+          { ...base, id: 1, refId: "cdn:ship:enterprise", priority: 1 },
+          { ...base, id: 2, refId: "cdn:ship:saladin", priority: 2 },
+        ]),
+        listDependencies: vi.fn().mockResolvedValue([
+          { targetId: 1, dependsOnId: 2, createdAt: "2026-01-01T00:00:00.000Z" },
+        ]),
+      }),
+    });
+
+    const result = await executeFleetTool("suggest_targets", {}, ctx) as Record<string, unknown>;
+
+    const ready = result.readyToUpgrade as Array<Record<string, unknown>>;
+    expect(ready[0]).toMatchObject({ shipId: "cdn:ship:enterprise", blockedByTargets: [2] });
+  });
+});
+
 describe("suggest_targets — Ready to Upgrade", () => {
   it("includes readyToUpgrade when ship has ≥80% resource coverage", async () => {
     const shipWithTiers: ReferenceShip = {
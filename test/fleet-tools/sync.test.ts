@@ -275,6 +275,31 @@ describe("sync_overlay", () => {
     expect(dockPreview.length).toBe(2);
   });
 
+  it("re-docks a specific ship instance when only shipInstanceId changes", async () => {
+    const updatePlanItem = vi.fn().mockResolvedValue(null);
+    const ctx = toolEnv({
+      overlayStore: createMockOverlayStore(),
+      crewStore: createMockCrewStore({
+        listPlanItems: vi.fn().mockResolvedValue([
+          { id: 10, loadoutId: 20, variantId: null, dockNumber: 1, awayOfficers: null, shipInstanceId: null },
+        ]),
+        listLoadouts: vi.fn().mockResolvedValue([]),
+        updatePlanItem,
+      }),
+    });
+
+    const result = await executeFleetTool("sync_overlay", {
+      export: { version: "1.0", docks: [{ number: 1, loadoutId: 20, shipInstanceId: "inst_two" }] },
+      dry_run: false,
+    }, ctx) as Record<string, unknown>;
+
+    const preview = result.changesPreview as Record<string, unknown>;
+    expect(preview.docks).toEqual([
+      expect.objectContaining({ dockNumber: 1, action: "reassigned", shipInstanceId: "inst_two" }),
+    ]);
+    expect(updatePlanItem).toHaveBeenCalledWith(10, expect.objectContaining({ shipInstanceId: "inst_two" }));
+  });
+
   it("supports manual free-text updates", async () => {
     const setShipOverlay = vi.fn().mockResolvedValue({
       refId: "ship-enterprise",
@@ -857,6 +882,34 @@ describe("sync_research", () => {
     expect(String(result.error)).toContain("invalid buff fields");
   });
 
+  it("validates node cost fields", async () => {
+    const ctx = toolEnv({
+      researchStore: createMockResearchStore(),
+    });
+    const invalidExport = {
+      schema_version: "1.0",
+      nodes: [
+        {
+          node_id: "combat.weapon",
+          tree: "combat",
+          name: "Weapon",
+          max_level: 10,
+          dependencies: [],
+          buffs: [],
+          costs: [{ level: 11, resource: "Ore", amount: 100 }],
+        },
+      ],
+      state: [{ node_id: "combat.weapon", level: 1, completed: false }],
+    };
+
+    const result = await executeFleetTool("sync_research", {
+      export: invalidExport,
+    }, ctx) as Record<string, unknown>;
+
+    expect(result.tool).toBe("sync_research");
+    expect(String(result.error)).toContain("invalid cost fields");
+  });
+
   it("returns error when research store unavailable", async () => {
     const result = await executeFleetTool("sync_research", { export: RESEARCH_EXPORT }, {});
     expect(result).toHaveProperty("error");
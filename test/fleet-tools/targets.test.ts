@@ -168,6 +168,42 @@ describe("create_target", () => {
   });
 });
 
+describe("create_target — dependencies", () => {
+  it("links prerequisites after creating the target", async () => {
+    const ctx = toolEnv({
+      targetStore: createMockTargetStore({
+        listByRef: vi.fn().mockResolvedValue([]),
+        get: vi.fn().mockResolvedValue({ id: 4, targetType: "ship", status: "active" }),
+        create: vi.fn().mockResolvedValue({
+          id: 5, targetType: "ship", refId: "cdn:ship:enterprise", loadoutId: null,
+          priority: 2, reason: null, status: "active",
+        }),
+        addDependency: vi.fn().mockResolvedValue({ targetId: 5, dependsOnId: 4, createdAt: "2026-02-17" }),
+      }),
+    });
+    const result = await executeFleetTool("create_target", {
+      target_type: "ship", ref_id: "cdn:ship:enterprise", depends_on: [4],
+    }, ctx) as Record<string, unknown>;
+    expect(result.created).toBe(true);
+    expect((result.target as Record<string, unknown>).dependsOn).toEqual([4]);
+    expect(ctx.deps.targetStore!.addDependency).toHaveBeenCalledWith(5, 4);
+  });
+
+  it("rejects unknown prerequisites before creating anything", async () => {
+    const ctx = toolEnv({
+      targetStore: createMockTargetStore({
+        listByRef: vi.fn().mockResolvedValue([]),
+        get: vi.fn().mockResolvedValue(null),
+      }),
+    });
+    const result = await executeFleetTool("create_target", {
+      target_type: "ship", ref_id: "cdn:ship:enterprise", depends_on: [99],
+    }, ctx) as Record<string, unknown>;
+    expect(result.error).toContain("99");
+    expect(ctx.deps.targetStore!.create).not.toHaveBeenCalled();
+  });
+});
+
 describe("update_target", () => {
   it("updates target priority and reason", async () => {
     const ctx = toolEnv({
@@ -273,6 +309,35 @@ describe("update_target", () => {
     expect((result.error as string)).toContain("Priority");
   });
 
+  it("adds and removes prerequisites", async () => {
+    const ctx = toolEnv({
+      targetStore: createMockTargetStore({
+        get: vi.fn().mockResolvedValue({ id: 1, targetType: "ship", refId: "enterprise", priority: 2, status: "active" }),
+        update: vi.fn().mockResolvedValue({ id: 1, targetType: "ship", refId: "enterprise", priority: 2, status: "active" }),
+        addDependency: vi.fn().mockResolvedValue({ targetId: 1, dependsOnId: 2, createdAt: "2026-02-17" }),
+        removeDependency: vi.fn().mockResolvedValue(true),
+      }),
+    });
+    const result = await executeFleetTool("update_target", {
+      target_id: 1, depends_on: [2], remove_depends_on: [3],
+    }, ctx) as Record<string, unknown>;
+    expect(result.updated).toBe(true);
+    expect(result.dependencies).toEqual({ added: [2], removed: [3] });
+    expect(ctx.deps.targetStore!.removeDependency).toHaveBeenCalledWith(1, 3);
+  });
+
+  it("surfaces dependency cycles as errors", async () => {
+    const ctx = toolEnv({
+      targetStore: createMockTargetStore({
+        get: vi.fn().mockResolvedValue({ id: 1, targetType: "ship", refId: "enterprise", priority: 2, status: "active" }),
+        addDependency: vi.fn().mockRejectedValue(new Error("Dependency would create a cycle: target 2 already depends on target 1")),
+      }),
+    });
+    const result = await executeFleetTool("update_target", { target_id: 1, depends_on: [2] }, ctx) as Record<string, unknown>;
+    expect(result.error).toContain("cycle");
+    expect(ctx.deps.targetStore!.update).not.toHaveBeenCalled();
+  });
+
   it("returns error when target store unavailable", async () => {
     const result = await executeFleetTool("update_target", { target_id: 1 }, {});
     expect(result).toHaveProperty("error");
@@ -0,0 +1,42 @@
+/**
+ * fleet-tools/tool-args.test.ts — Argument checks for directly invoked tools
+ */
+
+import { describe, it, expect } from "vitest";
+import { checkToolArgs } from "../../src/server/services/fleet-tools/tool-args.js";
+import type { ClaudeJsonSchema } from "../../src/server/services/fleet-tools/claude-tool-adapter.js";
+
+const SCHEMA: ClaudeJsonSchema = {
+  type: "object",
+  properties: {
+    query: { type: "string" },
+    limit: { type: "integer" },
+    ratio: { type: "number" },
+    active: { type: "boolean" },
+    kind: { type: "string", enum: ["goal", "avoid"] },
+    ids: { type: "array", items: { type: "string" } },
+  },
+  required: ["query"],
+};
+
+describe("checkToolArgs", () => {
+  it("accepts valid arguments and omitted optionals", () => {
+    expect(checkToolArgs(SCHEMA, { query: "Kirk" })).toEqual([]);
+    expect(checkToolArgs(SCHEMA, { query: "Kirk", limit: 5, ratio: 0.5, active: false, kind: "goal", ids: ["a", "b"] })).toEqual([]);
+  });
+
+  it("reports missing required arguments", () => {
+    expect(checkToolArgs(SCHEMA, {})).toEqual(["query is required"]);
+    expect(checkToolArgs(SCHEMA, { query: "" })).toEqual(["query is required"]);
+  });
+
+  it("reports wrong types, enum misses and unknown arguments", () => {
+    expect(checkToolArgs(SCHEMA, { query: "Kirk", limit: 1.5, active: "yes", ids: [1], kind: "maybe", extra: 1 })).toEqual([
+      "limit must be an integer",
+      "active must be a boolean",
+      "ids must be an array of strings",
+      "kind must be one of: goal, avoid",
+      "unknown argument extra",
+    ]);
+  });
+});
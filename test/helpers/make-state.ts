@@ -11,6 +11,7 @@
 
 import { type AppState } from "../../src/server/app-context.js";
 import { bootstrapConfigSync, type AppConfig } from "../../src/server/config.js";
+import { createHashingEmbedder } from "../../src/server/services/semantic-recall.js";
 
 /**
  * Build a complete AppState with all stores defaulted to null.
@@ -23,6 +24,7 @@ export function makeState(overrides: Partial<AppState> = {}): AppState {
     geminiEngine: null,
     memoryService: null,
     frameStoreFactory: null,
+    embedder: createHashingEmbedder(),
     settingsStore: null,
     sessionStore: null,
     crewStore: null,
@@ -35,6 +37,7 @@ export function makeState(overrides: Partial<AppState> = {}): AppState {
     overlayStoreFactory: null,
     inviteStore: null,
     userStore: null,
+    apiTokenStore: null,
     targetStore: null,
     targetStoreFactory: null,
     auditStore: null,
@@ -43,10 +46,18 @@ export function makeState(overrides: Partial<AppState> = {}): AppState {
     researchStoreFactory: null,
     inventoryStore: null,
     inventoryStoreFactory: null,
+    battleReportStoreFactory: null,
+    decisionStoreFactory: null,
+    allianceStoreFactory: null,
     proposalStore: null,
     proposalStoreFactory: null,
     operationEventStore: null,
     operationEventStoreFactory: null,
+    operationStream: null,
+    webhookStoreFactory: null,
+    webhookDispatcher: null,
+    chatSurfaceStore: null,
+    chatSurfaceRelay: null,
     chatRunStore: null,
     toolContextFactory: null,
     effectStore: null,
@@ -215,4 +215,28 @@ describe("Import commit safety", () => {
     const receiptCounts = await receiptStore.counts();
     expect(receiptCounts.total).toBe(0);
   });
+
+  it("maps repeated ship rows onto separate instances (ADR-051)", async () => {
+    await overlayStore.setShipOverlay({ refId: "enterprise", ownershipState: "owned", tier: 3 });
+    const rows = [
+      { rowIndex: 0, shipRefId: "enterprise", shipOwned: true, shipTier: 3 },
+      { rowIndex: 1, shipRefId: "enterprise", shipOwned: true, shipTier: 5 },
+    ];
+
+    const first = await testRequest(app)
+      .post("/api/import/commit")
+      .send({ resolvedRows: rows, unresolved: [], mapping: { ship: "enterprise" }, sourceMeta: { source: "test" }, fileName: "sheet.csv" });
+    expect(first.status).toBe(200);
+    expect(first.body.data.summary.added).toBe(1);
+
+    const instances = await overlayStore.listShipInstances("enterprise");
+    expect(instances.map((i) => i.tier).sort()).toEqual([3, 5]);
+
+    // Re-importing the same sheet hits the same instances in the same order
+    const second = await testRequest(app)
+      .post("/api/import/commit")
+      .send({ resolvedRows: rows, unresolved: [], mapping: { ship: "enterprise" }, sourceMeta: { source: "test" }, fileName: "sheet.csv" });
+    expect(second.body.data.summary.unchanged).toBe(2);
+    expect(await overlayStore.listShipInstances("enterprise")).toHaveLength(2);
+  });
 });
\ No newline at end of file
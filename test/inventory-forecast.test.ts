@@ -0,0 +1,85 @@
+/**
+ * inventory-forecast.test.ts — Income rates derived from inventory history
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  forecastIncome,
+  forecastItem,
+  indexForecastsByName,
+} from "../src/server/services/inventory-forecast.js";
+import type { InventorySnapshotRecord } from "../src/server/stores/inventory-store.js";
+
+function snap(name: string, quantity: number, capturedAt: string, grade: string | null = null): InventorySnapshotRecord {
+  return { category: "ore", name, grade, quantity, source: "test", capturedAt };
+}
+
+describe("forecastItem", () => {
+  it("counts increases as income and ignores spending", () => {
+    const forecast = forecastItem([
+      snap("Raw Ore", 100, "2026-03-01T00:00:00Z"),
+      snap("Raw Ore", 300, "2026-03-02T00:00:00Z"),
+      snap("Raw Ore", 50, "2026-03-03T00:00:00Z"),
+      snap("Raw Ore", 250, "2026-03-05T00:00:00Z"),
+    ]);
+
+    expect(forecast).toMatchObject({
+      quantity: 250,
+      samples: 4,
+      spanDays: 4,
+      dailyIncome: 100,
+      netDailyChange: 37.5,
+      confidence: "medium",
+      projected: { days7: 950, days30: 3250 },
+    });
+  });
+
+  it("sorts snapshots by time", () => {
+    const forecast = forecastItem([
+      snap("Raw Ore", 200, "2026-03-03T00:00:00Z"),
+      snap("Raw Ore", 0, "2026-03-01T00:00:00Z"),
+    ]);
+    expect(forecast?.dailyIncome).toBe(100);
+  });
+
+  it("needs two snapshots spanning at least twelve hours", () => {
+    expect(forecastItem([snap("Raw Ore", 100, "2026-03-01T00:00:00Z")])).toBeNull();
+    expect(forecastItem([
+      snap("Raw Ore", 100, "2026-03-01T00:00:00Z"),
+      snap("Raw Ore", 200, "2026-03-01T06:00:00Z"),
+    ])).toBeNull();
+  });
+
+  it("rates long, dense histories as high confidence", () => {
+    const history = [0, 1, 2, 3, 4, 5, 6, 7].map((day) =>
+      snap("Raw Ore", day * 10, `2026-03-0${day + 1}T00:00:00Z`));
+    expect(forecastItem(history)?.confidence).toBe("high");
+  });
+});
+
+describe("forecastIncome", () => {
+  it("forecasts each item separately, highest income first", () => {
+    const forecasts = forecastIncome([
+      snap("Raw Ore", 0, "2026-03-01T00:00:00Z"),
+      snap("Raw Gas", 0, "2026-03-01T00:00:00Z"),
+      snap("Raw Ore", 100, "2026-03-02T00:00:00Z"),
+      snap("Raw Gas", 400, "2026-03-02T00:00:00Z"),
+      snap("Crystal", 5, "2026-03-02T00:00:00Z"),
+    ]);
+
+    expect(forecasts.map((f) => [f.name, f.dailyIncome])).toEqual([["Raw Gas", 400], ["Raw Ore", 100]]);
+  });
+});
+
+describe("indexForecastsByName", () => {
+  it("adds up grades that share a name and keeps the weakest confidence", () => {
+    const index = indexForecastsByName(forecastIncome([
+      snap("Refined Ore", 0, "2026-03-01T00:00:00Z", "G2"),
+      snap("Refined Ore", 20, "2026-03-02T00:00:00Z", "G2"),
+      snap("Refined Ore", 0, "2026-03-01T00:00:00Z", "G3"),
+      snap("Refined Ore", 5, "2026-03-02T00:00:00Z", "G3"),
+    ]));
+
+    expect(index.get("refinedore")).toMatchObject({ dailyIncome: 25, quantity: 25, confidence: "low" });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * inventory-routes.test.ts — Inventory history and forecast route tests
+ *
+ * Supertest-based HTTP-level tests covering:
+ *   - Store-not-available (503)
+ *   - Item list with category validation
+ *   - Per-item history with forecast
+ *   - Income forecast across items
+ */
+
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from "vitest";
+import { testRequest } from "./helpers/test-request.js";
+import type { Express } from "express";
+import { createApp } from "../src/server/index.js";
+import { makeState } from "./helpers/make-state.js";
+import { createInventoryStoreFactory, type InventoryStoreFactory } from "../src/server/stores/inventory-store.js";
+import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
+
+let pool: Pool;
+beforeAll(() => { pool = createTestPool(); });
+afterAll(async () => { await pool.end(); });
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000).toISOString();
+
+describe("Inventory routes — store not available", () => {
+  it("GET /api/inventory returns 503 when the store is null", async () => {
+    const res = await testRequest(createApp(makeState())).get("/api/inventory");
+    expect(res.status).toBe(503);
+    expect(res.body.error.code).toBe("INVENTORY_STORE_NOT_AVAILABLE");
+  });
+});
+
+describe("Inventory routes — with live store", () => {
+  let app: Express;
+  let factory: InventoryStoreFactory;
+
+  beforeEach(async () => {
+    await cleanDatabase(pool);
+    factory = await createInventoryStoreFactory(pool);
+    app = createApp(makeState({ inventoryStoreFactory: factory }));
+
+    const store = factory.forUser("local");
+    for (const [day, ore, gas] of [[4, 100, 10], [2, 300, 10], [0, 500, 10]]) {
+      await store.upsertItems({
+        source: "test",
+        capturedAt: daysAgo(day),
+        items: [
+          { category: "ore", name: "Raw Ore", grade: null, quantity: ore, unit: null },
+          { category: "gas", name: "Raw Gas", grade: null, quantity: gas, unit: null },
+        ],
+      });
+    }
+  });
+
+  it("lists items and validates the category filter", async () => {
+    const res = await testRequest(app).get("/api/inventory?category=ore");
+    expect(res.status).toBe(200);
+    expect(res.body.data.items.map((item: { name: string }) => item.name)).toEqual(["Raw Ore"]);
+
+    const bad = await testRequest(app).get("/api/inventory?category=dilithium");
+    expect(bad.status).toBe(400);
+  });
+
+  it("returns one item's history with its forecast", async () => {
+    const ore = (await factory.forUser("local").listItems({ category: "ore" }))[0];
+    const res = await testRequest(app).get(`/api/inventory/${ore.id}/history`);
+    expect(res.status).toBe(200);
+    expect(res.body.data.history.map((s: { quantity: number }) => s.quantity)).toEqual([100, 300, 500]);
+    expect(res.body.data.forecast).toMatchObject({ dailyIncome: 100, samples: 3, confidence: "medium" });
+
+    const short = await testRequest(app).get(`/api/inventory/${ore.id}/history?days=1`);
+    expect(short.body.data.history).toHaveLength(1);
+    expect(short.body.data.forecast).toBeNull();
+  });
+
+  it("returns 404 for an unknown item and 400 for a bad window", async () => {
+    expect((await testRequest(app).get("/api/inventory/9999/history")).status).toBe(404);
+    expect((await testRequest(app).get("/api/inventory/forecast?days=0")).status).toBe(400);
+  });
+
+  it("forecasts income across items", async () => {
+    const res = await testRequest(app).get("/api/inventory/forecast");
+    expect(res.status).toBe(200);
+    expect(res.body.data.windowDays).toBe(30);
+    expect(res.body.data.forecasts.map((f: { name: string; dailyIncome: number }) => [f.name, f.dailyIncome]))
+      .toEqual([["Raw Ore", 100], ["Raw Gas", 0]]);
+  });
+});
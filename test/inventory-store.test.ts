@@ -97,4 +97,38 @@ describe("InventoryStore", () => {
     expect((await a.counts()).items).toBe(3);
     expect((await b.counts()).items).toBe(1);
   });
+
+  it("appends a history snapshot on every upsert", async () => {
+    const factory = await createInventoryStoreFactory(pool);
+    const store = factory.forUser("u1");
+    const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000).toISOString();
+
+    await store.upsertItems({
+      source: "sync",
+      capturedAt: daysAgo(3),
+      items: [
+        { category: "ore", name: "Raw Ore", grade: null, quantity: 100, unit: null },
+        { category: "gas", name: "Raw Gas", grade: null, quantity: 40, unit: null },
+      ],
+    });
+    await store.upsertItems({
+      source: "sync",
+      capturedAt: daysAgo(1),
+      items: [{ category: "ore", name: "Raw Ore", grade: null, quantity: 300, unit: null }],
+    });
+
+    const all = await store.listHistory();
+    expect(all).toHaveLength(3);
+
+    const ore = (await store.listItems({ category: "ore" }))[0];
+    expect(await store.getItem(ore.id)).toMatchObject({ name: "Raw Ore", quantity: 300 });
+    const oreHistory = await store.listHistory({ itemId: ore.id });
+    expect(oreHistory.map((snapshot) => snapshot.quantity)).toEqual([100, 300]);
+
+    const recent = await store.listHistory({ since: daysAgo(2) });
+    expect(recent).toHaveLength(1);
+
+    expect(await factory.forUser("u2").listHistory()).toEqual([]);
+    expect(await factory.forUser("u2").getItem(ore.id)).toBeNull();
+  });
 });
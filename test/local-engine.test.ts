@@ -0,0 +1,261 @@
+/**
+ * local-engine.test.ts — Unit tests for the local OpenAI-compatible Chat Engine.
+ *
+ * Stubs global fetch with canned chat-completions responses. Validates the
+ * wire format, function-calling loop, trust gating, token accounting and
+ * ChatEngine interface compliance.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// ─── Mock fleet-tools (prevent DB dependencies) ───────────────
+
+vi.mock("../src/server/services/fleet-tools/index.js", async (importOriginal) => {
+  const original = await importOriginal<typeof import("../src/server/services/fleet-tools/index.js")>();
+  return {
+    ...original,
+    FLEET_TOOL_DECLARATIONS: [
+      {
+        name: "list_officers",
+        description: "List officers",
+        parameters: {
+          type: "OBJECT",
+          properties: {
+            limit: { type: "INTEGER", description: "Max results" },
+          },
+        },
+      },
+    ],
+    executeFleetTool: vi.fn().mockResolvedValue({ officers: ["Kirk", "Spock"] }),
+  };
+});
+
+vi.mock("../src/server/services/fleet-tools/trust.js", () => ({
+  isMutationTool: vi.fn().mockReturnValue(false),
+  getTrustLevel: vi.fn().mockResolvedValue("auto"),
+}));
+
+import { createLocalEngine } from "../src/server/services/local/index.js";
+import type { ChatEngine } from "../src/server/services/engine.js";
+import { executeFleetTool } from "../src/server/services/fleet-tools/index.js";
+import { getTrustLevel, isMutationTool } from "../src/server/services/fleet-tools/trust.js";
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+const mockFetch = vi.fn();
+
+function completion(message: Record<string, unknown>, finishReason = "stop") {
+  return new Response(JSON.stringify({
+    choices: [{ index: 0, message: { role: "assistant", ...message }, finish_reason: finishReason }],
+    usage: { prompt_tokens: 12, completion_tokens: 8 },
+  }), { status: 200, headers: { "Content-Type": "application/json" } });
+}
+
+function textCompletion(text: string) {
+  return completion({ content: text });
+}
+
+function toolCallCompletion(id: string, name: string, args: string | Record<string, unknown>) {
+  return completion({ content: null, tool_calls: [{ id, type: "function", function: { name, arguments: args } }] }, "tool_calls");
+}
+
+/** Parsed JSON body of the nth fetch call. */
+function requestBody(n = 0) {
+  return JSON.parse(mockFetch.mock.calls[n][1].body as string);
+}
+
+// ─── Test Suite ───────────────────────────────────────────────
+
+describe("LocalChatEngine", () => {
+  let engine: ChatEngine;
+  const onTokenUsage = vi.fn();
+
+  const mockToolContextFactory = {
+    forUser: vi.fn().mockReturnValue({ userId: "test-user", deps: {} }),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal("fetch", mockFetch);
+    mockFetch.mockImplementation(async () => textCompletion("Aye, Admiral."));
+    engine = createLocalEngine(
+      "http://localhost:11434/v1/",
+      "llama3.1:8b",
+      null, // apiKey
+      null, // fleetConfig
+      null, // dockBriefing
+      null, // microRunner
+      mockToolContextFactory as never,
+      null, // proposalStoreFactory
+      null, // userSettingsStore
+      onTokenUsage,
+    );
+  });
+
+  afterEach(() => {
+    engine.close();
+    vi.unstubAllGlobals();
+  });
+
+  // ── Constructor validation ──────────────────────────────────
+
+  it("throws if the base URL or model name is missing", () => {
+    expect(() => createLocalEngine("", "llama3.1")).toThrow("MAJEL_LOCAL_MODEL_URL");
+    expect(() => createLocalEngine("http://localhost:8080/v1", "")).toThrow("MAJEL_LOCAL_MODEL");
+  });
+
+  // ── Wire format ─────────────────────────────────────────────
+
+  it("posts an OpenAI chat-completions request with tools", async () => {
+    const result = await engine.chat("Hello", "s1", undefined, "user1");
+    expect(result.text).toBe("Aye, Admiral.");
+    expect(result.proposals).toEqual([]);
+
+    expect(mockFetch.mock.calls[0][0]).toBe("http://localhost:11434/v1/chat/completions");
+    const body = requestBody();
+    expect(body.model).toBe("llama3.1:8b");
+    expect(body.stream).toBe(false);
+    expect(body.messages[0].role).toBe("system");
+    expect(body.messages[1]).toEqual({ role: "user", content: "Hello" });
+    expect(body.tools).toEqual([{
+      type: "function",
+      function: {
+        name: "list_officers",
+        description: "List officers",
+        parameters: { type: "object", properties: { limit: { type: "integer", description: "Max results" } } },
+      },
+    }]);
+    expect(mockFetch.mock.calls[0][1].headers).not.toHaveProperty("Authorization");
+  });
+
+  it("sends the API key as a bearer token when configured", async () => {
+    const keyed = createLocalEngine("http://vllm:8000/v1", "qwen", "sk-local");
+    await keyed.chat("Hello");
+    expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe("Bearer sk-local");
+    keyed.close();
+  });
+
+  it("omits tools when the tool mode is none", async () => {
+    await engine.chat("Summarize this", "s1", undefined, "user1", undefined, undefined, "none");
+    expect(requestBody().tools).toBeUndefined();
+  });
+
+  it("sends images as data URLs", async () => {
+    await engine.chat("What ship is this?", "s1", { inlineData: { mimeType: "image/png", data: "AAAA" } }, "user1");
+    expect(requestBody().messages[1].content).toEqual([
+      { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } },
+      { type: "text", text: "What ship is this?" },
+    ]);
+  });
+
+  it("records token usage against the local model", async () => {
+    await engine.chat("Hello", "s1", undefined, "user1");
+    expect(onTokenUsage).toHaveBeenCalledWith("user1", "local", "chat", 12, 8);
+  });
+
+  // ── Tool loop ───────────────────────────────────────────────
+
+  it("executes tool calls and feeds results back as tool messages", async () => {
+    mockFetch
+      .mockImplementationOnce(async () => toolCallCompletion("call_1", "list_officers", '{"limit":5}'))
+      .mockImplementationOnce(async () => textCompletion("Kirk and Spock are ready."));
+
+    const result = await engine.chat("Who's on my roster?", "s1", undefined, "user1");
+
+    expect(executeFleetTool).toHaveBeenCalledWith("list_officers", { limit: 5 }, expect.anything());
+    expect(result.text).toBe("Kirk and Spock are ready.");
+    expect(result.executedTools).toEqual([]); // read-only tools are not reported as executed mutations
+    expect(onTokenUsage).toHaveBeenNthCalledWith(1, "user1", "local", "tool_call", 12, 8);
+
+    const followUp = requestBody(1).messages;
+    expect(followUp[2]).toMatchObject({ role: "assistant", tool_calls: [{ id: "call_1" }] });
+    expect(followUp[3]).toEqual({ role: "tool", tool_call_id: "call_1", content: JSON.stringify({ officers: ["Kirk", "Spock"] }) });
+  });
+
+  it("accepts object arguments and reports unparseable ones to the model", async () => {
+    mockFetch
+      .mockImplementationOnce(async () => completion({
+        content: null,
+        tool_calls: [
+          { id: "a", type: "function", function: { name: "list_officers", arguments: { limit: 2 } } },
+          { id: "b", type: "function", function: { name: "list_officers", arguments: "{not json" } },
+        ],
+      }, "tool_calls"))
+      .mockImplementationOnce(async () => textCompletion("Done."));
+
+    await engine.chat("Officers?", "s1", undefined, "user1");
+
+    expect(executeFleetTool).toHaveBeenCalledOnce();
+    expect(executeFleetTool).toHaveBeenCalledWith("list_officers", { limit: 2 }, expect.anything());
+    const toolMessages = requestBody(1).messages.filter((m: { role: string }) => m.role === "tool");
+    expect(JSON.parse(toolMessages[1].content).error).toContain("not a valid JSON object");
+  });
+
+  it("refuses blocked mutation tools without executing them", async () => {
+    vi.mocked(isMutationTool).mockReturnValue(true);
+    vi.mocked(getTrustLevel).mockResolvedValueOnce("block");
+    mockFetch
+      .mockImplementationOnce(async () => toolCallCompletion("call_1", "activate_preset", '{"preset_id":1}'))
+      .mockImplementationOnce(async () => textCompletion("That tool is locked."));
+
+    await engine.chat("Activate my mining preset", "s1", undefined, "user1");
+
+    expect(executeFleetTool).not.toHaveBeenCalled();
+    const toolMessage = requestBody(1).messages.find((m: { role: string }) => m.role === "tool");
+    expect(JSON.parse(toolMessage.content)).toMatchObject({ blocked: true });
+    vi.mocked(isMutationTool).mockReturnValue(false);
+  });
+
+  it("forces a summary without tools after too many rounds", async () => {
+    const calls: number[] = [];
+    mockFetch.mockImplementation(async (_url: string, init: { body: string }) => {
+      calls.push(1);
+      return JSON.parse(init.body).tools
+        ? toolCallCompletion("loop", "list_officers", "{}")
+        : textCompletion("Summary.");
+    });
+
+    const result = await engine.chat("Loop forever", "s1", undefined, "user1");
+    expect(result.text).toBe("Summary.");
+    expect(calls).toHaveLength(7); // 6 tool rounds + 1 summary
+  });
+
+  // ── Errors ──────────────────────────────────────────────────
+
+  it("surfaces non-retryable server errors", async () => {
+    mockFetch.mockImplementation(async () => new Response("model not found", { status: 404 }));
+    await expect(engine.chat("Hello", "s1", undefined, "user1")).rejects.toThrow("Local model server returned 404: model not found");
+    expect(mockFetch).toHaveBeenCalledOnce();
+  });
+
+  // ── Session management ──────────────────────────────────────
+
+  it("maintains conversation history across messages", async () => {
+    await engine.chat("First message", "s1", undefined, "user1");
+    mockFetch.mockImplementationOnce(async () => textCompletion("Second response."));
+    await engine.chat("Second message", "s1", undefined, "user1");
+
+    expect(engine.getHistory("user1:s1")).toEqual([
+      { role: "user", text: "First message" },
+      { role: "model", text: "Aye, Admiral." },
+      { role: "user", text: "Second message" },
+      { role: "model", text: "Second response." },
+    ]);
+    expect(requestBody(1).messages).toHaveLength(4); // system + 3 turns
+  });
+
+  it("closes a specific session", async () => {
+    await engine.chat("Hello", "s1", undefined, "user1");
+    expect(engine.getSessionCount()).toBe(1);
+    engine.closeSession("user1:s1");
+    expect(engine.getSessionCount()).toBe(0);
+  });
+
+  // ── Model management ───────────────────────────────────────
+
+  it("serves only the local registry model", () => {
+    expect(engine.getModel()).toBe("local");
+    expect(() => engine.setModel("local")).not.toThrow();
+    expect(() => engine.setModel("gemini-2.5-flash")).toThrow("only serves");
+  });
+});
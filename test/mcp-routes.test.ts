@@ -0,0 +1,135 @@
+/**
+ * mcp-routes.test.ts — MCP HTTP transport route tests
+ *
+ * Supertest-based HTTP-level tests covering:
+ *   - Tool context not available (503)
+ *   - Raw JSON-RPC responses (no API envelope), 202 for notifications
+ *   - tools/call through the trust gate
+ *   - Bearer mcp-scoped API tokens and token minting
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { testRequest } from "./helpers/test-request.js";
+import { createApp } from "../src/server/index.js";
+import { makeReadyState as makeState, makeConfig } from "./helpers/make-state.js";
+import type { ToolContextFactory } from "../src/server/services/fleet-tools/index.js";
+import type { ApiTokenStore } from "../src/server/stores/api-token-store.js";
+import { createMockTargetStore } from "./fleet-tools/helpers.js";
+
+function toolContextFactory(): ToolContextFactory {
+  const targetStore = createMockTargetStore();
+  return { forUser: (userId: string) => ({ userId, deps: { targetStore } }) };
+}
+
+const MCP_TOKEN = {
+  tokenId: 7,
+  userId: "user-42",
+  email: "kirk@example.com",
+  displayName: "Kirk",
+  role: "captain",
+  emailVerified: true,
+  lockedAt: null,
+  scopes: ["mcp"],
+};
+
+function mockApiTokenStore(): ApiTokenStore {
+  return {
+    resolveToken: vi.fn().mockImplementation(async (secret: string) => (secret === "mjl_pat_mcp" ? MCP_TOKEN : null)),
+    touchToken: vi.fn().mockResolvedValue(undefined),
+    countActiveTokens: vi.fn().mockResolvedValue(0),
+    createToken: vi.fn().mockResolvedValue({
+      token: { id: 8, name: "MCP client", scopes: ["mcp"], expiresAt: "2026-01-31T00:00:00.000Z" },
+      secret: "mjl_pat_fresh",
+    }),
+  } as unknown as ApiTokenStore;
+}
+
+describe("POST /api/mcp — dev mode", () => {
+  it("returns 503 when fleet tools are not wired", async () => {
+    const app = createApp(makeState());
+    const res = await testRequest(app).post("/api/mcp").send({ jsonrpc: "2.0", id: 1, method: "ping" });
+    expect(res.status).toBe(503);
+  });
+
+  it("answers with plain JSON-RPC", async () => {
+    const app = createApp(makeState({ toolContextFactory: toolContextFactory() }));
+    const res = await testRequest(app)
+      .post("/api/mcp")
+      .send({ jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2025-06-18" } });
+    expect(res.status).toBe(200);
+    expect(res.body.jsonrpc).toBe("2.0");
+    expect(res.body.result.serverInfo.name).toBe("majel");
+  });
+
+  it("accepts notifications with 202 and no body", async () => {
+    const app = createApp(makeState({ toolContextFactory: toolContextFactory() }));
+    const res = await testRequest(app).post("/api/mcp").send({ jsonrpc: "2.0", method: "notifications/initialized" });
+    expect(res.status).toBe(202);
+    expect(res.text).toBe("");
+  });
+
+  it("runs tools/call and refuses blocked tools", async () => {
+    const app = createApp(makeState({ toolContextFactory: toolContextFactory() }));
+    const list = await testRequest(app)
+      .post("/api/mcp")
+      .send({ jsonrpc: "2.0", id: 2, method: "tools/call", params: { name: "list_targets", arguments: {} } });
+    expect(list.body.result.isError).toBe(false);
+
+    const blocked = await testRequest(app)
+      .post("/api/mcp")
+      .send({ jsonrpc: "2.0", id: 3, method: "tools/call", params: { name: "activate_preset", arguments: { preset_id: 1 } } });
+    expect(blocked.body.result.isError).toBe(true);
+    expect(blocked.body.result.structuredContent.blocked).toBe(true);
+  });
+
+  it("rejects GET with 405", async () => {
+    const app = createApp(makeState({ toolContextFactory: toolContextFactory() }));
+    const res = await testRequest(app).get("/api/mcp");
+    expect(res.status).toBe(405);
+    expect(res.headers.allow).toBe("POST");
+  });
+
+  it("reports that no token is needed when auth is disabled", async () => {
+    const app = createApp(makeState());
+    const res = await testRequest(app).post("/api/mcp/token");
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ token: null, authEnabled: false });
+  });
+});
+
+describe("POST /api/mcp — auth enforced", () => {
+  const config = makeConfig({ authEnabled: true, adminToken: "admin-secret" });
+
+  it("requires a bearer token", async () => {
+    const app = createApp(makeState({ config, toolContextFactory: toolContextFactory(), apiTokenStore: mockApiTokenStore() }));
+    const res = await testRequest(app).post("/api/mcp").send({ jsonrpc: "2.0", id: 1, method: "ping" });
+    expect(res.status).toBe(401);
+  });
+
+  it("accepts an mcp-scoped API token as bearer", async () => {
+    const app = createApp(makeState({ config, toolContextFactory: toolContextFactory(), apiTokenStore: mockApiTokenStore() }));
+    const res = await testRequest(app)
+      .post("/api/mcp")
+      .set("Authorization", "Bearer mjl_pat_mcp")
+      .send({ jsonrpc: "2.0", id: 1, method: "ping" });
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ jsonrpc: "2.0", id: 1, result: {} });
+  });
+
+  it("keeps the mcp token off token minting", async () => {
+    const apiTokenStore = mockApiTokenStore();
+    const app = createApp(makeState({ config, apiTokenStore }));
+    const res = await testRequest(app).post("/api/mcp/token").set("Authorization", "Bearer mjl_pat_mcp");
+    expect(res.status).toBe(403);
+    expect(apiTokenStore.createToken).not.toHaveBeenCalled();
+  });
+
+  it("mints an mcp-scoped API token for the signed-in user", async () => {
+    const apiTokenStore = mockApiTokenStore();
+    const app = createApp(makeState({ config, apiTokenStore }));
+    const res = await testRequest(app).post("/api/mcp/token").set("Authorization", "Bearer admin-secret");
+    expect(res.status).toBe(201);
+    expect(res.body.data).toMatchObject({ token: "mjl_pat_fresh", endpoint: "/api/mcp", expiresAt: "2026-01-31T00:00:00.000Z" });
+    expect(apiTokenStore.createToken).toHaveBeenCalledWith(expect.any(String), { name: "MCP client", scopes: ["mcp"], expiresInDays: 30 });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * mcp-server.test.ts — Model Context Protocol server over the fleet tools
+ *
+ * Covers:
+ * - JSON-RPC envelope handling: initialize, ping, notifications, batches, errors
+ * - tools/list: JSON Schema input, read-only hints, per-user trust tiers
+ * - tools/call trust gate: auto executes, approve stages a proposal, block refuses
+ * - Overlay ownership-creation gate
+ * - stdio transport and stdio token resolution
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { PassThrough } from "node:stream";
+import {
+  createMcpServer,
+  negotiateProtocolVersion,
+  runStdioTransport,
+  MCP_PROTOCOL_VERSIONS,
+  type JsonRpcFailure,
+  type JsonRpcSuccess,
+} from "../src/server/services/mcp/index.js";
+import { resolveStdioUser } from "../src/server/services/mcp/stdio-boot.js";
+import { deriveAdminUserId } from "../src/server/stores/user-store.js";
+import type { ToolContextFactory, ResolvedStores } from "../src/server/services/fleet-tools/index.js";
+import type { ProposalStoreFactory } from "../src/server/stores/proposal-store.js";
+import type { UserSettingsStore } from "../src/server/stores/user-settings-store.js";
+import {
+  createMockOverlayStore,
+  createMockTargetStore,
+} from "./fleet-tools/helpers.js";
+
+function factoryWith(deps: ResolvedStores): ToolContextFactory {
+  return { forUser: (userId: string) => ({ userId, deps }) };
+}
+
+function mockProposals() {
+  const create = vi.fn().mockImplementation(async (input: { expiresAt: string }) => ({ id: "prop-1", expiresAt: input.expiresAt }));
+  const factory = { forUser: vi.fn().mockReturnValue({ create }) } as unknown as ProposalStoreFactory;
+  return { factory, create };
+}
+
+function trustOverrides(overrides: Record<string, string>): UserSettingsStore {
+  return {
+    getForUser: vi.fn().mockResolvedValue({ key: "fleet.trust", value: JSON.stringify(overrides), source: "user" }),
+  } as unknown as UserSettingsStore;
+}
+
+async function call(server: ReturnType<typeof createMcpServer>, method: string, params?: Record<string, unknown>) {
+  return server.handle({ jsonrpc: "2.0", id: 1, method, params }, "user-1");
+}
+
+describe("MCP JSON-RPC handling", () => {
+  const server = createMcpServer({ toolContextFactory: factoryWith({}) });
+
+  it("negotiates the protocol version on initialize", async () => {
+    const res = await call(server, "initialize", { protocolVersion: "2025-03-26", capabilities: {} }) as JsonRpcSuccess;
+    expect(res.result).toMatchObject({
+      protocolVersion: "2025-03-26",
+      capabilities: { tools: { listChanged: false } },
+      serverInfo: { name: "majel" },
+    });
+    expect(negotiateProtocolVersion("1999-01-01")).toBe(MCP_PROTOCOL_VERSIONS[0]);
+  });
+
+  it("answers ping and ignores notifications", async () => {
+    expect(await call(server, "ping")).toEqual({ jsonrpc: "2.0", id: 1, result: {} });
+    expect(await server.handle({ jsonrpc: "2.0", method: "notifications/initialized" }, "user-1")).toBeNull();
+  });
+
+  it("rejects malformed requests and unknown methods", async () => {
+    const invalid = await server.handle({ id: 3, method: "ping" }, "user-1") as JsonRpcFailure;
+    expect(invalid.error.code).toBe(-32600);
+    expect(invalid.id).toBe(3);
+    const unknown = await call(server, "resources/list") as JsonRpcFailure;
+    expect(unknown.error.code).toBe(-32601);
+  });
+
+  it("answers batches, skipping notifications", async () => {
+    const res = await server.handle([
+      { jsonrpc: "2.0", id: "a", method: "ping" },
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      { jsonrpc: "2.0", id: "b", method: "ping" },
+    ], "user-1");
+    expect(Array.isArray(res) && res.map((r) => r.id)).toEqual(["a", "b"]);
+    expect((await server.handle([], "user-1") as JsonRpcFailure).error.code).toBe(-32600);
+  });
+});
+
+describe("MCP tools/list", () => {
+  it("serves every registered tool with a JSON Schema and read-only hint", async () => {
+    const server = createMcpServer({ toolContextFactory: factoryWith({}) });
+    const res = await call(server, "tools/list") as JsonRpcSuccess;
+    const tools = res.result.tools as Array<{ name: string; inputSchema: { type: string }; annotations: { readOnlyHint: boolean }; _meta?: Record<string, string> }>;
+
+    const listTargets = tools.find((tool) => tool.name === "list_targets")!;
+    expect(listTargets.inputSchema.type).toBe("object");
+    expect(listTargets.annotations.readOnlyHint).toBe(true);
+    expect(listTargets._meta).toBeUndefined();
+
+    const preset = tools.find((tool) => tool.name === "activate_preset")!;
+    expect(preset.annotations.readOnlyHint).toBe(false);
+    expect(preset._meta).toEqual({ "majel/trust": "block" });
+  });
+
+  it("reports the caller's trust overrides", async () => {
+    const server = createMcpServer({ toolContextFactory: factoryWith({ userSettingsStore: trustOverrides({ activate_preset: "approve" }) }) });
+    const tools = await server.listTools("user-1");
+    expect(tools.find((tool) => tool.name === "activate_preset")!._meta).toEqual({ "majel/trust": "approve" });
+  });
+});
+
+describe("MCP tools/call", () => {
+  it("runs read tools and returns text plus structured content", async () => {
+    const targetStore = createMockTargetStore();
+    const server = createMcpServer({ toolContextFactory: factoryWith({ targetStore }) });
+    const res = await call(server, "tools/call", { name: "list_targets", arguments: {} }) as JsonRpcSuccess;
+
+    expect(targetStore.list).toHaveBeenCalled();
+    expect(res.result.isError).toBe(false);
+    const content = res.result.content as Array<{ type: string; text: string }>;
+    expect(JSON.parse(content[0].text)).toEqual(res.result.structuredContent);
+  });
+
+  it("executes auto-trust mutations immediately", async () => {
+    const targetStore = createMockTargetStore({
+      listByRef: vi.fn().mockResolvedValue([]),
+      create: vi.fn().mockResolvedValue({ id: 9, targetType: "ship", refId: "cdn:ship:saladin", status: "active" }),
+    });
+    const { factory, create } = mockProposals();
+    const server = createMcpServer({ toolContextFactory: factoryWith({ targetStore }), proposalStoreFactory: factory });
+
+    await server.callTool("create_target", { target_type: "ship", ref_id: "cdn:ship:saladin" }, "user-1");
+
+    expect(targetStore.create).toHaveBeenCalled();
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("stages approve-tier mutations as a proposal instead of executing", async () => {
+    const { factory, create } = mockProposals();
+    const server = createMcpServer({ toolContextFactory: factoryWith({}), proposalStoreFactory: factory });
+
+    const result = await server.callTool("create_loadout", { name: "Mining", ship_id: "cdn:ship:envoy" }, "user-1");
+
+    expect(result.isError).toBe(false);
+    expect(result.structuredContent).toMatchObject({ staged: true, proposalId: "prop-1" });
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({
+      tool: "_batch",
+      batchItems: [{ tool: "create_loadout", args: { name: "Mining", ship_id: "cdn:ship:envoy" }, preview: expect.stringContaining("Mining") }],
+    }));
+  });
+
+  it("fails approve-tier mutations when proposals cannot be stored", async () => {
+    const server = createMcpServer({ toolContextFactory: factoryWith({}) });
+    const result = await server.callTool("assign_dock", { dock_number: 1, loadout_id: 2 }, "user-1");
+    expect(result.isError).toBe(true);
+  });
+
+  it("refuses blocked tools, honoring user overrides", async () => {
+    const server = createMcpServer({ toolContextFactory: factoryWith({}) });
+    const blocked = await server.callTool("activate_preset", { preset_id: 1 }, "user-1");
+    expect(blocked.isError).toBe(true);
+    expect(blocked.structuredContent).toMatchObject({ blocked: true });
+
+    const targetStore = createMockTargetStore();
+    const locked = createMcpServer({ toolContextFactory: factoryWith({ targetStore, userSettingsStore: trustOverrides({ create_target: "block" }) }) });
+    const result = await locked.callTool("create_target", { target_type: "ship", ref_id: "cdn:ship:saladin" }, "user-1");
+    expect(result.structuredContent).toMatchObject({ blocked: true });
+    expect(targetStore.create).not.toHaveBeenCalled();
+  });
+
+  it("requires approval to add a ship the Admiral does not own yet", async () => {
+    const overlayStore = createMockOverlayStore({ getShipOverlay: vi.fn().mockResolvedValue(null) });
+    const { factory, create } = mockProposals();
+    const server = createMcpServer({ toolContextFactory: factoryWith({ overlayStore }), proposalStoreFactory: factory });
+
+    const result = await server.callTool("set_ship_overlay", { ship_id: "cdn:ship:saladin", tier: 3 }, "user-1");
+
+    expect(result.structuredContent).toMatchObject({ staged: true });
+    expect(create).toHaveBeenCalled();
+    expect(overlayStore.setShipOverlay).not.toHaveBeenCalled();
+  });
+
+  it("rejects unknown tools and non-object arguments as invalid params", async () => {
+    const server = createMcpServer({ toolContextFactory: factoryWith({}) });
+    expect((await call(server, "tools/call", { name: "launch_torpedoes" }) as JsonRpcFailure).error.code).toBe(-32602);
+    expect((await call(server, "tools/call", { name: "list_targets", arguments: [1] }) as JsonRpcFailure).error.code).toBe(-32602);
+  });
+});
+
+describe("MCP stdio transport", () => {
+  it("answers one line per request and reports parse errors", async () => {
+    const server = createMcpServer({ toolContextFactory: factoryWith({}) });
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const lines: string[] = [];
+    output.on("data", (chunk: Buffer) => lines.push(...chunk.toString().split("\n").filter(Boolean)));
+
+    const done = runStdioTransport(server, "user-1", input, output);
+    input.write('{"jsonrpc":"2.0","id":1,"method":"ping"}\n');
+    input.write('{"jsonrpc":"2.0","method":"notifications/initialized"}\n');
+    input.write("not json\n");
+    input.end();
+    await done;
+
+    const messages = lines.map((line) => JSON.parse(line));
+    expect(messages).toContainEqual({ jsonrpc: "2.0", id: 1, result: {} });
+    expect(messages).toContainEqual(expect.objectContaining({ id: null, error: expect.objectContaining({ code: -32700 }) }));
+    expect(messages).toHaveLength(2);
+  });
+});
+
+describe("resolveStdioUser", () => {
+  const token = { tokenId: 3, userId: "user-7", role: "lieutenant", emailVerified: true, lockedAt: null, scopes: ["mcp"] };
+  const tokens = (resolved: unknown) => ({ resolveToken: vi.fn().mockResolvedValue(resolved), touchToken: vi.fn().mockResolvedValue(undefined) });
+
+  it("runs as local when auth is disabled", async () => {
+    expect(await resolveStdioUser(undefined, { authEnabled: false, adminToken: "" }, null)).toBe("local");
+  });
+
+  it("maps the admin token and mcp API tokens to users", async () => {
+    const config = { authEnabled: true, adminToken: "admin-secret" };
+    expect(await resolveStdioUser("admin-secret", config, null)).toBe(deriveAdminUserId("admin-secret"));
+    expect(await resolveStdioUser("mjl_pat_mcp", config, tokens(token) as never)).toBe("user-7");
+  });
+
+  it("rejects missing, unknown and under-ranked tokens", async () => {
+    const config = { authEnabled: true, adminToken: "admin-secret" };
+    await expect(resolveStdioUser(undefined, config, null)).rejects.toThrow("MAJEL_MCP_TOKEN is required");
+    await expect(resolveStdioUser("nope", config, tokens(null) as never)).rejects.toThrow("invalid or expired");
+    await expect(resolveStdioUser("t", config, tokens({ ...token, scopes: ["chat:run"] }) as never)).rejects.toThrow("mcp scope");
+    await expect(resolveStdioUser("t", config, tokens({ ...token, role: "ensign" }) as never)).rejects.toThrow("lieutenant");
+  });
+});
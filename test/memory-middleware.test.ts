@@ -18,6 +18,8 @@ function makeMockMemory(): MemoryService {
   return {
     remember: vi.fn().mockResolvedValue({ id: "test-frame" }),
     recall: vi.fn().mockResolvedValue([]),
+    search: vi.fn().mockResolvedValue([]),
+    backfillEmbeddings: vi.fn().mockResolvedValue(0),
     timeline: vi.fn().mockResolvedValue([]),
     close: vi.fn().mockResolvedValue(undefined),
     getFrameCount: vi.fn().mockResolvedValue(0),
@@ -7,7 +7,7 @@
  * See ADR-014 for architecture rationale.
  */
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import {
   compileTask,
   gateContext,
@@ -28,6 +28,7 @@ import {
   type GovernanceContext,
   type ReferenceEntry,
 } from "../src/server/services/micro-runner.js";
+import type { FleetDecision } from "../src/server/stores/decision-store.js";
 
 // ─── Test Helpers ───────────────────────────────────────────
 
@@ -65,6 +66,26 @@ const KIRK: ReferenceEntry = {
   importedAt: "2026-02-09T10:00:00Z",
 };
 
+function makeDecision(overrides?: Partial<FleetDecision>): FleetDecision {
+  return {
+    id: 1,
+    kind: "saving",
+    statement: "Saving latinum for the Vi'Dar",
+    subjectType: "ship",
+    subjectRefId: "cdn:ship:vidar",
+    subjectName: "Vi'Dar",
+    assumesOwnership: "unowned",
+    assumesTarget: null,
+    status: "active",
+    invalidatedReason: null,
+    invalidatedAt: null,
+    source: "chat",
+    createdAt: "2026-03-01T00:00:00.000Z",
+    updatedAt: "2026-03-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
 // ─── PromptCompiler ─────────────────────────────────────────
 
 describe("PromptCompiler (compileTask)", () => {
@@ -238,6 +259,16 @@ describe("ContextGate (gateContext)", () => {
       "t2:officerLookup",
     ]);
   });
+
+  it("injects the user's fleet decisions for any task type", () => {
+    const ctx = makeContextSources();
+    const contract = compileTask("How do armadas work?", ctx);
+    const gated = gateContext(contract, ctx, [makeDecision()]);
+
+    expect(gated.contextBlock).toContain("[FLEET DECISIONS]");
+    expect(gated.contextBlock).toContain("- saving: Saving latinum for the Vi'Dar (ship: Vi'Dar, since 2026-03-01)");
+    expect(gated.keysInjected).toEqual(["t1:decisions"]);
+  });
 });
 
 // ─── buildAugmentedMessage ──────────────────────────────────
@@ -689,6 +720,35 @@ describe("createMicroRunner", () => {
       expect(gatedContext.contextBlock).toBeNull();
       expect(augmentedMessage).toBe("Tell me about Khan");
     });
+
+    it("loads the governed user's decisions from the decision source", async () => {
+      const activeDecisions = vi.fn(async () => [makeDecision()]);
+      const runner = createMicroRunner({ contextSources: makeContextSources(), decisionSource: { activeDecisions } });
+
+      const { augmentedMessage } = await runner.prepare("What should I research?", {
+        userId: "u-42", role: "ensign", tenantId: "u-42", modelFamily: "gemini-2.5-flash", procedureMode: "chat",
+      });
+
+      expect(activeDecisions).toHaveBeenCalledWith("u-42");
+      expect(augmentedMessage).toContain("[FLEET DECISIONS]");
+      expect(augmentedMessage).toContain("What should I research?");
+
+      // No governance → no user to load for
+      await runner.prepare("What should I research?");
+      expect(activeDecisions).toHaveBeenCalledTimes(1);
+    });
+
+    it("carries on without decisions when the source fails", async () => {
+      const runner = createMicroRunner({
+        contextSources: makeContextSources(),
+        decisionSource: { activeDecisions: async () => { throw new Error("db down"); } },
+      });
+
+      const { augmentedMessage } = await runner.prepare("Hello", {
+        userId: "u-42", role: "ensign", tenantId: "u-42", modelFamily: "gemini-2.5-flash", procedureMode: "chat",
+      });
+      expect(augmentedMessage).toBe("Hello");
+    });
   });
 
   describe("validate()", () => {
@@ -828,6 +888,16 @@ describe("applyContextBudget", () => {
     expect(budget.truncated).toEqual(["behavioralRules"]);
   });
 
+  it("drops fleet decisions after behavioral rules", () => {
+    const decisionsBlock = `[FLEET DECISIONS]\n${"- avoid: something\n".repeat(100)}[END FLEET DECISIONS]`;
+    const rulesBlock = `[BEHAVIORAL RULES]\n${"MUST: some rule\n".repeat(100)}[END BEHAVIORAL RULES]`;
+    const message = `${decisionsBlock}\n\n${rulesBlock}\n\nWhat crew for the Enterprise?`;
+    const policy = resolveContextBudget("gemini-2.5-flash", "chat");
+    const { message: result, budget } = applyContextBudget(message, { ...policy, maxContextTokens: 20 });
+    expect(result).toBe("What crew for the Enterprise?");
+    expect(budget.truncated).toEqual(["behavioralRules", "fleetDecisions"]);
+  });
+
   it("does not truncate when rules fit within budget", () => {
     const rulesBlock = "[BEHAVIORAL RULES]\nMUST: be nice\n[END BEHAVIORAL RULES]";
     const message = `${rulesBlock}\n\nHello`;
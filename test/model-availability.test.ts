@@ -6,14 +6,15 @@ import { describe, it, expect } from "vitest";
 import {
   resolveModelAvailability,
   resolveAllModelAvailability,
+  resolveProviderCapabilities,
   parseModelOverrides,
 } from "../src/server/services/model-availability.js";
 import type { ModelOverrides, ProviderCapabilities } from "../src/server/services/model-availability.js";
 
 // ─── Fixtures ─────────────────────────────────────────────────
 
-const ALL_CAPABLE: ProviderCapabilities = { gemini: true, claude: true };
-const GEMINI_ONLY: ProviderCapabilities = { gemini: true, claude: false };
+const ALL_CAPABLE: ProviderCapabilities = { gemini: true, claude: true, local: true };
+const GEMINI_ONLY: ProviderCapabilities = { gemini: true, claude: false, local: false };
 const ADMIRAL = { isAdmiral: true };
 const VISITOR = { isAdmiral: false };
 const NO_OVERRIDES: ModelOverrides = {};
@@ -135,14 +136,37 @@ describe("resolveAllModelAvailability", () => {
     expect(ids).toContain("gemini-2.5-flash");
   });
 
-  it("returns all 7 models for admiral with all providers capable", () => {
+  it("returns all 8 models for admiral with all providers capable", () => {
     const results = resolveAllModelAvailability(ADMIRAL, NO_OVERRIDES, ALL_CAPABLE);
-    expect(results).toHaveLength(7);
+    expect(results).toHaveLength(8);
   });
 
-  it("returns 5 models for visitor (Claude excluded by roleGate)", () => {
+  it("returns 6 models for visitor (Claude excluded by roleGate)", () => {
     const results = resolveAllModelAvailability(VISITOR, NO_OVERRIDES, ALL_CAPABLE);
-    expect(results).toHaveLength(5);
+    expect(results).toHaveLength(6);
+  });
+});
+
+// ─── Local provider ───────────────────────────────────────────
+
+describe("local model provider", () => {
+  it("is available once the local server is configured", () => {
+    expect(resolveModelAvailability("local", VISITOR, NO_OVERRIDES, ALL_CAPABLE).available).toBe(true);
+  });
+
+  it("explains when the local server is not configured", () => {
+    const result = resolveModelAvailability("local", ADMIRAL, NO_OVERRIDES, GEMINI_ONLY);
+    expect(result.available).toBe(false);
+    expect(result.effectiveReason).toBe("Local model server provider not configured");
+  });
+
+  it("derives capabilities from config, dropping Gemini on local-only installs", () => {
+    const base = { geminiApiKey: "", vertexProjectId: "", localModelUrl: "" };
+    expect(resolveProviderCapabilities(base)).toEqual({ gemini: true, claude: false, local: false });
+    expect(resolveProviderCapabilities({ ...base, localModelUrl: "http://localhost:11434/v1" }))
+      .toEqual({ gemini: false, claude: false, local: true });
+    expect(resolveProviderCapabilities({ ...base, geminiApiKey: "key", localModelUrl: "http://localhost:11434/v1" }))
+      .toEqual({ gemini: true, claude: false, local: true });
   });
 });
 
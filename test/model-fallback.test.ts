@@ -0,0 +1,156 @@
+/**
+ * model-fallback.test.ts — Fallback chain parsing, route planning, provider
+ * failure detection and the per-model circuit breaker.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  createCircuitBreaker,
+  getFallbackScope,
+  isProviderFailure,
+  parseFallbackChains,
+  planFallbackRoute,
+  runInFallbackScope,
+} from "../src/server/services/model-fallback.js";
+
+const CHAIN = ["gemini-2.5-flash-lite", "gemini-2.5-flash", "claude-sonnet-4-6"];
+
+// ─── parseFallbackChains ──────────────────────────────────────
+
+describe("parseFallbackChains", () => {
+  it("returns an empty object for empty or invalid input", () => {
+    expect(parseFallbackChains("")).toEqual({});
+    expect(parseFallbackChains("{}")).toEqual({});
+    expect(parseFallbackChains("not json")).toEqual({});
+    expect(parseFallbackChains("[1,2]")).toEqual({});
+  });
+
+  it("keeps known task types and registry models", () => {
+    const raw = JSON.stringify({ default: CHAIN, dock_planning: ["gemini-2.5-pro"] });
+    expect(parseFallbackChains(raw)).toEqual({ default: CHAIN, dock_planning: ["gemini-2.5-pro"] });
+  });
+
+  it("drops unknown keys, unknown models and duplicates", () => {
+    const raw = JSON.stringify({
+      default: ["gemini-2.5-flash", "gpt-9", "gemini-2.5-flash", 42],
+      made_up_task: CHAIN,
+      fleet_query: ["nope"],
+    });
+    expect(parseFallbackChains(raw)).toEqual({ default: ["gemini-2.5-flash"] });
+  });
+});
+
+// ─── planFallbackRoute ────────────────────────────────────────
+
+describe("planFallbackRoute", () => {
+  it("serves only the current model without a chain", () => {
+    expect(planFallbackRoute({}, "fleet_query", "gemini-2.5-pro")).toEqual(["gemini-2.5-pro"]);
+  });
+
+  it("enters the chain at the current model", () => {
+    expect(planFallbackRoute({ default: CHAIN }, null, "gemini-2.5-flash")).toEqual(["gemini-2.5-flash", "claude-sonnet-4-6"]);
+  });
+
+  it("tries a current model outside the chain first", () => {
+    expect(planFallbackRoute({ default: CHAIN }, null, "gemini-2.5-pro")).toEqual(["gemini-2.5-pro", ...CHAIN]);
+  });
+
+  it("prefers the task type's chain over the default", () => {
+    const chains = { default: CHAIN, reference_lookup: ["gemini-2.5-flash-lite", "gemini-2.5-pro"] };
+    expect(planFallbackRoute(chains, "reference_lookup", "gemini-2.5-flash-lite")).toEqual(["gemini-2.5-flash-lite", "gemini-2.5-pro"]);
+    expect(planFallbackRoute(chains, "dock_planning", "gemini-2.5-flash-lite")).toEqual(CHAIN);
+  });
+});
+
+// ─── isProviderFailure ────────────────────────────────────────
+
+describe("isProviderFailure", () => {
+  it("recognises overload, quota and timeout statuses", () => {
+    for (const status of [429, 503, 529]) {
+      expect(isProviderFailure(Object.assign(new Error("x"), { status }))).toBe(true);
+    }
+    expect(isProviderFailure(Object.assign(new Error("x"), { httpStatusCode: 504 }))).toBe(true);
+  });
+
+  it("trusts a client-error status over the message", () => {
+    expect(isProviderFailure(Object.assign(new Error("quota"), { status: 400 }))).toBe(false);
+  });
+
+  it("recognises provider failure messages and abort errors", () => {
+    expect(isProviderFailure(new Error("[429 Too Many Requests] RESOURCE_EXHAUSTED"))).toBe(true);
+    expect(isProviderFailure(new Error("TypeError: fetch failed"))).toBe(true);
+    expect(isProviderFailure(Object.assign(new Error("aborted"), { name: "AbortError" }))).toBe(true);
+  });
+
+  it("rejects ordinary errors and non-errors", () => {
+    expect(isProviderFailure(new Error("Cannot read properties of undefined"))).toBe(false);
+    expect(isProviderFailure("503")).toBe(false);
+    expect(isProviderFailure(null)).toBe(false);
+  });
+});
+
+// ─── Circuit breaker ──────────────────────────────────────────
+
+describe("createCircuitBreaker", () => {
+  function clockedBreaker() {
+    let t = 1_000;
+    const breaker = createCircuitBreaker({ failureThreshold: 2, cooldownMs: 500, now: () => t });
+    return { breaker, advance: (ms: number) => { t += ms; } };
+  }
+
+  it("opens after consecutive failures", () => {
+    const { breaker } = clockedBreaker();
+    breaker.recordFailure("m");
+    expect(breaker.allows("m")).toBe(true);
+    breaker.recordFailure("m");
+    expect(breaker.allows("m")).toBe(false);
+    expect(breaker.openCircuits()).toEqual([{ modelId: "m", retryAt: 1_500 }]);
+    expect(breaker.allows("other")).toBe(true);
+  });
+
+  it("a success resets the failure count", () => {
+    const { breaker } = clockedBreaker();
+    breaker.recordFailure("m");
+    breaker.recordSuccess("m");
+    breaker.recordFailure("m");
+    expect(breaker.allows("m")).toBe(true);
+  });
+
+  it("allows one trial after the cooldown and closes on success", () => {
+    const { breaker, advance } = clockedBreaker();
+    breaker.recordFailure("m");
+    breaker.recordFailure("m");
+    advance(500);
+    expect(breaker.allows("m")).toBe(true);
+    expect(breaker.allows("m")).toBe(false);
+    breaker.recordSuccess("m");
+    expect(breaker.allows("m")).toBe(true);
+    expect(breaker.openCircuits()).toEqual([]);
+  });
+
+  it("reopens for a full cooldown when the trial fails", () => {
+    const { breaker, advance } = clockedBreaker();
+    breaker.recordFailure("m");
+    breaker.recordFailure("m");
+    advance(500);
+    expect(breaker.allows("m")).toBe(true);
+    breaker.recordFailure("m");
+    advance(499);
+    expect(breaker.allows("m")).toBe(false);
+    advance(1);
+    expect(breaker.allows("m")).toBe(true);
+  });
+});
+
+// ─── Telemetry scope ──────────────────────────────────────────
+
+describe("runInFallbackScope", () => {
+  it("binds the scope across awaits and clears it afterwards", async () => {
+    const seen = await runInFallbackScope({ taskType: "default", path: ["a", "b"] }, async () => {
+      await Promise.resolve();
+      return getFallbackScope();
+    });
+    expect(seen).toEqual({ taskType: "default", path: ["a", "b"] });
+    expect(getFallbackScope()).toBeUndefined();
+  });
+});
@@ -59,7 +59,7 @@ describe("POST /api/chat — image validation (ADR-008)", () => {
 
     expect(res.status).toBe(200);
     expect(res.body.data.answer).toBe("Image received, Admiral.");
-    expect(mockChat).toHaveBeenCalledWith("Hello Aria", "default", undefined, expect.any(String), expect.any(String), undefined, "fleet", false, "admiral");
+    expect(mockChat).toHaveBeenCalledWith("Hello Aria", "default", undefined, expect.any(String), expect.any(String), undefined, "fleet", false, "admiral", undefined);
   });
 
   it("accepts a message with a valid image attachment", async () => {
@@ -82,6 +82,7 @@ describe("POST /api/chat — image validation (ADR-008)", () => {
       "fleet",
       false,
       "admiral",
+      undefined,
     );
   });
 
@@ -206,6 +207,7 @@ describe("POST /api/chat — image validation (ADR-008)", () => {
       "fleet",
       false,
       "admiral",
+      undefined,
     );
   });
 });
@@ -0,0 +1,153 @@
+/**
+ * operation-stream.test.ts — Push delivery of operation events and streamed
+ * chat output (LISTEN/NOTIFY, in-process fallback, text replay buffer).
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
+import { createOperationEventStoreFactory } from "../src/server/stores/operation-event-store.js";
+import {
+  createChatStreamForwarder,
+  createOperationStream,
+  type OperationSignal,
+  type OperationStream,
+} from "../src/server/services/operation-stream.js";
+
+const TARGET = { topic: "chat_run", operationId: "run-1", userId: "user-a" };
+const ROUTING = { sessionId: "session-1", tabId: "tab-1" };
+
+/** Resolve once `count` signals have arrived (NOTIFY is asynchronous). */
+function collect(stream: OperationStream, count: number, target = TARGET): Promise<OperationSignal[]> {
+  const seen: OperationSignal[] = [];
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`timed out with ${seen.length}/${count} signals`)), 3000);
+    const unsubscribe = stream.subscribe(target, (signal) => {
+      seen.push(signal);
+      if (seen.length === count) {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(seen);
+      }
+    });
+  });
+}
+
+// ─── In-process ───────────────────────────────────────────────
+
+describe("operation stream — without a database", () => {
+  let stream: OperationStream;
+
+  beforeEach(async () => {
+    stream = await createOperationStream(null);
+  });
+
+  afterEach(async () => {
+    await stream.close();
+  });
+
+  it("delivers published signals in-process and is not live", async () => {
+    expect(stream.isLive()).toBe(false);
+    const received = collect(stream, 1);
+    stream.publish({ ...TARGET, kind: "tool", tool: "get_fleet", phase: "started" });
+    expect(await received).toEqual([{ ...TARGET, kind: "tool", tool: "get_fleet", phase: "started" }]);
+  });
+
+  it("isolates subscribers by operation and user", () => {
+    const seen: OperationSignal[] = [];
+    stream.subscribe({ ...TARGET, userId: "user-b" }, (s) => seen.push(s));
+    stream.subscribe({ ...TARGET, operationId: "run-2" }, (s) => seen.push(s));
+    stream.publish({ ...TARGET, kind: "text", offset: 0, text: "hi" });
+    expect(seen).toEqual([]);
+  });
+
+  it("buffers streamed text for reconnecting clients", () => {
+    const forward = createChatStreamForwarder(stream, TARGET);
+    forward({ type: "text", text: "Your Enterprise " });
+    forward({ type: "text", text: "is docked." });
+    expect(stream.textSoFar(TARGET)).toBe("Your Enterprise is docked.");
+
+    forward({ type: "reset" });
+    expect(stream.textSoFar(TARGET)).toBe("");
+    forward({ type: "text", text: "Repaired." });
+    expect(stream.textSoFar(TARGET)).toBe("Repaired.");
+    expect(stream.textSoFar({ ...TARGET, userId: "user-b" })).toBe("");
+  });
+
+  it("forwards text as offset-addressed chunks", () => {
+    const seen: OperationSignal[] = [];
+    stream.subscribe(TARGET, (s) => seen.push(s));
+    const forward = createChatStreamForwarder(stream, TARGET);
+    forward({ type: "reset" });
+    forward({ type: "text", text: "a".repeat(1600) });
+    forward({ type: "text", text: "b" });
+    forward({ type: "tool", tool: "get_fleet", phase: "completed", ok: true });
+
+    expect(seen.map((s) => (s.kind === "text" ? [s.offset, s.text.length] : s.kind))).toEqual([
+      [0, 1500], [1500, 100], [1600, 1], "tool",
+    ]);
+  });
+});
+
+// ─── LISTEN/NOTIFY ────────────────────────────────────────────
+
+describe("operation stream — LISTEN/NOTIFY", () => {
+  let pool: Pool;
+  let stream: OperationStream;
+
+  beforeAll(() => {
+    pool = createTestPool();
+  });
+
+  afterAll(async () => {
+    await pool.end();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(pool);
+    stream = await createOperationStream(pool);
+  });
+
+  afterEach(async () => {
+    await stream.close();
+  });
+
+  it("pushes committed operation events from the insert trigger", async () => {
+    const factory = await createOperationEventStoreFactory(pool);
+    const store = factory.forUser("user-a");
+    await store.register("chat_run", "run-1", ROUTING);
+
+    expect(stream.isLive()).toBe(true);
+    const received = collect(stream, 1);
+    const event = await store.emit({ topic: "chat_run", operationId: "run-1", routing: ROUTING, eventType: "run.started", status: "running" });
+
+    expect(await received).toEqual([{ ...TARGET, kind: "event", seq: event.seq, eventType: "run.started" }]);
+  });
+
+  it("publishes streamed output through NOTIFY in order", async () => {
+    const received = collect(stream, 3);
+    const forward = createChatStreamForwarder(stream, TARGET);
+    forward({ type: "text", text: "one " });
+    forward({ type: "text", text: "two" });
+    forward({ type: "tool", tool: "get_fleet", phase: "started" });
+
+    const signals = await received;
+    expect(signals.map((s) => s.kind)).toEqual(["text", "text", "tool"]);
+    expect(stream.textSoFar(TARGET)).toBe("one two");
+  });
+
+  it("drops the text buffer when the run reaches a terminal event", async () => {
+    const factory = await createOperationEventStoreFactory(pool);
+    const store = factory.forUser("user-a");
+    await store.register("chat_run", "run-1", ROUTING);
+
+    const streamed = collect(stream, 1);
+    createChatStreamForwarder(stream, TARGET)({ type: "text", text: "partial" });
+    await streamed;
+    expect(stream.textSoFar(TARGET)).toBe("partial");
+
+    const completed = collect(stream, 1);
+    await store.emit({ topic: "chat_run", operationId: "run-1", routing: ROUTING, eventType: "run.completed", status: "succeeded" });
+    await completed;
+    expect(stream.textSoFar(TARGET)).toBe("");
+  });
+});
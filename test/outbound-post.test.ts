@@ -0,0 +1,71 @@
+/**
+ * outbound-post.test.ts — Address policy and pinned POSTs to user-supplied URLs
+ */
+
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createOutboundPost, isPublicAddress } from "../src/server/services/outbound-post.js";
+
+describe("isPublicAddress", () => {
+  it("accepts public IPv4 and IPv6 addresses", () => {
+    expect(isPublicAddress("8.8.8.8")).toBe(true);
+    expect(isPublicAddress("2606:4700:4700::1111")).toBe(true);
+    expect(isPublicAddress("::ffff:808:808")).toBe(true);
+  });
+
+  it("rejects loopback, private, link-local, CGNAT and unique-local addresses", () => {
+    for (const address of [
+      "127.0.0.1", "10.0.0.5", "172.20.1.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0",
+      "::1", "::", "fd12:3456::1", "fe80::1", "::ffff:7f00:1", "::ffff:169.254.169.254",
+    ]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it("rejects anything that is not an IP address", () => {
+    expect(isPublicAddress("example.com")).toBe(false);
+  });
+});
+
+describe("createOutboundPost", () => {
+  let server: Server;
+  let port: number;
+  const received: { headers: Record<string, unknown>; body: string }[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk: Buffer) => { body += chunk.toString(); });
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(req.url === "/moved" ? 302 : 202, { Location: "http://example.com/" });
+        res.end("secret internal page");
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("refuses hosts that resolve to a private address", async () => {
+    const post = createOutboundPost({ allowPrivate: false, timeoutMs: 2000 });
+    await expect(post(`http://localhost:${port}/hook`, { headers: {}, body: "{}" })).rejects.toThrow(/non-public address/);
+    await expect(post(`http://127.0.0.1:${port}/hook`, { headers: {}, body: "{}" })).rejects.toThrow(/not a public address/);
+    await expect(post(`http://[::ffff:7f00:1]:${port}/hook`, { headers: {}, body: "{}" })).rejects.toThrow(/not a public address/);
+    expect(received).toEqual([]);
+  });
+
+  it("returns only the status and does not follow redirects", async () => {
+    const post = createOutboundPost({ allowPrivate: true, timeoutMs: 2000 });
+
+    const response = await post(`http://localhost:${port}/hook`, { headers: { "X-Test": "1" }, body: '{"ok":true}' });
+    expect(response).toEqual({ status: 202 });
+    expect(received[0]).toMatchObject({ body: '{"ok":true}', headers: { "x-test": "1" } });
+
+    expect(await post(`http://localhost:${port}/moved`, { headers: {}, body: "{}" })).toEqual({ status: 302 });
+    expect(received).toHaveLength(2);
+  });
+});
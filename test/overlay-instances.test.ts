@@ -0,0 +1,125 @@
+/**
+ * overlay-instances.test.ts — Multi-instance overlays (ADR-051)
+ *
+ * Integration tests against live PostgreSQL.
+ * Owning two copies of a ship keeps two overlay rows; bulk ownership and
+ * import allocation treat every copy of a ref consistently.
+ */
+
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from "vitest";
+import {
+  createOverlayStore,
+  resolveInstanceId,
+  PRIMARY_INSTANCE_ID,
+  type OverlayStore,
+} from "../src/server/stores/overlay-store.js";
+import { createReferenceStore, type ReferenceStore } from "../src/server/stores/reference-store.js";
+import { createInstanceAllocator } from "../src/server/services/route-helpers/imports-helpers.js";
+import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
+
+let pool: Pool;
+beforeAll(() => { pool = createTestPool(); });
+afterAll(async () => { await pool.end(); });
+
+const REF_DEFAULTS = {
+  source: "test", sourceUrl: null, sourcePageId: null,
+  sourceRevisionId: null, sourceRevisionTimestamp: null,
+};
+
+describe("resolveInstanceId", () => {
+  it("defaults to the primary instance", () => {
+    expect(resolveInstanceId(undefined)).toBe(PRIMARY_INSTANCE_ID);
+    expect(resolveInstanceId("")).toBe(PRIMARY_INSTANCE_ID);
+  });
+
+  it("generates a fresh ID for 'new' and passes others through", () => {
+    const a = resolveInstanceId("new");
+    const b = resolveInstanceId("new");
+    expect(a).toMatch(/^inst_/);
+    expect(a).not.toBe(b);
+    expect(resolveInstanceId("inst_abc")).toBe("inst_abc");
+  });
+});
+
+describe("createInstanceAllocator", () => {
+  it("maps repeated refs onto existing instances, primary first", () => {
+    const next = createInstanceAllocator([
+      { refId: "kvort", instanceId: "inst_b" },
+      { refId: "kvort", instanceId: PRIMARY_INSTANCE_ID },
+    ]);
+    expect(next("kvort")).toBe(PRIMARY_INSTANCE_ID);
+    expect(next("kvort")).toBe("inst_b");
+    expect(next("kvort")).toMatch(/^inst_/);
+  });
+
+  it("uses the primary instance for a ref seen for the first time", () => {
+    const next = createInstanceAllocator([]);
+    expect(next("kirk")).toBe(PRIMARY_INSTANCE_ID);
+    expect(next("kirk")).not.toBe(PRIMARY_INSTANCE_ID);
+  });
+});
+
+describe("OverlayStore — instances", () => {
+  let store: OverlayStore;
+  let refStore: ReferenceStore;
+
+  beforeEach(async () => {
+    await cleanDatabase(pool);
+    refStore = await createReferenceStore(pool);
+    store = await createOverlayStore(pool);
+    for (const id of ["kvort", "vidar"]) {
+      await refStore.upsertShip({ id, name: id, shipClass: "Battleship", tier: 3, grade: null, rarity: null, faction: null, ...REF_DEFAULTS });
+    }
+  });
+
+  it("keys ship overlays on (user, ref, instance)", async () => {
+    await store.setShipOverlay({ refId: "kvort", ownershipState: "owned", tier: 5 });
+    await store.setShipOverlay({ refId: "kvort", instanceId: "inst_two", ownershipState: "owned", tier: 3 });
+
+    const instances = await store.listShipInstances("kvort");
+    expect(instances.map((i) => [i.instanceId, i.tier])).toEqual([
+      ["inst_two", 3],
+      [PRIMARY_INSTANCE_ID, 5],
+    ]);
+
+    const pk = await pool.query(
+      `SELECT a.attname FROM pg_index i
+       JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+       WHERE i.indrelid = 'ship_overlay'::regclass AND i.indisprimary
+       ORDER BY a.attname`,
+    );
+    expect(pk.rows.map((r) => r.attname)).toEqual(["instance_id", "ref_id", "user_id"]);
+  });
+
+  it("applies bulk ownership to every instance of a ref", async () => {
+    await store.setShipOverlay({ refId: "kvort", ownershipState: "owned" });
+    await store.setShipOverlay({ refId: "kvort", instanceId: "inst_two", ownershipState: "owned" });
+
+    const updated = await store.bulkSetShipOwnership(["kvort", "vidar"], "unowned");
+    expect(updated).toBe(2); // counts refs, not rows
+
+    const kvorts = await store.listShipInstances("kvort");
+    expect(kvorts.map((i) => i.ownershipState)).toEqual(["unowned", "unowned"]);
+    // A ref with no overlay yet gets a primary row
+    const vidar = await store.listShipInstances("vidar");
+    expect(vidar.map((i) => i.instanceId)).toEqual([PRIMARY_INSTANCE_ID]);
+  });
+
+  it("applies bulk targeting to every instance of a ref", async () => {
+    await store.setShipOverlay({ refId: "kvort", ownershipState: "owned" });
+    await store.setShipOverlay({ refId: "kvort", instanceId: "inst_two", ownershipState: "owned" });
+
+    await store.bulkSetShipTarget(["kvort"], true);
+    const kvorts = await store.listShipInstances("kvort");
+    expect(kvorts.every((i) => i.target)).toBe(true);
+  });
+
+  it("deletes a single instance", async () => {
+    await store.setShipOverlay({ refId: "kvort", ownershipState: "owned" });
+    await store.setShipOverlay({ refId: "kvort", instanceId: "inst_two", ownershipState: "owned" });
+
+    expect(await store.deleteShipOverlay("kvort", "inst_two")).toBe(true);
+    const remaining = await store.listShipInstances("kvort");
+    expect(remaining.map((i) => i.instanceId)).toEqual([PRIMARY_INSTANCE_ID]);
+  });
+});
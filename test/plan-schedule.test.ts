@@ -0,0 +1,131 @@
+/**
+ * plan-schedule.test.ts — Dock schedule timeline (ADR-025)
+ *
+ * Integration tests against live PostgreSQL.
+ * Time-windowed plan items are solved per window segment into a per-dock timeline.
+ */
+
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from "vitest";
+import { createCrewStore, type CrewStore } from "../src/server/stores/crew-store.js";
+import type { BridgeSlot } from "../src/server/types/crew-types.js";
+import { createReferenceStore, type ReferenceStore } from "../src/server/stores/reference-store.js";
+import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
+import { buildDockSchedule, MAX_SCHEDULE_HOURS } from "../src/server/services/plan-schedule.js";
+
+let pool: Pool;
+beforeAll(() => { pool = createTestPool(); });
+afterAll(async () => { await pool.end(); });
+
+const REF_DEFAULTS = {
+  source: "test", sourceUrl: null, sourcePageId: null,
+  sourceRevisionId: null, sourceRevisionTimestamp: null,
+};
+
+const SLOTS: BridgeSlot[] = ["captain", "bridge_1", "bridge_2"];
+const FROM = new Date("2026-03-01T00:00:00.000Z");
+
+describe("buildDockSchedule", () => {
+  let store: CrewStore;
+  let refStore: ReferenceStore;
+
+  async function seedLoadout(shipId: string, name: string, officers: string[]) {
+    const bc = await store.createBridgeCore(`${name} Bridge`, officers.map((officerId, i) => ({ officerId, slot: SLOTS[i] })));
+    return store.createLoadout({ shipId, name, bridgeCoreId: bc.id });
+  }
+
+  beforeEach(async () => {
+    await cleanDatabase(pool);
+    refStore = await createReferenceStore(pool);
+    store = await createCrewStore(pool);
+    for (const [id, name] of [["vidar", "Vi'Dar"], ["kumari", "Kumari"]]) {
+      await refStore.upsertShip({ id, name, shipClass: "Explorer", tier: 3, grade: null, rarity: null, faction: null, ...REF_DEFAULTS });
+    }
+    for (const [id, name] of [["kirk", "Kirk"], ["spock", "Spock"], ["mccoy", "McCoy"]]) {
+      await refStore.upsertOfficer({ id, name, rarity: "Epic", groupName: "TOS", captainManeuver: null, officerAbility: null, belowDeckAbility: null, ...REF_DEFAULTS });
+    }
+    await store.upsertDock(1, { label: "D1" });
+  });
+
+  it("keeps an unwindowed item on its dock for the whole horizon", async () => {
+    const lo = await seedLoadout("vidar", "Miner", ["kirk"]);
+    await store.createPlanItem({ loadoutId: lo.id, label: "Mine", priority: 1 });
+
+    const schedule = await buildDockSchedule(store, { from: FROM, hours: 24 });
+    expect(schedule.to).toBe("2026-03-02T00:00:00.000Z");
+    expect(schedule.docks).toHaveLength(1);
+    expect(schedule.docks[0].entries).toEqual([
+      expect.objectContaining({ planItemLabel: "Mine", start: FROM.toISOString(), end: schedule.to }),
+    ]);
+    expect(schedule.switches).toHaveLength(0);
+  });
+
+  it("switches a dock at window boundaries and reports officer swaps", async () => {
+    const day = await seedLoadout("vidar", "Day Miner", ["kirk", "spock"]);
+    const night = await seedLoadout("kumari", "Night Raider", ["kirk", "mccoy"]);
+    await store.createPlanItem({ loadoutId: day.id, label: "Day", priority: 2 });
+    await store.createPlanItem({
+      loadoutId: night.id, label: "Night", priority: 1,
+      window: { kind: "daily", start: "20:00", end: "04:00" },
+    });
+
+    const schedule = await buildDockSchedule(store, {
+      from: FROM, hours: 24,
+      officerName: (id) => id.toUpperCase(),
+    });
+
+    const labels = schedule.docks[0].entries.map((e) => [e.planItemLabel, e.start.slice(11, 16), e.end.slice(11, 16)]);
+    expect(labels).toEqual([
+      ["Night", "00:00", "04:00"],
+      ["Day", "04:00", "20:00"],
+      ["Night", "20:00", "00:00"],
+    ]);
+
+    expect(schedule.switches).toHaveLength(2);
+    const [toDay, toNight] = schedule.switches;
+    expect(toDay.at).toBe("2026-03-01T04:00:00.000Z");
+    expect(toDay.from?.planItemLabel).toBe("Night");
+    expect(toDay.to?.planItemLabel).toBe("Day");
+    // Kirk stays aboard; only the second seat changes hands
+    expect(toDay.officersOut).toEqual([{ id: "mccoy", name: "MCCOY" }]);
+    expect(toDay.officersIn).toEqual([{ id: "spock", name: "SPOCK" }]);
+    expect(toNight.officersOut.map((o) => o.id)).toEqual(["spock"]);
+  });
+
+  it("does not report out-of-window items as unscheduled", async () => {
+    const a = await seedLoadout("vidar", "A", ["kirk"]);
+    const b = await seedLoadout("kumari", "B", ["spock"]);
+    await store.createPlanItem({ loadoutId: a.id, label: "Always", priority: 1 });
+    await store.createPlanItem({
+      loadoutId: b.id, label: "Event", priority: 2,
+      window: { kind: "once", start: "2026-03-01T10:00:00.000Z", end: "2026-03-01T12:00:00.000Z" },
+    });
+
+    const schedule = await buildDockSchedule(store, { from: FROM, hours: 24 });
+    // One dock: the event is only queued while its window is open
+    expect(schedule.unscheduled).toEqual([
+      expect.objectContaining({
+        planItemLabel: "Event", action: "queued",
+        start: "2026-03-01T10:00:00.000Z", end: "2026-03-01T12:00:00.000Z",
+      }),
+    ]);
+    expect(schedule.docks[0].entries).toHaveLength(1);
+  });
+
+  it("solves an optimal schedule greedily when it has too many segments", async () => {
+    const lo = await seedLoadout("vidar", "Miner", ["kirk"]);
+    await store.createPlanItem({ loadoutId: lo.id, label: "Short", priority: 1, window: { kind: "daily", start: "10:00", end: "12:00" } });
+    expect((await buildDockSchedule(store, { from: FROM, hours: 24, mode: "optimal" })).mode).toBe("optimal");
+
+    for (const [start, end] of [["00:00", "01:00"], ["02:00", "03:00"], ["04:00", "05:00"], ["06:00", "07:00"]]) {
+      await store.createPlanItem({ loadoutId: lo.id, label: `Slot ${start}`, priority: 2, window: { kind: "daily", start, end } });
+    }
+    const week = await buildDockSchedule(store, { from: FROM, hours: MAX_SCHEDULE_HOURS, mode: "optimal" });
+    expect(week.mode).toBe("greedy");
+    expect(week.warnings).toEqual(expect.arrayContaining([expect.stringMatching(/solved greedily/)]));
+  });
+
+  it("clamps the horizon to one week", async () => {
+    const schedule = await buildDockSchedule(store, { from: FROM, hours: 1000 });
+    expect(schedule.to).toBe("2026-03-08T00:00:00.000Z");
+  });
+});
@@ -2,7 +2,7 @@
  * plan-solver.test.ts — Plan Solver Tests (ADR-022 Phase 5)
  *
  * Integration tests against live PostgreSQL.
- * Tests the greedy priority queue solver algorithm.
+ * Tests the greedy priority queue and optimal branch-and-bound solver modes.
  */
 
 import { describe, it, expect, beforeEach, beforeAll, afterAll } from "vitest";
@@ -13,7 +13,7 @@ import {
 import type { BridgeSlot } from "../src/server/types/crew-types.js";
 import { createReferenceStore, type ReferenceStore } from "../src/server/stores/reference-store.js";
 import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
-import { solvePlan } from "../src/server/services/plan-solver.js";
+import { solvePlan, compareSolvers, type SubstitutionSource } from "../src/server/services/plan-solver.js";
 
 let pool: Pool;
 beforeAll(() => { pool = createTestPool(); });
@@ -308,7 +308,7 @@ describe("Plan Solver", () => {
     expect(result.assignments).toHaveLength(1);
     expect(result.assignments[0].action).toBe("conflict");
     expect(result.assignments[0].explanation).toContain("hard-locked");
-    expect(result.assignments[0].explanation).toContain("kirk");
+    expect(result.assignments[0].explanation).toContain("kirk (locked for PvP Flagship)");
     expect(result.warnings.length).toBeGreaterThanOrEqual(1);
   });
 
@@ -324,7 +324,7 @@ describe("Plan Solver", () => {
     expect(result.assignments[0].action).toBe("assigned");
     // Should still generate a warning
     expect(result.warnings.some(w => w.includes("Soft reservation"))).toBe(true);
-    expect(result.warnings.some(w => w.includes("kirk"))).toBe(true);
+    expect(result.warnings.some(w => w.includes("kirk (reserved for Mining Crew)"))).toBe(true);
   });
 
   it("mixed: locked blocks, soft warns, unresolved proceeds", async () => {
@@ -356,4 +356,277 @@ describe("Plan Solver", () => {
     expect(result.warnings.some(w => w.includes("Locked reservation"))).toBe(true);
     expect(result.warnings.some(w => w.includes("Soft reservation"))).toBe(true);
   });
+
+  // ─── Time Windows ─────────────────────────────────────────
+
+  it("queues items outside their time window and frees the dock", async () => {
+    const loA = await seedLoadout(store, { shipId: "vidar", name: "Night", officers: ["kirk"] });
+    const loB = await seedLoadout(store, { shipId: "kumari", name: "Day", officers: ["spock"] });
+    await store.upsertDock(1, { label: "D1" });
+    await store.createPlanItem({
+      loadoutId: loA.id, label: "Night Shift", priority: 1,
+      window: { kind: "daily", start: "22:00", end: "06:00" },
+    });
+    await store.createPlanItem({ loadoutId: loB.id, label: "Day Shift", priority: 2 });
+
+    const noon = await solvePlan(store, { at: new Date("2026-03-01T12:00:00.000Z") });
+    const night = noon.assignments.find(a => a.planItemLabel === "Night Shift")!;
+    expect(night.action).toBe("queued");
+    expect(night.explanation).toContain("outside its time window (daily 22:00–06:00 UTC)");
+    expect(noon.assignments.find(a => a.planItemLabel === "Day Shift")!.dockNumber).toBe(1);
+    expect(noon.coverage.achieved).toBe(noon.coverage.possible);
+
+    const midnight = await solvePlan(store, { at: new Date("2026-03-01T23:00:00.000Z") });
+    expect(midnight.assignments.find(a => a.planItemLabel === "Night Shift")!.dockNumber).toBe(1);
+    expect(midnight.assignments.find(a => a.planItemLabel === "Day Shift")!.action).toBe("queued");
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════
+// Plan Solver — Optimal (Branch-and-Bound) Mode
+// ═══════════════════════════════════════════════════════════════
+
+describe("Plan Solver — optimal mode", () => {
+  let store: CrewStore;
+  let refStore: ReferenceStore;
+
+  beforeEach(async () => {
+    await cleanDatabase(pool);
+    refStore = await createReferenceStore(pool);
+    store = await createCrewStore(pool);
+    await seedShip(refStore, "vidar", "Vi'Dar", "Explorer");
+    await seedShip(refStore, "kumari", "Kumari", "Interceptor");
+    await seedShip(refStore, "enterprise", "Enterprise", "Battleship");
+    await seedOfficer(refStore, "kirk", "Kirk");
+    await seedOfficer(refStore, "spock", "Spock");
+    await seedOfficer(refStore, "mccoy", "McCoy");
+  });
+
+  /** High-priority item hogs Kirk + Spock; two lower items each need one of them. */
+  async function seedHogScenario() {
+    const hog = await seedLoadout(store, { shipId: "vidar", name: "Hog", officers: ["kirk", "spock"] });
+    const loB = await seedLoadout(store, { shipId: "kumari", name: "B", officers: ["kirk"] });
+    const loC = await seedLoadout(store, { shipId: "enterprise", name: "C", officers: ["spock"] });
+    await store.upsertDock(1, { label: "D1" });
+    await store.upsertDock(2, { label: "D2" });
+    await store.upsertDock(3, { label: "D3" });
+    await store.createPlanItem({ loadoutId: hog.id, label: "Hog", priority: 1 });
+    await store.createPlanItem({ loadoutId: loB.id, label: "B", priority: 2 });
+    await store.createPlanItem({ loadoutId: loC.id, label: "C", priority: 3 });
+  }
+
+  it("defers an officer-hogging item when two lower items cover more weight", async () => {
+    await seedHogScenario();
+
+    const greedy = await solvePlan(store);
+    expect(greedy.mode).toBe("greedy");
+    expect(greedy.assignments.filter(a => a.action === "assigned")).toHaveLength(1);
+
+    const optimal = await solvePlan(store, { mode: "optimal" });
+    expect(optimal.mode).toBe("optimal");
+    const hog = optimal.assignments.find(a => a.planItemLabel === "Hog")!;
+    expect(hog.action).toBe("conflict");
+    expect(hog.explanation).toContain("Deferred");
+    expect(optimal.assignments.filter(a => a.action === "assigned").map(a => a.planItemLabel)).toEqual(["B", "C"]);
+    expect(optimal.coverage.achieved).toBeGreaterThan(greedy.coverage.achieved);
+    expect(optimal.coverage.possible).toBe(greedy.coverage.possible);
+    expect(optimal.summary).toContain("Optimal solver preview");
+  });
+
+  it("matches greedy when greedy is already optimal", async () => {
+    const loA = await seedLoadout(store, { shipId: "vidar", name: "A", officers: ["kirk"] });
+    const loB = await seedLoadout(store, { shipId: "kumari", name: "B", officers: ["spock"] });
+    await store.upsertDock(1, { label: "D1" });
+    await store.createPlanItem({ loadoutId: loA.id, label: "A", priority: 1 });
+    await store.createPlanItem({ loadoutId: loB.id, label: "B", priority: 2 });
+
+    const optimal = await solvePlan(store, { mode: "optimal" });
+    expect(optimal.assignments[0]).toMatchObject({ planItemLabel: "A", action: "assigned", dockNumber: 1 });
+    expect(optimal.assignments[1]).toMatchObject({ planItemLabel: "B", action: "queued" });
+  });
+
+  it("keeps valid existing docks and still blocks hard-locked reservations", async () => {
+    const loA = await seedLoadout(store, { shipId: "vidar", name: "A", officers: ["kirk"] });
+    const loB = await seedLoadout(store, { shipId: "kumari", name: "B", officers: ["spock"] });
+    await store.upsertDock(1, { label: "D1" });
+    await store.upsertDock(2, { label: "D2" });
+    await store.createPlanItem({ loadoutId: loA.id, label: "Locked", priority: 1 });
+    await store.createPlanItem({ loadoutId: loB.id, dockNumber: 2, label: "Docked", priority: 2 });
+    await store.setReservation("kirk", "PvP", true);
+
+    const optimal = await solvePlan(store, { mode: "optimal" });
+    expect(optimal.assignments.find(a => a.planItemLabel === "Locked")!.explanation).toContain("hard-locked");
+    expect(optimal.assignments.find(a => a.planItemLabel === "Docked")).toMatchObject({ action: "unchanged", dockNumber: 2 });
+  });
+
+  it("releases the dock of an item the optimal solver displaces", async () => {
+    const hog = await seedLoadout(store, { shipId: "vidar", name: "Hog", officers: ["kirk", "spock"] });
+    const loB = await seedLoadout(store, { shipId: "kumari", name: "B", officers: ["kirk"] });
+    const loC = await seedLoadout(store, { shipId: "enterprise", name: "C", officers: ["spock"] });
+    await store.upsertDock(1, { label: "D1" });
+    await store.upsertDock(2, { label: "D2" });
+    await store.createPlanItem({ loadoutId: hog.id, dockNumber: 1, label: "Hog", priority: 1 });
+    await store.createPlanItem({ loadoutId: loB.id, label: "B", priority: 2 });
+    await store.createPlanItem({ loadoutId: loC.id, label: "C", priority: 3 });
+
+    const result = await solvePlan(store, { mode: "optimal", apply: true });
+    expect(result.assignments.find(a => a.planItemLabel === "Hog")!.action).not.toBe("assigned");
+    expect(result.conflicts).toEqual([]);
+
+    const items = await store.listPlanItems();
+    expect(items.find(p => p.label === "Hog")!.dockNumber).toBeNull();
+    expect(items.filter(p => p.dockNumber != null).map(p => p.label).sort()).toEqual(["B", "C"]);
+  });
+
+  it("applies optimal assignments to the DB", async () => {
+    await seedHogScenario();
+    const result = await solvePlan(store, { mode: "optimal", apply: true });
+    expect(result.applied).toBe(true);
+    expect(result.summary).toContain("Optimal solver applied");
+
+    const items = await store.listPlanItems();
+    expect(items.find(p => p.label === "Hog")!.dockNumber).toBeNull();
+    expect(items.find(p => p.label === "B")!.dockNumber).toBe(1);
+    expect(items.find(p => p.label === "C")!.dockNumber).toBe(2);
+  });
+
+  it("compareSolvers reports changed items and coverage gain without writing", async () => {
+    await seedHogScenario();
+    const comparison = await compareSolvers(store);
+    expect(comparison.coverageGain).toBeGreaterThan(0);
+    expect(comparison.changedPlanItemIds).toHaveLength(3);
+    expect(comparison.summary).toContain("Optimal plan covers");
+
+    const items = await store.listPlanItems();
+    expect(items.every(p => p.dockNumber === null)).toBe(true);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════
+// Plan Solver — Variant + Substitution Conflict Resolution
+// ═══════════════════════════════════════════════════════════════
+
+describe("Plan Solver — conflict resolution", () => {
+  let store: CrewStore;
+  let refStore: ReferenceStore;
+
+  const NAMES: Record<string, string> = { kirk: "Kirk", spock: "Spock", pike: "Pike", uhura: "Uhura" };
+  const SCORES: Record<string, number> = { kirk: 100, pike: 92, uhura: 40, spock: 80 };
+
+  /** Fixed owned roster + scores standing in for effect-evaluator data. */
+  function fakeSubstitutes(owned = ["kirk", "pike", "spock", "uhura"]): SubstitutionSource {
+    return {
+      ownedOfficerIds: owned,
+      scoreOfficer: (id) => SCORES[id] ?? 0,
+      officerName: (id) => NAMES[id] ?? id,
+    };
+  }
+
+  beforeEach(async () => {
+    await cleanDatabase(pool);
+    refStore = await createReferenceStore(pool);
+    store = await createCrewStore(pool);
+    await seedShip(refStore, "vidar", "Vi'Dar", "Explorer");
+    await seedShip(refStore, "kumari", "Kumari", "Interceptor");
+    for (const [id, name] of Object.entries(NAMES)) await seedOfficer(refStore, id, name);
+    await pool.query(
+      `INSERT INTO intent_catalog (key, label, category) VALUES ('mining-gas', 'Gas Mining', 'mining')`,
+    );
+  });
+
+  /** Two items both captained by Kirk; the second is a gas miner. */
+  async function seedKirkClash() {
+    const loA = await seedLoadout(store, { shipId: "vidar", name: "A", officers: ["kirk"] });
+    const loB = await seedLoadout(store, { shipId: "kumari", name: "B", officers: ["kirk", "spock"] });
+    await store.upsertDock(1, { label: "D1" });
+    await store.upsertDock(2, { label: "D2" });
+    await store.createPlanItem({ loadoutId: loA.id, label: "Grind", priority: 1 });
+    await store.createPlanItem({ loadoutId: loB.id, label: "Mine Gas", intentKey: "mining-gas", priority: 2 });
+    return { loA, loB };
+  }
+
+  it("falls back to a conflict-free loadout variant", async () => {
+    const { loB } = await seedKirkClash();
+    const variant = await store.createVariant(loB.id, "Uhura Captain", { bridge: { captain: "uhura" } });
+
+    const result = await solvePlan(store);
+    const mine = result.assignments[1];
+    expect(mine.action).toBe("assigned");
+    expect(mine.dockNumber).toBe(2);
+    expect(mine.crewChange).toMatchObject({ kind: "variant", variantId: variant.id, variantName: "Uhura Captain" });
+    expect(mine.explanation).toContain('using variant "Uhura Captain"');
+    expect(result.warnings).toHaveLength(0);
+  });
+
+  it("substitutes the best owned officer and reports the score cost", async () => {
+    await seedKirkClash();
+
+    const result = await solvePlan(store, { substitutes: fakeSubstitutes() });
+    const mine = result.assignments[1];
+    expect(mine.action).toBe("assigned");
+    expect(mine.crewChange?.kind).toBe("substitution");
+    expect(mine.crewChange?.substitutions).toEqual([
+      { slot: "captain", fromOfficerId: "kirk", fromOfficerName: "Kirk", toOfficerId: "pike", toOfficerName: "Pike" },
+    ]);
+    // (92 + 80) vs (100 + 80) → −4%
+    expect(mine.crewChange?.scoreDeltaPct).toBe(-4);
+    expect(mine.explanation).toContain("with substitution: Kirk → Pike (−4% mining score)");
+  });
+
+  it("prefers variants over substitution", async () => {
+    const { loB } = await seedKirkClash();
+    await store.createVariant(loB.id, "Uhura Captain", { bridge: { captain: "uhura" } });
+
+    const result = await solvePlan(store, { substitutes: fakeSubstitutes() });
+    expect(result.assignments[1].crewChange?.kind).toBe("variant");
+    expect(result.assignments[1].crewChange?.scoreDeltaPct).toBe(-33);
+  });
+
+  it("keeps the conflict when no owned officer is free", async () => {
+    await seedKirkClash();
+
+    const result = await solvePlan(store, { substitutes: fakeSubstitutes(["kirk", "spock"]) });
+    const mine = result.assignments[1];
+    expect(mine.action).toBe("conflict");
+    expect(mine.explanation).toContain("No conflict-free variant or owned substitute");
+  });
+
+  it("skips officers under a hard-locked reservation when substituting", async () => {
+    await seedKirkClash();
+    await store.setReservation("pike", "Armada", true);
+
+    const result = await solvePlan(store, { substitutes: fakeSubstitutes() });
+    expect(result.assignments[1].crewChange?.substitutions[0].toOfficerId).toBe("uhura");
+  });
+
+  it("apply persists substitutions as a variant on the plan item", async () => {
+    const { loB } = await seedKirkClash();
+
+    const result = await solvePlan(store, { apply: true, substitutes: fakeSubstitutes() });
+    const change = result.assignments[1].crewChange!;
+    expect(change.variantId).not.toBeNull();
+    expect(change.variantName).toBe("Solver: Kirk → Pike");
+
+    const variants = await store.listVariants(loB.id);
+    expect(variants).toHaveLength(1);
+    expect(variants[0].patch).toEqual({ bridge: { captain: "pike" } });
+
+    const item = (await store.listPlanItems()).find(p => p.label === "Mine Gas")!;
+    expect(item.variantId).toBe(change.variantId);
+    expect(item.dockNumber).toBe(2);
+    expect(result.conflicts).toHaveLength(0);
+
+    // Re-solving sees the variant crew and needs no further change
+    const again = await solvePlan(store, { substitutes: fakeSubstitutes() });
+    expect(again.assignments[1].action).toBe("unchanged");
+  });
+
+  it("optimal mode substitutes instead of deferring", async () => {
+    await seedKirkClash();
+
+    const result = await solvePlan(store, { mode: "optimal", substitutes: fakeSubstitutes() });
+    expect(result.assignments.map(a => a.action)).toEqual(["assigned", "assigned"]);
+    expect(result.assignments[1].crewChange?.kind).toBe("substitution");
+    expect(result.coverage.achieved).toBe(result.coverage.possible);
+  });
 });
@@ -0,0 +1,89 @@
+/**
+ * plan-windows.test.ts — Time window helpers for plan items (ADR-025)
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  parsePlanWindow,
+  isWindowError,
+  isWindowOpen,
+  windowIntervals,
+  describeWindow,
+} from "../src/server/services/plan-windows.js";
+
+const at = (iso: string) => new Date(iso);
+
+describe("parsePlanWindow", () => {
+  it("accepts null as no window", () => {
+    expect(parsePlanWindow(null)).toBeNull();
+  });
+
+  it("normalizes once windows to ISO timestamps", () => {
+    expect(parsePlanWindow({ kind: "once", start: "2026-03-01T10:00Z", end: "2026-03-01T12:00Z" })).toEqual({
+      kind: "once", start: "2026-03-01T10:00:00.000Z", end: "2026-03-01T12:00:00.000Z",
+    });
+  });
+
+  it("rejects malformed windows", () => {
+    for (const bad of [
+      "daily",
+      { kind: "weekly", start: "10:00", end: "12:00" },
+      { kind: "daily", start: "25:00", end: "12:00" },
+      { kind: "daily", start: "10:00" },
+      { kind: "once", start: "nope", end: "2026-03-01T12:00Z" },
+      { kind: "once", start: "2026-03-01T12:00Z", end: "2026-03-01T10:00Z" },
+    ]) {
+      const result = parsePlanWindow(bad);
+      expect(isWindowError(result), JSON.stringify(bad)).toBe(true);
+    }
+  });
+});
+
+describe("isWindowOpen", () => {
+  it("treats a null window as always open", () => {
+    expect(isWindowOpen(null, at("2026-03-01T03:00Z"))).toBe(true);
+  });
+
+  it("handles same-day and overnight daily windows", () => {
+    const day = { kind: "daily" as const, start: "08:00", end: "12:00" };
+    expect(isWindowOpen(day, at("2026-03-01T08:00Z"))).toBe(true);
+    expect(isWindowOpen(day, at("2026-03-01T12:00Z"))).toBe(false);
+
+    const night = { kind: "daily" as const, start: "22:00", end: "06:00" };
+    expect(isWindowOpen(night, at("2026-03-01T23:30Z"))).toBe(true);
+    expect(isWindowOpen(night, at("2026-03-01T05:59Z"))).toBe(true);
+    expect(isWindowOpen(night, at("2026-03-01T12:00Z"))).toBe(false);
+  });
+
+  it("checks once windows as half-open intervals", () => {
+    const once = { kind: "once" as const, start: "2026-03-01T10:00:00.000Z", end: "2026-03-01T12:00:00.000Z" };
+    expect(isWindowOpen(once, at("2026-03-01T10:00Z"))).toBe(true);
+    expect(isWindowOpen(once, at("2026-03-01T12:00Z"))).toBe(false);
+  });
+});
+
+describe("windowIntervals", () => {
+  it("includes an overnight occurrence that began the previous day", () => {
+    const night = { kind: "daily" as const, start: "22:00", end: "06:00" };
+    const intervals = windowIntervals(night, at("2026-03-01T00:00Z"), at("2026-03-02T00:00Z"));
+    expect(intervals.map((iv) => [iv.start.toISOString(), iv.end.toISOString()])).toEqual([
+      ["2026-03-01T00:00:00.000Z", "2026-03-01T06:00:00.000Z"],
+      ["2026-03-01T22:00:00.000Z", "2026-03-02T00:00:00.000Z"],
+    ]);
+  });
+
+  it("clips once windows to the horizon and drops those outside it", () => {
+    const once = { kind: "once" as const, start: "2026-03-01T20:00:00.000Z", end: "2026-03-02T04:00:00.000Z" };
+    const from = at("2026-03-01T00:00Z");
+    expect(windowIntervals(once, from, at("2026-03-02T00:00Z"))).toEqual([
+      { start: at("2026-03-01T20:00Z"), end: at("2026-03-02T00:00Z") },
+    ]);
+    expect(windowIntervals(once, from, at("2026-03-01T12:00Z"))).toEqual([]);
+  });
+});
+
+describe("describeWindow", () => {
+  it("labels daily windows in UTC", () => {
+    expect(describeWindow({ kind: "daily", start: "22:00", end: "06:00" })).toBe("daily 22:00–06:00 UTC");
+  });
+});
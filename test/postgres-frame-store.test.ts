@@ -2,7 +2,7 @@
  * postgres-frame-store.test.ts — PostgresFrameStore Integration Tests (ADR-021, #36)
  *
  * Covers CRUD, FTS, pagination, RLS isolation, updateFrame, purgeSuperseded,
- * and edge cases against a real PostgreSQL instance (docker-compose).
+ * stored embeddings (semantic recall) and edge cases against a real PostgreSQL instance (docker-compose).
  *
  * RLS caveat: The docker-compose `majel` user is a superuser (PostgreSQL skips
  * RLS for superusers, even with FORCE ROW LEVEL SECURITY). Tests create a
@@ -13,8 +13,10 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
 import {
   createFrameStoreFactory,
+  listUsersMissingEmbeddings,
   FrameStoreFactory,
 } from "../src/server/stores/postgres-frame-store.js";
+import type { VectorFrameStore } from "../src/server/services/semantic-recall.js";
 import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
 import { createPool } from "../src/server/db.js";
 import type { Frame, FrameStore } from "@smartergpt/lex/store";
@@ -922,6 +924,87 @@ describe("PostgresFrameStore — purgeSuperseded", () => {
   });
 });
 
+// ─── Semantic Recall ────────────────────────────────────────────
+
+describe("PostgresFrameStore — embeddings", () => {
+  let vectors: VectorFrameStore;
+
+  beforeEach(async () => {
+    await cleanDatabase(adminPool);
+    await createFrameStoreFactory(adminPool);
+    await ensureAppRole(adminPool);
+    factory = new FrameStoreFactory(appPool);
+    vectors = factory.forUser(USER_A);
+    frameCounter = 0;
+  });
+
+  it("ranks embedded frames by cosine similarity for one model", async () => {
+    const near = makeFrame({ timestamp: "2026-01-01T00:00:00.000Z" });
+    const far = makeFrame({ timestamp: "2026-01-02T00:00:00.000Z" });
+    const otherModel = makeFrame();
+    await vectors.saveFrames([near, far, otherModel]);
+    expect(await vectors.saveEmbedding(near.id, "m1", [1, 0.1])).toBe(true);
+    await vectors.saveEmbedding(far.id, "m1", [0, 1]);
+    await vectors.saveEmbedding(otherModel.id, "m2", [1, 0]);
+
+    const hits = await vectors.findSimilar([1, 0], "m1", 5);
+    expect(hits.map((h) => h.frame.id)).toEqual([near.id, far.id]);
+    expect(hits[0].score).toBeCloseTo(0.995, 3);
+    expect(hits[1].score).toBe(0);
+    expect(hits[0].frame.summary_caption).toBe(near.summary_caption);
+  });
+
+  it("only compares the most recent candidates", async () => {
+    const older = makeFrame({ timestamp: "2026-01-01T00:00:00.000Z" });
+    const newer = makeFrame({ timestamp: "2026-01-02T00:00:00.000Z" });
+    await vectors.saveFrames([older, newer]);
+    await vectors.saveEmbedding(older.id, "m1", [1, 0]);
+    await vectors.saveEmbedding(newer.id, "m1", [0, 1]);
+
+    const hits = await vectors.findSimilar([1, 0], "m1", 5, 1);
+    expect(hits.map((h) => h.frame.id)).toEqual([newer.id]);
+  });
+
+  it("lists frames missing a vector from the current model", async () => {
+    const embedded = makeFrame();
+    const stale = makeFrame();
+    const missing = makeFrame();
+    await vectors.saveFrames([embedded, stale, missing]);
+    await vectors.saveEmbedding(embedded.id, "m2", [1]);
+    await vectors.saveEmbedding(stale.id, "m1", [1]);
+
+    const todo = await vectors.listFramesWithoutEmbedding("m2", 10);
+    expect(todo.map((f) => f.id).sort()).toEqual([stale.id, missing.id].sort());
+    expect(await listUsersMissingEmbeddings(adminPool, "m2")).toEqual([USER_A]);
+
+    await vectors.saveEmbedding(stale.id, "m2", [1]);
+    await vectors.saveEmbedding(missing.id, "m2", [1]);
+    expect(await listUsersMissingEmbeddings(adminPool, "m2")).toEqual([]);
+  });
+
+  it("ranks keyword matches on any term, best first", async () => {
+    const both = makeFrame({ summary_caption: "Helvia on the Envoy for mining" });
+    const one = makeFrame({ summary_caption: "Envoy refit plan" });
+    await vectors.saveFrames([both, makeFrame({ summary_caption: "Kirk Spock McCoy" }), one]);
+
+    const hits = await vectors.searchFramesRanked("Envoy, mining?", 10);
+    expect(hits.map((h) => h.frame.id)).toEqual([both.id, one.id]);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+    expect(await vectors.searchFramesRanked("?!", 10)).toEqual([]);
+  });
+
+  it("does not embed or find another user's frames", async () => {
+    const frame = makeFrame();
+    await vectors.saveFrame(frame);
+    await vectors.saveEmbedding(frame.id, "m1", [1, 0]);
+
+    const bob = factory.forUser(USER_B);
+    expect(await bob.saveEmbedding(frame.id, "m1", [0, 1])).toBe(false);
+    expect(await bob.findSimilar([1, 0], "m1", 5)).toEqual([]);
+    expect(await bob.listFramesWithoutEmbedding("m2", 5)).toEqual([]);
+  });
+});
+
 // ─── Edge Cases ─────────────────────────────────────────────────
 
 describe("PostgresFrameStore — Edge Cases", () => {
@@ -10,6 +10,11 @@
  * SKIPPED automatically when GEMINI_API_KEY is not set.
  * Run with: npm run test:layer-b
  *
+ * With MAJEL_RECORD_FIXTURES=1 (npm run test:layer-b:record) each scenario
+ * runs through the record-and-replay engine instead and its trajectory is
+ * saved to fixtures/<scenario>.json, which replay.test.ts then replays
+ * deterministically in the standard suite.
+ *
  * These tests are intentionally not in the standard ax CI pipeline —
  * full CI gate integration is E6. The purpose here is developer-run
  * smoke testing after prompt changes.
@@ -20,19 +25,38 @@
  * - A new scenario is added each time a real hallucination class is found
  */
 
-import { describe, it, expect } from "vitest";
-import { assertScenario } from "./harness.js";
-import { runScenario } from "./runner.js";
+import { describe, it, expect, vi } from "vitest";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { saveReplayFixture } from "../../src/server/services/replay/index.js";
+import { assertScenario, type FixtureResponse, type Scenario } from "./harness.js";
+import { recordScenario, runScenario } from "./runner.js";
 import { scenarioList } from "./scenarios.js";
 
+// Recording runs the production tool loop — answer tool calls with stub data.
+vi.mock("../../src/server/services/fleet-tools/index.js", async (importOriginal) => {
+  const original = await importOriginal<typeof import("../../src/server/services/fleet-tools/index.js")>();
+  const { mockDispatch } = await import("./mock-dispatch.js");
+  return { ...original, executeFleetTool: async (name: string, args: Record<string, unknown>) => mockDispatch(name, args) };
+});
+
 const apiKey = process.env.GEMINI_API_KEY ?? "";
+const recording = process.env.MAJEL_RECORD_FIXTURES === "1";
+const FIXTURE_DIR = join(dirname(fileURLToPath(import.meta.url)), "fixtures");
+
+async function run(scenario: Scenario): Promise<FixtureResponse> {
+  if (!recording) return runScenario(scenario, apiKey);
+  const { response, fixture } = await recordScenario(scenario, apiKey);
+  await saveReplayFixture(join(FIXTURE_DIR, `${scenario.name}.json`), fixture);
+  return response;
+}
 
 describe.skipIf(!apiKey)("Layer B — real Gemini smoke tests", () => {
   for (const scenario of scenarioList) {
     it(
       `[${scenario.name}] ${scenario.userMessage}`,
       async () => {
-        const fixture = await runScenario(scenario, apiKey);
+        const fixture = await run(scenario);
         const result = assertScenario(scenario, fixture);
 
         if (!result.passed) {
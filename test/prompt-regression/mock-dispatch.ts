@@ -0,0 +1,119 @@
+/**
+ * test/prompt-regression/mock-dispatch.ts
+ *
+ * Stub tool results shared by the Layer B runner, fixture recording and
+ * fixture replay. Kept free of imports so it can back a vi.mock factory
+ * for fleet-tools without a circular import.
+ */
+
+/**
+ * Return plausible stub data for any tool call so the model can complete
+ * its reasoning chain rather than stopping on empty results.
+ *
+ * For research queries specifically, the stub includes a `nodeId` so the
+ * model can chain to get_research_path after a search_game_reference call.
+ */
+export function mockDispatch(
+  toolName: string,
+  args: Record<string, unknown>,
+): Record<string, unknown> {
+  const category = args.category as string | undefined;
+
+  switch (toolName) {
+    case "search_game_reference": {
+      if (category === "research") {
+        // Return a stub WITHOUT dependencies so the model must call
+        // get_research_path to discover the prerequisite chain.
+        return {
+          results: [
+            {
+              nodeId: "research_warp_drive_1",
+              name: "Warp Drive Improvement I",
+              tree: "Engineering",
+              maxLevel: 20,
+            },
+          ],
+        };
+      }
+      if (category === "hostile") {
+        return {
+          results: [
+            {
+              id: "hostile_romulan_scout_30",
+              name: "Romulan Scout",
+              level: 30,
+              faction: "Romulan",
+              hullType: "Explorer",
+            },
+          ],
+        };
+      }
+      if (category === "system") {
+        return {
+          results: [
+            {
+              id: "sys_kronos_40",
+              name: "Kronos",
+              level: 40,
+              factions: ["Klingon"],
+              isDeepSpace: false,
+            },
+          ],
+        };
+      }
+      // Default: ship or unknown category
+      return {
+        results: [
+          {
+            id: "ship_saladin_t5",
+            name: "USS Saladin",
+            tier: 5,
+            baseShields: 45000,
+          },
+        ],
+      };
+    }
+
+    case "search_ships":
+      return {
+        results: [
+          {
+            id: "ship_saladin",
+            name: "USS Saladin",
+            hull: "Destroyer",
+            faction: "Federation",
+            maxTier: 10,
+          },
+        ],
+      };
+
+    case "get_game_reference":
+      return {
+        id: args.id ?? "unknown",
+        name: "USS Saladin",
+        tier: 5,
+        baseShields: 45000,
+      };
+
+    case "get_research_path":
+      return {
+        targetNodeId: args.target_node_id ?? "unknown",
+        targetName: "Warp Drive Improvement I",
+        chain: [
+          {
+            nodeId: "research_engineering_basics",
+            name: "Engineering Basics",
+            tree: "Engineering",
+            currentLevel: 2,
+            maxLevel: 5,
+            completed: false,
+            buffs: [],
+          },
+        ],
+        targetCompleted: false,
+      };
+
+    default:
+      return { result: null, message: `Stub: no mock data for ${toolName}` };
+  }
+}
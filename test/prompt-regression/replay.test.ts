@@ -0,0 +1,67 @@
+/**
+ * test/prompt-regression/replay.test.ts
+ *
+ * Replays recorded Layer B trajectories through the record-and-replay engine.
+ *
+ * Each fixtures/<scenario>.json was captured from the real model by
+ * `npm run test:layer-b:record`, or written by hand in the same format
+ * (modelId "hand-written") to pin a known-good trajectory. Replay is strict: if the system prompt's
+ * tool dispatch or the trust gate now hands the model different tool results
+ * than were recorded, the test fails with the JSON path of the difference.
+ * The scenario's routing and hallucination assertions are re-checked against
+ * the tools actually dispatched during replay.
+ *
+ * Fails when the fixtures directory is empty, so a lost fixture set cannot
+ * quietly turn the suite into a no-op.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { existsSync, readdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+vi.mock("../../src/server/services/fleet-tools/index.js", async (importOriginal) => {
+  const original = await importOriginal<typeof import("../../src/server/services/fleet-tools/index.js")>();
+  const { mockDispatch } = await import("./mock-dispatch.js");
+  return {
+    ...original,
+    executeFleetTool: vi.fn(async (name: string, args: Record<string, unknown>) => mockDispatch(name, args)),
+  };
+});
+
+import { executeFleetTool } from "../../src/server/services/fleet-tools/index.js";
+import { createReplayEngine, loadReplayFixture } from "../../src/server/services/replay/index.js";
+import { assertScenario } from "./harness.js";
+import { STUB_TOOL_CONTEXT } from "./runner.js";
+import { scenarios } from "./scenarios.js";
+
+const FIXTURE_DIR = join(dirname(fileURLToPath(import.meta.url)), "fixtures");
+const recorded = existsSync(FIXTURE_DIR)
+  ? readdirSync(FIXTURE_DIR).filter((f) => f.endsWith(".json")).map((f) => f.slice(0, -".json".length))
+  : [];
+
+describe("Layer B replay — recorded trajectories", () => {
+  beforeEach(() => {
+    vi.mocked(executeFleetTool).mockClear();
+  });
+
+  it("has fixtures to replay", () => {
+    expect(recorded, `no fixtures in ${FIXTURE_DIR}`).not.toEqual([]);
+  });
+
+  for (const name of recorded) {
+    it(`[${name}] replays without mismatches`, async () => {
+      const scenario = scenarios[name];
+      expect(scenario, `fixture ${name}.json has no matching scenario`).toBeDefined();
+
+      const fixture = await loadReplayFixture(join(FIXTURE_DIR, `${name}.json`));
+      const engine = createReplayEngine(fixture, { strict: true, toolContextFactory: STUB_TOOL_CONTEXT });
+      const result = await engine.chat(scenario.userMessage, scenario.name);
+
+      const toolCallsMade = vi.mocked(executeFleetTool).mock.calls.map(([tool]) => tool);
+      const assertion = assertScenario(scenario, { toolCallsMade, answerText: result.text });
+      expect(assertion.failures).toEqual([]);
+      expect(engine.mismatches()).toEqual([]);
+    });
+  }
+});
@@ -14,7 +14,14 @@
 import { GoogleGenAI, type Part } from "@google/genai";
 import { FLEET_TOOL_DECLARATIONS } from "../../src/server/services/fleet-tools/index.js";
 import { buildSystemPrompt, SAFETY_SETTINGS } from "../../src/server/services/gemini/system-prompt.js";
+import {
+  createGeminiDriver,
+  createRecordingEngine,
+  type ReplayFixture,
+} from "../../src/server/services/replay/index.js";
+import type { ToolContextFactory } from "../../src/server/services/fleet-tools/index.js";
 import type { Scenario, FixtureResponse } from "./harness.js";
+import { mockDispatch } from "./mock-dispatch.js";
 
 /** Use the cheapest model available — smoke tests, not production quality calls. */
 const LAYER_B_MODEL = "gemini-2.5-flash-lite";
@@ -22,118 +29,6 @@ const LAYER_B_MODEL = "gemini-2.5-flash-lite";
 /** Max tool-call rounds per scenario before forcing a final text response. */
 const MAX_ROUNDS = 4;
 
-/**
- * Return plausible stub data for any tool call so the model can complete
- * its reasoning chain rather than stopping on empty results.
- *
- * For research queries specifically, the stub includes a `nodeId` so the
- * model can chain to get_research_path after a search_game_reference call.
- */
-function mockDispatch(
-  toolName: string,
-  args: Record<string, unknown>,
-): Record<string, unknown> {
-  const category = args.category as string | undefined;
-
-  switch (toolName) {
-    case "search_game_reference": {
-      if (category === "research") {
-        // Return a stub WITHOUT dependencies so the model must call
-        // get_research_path to discover the prerequisite chain.
-        return {
-          results: [
-            {
-              nodeId: "research_warp_drive_1",
-              name: "Warp Drive Improvement I",
-              tree: "Engineering",
-              maxLevel: 20,
-            },
-          ],
-        };
-      }
-      if (category === "hostile") {
-        return {
-          results: [
-            {
-              id: "hostile_romulan_scout_30",
-              name: "Romulan Scout",
-              level: 30,
-              faction: "Romulan",
-              hullType: "Explorer",
-            },
-          ],
-        };
-      }
-      if (category === "system") {
-        return {
-          results: [
-            {
-              id: "sys_kronos_40",
-              name: "Kronos",
-              level: 40,
-              factions: ["Klingon"],
-              isDeepSpace: false,
-            },
-          ],
-        };
-      }
-      // Default: ship or unknown category
-      return {
-        results: [
-          {
-            id: "ship_saladin_t5",
-            name: "USS Saladin",
-            tier: 5,
-            baseShields: 45000,
-          },
-        ],
-      };
-    }
-
-    case "search_ships":
-      return {
-        results: [
-          {
-            id: "ship_saladin",
-            name: "USS Saladin",
-            hull: "Destroyer",
-            faction: "Federation",
-            maxTier: 10,
-          },
-        ],
-      };
-
-    case "get_game_reference":
-      return {
-        id: args.id ?? "unknown",
-        name: "USS Saladin",
-        tier: 5,
-        baseShields: 45000,
-      };
-
-    case "get_research_path":
-      return {
-        targetNodeId: args.target_node_id ?? "unknown",
-        targetName: "Warp Drive Improvement I",
-        chain: [
-          {
-            nodeId: "research_engineering_basics",
-            name: "Engineering Basics",
-            tree: "Engineering",
-            currentLevel: 2,
-            maxLevel: 5,
-            completed: false,
-            buffs: [],
-          },
-        ],
-        targetCompleted: false,
-      };
-
-    default:
-      return { result: null, message: `Stub: no mock data for ${toolName}` };
-  }
-}
-
 /**
  * Run a single scenario against the real Gemini API.
  *
@@ -195,3 +90,37 @@ export async function runScenario(
     answerText: result.text ?? "",
   };
 }
+
+/** Tool context for recording and replay — executeFleetTool is mocked, so deps stay empty. */
+export const STUB_TOOL_CONTEXT: ToolContextFactory = {
+  forUser: (userId: string) => ({ userId, deps: {} }),
+} as ToolContextFactory;
+
+/** Tool names called across every exchange of a recorded fixture. */
+export function toolCallsIn(fixture: ReplayFixture): string[] {
+  return fixture.turns.flatMap((turn) =>
+    turn.exchanges.flatMap((exchange) => exchange.step.functionCalls.map((call) => call.name)),
+  );
+}
+
+/**
+ * Run a scenario through the record-and-replay engine against the real
+ * Gemini API, capturing a replay fixture. Unlike runScenario this goes
+ * through the production tool loop and trust gate, so the caller must mock
+ * executeFleetTool with mockDispatch (see replay.test.ts).
+ */
+export async function recordScenario(
+  scenario: Scenario,
+  apiKey: string,
+): Promise<{ response: FixtureResponse; fixture: ReplayFixture }> {
+  const engine = createRecordingEngine(createGeminiDriver(apiKey, LAYER_B_MODEL), {
+    toolContextFactory: STUB_TOOL_CONTEXT,
+  });
+  try {
+    const result = await engine.chat(scenario.userMessage, scenario.name);
+    const fixture = engine.fixture();
+    return { response: { toolCallsMade: toolCallsIn(fixture), answerText: result.text }, fixture };
+  } finally {
+    engine.close();
+  }
+}
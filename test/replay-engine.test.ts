@@ -0,0 +1,300 @@
+/**
+ * replay-engine.test.ts — Record-and-replay chat engine
+ *
+ * Records trajectories from a scripted in-memory driver, replays them through
+ * the ChatEngine interface, and checks mismatch diagnostics when tool dispatch
+ * or the micro-runner produce different model inputs than recorded.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+vi.mock("../src/server/services/fleet-tools/index.js", async (importOriginal) => {
+  const original = await importOriginal<typeof import("../src/server/services/fleet-tools/index.js")>();
+  return {
+    ...original,
+    executeFleetTool: vi.fn().mockResolvedValue({ officers: ["Kirk", "Spock"] }),
+  };
+});
+
+vi.mock("../src/server/services/fleet-tools/trust.js", () => ({
+  isMutationTool: vi.fn().mockReturnValue(false),
+  getTrustLevel: vi.fn().mockResolvedValue("auto"),
+}));
+
+import {
+  createRecordingEngine,
+  createReplayEngine,
+  loadReplayFixture,
+  parseReplayFixture,
+  saveReplayFixture,
+  ReplayMismatchError,
+  REPLAY_FIXTURE_VERSION,
+  type ModelDriver,
+  type ModelRequest,
+  type ModelStep,
+  type ReplayFixture,
+} from "../src/server/services/replay/index.js";
+import { executeFleetTool } from "../src/server/services/fleet-tools/index.js";
+import { getTrustLevel, isMutationTool } from "../src/server/services/fleet-tools/trust.js";
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+const toolContextFactory = { forUser: vi.fn().mockReturnValue({ userId: "u1", deps: {} }) };
+
+function step(text: string, calls: Array<[string, string, Record<string, unknown>]> = []): ModelStep {
+  return {
+    text,
+    functionCalls: calls.map(([id, name, args]) => ({ id, name, args })),
+    usage: { inputTokens: 100, outputTokens: 20 },
+  };
+}
+
+/** Live driver stand-in that answers from a script and keeps the requests it saw. */
+function scriptedDriver(steps: ModelStep[]): ModelDriver & { requests: ModelRequest[] } {
+  const requests: ModelRequest[] = [];
+  return {
+    modelId: "gemini-2.5-flash-lite",
+    requests,
+    async complete(request) {
+      requests.push(request);
+      const next = steps.shift();
+      if (!next) throw new Error("script exhausted");
+      return next;
+    },
+  };
+}
+
+/** Record one turn: a list_officers call, then a text answer. */
+async function recordToolTurn(): Promise<ReplayFixture> {
+  const live = scriptedDriver([
+    step("", [["call-1", "list_officers", { limit: 2 }]]),
+    step("You have Kirk and Spock."),
+  ]);
+  const recorder = createRecordingEngine(live, { toolContextFactory: toolContextFactory as never });
+  await recorder.chat("Who are my officers?", "s1", undefined, "u1");
+  return recorder.fixture();
+}
+
+/** Micro-runner stand-in: tags the message and rejects the first answer once. */
+function fakeMicroRunner(tag = "[CTX]") {
+  let validations = 0;
+  return {
+    prepare: vi.fn(async (message: string) => ({
+      contract: {},
+      gatedContext: {},
+      augmentedMessage: `${tag} ${message}`,
+    })),
+    validate: vi.fn(async () => {
+      validations++;
+      const pass = validations % 2 === 0;
+      return {
+        receipt: { validationResult: pass ? "pass" : "fail", validationDetails: [] },
+        needsRepair: !pass,
+        repairPrompt: pass ? null : "Cite your sources.",
+      };
+    }),
+    finalize: vi.fn(),
+  };
+}
+
+// ─── Recording ────────────────────────────────────────────────
+
+describe("createRecordingEngine", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("records inputs, function calls, tool results and token counts", async () => {
+    const fixture = await recordToolTurn();
+
+    expect(fixture.version).toBe(REPLAY_FIXTURE_VERSION);
+    expect(fixture.modelId).toBe("gemini-2.5-flash-lite");
+    expect(fixture.turns).toHaveLength(1);
+
+    const [turn] = fixture.turns;
+    expect(turn.message).toBe("Who are my officers?");
+    expect(turn.text).toBe("You have Kirk and Spock.");
+    expect(turn.exchanges).toHaveLength(2);
+    expect(turn.exchanges[0].input).toEqual({ role: "user", text: "Who are my officers?" });
+    expect(turn.exchanges[0].tools).toBe(true);
+    expect(turn.exchanges[0].step.functionCalls).toEqual([{ id: "call-1", name: "list_officers", args: { limit: 2 } }]);
+    expect(turn.exchanges[0].step.usage).toEqual({ inputTokens: 100, outputTokens: 20 });
+    expect(turn.exchanges[1].input).toEqual({
+      role: "tool",
+      results: [{ id: "call-1", name: "list_officers", response: { officers: ["Kirk", "Spock"] } }],
+    });
+  });
+
+  it("stores images as a content hash", async () => {
+    const live = scriptedDriver([step("A starbase.")]);
+    const recorder = createRecordingEngine(live);
+    await recorder.chat("What is this?", "s1", { inlineData: { mimeType: "image/png", data: "aGVsbG8=" } });
+
+    const input = recorder.fixture().turns[0].exchanges[0].input;
+    expect(input).toMatchObject({ role: "user", image: { mimeType: "image/png" } });
+    expect(JSON.stringify(input)).not.toContain("aGVsbG8=");
+    // The live driver still received the real image
+    expect(live.requests[0].transcript[0]).toMatchObject({ image: { inlineData: { data: "aGVsbG8=" } } });
+  });
+});
+
+// ─── Replay ───────────────────────────────────────────────────
+
+describe("createReplayEngine", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(executeFleetTool).mockResolvedValue({ officers: ["Kirk", "Spock"] });
+    vi.mocked(isMutationTool).mockReturnValue(false);
+    vi.mocked(getTrustLevel).mockResolvedValue("auto");
+  });
+
+  it("replays a tool-calling trajectory through the real tool dispatch", async () => {
+    const fixture = await recordToolTurn();
+    vi.mocked(executeFleetTool).mockClear();
+
+    const onTokenUsage = vi.fn();
+    const engine = createReplayEngine(fixture, { strict: true, toolContextFactory: toolContextFactory as never, onTokenUsage });
+    const result = await engine.chat("Who are my officers?", "s1", undefined, "u1");
+
+    expect(result.text).toBe("You have Kirk and Spock.");
+    expect(result.diagnostics).toBeUndefined();
+    expect(engine.mismatches()).toEqual([]);
+    expect(executeFleetTool).toHaveBeenCalledWith("list_officers", { limit: 2 }, expect.anything());
+    expect(onTokenUsage).toHaveBeenNthCalledWith(1, "u1", "gemini-2.5-flash-lite", "tool_call", 100, 20);
+    expect(onTokenUsage).toHaveBeenNthCalledWith(2, "u1", "gemini-2.5-flash-lite", "chat", 100, 20);
+    expect(engine.getHistory("u1:s1")).toEqual([
+      { role: "user", text: "Who are my officers?" },
+      { role: "model", text: "You have Kirk and Spock." },
+    ]);
+  });
+
+  it("reports tool results that differ from the recording with a JSON path", async () => {
+    const fixture = await recordToolTurn();
+    vi.mocked(executeFleetTool).mockResolvedValue({ officers: ["Kirk", "Uhura"] });
+
+    const engine = createReplayEngine(fixture, { toolContextFactory: toolContextFactory as never });
+    const result = await engine.chat("Who are my officers?", "s1", undefined, "u1");
+
+    const mismatches = engine.mismatches();
+    expect(mismatches).toEqual([{
+      kind: "input",
+      turn: 0,
+      exchange: 1,
+      path: "input.results[0].response.officers[1]",
+      expected: "Spock",
+      actual: "Uhura",
+    }]);
+    expect(result.diagnostics).toEqual({ replayMismatches: mismatches });
+    // Non-strict replay still returns the recorded answer
+    expect(result.text).toBe("You have Kirk and Spock.");
+  });
+
+  it("throws ReplayMismatchError in strict mode", async () => {
+    const fixture = await recordToolTurn();
+    vi.mocked(executeFleetTool).mockResolvedValue({ officers: ["Sulu", "Spock"] });
+
+    const engine = createReplayEngine(fixture, { strict: true, toolContextFactory: toolContextFactory as never });
+    const err = await engine.chat("Who are my officers?", "s1", undefined, "u1").catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(ReplayMismatchError);
+    expect((err as ReplayMismatchError).mismatch.path).toBe("input.results[0].response.officers[0]");
+    expect((err as Error).message).toContain("input at turn 0, exchange 1");
+  });
+
+  it("reports a trust-gate change as a tool result mismatch", async () => {
+    const fixture = await recordToolTurn();
+    vi.mocked(executeFleetTool).mockClear();
+    vi.mocked(isMutationTool).mockReturnValue(true);
+    vi.mocked(getTrustLevel).mockResolvedValue("block");
+
+    const engine = createReplayEngine(fixture, { toolContextFactory: toolContextFactory as never });
+    await engine.chat("Who are my officers?", "s1", undefined, "u1");
+
+    const paths = engine.mismatches().map((m) => m.path);
+    expect(paths).toContain("input.results[0].response.blocked");
+    expect(executeFleetTool).not.toHaveBeenCalled();
+  });
+
+  it("replays micro-runner repair exchanges and flags augmented-message drift", async () => {
+    const live = scriptedDriver([step("Khan is great."), step("Khan is great [source: roster].")]);
+    const recorder = createRecordingEngine(live, { microRunner: fakeMicroRunner() as never });
+    const recorded = await recorder.chat("Tell me about Khan");
+    const fixture = recorder.fixture();
+
+    expect(fixture.turns[0].exchanges.map((e) => e.input)).toEqual([
+      { role: "user", text: "[CTX] Tell me about Khan" },
+      { role: "user", text: "Cite your sources." },
+    ]);
+    expect(fixture.turns[0].exchanges[1].tools).toBe(false);
+
+    const same = createReplayEngine(fixture, { strict: true, microRunner: fakeMicroRunner() as never });
+    expect((await same.chat("Tell me about Khan")).text).toBe(recorded.text);
+
+    const drifted = createReplayEngine(fixture, { microRunner: fakeMicroRunner("[GATED]") as never });
+    await drifted.chat("Tell me about Khan");
+    expect(drifted.mismatches()).toEqual([expect.objectContaining({
+      kind: "input",
+      exchange: 0,
+      path: "input.text",
+      expected: "[CTX] Tell me about Khan",
+      actual: "[GATED] Tell me about Khan",
+    })]);
+  });
+
+  it("reports message, exhausted, unused and text mismatches", async () => {
+    const fixture = await recordToolTurn();
+
+    // Model answers without using the tool result → second exchange unused.
+    const shortened: ReplayFixture = {
+      ...fixture,
+      turns: [{ ...fixture.turns[0], exchanges: [fixture.turns[0].exchanges[0]] }],
+    };
+    const engine = createReplayEngine(shortened, { toolContextFactory: toolContextFactory as never });
+    await engine.chat("Who are my crew?", "s1", undefined, "u1");
+    expect(engine.mismatches().map((m) => m.kind)).toEqual(["message", "input", "exhausted", "text"]);
+
+    await engine.chat("And another?", "s1", undefined, "u1");
+    expect(engine.mismatches().at(-2)).toMatchObject({ kind: "exhausted", turn: 1, exchange: null, path: "turns" });
+
+    const untouched = createReplayEngine(fixture);
+    await untouched.chat("Who are my officers?");
+    // Without a tool context the function call is not run: the tool-result exchange goes unused.
+    expect(untouched.mismatches().map((m) => m.kind)).toEqual(["tools", "unused", "text"]);
+  });
+
+  it("rejects model changes", async () => {
+    const engine = createReplayEngine(await recordToolTurn());
+    expect(engine.getModel()).toBe("gemini-2.5-flash-lite");
+    expect(() => engine.setModel("claude-sonnet-4-5")).toThrow("Unknown model");
+  });
+});
+
+// ─── Fixture IO ───────────────────────────────────────────────
+
+describe("replay fixtures", () => {
+  it("round-trips through save and load", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "majel-replay-"));
+    try {
+      const fixture = await recordToolTurn();
+      const path = join(dir, "nested", "officers.json");
+      await saveReplayFixture(path, fixture);
+      expect(await loadReplayFixture(path)).toEqual(fixture);
+
+      await writeFile(path, JSON.stringify({ ...fixture, version: 99 }));
+      await expect(loadReplayFixture(path)).rejects.toThrow("Unsupported replay fixture version: 99");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects malformed fixtures", () => {
+    expect(() => parseReplayFixture([])).toThrow("must be a JSON object");
+    expect(() => parseReplayFixture({ version: 1, turns: [] })).toThrow("missing modelId");
+    expect(() => parseReplayFixture({ version: 1, modelId: "m", turns: [{ message: "hi" }] })).toThrow("turn 0 is malformed");
+    expect(() => parseReplayFixture({
+      version: 1, modelId: "m",
+      turns: [{ message: "hi", text: "", exchanges: [{ tools: true, input: { role: "model" }, step: {} }] }],
+    })).toThrow("turn 0, exchange 0 has an invalid input");
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * research-planner.test.ts — Goal-weighted research queue optimizer
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  matchBuffEffectKey,
+  mergeIntentWeights,
+  planResearch,
+} from "../src/server/services/research-planner.js";
+import type { ResearchCost, ResearchBuff, ResearchNodeRecord } from "../src/server/stores/research-store.js";
+
+function node(
+  nodeId: string,
+  opts: {
+    buffs?: ResearchBuff[];
+    costs?: ResearchCost[];
+    dependencies?: string[];
+    level?: number;
+    maxLevel?: number;
+    completed?: boolean;
+  } = {},
+): ResearchNodeRecord {
+  return {
+    nodeId,
+    tree: "galaxy",
+    name: nodeId,
+    maxLevel: opts.maxLevel ?? 2,
+    dependencies: opts.dependencies ?? [],
+    buffs: opts.buffs ?? [],
+    costs: opts.costs ?? [],
+    level: opts.level ?? 0,
+    completed: opts.completed ?? false,
+    stateUpdatedAt: null,
+    source: "test",
+    capturedAt: "2026-01-01T00:00:00Z",
+    updatedAt: "2026-01-01T00:00:00Z",
+  };
+}
+
+function pct(metric: string, value: number): ResearchBuff {
+  return { kind: "galaxy", metric, value, unit: "percent" };
+}
+
+const MINING_GAS = { mining_rate_gas: 3, mining_rate: 0.75, cargo_capacity: 1 };
+
+describe("matchBuffEffectKey", () => {
+  it("prefers the longest effect key named by the metric", () => {
+    expect(matchBuffEffectKey("ship_mining_rate_gas_pct", MINING_GAS)).toBe("mining_rate_gas");
+    expect(matchBuffEffectKey("mining_rate", MINING_GAS)).toBe("mining_rate");
+  });
+
+  it("applies token aliases", () => {
+    expect(matchBuffEffectKey("mining-speed-gas", MINING_GAS)).toBe("mining_rate_gas");
+    expect(matchBuffEffectKey("Hull HP", { hull_health: 1 })).toBe("hull_health");
+  });
+
+  it("returns null when no key matches on token boundaries", () => {
+    expect(matchBuffEffectKey("warp_range", MINING_GAS)).toBeNull();
+    expect(matchBuffEffectKey("mining_rate_gasket", { mining_rate_gas: 1 })).toBeNull();
+  });
+});
+
+describe("mergeIntentWeights", () => {
+  it("keeps the strongest weight per effect key", () => {
+    expect(mergeIntentWeights([{ a: 1, b: 2 }, { a: 3 }])).toEqual({ a: 3, b: 2 });
+  });
+});
+
+describe("planResearch", () => {
+  it("ranks nodes by goal value per remaining cost", () => {
+    const plan = planResearch({
+      nodes: [
+        node("gas-cheap", { buffs: [pct("mining_rate_gas", 10)], costs: [{ level: 1, resource: "Gas", amount: 100 }] }),
+        node("gas-dear", { buffs: [pct("mining_rate_gas", 10)], costs: [{ level: 1, resource: "Gas", amount: 1000 }] }),
+        node("weapons", { buffs: [pct("weapon_damage", 50)] }),
+      ],
+      weights: MINING_GAS,
+      inventory: new Map(),
+    });
+
+    expect(plan.ranked.map((entry) => entry.nodeId)).toEqual(["gas-cheap", "gas-dear"]);
+    expect(plan.ranked[0].matchedEffects).toEqual([{ metric: "mining_rate_gas", effectKey: "mining_rate_gas", weight: 3 }]);
+    expect(plan.summary.unmatchedMetrics).toEqual(["weapon_damage"]);
+    expect(plan.queue.map((step) => step.nodeId)).toEqual(["gas-cheap", "gas-dear"]);
+  });
+
+  it("counts only unresearched levels toward value and cost", () => {
+    const plan = planResearch({
+      nodes: [
+        node("half", {
+          level: 1,
+          buffs: [pct("cargo_capacity", 20)],
+          costs: [{ level: 1, resource: "Ore", amount: 50 }, { level: 2, resource: "Ore", amount: 80 }],
+        }),
+      ],
+      weights: MINING_GAS,
+      inventory: new Map(),
+    });
+
+    expect(plan.ranked[0].value).toBe(0.1);
+    expect(plan.ranked[0].cost).toEqual([{ resource: "Ore", amount: 80 }]);
+  });
+
+  it("queues unfinished prerequisites ahead of the node they unlock", () => {
+    const plan = planResearch({
+      nodes: [
+        node("root", { completed: true, level: 2 }),
+        node("gate"),
+        node("prize", { dependencies: ["gate", "root"], buffs: [pct("mining_rate_gas", 25)] }),
+      ],
+      weights: MINING_GAS,
+      inventory: new Map(),
+    });
+
+    expect(plan.queue.map((step) => [step.nodeId, step.role, step.unlocks])).toEqual([
+      ["gate", "prerequisite", "prize"],
+      ["prize", "goal", null],
+    ]);
+  });
+
+  it("skips nodes whose prerequisites are missing from the snapshot", () => {
+    const plan = planResearch({
+      nodes: [node("orphan", { dependencies: ["unknown"], buffs: [pct("mining_rate_gas", 25)] })],
+      weights: MINING_GAS,
+      inventory: new Map(),
+    });
+
+    expect(plan.queue).toEqual([]);
+    expect(plan.summary.unreachable).toBe(1);
+  });
+
+  it("tracks cumulative requirements against inventory", () => {
+    const plan = planResearch({
+      nodes: [
+        node("a", { buffs: [pct("mining_rate_gas", 20)], costs: [{ level: 1, resource: "Raw Gas", amount: 300 }] }),
+        node("b", { buffs: [pct("mining_rate_gas", 10)], costs: [{ level: 1, resource: "Raw Gas", amount: 300 }] }),
+      ],
+      weights: MINING_GAS,
+      inventory: new Map([["rawgas", 500]]),
+    });
+
+    expect(plan.queue[0].cumulative).toEqual([{ resource: "Raw Gas", required: 300, available: 500, gap: 0 }]);
+    expect(plan.queue[0].affordable).toBe(true);
+    expect(plan.queue[1].cumulative).toEqual([{ resource: "Raw Gas", required: 600, available: 500, gap: 100 }]);
+    expect(plan.queue[1].affordable).toBe(false);
+    expect(plan.summary.affordableSteps).toBe(1);
+    expect(plan.totals).toEqual(plan.queue[1].cumulative);
+  });
+
+  it("stops at the limit without splitting a chain", () => {
+    const plan = planResearch({
+      nodes: [
+        node("solo", { buffs: [pct("mining_rate_gas", 30)] }),
+        node("gate"),
+        node("locked", { dependencies: ["gate"], buffs: [pct("mining_rate_gas", 20)] }),
+      ],
+      weights: MINING_GAS,
+      inventory: new Map(),
+      limit: 2,
+    });
+
+    expect(plan.queue.map((step) => step.nodeId)).toEqual(["solo"]);
+  });
+});
@@ -32,6 +32,7 @@ function makeSnapshot(): ReplaceResearchSnapshotInput {
         maxLevel: 20,
         dependencies: ["r1"],
         buffs: [{ kind: "combat", metric: "damage", value: 10, unit: "percent" }],
+        costs: [{ level: 6, resource: "Tritanium", amount: 1200 }],
       },
       {
         nodeId: "r3",
@@ -69,6 +70,8 @@ describe("ResearchStore", () => {
     expect(nodes).toHaveLength(3);
     expect(nodes[0].tree).toBe("Galaxy");
     expect(nodes[0].source).toBe("import");
+    expect(nodes.find((node) => node.nodeId === "r2")?.costs).toEqual([{ level: 6, resource: "Tritanium", amount: 1200 }]);
+    expect(nodes.find((node) => node.nodeId === "r1")?.costs).toEqual([]);
   });
 
   it("groups by tree with filters and aggregate totals", async () => {
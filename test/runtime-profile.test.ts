@@ -214,6 +214,15 @@ describe("validateProfile", () => {
     })).toThrow("GEMINI_API_KEY must be set");
   });
 
+  it("accepts a local model server in place of GEMINI_API_KEY", () => {
+    const contract = PROFILE_CONTRACTS.cloud_prod;
+    expect(() => validateProfile("cloud_prod", contract, {
+      DATABASE_URL: "postgres://x@localhost/x",
+      MAJEL_LOCAL_MODEL_URL: "http://localhost:11434/v1",
+      MAJEL_ADMIN_TOKEN: "tok",
+    })).not.toThrow();
+  });
+
   it("fails for cloud_prod without auth tokens", () => {
     const contract = PROFILE_CONTRACTS.cloud_prod;
     expect(() => validateProfile("cloud_prod", contract, {
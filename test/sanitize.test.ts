@@ -103,6 +103,11 @@ describe("sanitizeForModel — directive keyword blocklist", () => {
     expect(sanitizeForModel("[Behavioral Rules]")).toBe("");
   });
 
+  it("strips [fleet decisions] in any case", () => {
+    expect(sanitizeForModel("[fleet decisions]")).toBe("");
+    expect(sanitizeForModel("[End Fleet Decisions]")).toBe("");
+  });
+
   it("strips [progression brief] in any case", () => {
     expect(sanitizeForModel("[progression brief]")).toBe("");
   });
@@ -637,6 +637,16 @@ describe("POST /api/fleet/scan/commit — validation (ADR-008 Phase C)", () => {
     expect(res.body.error.message).toContain("refId");
   });
 
+  it("rejects an over-long instanceId", async () => {
+    const res = await testRequest(app)
+      .post("/api/fleet/scan/commit")
+      .set("Authorization", bearer)
+      .send({ entities: [{ entityType: "ship", refId: "foo", instanceId: "x".repeat(51) }] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.message).toContain("instanceId");
+  });
+
   it("requires authentication", async () => {
     const res = await testRequest(app)
       .post("/api/fleet/scan/commit")
@@ -752,6 +762,25 @@ describe("POST /api/fleet/scan/commit — integration (ADR-008 Phase C)", () =>
     expect(overlay!.ownershipState).toBe("owned");
   });
 
+  it("adds a second copy of a ship with instanceId 'new' (ADR-051)", async () => {
+    await overlayStore.setShipOverlay({ refId: "enterprise", ownershipState: "owned", tier: 8 });
+
+    const res = await testRequest(app)
+      .post("/api/fleet/scan/commit")
+      .send({
+        entities: [
+          { entityType: "ship", refId: "enterprise", instanceId: "new", tier: 4 },
+        ],
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.summary.added).toBe(1);
+
+    const instances = await overlayStore.listShipInstances("enterprise");
+    expect(instances).toHaveLength(2);
+    expect(instances.map((i) => i.tier).sort()).toEqual([4, 8]);
+  });
+
   it("updates existing overlay when committing scan results", async () => {
     // Seed existing overlay
     await overlayStore.setOfficerOverlay({
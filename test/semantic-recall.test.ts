@@ -0,0 +1,179 @@
+/**
+ * semantic-recall.test.ts — Embedders, cosine similarity and hybrid
+ * keyword + vector ranking for Lex memory recall.
+ */
+
+import { afterEach, describe, it, expect, vi } from "vitest";
+import type { Frame } from "@smartergpt/lex/store";
+import {
+  cosineSimilarity,
+  createEmbedder,
+  createHashingEmbedder,
+  isVectorFrameStore,
+  rankHybrid,
+  turnEmbeddingText,
+  EMBEDDING_TEXT_CHARS,
+} from "../src/server/services/semantic-recall.js";
+import { createOpenAiEmbedder } from "../src/server/services/local/embeddings.js";
+
+function frame(id: string, timestamp = "2026-03-01T00:00:00.000Z"): Frame {
+  return {
+    id,
+    timestamp,
+    branch: "majel-chat",
+    module_scope: ["majel/chat"],
+    summary_caption: `frame ${id}`,
+    reference_point: id,
+    status_snapshot: { next_action: "Continue conversation" },
+    keywords: [],
+  } as Frame;
+}
+
+// ─── Similarity ───────────────────────────────────────────────
+
+describe("cosineSimilarity", () => {
+  it("compares direction, not length", () => {
+    expect(cosineSimilarity([1, 0], [3, 0])).toBe(1);
+    expect(cosineSimilarity([1, 0], [0, 2])).toBe(0);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBe(-1);
+  });
+
+  it("returns 0 for empty, zero or mismatched vectors", () => {
+    expect(cosineSimilarity([], [])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+  });
+});
+
+describe("createHashingEmbedder", () => {
+  const embedder = createHashingEmbedder();
+
+  it("produces unit vectors of the configured size", async () => {
+    const [vector] = await embedder.embed(["Helvia on the Envoy"]);
+    expect(vector).toHaveLength(512);
+    expect(Math.hypot(...vector)).toBeCloseTo(1, 6);
+    expect(embedder.id).toBe("hash-512");
+    expect(createHashingEmbedder(64).id).toBe("hash-64");
+  });
+
+  it("matches inflections and near-spellings above the floor, unrelated text below", async () => {
+    const [query, related, misspelt, unrelated] = await embedder.embed([
+      "mining crew for the Envoy",
+      "Helvia crews the Envoy while it mines",
+      "Envoy minning",
+      "Kirk Spock McCoy bridge officers",
+    ]);
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(embedder.minSimilarity);
+    expect(cosineSimilarity(query, misspelt)).toBeGreaterThan(embedder.minSimilarity);
+    expect(cosineSimilarity(query, unrelated)).toBeLessThan(embedder.minSimilarity);
+  });
+
+  it("is deterministic", async () => {
+    const [a, b] = await embedder.embed(["Borg cube loot", "Borg cube loot"]);
+    expect(a).toEqual(b);
+  });
+});
+
+describe("turnEmbeddingText", () => {
+  it("keeps the whole turn up to the cap", () => {
+    expect(turnEmbeddingText("Q", "A")).toBe("Q\nA");
+    expect(turnEmbeddingText("Q", "x".repeat(5000))).toHaveLength(EMBEDDING_TEXT_CHARS);
+  });
+});
+
+// ─── Hybrid Ranking ───────────────────────────────────────────
+
+describe("rankHybrid", () => {
+  it("blends similarity with keyword rank relative to the best match", () => {
+    const hits = rankHybrid(
+      [{ frame: frame("a"), score: 0.9 }, { frame: frame("b"), score: 0.5 }],
+      [{ frame: frame("b"), score: 0.4 }, { frame: frame("c"), score: 0.2 }],
+      10,
+      0.2,
+    );
+    expect(hits.map((h) => [h.frame.id, h.score, h.similarity, h.keywordScore])).toEqual([
+      ["b", 0.675, 0.5, 1],
+      ["a", 0.585, 0.9, 0],
+      ["c", 0.175, null, 0.5],
+    ]);
+  });
+
+  it("drops vector-only matches below the similarity floor", () => {
+    const hits = rankHybrid(
+      [{ frame: frame("noise"), score: 0.1 }, { frame: frame("kept"), score: 0.1 }],
+      [{ frame: frame("kept"), score: 0.3 }],
+      10,
+      0.2,
+    );
+    expect(hits.map((h) => h.frame.id)).toEqual(["kept"]);
+  });
+
+  it("breaks ties by recency and applies the limit", () => {
+    const hits = rankHybrid(
+      [
+        { frame: frame("old", "2026-01-01T00:00:00.000Z"), score: 0.5 },
+        { frame: frame("new", "2026-02-01T00:00:00.000Z"), score: 0.5 },
+        { frame: frame("low"), score: 0.3 },
+      ],
+      [],
+      2,
+      0.2,
+    );
+    expect(hits.map((h) => h.frame.id)).toEqual(["new", "old"]);
+  });
+});
+
+describe("isVectorFrameStore", () => {
+  it("requires all vector methods", () => {
+    const fn = () => undefined;
+    const base = { saveFrame: fn, searchFrames: fn };
+    expect(isVectorFrameStore(base as never)).toBe(false);
+    expect(isVectorFrameStore({ ...base, findSimilar: fn, saveEmbedding: fn } as never)).toBe(false);
+    expect(isVectorFrameStore({
+      ...base, findSimilar: fn, saveEmbedding: fn, searchFramesRanked: fn, listFramesWithoutEmbedding: fn,
+    } as never)).toBe(true);
+  });
+});
+
+// ─── OpenAI-compatible Embedder ───────────────────────────────
+
+describe("createOpenAiEmbedder", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("batches inputs and returns vectors in input order", async () => {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const { input } = JSON.parse(init.body as string) as { input: string[] };
+      const data = input.map((text, index) => ({ index, embedding: [text.length] })).reverse();
+      return new Response(JSON.stringify({ data }), { status: 200 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const embedder = createOpenAiEmbedder("http://localhost:11434/v1/", "nomic-embed-text", "key");
+    const texts = Array.from({ length: 40 }, (_, i) => "x".repeat(i + 1));
+    const vectors = await embedder.embed(texts);
+
+    expect(embedder.id).toBe("openai:nomic-embed-text");
+    expect(vectors).toEqual(texts.map((t) => [t.length]));
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://localhost:11434/v1/embeddings");
+    expect((init.headers as Record<string, string>).Authorization).toBe("Bearer key");
+  });
+
+  it("rejects error responses and short results", async () => {
+    const embedder = createOpenAiEmbedder("http://embed", "m");
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("model not found", { status: 404 })));
+    await expect(embedder.embed(["a"])).rejects.toThrow(/404: model not found/);
+
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ data: [] }), { status: 200 })));
+    await expect(embedder.embed(["a"])).rejects.toThrow(/0 vectors for 1 inputs/);
+  });
+
+  it("is chosen when an embedding model is configured", () => {
+    expect(createEmbedder({ embeddingModel: "", embeddingUrl: "", localModelApiKey: "" }).id).toBe("hash-512");
+    expect(createEmbedder({ embeddingModel: "bge-m3", embeddingUrl: "http://embed", localModelApiKey: "" }).id).toBe("openai:bge-m3");
+    expect(() => createEmbedder({ embeddingModel: "bge-m3", embeddingUrl: "", localModelApiKey: "" })).toThrow(/MAJEL_EMBEDDING_URL/);
+  });
+});
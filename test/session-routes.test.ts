@@ -7,6 +7,8 @@
  *   - Get session by ID (with ownership checks)
  *   - Patch session title (validation, ownership)
  *   - Delete session (ownership)
+ *   - Switch branch (validation, ownership)
+ *   - Export, import and read-only share links
  */
 
 import { describe, it, expect, beforeEach, beforeAll, afterAll } from "vitest";
@@ -258,6 +260,166 @@ describe("Session routes — with live store", () => {
       expect(res.status).toBe(404);
     });
   });
+
+  // ─── Branch ────────────────────────────────────────────────
+
+  describe("POST /api/sessions/:id/branch", () => {
+    it("switches to another branch and returns its messages", async () => {
+      await sessionStore.create("s1", "Forked", "local");
+      const q1 = await sessionStore.addMessage("s1", "user", "Crew for the Enterprise?");
+      await sessionStore.addMessage("s1", "model", "Kirk, Spock, McCoy");
+      const q2 = await sessionStore.addMessage("s1", "user", "PvP crew for the Enterprise?", undefined, undefined, null);
+      await sessionStore.addMessage("s1", "model", "Pike, Number One, Moreau");
+
+      const res = await testRequest(app).post("/api/sessions/s1/branch").send({ messageId: q1.id });
+      expect(res.status).toBe(200);
+      expect(res.body.data.messages.map((m: { text: string }) => m.text)).toEqual(["Crew for the Enterprise?", "Kirk, Spock, McCoy"]);
+      expect(res.body.data.messages[0].branchIds).toEqual([q1.id, q2.id]);
+
+      const get = await testRequest(app).get("/api/sessions/s1");
+      expect(get.body.data.messages[1].text).toBe("Kirk, Spock, McCoy");
+    });
+
+    it("rejects a missing or invalid messageId", async () => {
+      await sessionStore.create("s1", "Forked", "local");
+      expect((await testRequest(app).post("/api/sessions/s1/branch").send({})).status).toBe(400);
+      const res = await testRequest(app).post("/api/sessions/s1/branch").send({ messageId: "1" });
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe("INVALID_PARAM");
+    });
+
+    it("returns 404 for a message outside the session", async () => {
+      await sessionStore.create("s1", "Mine", "local");
+      await sessionStore.create("s2", "Also mine", "local");
+      const elsewhere = await sessionStore.addMessage("s2", "user", "Hello");
+
+      const res = await testRequest(app).post("/api/sessions/s1/branch").send({ messageId: elsewhere.id });
+      expect(res.status).toBe(404);
+    });
+
+    it("returns 404 when switching a session owned by another user", async () => {
+      await sessionStore.create("other-session", "Other", "other-user");
+      const msg = await sessionStore.addMessage("other-session", "user", "secret");
+
+      const res = await testRequest(app).post("/api/sessions/other-session/branch").send({ messageId: msg.id });
+      expect(res.status).toBe(404);
+    });
+  });
+
+  // ─── Export / Import ───────────────────────────────────────
+
+  describe("GET /api/sessions/:id/export", () => {
+    beforeEach(async () => {
+      await sessionStore.create("s1", "Crew advice", "local");
+      const q = await sessionStore.addMessage("s1", "user", "Crew for the Enterprise?");
+      await sessionStore.addMessage("s1", "model", "Kirk, Spock, McCoy", undefined, ["prop-1"], q.id, ["list_officers"]);
+      await sessionStore.addMessage("s1", "user", "PvP crew?", undefined, undefined, null);
+    });
+
+    it("exports the whole tree as versioned JSON", async () => {
+      const res = await testRequest(app).get("/api/sessions/s1/export");
+      expect(res.status).toBe(200);
+      expect(res.body.data.filename).toBe("crew-advice.majel.json");
+      const doc = res.body.data.export;
+      expect(doc).toMatchObject({ format: "majel.session", version: 1, session: { title: "Crew advice" } });
+      expect(doc.messages).toHaveLength(3);
+      expect(doc.messages[1]).toMatchObject({ toolCalls: ["list_officers"], proposalIds: ["prop-1"] });
+      expect(doc.activeMessageId).toBe(doc.messages[2].id);
+    });
+
+    it("exports the active branch as Markdown", async () => {
+      const res = await testRequest(app).get("/api/sessions/s1/export?format=markdown");
+      expect(res.status).toBe(200);
+      expect(res.body.data.filename).toBe("crew-advice.md");
+      expect(res.body.data.markdown).toContain("PvP crew?");
+      expect(res.body.data.markdown).not.toContain("Kirk, Spock, McCoy");
+    });
+
+    it("rejects unknown formats and other users' sessions", async () => {
+      expect((await testRequest(app).get("/api/sessions/s1/export?format=pdf")).status).toBe(400);
+      await sessionStore.create("other-session", "Other", "other-user");
+      expect((await testRequest(app).get("/api/sessions/other-session/export")).status).toBe(404);
+    });
+
+    it("imports an export as a new session owned by the caller", async () => {
+      const exported = await testRequest(app).get("/api/sessions/s1/export");
+      const res = await testRequest(app).post("/api/sessions/import").send(exported.body.data.export);
+      expect(res.status).toBe(201);
+      expect(res.body.data.id).not.toBe("s1");
+      expect(res.body.data.title).toBe("Crew advice");
+      expect(res.body.data.messages.map((m: { text: string }) => m.text)).toEqual(["PvP crew?"]);
+      expect(res.body.data.messages[0].branchIds).toHaveLength(2);
+      expect(await sessionStore.getOwner(res.body.data.id)).toBe("local");
+    });
+
+    it("rejects an invalid import", async () => {
+      const res = await testRequest(app).post("/api/sessions/import").send({ format: "majel.session", version: 9 });
+      expect(res.status).toBe(400);
+      expect(res.body.error.message).toMatch(/Unsupported version/);
+    });
+  });
+
+  // ─── Share Links ───────────────────────────────────────────
+
+  describe("POST /api/sessions/:id/share", () => {
+    it("returns 503 until a share secret is configured", async () => {
+      await sessionStore.create("s1", "Crew advice", "local");
+      const res = await testRequest(app).post("/api/sessions/s1/share").send({});
+      expect(res.status).toBe(503);
+      expect(res.body.error.code).toBe("SHARE_LINKS_NOT_AVAILABLE");
+    });
+
+    describe("with a share secret", () => {
+      beforeEach(() => {
+        app = createApp(makeState({ sessionStore, config: makeConfig({ shareSecret: "share-secret" }) }));
+      });
+
+      it("shares the branch as it stands, read-only and without auth", async () => {
+        await sessionStore.create("s1", "Crew advice", "local");
+        await sessionStore.addMessage("s1", "user", "Crew for the Enterprise?");
+        await sessionStore.addMessage("s1", "model", "Kirk, Spock, McCoy", undefined, undefined, undefined, ["list_officers"]);
+        await sessionStore.addMessage("s1", "error", "Timed out");
+
+        const share = await testRequest(app).post("/api/sessions/s1/share").send({ expiresInHours: 24 });
+        expect(share.status).toBe(200);
+        expect(share.body.data.url).toBe(`/shared/${share.body.data.token}`);
+        expect(share.body.data.messageCount).toBe(3);
+
+        // Later turns are not revealed through the link
+        await sessionStore.addMessage("s1", "user", "Private follow-up");
+
+        const res = await testRequest(app).get(`/api/shared/${share.body.data.token}`);
+        expect(res.status).toBe(200);
+        expect(res.body.data.session.title).toBe("Crew advice");
+        expect(res.body.data.messages).toEqual([
+          expect.objectContaining({ role: "user", text: "Crew for the Enterprise?" }),
+          expect.objectContaining({ role: "model", text: "Kirk, Spock, McCoy", toolCalls: ["list_officers"] }),
+        ]);
+        expect(res.body.data.expiresAt).toBe(share.body.data.expiresAt);
+      });
+
+      it("validates the expiry and requires messages", async () => {
+        await sessionStore.create("s1", "Empty", "local");
+        expect((await testRequest(app).post("/api/sessions/s1/share").send({ expiresInHours: 0 })).status).toBe(400);
+        expect((await testRequest(app).post("/api/sessions/s1/share").send({ expiresInHours: 721 })).status).toBe(400);
+        expect((await testRequest(app).post("/api/sessions/s1/share").send({})).status).toBe(400);
+      });
+
+      it("returns 404 for another user's session, forged tokens and deleted sessions", async () => {
+        await sessionStore.create("other-session", "Other", "other-user");
+        await sessionStore.addMessage("other-session", "user", "secret");
+        expect((await testRequest(app).post("/api/sessions/other-session/share").send({})).status).toBe(404);
+
+        expect((await testRequest(app).get("/api/shared/forged.token")).status).toBe(404);
+
+        await sessionStore.create("s1", "Crew advice", "local");
+        await sessionStore.addMessage("s1", "user", "Hello");
+        const share = await testRequest(app).post("/api/sessions/s1/share").send({});
+        await sessionStore.delete("s1");
+        expect((await testRequest(app).get(`/api/shared/${share.body.data.token}`)).status).toBe(404);
+      });
+    });
+  });
 });
 
 // ═════════════════════════════════════════════════════════════
@@ -0,0 +1,138 @@
+/**
+ * session-transfer.test.ts — Session export (Markdown, "majel.session" JSON),
+ * import validation and signed share tokens.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { ChatMessage, ChatSession } from "../src/server/sessions.js";
+import {
+  buildSessionExport,
+  createShareToken,
+  parseSessionImport,
+  renderSessionMarkdown,
+  verifyShareToken,
+  SessionImportError,
+  MAX_IMPORT_MESSAGES,
+} from "../src/server/services/session-transfer.js";
+
+const SESSION: ChatSession = {
+  id: "s1",
+  title: "Enterprise crew",
+  createdAt: "2026-03-01T10:00:00.000Z",
+  updatedAt: "2026-03-01T10:05:00.000Z",
+};
+
+const MESSAGES: ChatMessage[] = [
+  { id: 3, parentId: null, role: "user", text: "Best PvP crew?", createdAt: "2026-03-01T10:02:00.000Z", branchIds: [1, 3] },
+  { id: 1, parentId: null, role: "user", text: "Best crew?", createdAt: "2026-03-01T10:00:00.000Z" },
+  { id: 2, parentId: 1, role: "model", text: "Kirk, Spock, McCoy", createdAt: "2026-03-01T10:00:05.000Z", toolCalls: ["list_officers"], proposalIds: ["prop-1"] },
+];
+
+const NOW = new Date("2026-03-02T00:00:00.000Z");
+
+// ─── Export ───────────────────────────────────────────────────
+
+describe("buildSessionExport", () => {
+  it("writes the whole tree in id order with tool calls and proposals", () => {
+    const doc = buildSessionExport(SESSION, MESSAGES, 2, NOW);
+    expect(doc).toMatchObject({
+      format: "majel.session",
+      version: 1,
+      exportedAt: NOW.toISOString(),
+      session: { title: "Enterprise crew", createdAt: SESSION.createdAt, updatedAt: SESSION.updatedAt },
+      activeMessageId: 2,
+    });
+    expect(doc.messages.map((m) => m.id)).toEqual([1, 2, 3]);
+    expect(doc.messages[1]).toEqual({
+      id: 2, parentId: 1, role: "model", text: "Kirk, Spock, McCoy", createdAt: "2026-03-01T10:00:05.000Z",
+      proposalIds: ["prop-1"], toolCalls: ["list_officers"],
+    });
+    expect(doc.messages[2]).not.toHaveProperty("branchIds");
+  });
+
+  it("round-trips through parseSessionImport", () => {
+    const doc = buildSessionExport(SESSION, MESSAGES, 2, NOW);
+    expect(parseSessionImport(JSON.parse(JSON.stringify(doc)))).toEqual(doc);
+  });
+});
+
+describe("renderSessionMarkdown", () => {
+  it("renders a branch as a transcript", () => {
+    const markdown = renderSessionMarkdown("Enterprise\ncrew", [MESSAGES[1], MESSAGES[2]], NOW);
+    expect(markdown).toBe([
+      "# Enterprise crew",
+      "",
+      "_Exported from Majel on 2026-03-02T00:00:00.000Z_",
+      "",
+      "## You · 2026-03-01T10:00:00.000Z",
+      "",
+      "Best crew?",
+      "",
+      "## Aria · 2026-03-01T10:00:05.000Z",
+      "",
+      "Kirk, Spock, McCoy",
+      "",
+      "> Tools: `list_officers`",
+      "",
+      "> Proposals: `prop-1`",
+      "",
+    ].join("\n"));
+  });
+});
+
+// ─── Import ───────────────────────────────────────────────────
+
+describe("parseSessionImport", () => {
+  const valid = () => JSON.parse(JSON.stringify(buildSessionExport(SESSION, MESSAGES, 2, NOW))) as Record<string, unknown>;
+
+  function rejects(doc: unknown, message: RegExp) {
+    expect(() => parseSessionImport(doc)).toThrow(SessionImportError);
+    expect(() => parseSessionImport(doc)).toThrow(message);
+  }
+
+  it("rejects other formats and versions", () => {
+    rejects([], /JSON object/);
+    rejects({ ...valid(), format: "chatgpt" }, /format/);
+    rejects({ ...valid(), version: 2 }, /Unsupported version 2/);
+  });
+
+  it("rejects malformed messages", () => {
+    const doc = valid();
+    const messages = doc.messages as Array<Record<string, unknown>>;
+    rejects({ ...doc, messages: [{ ...messages[0], role: "tool" }] }, /messages\[0\]\.role/);
+    rejects({ ...doc, messages: [messages[0], { ...messages[1], parentId: 99 }] }, /messages\[1\]\.parentId/);
+    rejects({ ...doc, messages: [messages[1], messages[0]] }, /messages\[0\]\.parentId/);
+    rejects({ ...doc, messages: [messages[0], { ...messages[2], id: 1 }] }, /messages\[1\]\.id/);
+    rejects({ ...doc, messages: [{ ...messages[0], createdAt: "yesterday" }] }, /createdAt/);
+    rejects({ ...doc, messages: [{ ...messages[0], toolCalls: [42] }] }, /toolCalls/);
+    rejects({ ...doc, messages: new Array(MAX_IMPORT_MESSAGES + 1).fill(messages[0]) }, /At most/);
+  });
+
+  it("requires the active message to be imported", () => {
+    rejects({ ...valid(), activeMessageId: 42 }, /activeMessageId/);
+    expect(parseSessionImport({ ...valid(), activeMessageId: undefined }).activeMessageId).toBeNull();
+  });
+});
+
+// ─── Share Tokens ─────────────────────────────────────────────
+
+describe("share tokens", () => {
+  const SECRET = "share-secret";
+  const claims = { sessionId: "s1", messageId: 2, expiresAt: new Date("2026-03-05T00:00:00.000Z") };
+
+  it("verifies its own tokens until they expire", () => {
+    const token = createShareToken(claims, SECRET);
+    expect(verifyShareToken(token, SECRET, NOW)).toEqual(claims);
+    expect(verifyShareToken(token, SECRET, claims.expiresAt)).toBeNull();
+  });
+
+  it("rejects tampered tokens and other secrets", () => {
+    const token = createShareToken(claims, SECRET);
+    const [, signature] = token.split(".");
+    const forged = `${Buffer.from(JSON.stringify({ s: "s2", m: 2, e: 1_900_000_000 })).toString("base64url")}.${signature}`;
+    expect(verifyShareToken(forged, SECRET, NOW)).toBeNull();
+    expect(verifyShareToken(token, "other-secret", NOW)).toBeNull();
+    expect(verifyShareToken(token, "", NOW)).toBeNull();
+    expect(verifyShareToken("not-a-token", SECRET, NOW)).toBeNull();
+  });
+});
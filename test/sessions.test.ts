@@ -7,6 +7,9 @@ import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
 import {
   createSessionStore,
   generateTimestampTitle,
+  latestLeafUnder,
+  resolveBranch,
+  type ChatMessage,
   type SessionStore,
 } from "../src/server/sessions.js";
 
@@ -23,6 +26,33 @@ describe("generateTimestampTitle", () => {
   });
 });
 
+function msg(id: number, parentId: number | null, role: ChatMessage["role"] = "user"): ChatMessage {
+  return { id, parentId, role, text: `m${id}`, createdAt: "2026-02-08T12:00:00.000Z" };
+}
+
+describe("resolveBranch", () => {
+  // 1 → 2 → 3, with 4 editing 1 and 5 answering 4
+  const tree = [msg(1, null), msg(2, 1, "model"), msg(3, 2), msg(4, null), msg(5, 4, "model")];
+
+  it("walks from the leaf to the root and marks forks", () => {
+    expect(resolveBranch(tree, 3).map((m) => [m.id, m.branchIds])).toEqual([
+      [1, [1, 4]], [2, undefined], [3, undefined],
+    ]);
+  });
+
+  it("defaults to the newest message", () => {
+    expect(resolveBranch(tree).map((m) => m.id)).toEqual([4, 5]);
+    expect(resolveBranch(tree, 99).map((m) => m.id)).toEqual([4, 5]);
+    expect(resolveBranch([])).toEqual([]);
+  });
+
+  it("finds the newest leaf under a message", () => {
+    expect(latestLeafUnder(tree, 1)).toBe(3);
+    expect(latestLeafUnder(tree, 4)).toBe(5);
+    expect(latestLeafUnder(tree, 3)).toBe(3);
+  });
+});
+
 let pool: Pool;
 
 describe("SessionStore", () => {
@@ -159,4 +189,130 @@ describe("SessionStore", () => {
 
     expect(after >= before).toBe(true);
   });
+
+  // ─── Branching ────────────────────────────────────────────
+
+  it("chains appended messages and reports their parents", async () => {
+    const user = await store.addMessage("s1", "user", "Hello");
+    const model = await store.addMessage("s1", "model", "Hi");
+    expect(user.parentId).toBeNull();
+    expect(model.parentId).toBe(user.id);
+    expect(await store.getMessage("s1", model.id)).toMatchObject({ id: model.id, role: "model", parentId: user.id });
+    expect(await store.getMessage("other", model.id)).toBeNull();
+    expect((await store.getMessage("s1", model.id))!.createdAt).toBe(model.createdAt);
+  });
+
+  it("keeps the original thread when a message is edited", async () => {
+    const q1 = await store.addMessage("s1", "user", "Best crew for Enterprise?");
+    const a1 = await store.addMessage("s1", "model", "Kirk, Spock, McCoy");
+    await store.addMessage("s1", "user", "And for mining?");
+    await store.addMessage("s1", "model", "Use the Botany Bay");
+
+    const edited = await store.addMessage("s1", "user", "Best PvP crew for Enterprise?", undefined, undefined, q1.parentId);
+    const a2 = await store.addMessage("s1", "model", "Pike, Number One, Moreau");
+
+    const session = await store.get("s1");
+    expect(session!.messages.map((m) => m.text)).toEqual(["Best PvP crew for Enterprise?", "Pike, Number One, Moreau"]);
+    expect(session!.messages[0].branchIds).toEqual([q1.id, edited.id]);
+    expect(a2.parentId).toBe(edited.id);
+
+    const original = await store.getBranch("s1", a1.id);
+    expect(original.map((m) => m.text)).toEqual(["Best crew for Enterprise?", "Kirk, Spock, McCoy"]);
+  });
+
+  it("adds regenerated replies as siblings", async () => {
+    const q = await store.addMessage("s1", "user", "Hello");
+    const first = await store.addMessage("s1", "model", "Hi");
+    const second = await store.addMessage("s1", "model", "Greetings", undefined, undefined, q.id);
+
+    const branch = await store.getBranch("s1");
+    expect(branch.map((m) => m.id)).toEqual([q.id, second.id]);
+    expect(branch[1].branchIds).toEqual([first.id, second.id]);
+  });
+
+  it("switches to the newest leaf of the selected branch", async () => {
+    const q1 = await store.addMessage("s1", "user", "Q1");
+    await store.addMessage("s1", "model", "A1");
+    const q2 = await store.addMessage("s1", "user", "Q2");
+    const a2 = await store.addMessage("s1", "model", "A2");
+    await store.addMessage("s1", "user", "Q1 edited", undefined, undefined, null);
+
+    expect(await store.selectBranch("s1", q1.id)).toBe(true);
+    expect((await store.get("s1"))!.messages.map((m) => m.id).slice(-2)).toEqual([q2.id, a2.id]);
+
+    // New messages continue the selected branch
+    const q3 = await store.addMessage("s1", "user", "Q3");
+    expect(q3.parentId).toBe(a2.id);
+
+    expect(await store.selectBranch("s1", 999_999)).toBe(false);
+    expect(await store.selectBranch("other", q1.id)).toBe(false);
+  });
+
+  it("chains messages stored before branching existed", async () => {
+    await cleanDatabase(pool);
+    await pool.query(`CREATE TABLE sessions (id TEXT PRIMARY KEY, title TEXT NOT NULL, created_at TIMESTAMPTZ NOT NULL, updated_at TIMESTAMPTZ NOT NULL)`);
+    await pool.query(`CREATE TABLE messages (id SERIAL PRIMARY KEY, session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE, role TEXT NOT NULL, text TEXT NOT NULL, created_at TIMESTAMPTZ NOT NULL)`);
+    await pool.query(`INSERT INTO sessions VALUES ('old', 'Old', now(), now())`);
+    for (const [role, text] of [["user", "Q1"], ["model", "A1"], ["user", "Q2"]]) {
+      await pool.query(`INSERT INTO messages (session_id, role, text, created_at) VALUES ('old', $1, $2, now())`, [role, text]);
+    }
+
+    const migrated = await createSessionStore(pool);
+    const session = await migrated.get("old");
+    expect(session!.messages.map((m) => m.text)).toEqual(["Q1", "A1", "Q2"]);
+    expect(session!.messages.map((m) => m.parentId)).toEqual([null, session!.messages[0].id, session!.messages[1].id]);
+
+    // Re-running the schema leaves branches alone
+    const edit = await migrated.addMessage("old", "user", "Q1 edited", undefined, undefined, null);
+    await createSessionStore(pool);
+    expect((await migrated.getMessage("old", edit.id))!.parentId).toBeNull();
+  });
+
+  it("stores the tool calls behind a reply", async () => {
+    const q = await store.addMessage("s1", "user", "Fleet status?");
+    const a = await store.addMessage("s1", "model", "All docked", undefined, undefined, q.id, ["list_docks", "get_fleet"]);
+    expect(a.toolCalls).toEqual(["list_docks", "get_fleet"]);
+    expect((await store.getMessage("s1", a.id))!.toolCalls).toEqual(["list_docks", "get_fleet"]);
+    expect((await store.getMessage("s1", q.id))!.toolCalls).toBeUndefined();
+  });
+
+  it("returns every branch with the active leaf", async () => {
+    const q1 = await store.addMessage("s1", "user", "Q1");
+    const a1 = await store.addMessage("s1", "model", "A1");
+    const edit = await store.addMessage("s1", "user", "Q1 edited", undefined, undefined, null);
+    await store.selectBranch("s1", q1.id);
+
+    const tree = await store.getTree("s1");
+    expect(tree.messages.map((m) => m.id)).toEqual([q1.id, a1.id, edit.id]);
+    expect(tree.activeMessageId).toBe(a1.id);
+    expect(await store.getTree("missing")).toEqual({ messages: [], activeMessageId: null });
+  });
+
+  it("imports a message tree under new ids", async () => {
+    const session = await store.importSession("copy", "Imported", "user-a", [
+      { id: 10, parentId: null, role: "user", text: "Q1", createdAt: "2026-01-01T00:00:00.000Z" },
+      { id: 11, parentId: 10, role: "model", text: "A1", createdAt: "2026-01-01T00:00:01.000Z", toolCalls: ["get_fleet"], proposalIds: ["p-1"] },
+      { id: 12, parentId: null, role: "user", text: "Q1 edited", createdAt: "2026-01-01T00:01:00.000Z" },
+    ], 11);
+
+    expect(session.title).toBe("Imported");
+    expect(await store.getOwner("copy")).toBe("user-a");
+    expect(session.messages.map((m) => m.text)).toEqual(["Q1", "A1"]);
+    expect(session.messages[0].branchIds).toHaveLength(2);
+    expect(session.messages[1]).toMatchObject({ parentId: session.messages[0].id, toolCalls: ["get_fleet"], proposalIds: ["p-1"] });
+    expect(session.messages[0].createdAt).toBe("2026-01-01T00:00:00.000Z");
+
+    // New turns continue the imported active branch
+    const next = await store.addMessage("copy", "user", "Q2");
+    expect(next.parentId).toBe(session.messages[1].id);
+  });
+
+  it("imports nothing when a parent is missing", async () => {
+    await expect(store.importSession("broken", "Broken", undefined, [
+      { id: 1, parentId: null, role: "user", text: "Q1", createdAt: "2026-01-01T00:00:00.000Z" },
+      { id: 2, parentId: 7, role: "model", text: "A1", createdAt: "2026-01-01T00:00:01.000Z" },
+    ], null)).rejects.toThrow(/unknown parent/);
+    expect(await store.getOwner("broken")).toBeNull();
+    expect(await store.get("broken")).toBeNull();
+  });
 });
@@ -0,0 +1,150 @@
+/**
+ * target-budget.test.ts — Material budgeting across active targets (#18 Phase 2)
+ *
+ * Covers:
+ * - Per-resource totals, shortfalls and days of income to cover them
+ * - Starvation: a later target short of what inventory could cover alone
+ * - Alternative orderings and the recommended one
+ * - Loader: ship tier costs, overlay tier, inventory and history matching
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { buildTargetBudget, loadTargetBudget, type ResourceSupply } from "../src/server/services/target-budget.js";
+import type { Target } from "../src/server/stores/target-store.js";
+import type { ReferenceStore, ReferenceShip } from "../src/server/stores/reference-store.js";
+import type { InventoryStore } from "../src/server/stores/inventory-store.js";
+
+function makeTarget(id: number, priority: number, overrides: Partial<Target> = {}): Target {
+  return {
+    id,
+    targetType: "ship",
+    refId: `ship-${id}`,
+    loadoutId: null,
+    targetTier: 5,
+    targetRank: null,
+    targetLevel: null,
+    reason: null,
+    priority,
+    status: "active",
+    autoSuggested: false,
+    createdAt: "2026-01-01",
+    updatedAt: "2026-01-01",
+    achievedAt: null,
+    ...overrides,
+  };
+}
+
+function req(name: string, amount: number) {
+  return { key: name.toLowerCase(), resourceId: null, name, amount };
+}
+
+function supply(entries: Record<string, [number, number | null]>): Map<string, ResourceSupply> {
+  return new Map(Object.entries(entries).map(([key, [available, dailyIncome]]) => [key, { available, dailyIncome }]));
+}
+
+describe("buildTargetBudget", () => {
+  it("totals requirements per resource against inventory and income", () => {
+    const budget = buildTargetBudget(
+      [
+        { target: makeTarget(1, 1), label: "A", requirements: [req("Ore", 300), req("Parts", 10)] },
+        { target: makeTarget(2, 2), label: "B", requirements: [req("Ore", 200)] },
+      ],
+      supply({ ore: [400, 50], parts: [10, null] }),
+    );
+
+    expect(budget.resources[0]).toMatchObject({
+      key: "ore", required: 500, available: 400, shortfall: 100, daysToCover: 2,
+      targets: [{ targetId: 1, amount: 300 }, { targetId: 2, amount: 200 }],
+    });
+    expect(budget.resources[1]).toMatchObject({ key: "parts", shortfall: 0, daysToCover: 0 });
+  });
+
+  it("flags later targets starved by earlier ones", () => {
+    const budget = buildTargetBudget(
+      [
+        { target: makeTarget(2, 2), label: "B", requirements: [req("Ore", 200)] },
+        { target: makeTarget(1, 1), label: "A", requirements: [req("Ore", 300)] },
+      ],
+      supply({ ore: [400, null] }),
+    );
+
+    expect(budget.starvation).toHaveLength(1);
+    expect(budget.starvation[0]).toMatchObject({
+      resourceKey: "ore", starverLabel: "A", starvedLabel: "B", amount: 100, daysToCover: null,
+    });
+    expect(budget.targets.map((t) => [t.targetId, t.fundedAlone, t.fundedInPriorityOrder]))
+      .toEqual([[1, true, true], [2, true, false]]);
+  });
+
+  it("does not call a target starved when inventory can't cover it alone", () => {
+    const budget = buildTargetBudget(
+      [
+        { target: makeTarget(1, 1), label: "A", requirements: [req("Ore", 100)] },
+        { target: makeTarget(2, 2), label: "B", requirements: [req("Ore", 900)] },
+      ],
+      supply({ ore: [400, 100] }),
+    );
+    expect(budget.starvation).toEqual([]);
+  });
+
+  it("recommends an ordering that funds more targets now", () => {
+    const budget = buildTargetBudget(
+      [
+        { target: makeTarget(1, 1), label: "Big", requirements: [req("Ore", 400)] },
+        { target: makeTarget(2, 2), label: "Small", requirements: [req("Ore", 150)] },
+        { target: makeTarget(3, 3), label: "Small too", requirements: [req("Ore", 150)] },
+      ],
+      supply({ ore: [400, 50] }),
+    );
+
+    const priority = budget.orderings.find((o) => o.strategy === "priority")!;
+    expect(priority).toMatchObject({ order: [1, 2, 3], fundedNow: 1 });
+    expect(priority.etas).toEqual([{ targetId: 1, days: 0 }, { targetId: 2, days: 3 }, { targetId: 3, days: 6 }]);
+
+    const cheapest = budget.orderings.find((o) => o.strategy === "cheapest-first")!;
+    expect(cheapest).toMatchObject({ order: [2, 3, 1], fundedNow: 2 });
+    expect(budget.recommended).toBe("cheapest-first");
+  });
+
+  it("keeps the priority ordering when nothing beats it", () => {
+    const budget = buildTargetBudget(
+      [{ target: makeTarget(1, 1), label: "A", requirements: [req("Ore", 100)] }],
+      supply({ ore: [400, null] }),
+    );
+    expect(budget.recommended).toBe("priority");
+  });
+});
+
+describe("loadTargetBudget", () => {
+  it("budgets ship tier targets from reference costs, inventory and history", async () => {
+    const ship = {
+      id: "ship-1",
+      name: "Saladin",
+      tier: 3,
+      tiers: [
+        { tier: 4, components: [{ build_cost: [{ resource_id: 7, name: "3★ Ore", amount: 100 }] }] },
+        { tier: 5, components: [{ build_cost: [{ resource_id: 7, name: "3★ Ore", amount: 200 }] }] },
+      ],
+    } as unknown as ReferenceShip;
+    const referenceStore = { getShip: vi.fn().mockResolvedValue(ship) } as unknown as ReferenceStore;
+    const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000).toISOString();
+    const snapshot = (quantity: number, days: number) =>
+      ({ category: "ore", name: "3★ Ore", grade: null, quantity, source: "chat", capturedAt: daysAgo(days) });
+    const inventoryStore = {
+      listItems: vi.fn().mockResolvedValue([{ id: 1, category: "ore", name: "3★ Ore", grade: null, quantity: 100 }]),
+      listHistory: vi.fn().mockResolvedValue([snapshot(0, 4), snapshot(50, 2), snapshot(100, 0)]),
+    } as unknown as InventoryStore;
+
+    const budget = await loadTargetBudget(
+      [makeTarget(1, 1), makeTarget(2, 2, { targetType: "officer", refId: "kirk", targetTier: null })],
+      { referenceStore, inventoryStore },
+    );
+
+    expect(budget.resources).toEqual([{
+      key: "7", name: "3★ Ore", required: 300, available: 100, dailyIncome: 25, shortfall: 200, daysToCover: 8,
+      targets: [{ targetId: 1, amount: 300 }],
+    }]);
+    expect(budget.targets[0].label).toBe("Saladin → T5");
+    expect(budget.skipped).toEqual([{ targetId: 2, reason: "No material cost data for this target type." }]);
+  });
+});
@@ -5,12 +5,14 @@
  * - Officer contention between crew targets sharing the same officer
  * - Dock contention between crew targets on the same dock
  * - Officer cascade — officer targets affecting multiple loadouts
+ * - Material contention — budget starvation between ship tier targets
  * - No conflicts when targets are independent
  * - Edge cases: no targets, no loadouts, missing loadout data
  */
 
 import { describe, it, expect, vi } from "vitest";
 import { detectTargetConflicts } from "../src/server/services/target-conflicts.js";
+import { buildTargetBudget } from "../src/server/services/target-budget.js";
 import type { Target, TargetStore } from "../src/server/stores/target-store.js";
 import type { CrewStore } from "../src/server/stores/crew-store.js";
 import type { LoadoutWithRefs, BridgeSlot, EffectiveDockState } from "../src/server/types/crew-types.js";
@@ -549,4 +551,50 @@ describe("detectTargetConflicts", () => {
       expect(c.targetA).toHaveProperty("priority");
     });
   });
+
+  describe("material contention", () => {
+    const shipA = makeTarget({ id: 1, targetType: "ship", refId: "ship-a", targetTier: 5, priority: 1 });
+    const shipB = makeTarget({ id: 2, targetType: "ship", refId: "ship-b", targetTier: 4, priority: 2 });
+    const ore = (amount: number) => ({ key: "ore", resourceId: null, name: "Ore", amount });
+
+    it("reports targets starved by higher-priority targets", async () => {
+      const budget = buildTargetBudget(
+        [
+          { target: shipA, label: "Saladin → T5", requirements: [ore(300)] },
+          { target: shipB, label: "Enterprise → T4", requirements: [ore(200)] },
+        ],
+        new Map([["ore", { available: 400, dailyIncome: 50 }]]),
+      );
+
+      const result = await detectTargetConflicts(createMockTargetStore([shipA, shipB]), createMockCrewStore(), budget);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({
+        conflictType: "material",
+        resource: "material:ore",
+        severity: "competing",
+        targetA: { id: 1 },
+        targetB: { id: 2 },
+      });
+      expect(result[0].description).toContain("about 2 more days of income");
+    });
+
+    it("marks starvation blocking without measured income", async () => {
+      const budget = buildTargetBudget(
+        [
+          { target: shipA, label: "Saladin → T5", requirements: [ore(300)] },
+          { target: shipB, label: "Enterprise → T4", requirements: [ore(200)] },
+        ],
+        new Map([["ore", { available: 400, dailyIncome: null }]]),
+      );
+
+      const result = await detectTargetConflicts(createMockTargetStore([shipA, shipB]), createMockCrewStore(), budget);
+      expect(result[0].severity).toBe("blocking");
+    });
+
+    it("skips material checks without a budget", async () => {
+      const result = await detectTargetConflicts(createMockTargetStore([shipA, shipB]), createMockCrewStore());
+      expect(result).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,177 @@
+/**
+ * target-graph.test.ts — Target dependencies and milestone progress (#17)
+ *
+ * Covers:
+ * - Percent-complete from overlay state, recorded deltas and delta baselines
+ * - Work order: prerequisites first, then priority
+ * - Blocked status, ready list and chain depth
+ * - Cycle reporting for legacy edges
+ * - Loader: labels and overlay state from the stores
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  buildTargetGraph,
+  computeTargetProgress,
+  findDependencyCycles,
+  loadTargetGraph,
+  parseRank,
+} from "../src/server/services/target-graph.js";
+import type { Target, TargetDependency, TargetProgressDelta, TargetStore } from "../src/server/stores/target-store.js";
+import type { ReferenceStore } from "../src/server/stores/reference-store.js";
+import type { OverlayStore } from "../src/server/stores/overlay-store.js";
+
+function makeTarget(id: number, overrides: Partial<Target> = {}): Target {
+  return {
+    id,
+    targetType: "ship",
+    refId: `ship-${id}`,
+    loadoutId: null,
+    targetTier: null,
+    targetRank: null,
+    targetLevel: null,
+    reason: null,
+    priority: 2,
+    status: "active",
+    autoSuggested: false,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    achievedAt: null,
+    ...overrides,
+  };
+}
+
+function edge(targetId: number, dependsOnId: number): TargetDependency {
+  return { targetId, dependsOnId, createdAt: "2026-01-01T00:00:00.000Z" };
+}
+
+function delta(metric: string, value: number, absoluteValue: number | null): TargetProgressDelta {
+  return { id: 1, targetId: 1, metric, delta: value, absoluteValue, source: "manual", note: null, createdAt: "2026-01-01T00:00:00.000Z" };
+}
+
+describe("parseRank", () => {
+  it("reads the leading number of a rank label", () => {
+    expect(parseRank("4")).toBe(4);
+    expect(parseRank("Rank 3")).toBe(3);
+    expect(parseRank("Commander")).toBeNull();
+    expect(parseRank(null)).toBeNull();
+  });
+});
+
+describe("computeTargetProgress", () => {
+  it("measures tier against the goal from overlay state", () => {
+    const progress = computeTargetProgress(makeTarget(1, { targetTier: 8 }), { tier: 6 }, []);
+    expect(progress.percent).toBe(75);
+    expect(progress.source).toBe("overlay");
+  });
+
+  it("measures from the baseline revealed by the earliest delta", () => {
+    // Newest first: 5 → 6, then 4 → 5 — the Admiral started at T4
+    const deltas = [delta("ship_tier", 1, 6), delta("ship_tier", 1, 5)];
+    const progress = computeTargetProgress(makeTarget(1, { targetTier: 8 }), null, deltas);
+    expect(progress.metrics[0]).toMatchObject({ metric: "tier", current: 6, baseline: 4, source: "delta" });
+    expect(progress.percent).toBe(50);
+    expect(progress.source).toBe("deltas");
+  });
+
+  it("averages several goal metrics", () => {
+    const target = makeTarget(1, { targetType: "officer", targetLevel: 40, targetRank: "4" });
+    const progress = computeTargetProgress(target, { level: 40, rank: 2 }, []);
+    expect(progress.percent).toBe(75);
+  });
+
+  it("falls back to ownership and then to a progress delta", () => {
+    expect(computeTargetProgress(makeTarget(1), { owned: true }, []).percent).toBe(100);
+    expect(computeTargetProgress(makeTarget(1), null, [delta("progress", 10, 35)]).percent).toBe(35);
+    expect(computeTargetProgress(makeTarget(1), null, []).percent).toBeNull();
+  });
+
+  it("reports achieved targets as complete", () => {
+    const progress = computeTargetProgress(makeTarget(1, { targetTier: 8, status: "achieved" }), { tier: 2 }, []);
+    expect(progress).toEqual({ percent: 100, source: "achieved", metrics: [] });
+  });
+});
+
+describe("buildTargetGraph", () => {
+  it("orders prerequisites before dependents, then by priority", () => {
+    const graph = buildTargetGraph(
+      [makeTarget(1, { priority: 1 }), makeTarget(2, { priority: 3 }), makeTarget(3, { priority: 2 })],
+      [edge(1, 2)],
+    );
+    expect(graph.nodes.map((node) => node.target.id)).toEqual([3, 2, 1]);
+    expect(graph.nodes.map((node) => node.depth)).toEqual([0, 0, 1]);
+  });
+
+  it("blocks on active prerequisites only", () => {
+    const graph = buildTargetGraph(
+      [
+        makeTarget(1),
+        makeTarget(2),
+        makeTarget(3, { status: "achieved" }),
+        makeTarget(4, { status: "abandoned" }),
+        makeTarget(5),
+      ],
+      [edge(1, 2), edge(5, 3), edge(5, 4)],
+    );
+    const node = (id: number) => graph.nodes.find((entry) => entry.target.id === id)!;
+    expect(node(1)).toMatchObject({ blocked: true, blockedBy: [2], dependsOn: [2] });
+    expect(node(2).dependents).toEqual([1]);
+    expect(node(5)).toMatchObject({ blocked: false, dependsOn: [3, 4] });
+    expect(graph.ready).toEqual([2, 5]);
+  });
+
+  it("drops edges to targets outside the graph", () => {
+    const graph = buildTargetGraph([makeTarget(1)], [edge(1, 99)]);
+    expect(graph.edges).toEqual([]);
+    expect(graph.nodes[0].blocked).toBe(false);
+  });
+
+  it("reports cycles and still places every target", () => {
+    const graph = buildTargetGraph(
+      [makeTarget(1), makeTarget(2), makeTarget(3)],
+      [edge(1, 2), edge(2, 1), edge(3, 1)],
+    );
+    expect(graph.cycles).toEqual([[1, 2]]);
+    expect(graph.nodes.map((node) => node.target.id).sort()).toEqual([1, 2, 3]);
+  });
+});
+
+describe("findDependencyCycles", () => {
+  it("finds no cycle in a chain", () => {
+    expect(findDependencyCycles([1, 2, 3], [edge(1, 2), edge(2, 3)])).toEqual([]);
+  });
+});
+
+describe("loadTargetGraph", () => {
+  it("labels targets from the catalog and reads overlay state", async () => {
+    const targetStore = {
+      list: vi.fn().mockResolvedValue([makeTarget(1, { refId: "cdn:ship:saladin", targetTier: 5 })]),
+      listDependencies: vi.fn().mockResolvedValue([]),
+      listDeltas: vi.fn().mockResolvedValue([]),
+    } as unknown as TargetStore;
+    const referenceStore = {
+      getShip: vi.fn().mockResolvedValue({ name: "Saladin" }),
+    } as unknown as ReferenceStore;
+    const overlayStore = {
+      getShipOverlay: vi.fn().mockResolvedValue({ ownershipState: "owned", tier: 4, level: 20 }),
+    } as unknown as OverlayStore;
+
+    const graph = await loadTargetGraph(targetStore, { referenceStore, overlayStore });
+
+    expect(graph.nodes[0].label).toBe("Saladin → T5");
+    expect(graph.nodes[0].progress.percent).toBe(80);
+  });
+
+  it("works without reference or overlay data", async () => {
+    const targetStore = {
+      list: vi.fn().mockResolvedValue([makeTarget(1, { targetType: "crew", refId: null, loadoutId: 7 })]),
+      listDependencies: vi.fn().mockResolvedValue([]),
+      listDeltas: vi.fn().mockResolvedValue([]),
+    } as unknown as TargetStore;
+
+    const graph = await loadTargetGraph(targetStore);
+
+    expect(graph.nodes[0].label).toBe("loadout #7");
+    expect(graph.nodes[0].progress.percent).toBeNull();
+  });
+});
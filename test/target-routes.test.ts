@@ -11,6 +11,7 @@
  *   - Mark achieved
  *   - Counts
  *   - Conflicts
+ *   - Dependency graph + dependency edges
  */
 
 import { describe, it, expect, beforeEach, beforeAll, afterAll } from "vitest";
@@ -80,6 +81,11 @@ describe("Target routes — store not available", () => {
     const res = await testRequest(app).post("/api/targets/1/achieve");
     expect(res.status).toBe(503);
   });
+
+  it("GET /api/targets/graph returns 503 when target store is null", async () => {
+    const res = await testRequest(app).get("/api/targets/graph");
+    expect(res.status).toBe(503);
+  });
 });
 
 // ═════════════════════════════════════════════════════════════
@@ -203,6 +209,7 @@ describe("Target routes — with live store", () => {
       const res = await testRequest(appWithCrew).get("/api/targets/conflicts");
       expect(res.status).toBe(200);
       expect(res.body.data.conflicts).toEqual([]);
+      expect(res.body.data.budget).toMatchObject({ resources: [], starvation: [], recommended: "priority" });
     });
 
     it("returns 503 when crew store missing", async () => {
@@ -554,4 +561,50 @@ describe("Target routes — with live store", () => {
       expect(res.status).toBe(404);
     });
   });
+
+  // ─── Dependencies ──────────────────────────────────────────
+
+  describe("target dependencies", () => {
+    it("links targets and reports the graph", async () => {
+      const saladin = await targetStore.create({ targetType: "ship", refId: "ship-saladin", targetTier: 5, priority: 3 });
+      const enterprise = await targetStore.create({ targetType: "ship", refId: "ship-enterprise", priority: 1 });
+
+      const created = await testRequest(app).post(`/api/targets/${enterprise.id}/dependencies`).send({ dependsOnId: saladin.id });
+      expect(created.status).toBe(201);
+      expect(created.body.data).toMatchObject({ targetId: enterprise.id, dependsOnId: saladin.id });
+
+      const res = await testRequest(app).get("/api/targets/graph");
+      expect(res.status).toBe(200);
+      expect(res.body.data.nodes.map((n: { target: { id: number } }) => n.target.id)).toEqual([saladin.id, enterprise.id]);
+      expect(res.body.data.nodes[1]).toMatchObject({ blocked: true, blockedBy: [saladin.id], depth: 1 });
+      expect(res.body.data.ready).toEqual([saladin.id]);
+    });
+
+    it("rejects cycles with 409", async () => {
+      const a = await targetStore.create({ targetType: "ship", refId: "ship-a" });
+      const b = await targetStore.create({ targetType: "ship", refId: "ship-b" });
+      await targetStore.addDependency(b.id, a.id);
+
+      const res = await testRequest(app).post(`/api/targets/${a.id}/dependencies`).send({ dependsOnId: b.id });
+      expect(res.status).toBe(409);
+      expect(res.body.error.code).toBe("CONFLICT");
+    });
+
+    it("validates dependsOnId and reports missing targets", async () => {
+      const t = await targetStore.create({ targetType: "ship", refId: "ship-a" });
+      expect((await testRequest(app).post(`/api/targets/${t.id}/dependencies`).send({})).status).toBe(400);
+      expect((await testRequest(app).post(`/api/targets/${t.id}/dependencies`).send({ dependsOnId: 99999 })).status).toBe(404);
+    });
+
+    it("removes a dependency", async () => {
+      const a = await targetStore.create({ targetType: "ship", refId: "ship-a" });
+      const b = await targetStore.create({ targetType: "ship", refId: "ship-b" });
+      await targetStore.addDependency(b.id, a.id);
+
+      const res = await testRequest(app).delete(`/api/targets/${b.id}/dependencies/${a.id}`);
+      expect(res.status).toBe(200);
+      expect(res.body.data.removed).toBe(true);
+      expect((await testRequest(app).delete(`/api/targets/${b.id}/dependencies/${a.id}`)).status).toBe(404);
+    });
+  });
 });
@@ -409,6 +409,48 @@ describe("deltas", () => {
   });
 });
 
+describe("dependencies", () => {
+  it("adds, lists and removes dependencies", async () => {
+    const saladin = await store.create({ targetType: "ship", refId: "cdn:ship:saladin", targetTier: 5 });
+    const enterprise = await store.create({ targetType: "ship", refId: "cdn:ship:enterprise" });
+
+    const dependency = await store.addDependency(enterprise.id, saladin.id);
+    expect(dependency).toMatchObject({ targetId: enterprise.id, dependsOnId: saladin.id });
+    // Re-adding is idempotent
+    await store.addDependency(enterprise.id, saladin.id);
+    expect(await store.listDependencies()).toHaveLength(1);
+
+    expect(await store.removeDependency(enterprise.id, saladin.id)).toBe(true);
+    expect(await store.removeDependency(enterprise.id, saladin.id)).toBe(false);
+    expect(await store.listDependencies()).toEqual([]);
+  });
+
+  it("returns null when either target is missing", async () => {
+    const target = await store.create({ targetType: "ship", refId: "cdn:ship:saladin" });
+    expect(await store.addDependency(target.id, 999999)).toBeNull();
+  });
+
+  it("rejects self-dependencies and cycles", async () => {
+    const a = await store.create({ targetType: "ship", refId: "ship-a" });
+    const b = await store.create({ targetType: "ship", refId: "ship-b" });
+    const c = await store.create({ targetType: "ship", refId: "ship-c" });
+    await store.addDependency(b.id, a.id);
+    await store.addDependency(c.id, b.id);
+
+    await expect(store.addDependency(a.id, a.id)).rejects.toThrow(/itself/);
+    await expect(store.addDependency(a.id, c.id)).rejects.toThrow(/cycle/);
+    expect(await store.listDependencies()).toHaveLength(2);
+  });
+
+  it("drops dependencies when a target is deleted", async () => {
+    const a = await store.create({ targetType: "ship", refId: "ship-a" });
+    const b = await store.create({ targetType: "ship", refId: "ship-b" });
+    await store.addDependency(b.id, a.id);
+    await store.delete(a.id);
+    expect(await store.listDependencies()).toEqual([]);
+  });
+});
+
 describe("reminder feedback", () => {
   it("records and lists reminder usefulness feedback", async () => {
     const target = await store.create({ targetType: "ship", refId: "wiki:ship:voyager", targetTier: 1 });
@@ -35,6 +35,16 @@ describe("token-ledger-store", () => {
     expect(usage.callCount).toBe(1);
   });
 
+  it("stores the fallback path when a call was served along a chain", async () => {
+    const store = await createTokenLedgerStore(pool);
+
+    await store.record({ userId: "user-1", modelId: "gemini-2.5-flash", operation: "chat", inputTokens: 10, outputTokens: 5, fallbackPath: "gemini-2.5-flash-lite>gemini-2.5-flash" });
+    await store.record({ userId: "user-1", modelId: "gemini-2.5-flash", operation: "chat", inputTokens: 10, outputTokens: 5 });
+
+    const { rows } = await pool.query(`SELECT fallback_path FROM token_ledger ORDER BY id`);
+    expect(rows.map((r) => r.fallback_path)).toEqual(["gemini-2.5-flash-lite>gemini-2.5-flash", null]);
+  });
+
   it("aggregates multiple records for the same user", async () => {
     const store = await createTokenLedgerStore(pool);
 
@@ -14,6 +14,7 @@ import {
   FLEET_TOOL_DECLARATIONS,
   toolRegistry,
   toClaudeTools,
+  toOpenAiTools,
 } from "../src/server/services/fleet-tools/index.js";
 import { ToolRegistry, defineTool } from "../src/server/services/fleet-tools/define-tool.js";
 
@@ -58,7 +59,12 @@ describe("ToolRegistry (ADR-039 Phase 10)", () => {
       "receiptStore",
       "researchStore",
       "inventoryStore",
+      "battleReportStore",
+      "decisionStore",
+      "allianceStore",
+      "allianceRoster",
       "userSettingsStore",
+      "effectStore",
       "resourceDefs",
     ]);
     for (const tool of toolRegistry.all()) {
@@ -153,6 +159,11 @@ describe("toClaudeTools (ADR-041 Phase 2)", () => {
     }
   });
 
+  it("enums are preserved", () => {
+    const recordDecision = claudeTools.find((c) => c.name === "record_decision")!;
+    expect(recordDecision.input_schema.properties.kind.enum).toEqual(["goal", "saving", "prefer", "avoid"]);
+  });
+
   it("descriptions are preserved", () => {
     for (const decl of FLEET_TOOL_DECLARATIONS) {
       const claude = claudeTools.find((c) => c.name === decl.name);
@@ -160,3 +171,19 @@ describe("toClaudeTools (ADR-041 Phase 2)", () => {
     }
   });
 });
+
+describe("toOpenAiTools", () => {
+  it("wraps every Claude tool schema as an OpenAI function", () => {
+    const openAiTools = toOpenAiTools(FLEET_TOOL_DECLARATIONS);
+    const claudeTools = toClaudeTools(FLEET_TOOL_DECLARATIONS);
+    expect(openAiTools).toHaveLength(claudeTools.length);
+    for (const [i, tool] of openAiTools.entries()) {
+      expect(tool.type).toBe("function");
+      expect(tool.function).toEqual({
+        name: claudeTools[i].name,
+        description: claudeTools[i].description,
+        parameters: claudeTools[i].input_schema,
+      });
+    }
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * tools-routes.test.ts — Direct tool invocation route tests (chat / palette)
+ *
+ * Supertest-based HTTP-level tests covering:
+ *   - Listing read tools with JSON Schema arguments
+ *   - Running a read tool without a model turn
+ *   - Mutation tools refused, argument validation, tools not wired (503)
+ */
+
+import { describe, it, expect } from "vitest";
+import { testRequest } from "./helpers/test-request.js";
+import { createApp } from "../src/server/index.js";
+import { makeReadyState as makeState } from "./helpers/make-state.js";
+import type { ToolContextFactory } from "../src/server/services/fleet-tools/index.js";
+import { createMockTargetStore } from "./fleet-tools/helpers.js";
+
+function toolContextFactory(): ToolContextFactory {
+  const targetStore = createMockTargetStore();
+  return { forUser: (userId: string) => ({ userId, deps: { targetStore } }) };
+}
+
+describe("GET /api/tools", () => {
+  it("lists read tools only, with their argument schemas", async () => {
+    const res = await testRequest(createApp(makeState())).get("/api/tools");
+    expect(res.status).toBe(200);
+    const names = res.body.data.tools.map((t: { name: string }) => t.name);
+    expect(names).toContain("list_targets");
+    expect(names).not.toContain("create_target");
+    expect(res.body.data.count).toBe(names.length);
+
+    const listTargets = res.body.data.tools.find((t: { name: string }) => t.name === "list_targets");
+    expect(listTargets.inputSchema.properties.target_type.enum).toEqual(["officer", "ship", "crew"]);
+  });
+});
+
+describe("POST /api/tools/:name/run", () => {
+  it("runs a read tool directly", async () => {
+    const app = createApp(makeState({ toolContextFactory: toolContextFactory() }));
+    const res = await testRequest(app).post("/api/tools/list_targets/run").send({ args: {} });
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ tool: "list_targets", args: {} });
+    expect(res.body.data.result).toHaveProperty("targets");
+    expect(typeof res.body.data.durationMs).toBe("number");
+  });
+
+  it("refuses mutation tools and unknown tools", async () => {
+    const app = createApp(makeState({ toolContextFactory: toolContextFactory() }));
+    const mutation = await testRequest(app).post("/api/tools/create_target/run").send({ args: {} });
+    expect(mutation.status).toBe(403);
+    expect(mutation.body.error.code).toBe("FORBIDDEN");
+
+    expect((await testRequest(app).post("/api/tools/warp_core_breach/run").send({})).status).toBe(404);
+  });
+
+  it("validates arguments against the tool schema", async () => {
+    const app = createApp(makeState({ toolContextFactory: toolContextFactory() }));
+    const missing = await testRequest(app).post("/api/tools/search_officers/run").send({ args: {} });
+    expect(missing.status).toBe(400);
+    expect(missing.body.error.message).toContain("query is required");
+
+    const badEnum = await testRequest(app).post("/api/tools/list_targets/run").send({ args: { target_type: "starbase" } });
+    expect(badEnum.status).toBe(400);
+
+    expect((await testRequest(app).post("/api/tools/list_targets/run").send({ args: [] })).status).toBe(400);
+  });
+
+  it("returns 503 when fleet tools are not wired", async () => {
+    const res = await testRequest(createApp(makeState())).post("/api/tools/list_targets/run").send({ args: {} });
+    expect(res.status).toBe(503);
+    expect(res.body.error.code).toBe("FLEET_TOOLS_NOT_AVAILABLE");
+  });
+});
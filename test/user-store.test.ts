@@ -202,6 +202,14 @@ describe("UserStore — integration", () => {
       expect(resolved!.email).toBe("session@test.com");
     });
 
+    it("creates an extra session without a password", async () => {
+      const created = await store.createSession(userId, undefined, "majel-mcp");
+      expect(created.id).not.toBe(sessionToken);
+      expect(created.userAgent).toBe("majel-mcp");
+      const resolved = await store.resolveSession(created.id);
+      expect(resolved!.userId).toBe(userId);
+    });
+
     it("returns null for unknown session", async () => {
       const resolved = await store.resolveSession("nonexistent-token");
       expect(resolved).toBeNull();
@@ -0,0 +1,145 @@
+/**
+ * webhook-routes.test.ts — /api/webhooks configuration, delivery log and timer reports
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from "vitest";
+import express from "express";
+import cookieParser from "cookie-parser";
+import { testRequest } from "./helpers/test-request.js";
+import type { AppState } from "../src/server/app-context.js";
+import { envelopeMiddleware, errorHandler } from "../src/server/envelope.js";
+import { createWebhookRoutes } from "../src/server/routes/webhooks.js";
+import { subscribeFleetEvents, type FleetEvent } from "../src/server/services/fleet-events.js";
+import type { OutboundPost } from "../src/server/services/outbound-post.js";
+import { createWebhookDispatcher, type WebhookDispatcher } from "../src/server/services/webhook-dispatcher.js";
+import { createWebhookStoreFactory, MAX_WEBHOOKS_PER_USER, type WebhookStoreFactory } from "../src/server/stores/webhook-store.js";
+import { createTestPool, cleanDatabase, type Pool } from "./helpers/pg-test.js";
+import { makeReadyState, makeConfig } from "./helpers/make-state.js";
+
+function buildTestApp(appState: AppState) {
+  const app = express();
+  app.use(envelopeMiddleware);
+  app.use(express.json());
+  app.use(cookieParser());
+  app.use(createWebhookRoutes(appState));
+  app.use(errorHandler);
+  return app;
+}
+
+describe("webhook routes", () => {
+  let pool: Pool;
+  let factory: WebhookStoreFactory;
+  let dispatcher: WebhookDispatcher;
+  let postMock: ReturnType<typeof vi.fn>;
+  let app: ReturnType<typeof buildTestApp>;
+
+  beforeAll(() => {
+    pool = createTestPool();
+  });
+  afterAll(async () => {
+    await pool.end();
+  });
+  beforeEach(async () => {
+    await cleanDatabase(pool);
+    factory = await createWebhookStoreFactory(pool);
+    postMock = vi.fn(async () => ({ status: 204 }));
+    dispatcher = createWebhookDispatcher(factory, { post: postMock as unknown as OutboundPost });
+    app = buildTestApp(makeReadyState({ webhookStoreFactory: factory, webhookDispatcher: dispatcher }));
+  });
+  afterEach(() => {
+    dispatcher.close();
+  });
+
+  async function createHook(events = ["target.achieved"]) {
+    const res = await testRequest(app).post("/api/webhooks").send({ url: "https://bot.example.com/hook", events });
+    expect(res.status).toBe(201);
+    return res.body.data as { webhook: { id: number }; secret: string };
+  }
+
+  it("creates, lists, pauses and deletes webhooks", async () => {
+    const { webhook, secret } = await createHook();
+    expect(secret).toMatch(/^whsec_/);
+
+    const list = await testRequest(app).get("/api/webhooks");
+    expect(list.body.data.webhooks).toHaveLength(1);
+    expect(list.body.data.events).toContain("timer.completed");
+    expect(JSON.stringify(list.body)).not.toContain(secret);
+
+    const paused = await testRequest(app).patch(`/api/webhooks/${webhook.id}`).send({ enabled: false, description: " Discord " });
+    expect(paused.body.data.webhook).toMatchObject({ enabled: false, description: "Discord" });
+
+    const deleted = await testRequest(app).delete(`/api/webhooks/${webhook.id}`);
+    expect(deleted.body.data).toEqual({ id: webhook.id, deleted: true });
+    expect((await testRequest(app).delete(`/api/webhooks/${webhook.id}`)).status).toBe(404);
+  });
+
+  it("validates the URL and event list", async () => {
+    const badEvent = await testRequest(app).post("/api/webhooks").send({ url: "https://bot.example.com", events: ["ship.exploded"] });
+    expect(badEvent.status).toBe(400);
+    expect(badEvent.body.error.message).toMatch(/events must be/);
+
+    const badUrl = await testRequest(app).post("/api/webhooks").send({ url: "ftp://bot.example.com", events: ["target.achieved"] });
+    expect(badUrl.status).toBe(400);
+
+    const prod = buildTestApp(makeReadyState({
+      webhookStoreFactory: factory, webhookDispatcher: dispatcher, config: makeConfig({ nodeEnv: "production" }),
+    }));
+    const local = await testRequest(prod).post("/api/webhooks").send({ url: "https://127.0.0.1/hook", events: ["target.achieved"] });
+    expect(local.status).toBe(400);
+    expect(local.body.error.message).toMatch(/public/);
+  });
+
+  it("caps webhooks per account", async () => {
+    for (let i = 0; i < MAX_WEBHOOKS_PER_USER; i += 1) await createHook();
+    const res = await testRequest(app).post("/api/webhooks").send({ url: "https://bot.example.com/hook", events: ["target.achieved"] });
+    expect(res.status).toBe(409);
+  });
+
+  it("sends a test ping, logs it and redelivers it", async () => {
+    const { webhook } = await createHook();
+
+    const ping = await testRequest(app).post(`/api/webhooks/${webhook.id}/test`);
+    expect(ping.status).toBe(200);
+    expect(ping.body.data.delivery).toMatchObject({ event: "webhook.ping", status: "succeeded", responseStatus: 204 });
+    expect(postMock).toHaveBeenCalledTimes(1);
+
+    const again = await testRequest(app).post(`/api/webhooks/${webhook.id}/deliveries/${ping.body.data.delivery.id}/redeliver`);
+    expect(again.body.data.delivery.id).not.toBe(ping.body.data.delivery.id);
+
+    const log = await testRequest(app).get(`/api/webhooks/${webhook.id}/deliveries?limit=10`);
+    expect(log.body.data.count).toBe(2);
+    expect((await testRequest(app).get(`/api/webhooks/${webhook.id}/deliveries?limit=500`)).status).toBe(400);
+    expect((await testRequest(app).get("/api/webhooks/9999/deliveries")).status).toBe(404);
+  });
+
+  it("refuses to ping or redeliver a paused webhook", async () => {
+    const { webhook } = await createHook();
+    const ping = await testRequest(app).post(`/api/webhooks/${webhook.id}/test`);
+    await testRequest(app).patch(`/api/webhooks/${webhook.id}`).send({ enabled: false });
+
+    expect((await testRequest(app).post(`/api/webhooks/${webhook.id}/test`)).status).toBe(409);
+    const again = await testRequest(app).post(`/api/webhooks/${webhook.id}/deliveries/${ping.body.data.delivery.id}/redeliver`);
+    expect(again.status).toBe(409);
+    expect(postMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("publishes timer completions reported by the browser", async () => {
+    const seen: FleetEvent[] = [];
+    const off = subscribeFleetEvents((event) => seen.push(event));
+    try {
+      const res = await testRequest(app).post("/api/webhooks/timer-completed")
+        .send({ timerId: "t1", label: "Dock 2", durationMs: 60_000, completedCount: 1 });
+      expect(res.status).toBe(200);
+      expect((await testRequest(app).post("/api/webhooks/timer-completed").send({ label: "x" })).status).toBe(400);
+    } finally {
+      off();
+    }
+    expect(seen).toHaveLength(1);
+    expect(seen[0]).toMatchObject({ type: "timer.completed", userId: "local", data: { summary: "Dock 2 is done", label: "Dock 2" } });
+  });
+
+  it("returns 503 without a webhook store", async () => {
+    const bare = buildTestApp(makeReadyState());
+    expect((await testRequest(bare).get("/api/webhooks")).status).toBe(503);
+  });
+});
@@ -10,6 +10,7 @@ export default defineConfig({
     env: {
       MAJEL_ADMIN_TOKEN: "",
       MAJEL_INVITE_SECRET: "",
+      MAJEL_SHARE_SECRET: "",
       MAJEL_ALLOWED_IPS: "",
       GEMINI_API_KEY: "",
     },
@@ -26,6 +26,7 @@ export default defineConfig(({ mode }) => {
       env: {
         MAJEL_ADMIN_TOKEN: "",
         MAJEL_INVITE_SECRET: "",
+        MAJEL_SHARE_SECRET: "",
         MAJEL_ALLOWED_IPS: "",
         // Pull the real key from .env (falls back to empty if not present)
         GEMINI_API_KEY: env.GEMINI_API_KEY ?? "",
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { canManageShared, canRemoveMember, localInputToIso, tallyArmada } from "./alliance-helpers.js";
+import type { AllianceArmada } from "./types.js";
+
+const armada: AllianceArmada = {
+  id: 7,
+  name: "Gorn Eclipse",
+  hostileId: null,
+  hostileName: null,
+  startsAt: "2026-03-02T20:00:00.000Z",
+  minParticipants: 3,
+  notes: null,
+  createdBy: "kirk",
+  createdAt: "2026-03-01T00:00:00.000Z",
+  signups: [
+    {
+      userId: "sulu", displayName: "Sulu", shipRefId: null, shipName: "Saladin", loadoutId: null, loadoutName: null,
+      dockNumber: null, issues: [], checkedAt: null, note: null, createdAt: "2026-03-01T00:00:00.000Z",
+    },
+  ],
+};
+
+describe("alliance role rules", () => {
+  it("lets officers and the leader manage shared lists", () => {
+    expect(canManageShared("member")).toBe(false);
+    expect(canManageShared("officer")).toBe(true);
+    expect(canManageShared("leader")).toBe(true);
+    expect(canManageShared(null)).toBe(false);
+  });
+
+  it("only removes strictly lower-ranked members", () => {
+    expect(canRemoveMember("officer", "member")).toBe(true);
+    expect(canRemoveMember("officer", "officer")).toBe(false);
+    expect(canRemoveMember("leader", "officer")).toBe(true);
+    expect(canRemoveMember("member", "member")).toBe(false);
+  });
+});
+
+describe("tallyArmada", () => {
+  it("counts sign-ups against the minimum", () => {
+    expect(tallyArmada(armada, "sulu")).toEqual({ signedUp: 1, stillNeeded: 2, mine: true });
+    expect(tallyArmada(armada, "kirk").mine).toBe(false);
+  });
+
+  it("reports no shortfall without a minimum", () => {
+    expect(tallyArmada({ ...armada, minParticipants: null }, null).stillNeeded).toBeNull();
+  });
+});
+
+describe("localInputToIso", () => {
+  it("converts datetime-local values and rejects junk", () => {
+    expect(localInputToIso("2026-03-02T20:00")).toBe(new Date("2026-03-02T20:00").toISOString());
+    expect(localInputToIso("")).toBe("");
+    expect(localInputToIso("soon")).toBe("");
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * alliance-helpers.ts — Pure helpers for the Alliance view.
+ *
+ * Mirrors the server's alliance role rules so the UI only offers actions
+ * the store will accept; the server still enforces them.
+ */
+
+import type { AllianceArmada, AllianceRole } from "./types.js";
+
+export const ALLIANCE_ROLE_LABELS: Record<AllianceRole, string> = {
+  member: "Member",
+  officer: "Officer",
+  leader: "Leader",
+};
+
+const ROLE_ORDER: AllianceRole[] = ["member", "officer", "leader"];
+
+export function allianceRoleLevel(role: AllianceRole): number {
+  return ROLE_ORDER.indexOf(role);
+}
+
+/** Officers and the leader manage the plan, targets and armadas. */
+export function canManageShared(role: AllianceRole | null | undefined): boolean {
+  return role != null && allianceRoleLevel(role) >= allianceRoleLevel("officer");
+}
+
+/** Officers may remove anyone ranked strictly below them. */
+export function canRemoveMember(myRole: AllianceRole, targetRole: AllianceRole): boolean {
+  return canManageShared(myRole) && allianceRoleLevel(targetRole) < allianceRoleLevel(myRole);
+}
+
+export interface ArmadaTally {
+  signedUp: number;
+  /** Sign-ups still missing to reach the minimum; null when no minimum is set */
+  stillNeeded: number | null;
+  /** Whether the given user has signed up */
+  mine: boolean;
+}
+
+export function tallyArmada(armada: AllianceArmada, userId: string | null | undefined): ArmadaTally {
+  const signedUp = armada.signups.length;
+  return {
+    signedUp,
+    stillNeeded: armada.minParticipants != null ? Math.max(0, armada.minParticipants - signedUp) : null,
+    mine: userId != null && armada.signups.some((s) => s.userId === userId),
+  };
+}
+
+/** Convert a `datetime-local` input value (local time) to an ISO timestamp; "" when empty or invalid. */
+export function localInputToIso(value: string): string {
+  if (!value) return "";
+  const ms = Date.parse(value);
+  return isNaN(ms) ? "" : new Date(ms).toISOString();
+}
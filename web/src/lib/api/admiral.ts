@@ -5,7 +5,7 @@
  */
 
 import { apiFetch, apiDelete, apiPatch, apiPost, apiPut, pathEncode } from "./fetch.js";
-import type { AdminInvite, AdminSession, AdminUser, Role, AdminModelEntry, AdminModelToggleResponse, BudgetRankDefaults, UsageRow, BudgetOverride } from "../types.js";
+import type { AdminApiToken, AdminInvite, ChatSurface, AdminSession, AdminUser, Role, AdminModelEntry, AdminModelToggleResponse, BudgetRankDefaults, UsageRow, BudgetOverride } from "../types.js";
 import { runLockedMutation } from "./mutation.js";
 
 // ─── User Management ────────────────────────────────────────
@@ -127,6 +127,73 @@ export async function adminDeleteAllSessions(): Promise<void> {
   });
 }
 
+// ─── API Token Management ───────────────────────────────────
+
+export async function adminListTokens(): Promise<AdminApiToken[]> {
+  const data = await apiFetch<{ tokens: AdminApiToken[] }>("/api/admiral/tokens");
+  return data.tokens;
+}
+
+export async function adminRevokeToken(id: number): Promise<void> {
+  await runLockedMutation({
+    label: `Revoke API token ${id}`,
+    lockKey: `admiral:token:${id}`,
+    mutate: async () => {
+      await apiDelete(`/api/admiral/tokens/${id}`);
+    },
+  });
+}
+
+// ─── Chat Bots ──────────────────────────────────────────────
+
+export async function adminListSurfaces(): Promise<ChatSurface[]> {
+  const data = await apiFetch<{ surfaces: ChatSurface[] }>("/api/admiral/surfaces");
+  return data.surfaces;
+}
+
+/** Register a chat bot. The returned `secret` signs both directions and is shown once. */
+export async function adminCreateSurface(
+  name: string,
+  callbackUrl: string,
+): Promise<{ surface: ChatSurface; secret: string }> {
+  return runLockedMutation({
+    label: "Register chat bot",
+    lockKey: "admiral:surfaces",
+    mutate: () => apiPost<{ surface: ChatSurface; secret: string }>("/api/admiral/surfaces", { name, callbackUrl }),
+  });
+}
+
+export async function adminUpdateSurface(
+  id: number,
+  input: Partial<Pick<ChatSurface, "name" | "callbackUrl" | "enabled">>,
+): Promise<ChatSurface> {
+  const data = await runLockedMutation({
+    label: `Update chat bot ${id}`,
+    lockKey: `admiral:surface:${id}`,
+    mutate: () => apiPatch<{ surface: ChatSurface }>(`/api/admiral/surfaces/${pathEncode(id)}`, input),
+  });
+  return data.surface;
+}
+
+export async function adminRotateSurfaceSecret(id: number): Promise<string> {
+  const data = await runLockedMutation({
+    label: `Rotate chat bot secret ${id}`,
+    lockKey: `admiral:surface:${id}`,
+    mutate: () => apiPost<{ id: number; secret: string }>(`/api/admiral/surfaces/${pathEncode(id)}/rotate-secret`, {}),
+  });
+  return data.secret;
+}
+
+export async function adminDeleteSurface(id: number): Promise<void> {
+  await runLockedMutation({
+    label: `Delete chat bot ${id}`,
+    lockKey: `admiral:surface:${id}`,
+    mutate: async () => {
+      await apiDelete(`/api/admiral/surfaces/${pathEncode(id)}`);
+    },
+  });
+}
+
 // ─── Model Management ───────────────────────────────────────
 
 export async function adminListModels(): Promise<AdminModelEntry[]> {
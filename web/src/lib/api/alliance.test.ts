@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchArmadas, joinAlliance, setMemberRole, signUpForArmada, withdrawFromArmada } from "./alliance.js";
+
+function respond(data: unknown, status = 200) {
+  const body = status < 400 ? { ok: true, data } : { ok: false, error: data };
+  return vi.fn(async () => new Response(JSON.stringify(body), { status }));
+}
+
+describe("alliance API", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("joins with a code", async () => {
+    const fetchMock = respond({ role: "member", memberCount: 2 });
+    vi.stubGlobal("fetch", fetchMock);
+
+    await joinAlliance("ABCD2345");
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("/api/alliance/join");
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(init.body as string)).toEqual({ code: "ABCD2345" });
+  });
+
+  it("lists upcoming armadas only when asked", async () => {
+    const fetchMock = respond({ armadas: [], count: 0 });
+    vi.stubGlobal("fetch", fetchMock);
+
+    await fetchArmadas(true);
+    await fetchArmadas();
+    const urls = fetchMock.mock.calls.map((call) => (call as unknown as [string])[0]);
+    expect(urls).toEqual(["/api/alliance/armadas?upcoming=true", "/api/alliance/armadas"]);
+  });
+
+  it("signs up and withdraws on the same armada path", async () => {
+    const fetchMock = respond({ id: 7, signups: [] });
+    vi.stubGlobal("fetch", fetchMock);
+
+    await signUpForArmada(7, { shipRefId: "cdn:ship:200", loadoutId: 10 });
+    await withdrawFromArmada(7);
+
+    const calls = fetchMock.mock.calls as unknown as [string, RequestInit][];
+    expect(calls.map(([url, init]) => [url, init.method])).toEqual([
+      ["/api/alliance/armadas/7/signup", "POST"],
+      ["/api/alliance/armadas/7/signup", "DELETE"],
+    ]);
+    expect(JSON.parse(calls[0][1].body as string)).toEqual({ shipRefId: "cdn:ship:200", loadoutId: 10 });
+  });
+
+  it("unwraps the member list after a role change", async () => {
+    vi.stubGlobal("fetch", respond({ members: [{ userId: "sulu", role: "officer" }] }));
+    expect(await setMemberRole("sulu", "officer")).toEqual([{ userId: "sulu", role: "officer" }]);
+  });
+
+  it("surfaces alliance role errors", async () => {
+    vi.stubGlobal("fetch", respond({ code: "FORBIDDEN", message: "Alliance officer role required" }, 403));
+    await expect(setMemberRole("sulu", "leader")).rejects.toThrow(/officer role required/);
+  });
+});
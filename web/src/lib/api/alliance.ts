@@ -0,0 +1,147 @@
+/**
+ * Alliance API — shared workspace: membership, plan, targets and armadas.
+ * All functions throw ApiError on failure.
+ */
+
+import { apiDelete, apiFetch, apiPatch, apiPost, pathEncode, qs } from "./fetch.js";
+import type {
+  Alliance,
+  AllianceArmada,
+  AllianceMember,
+  AllianceMembership,
+  AllianceOverview,
+  AlliancePlanItem,
+  AllianceRole,
+  AllianceTarget,
+  AllianceTargetType,
+} from "../types.js";
+import { runLockedMutation } from "./mutation.js";
+
+function mutateAlliance<T>(label: string, mutate: () => Promise<T>): Promise<T> {
+  return runLockedMutation({ label, lockKey: "alliance", mutate });
+}
+
+// ─── Membership ─────────────────────────────────────────────
+
+/** Your membership (null outside an alliance) and the member list. */
+export async function fetchAlliance(): Promise<AllianceOverview> {
+  return apiFetch<AllianceOverview>("/api/alliance");
+}
+
+/** Found an alliance (captain rank or above). */
+export async function createAlliance(input: { name: string; tag?: string | null }): Promise<AllianceMembership> {
+  return mutateAlliance("Create alliance", () => apiPost<AllianceMembership>("/api/alliance", input));
+}
+
+export async function joinAlliance(code: string): Promise<AllianceMembership> {
+  return mutateAlliance("Join alliance", () => apiPost<AllianceMembership>("/api/alliance/join", { code }));
+}
+
+export async function leaveAlliance(): Promise<void> {
+  await mutateAlliance("Leave alliance", () => apiPost("/api/alliance/leave", {}));
+}
+
+/** Rename the alliance or rotate its join code (leader). */
+export async function updateAlliance(
+  input: { name?: string; tag?: string | null; rotateJoinCode?: boolean },
+): Promise<Alliance> {
+  return mutateAlliance("Update alliance", () => apiPatch<Alliance>("/api/alliance", input));
+}
+
+export async function dissolveAlliance(): Promise<void> {
+  await mutateAlliance("Dissolve alliance", () => apiDelete("/api/alliance"));
+}
+
+/** Opt in or out of sharing your owned ships and officers with the alliance. */
+export async function setShareOverlays(shareOverlays: boolean): Promise<AllianceMember> {
+  return mutateAlliance("Update fleet sharing", () => apiPatch<AllianceMember>("/api/alliance/me", { shareOverlays }));
+}
+
+/** Change a member's role; "leader" hands over leadership (leader). */
+export async function setMemberRole(userId: string, role: AllianceRole): Promise<AllianceMember[]> {
+  const data = await mutateAlliance(`Change role of ${userId}`, () =>
+    apiPatch<{ members: AllianceMember[] }>(`/api/alliance/members/${pathEncode(userId)}`, { role }));
+  return data.members;
+}
+
+export async function removeMember(userId: string): Promise<void> {
+  await mutateAlliance(`Remove ${userId}`, () => apiDelete(`/api/alliance/members/${pathEncode(userId)}`));
+}
+
+// ─── Plan ───────────────────────────────────────────────────
+
+export async function fetchAlliancePlan(): Promise<AlliancePlanItem[]> {
+  const data = await apiFetch<{ items: AlliancePlanItem[] }>("/api/alliance/plan");
+  return data.items;
+}
+
+export async function createAlliancePlanItem(
+  input: { title: string; notes?: string | null; dueAt?: string | null },
+): Promise<AlliancePlanItem> {
+  return mutateAlliance("Add plan item", () => apiPost<AlliancePlanItem>("/api/alliance/plan", input));
+}
+
+export async function updateAlliancePlanItem(
+  id: number,
+  input: Partial<Pick<AlliancePlanItem, "title" | "notes" | "dueAt" | "status">>,
+): Promise<AlliancePlanItem> {
+  return mutateAlliance(`Update plan item ${id}`, () =>
+    apiPatch<AlliancePlanItem>(`/api/alliance/plan/${pathEncode(id)}`, input));
+}
+
+export async function deleteAlliancePlanItem(id: number): Promise<void> {
+  await mutateAlliance(`Delete plan item ${id}`, () => apiDelete(`/api/alliance/plan/${pathEncode(id)}`));
+}
+
+// ─── Targets ────────────────────────────────────────────────
+
+export async function fetchAllianceTargets(): Promise<AllianceTarget[]> {
+  const data = await apiFetch<{ targets: AllianceTarget[] }>("/api/alliance/targets");
+  return data.targets;
+}
+
+export async function createAllianceTarget(input: {
+  targetType: AllianceTargetType;
+  label: string;
+  refId?: string | null;
+  priority?: number;
+  notes?: string | null;
+}): Promise<AllianceTarget> {
+  return mutateAlliance("Add alliance target", () => apiPost<AllianceTarget>("/api/alliance/targets", input));
+}
+
+export async function deleteAllianceTarget(id: number): Promise<void> {
+  await mutateAlliance(`Delete alliance target ${id}`, () => apiDelete(`/api/alliance/targets/${pathEncode(id)}`));
+}
+
+// ─── Armadas ────────────────────────────────────────────────
+
+/** Scheduled armadas, soonest first; `upcoming` hides ones that started over an hour ago. */
+export async function fetchArmadas(upcoming?: boolean): Promise<AllianceArmada[]> {
+  const data = await apiFetch<{ armadas: AllianceArmada[] }>(`/api/alliance/armadas${qs({ upcoming })}`);
+  return data.armadas;
+}
+
+export async function createArmada(
+  input: { name?: string | null; hostileId?: string | null; startsAt: string; minParticipants?: number | null; notes?: string | null },
+): Promise<AllianceArmada> {
+  return mutateAlliance("Schedule armada", () => apiPost<AllianceArmada>("/api/alliance/armadas", input));
+}
+
+export async function deleteArmada(id: number): Promise<void> {
+  await mutateAlliance(`Cancel armada ${id}`, () => apiDelete(`/api/alliance/armadas/${pathEncode(id)}`));
+}
+
+/** Sign up for an armada, or update your sign-up. A catalog ship is checked against your dock state. */
+export async function signUpForArmada(
+  id: number,
+  input: { shipRefId?: string | null; loadoutId?: number | null; shipName?: string | null; note?: string | null },
+): Promise<AllianceArmada> {
+  return mutateAlliance(`Sign up for armada ${id}`, () =>
+    apiPost<AllianceArmada>(`/api/alliance/armadas/${pathEncode(id)}/signup`, input));
+}
+
+export async function withdrawFromArmada(id: number): Promise<AllianceArmada> {
+  return mutateAlliance(`Withdraw from armada ${id}`, () =>
+    apiDelete<AllianceArmada>(`/api/alliance/armadas/${pathEncode(id)}/signup`));
+}
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createApiToken, fetchApiTokens, revokeApiToken } from "./auth.js";
+import { adminListTokens, adminRevokeToken } from "./admiral.js";
+
+function respond(data: unknown, status = 200) {
+  const body = status < 400 ? { ok: true, data } : { ok: false, error: data };
+  return vi.fn(async () => new Response(JSON.stringify(body), { status }));
+}
+
+describe("personal access token API", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("lists tokens with the scopes on offer", async () => {
+    const fetchMock = respond({ tokens: [], scopes: ["catalog:read", "chat:run"], authEnabled: true });
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect(await fetchApiTokens()).toEqual({ tokens: [], scopes: ["catalog:read", "chat:run"], authEnabled: true });
+    expect((fetchMock.mock.calls[0] as unknown as [string])[0]).toBe("/api/auth/tokens");
+  });
+
+  it("creates a token and returns the one-time secret", async () => {
+    const fetchMock = respond({ token: { id: 4, name: "Sheet" }, secret: "mjl_pat_abc" }, 201);
+    vi.stubGlobal("fetch", fetchMock);
+
+    const created = await createApiToken({ name: "Sheet", scopes: ["catalog:read"], expiresInDays: null });
+    expect(created.secret).toBe("mjl_pat_abc");
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("/api/auth/tokens");
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(init.body as string)).toEqual({ name: "Sheet", scopes: ["catalog:read"], expiresInDays: null });
+  });
+
+  it("revokes own and, as Admiral, anyone's tokens", async () => {
+    const fetchMock = respond({ revoked: true });
+    vi.stubGlobal("fetch", fetchMock);
+
+    await revokeApiToken(4);
+    await adminRevokeToken(9);
+
+    const calls = fetchMock.mock.calls as unknown as [string, RequestInit][];
+    expect(calls.map(([url, init]) => `${init.method} ${url}`)).toEqual([
+      "DELETE /api/auth/tokens/4",
+      "DELETE /api/admiral/tokens/9",
+    ]);
+  });
+
+  it("lists every token for the Admiral console", async () => {
+    vi.stubGlobal("fetch", respond({ tokens: [{ id: 9, ownerEmail: "uhura@example.com" }], count: 1 }));
+    expect(await adminListTokens()).toEqual([{ id: 9, ownerEmail: "uhura@example.com" }]);
+  });
+
+  it("surfaces the per-account limit", async () => {
+    vi.stubGlobal("fetch", respond({ code: "CONFLICT", message: "At most 20 active tokens per account" }, 409));
+    await expect(createApiToken({ name: "One more", scopes: ["chat:run"], expiresInDays: 30 })).rejects.toThrow(/At most 20 active tokens/);
+  });
+});
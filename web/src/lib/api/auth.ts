@@ -1,11 +1,11 @@
 /**
- * Auth API — login status check.
+ * Auth API — login status check, MCP client tokens and personal access tokens.
  * Full login/signup/verify flows are server-rendered on the landing page,
- * so only getMe() and logout() are needed here.
+ * so only getMe(), logout() and the token helpers are needed here.
  */
 
-import type { User } from "../types.js";
-import { apiFetch, ApiError } from "./fetch.js";
+import type { ApiToken, ApiTokenScope, User } from "../types.js";
+import { apiFetch, apiPost, apiDelete, ApiError } from "./fetch.js";
 import { runLockedMutation } from "./mutation.js";
 
 /** Fetch the current authenticated user, or null if not logged in. */
@@ -33,3 +33,59 @@ export async function postLogout(): Promise<void> {
     },
   });
 }
+
+/** Bearer token issued to a desktop MCP client. `token` is null when auth is disabled. */
+export interface McpClientToken {
+  token: string | null;
+  authEnabled: boolean;
+  endpoint: string;
+  expiresAt?: string;
+}
+
+/** Mint a 30-day API token limited to the MCP endpoint ("mcp" scope). */
+export async function createMcpToken(): Promise<McpClientToken> {
+  return runLockedMutation({
+    label: "Create MCP token",
+    lockKey: "auth:mcp-token",
+    mutate: () => apiPost<McpClientToken>("/api/mcp/token", {}),
+  });
+}
+
+// ─── Personal Access Tokens ─────────────────────────────────
+
+export interface ApiTokenList {
+  tokens: ApiToken[];
+  scopes: ApiTokenScope[];
+  authEnabled: boolean;
+}
+
+export interface NewApiToken {
+  name: string;
+  scopes: ApiTokenScope[];
+  /** Days until expiry; null = never expires. */
+  expiresInDays: number | null;
+}
+
+/** List the current user's tokens (including revoked/expired) and the scopes on offer. */
+export async function fetchApiTokens(): Promise<ApiTokenList> {
+  return apiFetch<ApiTokenList>("/api/auth/tokens");
+}
+
+/** Create a scoped token. The returned `secret` is shown once and never again. */
+export async function createApiToken(input: NewApiToken): Promise<{ token: ApiToken; secret: string }> {
+  return runLockedMutation({
+    label: `Create API token ${input.name}`,
+    lockKey: "auth:api-token:create",
+    mutate: () => apiPost<{ token: ApiToken; secret: string }>("/api/auth/tokens", input),
+  });
+}
+
+export async function revokeApiToken(id: number): Promise<void> {
+  await runLockedMutation({
+    label: `Revoke API token ${id}`,
+    lockKey: `auth:api-token:${id}`,
+    mutate: async () => {
+      await apiDelete(`/api/auth/tokens/${id}`);
+    },
+  });
+}
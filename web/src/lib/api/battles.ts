@@ -0,0 +1,52 @@
+/**
+ * Battle reports API — combat report import, replay, deletion, and history analytics.
+ * All functions throw ApiError on failure.
+ */
+
+import { apiDelete, apiFetch, apiPost, pathEncode, qs } from "./fetch.js";
+import type { BattleAnalytics, BattleLogFormat, BattleOutcome, BattleReplay, BattleReportSummary } from "../types.js";
+import { runLockedMutation } from "./mutation.js";
+
+/** Import an exported combat report (JSON or CSV text). */
+export async function importBattleReport(input: {
+  content: string;
+  fileName?: string;
+  format?: BattleLogFormat;
+  loadoutId?: number;
+  outcome?: BattleOutcome;
+}): Promise<BattleReportSummary> {
+  return runLockedMutation({
+    label: `Import battle report ${input.fileName ?? ""}`.trim(),
+    lockKey: "battles",
+    mutate: async () => {
+      const data = await apiPost<{ report: BattleReportSummary }>("/api/battles/import", input);
+      return data.report;
+    },
+  });
+}
+
+/** Fetch stored battle reports, newest first. */
+export async function fetchBattleReports(limit?: number): Promise<BattleReportSummary[]> {
+  const data = await apiFetch<{ reports: BattleReportSummary[] }>(`/api/battles${qs({ limit })}`);
+  return data.reports;
+}
+
+/** Fetch a battle report with its round-by-round replay series. */
+export async function fetchBattleReport(id: number): Promise<{ report: BattleReportSummary; replay: BattleReplay }> {
+  return apiFetch<{ report: BattleReportSummary; replay: BattleReplay }>(`/api/battles/${pathEncode(id)}`);
+}
+
+/** Delete a stored battle report. */
+export async function deleteBattleReport(id: number): Promise<void> {
+  await runLockedMutation({
+    label: `Delete battle report ${id}`,
+    lockKey: "battles",
+    mutate: () => apiDelete(`/api/battles/${pathEncode(id)}`),
+  });
+}
+
+/** Win rates, failure causes and fired abilities across stored reports. */
+export async function fetchBattleAnalytics(filters?: { mode?: string; days?: number }): Promise<BattleAnalytics> {
+  const data = await apiFetch<{ analytics: BattleAnalytics }>(`/api/battles/analytics${qs({ mode: filters?.mode, days: filters?.days })}`);
+  return data.analytics;
+}
@@ -6,6 +6,7 @@ import type {
   CatalogOfficer,
   CatalogShip,
   CatalogCounts,
+  CatalogHostile,
   OfficerOverlayPatch,
   ShipOverlayPatch,
   OfficerOverlayResponse,
@@ -70,6 +71,12 @@ export async function fetchCatalogShips(filters?: ShipFilters, opts?: FetchOpts)
   return data;
 }
 
+/** Search reference hostiles by name (at least 2 characters). */
+export async function searchCatalogHostiles(q: string): Promise<CatalogHostile[]> {
+  const data = await apiFetch<{ hostiles: CatalogHostile[] }>(`/api/catalog/hostiles${qs({ q })}`);
+  return data.hostiles;
+}
+
 /** Fetch catalog counts (SWR-cached). */
 export async function fetchCatalogCounts(): Promise<CatalogCounts> {
   const key = cacheKey("/api/catalog/counts");
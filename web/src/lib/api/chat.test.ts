@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { applyStreamedText, sendChat } from "./chat.js";
+
+describe("applyStreamedText", () => {
+  it("appends text at the current end", () => {
+    expect(applyStreamedText("Your fleet ", { offset: 11, text: "is ready." })).toBe("Your fleet is ready.");
+  });
+
+  it("replaces everything from the offset on", () => {
+    expect(applyStreamedText("Draft answer", { offset: 0, text: "" })).toBe("");
+    expect(applyStreamedText("Your fleet is", { offset: 5, text: "ships are" })).toBe("Your ships are");
+  });
+
+  it("ignores gaps and malformed events", () => {
+    expect(applyStreamedText("abc", { offset: 7, text: "x" })).toBe("abc");
+    expect(applyStreamedText("abc", { offset: "0", text: "x" })).toBe("abc");
+    expect(applyStreamedText("abc", null)).toBe("abc");
+  });
+});
+
+describe("sendChat branching", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("sends the branch target and returns the stored message IDs", async () => {
+    const fetchMock = vi.fn(async (path: string) => {
+      const data = path === "/api/chat"
+        ? { runId: "crun_1", status: "queued" }
+        : { runId: "crun_1", status: "succeeded", answer: "Pike, Number One, Moreau", proposals: [], trace: null, messageIds: { user: 7, model: 8 } };
+      return new Response(JSON.stringify({ ok: true, data }), { status: 200 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await sendChat("s1", "PvP crew?", undefined, "tab-1", undefined, undefined, { editMessageId: 3 });
+
+    const body = JSON.parse(String((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body));
+    expect(body).toMatchObject({ message: "PvP crew?", editMessageId: 3 });
+    expect(result.messageIds).toEqual({ user: 7, model: 8 });
+  });
+});
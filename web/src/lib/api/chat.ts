@@ -2,7 +2,7 @@
  * Chat API — send messages, load history, search recall.
  */
 
-import type { ChatImage, ChatResponse, ChatTrace, HistoryResponse, RecallResponse, BudgetStatus } from "../types.js";
+import type { ChatImage, ChatMessageIds, ChatResponse, ChatTrace, HistoryResponse, RecallResponse, BudgetStatus } from "../types.js";
 import { apiFetch, apiPost, qs } from "./fetch.js";
 import { runLockedMutation } from "./mutation.js";
 
@@ -21,8 +21,20 @@ export interface RunProgressCallbacks {
   onQueued?: () => void;
   onStarted?: (model?: string) => void;
   onProgress?: (elapsedMs: number) => void;
+  /** Answer text streamed so far — provisional, replaced by the final answer. */
+  onText?: (text: string) => void;
+  /** A fleet tool call started or finished while the answer is generated. */
+  onTool?: (tool: string, phase: "started" | "completed") => void;
 }
 
+/** Branch the thread instead of appending: replace a user message or regenerate a reply. */
+export type ChatBranchTarget =
+  | { editMessageId: number }
+  | { regenerateMessageId: number };
+
+/** Reconnect attempts before falling back to the run snapshot. */
+const MAX_STREAM_RECONNECTS = 3;
+
 interface ChatSubmitResponse {
   runId: string;
   sessionId?: string;
@@ -51,6 +63,25 @@ interface ChatRunStatusResponse {
   proposals: ChatResponse["proposals"];
   trace: ChatResponse["trace"] | null;
   mutations?: string[];
+  messageIds?: ChatMessageIds | null;
+}
+
+/**
+ * Apply a `run.text` event ({ offset, text }: replace everything from offset
+ * on) to the text streamed so far. A gap leaves the text unchanged — the
+ * final answer fills it in.
+ */
+export function applyStreamedText(current: string, data: unknown): string {
+  if (!data || typeof data !== "object") return current;
+  const { offset, text } = data as { offset?: unknown; text?: unknown };
+  if (typeof offset !== "number" || typeof text !== "string" || offset < 0 || offset > current.length) return current;
+  return current.slice(0, offset) + text;
+}
+
+function parseMessageIds(raw: unknown): ChatMessageIds | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const { user, model } = raw as { user?: unknown; model?: unknown };
+  return typeof user === "number" && typeof model === "number" ? { user, model } : undefined;
 }
 
 function parseStreamData(raw: string): StreamEventData | null {
@@ -90,6 +121,7 @@ async function readRunSnapshot(runId: string): Promise<ChatResponse> {
     proposals: status.proposals,
     trace: status.trace ?? undefined,
     mutations: status.mutations ?? undefined,
+    messageIds: status.messageIds ?? undefined,
   };
 }
 
@@ -111,6 +143,8 @@ function waitForRunCompletion(
   return new Promise((resolve, reject) => {
     const source = new EventSource(streamUrl);
     let settled = false;
+    let streamedText = "";
+    let reconnects = 0;
 
     const finish = (fn: () => void): void => {
       if (settled) return;
@@ -135,6 +169,7 @@ function waitForRunCompletion(
           proposals: Array.isArray(payload.proposals) ? (payload.proposals as ChatResponse["proposals"]) : undefined,
           trace: (payload.trace as ChatResponse["trace"] | undefined) ?? undefined,
           mutations: Array.isArray(payload.mutations) ? (payload.mutations as string[]) : undefined,
+          messageIds: parseMessageIds(payload.messageIds),
         });
       });
     };
@@ -145,8 +180,18 @@ function waitForRunCompletion(
         .catch((err) => finish(() => reject(err instanceof Error ? err : new Error("Chat run timed out"))));
     }, timeoutMs);
 
+    source.onopen = () => {
+      reconnects = 0;
+    };
+
     source.onerror = () => {
-      // Single fallback attempt on SSE error — no unbounded polling
+      // The browser reconnects with Last-Event-ID: durable events replay and
+      // the streamed text is resent, so a dropped connection loses nothing.
+      if (source.readyState === EventSource.CONNECTING && reconnects < MAX_STREAM_RECONNECTS) {
+        reconnects++;
+        return;
+      }
+      // Single fallback attempt once reconnecting fails — no unbounded polling
       void readRunSnapshot(runId)
         .then((result) => finish(() => resolve(result)))
         .catch((err) => finish(() => reject(err instanceof Error ? err : new Error("AI request failed"))));
@@ -176,6 +221,23 @@ function waitForRunCompletion(
       if (elapsedMs !== undefined) callbacks?.onProgress?.(elapsedMs);
     });
 
+    // ── Streaming output ──
+
+    source.addEventListener("run.text", (event) => {
+      if (settled) return;
+      const next = applyStreamedText(streamedText, parseStreamData((event as MessageEvent).data));
+      if (next === streamedText) return;
+      streamedText = next;
+      callbacks?.onText?.(streamedText);
+    });
+
+    source.addEventListener("run.tool", (event) => {
+      if (settled) return;
+      const parsed = parseStreamData((event as MessageEvent).data) as { tool?: unknown; phase?: unknown } | null;
+      if (typeof parsed?.tool !== "string" || (parsed.phase !== "started" && parsed.phase !== "completed")) return;
+      callbacks?.onTool?.(parsed.tool, parsed.phase);
+    });
+
     // ── Terminal events ──
 
     source.addEventListener("run.completed", (event) => {
@@ -238,6 +300,7 @@ export async function cancelRun(runId: string): Promise<void> {
  *
  * @param onRunId  — Called with the runId once the run is submitted (before completion)
  * @param progress — Callbacks for run lifecycle events (queued/started/progress)
+ * @param branch   — Edit or regenerate an earlier message on a new branch
  */
 export async function sendChat(
   sessionId: string,
@@ -246,6 +309,7 @@ export async function sendChat(
   tabId?: string,
   onRunId?: (runId: string) => void,
   progress?: RunProgressCallbacks,
+  branch?: ChatBranchTarget,
 ): Promise<ChatResponse> {
   return runLockedMutation({
     label: "Send chat message",
@@ -254,7 +318,7 @@ export async function sendChat(
       const submit = await apiFetch<ChatSubmitResponse>("/api/chat", {
         method: "POST",
         headers: { "X-Session-Id": sessionId },
-        body: JSON.stringify({ message, async: true, ...(tabId && { tabId }), ...(image && { image }) }),
+        body: JSON.stringify({ message, async: true, ...(tabId && { tabId }), ...(image && { image }), ...branch }),
       });
 
       if (typeof submit.runId !== "string" || !submit.runId) {
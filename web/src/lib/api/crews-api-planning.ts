@@ -6,6 +6,11 @@ import type {
   PlanSource,
   OfficerReservation,
   EffectiveDockState,
+  SolverComparison,
+  SolverMode,
+  SolverResult,
+  DockSchedule,
+  PlanWindow,
 } from "../types.js";
 import { apiFetch, apiDelete, apiPatch, apiPost, apiPut, pathEncode, qs } from "./fetch.js";
 import { cachedFetch } from "../cache/cached-fetch.js";
@@ -170,6 +175,8 @@ export interface PlanItemInput {
   priority?: number;
   isActive?: boolean;
   notes?: string;
+  window?: PlanWindow | null;
+  shipInstanceId?: string | null;
 }
 
 export async function fetchCrewPlanItems(filters?: PlanFilters, opts?: FetchOpts): Promise<PlanItem[]> {
@@ -305,3 +312,27 @@ export async function fetchEffectiveState(opts?: FetchOpts): Promise<EffectiveDo
   );
   return data;
 }
+
+/** Preview greedy vs optimal solver output side by side (never cached — always fresh). */
+export async function fetchSolverComparison(): Promise<SolverComparison> {
+  const data = await apiFetch<{ comparison: SolverComparison }>(`/api/crew/plan/solve${qs({ mode: "compare" })}`);
+  return data.comparison;
+}
+
+export async function applySolver(mode: SolverMode): Promise<SolverResult> {
+  return runLockedMutation({
+    label: `Apply ${mode} plan solver`,
+    lockKey: "crew-plan:solve",
+    mutationKey: "crew-plan",
+    mutate: async () => {
+      const res = await apiPost<{ result: SolverResult }>("/api/crew/plan/solve", { mode, apply: true });
+      return res.result;
+    },
+  });
+}
+
+/** Per-dock timeline for the next `hours` (never cached — depends on the clock). */
+export async function fetchDockSchedule(hours = 24, mode: SolverMode = "greedy"): Promise<DockSchedule> {
+  const data = await apiFetch<{ schedule: DockSchedule }>(`/api/crew/plan/schedule${qs({ hours, mode })}`);
+  return data.schedule;
+}
@@ -20,4 +20,7 @@ export {
   setReservation,
   deleteReservation,
   fetchEffectiveState,
+  fetchSolverComparison,
+  applySolver,
+  fetchDockSchedule,
 } from "./crews.js";
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createDecision, fetchDecisions, updateDecision } from "./decisions.js";
+
+function respond(data: unknown, status = 200) {
+  const body = status < 400 ? { ok: true, data } : { ok: false, error: data };
+  return vi.fn(async () => new Response(JSON.stringify(body), { status }));
+}
+
+describe("fleet decisions API", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("lists decisions with counts, optionally by status", async () => {
+    const fetchMock = respond({ decisions: [], count: 0, counts: { active: 0, invalidated: 2 } });
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect(await fetchDecisions("invalidated")).toEqual({ decisions: [], counts: { active: 0, invalidated: 2 } });
+    expect((fetchMock.mock.calls[0] as unknown as [string])[0]).toBe("/api/decisions?status=invalidated");
+  });
+
+  it("re-activates a decision with PATCH", async () => {
+    const fetchMock = respond({ id: 3, status: "active" });
+    vi.stubGlobal("fetch", fetchMock);
+
+    await updateDecision(3, { status: "active" });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("/api/decisions/3");
+    expect(init.method).toBe("PATCH");
+    expect(JSON.parse(init.body as string)).toEqual({ status: "active" });
+  });
+
+  it("surfaces the limit error", async () => {
+    vi.stubGlobal("fetch", respond({ code: "CONFLICT", message: "At most 100 decisions can be stored — delete some first" }, 409));
+    await expect(createDecision({ kind: "goal", statement: "x" })).rejects.toThrow(/At most 100 decisions/);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Fleet decisions API — what Aria remembers the Admiral has decided.
+ * All functions throw ApiError on failure.
+ */
+
+import { apiDelete, apiFetch, apiPatch, apiPost, pathEncode, qs } from "./fetch.js";
+import type { DecisionKind, DecisionList, DecisionStatus, FleetDecision } from "../types.js";
+import { runLockedMutation } from "./mutation.js";
+
+/** Fetch decisions, newest first. Invalidations from overlay changes are applied first. */
+export async function fetchDecisions(status?: DecisionStatus): Promise<DecisionList> {
+  const data = await apiFetch<DecisionList>(`/api/decisions${qs({ status })}`);
+  return { decisions: data.decisions, counts: data.counts };
+}
+
+/** Add a decision by hand. */
+export async function createDecision(input: { kind: DecisionKind; statement: string }): Promise<FleetDecision> {
+  return runLockedMutation({
+    label: "Add decision",
+    lockKey: "decisions",
+    mutate: () => apiPost<FleetDecision>("/api/decisions", input),
+  });
+}
+
+/** Edit a decision. Setting status "active" re-affirms an invalidated one. */
+export async function updateDecision(
+  id: number,
+  input: Partial<Pick<FleetDecision, "kind" | "statement" | "status" | "assumesOwnership" | "assumesTarget">>,
+): Promise<FleetDecision> {
+  return runLockedMutation({
+    label: `Update decision ${id}`,
+    lockKey: "decisions",
+    mutate: () => apiPatch<FleetDecision>(`/api/decisions/${pathEncode(id)}`, input),
+  });
+}
+
+/** Forget a decision. */
+export async function deleteDecision(id: number): Promise<void> {
+  await runLockedMutation({
+    label: `Delete decision ${id}`,
+    lockKey: "decisions",
+    mutate: () => apiDelete(`/api/decisions/${pathEncode(id)}`),
+  });
+}
@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { exportSession, importSession } from "./sessions.js";
+
+function respond(data: unknown, status = 200) {
+  const body = status < 400 ? { ok: true, data } : { ok: false, error: data };
+  return vi.fn(async () => new Response(JSON.stringify(body), { status }));
+}
+
+describe("session export and import", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("turns a JSON export into a downloadable file", async () => {
+    const doc = { format: "majel.session", version: 1, messages: [] };
+    const fetchMock = respond({ filename: "crew.majel.json", export: doc });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const file = await exportSession("s 1", "json");
+
+    expect((fetchMock.mock.calls[0] as unknown as [string])[0]).toBe("/api/sessions/s%201/export?format=json");
+    expect(file).toEqual({ filename: "crew.majel.json", mimeType: "application/json", content: JSON.stringify(doc, null, 2) });
+  });
+
+  it("returns Markdown exports as text", async () => {
+    vi.stubGlobal("fetch", respond({ filename: "crew.md", markdown: "# Crew\n" }));
+    expect(await exportSession("s1", "markdown")).toEqual({ filename: "crew.md", mimeType: "text/markdown", content: "# Crew\n" });
+  });
+
+  it("surfaces the server's reason for rejecting an import", async () => {
+    vi.stubGlobal("fetch", respond({ code: "INVALID_PARAM", message: "Unsupported version 9 — this server reads version 1" }, 400));
+    await expect(importSession({ format: "majel.session", version: 9 })).rejects.toThrow(/Unsupported version 9/);
+  });
+});
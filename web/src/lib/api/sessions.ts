@@ -1,9 +1,9 @@
 /**
- * Sessions API — list, restore, delete chat sessions.
+ * Sessions API — list, restore, delete, export, import and share chat sessions.
  */
 
-import type { ChatSession, SessionSummary } from "../types.js";
-import { apiFetch, apiDelete, pathEncode, qs } from "./fetch.js";
+import type { ChatSession, SessionExportFile, SessionShareLink, SessionSummary } from "../types.js";
+import { apiFetch, apiDelete, apiPost, pathEncode, qs } from "./fetch.js";
 import { runLockedMutation } from "./mutation.js";
 
 /**
@@ -33,6 +33,59 @@ export async function restoreSession(id: string): Promise<ChatSession | null> {
   }
 }
 
+/**
+ * Switch a forked session to the branch containing `messageId`.
+ * Returns the session's new active branch, or null on failure.
+ */
+export async function selectBranch(sessionId: string, messageId: number): Promise<ChatSession | null> {
+  try {
+    return await runLockedMutation({
+      label: `Switch branch in session ${sessionId}`,
+      lockKey: `session:${sessionId}`,
+      mutate: () => apiPost<ChatSession>(`/api/sessions/${pathEncode(sessionId)}/branch`, { messageId }),
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Export a session: Markdown (the branch on screen) or "majel.session"
+ * JSON (every branch, with tool calls and proposal ids). Throws ApiError.
+ */
+export async function exportSession(id: string, format: "markdown" | "json"): Promise<SessionExportFile> {
+  const data = await apiFetch<{ filename: string; markdown?: string; export?: unknown }>(
+    `/api/sessions/${pathEncode(id)}/export${qs({ format })}`,
+  );
+  return format === "markdown"
+    ? { filename: data.filename, mimeType: "text/markdown", content: data.markdown ?? "" }
+    : { filename: data.filename, mimeType: "application/json", content: JSON.stringify(data.export, null, 2) };
+}
+
+/**
+ * Import an exported JSON session as a new session.
+ * Throws ApiError with the server's reason when the file is rejected.
+ */
+export async function importSession(doc: unknown): Promise<ChatSession> {
+  return runLockedMutation({
+    label: "Import session",
+    lockKey: "session:import",
+    mutate: () => apiPost<ChatSession>("/api/sessions/import", doc),
+  });
+}
+
+/**
+ * Create a read-only share link for the branch on screen. Throws ApiError
+ * (503 when the server has no share secret configured).
+ */
+export async function shareSession(id: string, expiresInHours: number): Promise<SessionShareLink> {
+  return runLockedMutation({
+    label: `Share session ${id}`,
+    lockKey: `session:${id}`,
+    mutate: () => apiPost<SessionShareLink>(`/api/sessions/${pathEncode(id)}/share`, { expiresInHours }),
+  });
+}
+
 /**
  * Delete a session by ID.
  * Returns true on success, false on failure.
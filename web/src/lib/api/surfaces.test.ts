@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createLinkCode, fetchSurfaces, unlinkSurface } from "./surfaces.js";
+import { adminCreateSurface, adminRotateSurfaceSecret, adminUpdateSurface } from "./admiral.js";
+
+function respond(data: unknown, status = 200) {
+  const body = status < 400 ? { ok: true, data } : { ok: false, error: data };
+  return vi.fn(async () => new Response(JSON.stringify(body), { status }));
+}
+
+describe("chat bots API", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("lists bots and linked accounts", async () => {
+    const fetchMock = respond({ surfaces: [{ id: 1, name: "Discord" }], links: [] });
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect(await fetchSurfaces()).toEqual({ surfaces: [{ id: 1, name: "Discord" }], links: [] });
+    expect((fetchMock.mock.calls[0] as unknown as [string])[0]).toBe("/api/surfaces");
+  });
+
+  it("issues a link code and unlinks an account by encoded id", async () => {
+    const fetchMock = respond({ code: "ABCD-EFGH", expiresAt: "2026-10-19T12:10:00.000Z", command: "link ABCD-EFGH" }, 201);
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect((await createLinkCode(1)).command).toBe("link ABCD-EFGH");
+    await unlinkSurface(1, "user#1701");
+
+    const calls = fetchMock.mock.calls as unknown as [string, RequestInit][];
+    expect(calls.map(([url, init]) => `${init.method} ${url}`)).toEqual([
+      "POST /api/surfaces/1/link-code",
+      "DELETE /api/surfaces/1/links/user%231701",
+    ]);
+  });
+
+  it("registers, pauses and rotates bots as Admiral", async () => {
+    const fetchMock = respond({ surface: { id: 2, enabled: false }, secret: "cssec_abc", id: 2 }, 201);
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect((await adminCreateSurface("Discord", "https://bot.example.com/majel")).secret).toBe("cssec_abc");
+    expect(await adminUpdateSurface(2, { enabled: false })).toEqual({ id: 2, enabled: false });
+    expect(await adminRotateSurfaceSecret(2)).toBe("cssec_abc");
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(`${init.method} ${url}`).toBe("POST /api/admiral/surfaces");
+    expect(JSON.parse(init.body as string)).toEqual({ name: "Discord", callbackUrl: "https://bot.example.com/majel" });
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Chat bots API — link a Discord (or other) account to Majel so the bot
+ * can relay messages to Aria. Bots themselves are registered by Admirals
+ * (see admiral.ts). All functions throw ApiError on failure.
+ */
+
+import { apiDelete, apiFetch, apiPost, pathEncode } from "./fetch.js";
+import type { ChatSurfaceLink } from "../types.js";
+import { runLockedMutation } from "./mutation.js";
+
+export interface SurfaceList {
+  /** Enabled bots the user can link to. */
+  surfaces: { id: number; name: string }[];
+  links: ChatSurfaceLink[];
+}
+
+export interface LinkCode {
+  code: string;
+  expiresAt: string;
+  /** What to send the bot, e.g. "link ABCD-EFGH". */
+  command: string;
+}
+
+/** List the bots on offer and the user's linked platform accounts. */
+export async function fetchSurfaces(): Promise<SurfaceList> {
+  return apiFetch<SurfaceList>("/api/surfaces");
+}
+
+/** Issue a one-time link code for a bot, replacing any earlier unused one. */
+export async function createLinkCode(surfaceId: number): Promise<LinkCode> {
+  return apiPost<LinkCode>(`/api/surfaces/${pathEncode(surfaceId)}/link-code`, {});
+}
+
+/** Unlink one of the user's platform accounts from a bot. */
+export async function unlinkSurface(surfaceId: number, platformUserId: string): Promise<void> {
+  await runLockedMutation({
+    label: "Unlink chat bot account",
+    lockKey: `surfaces:${surfaceId}:${platformUserId}`,
+    mutate: () => apiDelete(`/api/surfaces/${pathEncode(surfaceId)}/links/${pathEncode(platformUserId)}`),
+  });
+}
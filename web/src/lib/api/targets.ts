@@ -0,0 +1,31 @@
+/**
+ * Targets API — dependency graph and prerequisite links between targets.
+ * All functions throw ApiError on failure.
+ */
+
+import { apiDelete, apiFetch, apiPost, pathEncode } from "./fetch.js";
+import type { TargetDependency, TargetGraph } from "../types.js";
+import { runLockedMutation } from "./mutation.js";
+
+/** Fetch every target in work order with blocked status and percent-complete. */
+export async function fetchTargetGraph(): Promise<TargetGraph> {
+  return apiFetch<TargetGraph>("/api/targets/graph");
+}
+
+/** Make `targetId` wait on `dependsOnId`. Rejected with 409 when it would close a cycle. */
+export async function addTargetDependency(targetId: number, dependsOnId: number): Promise<TargetDependency> {
+  return runLockedMutation({
+    label: `Link target ${targetId} to ${dependsOnId}`,
+    lockKey: `target:${targetId}`,
+    mutate: () => apiPost<TargetDependency>(`/api/targets/${pathEncode(targetId)}/dependencies`, { dependsOnId }),
+  });
+}
+
+/** Remove a prerequisite link. */
+export async function removeTargetDependency(targetId: number, dependsOnId: number): Promise<void> {
+  await runLockedMutation({
+    label: `Unlink target ${targetId} from ${dependsOnId}`,
+    lockKey: `target:${targetId}`,
+    mutate: () => apiDelete(`/api/targets/${pathEncode(targetId)}/dependencies/${pathEncode(dependsOnId)}`),
+  });
+}
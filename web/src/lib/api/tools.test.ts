@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchTools, runTool } from "./tools.js";
+
+function respond(data: unknown, status = 200) {
+  const body = status < 400 ? { ok: true, data } : { ok: false, error: data };
+  return vi.fn(async () => new Response(JSON.stringify(body), { status }));
+}
+
+describe("tools API", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("lists tools", async () => {
+    const tool = { name: "list_targets", description: "List targets", inputSchema: { type: "object", properties: {} } };
+    vi.stubGlobal("fetch", respond({ tools: [tool], count: 1 }));
+    expect(await fetchTools()).toEqual([tool]);
+  });
+
+  it("runs a tool with POST", async () => {
+    const fetchMock = respond({ tool: "search_officers", args: { query: "Kirk" }, result: { officers: [] }, durationMs: 4 });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const run = await runTool("search_officers", { query: "Kirk" });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("/api/tools/search_officers/run");
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(init.body as string)).toEqual({ args: { query: "Kirk" } });
+    expect(run.result).toEqual({ officers: [] });
+  });
+
+  it("surfaces refusals", async () => {
+    vi.stubGlobal("fetch", respond({ code: "FORBIDDEN", message: "create_target changes fleet data and cannot be run directly" }, 403));
+    await expect(runTool("create_target", {})).rejects.toThrow(/cannot be run directly/);
+  });
+});
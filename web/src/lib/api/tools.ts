@@ -0,0 +1,19 @@
+/**
+ * Direct tool invocation API — backs the chat `/` command palette.
+ * Read tools only; runs cost no model tokens.
+ * All functions throw ApiError on failure.
+ */
+
+import { apiFetch, apiPost, pathEncode } from "./fetch.js";
+import type { ToolDescriptor, ToolRunResult } from "../types.js";
+
+/** Fetch the read tools with their argument schemas. */
+export async function fetchTools(): Promise<ToolDescriptor[]> {
+  const data = await apiFetch<{ tools: ToolDescriptor[] }>("/api/tools");
+  return data.tools;
+}
+
+/** Run a read tool with the given arguments. */
+export async function runTool(name: string, args: Record<string, unknown>): Promise<ToolRunResult> {
+  return apiPost<ToolRunResult>(`/api/tools/${pathEncode(name)}/run`, { args });
+}
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createWebhook,
+  deleteWebhook,
+  fetchWebhookDeliveries,
+  fetchWebhooks,
+  redeliverWebhook,
+  reportTimerCompleted,
+  updateWebhook,
+} from "./webhooks.js";
+import type { Timer } from "../types.js";
+
+function respond(data: unknown, status = 200) {
+  const body = status < 400 ? { ok: true, data } : { ok: false, error: data };
+  return vi.fn(async () => new Response(JSON.stringify(body), { status }));
+}
+
+describe("webhooks API", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("lists webhooks with the events on offer", async () => {
+    const fetchMock = respond({ webhooks: [], events: ["target.achieved"] });
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect(await fetchWebhooks()).toEqual({ webhooks: [], events: ["target.achieved"] });
+    expect((fetchMock.mock.calls[0] as unknown as [string])[0]).toBe("/api/webhooks");
+  });
+
+  it("creates a webhook and returns the one-time secret", async () => {
+    const fetchMock = respond({ webhook: { id: 3 }, secret: "whsec_abc" }, 201);
+    vi.stubGlobal("fetch", fetchMock);
+
+    const created = await createWebhook({ url: "https://bot.example.com/hook", events: ["timer.completed"] });
+    expect(created.secret).toBe("whsec_abc");
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(`${init.method} ${url}`).toBe("POST /api/webhooks");
+    expect(JSON.parse(init.body as string)).toEqual({ url: "https://bot.example.com/hook", events: ["timer.completed"] });
+  });
+
+  it("pauses, deletes and redelivers by id", async () => {
+    const fetchMock = respond({ webhook: { id: 3, enabled: false }, delivery: { id: 9 } });
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect(await updateWebhook(3, { enabled: false })).toEqual({ id: 3, enabled: false });
+    await deleteWebhook(3);
+    expect(await redeliverWebhook(3, 8)).toEqual({ id: 9 });
+
+    const calls = fetchMock.mock.calls as unknown as [string, RequestInit][];
+    expect(calls.map(([url, init]) => `${init.method} ${url}`)).toEqual([
+      "PATCH /api/webhooks/3",
+      "DELETE /api/webhooks/3",
+      "POST /api/webhooks/3/deliveries/8/redeliver",
+    ]);
+  });
+
+  it("reads the delivery log", async () => {
+    const fetchMock = respond({ deliveries: [{ id: 1, status: "failed" }], count: 1 });
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect(await fetchWebhookDeliveries(3, 20)).toEqual([{ id: 1, status: "failed" }]);
+    expect((fetchMock.mock.calls[0] as unknown as [string])[0]).toBe("/api/webhooks/3/deliveries?limit=20");
+  });
+
+  it("reports timer completions without surfacing failures", async () => {
+    const fetchMock = respond({ code: "UNAUTHORIZED", message: "Sign in" }, 401);
+    vi.stubGlobal("fetch", fetchMock);
+
+    const timer: Timer = {
+      id: "t1", label: "Dock 2", durationMs: 60_000, remainingMs: 0, state: "completed",
+      repeating: false, soundId: 0, createdAt: 0, completedCount: 1,
+    };
+    reportTimerCompleted(timer);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("/api/webhooks/timer-completed");
+    expect(JSON.parse(init.body as string)).toEqual({ timerId: "t1", label: "Dock 2", durationMs: 60_000, completedCount: 1 });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Webhooks API — outbound webhooks for fleet events and their delivery log.
+ * All functions throw ApiError on failure, except reportTimerCompleted,
+ * which is fire-and-forget.
+ */
+
+import { apiDelete, apiFetch, apiPatch, apiPost, pathEncode, qs } from "./fetch.js";
+import type { FleetEventType, Timer, Webhook, WebhookDelivery } from "../types.js";
+import { runLockedMutation } from "./mutation.js";
+
+export interface WebhookList {
+  webhooks: Webhook[];
+  events: FleetEventType[];
+}
+
+export interface NewWebhook {
+  url: string;
+  events: FleetEventType[];
+  description?: string | null;
+}
+
+/** List the current user's webhooks and the events on offer. */
+export async function fetchWebhooks(): Promise<WebhookList> {
+  return apiFetch<WebhookList>("/api/webhooks");
+}
+
+/** Add a webhook. The returned `secret` signs every delivery and is shown once. */
+export async function createWebhook(input: NewWebhook): Promise<{ webhook: Webhook; secret: string }> {
+  return runLockedMutation({
+    label: "Add webhook",
+    lockKey: "webhooks",
+    mutate: () => apiPost<{ webhook: Webhook; secret: string }>("/api/webhooks", input),
+  });
+}
+
+/** Edit a webhook; `enabled: false` pauses it. */
+export async function updateWebhook(
+  id: number,
+  input: Partial<Pick<Webhook, "url" | "events" | "enabled" | "description">>,
+): Promise<Webhook> {
+  const data = await runLockedMutation({
+    label: `Update webhook ${id}`,
+    lockKey: `webhooks:${id}`,
+    mutate: () => apiPatch<{ webhook: Webhook }>(`/api/webhooks/${pathEncode(id)}`, input),
+  });
+  return data.webhook;
+}
+
+/** Delete a webhook and its delivery log. */
+export async function deleteWebhook(id: number): Promise<void> {
+  await runLockedMutation({
+    label: `Delete webhook ${id}`,
+    lockKey: `webhooks:${id}`,
+    mutate: () => apiDelete(`/api/webhooks/${pathEncode(id)}`),
+  });
+}
+
+/** Recent deliveries of a webhook, newest first. */
+export async function fetchWebhookDeliveries(id: number, limit?: number): Promise<WebhookDelivery[]> {
+  const data = await apiFetch<{ deliveries: WebhookDelivery[] }>(`/api/webhooks/${pathEncode(id)}/deliveries${qs({ limit })}`);
+  return data.deliveries;
+}
+
+/** Send a signed webhook.ping and return its delivery. */
+export async function testWebhook(id: number): Promise<WebhookDelivery> {
+  const data = await apiPost<{ delivery: WebhookDelivery }>(`/api/webhooks/${pathEncode(id)}/test`, {});
+  return data.delivery;
+}
+
+/** Send a past delivery's payload again, as a new delivery. */
+export async function redeliverWebhook(id: number, deliveryId: number): Promise<WebhookDelivery> {
+  const data = await apiPost<{ delivery: WebhookDelivery }>(
+    `/api/webhooks/${pathEncode(id)}/deliveries/${pathEncode(deliveryId)}/redeliver`,
+    {},
+  );
+  return data.delivery;
+}
+
+/**
+ * Tell the server a timer finished so timer.completed webhooks fire.
+ * Timers live in the browser — this is the only way the server hears of it.
+ */
+export function reportTimerCompleted(timer: Timer): void {
+  apiPost("/api/webhooks/timer-completed", {
+    timerId: timer.id,
+    label: timer.label,
+    durationMs: Math.round(timer.durationMs),
+    completedCount: timer.completedCount,
+    ...(timer.sourceRef ? { sourceRef: timer.sourceRef } : {}),
+  }).catch(() => {
+    // Best-effort: signed out or offline just means no webhook
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * armada-timers.test.ts — Armada countdowns kept in sync with sign-ups.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+vi.mock("./timer-audio.js", () => ({
+  SOUND_NAMES: Array.from({ length: 10 }, (_, i) => `Sound${i}`),
+  playSound: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("./api/alliance.js", () => ({
+  fetchArmadas: vi.fn(),
+}));
+
+vi.mock("./auth.svelte.js", () => ({
+  getUser: () => ({ id: "sulu", email: "sulu@example.com", displayName: "Sulu", role: "lieutenant" }),
+}));
+
+const _storage: Record<string, string> = {};
+vi.stubGlobal("localStorage", {
+  getItem: (k: string) => _storage[k] ?? null,
+  setItem: (k: string, v: string) => { _storage[k] = v; },
+  removeItem: (k: string) => { delete _storage[k]; },
+  clear: () => { Object.keys(_storage).forEach((k) => delete _storage[k]); },
+});
+
+import { fetchArmadas } from "./api/alliance.js";
+import { armadaTimerRef, refreshArmadaTimers, syncArmadaTimers } from "./armada-timers.js";
+import { getTimers, stopTimer } from "./timer.svelte.js";
+import type { AllianceArmada } from "./types.js";
+
+const NOW = Date.parse("2026-03-02T18:00:00.000Z");
+
+function armada(id: number, signedUp: string[], startsAt = "2026-03-02T20:00:00.000Z"): AllianceArmada {
+  return {
+    id, name: `Armada ${id}`, hostileId: null, hostileName: null, startsAt, minParticipants: null, notes: null,
+    createdBy: "kirk", createdAt: "2026-03-01T00:00:00.000Z",
+    signups: signedUp.map((userId) => ({
+      userId, displayName: userId, shipRefId: null, shipName: null, loadoutId: null, loadoutName: null,
+      dockNumber: null, issues: [], checkedAt: null, note: null, createdAt: "2026-03-01T00:00:00.000Z",
+    })),
+  };
+}
+
+function armadaTimers() {
+  return getTimers().filter((t) => t.launchSource === "armada");
+}
+
+describe("syncArmadaTimers", () => {
+  beforeEach(() => {
+    getTimers().map((t) => t.id).forEach(stopTimer);
+    Object.keys(_storage).forEach((k) => delete _storage[k]);
+  });
+
+  it("starts a countdown for armadas you signed up for", () => {
+    syncArmadaTimers([armada(1, ["sulu"]), armada(2, ["kirk"])], "sulu", NOW);
+
+    const timers = armadaTimers();
+    expect(timers).toHaveLength(1);
+    expect(timers[0]).toMatchObject({ label: "Armada: Armada 1", sourceRef: "armada:1", durationMs: 2 * 3_600_000, state: "running" });
+  });
+
+  it("does not duplicate or resurrect a dismissed countdown", () => {
+    const list = [armada(1, ["sulu"])];
+    syncArmadaTimers(list, "sulu", NOW);
+    syncArmadaTimers(list, "sulu", NOW);
+    expect(armadaTimers()).toHaveLength(1);
+
+    stopTimer(armadaTimers()[0].id);
+    syncArmadaTimers(list, "sulu", NOW);
+    expect(armadaTimers()).toHaveLength(0);
+  });
+
+  it("skips armadas that already started", () => {
+    syncArmadaTimers([armada(1, ["sulu"], "2026-03-02T17:30:00.000Z")], "sulu", NOW);
+    expect(armadaTimers()).toHaveLength(0);
+  });
+
+  it("removes the countdown on withdrawal or cancellation", () => {
+    syncArmadaTimers([armada(1, ["sulu"]), armada(2, ["sulu"])], "sulu", NOW);
+    expect(armadaTimers()).toHaveLength(2);
+
+    syncArmadaTimers([armada(1, [])], "sulu", NOW);
+    expect(armadaTimers()).toHaveLength(0);
+
+    // Signing up again after withdrawing brings the countdown back
+    syncArmadaTimers([armada(1, ["sulu"])], "sulu", NOW);
+    expect(armadaTimers().map((t) => t.sourceRef)).toEqual([armadaTimerRef(1)]);
+  });
+});
+
+describe("refreshArmadaTimers", () => {
+  beforeEach(() => {
+    getTimers().map((t) => t.id).forEach(stopTimer);
+    Object.keys(_storage).forEach((k) => delete _storage[k]);
+  });
+
+  it("syncs the signed-in user's upcoming armadas", async () => {
+    const startsAt = new Date(Date.now() + 3_600_000).toISOString();
+    vi.mocked(fetchArmadas).mockResolvedValueOnce([armada(5, ["sulu"], startsAt)]);
+
+    await refreshArmadaTimers();
+    expect(fetchArmadas).toHaveBeenCalledWith(true);
+    expect(armadaTimers().map((t) => t.sourceRef)).toEqual(["armada:5"]);
+  });
+
+  it("ignores users outside an alliance", async () => {
+    vi.mocked(fetchArmadas).mockRejectedValueOnce(new Error("Not a member of an alliance"));
+    await expect(refreshArmadaTimers()).resolves.toBeUndefined();
+    expect(armadaTimers()).toHaveLength(0);
+  });
+});
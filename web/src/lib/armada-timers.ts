@@ -0,0 +1,94 @@
+/**
+ * armada-timers.ts — Countdown timers for armadas you signed up for.
+ *
+ * The timer bar keeps one countdown per upcoming armada the user is
+ * signed up for, tagged with sourceRef "armada:<id>". A countdown is
+ * created once per sign-up — dismissing it does not bring it back — and
+ * is removed again on withdrawal or when the armada is cancelled.
+ */
+
+import { fetchArmadas } from "./api/alliance.js";
+import { getUser } from "./auth.svelte.js";
+import { createTimer, getTimers, stopTimer } from "./timer.svelte.js";
+import type { AllianceArmada } from "./types.js";
+
+const SOURCE_PREFIX = "armada:";
+/** Armada refs that already got a countdown, so a dismissed one stays dismissed. */
+const STORAGE_KEY = "majel-armada-timers";
+
+export function armadaTimerRef(armadaId: number): string {
+  return `${SOURCE_PREFIX}${armadaId}`;
+}
+
+function loadCreated(): Set<string> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]") as unknown;
+    return new Set(Array.isArray(saved) ? saved.filter((ref): ref is string => typeof ref === "string") : []);
+  } catch {
+    return new Set();
+  }
+}
+
+function saveCreated(refs: Set<string>): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...refs]));
+  } catch {
+    // localStorage may be unavailable — the worst case is a re-created countdown.
+  }
+}
+
+/**
+ * Bring armada countdowns in line with the given (upcoming) armada list:
+ * add one for each future armada `userId` signed up for, drop those the
+ * user withdrew from or that are no longer scheduled.
+ */
+export function syncArmadaTimers(armadas: AllianceArmada[], userId: string, now = Date.now()): void {
+  const created = loadCreated();
+  const known = new Set<string>();
+
+  for (const armada of armadas) {
+    const ref = armadaTimerRef(armada.id);
+    known.add(ref);
+    const timer = getTimers().find((t) => t.sourceRef === ref);
+    const remainingMs = Date.parse(armada.startsAt) - now;
+
+    if (!armada.signups.some((s) => s.userId === userId)) {
+      if (timer) stopTimer(timer.id);
+      created.delete(ref);
+    } else if (!timer && !created.has(ref) && remainingMs > 0) {
+      createTimer({
+        label: `Armada: ${armada.name}`,
+        durationMs: remainingMs,
+        repeating: false,
+        soundId: 0,
+        launchSource: "armada",
+        sourceRef: ref,
+      });
+      // The timer store silently refuses past MAX_TIMERS — only remember a countdown that exists
+      if (getTimers().some((t) => t.sourceRef === ref)) created.add(ref);
+    }
+  }
+
+  // Cancelled armadas: drop countdowns that have not gone off yet
+  for (const timer of getTimers()) {
+    if (timer.sourceRef?.startsWith(SOURCE_PREFIX) && !known.has(timer.sourceRef) && timer.state !== "completed") {
+      stopTimer(timer.id);
+    }
+  }
+
+  saveCreated(new Set([...created].filter((ref) => known.has(ref))));
+}
+
+/**
+ * Fetch upcoming armadas and sync countdowns. Quietly does nothing outside
+ * an alliance or when the alliance store is offline.
+ */
+export async function refreshArmadaTimers(): Promise<void> {
+  let armadas: AllianceArmada[];
+  try {
+    armadas = await fetchArmadas(true);
+  } catch {
+    return;
+  }
+  syncArmadaTimers(armadas, getUser()?.id ?? "local");
+}
@@ -0,0 +1,41 @@
+/**
+ * battle-analytics-helpers.test.ts — Tests for the battle history chart helpers
+ */
+
+import { describe, it, expect } from "vitest";
+import { failureCauseLabel, formatWinRate, loadoutBars, winRateBars } from "./battle-analytics-helpers.js";
+import type { BattleAnalytics } from "./types.js";
+
+describe("formatWinRate", () => {
+  it("rounds to a percentage and dashes an empty history", () => {
+    expect(formatWinRate(0.667)).toBe("67%");
+    expect(formatWinRate(null)).toBe("—");
+  });
+});
+
+describe("failureCauseLabel", () => {
+  it("labels known causes and de-snakes unknown ones", () => {
+    expect(failureCauseLabel("energy_spike_broke_shields")).toBe("Energy spike broke shields");
+    expect(failureCauseLabel("out_of_range")).toBe("Out of range");
+  });
+});
+
+describe("winRateBars", () => {
+  it("labels untagged buckets and picks a tone", () => {
+    const bars = winRateBars([
+      { key: "Klingon", fights: 3, wins: 2, losses: 1, winRate: 0.667 },
+      { key: null, fights: 2, wins: 0, losses: 2, winRate: 0 },
+    ]);
+    expect(bars.map((b) => [b.label, b.tone])).toEqual([["Klingon", "good"], ["Untagged", "bad"]]);
+  });
+
+  it("names loadouts and falls back to the ID", () => {
+    const analytics = {
+      byLoadout: [
+        { key: "4", fights: 2, wins: 1, losses: 1, winRate: 0.5, loadoutName: "Mining Crew" },
+        { key: "9", fights: 1, wins: 1, losses: 0, winRate: 1, loadoutName: null },
+      ],
+    } as BattleAnalytics;
+    expect(loadoutBars(analytics).map((b) => [b.label, b.tone])).toEqual([["Mining Crew", "mixed"], ["Loadout #9", "good"]]);
+  });
+});
@@ -0,0 +1,53 @@
+import type { BattleAnalytics, BattleWinRate } from "./types.js";
+
+/** One bar in a win-rate chart. */
+export interface WinRateBar {
+  label: string;
+  fights: number;
+  winRate: number;
+  tone: "good" | "mixed" | "bad";
+}
+
+const FAILURE_CAUSE_LABELS: Record<string, string> = {
+  kinetic_spike_overwhelmed_mitigation: "Kinetic spike overwhelmed mitigation",
+  energy_spike_broke_shields: "Energy spike broke shields",
+  sustained_damage_exceeded_defense: "Sustained damage exceeded defense",
+};
+
+/** "67%", or an em dash when there are no fights. */
+export function formatWinRate(rate: number | null): string {
+  return rate == null ? "—" : `${Math.round(rate * 100)}%`;
+}
+
+/** Readable label for a likelyCause code; unknown codes are de-snaked. */
+export function failureCauseLabel(cause: string): string {
+  const known = FAILURE_CAUSE_LABELS[cause];
+  if (known) return known;
+  const text = cause.replace(/_/g, " ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function winRateTone(rate: number): WinRateBar["tone"] {
+  if (rate >= 0.6) return "good";
+  if (rate < 0.4) return "bad";
+  return "mixed";
+}
+
+/** Chart bars for a bucket list; untagged fights keep their own bar so coverage stays visible. */
+export function winRateBars<T extends BattleWinRate>(
+  buckets: T[],
+  labelFor: (bucket: T) => string | null = (bucket) => bucket.key,
+): WinRateBar[] {
+  return buckets.map((bucket) => ({
+    label: labelFor(bucket) ?? "Untagged",
+    fights: bucket.fights,
+    winRate: bucket.winRate,
+    tone: winRateTone(bucket.winRate),
+  }));
+}
+
+/** Loadout bars, named when the loadout still exists. */
+export function loadoutBars(analytics: BattleAnalytics): WinRateBar[] {
+  return winRateBars(analytics.byLoadout, (bucket) =>
+    bucket.key == null ? null : bucket.loadoutName ?? `Loadout #${bucket.key}`);
+}
@@ -0,0 +1,36 @@
+/**
+ * battle-replay-helpers.test.ts — Tests for the battle replay chart helpers
+ */
+
+import { describe, it, expect } from "vitest";
+import { battleAskPrompt, replayCeiling, seriesPoints } from "./battle-replay-helpers.js";
+import type { BattleReplayRound, BattleReportSummary } from "./types.js";
+
+function round(n: number, hullAfter: number | null, shieldAfter: number | null): BattleReplayRound {
+  return {
+    round: n, hullAfter, shieldAfter, destroyed: hullAfter === 0,
+    damageReceived: 0, damageDealt: 0, receivedByType: [], dealtByType: [], abilityTriggers: [],
+  };
+}
+
+describe("seriesPoints", () => {
+  const rounds = [round(1, 100, 50), round(2, null, 25), round(3, 0, 0)];
+
+  it("scales values to the chart and skips missing rounds", () => {
+    const ceiling = replayCeiling(rounds);
+    expect(ceiling).toBe(100);
+    expect(seriesPoints(rounds, (r) => r.hullAfter, 200, 100, ceiling)).toBe("0.0,0.0 200.0,100.0");
+    expect(seriesPoints(rounds, (r) => r.shieldAfter, 200, 100, ceiling)).toBe("0.0,50.0 100.0,75.0 200.0,100.0");
+  });
+
+  it("returns no points without a ceiling", () => {
+    expect(seriesPoints([round(1, null, null)], (r) => r.hullAfter, 200, 100, 0)).toBe("");
+  });
+});
+
+describe("battleAskPrompt", () => {
+  it("references the report by id", () => {
+    const report = { id: 7, battleId: "b-9", destroyed: true } as BattleReportSummary;
+    expect(battleAskPrompt(report)).toBe("Analyze battle report #7 (b-9): why did I lose, and what should I change?");
+  });
+});
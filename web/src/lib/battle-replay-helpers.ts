@@ -0,0 +1,42 @@
+import type { BattleReplayRound, BattleReportSummary } from "./types.js";
+
+/** Largest hull or shield value across the fight — the chart's y-axis ceiling. */
+export function replayCeiling(rounds: BattleReplayRound[]): number {
+  let max = 0;
+  for (const round of rounds) {
+    max = Math.max(max, round.hullAfter ?? 0, round.shieldAfter ?? 0);
+  }
+  return max;
+}
+
+/**
+ * SVG polyline points for one series, one x-step per round.
+ * Rounds without a value are skipped so gaps don't plot as zero.
+ */
+export function seriesPoints(
+  rounds: BattleReplayRound[],
+  pick: (round: BattleReplayRound) => number | null,
+  width: number,
+  height: number,
+  ceiling: number,
+): string {
+  if (rounds.length === 0 || ceiling <= 0) return "";
+  const step = rounds.length > 1 ? width / (rounds.length - 1) : 0;
+  const points: string[] = [];
+  rounds.forEach((round, index) => {
+    const value = pick(round);
+    if (value == null) return;
+    const x = rounds.length > 1 ? index * step : width / 2;
+    const y = height - (Math.max(0, value) / ceiling) * height;
+    points.push(`${x.toFixed(1)},${y.toFixed(1)}`);
+  });
+  return points.join(" ");
+}
+
+/** Chat prompt that points Aria at a stored report by ID. */
+export function battleAskPrompt(report: BattleReportSummary): string {
+  const label = report.battleId ? ` (${report.battleId})` : "";
+  return report.destroyed
+    ? `Analyze battle report #${report.id}${label}: why did I lose, and what should I change?`
+    : `Analyze battle report #${report.id}${label}: what went well, and where did I take the most damage?`;
+}
@@ -6,10 +6,10 @@
  * mutations go through exported functions.
  */
 
-import type { ChatImage, ChatMessage, ChatProposal, ChatResponse, ChatTrace } from "./types.js";
+import type { ChatImage, ChatMessage, ChatProposal, ChatResponse, ChatTrace, ToolRunResult } from "./types.js";
 import { ChatError } from "./api/chat.js";
 import { sendChat as apiSendChat, cancelRun as apiCancelRun } from "./api/chat.js";
-import type { RunProgressCallbacks } from "./api/chat.js";
+import type { ChatBranchTarget, RunProgressCallbacks } from "./api/chat.js";
 import { invalidateForMutation } from "./cache/cached-fetch.js";
 
 // ─── Run phase type (ADR-043) ───────────────────────────────
@@ -34,6 +34,14 @@ export interface LocalMessage {
   trace?: ChatTrace;
   /** Generation duration in milliseconds (model messages only). */
   elapsedMs?: number;
+  /** The answer is still streaming in — text is provisional until the run completes. */
+  streaming?: boolean;
+  /** Stored message ID — required to edit or regenerate. Unset until the turn is saved. */
+  serverId?: number;
+  /** Stored IDs of this message and its alternatives, oldest first, where the thread forks. */
+  branchIds?: number[];
+  /** A tool run from the `/` palette, shown as a result card (local-only, never sent to the model). */
+  toolRun?: ToolRunResult;
 }
 
 let currentSessionId = $state<string>(crypto.randomUUID());
@@ -47,6 +55,7 @@ let currentRunId = $state<string | null>(null);
 let runPhase = $state<RunPhase>("idle");
 let runElapsedMs = $state(0);
 let runModel = $state<string | null>(null);
+let runTool = $state<string | null>(null);
 let elapsedTimerId: ReturnType<typeof setInterval> | undefined;
 let elapsedOrigin = 0;
 
@@ -93,6 +102,16 @@ export function getRunModel(): string | null {
   return runModel;
 }
 
+/** Fleet tool the active run is executing, if any. */
+export function getRunTool(): string | null {
+  return runTool;
+}
+
+/** Whether the active run's answer is streaming into a model message. */
+export function isStreaming(): boolean {
+  return messages.some((m) => m.streaming);
+}
+
 // ─── Mutations ──────────────────────────────────────────────
 
 /** Start a brand-new chat session. */
@@ -118,6 +137,8 @@ export function restoreMessages(
       role: m.role,
       text: m.text,
       createdAt: m.createdAt,
+      serverId: m.id,
+      ...(m.branchIds && m.branchIds.length > 1 ? { branchIds: m.branchIds } : {}),
     };
     // Re-attach proposals from hydrated session data
     if (m.proposalIds?.length && proposals) {
@@ -157,6 +178,17 @@ export function addSystemMessage(text: string): void {
   });
 }
 
+/** Add the result of a tool run from the `/` palette locally. */
+export function addToolResult(run: ToolRunResult): void {
+  messages.push({
+    id: nextLocalId(),
+    role: "system",
+    text: JSON.stringify(run.result, null, 2),
+    createdAt: new Date().toISOString(),
+    toolRun: run,
+  });
+}
+
 /** Attach an image for the next send. */
 export function attachImage(file: File): Promise<void> {
   return new Promise((resolve, reject) => {
@@ -199,6 +231,7 @@ function resetRunState(): void {
   runPhase = "idle";
   runElapsedMs = 0;
   runModel = null;
+  runTool = null;
   if (elapsedTimerId !== undefined) {
     clearInterval(elapsedTimerId);
     elapsedTimerId = undefined;
@@ -243,19 +276,48 @@ export async function send(text: string, onSent?: () => void): Promise<void> {
     : undefined;
   const imageDataUrl = pendingImage?.dataUrl;
 
-  // Add user message
-  messages.push({
-    id: nextLocalId(),
-    role: "user",
-    text: msgText,
-    createdAt: new Date().toISOString(),
-    imageDataUrl,
-  });
-
   pendingImage = null;
+  await runTurn(msgText, image, { imageDataUrl }, undefined, onSent);
+}
+
+/**
+ * Run one turn: show the user message (unless regenerating), stream the
+ * answer in and record the stored IDs of both messages.
+ *
+ * @param user     — Local user message to add, or null when regenerating a reply
+ * @param branch   — Edit/regenerate target plus the alternatives it joins
+ */
+async function runTurn(
+  msgText: string,
+  image: ChatImage | undefined,
+  user: Pick<LocalMessage, "imageDataUrl"> | null,
+  branch: { target: ChatBranchTarget; siblingIds: number[] } | undefined,
+  onSent?: () => void,
+): Promise<void> {
+  const userLocalId = user ? nextLocalId() : null;
+  if (user && userLocalId !== null) {
+    messages.push({
+      id: userLocalId,
+      role: "user",
+      text: msgText,
+      createdAt: new Date().toISOString(),
+      imageDataUrl: user.imageDataUrl,
+    });
+  }
+
   sending = true;
   runPhase = "queued";
 
+  // Model message the answer streams into, created on the first text
+  let streamingId: number | null = null;
+  const streamingMessage = (): LocalMessage | undefined =>
+    streamingId === null ? undefined : messages.find((m) => m.id === streamingId);
+  const dropStreamingMessage = (): void => {
+    if (streamingId === null) return;
+    messages = messages.filter((m) => m.id !== streamingId);
+    streamingId = null;
+  };
+
   const progressCallbacks: RunProgressCallbacks = {
     onQueued: () => { runPhase = "queued"; },
     onStarted: (model) => {
@@ -268,6 +330,18 @@ export async function send(text: string, onSent?: () => void): Promise<void> {
       // Re-anchor the local timer to match server elapsed
       elapsedOrigin = Date.now() - elapsed;
     },
+    onText: (text) => {
+      const existing = streamingMessage();
+      if (existing) {
+        existing.text = text;
+        return;
+      }
+      streamingId = nextLocalId();
+      messages.push({ id: streamingId, role: "model", text, createdAt: new Date().toISOString(), streaming: true });
+    },
+    onTool: (tool, phase) => {
+      runTool = phase === "started" ? tool : null;
+    },
   };
 
   try {
@@ -278,18 +352,33 @@ export async function send(text: string, onSent?: () => void): Promise<void> {
       clientTabId,
       (id) => { currentRunId = id; },
       progressCallbacks,
+      branch?.target,
     );
     runPhase = "completed";
     const finalElapsed = runElapsedMs || undefined;
-    messages.push({
-      id: nextLocalId(),
+    const final: LocalMessage = {
+      id: streamingId ?? nextLocalId(),
       role: "model",
       text: result.answer,
       createdAt: new Date().toISOString(),
       proposals: result.proposals?.length ? result.proposals : undefined,
       trace: result.trace,
       elapsedMs: finalElapsed,
-    });
+    };
+    const ids = result.messageIds;
+    if (ids) {
+      final.serverId = ids.model;
+      if (branch && "regenerateMessageId" in branch.target) final.branchIds = [...branch.siblingIds, ids.model];
+      const sent = userLocalId === null ? undefined : messages.find((m) => m.id === userLocalId);
+      if (sent) {
+        sent.serverId = ids.user;
+        if (branch && "editMessageId" in branch.target) sent.branchIds = [...branch.siblingIds, ids.user];
+      }
+    }
+    // The final answer replaces the provisional streamed text in place
+    const streamed = streamingMessage();
+    if (streamed) Object.assign(streamed, final, { streaming: undefined });
+    else messages.push(final);
 
     // Invalidate client caches affected by auto-trust mutations
     if (result.mutations?.length) {
@@ -302,6 +391,7 @@ export async function send(text: string, onSent?: () => void): Promise<void> {
   } catch (e) {
     const errMsg = e instanceof Error ? e.message : "Something went wrong.";
     const errTrace = e instanceof ChatError ? e.trace : undefined;
+    dropStreamingMessage();
     if (errMsg === "Chat run was cancelled") {
       runPhase = "cancelled";
       messages.push({
@@ -327,8 +417,8 @@ export async function send(text: string, onSent?: () => void): Promise<void> {
 }
 
 /**
- * Retry / regenerate: re-send the user message that preceded the given
- * model or error message. Creates a new run — the old response stays visible.
+ * Retry: re-send the user message that preceded the given error message.
+ * Creates a new run — the old response stays visible.
  */
 export async function retry(messageIndex: number, onSent?: () => void): Promise<void> {
   if (sending) return;
@@ -343,3 +433,39 @@ export async function retry(messageIndex: number, onSent?: () => void): Promise<
   if (!userText) return;
   await send(userText, onSent);
 }
+
+/**
+ * Edit a sent user message: the conversation continues from the edited text
+ * on a new branch. The original thread stays on the server and is reachable
+ * through the branch switcher.
+ */
+export async function editMessage(messageIndex: number, text: string, onSent?: () => void): Promise<void> {
+  const target = messages[messageIndex];
+  const msgText = text.trim();
+  if (sending || !msgText || target?.role !== "user" || target.serverId === undefined) return;
+  messages = messages.slice(0, messageIndex);
+  await runTurn(msgText, undefined, {}, {
+    target: { editMessageId: target.serverId },
+    siblingIds: target.branchIds ?? [target.serverId],
+  }, onSent);
+}
+
+/**
+ * Regenerate a model reply as a new branch alongside it. Replies that were
+ * never stored (no server ID) fall back to re-sending the user message.
+ */
+export async function regenerate(messageIndex: number, onSent?: () => void): Promise<void> {
+  const target = messages[messageIndex];
+  if (sending || target?.role !== "model") return;
+  if (target.serverId === undefined) {
+    await retry(messageIndex, onSent);
+    return;
+  }
+  const prompt = messages[messageIndex - 1];
+  if (prompt?.role !== "user") return;
+  messages = messages.slice(0, messageIndex);
+  await runTurn(prompt.text, undefined, null, {
+    target: { regenerateMessageId: target.serverId },
+    siblingIds: target.branchIds ?? [target.serverId],
+  }, onSent);
+}
@@ -0,0 +1,35 @@
+/**
+ * fleet-view-helpers.test.ts — Tests for Fleet view instance labelling (ADR-051)
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildInstanceLabels, dockLabelFor, instanceKey } from "./fleet-view-helpers.js";
+import type { CatalogShip } from "./types.js";
+
+describe("buildInstanceLabels", () => {
+  it("numbers copies per ref with the primary first", () => {
+    const labels = buildInstanceLabels([
+      { id: "kvort", instanceId: "inst_b" },
+      { id: "kvort", instanceId: "primary" },
+      { id: "kvort", instanceId: "inst_a" },
+    ]);
+    expect(labels.get(instanceKey("kvort", "primary"))).toBe("#1");
+    expect(labels.get(instanceKey("kvort", "inst_a"))).toBe("#2");
+    expect(labels.get(instanceKey("kvort", "inst_b"))).toBe("#3");
+  });
+
+  it("leaves single-copy refs unlabelled", () => {
+    const labels = buildInstanceLabels([{ id: "vidar", instanceId: "primary" }]);
+    expect(labels.size).toBe(0);
+  });
+});
+
+describe("dockLabelFor", () => {
+  const ship = (instanceId: string) => ({ id: "kvort", instanceId }) as CatalogShip;
+
+  it("prefers a copy-specific dock over an any-copy dock", () => {
+    const map = new Map([["kvort", "Dock 1"], [instanceKey("kvort", "inst_b"), "Dock 3"]]);
+    expect(dockLabelFor(map, ship("inst_b"))).toBe("Dock 3");
+    expect(dockLabelFor(map, ship("primary"))).toBe("Dock 1");
+  });
+});
@@ -52,7 +52,8 @@ export function buildFleetCrossRefMaps(input: {
     if (!shipId) continue;
     const dock = docks.find((d) => d.dockNumber === entry.dockNumber);
     const label = dock?.label ?? `Dock ${entry.dockNumber}`;
-    shipDockMap.set(shipId, label);
+    // A dock pinned to one copy only labels that copy (ADR-051)
+    shipDockMap.set(entry.shipInstanceId ? instanceKey(shipId, entry.shipInstanceId) : shipId, label);
   }
 
   const officerConflicts = new Map<string, OfficerConflict>();
@@ -74,6 +75,35 @@ export function buildFleetCrossRefMaps(input: {
   };
 }
 
+export function instanceKey(refId: string, instanceId: string): string {
+  return `${refId}:${instanceId}`;
+}
+
+/** Dock label for a ship row — a copy-specific assignment wins over "any copy". */
+export function dockLabelFor(shipDockMap: Map<string, string>, item: CatalogShip): string | undefined {
+  return shipDockMap.get(instanceKey(item.id, item.instanceId)) ?? shipDockMap.get(item.id);
+}
+
+/**
+ * Readable labels for owned copies (ADR-051): "#1", "#2", … per ref with the
+ * primary copy first. Refs with a single copy get no label.
+ */
+export function buildInstanceLabels(items: Array<{ id: string; instanceId: string }>): Map<string, string> {
+  const byRef = new Map<string, string[]>();
+  for (const item of items) {
+    const list = byRef.get(item.id) ?? [];
+    list.push(item.instanceId);
+    byRef.set(item.id, list);
+  }
+  const labels = new Map<string, string>();
+  for (const [refId, ids] of byRef) {
+    if (ids.length < 2) continue;
+    ids.sort((a, b) => Number(b === "primary") - Number(a === "primary") || a.localeCompare(b));
+    ids.forEach((id, i) => labels.set(instanceKey(refId, id), `#${i + 1}`));
+  }
+  return labels;
+}
+
 export function isFleetOfficer(item: CatalogOfficer | CatalogShip): item is CatalogOfficer {
   return "officerClass" in item;
 }
@@ -31,6 +31,7 @@ export const VIEW_META: Record<string, { icon: string; label: string }> = {
   fleet: { icon: "🚀", label: "Fleet" },
   crews: { icon: "⚓", label: "Workshop" },
   plan: { icon: "🗺️", label: "Plan" },
+  alliance: { icon: "🤝", label: "Alliance" },
   diagnostics: { icon: "⚡", label: "Diagnostics" },
   admiral: { icon: "🛡️", label: "Admiral Console" },
 };
@@ -174,6 +175,14 @@ const helpContent: Record<string, ViewHelp> = {
         heading: "Sorting & View Mode",
         body: `<p>Sort by name, level, power, or rank. Toggle between grid and list views.</p>`,
       },
+      {
+        heading: "Battle Reports",
+        body: `<p><strong>⚔ Battles</strong> imports an exported combat report (JSON or CSV) and replays it round by round: hull/shield curves, damage by type, and ability triggers. <strong>Ask Aria</strong> sends the report ID to chat for a root-cause analysis.</p>`,
+      },
+      {
+        heading: "Win Rates",
+        body: `<p><strong>📊 Win Rates</strong> charts every stored fight — imported reports and logs analyzed in chat — by loadout, hostile faction and hull type, with the most common failure causes and the abilities that actually fired. Include <code>outcome</code>, <code>loadout_id</code> and <code>hostile_id</code> in a report to tag it.</p>`,
+      },
     ],
     tips: [
       "The stats bar updates in real-time as you edit.",
@@ -242,6 +251,11 @@ const helpContent: Record<string, ViewHelp> = {
         heading: "Plan Items",
         body: `<p>Manual dock assignments. Use these for one-off changes without creating a full preset.</p>`,
       },
+      {
+        heading: "Targets",
+        body: `<p>Your targets as a dependency graph. Columns run left to right in work order: <strong>Ready</strong> targets have nothing left to wait on, <strong>Blocked</strong> ones still need an active prerequisite finished. Use ＋ to add a prerequisite — links that would create a loop are not offered.</p>
+<p>Progress bars come from your overlay (tier, level, rank) or from recorded progress updates.</p>`,
+      },
     ],
     tips: [
       "Check the Effective State tab after activating a preset to verify assignments.",
@@ -252,6 +266,34 @@ const helpContent: Record<string, ViewHelp> = {
     keys: [],
   },
 
+  alliance: {
+    title: "Alliance — Shared Workspace",
+    intro: "Coordinate with your alliance: a shared plan, a target list and armada sign-ups.",
+    sections: [
+      {
+        heading: "Joining",
+        body: `<p>Ask an alliance officer or leader for the <strong>join code</strong>. Captains and above can also found a new alliance. You can belong to one alliance at a time.</p>`,
+      },
+      {
+        heading: "Roles",
+        body: `<p><strong>Members</strong> read everything and sign up for armadas. <strong>Officers</strong> also manage the plan, targets and armadas, and can remove members. The <strong>leader</strong> renames the alliance, rotates the join code and assigns roles — making someone else leader hands leadership over.</p>`,
+      },
+      {
+        heading: "Sharing Your Fleet",
+        body: `<p>Tick <strong>Share my fleet</strong> to let the alliance see your owned ships and officers (read-only). Aria uses shared fleets when you ask about an armada, to suggest who can bring what.</p>`,
+      },
+      {
+        heading: "Armadas",
+        body: `<p>Officers schedule armadas against a hostile from the catalog, with the number of ships needed. Sign up with one of your owned ships and, optionally, its loadout: Majel checks it against your docks and flags a ship that isn't docked or a bridge officer who is on an away team or hard-reserved. Once you sign up, a countdown to the armada appears in the timer bar.</p>`,
+      },
+    ],
+    tips: [
+      "Ask Aria \"who can join Saturday's armada?\" once members share their fleets.",
+      "Rotate the join code if it leaks — the old code stops working immediately.",
+    ],
+    keys: [],
+  },
+
   diagnostics: {
     title: "Diagnostics — System Dashboard",
     intro: "System health, data summary, query console & schema browser — for admirals.",
@@ -15,6 +15,7 @@ export const views: ViewDef[] = [
   { name: "fleet",       icon: "🚀", title: "Fleet",            subtitle: "Your owned roster — levels, ranks & power" },
   { name: "crews",       icon: "⚓", title: "Workshop",         subtitle: "Composition workshop — cores, loadouts, policies & reservations" },
   { name: "plan",        icon: "🗺️", title: "Plan",             subtitle: "Fleet state — docks, presets & assignments" },
+  { name: "alliance",    icon: "🤝", title: "Alliance",         subtitle: "Shared plan, targets & armada sign-ups" },
   { name: "diagnostics", icon: "⚡", title: "Diagnostics",      subtitle: "System health, data summary & query console", gate: "admiral" },
   { name: "admiral",     icon: "🛡️", title: "Admiral Console",  subtitle: "User management, invites & sessions",        gate: "admiral" },
 ];
@@ -11,8 +11,8 @@ import { views, getViewDef, navigate, getCurrentView, getCurrentViewDef } from "
 // ─── View Registry ──────────────────────────────────────────
 
 describe("views registry", () => {
-  it("registers 8 views", () => {
-    expect(views).toHaveLength(8);
+  it("registers 9 views", () => {
+    expect(views).toHaveLength(9);
   });
 
   it("has chat as the first view", () => {
@@ -10,6 +10,8 @@ import {
   fetchSessions as apiFetchSessions,
   restoreSession as apiRestoreSession,
   deleteSession as apiDeleteSession,
+  selectBranch as apiSelectBranch,
+  importSession as apiImportSession,
 } from "./api/sessions.js";
 import {
   getSessionId,
@@ -55,6 +57,34 @@ export async function switchToSession(id: string): Promise<boolean> {
   return true;
 }
 
+/**
+ * Show another branch of the active session (an edited message or a
+ * regenerated reply). Returns true on success.
+ */
+export async function switchBranch(messageId: number): Promise<boolean> {
+  const id = getSessionId();
+  const session = await apiSelectBranch(id, messageId);
+  if (!session) return false;
+  restoreMessages(id, session.messages, session.proposals);
+  return true;
+}
+
+/**
+ * Import an exported JSON session as a new chat and open it.
+ * Throws with the reason when the file is rejected.
+ */
+export async function importSessionFile(file: File): Promise<void> {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not a JSON export`);
+  }
+  const session = await apiImportSession(doc);
+  restoreMessages(session.id, session.messages, session.proposals);
+  await refreshSessions();
+}
+
 /**
  * Delete a session. If it's the active session, starts a new chat.
  */
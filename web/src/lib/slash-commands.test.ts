@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildArgFields,
+  coerceArgs,
+  emptyArgValues,
+  humanizeName,
+  matchTools,
+  parseSlashQuery,
+} from "./slash-commands.js";
+import type { ToolDescriptor } from "./types.js";
+
+function tool(name: string, description = "", inputSchema: Partial<ToolDescriptor["inputSchema"]> = {}): ToolDescriptor {
+  return { name, description, inputSchema: { type: "object", properties: {}, ...inputSchema } };
+}
+
+const LIST_TARGETS = tool("list_targets", "List the Admiral's targets", {
+  properties: {
+    target_type: { type: "string", enum: ["officer", "ship", "crew"] },
+    include_done: { type: "boolean" },
+  },
+});
+const SEARCH_OFFICERS = tool("search_officers", "Search for officers by name", {
+  properties: {
+    limit: { type: "integer", description: "Max results" },
+    query: { type: "string" },
+    ids: { type: "array", items: { type: "string" } },
+    tiers: { type: "array", items: { type: "integer" } },
+    filter: { type: "object" },
+  },
+  required: ["query"],
+});
+const TOOLS = [SEARCH_OFFICERS, LIST_TARGETS, tool("get_officer_detail", "Officer details"), tool("search_ships", "Search ships")];
+
+describe("parseSlashQuery", () => {
+  it("extracts the query from single-line slash input", () => {
+    expect(parseSlashQuery("/")).toBe("");
+    expect(parseSlashQuery("/search off ")).toBe("search off");
+    expect(parseSlashQuery("hello /search")).toBeNull();
+    expect(parseSlashQuery("/search\nmore")).toBeNull();
+  });
+});
+
+describe("matchTools", () => {
+  it("ranks prefix, then substring, then description matches", () => {
+    expect(matchTools(TOOLS, "search").map((t) => t.name)).toEqual(["search_officers", "search_ships"]);
+    expect(matchTools(TOOLS, "officer").map((t) => t.name)).toEqual(["get_officer_detail", "search_officers"]);
+    expect(matchTools(TOOLS, "search off").map((t) => t.name)).toEqual(["search_officers"]);
+    expect(matchTools(TOOLS, "admiral").map((t) => t.name)).toEqual(["list_targets"]);
+    expect(matchTools(TOOLS, "warp")).toEqual([]);
+  });
+
+  it("lists everything alphabetically for an empty query, up to the limit", () => {
+    expect(matchTools(TOOLS, "", 2).map((t) => t.name)).toEqual(["get_officer_detail", "list_targets"]);
+  });
+});
+
+describe("buildArgFields", () => {
+  it("derives typed fields from the schema, required first", () => {
+    const fields = buildArgFields(SEARCH_OFFICERS);
+    expect(fields.map((f) => [f.name, f.kind, f.required])).toEqual([
+      ["query", "text", true],
+      ["limit", "integer", false],
+      ["ids", "list", false],
+      ["tiers", "list", false],
+      ["filter", "json", false],
+    ]);
+    expect(fields[1]).toMatchObject({ label: "Limit", description: "Max results" });
+    expect(buildArgFields(LIST_TARGETS)).toMatchObject([
+      { name: "target_type", kind: "select", options: ["officer", "ship", "crew"], label: "Target type" },
+      { name: "include_done", kind: "boolean" },
+    ]);
+  });
+});
+
+describe("coerceArgs", () => {
+  const fields = buildArgFields(SEARCH_OFFICERS);
+
+  it("converts values to typed arguments and omits blank optionals", () => {
+    const values = { ...emptyArgValues(fields), query: " Kirk ", limit: "5", ids: "a, b,", tiers: "1,2", filter: '{"faction":"Federation"}' };
+    expect(coerceArgs(SEARCH_OFFICERS, fields, values)).toEqual({
+      args: { query: "Kirk", limit: 5, ids: ["a", "b"], tiers: [1, 2], filter: { faction: "Federation" } },
+      errors: {},
+    });
+
+    const targetFields = buildArgFields(LIST_TARGETS);
+    expect(coerceArgs(LIST_TARGETS, targetFields, { target_type: "ship", include_done: "false" }).args)
+      .toEqual({ target_type: "ship", include_done: false });
+  });
+
+  it("reports missing and malformed values per field", () => {
+    const { errors } = coerceArgs(SEARCH_OFFICERS, fields, { query: "", limit: "2.5", tiers: "1,x", filter: "{" });
+    expect(errors).toEqual({
+      query: "Query is required",
+      limit: "Limit must be a whole number",
+      tiers: "Tiers must be numbers separated by commas",
+      filter: "Filter must be valid JSON",
+    });
+  });
+});
+
+describe("humanizeName", () => {
+  it("turns snake and camel case into a label", () => {
+    expect(humanizeName("target_type")).toBe("Target type");
+    expect(humanizeName("refId")).toBe("Ref id");
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * slash-commands.ts — Pure helpers for the chat `/` command palette.
+ *
+ * Typing `/` in the chat input opens a palette of read tools (GET /api/tools).
+ * These helpers parse the input, rank tools against what was typed, turn a
+ * tool's JSON Schema into form fields, and coerce the filled-in form back
+ * into tool arguments. No Svelte state — SlashCommandPalette owns that.
+ */
+
+import type { ToolArgSchema, ToolDescriptor } from "./types.js";
+
+/** Most tools shown in the palette at once */
+export const MAX_PALETTE_MATCHES = 8;
+
+export type ArgFieldKind = "text" | "number" | "integer" | "boolean" | "select" | "list" | "json";
+
+export interface ArgField {
+  name: string;
+  label: string;
+  kind: ArgFieldKind;
+  required: boolean;
+  description: string;
+  /** Choices for "select" fields */
+  options: string[];
+}
+
+/** Form values as typed — every field is edited as a string. */
+export type ArgValues = Record<string, string>;
+
+// ─── Input ──────────────────────────────────────────────────
+
+/**
+ * The tool query in a `/` command, or null when the input is not one.
+ * "/search off" → "search off". Multi-line input is never a command.
+ */
+export function parseSlashQuery(text: string): string | null {
+  if (!text.startsWith("/") || text.includes("\n")) return null;
+  return text.slice(1).trim();
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[\s-]+/g, "_");
+}
+
+/**
+ * Tools matching the query: name prefix matches first, then name
+ * substrings, then description matches — alphabetical within each group.
+ */
+export function matchTools(tools: ToolDescriptor[], query: string, limit = MAX_PALETTE_MATCHES): ToolDescriptor[] {
+  const q = normalize(query);
+  const byName = [...tools].sort((a, b) => a.name.localeCompare(b.name));
+  if (!q) return byName.slice(0, limit);
+
+  const rank = (tool: ToolDescriptor): number => {
+    if (tool.name.startsWith(q)) return 0;
+    if (tool.name.includes(q)) return 1;
+    if (normalize(tool.description).includes(q)) return 2;
+    return -1;
+  };
+  return byName
+    .map((tool) => ({ tool, rank: rank(tool) }))
+    .filter((entry) => entry.rank >= 0)
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, limit)
+    .map((entry) => entry.tool);
+}
+
+/** "target_type" → "Target type" */
+export function humanizeName(name: string): string {
+  const words = name.replace(/([a-z])([A-Z])/g, "$1 $2").replace(/_/g, " ").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// ─── Form fields ────────────────────────────────────────────
+
+function fieldKind(schema: ToolArgSchema): ArgFieldKind {
+  if (schema.enum?.length) return "select";
+  switch (schema.type) {
+    case "string": return "text";
+    case "number": return "number";
+    case "integer": return "integer";
+    case "boolean": return "boolean";
+    case "array":
+      return schema.items && ["string", "number", "integer"].includes(schema.items.type) ? "list" : "json";
+    default: return "json";
+  }
+}
+
+/** Form fields for a tool's arguments, required ones first. */
+export function buildArgFields(tool: ToolDescriptor): ArgField[] {
+  const required = new Set(tool.inputSchema.required ?? []);
+  const fields = Object.entries(tool.inputSchema.properties).map(([name, schema]): ArgField => ({
+    name,
+    label: humanizeName(name),
+    kind: fieldKind(schema),
+    required: required.has(name),
+    description: schema.description ?? "",
+    options: schema.enum ?? [],
+  }));
+  return [...fields.filter((f) => f.required), ...fields.filter((f) => !f.required)];
+}
+
+/** Blank form values for the fields. */
+export function emptyArgValues(fields: ArgField[]): ArgValues {
+  return Object.fromEntries(fields.map((f) => [f.name, ""]));
+}
+
+/**
+ * Tool arguments from form values. Blank optional fields are omitted;
+ * problems are reported per field and `args` is only usable when there
+ * are none.
+ */
+export function coerceArgs(
+  tool: ToolDescriptor,
+  fields: ArgField[],
+  values: ArgValues,
+): { args: Record<string, unknown>; errors: Record<string, string> } {
+  const args: Record<string, unknown> = {};
+  const errors: Record<string, string> = {};
+
+  for (const field of fields) {
+    const raw = (values[field.name] ?? "").trim();
+    if (!raw) {
+      if (field.required) errors[field.name] = `${field.label} is required`;
+      continue;
+    }
+    switch (field.kind) {
+      case "number":
+      case "integer": {
+        const n = Number(raw);
+        if (!Number.isFinite(n) || (field.kind === "integer" && !Number.isInteger(n))) {
+          errors[field.name] = `${field.label} must be ${field.kind === "integer" ? "a whole number" : "a number"}`;
+        } else {
+          args[field.name] = n;
+        }
+        break;
+      }
+      case "boolean":
+        args[field.name] = raw === "true";
+        break;
+      case "list": {
+        const items = raw.split(",").map((item) => item.trim()).filter(Boolean);
+        const itemType = tool.inputSchema.properties[field.name].items?.type;
+        if (itemType === "string") {
+          args[field.name] = items;
+        } else {
+          const numbers = items.map(Number);
+          if (numbers.some((n) => !Number.isFinite(n))) errors[field.name] = `${field.label} must be numbers separated by commas`;
+          else args[field.name] = numbers;
+        }
+        break;
+      }
+      case "json":
+        try {
+          args[field.name] = JSON.parse(raw);
+        } catch {
+          errors[field.name] = `${field.label} must be valid JSON`;
+        }
+        break;
+      default:
+        args[field.name] = raw;
+    }
+  }
+  return { args, errors };
+}
@@ -0,0 +1,66 @@
+/**
+ * target-graph-helpers.test.ts — Tests for the Plan view target graph helpers
+ */
+
+import { describe, it, expect } from "vitest";
+import { downstreamOf, graphColumns, prerequisiteOptions, progressLabel } from "./target-graph-helpers.js";
+import type { TargetGraph, TargetGraphNode, TargetStatus } from "./types.js";
+
+function node(id: number, opts: { dependsOn?: number[]; dependents?: number[]; depth?: number; status?: TargetStatus; percent?: number | null } = {}): TargetGraphNode {
+  return {
+    target: {
+      id, targetType: "ship", refId: `ship-${id}`, loadoutId: null, targetTier: null, targetRank: null, targetLevel: null,
+      reason: null, priority: 2, status: opts.status ?? "active", autoSuggested: false,
+      createdAt: "2026-01-01", updatedAt: "2026-01-01", achievedAt: null,
+    },
+    label: `Ship ${id}`,
+    progress: { percent: opts.percent ?? null, source: "none", metrics: [] },
+    dependsOn: opts.dependsOn ?? [],
+    dependents: opts.dependents ?? [],
+    blockedBy: opts.dependsOn ?? [],
+    blocked: (opts.dependsOn ?? []).length > 0,
+    depth: opts.depth ?? 0,
+  };
+}
+
+// 1 ← 2 ← 3, plus a free-standing 4 and an achieved 5
+const GRAPH: TargetGraph = {
+  nodes: [
+    node(1, { dependents: [2] }),
+    node(4),
+    node(5, { status: "achieved" }),
+    node(2, { dependsOn: [1], dependents: [3], depth: 1 }),
+    node(3, { dependsOn: [2], depth: 2 }),
+  ],
+  edges: [],
+  cycles: [],
+  ready: [1, 4],
+};
+
+describe("graphColumns", () => {
+  it("groups nodes by depth in work order", () => {
+    expect(graphColumns(GRAPH.nodes).map((column) => column.map((n) => n.target.id))).toEqual([[1, 4, 5], [2], [3]]);
+  });
+});
+
+describe("downstreamOf", () => {
+  it("follows dependents transitively", () => {
+    expect([...downstreamOf(GRAPH, 1)]).toEqual([2, 3]);
+    expect(downstreamOf(GRAPH, 3).size).toBe(0);
+  });
+});
+
+describe("prerequisiteOptions", () => {
+  it("excludes itself, existing prerequisites, dependents and finished targets", () => {
+    expect(prerequisiteOptions(GRAPH, 2).map((n) => n.target.id)).toEqual([4]);
+    expect(prerequisiteOptions(GRAPH, 1).map((n) => n.target.id)).toEqual([4]);
+    expect(prerequisiteOptions(GRAPH, 4).map((n) => n.target.id)).toEqual([1, 2, 3]);
+  });
+});
+
+describe("progressLabel", () => {
+  it("formats known and unknown progress", () => {
+    expect(progressLabel(node(1, { percent: 75 }))).toBe("75%");
+    expect(progressLabel(node(1))).toBe("—");
+  });
+});
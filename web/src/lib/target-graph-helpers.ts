@@ -0,0 +1,42 @@
+import type { TargetGraph, TargetGraphNode } from "./types.js";
+
+/** Group nodes into columns by prerequisite depth, keeping work order within each column. */
+export function graphColumns(nodes: TargetGraphNode[]): TargetGraphNode[][] {
+  const columns: TargetGraphNode[][] = [];
+  for (const node of nodes) {
+    (columns[node.depth] ??= []).push(node);
+  }
+  return columns.filter(Boolean);
+}
+
+/** Every target that waits on `targetId`, directly or through a chain. */
+export function downstreamOf(graph: TargetGraph, targetId: number): Set<number> {
+  const byId = new Map(graph.nodes.map((node) => [node.target.id, node]));
+  const seen = new Set<number>();
+  const queue = [...(byId.get(targetId)?.dependents ?? [])];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    queue.push(...(byId.get(id)?.dependents ?? []));
+  }
+  return seen;
+}
+
+/**
+ * Active targets `targetId` could depend on without closing a cycle:
+ * not itself, not already a prerequisite, and not something waiting on it.
+ */
+export function prerequisiteOptions(graph: TargetGraph, targetId: number): TargetGraphNode[] {
+  const node = graph.nodes.find((entry) => entry.target.id === targetId);
+  if (!node) return [];
+  const excluded = downstreamOf(graph, targetId);
+  excluded.add(targetId);
+  for (const id of node.dependsOn) excluded.add(id);
+  return graph.nodes.filter((entry) => entry.target.status === "active" && !excluded.has(entry.target.id));
+}
+
+/** "75%" or "—" when progress is unknown. */
+export function progressLabel(node: TargetGraphNode): string {
+  return node.progress.percent == null ? "—" : `${node.progress.percent}%`;
+}
@@ -10,11 +10,13 @@
  * - localStorage persistence (survives page refresh)
  * - visibilitychange: recalculates remaining time from elapsed delta
  * - Repeating mode auto-restarts on completion
+ * - Each completion is reported to the server for timer.completed webhooks
  */
 
 import type { Timer, TimerState } from "./types.js";
 import { playSound } from "./timer-audio.js";
 import { getPresetById } from "./timer-presets.js";
+import { reportTimerCompleted } from "./api/webhooks.js";
 
 // ─── Constants ──────────────────────────────────────────────
 
@@ -68,15 +70,11 @@ function tick(): void {
     const remaining = Math.max(0, t.remainingMs - elapsed);
     if (remaining === 0) {
       playSound(t.soundId);
-      if (t.repeating) {
-        return {
-          ...t,
-          remainingMs: t.durationMs,
-          completedCount: t.completedCount + 1,
-          state: "running" as TimerState,
-        };
-      }
-      return { ...t, remainingMs: 0, state: "completed" as TimerState, completedCount: t.completedCount + 1 };
+      const done: Timer = t.repeating
+        ? { ...t, remainingMs: t.durationMs, completedCount: t.completedCount + 1, state: "running" as TimerState }
+        : { ...t, remainingMs: 0, state: "completed" as TimerState, completedCount: t.completedCount + 1 };
+      reportTimerCompleted(done);
+      return done;
     }
     return { ...t, remainingMs: remaining };
   });
@@ -117,17 +115,21 @@ function handleVisibilityChange(): void {
         const remaining = Math.max(0, t.remainingMs - elapsed);
         if (remaining === 0) {
           playSound(t.soundId);
+          let done: Timer;
           if (t.repeating) {
             const periods = t.durationMs > 0 ? Math.floor(elapsed / t.durationMs) : 0;
             const remainder = t.durationMs > 0 ? t.durationMs - (elapsed % t.durationMs) : 0;
-            return {
+            done = {
               ...t,
               remainingMs: remainder,
               completedCount: t.completedCount + periods + 1,
               state: "running" as TimerState,
             };
+          } else {
+            done = { ...t, remainingMs: 0, state: "completed" as TimerState, completedCount: t.completedCount + 1 };
           }
-          return { ...t, remainingMs: 0, state: "completed" as TimerState, completedCount: t.completedCount + 1 };
+          reportTimerCompleted(done);
+          return done;
         }
         return { ...t, remainingMs: remaining };
       });
@@ -163,7 +165,8 @@ export interface CreateTimerOptions {
   repeating: boolean;
   soundId: number;
   presetId?: string;
-  launchSource?: "preset" | "custom" | "manual";
+  launchSource?: "preset" | "custom" | "manual" | "armada";
+  sourceRef?: string;
 }
 
 export function createTimer(opts: CreateTimerOptions): void {
@@ -180,6 +183,7 @@ export function createTimer(opts: CreateTimerOptions): void {
     completedCount: 0,
     presetId: opts.presetId,
     launchSource: opts.launchSource,
+    sourceRef: opts.sourceRef,
   };
   timers = [...timers, timer];
   persist();
@@ -3,7 +3,8 @@
  *
  * Tests: createTimer, pauseTimer, resumeTimer, stopTimer,
  *        restartTimer, setRepeating, canAddTimer, MAX_TIMERS,
- *        localStorage persistence (loadFromStorage).
+ *        localStorage persistence (loadFromStorage),
+ *        completion reports for timer.completed webhooks.
  */
 
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
@@ -16,6 +17,11 @@ vi.mock("./timer-audio.js", () => ({
   playSound: vi.fn().mockResolvedValue(undefined),
 }));
 
+// Completions are reported to the server for timer.completed webhooks.
+vi.mock("./api/webhooks.js", () => ({
+  reportTimerCompleted: vi.fn(),
+}));
+
 // Mock localStorage
 const _storage: Record<string, string> = {};
 vi.stubGlobal("localStorage", {
@@ -42,6 +48,7 @@ import {
   extendTimer,
   getSortedVisibleTimers,
 } from "./timer.svelte.js";
+import { reportTimerCompleted } from "./api/webhooks.js";
 
 // ─── Helpers ────────────────────────────────────────────────
 
@@ -542,3 +549,33 @@ describe("createTimer provenance", () => {
     expect(t.launchSource).toBeUndefined();
   });
 });
+
+// ─── Completion reports ─────────────────────────────────────
+
+describe("completion reports", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(reportTimerCompleted).mockClear();
+    clearAllTimers();
+  });
+  afterEach(() => {
+    clearAllTimers();
+    vi.useRealTimers();
+  });
+
+  it("reports a finished timer once", () => {
+    createTimer({ label: "Dock 2", durationMs: 1000, repeating: false, soundId: 0 });
+    vi.advanceTimersByTime(1500);
+
+    expect(reportTimerCompleted).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(reportTimerCompleted).mock.calls[0]![0]).toMatchObject({ label: "Dock 2", state: "completed", completedCount: 1 });
+  });
+
+  it("reports every cycle of a repeating timer", () => {
+    createTimer({ label: "Mining", durationMs: 1000, repeating: true, soundId: 0 });
+    vi.advanceTimersByTime(2100);
+
+    expect(reportTimerCompleted).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(reportTimerCompleted).mock.calls[1]![0]).toMatchObject({ state: "running", completedCount: 2 });
+  });
+});
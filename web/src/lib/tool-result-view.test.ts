@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { describeToolResult, formatValue, MAX_TABLE_COLUMNS, MAX_TABLE_ROWS } from "./tool-result-view.js";
+
+describe("describeToolResult", () => {
+  it("splits a result into summary fields, tables, lists and nested sections", () => {
+    const view = describeToolResult({
+      tool: "search_officers",
+      totalFound: 2,
+      officers: [
+        { id: "kirk", name: "Kirk", rarity: "epic", abilities: { captain: "x" } },
+        { id: "spock", name: "Spock", owned: true },
+      ],
+      tags: ["bridge", "away"],
+      reservation: { locked: false, reservedFor: null },
+    });
+
+    expect(view.error).toBeNull();
+    expect(view.sections).toEqual([
+      { kind: "fields", title: null, fields: [{ label: "Total found", value: "2" }] },
+      {
+        kind: "table",
+        title: "Officers",
+        columns: ["id", "name", "rarity", "owned"],
+        labels: ["Id", "Name", "Rarity", "Owned"],
+        rows: [["kirk", "Kirk", "epic", "—"], ["spock", "Spock", "—", "yes"]],
+        total: 2,
+      },
+      { kind: "list", title: "Tags", items: ["bridge", "away"], total: 2 },
+      { kind: "fields", title: "Reservation", fields: [{ label: "Locked", value: "no" }, { label: "Reserved for", value: "—" }] },
+    ]);
+  });
+
+  it("caps table rows and columns", () => {
+    const row = Object.fromEntries(Array.from({ length: MAX_TABLE_COLUMNS + 3 }, (_, i) => [`c${i}`, i]));
+    const view = describeToolResult({ rows: Array.from({ length: MAX_TABLE_ROWS + 10 }, () => row) });
+    const table = view.sections[0];
+    expect(table.kind).toBe("table");
+    if (table.kind !== "table") return;
+    expect(table.columns).toHaveLength(MAX_TABLE_COLUMNS);
+    expect(table.rows).toHaveLength(MAX_TABLE_ROWS);
+    expect(table.total).toBe(MAX_TABLE_ROWS + 10);
+  });
+
+  it("surfaces tool errors and handles non-record results", () => {
+    expect(describeToolResult({ tool: "get_officer_detail", error: "Officer not found: x" })).toEqual({
+      error: "Officer not found: x",
+      sections: [],
+    });
+    expect(describeToolResult("done").sections).toEqual([
+      { kind: "fields", title: null, fields: [{ label: "Result", value: "done" }] },
+    ]);
+    expect(describeToolResult([1, 2]).sections[0]).toMatchObject({ kind: "list", items: ["1", "2"] });
+  });
+});
+
+describe("formatValue", () => {
+  it("formats scalars and truncates long values", () => {
+    expect(formatValue(null)).toBe("—");
+    expect(formatValue(false)).toBe("no");
+    expect(formatValue({ a: 1 })).toBe('{"a":1}');
+    expect(formatValue("x".repeat(200))).toHaveLength(80);
+  });
+});
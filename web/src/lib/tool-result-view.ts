@@ -0,0 +1,103 @@
+/**
+ * tool-result-view.ts — Shape raw tool output into card sections.
+ *
+ * Tools return loosely structured JSON. For the transcript card, top-level
+ * scalars become a key/value grid, arrays of records become tables, arrays
+ * of scalars become lists and nested records become titled key/value
+ * sections. Anything deeper is shown as compact JSON; the card keeps a
+ * raw JSON toggle for the full output.
+ */
+
+import { humanizeName } from "./slash-commands.js";
+
+export const MAX_TABLE_ROWS = 25;
+export const MAX_TABLE_COLUMNS = 6;
+const MAX_CELL_LENGTH = 80;
+
+export interface ResultField {
+  label: string;
+  value: string;
+}
+
+export type ResultSection =
+  | { kind: "fields"; title: string | null; fields: ResultField[] }
+  | { kind: "table"; title: string; columns: string[]; labels: string[]; rows: string[][]; total: number }
+  | { kind: "list"; title: string; items: string[]; total: number };
+
+export interface ToolResultView {
+  error: string | null;
+  sections: ResultSection[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isScalar(value: unknown): boolean {
+  return value === null || ["string", "number", "boolean"].includes(typeof value);
+}
+
+/** One cell or field value as display text. */
+export function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  const text = typeof value === "string" ? value : typeof value === "number" ? String(value) : JSON.stringify(value);
+  return text.length > MAX_CELL_LENGTH ? `${text.slice(0, MAX_CELL_LENGTH - 1)}…` : text;
+}
+
+/** Columns for a table: scalar keys in first-seen order, capped. */
+function tableColumns(rows: Record<string, unknown>[]): string[] {
+  const columns: string[] = [];
+  for (const row of rows.slice(0, MAX_TABLE_ROWS)) {
+    for (const [key, value] of Object.entries(row)) {
+      if (!columns.includes(key) && isScalar(value)) columns.push(key);
+    }
+  }
+  return columns.slice(0, MAX_TABLE_COLUMNS);
+}
+
+function arraySection(title: string, items: unknown[]): ResultSection {
+  if (items.length > 0 && items.every(isRecord)) {
+    const columns = tableColumns(items);
+    return {
+      kind: "table",
+      title,
+      columns,
+      labels: columns.map(humanizeName),
+      rows: items.slice(0, MAX_TABLE_ROWS).map((row) => columns.map((column) => formatValue(row[column]))),
+      total: items.length,
+    };
+  }
+  return { kind: "list", title, items: items.slice(0, MAX_TABLE_ROWS).map(formatValue), total: items.length };
+}
+
+/** Card sections for a tool result; `error` is set when the tool failed. */
+export function describeToolResult(result: unknown): ToolResultView {
+  if (!isRecord(result)) {
+    return Array.isArray(result)
+      ? { error: null, sections: [arraySection("Results", result)] }
+      : { error: null, sections: [{ kind: "fields", title: null, fields: [{ label: "Result", value: formatValue(result) }] }] };
+  }
+
+  const error = typeof result.error === "string" ? result.error : null;
+  const summary: ResultField[] = [];
+  const sections: ResultSection[] = [];
+  for (const [key, value] of Object.entries(result)) {
+    // The tool name is already in the card header
+    if (key === "tool" || key === "error") continue;
+    const label = humanizeName(key);
+    if (Array.isArray(value)) {
+      sections.push(arraySection(label, value));
+    } else if (isRecord(value)) {
+      sections.push({
+        kind: "fields",
+        title: label,
+        fields: Object.entries(value).map(([k, v]) => ({ label: humanizeName(k), value: formatValue(v) })),
+      });
+    } else {
+      summary.push({ label, value: formatValue(value) });
+    }
+  }
+  if (summary.length > 0) sections.unshift({ kind: "fields", title: null, fields: summary });
+  return { error, sections };
+}
@@ -102,6 +102,8 @@ export interface EffectiveDockEntry {
   variantPatch: VariantPatch | null;
   intentKeys: string[];
   source: PlanSource;
+  /** Which owned copy of the ship is docked (ADR-051); null = any */
+  shipInstanceId: string | null;
 }
 
 export interface EffectiveDockState {
@@ -119,6 +121,16 @@ export interface FleetPreset {
   updatedAt: string;
 }
 
+/**
+ * When a plan item is in effect (UTC).
+ * "once": ISO start/end. "daily": HH:MM start/end; end ≤ start wraps past midnight.
+ */
+export interface PlanWindow {
+  kind: "once" | "daily";
+  start: string;
+  end: string;
+}
+
 export interface FleetPresetSlot {
   id: number;
   presetId: number;
@@ -147,10 +159,104 @@ export interface PlanItem {
   isActive: boolean;
   source: PlanSource;
   notes: string | null;
+  window: PlanWindow | null;
+  shipInstanceId: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export type SolverMode = "greedy" | "optimal";
+
+export interface SolverAssignment {
+  planItemId: number;
+  planItemLabel: string | null;
+  loadoutId: number | null;
+  loadoutName: string | null;
+  dockNumber: number | null;
+  action: "assigned" | "queued" | "conflict" | "unchanged";
+  explanation: string;
+  crewChange?: SolverCrewChange;
+}
+
+/** Variant or owned-officer substitution the solver used to clear a conflict. */
+export interface SolverCrewChange {
+  kind: "variant" | "substitution";
+  variantId: number | null;
+  variantName: string | null;
+  substitutions: {
+    slot: BridgeSlot;
+    fromOfficerId: string;
+    fromOfficerName: string;
+    toOfficerId: string;
+    toOfficerName: string;
+  }[];
+  scoreDeltaPct: number | null;
+}
+
+export interface SolverResult {
+  mode: SolverMode;
+  assignments: SolverAssignment[];
+  applied: boolean;
+  conflicts: OfficerConflict[];
+  coverage: { achieved: number; possible: number };
+  summary: string;
+  warnings: string[];
+}
+
+export interface SolverComparison {
+  greedy: SolverResult;
+  optimal: SolverResult;
+  changedPlanItemIds: number[];
+  coverageGain: number;
+  summary: string;
+}
+
+export interface ScheduleOccupant {
+  planItemId: number;
+  planItemLabel: string | null;
+  loadoutId: number | null;
+  loadoutName: string | null;
+}
+
+export interface ScheduleOfficer {
+  id: string;
+  name: string;
+}
+
+export interface DockScheduleEntry extends ScheduleOccupant {
+  start: string;
+  end: string;
+  officers: ScheduleOfficer[];
+  crewChange?: SolverCrewChange;
+}
+
+export interface DockSwitch {
+  at: string;
+  dockNumber: number;
+  from: ScheduleOccupant | null;
+  to: ScheduleOccupant | null;
+  officersOut: ScheduleOfficer[];
+  officersIn: ScheduleOfficer[];
+}
+
+/** Per-dock timeline of time-windowed plan items. */
+export interface DockSchedule {
+  mode: SolverMode;
+  from: string;
+  to: string;
+  docks: { dockNumber: number; entries: DockScheduleEntry[] }[];
+  switches: DockSwitch[];
+  unscheduled: {
+    start: string;
+    end: string;
+    planItemId: number;
+    planItemLabel: string | null;
+    action: "queued" | "conflict";
+    explanation: string;
+  }[];
+  warnings: string[];
+}
+
 export interface IntentDef {
   key: string;
   label: string;
@@ -6,4 +6,7 @@ export type {
   PlanSource,
   OfficerReservation,
   EffectiveDockState,
+  SolverComparison,
+  SolverMode,
+  SolverResult,
 } from "../types.js";
@@ -27,6 +27,91 @@ export interface AdminSession {
   lastSeenAt: string;
 }
 
+export type ApiTokenScope = "catalog:read" | "overlay:write" | "plan:read" | "chat:run" | "mcp";
+
+/** A personal access token — the secret itself is only returned at creation. */
+export interface ApiToken {
+  id: number;
+  userId: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+}
+
+export interface AdminApiToken extends ApiToken {
+  ownerEmail: string;
+  ownerDisplayName: string;
+}
+
+export type FleetEventType =
+  | "target.achieved"
+  | "proposal.created"
+  | "proposal.applied"
+  | "import.committed"
+  | "plan.conflicts"
+  | "timer.completed";
+
+/** An outbound webhook — the signing secret is only returned at creation. */
+export interface Webhook {
+  id: number;
+  userId: string;
+  url: string;
+  secretPrefix: string;
+  events: FleetEventType[];
+  enabled: boolean;
+  description: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+/** One event sent (or being retried) to a webhook. */
+export interface WebhookDelivery {
+  id: number;
+  webhookId: number;
+  event: string;
+  payload: { event: string; occurredAt: string; data: Record<string, unknown> };
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+/** A chat bot registered by an Admiral — the signing secret is only returned at creation. */
+export interface ChatSurface {
+  id: number;
+  kind: "webhook";
+  name: string;
+  callbackUrl: string;
+  secretPrefix: string;
+  enabled: boolean;
+  createdBy: string;
+  linkCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A platform account (e.g. a Discord user) linked to the current Majel user. */
+export interface ChatSurfaceLink {
+  surfaceId: number;
+  surfaceName: string;
+  platformUserId: string;
+  platformUsername: string | null;
+  userId: string;
+  linkedAt: string;
+  lastMessageAt: string | null;
+}
+
 export interface BudgetRankDefaults {
   defaults: Record<string, number>;
   paddingPct: number;
@@ -145,7 +230,9 @@ export interface Timer {
   createdAt: number;
   completedCount: number;
   presetId?: string;
-  launchSource?: "preset" | "custom" | "manual";
+  launchSource?: "preset" | "custom" | "manual" | "armada";
+  /** What an auto-created timer counts down to, e.g. "armada:7". */
+  sourceRef?: string;
 }
 
 export interface QuickPreset {
@@ -290,6 +377,12 @@ export interface RecallEntry {
   summary: string;
   reference: string;
   keywords: string[];
+  /** Hybrid relevance, 0–1 */
+  score: number;
+  /** Cosine similarity to the query; null for keyword-only matches */
+  similarity: number | null;
+  /** Full-text rank relative to the best keyword match, 0–1 */
+  keywordScore: number;
 }
 
 export interface RecallResponse {
@@ -324,3 +417,288 @@ export interface BulkOverlayResponse {
   refIds: number;
   receiptId?: number | null;
 }
+
+// ─── Battle Reports ─────────────────────────────────────────
+
+export type BattleLogFormat = "json" | "csv";
+export type BattleOutcome = "win" | "loss";
+
+export interface BattleReportSummary {
+  id: number;
+  battleId: string | null;
+  mode: string | null;
+  fileName: string | null;
+  format: BattleLogFormat;
+  rounds: number;
+  destroyed: boolean;
+  damageDealt: number;
+  damageReceived: number;
+  source: "import" | "chat";
+  outcome: BattleOutcome;
+  likelyCause: string | null;
+  loadoutId: number | null;
+  shipId: string | null;
+  hostileId: string | null;
+  opponentName: string | null;
+  opponentFaction: string | null;
+  opponentHullType: string | null;
+  createdAt: string;
+}
+
+export interface DamageByType {
+  type: string;
+  amount: number;
+}
+
+export interface BattleReplayRound {
+  round: number;
+  hullAfter: number | null;
+  shieldAfter: number | null;
+  destroyed: boolean;
+  damageReceived: number;
+  damageDealt: number;
+  receivedByType: DamageByType[];
+  dealtByType: DamageByType[];
+  abilityTriggers: string[];
+}
+
+export interface BattleReplay {
+  rounds: BattleReplayRound[];
+  totals: {
+    damageReceived: number;
+    damageDealt: number;
+    receivedByType: DamageByType[];
+    dealtByType: DamageByType[];
+  };
+  abilities: Array<{ name: string; count: number; firstRound: number }>;
+}
+
+/** Fights and wins for one group (a loadout, faction or hull type). Null key = untagged. */
+export interface BattleWinRate {
+  key: string | null;
+  fights: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+}
+
+export interface BattleAnalytics {
+  fights: number;
+  wins: number;
+  losses: number;
+  winRate: number | null;
+  byLoadout: Array<BattleWinRate & { loadoutName: string | null }>;
+  byOpponentFaction: BattleWinRate[];
+  byOpponentHullType: BattleWinRate[];
+  failureCauses: Array<{ likelyCause: string; count: number; share: number }>;
+  abilities: Array<{ name: string; fights: number; triggers: number; winRate: number }>;
+}
+
+// ─── Targets ────────────────────────────────────────────────
+
+export type TargetType = "officer" | "ship" | "crew";
+export type TargetStatus = "active" | "achieved" | "abandoned";
+
+export interface Target {
+  id: number;
+  targetType: TargetType;
+  refId: string | null;
+  loadoutId: number | null;
+  targetTier: number | null;
+  targetRank: string | null;
+  targetLevel: number | null;
+  reason: string | null;
+  priority: number;
+  status: TargetStatus;
+  autoSuggested: boolean;
+  createdAt: string;
+  updatedAt: string;
+  achievedAt: string | null;
+}
+
+export interface TargetDependency {
+  targetId: number;
+  dependsOnId: number;
+  createdAt: string;
+}
+
+export interface TargetMilestone {
+  percent: number | null;
+  source: "achieved" | "overlay" | "deltas" | "mixed" | "none";
+  metrics: Array<{ metric: string; current: number | null; goal: number; baseline: number | null; source: "overlay" | "delta" | null }>;
+}
+
+export interface TargetGraphNode {
+  target: Target;
+  label: string;
+  progress: TargetMilestone;
+  dependsOn: number[];
+  dependents: number[];
+  blockedBy: number[];
+  blocked: boolean;
+  depth: number;
+}
+
+/** Targets in work order (prerequisites first) with what blocks what. */
+export interface TargetGraph {
+  nodes: TargetGraphNode[];
+  edges: TargetDependency[];
+  cycles: number[][];
+  ready: number[];
+}
+
+// ─── Fleet Decisions ────────────────────────────────────────
+
+export type DecisionKind = "goal" | "saving" | "prefer" | "avoid";
+export type DecisionStatus = "active" | "invalidated";
+
+/** A decision or standing preference Aria remembers across conversations. */
+export interface FleetDecision {
+  id: number;
+  kind: DecisionKind;
+  statement: string;
+  subjectType: "officer" | "ship" | null;
+  subjectRefId: string | null;
+  subjectName: string | null;
+  /** Ownership of the subject the decision assumes; a change invalidates it */
+  assumesOwnership: "owned" | "unowned" | null;
+  assumesTarget: boolean | null;
+  status: DecisionStatus;
+  invalidatedReason: string | null;
+  invalidatedAt: string | null;
+  source: "chat" | "manual";
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DecisionList {
+  decisions: FleetDecision[];
+  counts: { active: number; invalidated: number };
+}
+
+// ─── Direct Tool Invocation ─────────────────────────────────
+
+/** JSON Schema for one tool argument (as served by GET /api/tools). */
+export interface ToolArgSchema {
+  type: string;
+  description?: string;
+  enum?: string[];
+  items?: ToolArgSchema;
+  properties?: Record<string, ToolArgSchema>;
+  required?: string[];
+}
+
+/** A read-only fleet tool the chat `/` palette can run directly. */
+export interface ToolDescriptor {
+  name: string;
+  description: string;
+  inputSchema: { type: "object"; properties: Record<string, ToolArgSchema>; required?: string[] };
+}
+
+export interface ToolRunResult {
+  tool: string;
+  args: Record<string, unknown>;
+  /** Tool output; failures carry an `error` field */
+  result: unknown;
+  durationMs: number;
+}
+
+// ─── Alliances ──────────────────────────────────────────────
+
+/** Roles inside an alliance, lowest first. Separate from the site rank. */
+export type AllianceRole = "member" | "officer" | "leader";
+
+export interface Alliance {
+  id: string;
+  name: string;
+  tag: string | null;
+  /** Only shown to officers and the leader */
+  joinCode: string | null;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AllianceMember {
+  userId: string;
+  displayName: string;
+  role: AllianceRole;
+  /** Whether this member lets the alliance see their owned ships and officers */
+  shareOverlays: boolean;
+  joinedAt: string;
+}
+
+export interface AllianceMembership {
+  alliance: Alliance;
+  role: AllianceRole;
+  shareOverlays: boolean;
+  memberCount: number;
+}
+
+export interface AllianceOverview {
+  /** Null outside an alliance */
+  membership: AllianceMembership | null;
+  members: AllianceMember[];
+}
+
+export interface AlliancePlanItem {
+  id: number;
+  title: string;
+  notes: string | null;
+  dueAt: string | null;
+  status: "open" | "done";
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AllianceTargetType = "officer" | "ship" | "other";
+
+export interface AllianceTarget {
+  id: number;
+  targetType: AllianceTargetType;
+  refId: string | null;
+  label: string;
+  /** 1 (high) – 3 (low) */
+  priority: number;
+  notes: string | null;
+  createdBy: string;
+  createdAt: string;
+}
+
+export type ArmadaSignupIssueType = "not_docked" | "away_team" | "officer_reserved";
+
+export interface ArmadaSignupIssue {
+  type: ArmadaSignupIssueType;
+  officerId: string | null;
+  detail: string;
+}
+
+export interface ArmadaSignup {
+  userId: string;
+  displayName: string;
+  shipRefId: string | null;
+  shipName: string | null;
+  loadoutId: number | null;
+  loadoutName: string | null;
+  dockNumber: number | null;
+  issues: ArmadaSignupIssue[];
+  /** Null when the sign-up named no catalog ship, so it was never checked. */
+  checkedAt: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface AllianceArmada {
+  id: number;
+  name: string;
+  hostileId: string | null;
+  hostileName: string | null;
+  startsAt: string;
+  /** Ships needed; each sign-up brings one. */
+  minParticipants: number | null;
+  notes: string | null;
+  createdBy: string;
+  createdAt: string;
+  signups: ArmadaSignup[];
+}
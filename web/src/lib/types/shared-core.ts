@@ -38,6 +38,12 @@ export interface ChatMessage {
   createdAt: string;
   /** Proposal IDs attached to this message (present on model messages after session restore). */
   proposalIds?: string[];
+  /** Fleet tools the model called while producing this message. */
+  toolCalls?: string[];
+  /** The message this one follows; null for the first message of a thread. */
+  parentId?: number | null;
+  /** This message and its alternatives (edits, regenerations), oldest first. Only set where the thread forks. */
+  branchIds?: number[];
 }
 
 export interface ChatSession {
@@ -50,6 +56,27 @@ export interface ChatSession {
   proposals?: Record<string, ChatProposal & { status: string }>;
 }
 
+/** A file produced by GET /api/sessions/:id/export. */
+export interface SessionExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+/** A signed read-only link to a session, from POST /api/sessions/:id/share. */
+export interface SessionShareLink {
+  token: string;
+  /** Path of the public page — prefix with the origin to share it. */
+  url: string;
+  expiresAt: string;
+  messageCount: number;
+}
+
+export interface ChatMessageIds {
+  user: number;
+  model: number;
+}
+
 export interface ChatImage {
   data: string;
   mimeType: string;
@@ -93,13 +120,15 @@ export interface ChatResponse {
   trace?: ChatTrace;
   /** Cache mutation keys to invalidate after auto-trust tool execution. */
   mutations?: string[];
+  /** Stored IDs of this turn's messages, for editing or regenerating it later. */
+  messageIds?: ChatMessageIds;
   [key: string]: unknown;
 }
 
 export type ModelTier = "budget" | "balanced" | "thinking" | "premium" | "frontier";
 export type ModelSpeed = "fastest" | "fast" | "moderate" | "slow";
 
-export type ModelProvider = "gemini" | "claude";
+export type ModelProvider = "gemini" | "claude" | "local";
 
 export interface ModelDef {
   id: string;
@@ -191,6 +220,16 @@ export interface CatalogOfficer {
   targetPriority: number | null;
 }
 
+/** Reference hostile, as returned by the hostile search (armada picker). */
+export interface CatalogHostile {
+  id: string;
+  name: string;
+  faction: string | null;
+  level: number | null;
+  hullType: number | null;
+  strength: number | null;
+}
+
 export interface CatalogShip {
   id: string;
   instanceId: string;
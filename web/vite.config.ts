@@ -50,6 +50,8 @@ export default defineConfig({
       "/reset-password": { target: EXPRESS, changeOrigin: true },
       "/landing.css": { target: EXPRESS, changeOrigin: true },
       "/landing.js": { target: EXPRESS, changeOrigin: true },
+      // Read-only shared conversations (/shared/:token, shared.css, shared.js)
+      "/shared": { target: EXPRESS, changeOrigin: true },
       // ── Static assets ──────────────────────────────────────
       "/favicon.ico": { target: EXPRESS, changeOrigin: true },
       "/site.webmanifest": { target: EXPRESS, changeOrigin: true },